@@ -11,6 +11,7 @@ import Portal from "@/pages/portal";
 import Dashboard from "@/pages/dashboard";
 import Admin from "@/pages/admin";
 import AuthCallback from "@/pages/auth-callback";
+import AppointmentAction from "@/pages/appointment-action";
 import PrivacyPolicy from "@/pages/privacy-policy";
 import Terms from "@/pages/terms";
 import Policies from "@/pages/policies";
@@ -24,6 +25,7 @@ function Router() {
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/admin" component={Admin} />
       <Route path="/auth/callback" component={AuthCallback} />
+      <Route path="/appointment-action" component={AppointmentAction} />
       <Route path="/privacy-policy" component={PrivacyPolicy} />
       <Route path="/terms" component={Terms} />
       <Route path="/policies" component={Policies} />
@@ -13,6 +13,17 @@ import {
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { useI18n } from "@/lib/i18n";
+import { OFFICE_HOURS, formatOfficeHours } from "@shared/office-hours";
+
+/** Formato de horas por idioma; el criollo haitiano usa el de EE. UU. */
+const HOURS_LOCALES: Record<string, string> = {
+  en: "en-US",
+  es: "es-US",
+  fr: "fr-FR",
+  pt: "pt-BR",
+  zh: "zh-CN",
+  ht: "en-US",
+};
 
 export function AboutSection() {
   const { language } = useI18n();
@@ -35,8 +46,8 @@ export function AboutSection() {
       phoneLabel: "Phone",
       emailLabel: "Email",
       hoursLabel: "Business Hours",
-      weekdayHours: "Monday - Friday: 9:00 AM - 7:00 PM",
-      weekendHours: "Saturday: 10:00 AM - 4:00 PM",
+      weekdayLabel: "Monday - Friday",
+      saturdayLabel: "Saturday",
     },
     es: {
       title: "Sobre Nosotros",
@@ -55,8 +66,8 @@ export function AboutSection() {
       phoneLabel: "Teléfono",
       emailLabel: "Correo Electrónico",
       hoursLabel: "Horario de Atención",
-      weekdayHours: "Lunes - Viernes: 9:00 AM - 7:00 PM",
-      weekendHours: "Sábado: 10:00 AM - 4:00 PM",
+      weekdayLabel: "Lunes - Viernes",
+      saturdayLabel: "Sábado",
     },
     fr: {
       title: "À Propos de Nous",
@@ -75,8 +86,8 @@ export function AboutSection() {
       phoneLabel: "Téléphone",
       emailLabel: "Email",
       hoursLabel: "Heures d'Ouverture",
-      weekdayHours: "Lundi - Vendredi: 9h00 - 19h00",
-      weekendHours: "Samedi: 10h00 - 16h00",
+      weekdayLabel: "Lundi - Vendredi",
+      saturdayLabel: "Samedi",
     },
     pt: {
       title: "Sobre Nós",
@@ -95,8 +106,8 @@ export function AboutSection() {
       phoneLabel: "Telefone",
       emailLabel: "Email",
       hoursLabel: "Horário de Funcionamento",
-      weekdayHours: "Segunda - Sexta: 9:00 - 19:00",
-      weekendHours: "Sábado: 10:00 - 16:00",
+      weekdayLabel: "Segunda - Sexta",
+      saturdayLabel: "Sábado",
     },
     zh: {
       title: "关于我们",
@@ -115,8 +126,8 @@ export function AboutSection() {
       phoneLabel: "电话",
       emailLabel: "电子邮件",
       hoursLabel: "营业时间",
-      weekdayHours: "周一至周五: 上午9点 - 下午7点",
-      weekendHours: "周六: 上午10点 - 下午4点",
+      weekdayLabel: "周一至周五",
+      saturdayLabel: "周六",
     },
     ht: {
       title: "Sou Nou",
@@ -135,12 +146,13 @@ export function AboutSection() {
       phoneLabel: "Telefòn",
       emailLabel: "Imèl",
       hoursLabel: "Lè Travay",
-      weekdayHours: "Lendi - Vandredi: 9:00 AM - 7:00 PM",
-      weekendHours: "Samdi: 10:00 AM - 4:00 PM",
+      weekdayLabel: "Lendi - Vandredi",
+      saturdayLabel: "Samdi",
     },
   };
 
   const currentContent = content[language as keyof typeof content] || content.en;
+  const hoursLocale = HOURS_LOCALES[language] || HOURS_LOCALES.en;
 
   return (
     <section id="about" className="py-20 bg-muted/30 scroll-mt-20" data-testid="section-about">
@@ -241,8 +253,8 @@ export function AboutSection() {
                     <div>
                       <div className="font-medium mb-1">{currentContent.hoursLabel}</div>
                       <div className="text-muted-foreground text-sm">
-                        {currentContent.weekdayHours}<br />
-                        {currentContent.weekendHours}
+                        {currentContent.weekdayLabel}: {formatOfficeHours(OFFICE_HOURS[1], hoursLocale)}<br />
+                        {currentContent.saturdayLabel}: {formatOfficeHours(OFFICE_HOURS[6], hoursLocale)}
                       </div>
                     </div>
                   </div>
@@ -34,6 +34,10 @@ const statusLabels: Record<string, string> = {
   sent_to_irs: "Enviado IRS",
   approved: "Aprobado",
   refund_issued: "Reembolso",
+  awaiting_documents: "Esperando Docs",
+  rejected_by_irs: "Rechazado IRS",
+  amended: "Enmendado",
+  closed: "Cerrado",
 };
 
 const statusColors: Record<string, string> = {
@@ -42,6 +46,10 @@ const statusColors: Record<string, string> = {
   sent_to_irs: "#8b5cf6",
   approved: "#22c55e",
   refund_issued: "#10b981",
+  awaiting_documents: "#f97316",
+  rejected_by_irs: "#ef4444",
+  amended: "#14b8a6",
+  closed: "#6b7280",
 };
 
 const CHART_COLORS = ["#0A3D62", "#2ECC71", "#3498db", "#9b59b6", "#f39c12"];
@@ -62,11 +70,13 @@ export function AnalyticsDashboard() {
     );
   }
 
-  const pieData = analytics?.casesByStatus.map(item => ({
-    name: statusLabels[item.status] || item.status,
-    value: item.count,
-    color: statusColors[item.status] || "#666",
-  })) || [];
+  const pieData = analytics?.casesByStatus
+    .filter(item => item.count > 0)
+    .map(item => ({
+      name: statusLabels[item.status] || item.status,
+      value: item.count,
+      color: statusColors[item.status] || "#666",
+    })) || [];
 
   const totalCases = pieData.reduce((acc, item) => acc + item.value, 0);
   const totalRevenue = analytics?.casesByMonth.reduce((acc, item) => acc + item.amount, 0) || 0;
@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { FileText } from "lucide-react";
+import type { Document } from "@shared/schema";
+
+type PreviewDocument = Pick<Document, "id" | "fileName" | "previewPath">;
+
+function PreviewTile({ doc }: { doc: PreviewDocument }) {
+  const [failed, setFailed] = useState(false);
+
+  return (
+    <button
+      type="button"
+      onClick={() => window.open(`/api/documents/${doc.id}/download`, "_blank")}
+      className="group flex flex-col overflow-hidden rounded-md border bg-muted text-left hover-elevate"
+      title={doc.fileName}
+      data-testid={`preview-${doc.id}`}
+    >
+      <div className="flex aspect-[3/4] w-full items-center justify-center overflow-hidden bg-white">
+        {failed ? (
+          <FileText className="h-8 w-8 text-muted-foreground" />
+        ) : (
+          <img
+            src={`/api/documents/${doc.id}/preview`}
+            alt={doc.fileName}
+            loading="lazy"
+            className="h-full w-full object-cover object-top"
+            onError={() => setFailed(true)}
+          />
+        )}
+      </div>
+      <span className="truncate px-2 py-1 text-xs">{doc.fileName}</span>
+    </button>
+  );
+}
+
+/**
+ * Cuadrícula de miniaturas de documentos
+ *
+ * Solo muestra los documentos con vista previa generada; al hacer clic
+ * se abre la descarga del archivo completo.
+ */
+export function DocumentPreviewGrid({ documents }: { documents: PreviewDocument[] }) {
+  const previewable = documents.filter((doc) => doc.previewPath);
+  if (previewable.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-3 gap-2 sm:grid-cols-4 md:grid-cols-5" data-testid="document-preview-grid">
+      {previewable.map((doc) => (
+        <PreviewTile key={doc.id} doc={doc} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+
+const PAD_WIDTH = 500;
+const PAD_HEIGHT = 160;
+
+/**
+ * Área para dibujar una firma con el mouse, el dedo o un lápiz
+ *
+ * Al terminar cada trazo entrega la firma como PNG (fondo transparente);
+ * al borrarla entrega null.
+ */
+export function SignaturePad({
+  onChange,
+  clearLabel,
+}: {
+  onChange: (signature: Blob | null) => void;
+  clearLabel: string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    context.lineWidth = 2.5;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.strokeStyle = "#111827";
+  }, []);
+
+  // Coordenadas del puntero en la escala interna del canvas
+  const pointFrom = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * PAD_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * PAD_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    const { x, y } = pointFrom(event);
+    context.beginPath();
+    context.moveTo(x, y);
+    // Un toque sin movimiento deja un punto
+    context.lineTo(x + 0.1, y + 0.1);
+    context.stroke();
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+    const { x, y } = pointFrom(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    canvasRef.current?.toBlob((blob) => onChange(blob), "image/png");
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={PAD_WIDTH}
+        height={PAD_HEIGHT}
+        className="w-full touch-none rounded-md border bg-white"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        data-testid="canvas-signature"
+      />
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={clear} data-testid="button-clear-signature">
+          {clearLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
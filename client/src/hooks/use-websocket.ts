@@ -219,9 +219,10 @@ export function useWebSocket(token: string | null) {
         break;
 
       case "document":
-        // Nuevo documento: refrescar listas de documentos
+        // Nuevo documento o solicitud de documento: refrescar listas
         queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
         queryClient.invalidateQueries({ queryKey: ["/api/admin/documents"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/document-requests"] });
         toast({
           title: notification.title,
           description: notification.message,
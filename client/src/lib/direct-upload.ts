@@ -0,0 +1,72 @@
+/**
+ * Subida directa de archivos a R2
+ *
+ * Los archivos grandes no caben en el límite de cuerpo de las funciones
+ * serverless, así que el navegador los sube a R2 con URLs firmadas y el
+ * servidor los verifica al completar. El bucket debe permitir PUT desde
+ * el dominio de la aplicación y exponer la cabecera ETag (CORS).
+ *
+ * Con almacenamiento local (desarrollo) el servidor no admite subidas
+ * directas y el archivo se envía por la subida normal.
+ */
+
+/** A partir de este tamaño se sube directo a R2 (Vercel admite cuerpos de hasta 4.5MB) */
+export const DIRECT_UPLOAD_THRESHOLD = 4 * 1024 * 1024;
+
+export interface DirectUploadFields {
+  caseId?: number;
+  category: string;
+  description?: string;
+  requestId?: number;
+}
+
+interface UploadUrlResponse {
+  uploadId: number;
+  url?: string;
+  partSize?: number;
+  parts?: { partNumber: number; url: string }[];
+}
+
+/**
+ * Sube un archivo directamente a R2 y crea el documento
+ *
+ * Si algún paso falla se devuelve su respuesta; la subida a medias la
+ * limpia el job de purga del servidor al vencer.
+ *
+ * @returns Respuesta de /api/documents/complete, la del paso que falló, o
+ *   null si el almacenamiento no admite subidas directas
+ */
+export async function uploadDirect(file: File, fields: DirectUploadFields): Promise<Response | null> {
+  const urlResponse = await fetch("/api/documents/upload-url", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ fileName: file.name, fileType: file.type, fileSize: file.size, ...fields }),
+    credentials: "include",
+  });
+  if (urlResponse.status === 501) return null;
+  if (!urlResponse.ok) return urlResponse;
+
+  const upload: UploadUrlResponse = await urlResponse.json();
+
+  let parts: { partNumber: number; etag: string }[] | undefined;
+  if (upload.parts && upload.partSize) {
+    // Las partes se suben una a una para no saturar conexiones lentas
+    parts = [];
+    for (const part of upload.parts) {
+      const start = (part.partNumber - 1) * upload.partSize;
+      const response = await fetch(part.url, { method: "PUT", body: file.slice(start, start + upload.partSize) });
+      if (!response.ok) return response;
+      parts.push({ partNumber: part.partNumber, etag: response.headers.get("ETag") ?? "" });
+    }
+  } else if (upload.url) {
+    const response = await fetch(upload.url, { method: "PUT", body: file, headers: { "Content-Type": file.type } });
+    if (!response.ok) return response;
+  }
+
+  return fetch("/api/documents/complete", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ uploadId: upload.uploadId, parts }),
+    credentials: "include",
+  });
+}
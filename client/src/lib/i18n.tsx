@@ -73,8 +73,6 @@ const translations = {
     about_phone: "Phone",
     about_email: "Email",
     about_hours: "Business Hours",
-    about_hours_weekday: "Monday - Friday: 9AM - 7PM",
-    about_hours_weekend: "Saturday: 10AM - 4PM",
     about_hours_sunday: "Sunday: By appointment",
     
     contact_title: "Contact Us",
@@ -136,10 +134,14 @@ const translations = {
     document_other: "Other Document",
     
     case_status_pending: "Pending",
-    case_status_in_progress: "In Progress",
-    case_status_review: "Under Review",
-    case_status_completed: "Completed",
-    case_status_filed: "Filed",
+    case_status_in_process: "In Process",
+    case_status_sent_to_irs: "Sent to IRS",
+    case_status_approved: "Approved",
+    case_status_refund_issued: "Refund Issued",
+    case_status_awaiting_documents: "Awaiting Documents",
+    case_status_rejected_by_irs: "Rejected by IRS",
+    case_status_amended: "Amended",
+    case_status_closed: "Closed",
     
     admin_title: "Admin Dashboard",
     admin_clients: "Clients",
@@ -218,8 +220,6 @@ const translations = {
     about_phone: "Teléfono",
     about_email: "Correo Electrónico",
     about_hours: "Horario de Atención",
-    about_hours_weekday: "Lunes - Viernes: 9AM - 7PM",
-    about_hours_weekend: "Sábado: 10AM - 4PM",
     about_hours_sunday: "Domingo: Con cita previa",
     
     contact_title: "Contáctanos",
@@ -281,10 +281,14 @@ const translations = {
     document_other: "Otro Documento",
     
     case_status_pending: "Pendiente",
-    case_status_in_progress: "En Progreso",
-    case_status_review: "En Revisión",
-    case_status_completed: "Completado",
-    case_status_filed: "Presentado",
+    case_status_in_process: "En Proceso",
+    case_status_sent_to_irs: "Enviado al IRS",
+    case_status_approved: "Aprobado",
+    case_status_refund_issued: "Reembolso Emitido",
+    case_status_awaiting_documents: "Esperando Documentos",
+    case_status_rejected_by_irs: "Rechazado por el IRS",
+    case_status_amended: "Enmendado",
+    case_status_closed: "Cerrado",
     
     admin_title: "Panel de Administrador",
     admin_clients: "Clientes",
@@ -363,8 +367,6 @@ const translations = {
     about_phone: "Téléphone",
     about_email: "Email",
     about_hours: "Heures d'Ouverture",
-    about_hours_weekday: "Lundi - Vendredi: 9h - 19h",
-    about_hours_weekend: "Samedi: 10h - 16h",
     about_hours_sunday: "Dimanche: Sur rendez-vous",
     
     contact_title: "Contactez-Nous",
@@ -426,10 +428,14 @@ const translations = {
     document_other: "Autre Document",
     
     case_status_pending: "En Attente",
-    case_status_in_progress: "En Cours",
-    case_status_review: "En Révision",
-    case_status_completed: "Terminé",
-    case_status_filed: "Déposé",
+    case_status_in_process: "En Cours",
+    case_status_sent_to_irs: "Envoyé à l'IRS",
+    case_status_approved: "Approuvé",
+    case_status_refund_issued: "Remboursement Émis",
+    case_status_awaiting_documents: "En Attente de Documents",
+    case_status_rejected_by_irs: "Rejeté par l'IRS",
+    case_status_amended: "Amendé",
+    case_status_closed: "Clôturé",
     
     admin_title: "Tableau de Bord Admin",
     admin_clients: "Clients",
@@ -508,8 +514,6 @@ const translations = {
     about_phone: "Telefone",
     about_email: "Email",
     about_hours: "Horário de Funcionamento",
-    about_hours_weekday: "Segunda - Sexta: 9h - 19h",
-    about_hours_weekend: "Sábado: 10h - 16h",
     about_hours_sunday: "Domingo: Com agendamento",
     
     contact_title: "Entre em Contato",
@@ -571,10 +575,14 @@ const translations = {
     document_other: "Outro Documento",
     
     case_status_pending: "Pendente",
-    case_status_in_progress: "Em Andamento",
-    case_status_review: "Em Revisão",
-    case_status_completed: "Concluído",
-    case_status_filed: "Enviado",
+    case_status_in_process: "Em Processo",
+    case_status_sent_to_irs: "Enviado ao IRS",
+    case_status_approved: "Aprovado",
+    case_status_refund_issued: "Reembolso Emitido",
+    case_status_awaiting_documents: "Aguardando Documentos",
+    case_status_rejected_by_irs: "Rejeitado pelo IRS",
+    case_status_amended: "Retificado",
+    case_status_closed: "Encerrado",
     
     admin_title: "Painel Administrativo",
     admin_clients: "Clientes",
@@ -653,8 +661,6 @@ const translations = {
     about_phone: "电话",
     about_email: "电子邮件",
     about_hours: "营业时间",
-    about_hours_weekday: "周一至周五：上午9点 - 下午7点",
-    about_hours_weekend: "周六：上午10点 - 下午4点",
     about_hours_sunday: "周日：预约制",
     
     contact_title: "联系我们",
@@ -716,10 +722,14 @@ const translations = {
     document_other: "其他文档",
     
     case_status_pending: "待处理",
-    case_status_in_progress: "进行中",
-    case_status_review: "审核中",
-    case_status_completed: "已完成",
-    case_status_filed: "已提交",
+    case_status_in_process: "处理中",
+    case_status_sent_to_irs: "已提交至IRS",
+    case_status_approved: "已批准",
+    case_status_refund_issued: "退税已发放",
+    case_status_awaiting_documents: "等待文件",
+    case_status_rejected_by_irs: "被IRS拒绝",
+    case_status_amended: "已修正",
+    case_status_closed: "已关闭",
     
     admin_title: "管理仪表板",
     admin_clients: "客户",
@@ -798,8 +808,6 @@ const translations = {
     about_phone: "Telefòn",
     about_email: "Imèl",
     about_hours: "Lè Travay",
-    about_hours_weekday: "Lendi - Vandredi: 9AM - 7PM",
-    about_hours_weekend: "Samdi: 10AM - 4PM",
     about_hours_sunday: "Dimanch: Sou randevou",
     
     contact_title: "Kontakte Nou",
@@ -861,10 +869,14 @@ const translations = {
     document_other: "Lòt Dokiman",
     
     case_status_pending: "An Atant",
-    case_status_in_progress: "An Pwogre",
-    case_status_review: "An Revizyon",
-    case_status_completed: "Fini",
-    case_status_filed: "Depoze",
+    case_status_in_process: "An Pwosesis",
+    case_status_sent_to_irs: "Voye bay IRS",
+    case_status_approved: "Apwouve",
+    case_status_refund_issued: "Ranbousman Bay",
+    case_status_awaiting_documents: "Ap Tann Dokiman",
+    case_status_rejected_by_irs: "IRS Rejte",
+    case_status_amended: "Amande",
+    case_status_closed: "Fèmen",
     
     admin_title: "Tablo Bò Admin",
     admin_clients: "Kliyan",
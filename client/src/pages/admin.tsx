@@ -3,7 +3,7 @@
  * Panel de administración con soporte multi-idioma
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, Fragment } from "react";
 import { useLocation, Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/lib/auth-context";
@@ -18,6 +18,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
 import {
   Select,
   SelectContent,
@@ -47,7 +49,27 @@ import { ThemeToggle } from "@/components/theme-toggle";
 import { LanguageSelector } from "@/components/language-selector";
 import { MessagingPanel } from "@/components/messaging";
 import { AnalyticsDashboard } from "@/components/analytics-dashboard";
-import type { User, TaxCase, Document, Appointment, ContactSubmission } from "@shared/schema";
+import { DocumentPreviewGrid } from "@/components/document-preview-grid";
+import type {
+  User,
+  TaxCase,
+  Document,
+  DocumentVersion,
+  DocumentExtraction,
+  QuarantinedUpload,
+  Appointment,
+  PreparerAvailability,
+  AvailabilityBlock,
+  ContactSubmission,
+  CaseType,
+  DocumentRequest,
+  SignatureRequest,
+} from "@shared/schema";
+import { getAllowedCaseStatuses } from "@shared/case-status";
+import type { DocumentChecklist } from "@shared/document-checklist";
+import { canCompleteAppointment } from "@shared/appointment-rules";
+import type { AppointmentType, AppointmentLocation } from "@shared/appointment-types";
+import { EXTRACTION_FIELDS, isExtractionFormType } from "@shared/document-extraction";
 import {
   FileText,
   Users,
@@ -67,6 +89,14 @@ import {
   CheckCircle,
   AlertCircle,
   DollarSign,
+  Upload,
+  History,
+  Trash2,
+  RotateCcw,
+  ScanText,
+  ShieldAlert,
+  FileArchive,
+  PenLine,
 } from "lucide-react";
 import { format } from "date-fns";
 import { enUS, es, fr, pt, zhCN } from "date-fns/locale";
@@ -87,6 +117,10 @@ const statusColors: Record<string, string> = {
   sent_to_irs: "bg-purple-500/10 text-purple-600 dark:text-purple-400",
   approved: "bg-green-500/10 text-green-600 dark:text-green-400",
   refund_issued: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400",
+  awaiting_documents: "bg-orange-500/10 text-orange-600 dark:text-orange-400",
+  rejected_by_irs: "bg-red-500/10 text-red-600 dark:text-red-400",
+  amended: "bg-teal-500/10 text-teal-600 dark:text-teal-400",
+  closed: "bg-gray-500/10 text-gray-600 dark:text-gray-400",
 };
 
 interface AdminStats {
@@ -100,6 +134,41 @@ interface CaseWithClient extends TaxCase {
   client?: User;
 }
 
+/**
+ * Campo específico de un tipo de caso en el diálogo de nuevo caso
+ * Debe coincidir con caseDetailsSchemas en shared/schema.ts
+ */
+interface CaseDetailField {
+  name: string;
+  label: string;
+  kind: "text" | "textarea" | "number" | "checkbox" | "select" | "list";
+  required?: boolean;
+  options?: { value: string; label: string }[];
+}
+
+interface PreparerOption {
+  id: number;
+  name: string;
+  role: string;
+}
+
+/** Franja del horario semanal en edición (horas 'HH:MM' de la oficina) */
+interface AvailabilityDraft {
+  weekday: number;
+  start: string;
+  end: string;
+}
+
+/** Minutos desde la medianoche a 'HH:MM' */
+const minutesToTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+/** 'HH:MM' a minutos desde la medianoche */
+const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
 interface ClientWithDetails extends User {
   documentsCount: number;
   casesCount: number;
@@ -171,11 +240,53 @@ const translations = {
     error: "Error",
     updateError: "Could not update the case.",
     createError: "Could not create the case.",
+    assignedPreparer: "Assigned Preparer",
+    unassigned: "Unassigned",
+    caseAssigned: "Case assigned",
+    caseAssignedDesc: "The preparer assignment has been updated.",
+    assignError: "Could not assign the case.",
+    caseType: "Case Type",
+    allTypes: "All types",
+    typeIndividual: "Individual (1040)",
+    typeBusiness: "Business",
+    typeItin: "ITIN",
+    typeAmendment: "Amendment (1040-X)",
+    typePlanning: "Tax Planning",
+    typeBookkeeping: "Bookkeeping",
+    typePayroll: "Payroll",
+    stateReturns: "State returns (e.g. FL, NY)",
+    selfEmployed: "Self-employed (1099)",
+    businessName: "Business Name",
+    entityType: "Entity Type",
+    ein: "EIN",
+    applicantName: "Applicant Name",
+    isRenewal: "Renewal",
+    originalFilingYear: "Original Tax Year",
+    amendmentReason: "Reason for Amendment",
+    planningFocus: "Planning Focus",
+    frequency: "Frequency",
+    employeeCount: "Number of Employees",
+    payFrequency: "Pay Frequency",
+    entitySoleProprietorship: "Sole Proprietorship",
+    entityLlc: "LLC",
+    entityPartnership: "Partnership",
+    entitySCorp: "S Corporation",
+    entityCCorp: "C Corporation",
+    freqWeekly: "Weekly",
+    freqBiweekly: "Biweekly",
+    freqSemimonthly: "Semimonthly",
+    freqMonthly: "Monthly",
+    freqQuarterly: "Quarterly",
+    freqAnnual: "Annual",
     statusPending: "Pending",
     statusInProcess: "In Process",
     statusSentToIRS: "Sent to IRS",
     statusApproved: "Approved",
     statusRefundIssued: "Refund Issued",
+    statusAwaitingDocuments: "Awaiting Documents",
+    statusRejectedByIRS: "Rejected by IRS",
+    statusAmended: "Amended",
+    statusClosed: "Closed",
     admin: "Admin",
     preparer: "Preparer",
     users: "Users",
@@ -206,6 +317,142 @@ const translations = {
     noDocuments: "No documents uploaded",
     documentName: "Document Name",
     category: "Category",
+    documentChecklist: "Required documents",
+    docsReceived: "documents received",
+    documentRequests: "Document Requests",
+    dueDate: "Due date",
+    requestOpen: "Open",
+    requestFulfilled: "Fulfilled",
+    requestWaived: "Waived",
+    requestOverdue: "Overdue",
+    waiveRequest: "Waive",
+    reopenRequest: "Reopen",
+    requestDescriptionPlaceholder: "What do you need? e.g. 2025 W-2 from second employer",
+    requestDocument: "Request",
+    documentRequested: "Document requested",
+    documentRequestedDesc: "The client has been notified",
+    documentRequestError: "Could not create the document request",
+    shareWithClient: "Share a Document With the Client",
+    noteForClient: "Note for the client (optional)",
+    share: "Share",
+    fromPreparer: "From preparer",
+    documentShared: "Document shared",
+    documentSharedDesc: "The client has been notified",
+    documentShareError: "Could not upload the document",
+    versions: "Versions",
+    currentVersion: "current",
+    review: "Review",
+    reviewReceived: "Received",
+    reviewAccepted: "Accepted",
+    reviewRejected: "Rejected",
+    acceptDocument: "Accept",
+    rejectDocument: "Reject",
+    rejectionReasonPlaceholder: "Reason (e.g. illegible, wrong tax year)",
+    reviewSaved: "Review saved",
+    apptClientConfirmed: "Confirmed by client",
+    appointmentTypeColumn: "Type",
+    apptTypeInitialConsultation: "Initial consultation",
+    apptTypeDocumentDropoff: "Document drop-off",
+    apptTypeReturnReview: "Return review & signing",
+    apptTypeItinInterview: "ITIN interview",
+    apptLocationOffice: "Office",
+    apptLocationPhone: "Phone",
+    apptLocationVideo: "Video",
+    apptBuffer: "buffer",
+    completeAppointment: "Complete",
+    rescheduleAppointment: "Reschedule",
+    cancelAppointment: "Cancel",
+    confirmCancelAppointment: "Cancel this appointment? The client will be notified by email.",
+    rescheduleAppointmentDesc: "The new time must be a free slot in the schedule. The client will be notified by email.",
+    newAppointmentTime: "New date and time",
+    anyAvailablePreparer: "Any available preparer",
+    appointmentUpdated: "Appointment updated",
+    appointmentSlotUnavailable: "That time is not available or the appointment can no longer be changed.",
+    appointmentUpdateError: "Could not update the appointment.",
+    availability: "Availability",
+    availabilityDesc: "Weekly hours when appointments can be booked",
+    noAvailability: "No hours set. This preparer won't receive appointments.",
+    availabilityTimeZone: "Hours are in New York time (ET) and limited to office hours.",
+    startTime: "Start",
+    endTime: "End",
+    addHours: "Add hours",
+    saveHours: "Save hours",
+    availabilitySaved: "Hours saved",
+    availabilityError: "Could not update the schedule.",
+    blockedTime: "Holidays and blocked time",
+    blockedTimeDesc: "No appointments are booked during these periods",
+    noBlockedTime: "No upcoming blocked time",
+    wholeOffice: "Whole office",
+    blockReasonPlaceholder: "Reason (e.g. holiday)",
+    blockTime: "Block",
+    signatureRequests: "Signatures",
+    signatureKind8879: "Form 8879 (e-file authorization)",
+    signatureKindEngagement: "Engagement letter",
+    signatureTitlePlaceholder: "Title shown to the client, e.g. Form 8879 - 2025",
+    sendForSignature: "Send for signature",
+    signatureSent: "Sent for signature",
+    signatureSentDesc: "The client was notified by email.",
+    signatureSendError: "Could not send the document for signature. Make sure it is a PDF without a password.",
+    signaturePending: "Pending",
+    signatureSigned: "Signed",
+    signatureCancelled: "Cancelled",
+    cancelSignature: "Cancel",
+    viewOriginal: "Original",
+    viewSigned: "Signed PDF",
+    requires8879: "The client must sign Form 8879 before the case can be sent to the IRS.",
+    downloadAllZip: "Download all (ZIP)",
+    downloadCaseZip: "Download case documents (ZIP)",
+    uploadInvalidContent: "The file's content doesn't match its type. Save it again as PDF, JPG, PNG or Word.",
+    uploadQuarantined: "The file didn't pass the security check and was held in quarantine.",
+    quarantine: "Quarantined uploads",
+    quarantineFile: "File",
+    quarantineDesc: "Files held by the upload security check. They never reached the client's documents.",
+    quarantineReason: "Reason",
+    quarantineVirus: "Virus detected",
+    quarantineActiveContent: "Macros or active content",
+    quarantineScanFailed: "Could not be scanned",
+    confirmDeleteQuarantined: "Permanently delete this quarantined file?",
+    quarantineDeleted: "Quarantined file deleted",
+    noQuarantined: "No files in quarantine",
+    extractedData: "Extracted data",
+    extractionMissing: "No extraction for this document yet.",
+    extractionRun: "Run OCR again",
+    extractionConfidence: "OCR confidence",
+    extractionProcessing: "Reading the document, this can take a minute...",
+    extractionSave: "Save reviewed values",
+    extractionSaved: "Extracted values saved",
+    extractionPending: "In queue",
+    extractionExtracted: "Needs review",
+    extractionFailed: "OCR failed",
+    extractionReviewed: "Reviewed",
+    fieldEmployerEin: "Employer EIN (box b)",
+    fieldWages: "Wages (box 1)",
+    fieldFederalWithholding: "Federal income tax withheld",
+    fieldSocialSecurityWages: "Social security wages (box 3)",
+    fieldMedicareWages: "Medicare wages (box 5)",
+    fieldFormVariant: "1099 type",
+    fieldPayerTin: "Payer TIN",
+    fieldAmount: "Amount",
+    cancel: "Cancel",
+    confirmDeleteDocument: "Delete this document? It can be restored until it is permanently purged.",
+    documentDeleted: "Document deleted",
+    documentDeletedDesc: "It can be restored from Recently deleted",
+    documentDeleteError: "Could not delete the document",
+    recentlyDeleted: "Recently Deleted",
+    recentlyDeletedDesc: "These files are permanently purged after the retention period.",
+    restore: "Restore",
+    catIdDocument: "Photo ID",
+    catW2: "W-2",
+    catForm1099: "1099 forms",
+    catBankStatement: "Bank statements",
+    catReceipt: "Receipts / 1098",
+    catPreviousReturn: "Previous return",
+    catSocialSecurity: "Social Security cards",
+    catProofOfAddress: "Proof of address",
+    catOther: "Other",
+    catTaxReturn: "Tax Return",
+    catIrsLetter: "IRS Letter",
+    catSignedForm: "Signed Form",
     uploadedAt: "Uploaded At",
     size: "Size",
     download: "Download",
@@ -275,11 +522,53 @@ const translations = {
     error: "Error",
     updateError: "No se pudo actualizar el caso.",
     createError: "No se pudo crear el caso.",
+    assignedPreparer: "Preparador Asignado",
+    unassigned: "Sin asignar",
+    caseAssigned: "Caso asignado",
+    caseAssignedDesc: "La asignación del preparador ha sido actualizada.",
+    assignError: "No se pudo asignar el caso.",
+    caseType: "Tipo de Caso",
+    allTypes: "Todos los tipos",
+    typeIndividual: "Individual (1040)",
+    typeBusiness: "Negocio",
+    typeItin: "ITIN",
+    typeAmendment: "Enmienda (1040-X)",
+    typePlanning: "Planificación Fiscal",
+    typeBookkeeping: "Contabilidad",
+    typePayroll: "Nómina",
+    stateReturns: "Declaraciones estatales (ej. FL, NY)",
+    selfEmployed: "Trabajador independiente (1099)",
+    businessName: "Nombre del Negocio",
+    entityType: "Tipo de Entidad",
+    ein: "EIN",
+    applicantName: "Nombre del Solicitante",
+    isRenewal: "Renovación",
+    originalFilingYear: "Año Fiscal Original",
+    amendmentReason: "Motivo de la Enmienda",
+    planningFocus: "Enfoque de la Planificación",
+    frequency: "Frecuencia",
+    employeeCount: "Número de Empleados",
+    payFrequency: "Frecuencia de Pago",
+    entitySoleProprietorship: "Empresa Individual",
+    entityLlc: "LLC",
+    entityPartnership: "Sociedad",
+    entitySCorp: "Corporación S",
+    entityCCorp: "Corporación C",
+    freqWeekly: "Semanal",
+    freqBiweekly: "Quincenal",
+    freqSemimonthly: "Dos veces al mes",
+    freqMonthly: "Mensual",
+    freqQuarterly: "Trimestral",
+    freqAnnual: "Anual",
     statusPending: "Pendiente",
     statusInProcess: "En Proceso",
     statusSentToIRS: "Enviado al IRS",
     statusApproved: "Aprobado",
     statusRefundIssued: "Reembolso Emitido",
+    statusAwaitingDocuments: "Esperando Documentos",
+    statusRejectedByIRS: "Rechazado por el IRS",
+    statusAmended: "Enmendado",
+    statusClosed: "Cerrado",
     admin: "Admin",
     preparer: "Preparador",
     users: "Usuarios",
@@ -310,6 +599,142 @@ const translations = {
     noDocuments: "No hay documentos subidos",
     documentName: "Nombre del Documento",
     category: "Categoría",
+    documentChecklist: "Documentos requeridos",
+    docsReceived: "documentos recibidos",
+    documentRequests: "Solicitudes de Documentos",
+    dueDate: "Fecha límite",
+    requestOpen: "Abierta",
+    requestFulfilled: "Cumplida",
+    requestWaived: "Eximida",
+    requestOverdue: "Vencida",
+    waiveRequest: "Eximir",
+    reopenRequest: "Reabrir",
+    requestDescriptionPlaceholder: "¿Qué necesita? ej. W-2 2025 del segundo empleador",
+    requestDocument: "Solicitar",
+    documentRequested: "Documento solicitado",
+    documentRequestedDesc: "Se notificó al cliente",
+    documentRequestError: "No se pudo crear la solicitud de documento",
+    shareWithClient: "Compartir un Documento con el Cliente",
+    noteForClient: "Nota para el cliente (opcional)",
+    share: "Compartir",
+    fromPreparer: "Del preparador",
+    documentShared: "Documento compartido",
+    documentSharedDesc: "Se notificó al cliente",
+    documentShareError: "No se pudo subir el documento",
+    versions: "Versiones",
+    currentVersion: "vigente",
+    review: "Revisión",
+    reviewReceived: "Recibido",
+    reviewAccepted: "Aceptado",
+    reviewRejected: "Rechazado",
+    acceptDocument: "Aceptar",
+    rejectDocument: "Rechazar",
+    rejectionReasonPlaceholder: "Motivo (ej. ilegible, año fiscal incorrecto)",
+    reviewSaved: "Revisión guardada",
+    apptClientConfirmed: "Confirmada por el cliente",
+    appointmentTypeColumn: "Tipo",
+    apptTypeInitialConsultation: "Consulta inicial",
+    apptTypeDocumentDropoff: "Entrega de documentos",
+    apptTypeReturnReview: "Revisión y firma",
+    apptTypeItinInterview: "Entrevista ITIN",
+    apptLocationOffice: "Oficina",
+    apptLocationPhone: "Teléfono",
+    apptLocationVideo: "Video",
+    apptBuffer: "de margen",
+    completeAppointment: "Completar",
+    rescheduleAppointment: "Reprogramar",
+    cancelAppointment: "Cancelar",
+    confirmCancelAppointment: "¿Cancelar esta cita? Se notificará al cliente por email.",
+    rescheduleAppointmentDesc: "El nuevo horario debe estar libre en la agenda. Se notificará al cliente por email.",
+    newAppointmentTime: "Nueva fecha y hora",
+    anyAvailablePreparer: "Cualquier preparador disponible",
+    appointmentUpdated: "Cita actualizada",
+    appointmentSlotUnavailable: "Ese horario no está disponible o la cita ya no puede cambiarse.",
+    appointmentUpdateError: "No se pudo actualizar la cita.",
+    availability: "Disponibilidad",
+    availabilityDesc: "Horario semanal en que se pueden agendar citas",
+    noAvailability: "Sin horario. Este preparador no recibirá citas.",
+    availabilityTimeZone: "Horas de Nueva York (ET), dentro del horario de la oficina.",
+    startTime: "Inicio",
+    endTime: "Fin",
+    addHours: "Agregar horario",
+    saveHours: "Guardar horario",
+    availabilitySaved: "Horario guardado",
+    availabilityError: "No se pudo actualizar la agenda.",
+    blockedTime: "Feriados y horas bloqueadas",
+    blockedTimeDesc: "No se agendan citas en estos períodos",
+    noBlockedTime: "No hay horas bloqueadas próximas",
+    wholeOffice: "Toda la oficina",
+    blockReasonPlaceholder: "Motivo (p. ej. feriado)",
+    blockTime: "Bloquear",
+    signatureRequests: "Firmas",
+    signatureKind8879: "Formulario 8879 (autorización de presentación electrónica)",
+    signatureKindEngagement: "Carta de compromiso",
+    signatureTitlePlaceholder: "Título que verá el cliente, ej. Formulario 8879 - 2025",
+    sendForSignature: "Enviar a firmar",
+    signatureSent: "Enviado a firmar",
+    signatureSentDesc: "Se notificó al cliente por email.",
+    signatureSendError: "No se pudo enviar el documento a firmar. Verifique que sea un PDF sin contraseña.",
+    signaturePending: "Pendiente",
+    signatureSigned: "Firmado",
+    signatureCancelled: "Anulado",
+    cancelSignature: "Anular",
+    viewOriginal: "Original",
+    viewSigned: "PDF firmado",
+    requires8879: "El cliente debe firmar el Formulario 8879 antes de enviar el caso al IRS.",
+    downloadAllZip: "Descargar todo (ZIP)",
+    downloadCaseZip: "Descargar documentos del caso (ZIP)",
+    uploadInvalidContent: "El contenido del archivo no coincide con su tipo. Guárdelo de nuevo como PDF, JPG, PNG o Word.",
+    uploadQuarantined: "El archivo no superó la verificación de seguridad y quedó en cuarentena.",
+    quarantine: "Subidas en cuarentena",
+    quarantineFile: "Archivo",
+    quarantineDesc: "Archivos retenidos por la verificación de seguridad. No llegaron a los documentos del cliente.",
+    quarantineReason: "Motivo",
+    quarantineVirus: "Virus detectado",
+    quarantineActiveContent: "Macros o contenido activo",
+    quarantineScanFailed: "No se pudo analizar",
+    confirmDeleteQuarantined: "¿Eliminar definitivamente este archivo en cuarentena?",
+    quarantineDeleted: "Archivo en cuarentena eliminado",
+    noQuarantined: "No hay archivos en cuarentena",
+    extractedData: "Datos extraídos",
+    extractionMissing: "Este documento aún no tiene extracción.",
+    extractionRun: "Volver a ejecutar OCR",
+    extractionConfidence: "Confianza del OCR",
+    extractionProcessing: "Leyendo el documento, puede tardar un minuto...",
+    extractionSave: "Guardar valores revisados",
+    extractionSaved: "Valores extraídos guardados",
+    extractionPending: "En cola",
+    extractionExtracted: "Por revisar",
+    extractionFailed: "OCR fallido",
+    extractionReviewed: "Revisado",
+    fieldEmployerEin: "EIN del empleador (casilla b)",
+    fieldWages: "Salarios (casilla 1)",
+    fieldFederalWithholding: "Impuesto federal retenido",
+    fieldSocialSecurityWages: "Salarios del Seguro Social (casilla 3)",
+    fieldMedicareWages: "Salarios de Medicare (casilla 5)",
+    fieldFormVariant: "Tipo de 1099",
+    fieldPayerTin: "TIN del pagador",
+    fieldAmount: "Monto",
+    cancel: "Cancelar",
+    confirmDeleteDocument: "¿Eliminar este documento? Podrá restaurarse hasta que se purgue definitivamente.",
+    documentDeleted: "Documento eliminado",
+    documentDeletedDesc: "Puede restaurarse desde Eliminados recientemente",
+    documentDeleteError: "No se pudo eliminar el documento",
+    recentlyDeleted: "Eliminados Recientemente",
+    recentlyDeletedDesc: "Estos archivos se purgan definitivamente al vencer el periodo de retención.",
+    restore: "Restaurar",
+    catIdDocument: "Identificación con foto",
+    catW2: "W-2",
+    catForm1099: "Formularios 1099",
+    catBankStatement: "Estados de cuenta",
+    catReceipt: "Recibos / 1098",
+    catPreviousReturn: "Declaración anterior",
+    catSocialSecurity: "Tarjetas de Seguro Social",
+    catProofOfAddress: "Comprobante de domicilio",
+    catOther: "Otro",
+    catTaxReturn: "Declaración Preparada",
+    catIrsLetter: "Carta del IRS",
+    catSignedForm: "Formulario Firmado",
     uploadedAt: "Subido el",
     size: "Tamaño",
     download: "Descargar",
@@ -379,11 +804,53 @@ const translations = {
     error: "Erreur",
     updateError: "Impossible de mettre à jour le dossier.",
     createError: "Impossible de créer le dossier.",
+    assignedPreparer: "Préparateur Assigné",
+    unassigned: "Non assigné",
+    caseAssigned: "Dossier assigné",
+    caseAssignedDesc: "L'assignation du préparateur a été mise à jour.",
+    assignError: "Impossible d'assigner le dossier.",
+    caseType: "Type de Dossier",
+    allTypes: "Tous les types",
+    typeIndividual: "Individuel (1040)",
+    typeBusiness: "Entreprise",
+    typeItin: "ITIN",
+    typeAmendment: "Amendement (1040-X)",
+    typePlanning: "Planification Fiscale",
+    typeBookkeeping: "Comptabilité",
+    typePayroll: "Paie",
+    stateReturns: "Déclarations d'État (ex. FL, NY)",
+    selfEmployed: "Travailleur indépendant (1099)",
+    businessName: "Nom de l'Entreprise",
+    entityType: "Type d'Entité",
+    ein: "EIN",
+    applicantName: "Nom du Demandeur",
+    isRenewal: "Renouvellement",
+    originalFilingYear: "Année Fiscale d'Origine",
+    amendmentReason: "Motif de l'Amendement",
+    planningFocus: "Objectif de la Planification",
+    frequency: "Fréquence",
+    employeeCount: "Nombre d'Employés",
+    payFrequency: "Fréquence de Paie",
+    entitySoleProprietorship: "Entreprise Individuelle",
+    entityLlc: "LLC",
+    entityPartnership: "Société de Personnes",
+    entitySCorp: "Société S",
+    entityCCorp: "Société C",
+    freqWeekly: "Hebdomadaire",
+    freqBiweekly: "Bihebdomadaire",
+    freqSemimonthly: "Bimensuelle",
+    freqMonthly: "Mensuelle",
+    freqQuarterly: "Trimestrielle",
+    freqAnnual: "Annuelle",
     statusPending: "En attente",
     statusInProcess: "En cours",
     statusSentToIRS: "Envoyé à l'IRS",
     statusApproved: "Approuvé",
     statusRefundIssued: "Remboursement Émis",
+    statusAwaitingDocuments: "En Attente de Documents",
+    statusRejectedByIRS: "Rejeté par l'IRS",
+    statusAmended: "Amendé",
+    statusClosed: "Clôturé",
     admin: "Admin",
     preparer: "Préparateur",
     users: "Utilisateurs",
@@ -408,6 +875,142 @@ const translations = {
     cannotChangeOwnRole: "Vous ne pouvez pas modifier votre propre rôle",
     changeRole: "Modifier le Rôle",
     never: "Jamais",
+    documentChecklist: "Documents requis",
+    docsReceived: "documents reçus",
+    documentRequests: "Demandes de Documents",
+    dueDate: "Date limite",
+    requestOpen: "Ouverte",
+    requestFulfilled: "Satisfaite",
+    requestWaived: "Annulée",
+    requestOverdue: "En retard",
+    waiveRequest: "Annuler",
+    reopenRequest: "Rouvrir",
+    requestDescriptionPlaceholder: "De quoi avez-vous besoin ? ex. W-2 2025 du deuxième employeur",
+    requestDocument: "Demander",
+    documentRequested: "Document demandé",
+    documentRequestedDesc: "Le client a été notifié",
+    documentRequestError: "Impossible de créer la demande de document",
+    shareWithClient: "Partager un Document avec le Client",
+    noteForClient: "Note pour le client (facultatif)",
+    share: "Partager",
+    fromPreparer: "Du préparateur",
+    documentShared: "Document partagé",
+    documentSharedDesc: "Le client a été notifié",
+    documentShareError: "Impossible de téléverser le document",
+    versions: "Versions",
+    currentVersion: "actuelle",
+    review: "Examen",
+    reviewReceived: "Reçu",
+    reviewAccepted: "Accepté",
+    reviewRejected: "Rejeté",
+    acceptDocument: "Accepter",
+    rejectDocument: "Rejeter",
+    rejectionReasonPlaceholder: "Motif (ex. illisible, mauvaise année fiscale)",
+    reviewSaved: "Examen enregistré",
+    apptClientConfirmed: "Confirmé par le client",
+    appointmentTypeColumn: "Type",
+    apptTypeInitialConsultation: "Consultation initiale",
+    apptTypeDocumentDropoff: "Dépôt de documents",
+    apptTypeReturnReview: "Revue et signature",
+    apptTypeItinInterview: "Entretien ITIN",
+    apptLocationOffice: "Bureau",
+    apptLocationPhone: "Téléphone",
+    apptLocationVideo: "Vidéo",
+    apptBuffer: "de marge",
+    completeAppointment: "Terminer",
+    rescheduleAppointment: "Reporter",
+    cancelAppointment: "Annuler",
+    confirmCancelAppointment: "Annuler ce rendez-vous ? Le client sera informé par email.",
+    rescheduleAppointmentDesc: "Le nouvel horaire doit être libre dans l'agenda. Le client sera informé par email.",
+    newAppointmentTime: "Nouvelle date et heure",
+    anyAvailablePreparer: "Tout préparateur disponible",
+    appointmentUpdated: "Rendez-vous mis à jour",
+    appointmentSlotUnavailable: "Cet horaire n'est pas disponible ou le rendez-vous ne peut plus être modifié.",
+    appointmentUpdateError: "Impossible de mettre à jour le rendez-vous.",
+    availability: "Disponibilité",
+    availabilityDesc: "Horaires hebdomadaires de prise de rendez-vous",
+    noAvailability: "Aucun horaire. Ce préparateur ne recevra pas de rendez-vous.",
+    availabilityTimeZone: "Heures de New York (ET), dans les heures d'ouverture du bureau.",
+    startTime: "Début",
+    endTime: "Fin",
+    addHours: "Ajouter un horaire",
+    saveHours: "Enregistrer l'horaire",
+    availabilitySaved: "Horaire enregistré",
+    availabilityError: "Impossible de mettre à jour l'agenda.",
+    blockedTime: "Jours fériés et plages bloquées",
+    blockedTimeDesc: "Aucun rendez-vous n'est pris pendant ces périodes",
+    noBlockedTime: "Aucune plage bloquée à venir",
+    wholeOffice: "Tout le bureau",
+    blockReasonPlaceholder: "Motif (ex. jour férié)",
+    blockTime: "Bloquer",
+    signatureRequests: "Signatures",
+    signatureKind8879: "Formulaire 8879 (autorisation de déclaration électronique)",
+    signatureKindEngagement: "Lettre de mission",
+    signatureTitlePlaceholder: "Titre affiché au client, ex. Formulaire 8879 - 2025",
+    sendForSignature: "Envoyer pour signature",
+    signatureSent: "Envoyé pour signature",
+    signatureSentDesc: "Le client a été prévenu par e-mail.",
+    signatureSendError: "Impossible d'envoyer le document pour signature. Vérifiez qu'il s'agit d'un PDF sans mot de passe.",
+    signaturePending: "En attente",
+    signatureSigned: "Signé",
+    signatureCancelled: "Annulé",
+    cancelSignature: "Annuler",
+    viewOriginal: "Original",
+    viewSigned: "PDF signé",
+    requires8879: "Le client doit signer le formulaire 8879 avant que le dossier puisse être envoyé à l'IRS.",
+    downloadAllZip: "Tout télécharger (ZIP)",
+    downloadCaseZip: "Télécharger les documents du dossier (ZIP)",
+    uploadInvalidContent: "Le contenu du fichier ne correspond pas à son type. Enregistrez-le de nouveau en PDF, JPG, PNG ou Word.",
+    uploadQuarantined: "Le fichier n'a pas passé le contrôle de sécurité et a été mis en quarantaine.",
+    quarantine: "Fichiers en quarantaine",
+    quarantineFile: "Fichier",
+    quarantineDesc: "Fichiers retenus par le contrôle de sécurité. Ils n'ont jamais atteint les documents du client.",
+    quarantineReason: "Motif",
+    quarantineVirus: "Virus détecté",
+    quarantineActiveContent: "Macros ou contenu actif",
+    quarantineScanFailed: "Analyse impossible",
+    confirmDeleteQuarantined: "Supprimer définitivement ce fichier en quarantaine ?",
+    quarantineDeleted: "Fichier en quarantaine supprimé",
+    noQuarantined: "Aucun fichier en quarantaine",
+    extractedData: "Données extraites",
+    extractionMissing: "Aucune extraction pour ce document.",
+    extractionRun: "Relancer l'OCR",
+    extractionConfidence: "Confiance OCR",
+    extractionProcessing: "Lecture du document, cela peut prendre une minute...",
+    extractionSave: "Enregistrer les valeurs vérifiées",
+    extractionSaved: "Valeurs extraites enregistrées",
+    extractionPending: "En file d'attente",
+    extractionExtracted: "À vérifier",
+    extractionFailed: "Échec de l'OCR",
+    extractionReviewed: "Vérifié",
+    fieldEmployerEin: "EIN de l'employeur (case b)",
+    fieldWages: "Salaires (case 1)",
+    fieldFederalWithholding: "Impôt fédéral retenu",
+    fieldSocialSecurityWages: "Salaires sécurité sociale (case 3)",
+    fieldMedicareWages: "Salaires Medicare (case 5)",
+    fieldFormVariant: "Type de 1099",
+    fieldPayerTin: "TIN du payeur",
+    fieldAmount: "Montant",
+    cancel: "Annuler",
+    confirmDeleteDocument: "Supprimer ce document ? Il pourra être restauré jusqu'à sa purge définitive.",
+    documentDeleted: "Document supprimé",
+    documentDeletedDesc: "Il peut être restauré depuis Supprimés récemment",
+    documentDeleteError: "Impossible de supprimer le document",
+    recentlyDeleted: "Supprimés Récemment",
+    recentlyDeletedDesc: "Ces fichiers sont purgés définitivement après la période de conservation.",
+    restore: "Restaurer",
+    catIdDocument: "Pièce d'identité",
+    catW2: "W-2",
+    catForm1099: "Formulaires 1099",
+    catBankStatement: "Relevés bancaires",
+    catReceipt: "Reçus / 1098",
+    catPreviousReturn: "Déclaration précédente",
+    catSocialSecurity: "Cartes de sécurité sociale",
+    catProofOfAddress: "Justificatif de domicile",
+    catOther: "Autre",
+    catTaxReturn: "Déclaration Préparée",
+    catIrsLetter: "Lettre de l'IRS",
+    catSignedForm: "Formulaire Signé",
   },
   pt: {
     adminPanel: "Painel Administrativo",
@@ -474,11 +1077,53 @@ const translations = {
     error: "Erro",
     updateError: "Não foi possível atualizar o caso.",
     createError: "Não foi possível criar o caso.",
+    assignedPreparer: "Preparador Atribuído",
+    unassigned: "Não atribuído",
+    caseAssigned: "Caso atribuído",
+    caseAssignedDesc: "A atribuição do preparador foi atualizada.",
+    assignError: "Não foi possível atribuir o caso.",
+    caseType: "Tipo de Caso",
+    allTypes: "Todos os tipos",
+    typeIndividual: "Individual (1040)",
+    typeBusiness: "Empresa",
+    typeItin: "ITIN",
+    typeAmendment: "Retificação (1040-X)",
+    typePlanning: "Planejamento Tributário",
+    typeBookkeeping: "Contabilidade",
+    typePayroll: "Folha de Pagamento",
+    stateReturns: "Declarações estaduais (ex. FL, NY)",
+    selfEmployed: "Autônomo (1099)",
+    businessName: "Nome da Empresa",
+    entityType: "Tipo de Entidade",
+    ein: "EIN",
+    applicantName: "Nome do Requerente",
+    isRenewal: "Renovação",
+    originalFilingYear: "Ano Fiscal Original",
+    amendmentReason: "Motivo da Retificação",
+    planningFocus: "Foco do Planejamento",
+    frequency: "Frequência",
+    employeeCount: "Número de Funcionários",
+    payFrequency: "Frequência de Pagamento",
+    entitySoleProprietorship: "Empresa Individual",
+    entityLlc: "LLC",
+    entityPartnership: "Sociedade",
+    entitySCorp: "Corporação S",
+    entityCCorp: "Corporação C",
+    freqWeekly: "Semanal",
+    freqBiweekly: "Quinzenal",
+    freqSemimonthly: "Duas vezes ao mês",
+    freqMonthly: "Mensal",
+    freqQuarterly: "Trimestral",
+    freqAnnual: "Anual",
     statusPending: "Pendente",
     statusInProcess: "Em Processo",
     statusSentToIRS: "Enviado ao IRS",
     statusApproved: "Aprovado",
     statusRefundIssued: "Reembolso Emitido",
+    statusAwaitingDocuments: "Aguardando Documentos",
+    statusRejectedByIRS: "Rejeitado pelo IRS",
+    statusAmended: "Retificado",
+    statusClosed: "Encerrado",
     admin: "Admin",
     preparer: "Preparador",
     users: "Usuários",
@@ -503,6 +1148,142 @@ const translations = {
     cannotChangeOwnRole: "Você não pode alterar sua própria função",
     changeRole: "Alterar Função",
     never: "Nunca",
+    documentChecklist: "Documentos necessários",
+    docsReceived: "documentos recebidos",
+    documentRequests: "Solicitações de Documentos",
+    dueDate: "Prazo",
+    requestOpen: "Aberta",
+    requestFulfilled: "Atendida",
+    requestWaived: "Dispensada",
+    requestOverdue: "Vencida",
+    waiveRequest: "Dispensar",
+    reopenRequest: "Reabrir",
+    requestDescriptionPlaceholder: "O que você precisa? ex. W-2 2025 do segundo empregador",
+    requestDocument: "Solicitar",
+    documentRequested: "Documento solicitado",
+    documentRequestedDesc: "O cliente foi notificado",
+    documentRequestError: "Não foi possível criar a solicitação de documento",
+    shareWithClient: "Compartilhar um Documento com o Cliente",
+    noteForClient: "Nota para o cliente (opcional)",
+    share: "Compartilhar",
+    fromPreparer: "Do preparador",
+    documentShared: "Documento compartilhado",
+    documentSharedDesc: "O cliente foi notificado",
+    documentShareError: "Não foi possível enviar o documento",
+    versions: "Versões",
+    currentVersion: "atual",
+    review: "Revisão",
+    reviewReceived: "Recebido",
+    reviewAccepted: "Aceito",
+    reviewRejected: "Rejeitado",
+    acceptDocument: "Aceitar",
+    rejectDocument: "Rejeitar",
+    rejectionReasonPlaceholder: "Motivo (ex. ilegível, ano fiscal errado)",
+    reviewSaved: "Revisão salva",
+    apptClientConfirmed: "Confirmada pelo cliente",
+    appointmentTypeColumn: "Tipo",
+    apptTypeInitialConsultation: "Consulta inicial",
+    apptTypeDocumentDropoff: "Entrega de documentos",
+    apptTypeReturnReview: "Revisão e assinatura",
+    apptTypeItinInterview: "Entrevista ITIN",
+    apptLocationOffice: "Escritório",
+    apptLocationPhone: "Telefone",
+    apptLocationVideo: "Vídeo",
+    apptBuffer: "de intervalo",
+    completeAppointment: "Concluir",
+    rescheduleAppointment: "Remarcar",
+    cancelAppointment: "Cancelar",
+    confirmCancelAppointment: "Cancelar esta consulta? O cliente será notificado por email.",
+    rescheduleAppointmentDesc: "O novo horário deve estar livre na agenda. O cliente será notificado por email.",
+    newAppointmentTime: "Nova data e hora",
+    anyAvailablePreparer: "Qualquer preparador disponível",
+    appointmentUpdated: "Consulta atualizada",
+    appointmentSlotUnavailable: "Esse horário não está disponível ou a consulta não pode mais ser alterada.",
+    appointmentUpdateError: "Não foi possível atualizar a consulta.",
+    availability: "Disponibilidade",
+    availabilityDesc: "Horário semanal em que é possível agendar consultas",
+    noAvailability: "Sem horário. Este preparador não receberá consultas.",
+    availabilityTimeZone: "Horário de Nova York (ET), dentro do expediente do escritório.",
+    startTime: "Início",
+    endTime: "Fim",
+    addHours: "Adicionar horário",
+    saveHours: "Salvar horário",
+    availabilitySaved: "Horário salvo",
+    availabilityError: "Não foi possível atualizar a agenda.",
+    blockedTime: "Feriados e horários bloqueados",
+    blockedTimeDesc: "Nenhuma consulta é agendada nestes períodos",
+    noBlockedTime: "Nenhum horário bloqueado próximo",
+    wholeOffice: "Todo o escritório",
+    blockReasonPlaceholder: "Motivo (ex. feriado)",
+    blockTime: "Bloquear",
+    signatureRequests: "Assinaturas",
+    signatureKind8879: "Formulário 8879 (autorização de declaração eletrônica)",
+    signatureKindEngagement: "Carta de compromisso",
+    signatureTitlePlaceholder: "Título exibido ao cliente, ex. Formulário 8879 - 2025",
+    sendForSignature: "Enviar para assinatura",
+    signatureSent: "Enviado para assinatura",
+    signatureSentDesc: "O cliente foi notificado por e-mail.",
+    signatureSendError: "Não foi possível enviar o documento para assinatura. Verifique se é um PDF sem senha.",
+    signaturePending: "Pendente",
+    signatureSigned: "Assinado",
+    signatureCancelled: "Cancelado",
+    cancelSignature: "Cancelar",
+    viewOriginal: "Original",
+    viewSigned: "PDF assinado",
+    requires8879: "O cliente deve assinar o Formulário 8879 antes que o caso seja enviado ao IRS.",
+    downloadAllZip: "Baixar tudo (ZIP)",
+    downloadCaseZip: "Baixar documentos do caso (ZIP)",
+    uploadInvalidContent: "O conteúdo do arquivo não corresponde ao seu tipo. Salve-o novamente como PDF, JPG, PNG ou Word.",
+    uploadQuarantined: "O arquivo não passou na verificação de segurança e ficou em quarentena.",
+    quarantine: "Envios em quarentena",
+    quarantineFile: "Arquivo",
+    quarantineDesc: "Arquivos retidos pela verificação de segurança. Nunca chegaram aos documentos do cliente.",
+    quarantineReason: "Motivo",
+    quarantineVirus: "Vírus detectado",
+    quarantineActiveContent: "Macros ou conteúdo ativo",
+    quarantineScanFailed: "Não foi possível analisar",
+    confirmDeleteQuarantined: "Excluir definitivamente este arquivo em quarentena?",
+    quarantineDeleted: "Arquivo em quarentena excluído",
+    noQuarantined: "Nenhum arquivo em quarentena",
+    extractedData: "Dados extraídos",
+    extractionMissing: "Este documento ainda não tem extração.",
+    extractionRun: "Executar OCR novamente",
+    extractionConfidence: "Confiança do OCR",
+    extractionProcessing: "Lendo o documento, pode levar um minuto...",
+    extractionSave: "Salvar valores revisados",
+    extractionSaved: "Valores extraídos salvos",
+    extractionPending: "Na fila",
+    extractionExtracted: "A revisar",
+    extractionFailed: "Falha no OCR",
+    extractionReviewed: "Revisado",
+    fieldEmployerEin: "EIN do empregador (campo b)",
+    fieldWages: "Salários (campo 1)",
+    fieldFederalWithholding: "Imposto federal retido",
+    fieldSocialSecurityWages: "Salários da Previdência (campo 3)",
+    fieldMedicareWages: "Salários do Medicare (campo 5)",
+    fieldFormVariant: "Tipo de 1099",
+    fieldPayerTin: "TIN do pagador",
+    fieldAmount: "Valor",
+    cancel: "Cancelar",
+    confirmDeleteDocument: "Excluir este documento? Ele pode ser restaurado até ser removido definitivamente.",
+    documentDeleted: "Documento excluído",
+    documentDeletedDesc: "Pode ser restaurado em Excluídos recentemente",
+    documentDeleteError: "Não foi possível excluir o documento",
+    recentlyDeleted: "Excluídos Recentemente",
+    recentlyDeletedDesc: "Estes arquivos são removidos definitivamente após o período de retenção.",
+    restore: "Restaurar",
+    catIdDocument: "Documento com foto",
+    catW2: "W-2",
+    catForm1099: "Formulários 1099",
+    catBankStatement: "Extratos bancários",
+    catReceipt: "Recibos / 1098",
+    catPreviousReturn: "Declaração anterior",
+    catSocialSecurity: "Cartões do Seguro Social",
+    catProofOfAddress: "Comprovante de endereço",
+    catOther: "Outro",
+    catTaxReturn: "Declaração Preparada",
+    catIrsLetter: "Carta do IRS",
+    catSignedForm: "Formulário Assinado",
   },
   zh: {
     adminPanel: "管理面板",
@@ -569,11 +1350,53 @@ const translations = {
     error: "错误",
     updateError: "无法更新案例。",
     createError: "无法创建案例。",
+    assignedPreparer: "指派的准备者",
+    unassigned: "未指派",
+    caseAssigned: "案例已指派",
+    caseAssignedDesc: "准备者指派已更新。",
+    assignError: "无法指派案例。",
+    caseType: "案例类型",
+    allTypes: "所有类型",
+    typeIndividual: "个人 (1040)",
+    typeBusiness: "企业",
+    typeItin: "ITIN",
+    typeAmendment: "修正申报 (1040-X)",
+    typePlanning: "税务规划",
+    typeBookkeeping: "记账",
+    typePayroll: "薪资",
+    stateReturns: "州税申报 (例如 FL, NY)",
+    selfEmployed: "自雇 (1099)",
+    businessName: "企业名称",
+    entityType: "实体类型",
+    ein: "EIN",
+    applicantName: "申请人姓名",
+    isRenewal: "续期",
+    originalFilingYear: "原始纳税年度",
+    amendmentReason: "修正原因",
+    planningFocus: "规划重点",
+    frequency: "频率",
+    employeeCount: "员工人数",
+    payFrequency: "发薪频率",
+    entitySoleProprietorship: "独资企业",
+    entityLlc: "LLC",
+    entityPartnership: "合伙企业",
+    entitySCorp: "S 型公司",
+    entityCCorp: "C 型公司",
+    freqWeekly: "每周",
+    freqBiweekly: "每两周",
+    freqSemimonthly: "每半月",
+    freqMonthly: "每月",
+    freqQuarterly: "每季度",
+    freqAnnual: "每年",
     statusPending: "待处理",
     statusInProcess: "处理中",
     statusSentToIRS: "已发送至IRS",
     statusApproved: "已批准",
     statusRefundIssued: "退款已发放",
+    statusAwaitingDocuments: "等待文件",
+    statusRejectedByIRS: "被IRS拒绝",
+    statusAmended: "已修正",
+    statusClosed: "已关闭",
     admin: "管理员",
     preparer: "准备者",
     users: "用户",
@@ -598,6 +1421,142 @@ const translations = {
     cannotChangeOwnRole: "您不能更改自己的角色",
     changeRole: "更改角色",
     never: "从未",
+    documentChecklist: "所需文件",
+    docsReceived: "份文件已收到",
+    documentRequests: "文件请求",
+    dueDate: "截止日期",
+    requestOpen: "待处理",
+    requestFulfilled: "已完成",
+    requestWaived: "已豁免",
+    requestOverdue: "已逾期",
+    waiveRequest: "豁免",
+    reopenRequest: "重新打开",
+    requestDescriptionPlaceholder: "需要什么？例如第二位雇主的 2025 年 W-2",
+    requestDocument: "请求",
+    documentRequested: "已请求文件",
+    documentRequestedDesc: "已通知客户",
+    documentRequestError: "无法创建文件请求",
+    shareWithClient: "与客户共享文件",
+    noteForClient: "给客户的备注（可选）",
+    share: "共享",
+    fromPreparer: "来自报税员",
+    documentShared: "文件已共享",
+    documentSharedDesc: "已通知客户",
+    documentShareError: "无法上传文件",
+    versions: "版本",
+    currentVersion: "当前",
+    review: "审核",
+    reviewReceived: "已接收",
+    reviewAccepted: "已接受",
+    reviewRejected: "已拒绝",
+    acceptDocument: "接受",
+    rejectDocument: "拒绝",
+    rejectionReasonPlaceholder: "原因（例如：无法辨认、税务年度错误）",
+    reviewSaved: "审核已保存",
+    apptClientConfirmed: "客户已确认",
+    appointmentTypeColumn: "类型",
+    apptTypeInitialConsultation: "初次咨询",
+    apptTypeDocumentDropoff: "递交文件",
+    apptTypeReturnReview: "审核与签署",
+    apptTypeItinInterview: "ITIN 面谈",
+    apptLocationOffice: "办公室",
+    apptLocationPhone: "电话",
+    apptLocationVideo: "视频",
+    apptBuffer: "缓冲",
+    completeAppointment: "完成",
+    rescheduleAppointment: "改期",
+    cancelAppointment: "取消",
+    confirmCancelAppointment: "取消此预约？系统将通过电子邮件通知客户。",
+    rescheduleAppointmentDesc: "新时间必须是日程中的空闲时段。系统将通过电子邮件通知客户。",
+    newAppointmentTime: "新日期和时间",
+    anyAvailablePreparer: "任何可用的报税员",
+    appointmentUpdated: "预约已更新",
+    appointmentSlotUnavailable: "该时间不可用，或预约已无法更改。",
+    appointmentUpdateError: "无法更新预约。",
+    availability: "可预约时间",
+    availabilityDesc: "每周可预约的时间段",
+    noAvailability: "未设置时间，该报税员将不会收到预约。",
+    availabilityTimeZone: "时间为纽约时间（ET），并限于办公时间内。",
+    startTime: "开始",
+    endTime: "结束",
+    addHours: "添加时间段",
+    saveHours: "保存时间",
+    availabilitySaved: "时间已保存",
+    availabilityError: "无法更新日程。",
+    blockedTime: "节假日和屏蔽时间",
+    blockedTimeDesc: "这些时间段内不接受预约",
+    noBlockedTime: "没有即将到来的屏蔽时间",
+    wholeOffice: "整个办公室",
+    blockReasonPlaceholder: "原因（例如节假日）",
+    blockTime: "屏蔽",
+    signatureRequests: "签名",
+    signatureKind8879: "8879 表（电子申报授权）",
+    signatureKindEngagement: "服务委托书",
+    signatureTitlePlaceholder: "客户看到的标题，例如 8879 表 - 2025",
+    sendForSignature: "发送签署",
+    signatureSent: "已发送签署",
+    signatureSentDesc: "已通过电子邮件通知客户。",
+    signatureSendError: "无法发送签署文件。请确认是没有密码的 PDF。",
+    signaturePending: "待签署",
+    signatureSigned: "已签署",
+    signatureCancelled: "已取消",
+    cancelSignature: "取消",
+    viewOriginal: "原件",
+    viewSigned: "已签署 PDF",
+    requires8879: "客户必须先签署 8879 表，案件才能提交至 IRS。",
+    downloadAllZip: "全部下载 (ZIP)",
+    downloadCaseZip: "下载案件文件 (ZIP)",
+    uploadInvalidContent: "文件内容与其类型不符。请另存为 PDF、JPG、PNG 或 Word。",
+    uploadQuarantined: "文件未通过安全检查，已被隔离。",
+    quarantine: "已隔离的上传",
+    quarantineFile: "文件",
+    quarantineDesc: "被上传安全检查拦截的文件，未进入客户文件。",
+    quarantineReason: "原因",
+    quarantineVirus: "检测到病毒",
+    quarantineActiveContent: "宏或活动内容",
+    quarantineScanFailed: "无法扫描",
+    confirmDeleteQuarantined: "永久删除此隔离文件？",
+    quarantineDeleted: "隔离文件已删除",
+    noQuarantined: "没有隔离的文件",
+    extractedData: "提取的数据",
+    extractionMissing: "此文件尚无提取结果。",
+    extractionRun: "重新运行 OCR",
+    extractionConfidence: "OCR 置信度",
+    extractionProcessing: "正在读取文件，可能需要一分钟...",
+    extractionSave: "保存审核后的数值",
+    extractionSaved: "提取的数值已保存",
+    extractionPending: "排队中",
+    extractionExtracted: "待审核",
+    extractionFailed: "OCR 失败",
+    extractionReviewed: "已审核",
+    fieldEmployerEin: "雇主 EIN（b 栏）",
+    fieldWages: "工资（第 1 栏）",
+    fieldFederalWithholding: "联邦所得税预扣",
+    fieldSocialSecurityWages: "社会安全工资（第 3 栏）",
+    fieldMedicareWages: "医疗保险工资（第 5 栏）",
+    fieldFormVariant: "1099 类型",
+    fieldPayerTin: "付款人 TIN",
+    fieldAmount: "金额",
+    cancel: "取消",
+    confirmDeleteDocument: "删除此文件？在永久清除之前可以恢复。",
+    documentDeleted: "文件已删除",
+    documentDeletedDesc: "可以从“最近删除”中恢复",
+    documentDeleteError: "无法删除文件",
+    recentlyDeleted: "最近删除",
+    recentlyDeletedDesc: "这些文件将在保留期结束后被永久清除。",
+    restore: "恢复",
+    catIdDocument: "带照片的身份证件",
+    catW2: "W-2",
+    catForm1099: "1099 表格",
+    catBankStatement: "银行对账单",
+    catReceipt: "收据 / 1098",
+    catPreviousReturn: "以往报税表",
+    catSocialSecurity: "社会安全卡",
+    catProofOfAddress: "地址证明",
+    catOther: "其他",
+    catTaxReturn: "报税表",
+    catIrsLetter: "IRS 信函",
+    catSignedForm: "已签署表格",
   },
   ht: {
     adminPanel: "Panèl Administrasyon",
@@ -664,11 +1623,53 @@ const translations = {
     error: "Erè",
     updateError: "Pa kapab mete dosye a ajou.",
     createError: "Pa kapab kreye dosye a.",
+    assignedPreparer: "Preparatè Asiyen",
+    unassigned: "Pa asiyen",
+    caseAssigned: "Dosye asiyen",
+    caseAssignedDesc: "Asiyasyon preparatè a mete ajou.",
+    assignError: "Nou pa t kapab asiyen dosye a.",
+    caseType: "Kalite Dosye",
+    allTypes: "Tout kalite",
+    typeIndividual: "Endividyèl (1040)",
+    typeBusiness: "Biznis",
+    typeItin: "ITIN",
+    typeAmendment: "Amannman (1040-X)",
+    typePlanning: "Planifikasyon Taks",
+    typeBookkeeping: "Kontabilite",
+    typePayroll: "Pewòl",
+    stateReturns: "Deklarasyon eta (egz. FL, NY)",
+    selfEmployed: "Travayè endepandan (1099)",
+    businessName: "Non Biznis la",
+    entityType: "Kalite Antite",
+    ein: "EIN",
+    applicantName: "Non Aplikan an",
+    isRenewal: "Renouvèlman",
+    originalFilingYear: "Ane Fiskal Orijinal",
+    amendmentReason: "Rezon Amannman an",
+    planningFocus: "Objektif Planifikasyon",
+    frequency: "Frekans",
+    employeeCount: "Kantite Anplwaye",
+    payFrequency: "Frekans Peman",
+    entitySoleProprietorship: "Antrepriz Endividyèl",
+    entityLlc: "LLC",
+    entityPartnership: "Asosyasyon",
+    entitySCorp: "Kòporasyon S",
+    entityCCorp: "Kòporasyon C",
+    freqWeekly: "Chak semèn",
+    freqBiweekly: "Chak de semèn",
+    freqSemimonthly: "De fwa pa mwa",
+    freqMonthly: "Chak mwa",
+    freqQuarterly: "Chak trimès",
+    freqAnnual: "Chak ane",
     statusPending: "An Atant",
     statusInProcess: "An Pwosesis",
     statusSentToIRS: "Voye bay IRS",
     statusApproved: "Apwouve",
     statusRefundIssued: "Ranbousman Emèt",
+    statusAwaitingDocuments: "Ap Tann Dokiman",
+    statusRejectedByIRS: "IRS Rejte",
+    statusAmended: "Amande",
+    statusClosed: "Fèmen",
     admin: "Admin",
     preparer: "Preparatè",
     users: "Itilizatè",
@@ -693,6 +1694,142 @@ const translations = {
     cannotChangeOwnRole: "Ou pa kapab chanje pwòp wòl ou",
     changeRole: "Chanje Wòl",
     never: "Jamè",
+    documentChecklist: "Dokiman obligatwa",
+    docsReceived: "dokiman resevwa",
+    documentRequests: "Demann Dokiman",
+    dueDate: "Dat limit",
+    requestOpen: "Louvri",
+    requestFulfilled: "Akonpli",
+    requestWaived: "Egzante",
+    requestOverdue: "An reta",
+    waiveRequest: "Egzante",
+    reopenRequest: "Relouvri",
+    requestDescriptionPlaceholder: "Kisa ou bezwen? egz. W-2 2025 dezyèm anplwayè a",
+    requestDocument: "Mande",
+    documentRequested: "Dokiman mande",
+    documentRequestedDesc: "Nou avèti kliyan an",
+    documentRequestError: "Nou pa t kapab kreye demann dokiman an",
+    shareWithClient: "Pataje yon Dokiman ak Kliyan an",
+    noteForClient: "Nòt pou kliyan an (opsyonèl)",
+    share: "Pataje",
+    fromPreparer: "Nan men preparatè a",
+    documentShared: "Dokiman pataje",
+    documentSharedDesc: "Nou avèti kliyan an",
+    documentShareError: "Nou pa t kapab telechaje dokiman an",
+    versions: "Vèsyon",
+    currentVersion: "aktyèl",
+    review: "Revizyon",
+    reviewReceived: "Resevwa",
+    reviewAccepted: "Aksepte",
+    reviewRejected: "Rejte",
+    acceptDocument: "Aksepte",
+    rejectDocument: "Rejte",
+    rejectionReasonPlaceholder: "Rezon (egz. pa ka li, move ane fiskal)",
+    reviewSaved: "Revizyon anrejistre",
+    apptClientConfirmed: "Kliyan an konfime",
+    appointmentTypeColumn: "Kalite",
+    apptTypeInitialConsultation: "Premye konsiltasyon",
+    apptTypeDocumentDropoff: "Depoze dokiman",
+    apptTypeReturnReview: "Revizyon ak siyati",
+    apptTypeItinInterview: "Entèvyou ITIN",
+    apptLocationOffice: "Biwo",
+    apptLocationPhone: "Telefòn",
+    apptLocationVideo: "Videyo",
+    apptBuffer: "maj",
+    completeAppointment: "Fini",
+    rescheduleAppointment: "Chanje lè",
+    cancelAppointment: "Anile",
+    confirmCancelAppointment: "Anile randevou sa a? N ap avèti kliyan an pa imèl.",
+    rescheduleAppointmentDesc: "Nouvo lè a dwe yon plas ki lib nan orè a. N ap avèti kliyan an pa imèl.",
+    newAppointmentTime: "Nouvo dat ak lè",
+    anyAvailablePreparer: "Nenpòt preparatè ki disponib",
+    appointmentUpdated: "Randevou mete ajou",
+    appointmentSlotUnavailable: "Lè sa a pa disponib oswa randevou a pa ka chanje ankò.",
+    appointmentUpdateError: "Nou pa t kapab mete randevou a ajou.",
+    availability: "Disponiblite",
+    availabilityDesc: "Orè chak semèn kote kliyan ka pran randevou",
+    noAvailability: "Pa gen orè. Preparatè sa a p ap resevwa randevou.",
+    availabilityTimeZone: "Lè New York (ET), nan orè biwo a.",
+    startTime: "Kòmansman",
+    endTime: "Fen",
+    addHours: "Ajoute orè",
+    saveHours: "Sove orè",
+    availabilitySaved: "Orè sove",
+    availabilityError: "Nou pa t kapab mete ajanda a ajou.",
+    blockedTime: "Jou ferye ak lè ki bloke",
+    blockedTimeDesc: "Pa gen randevou pandan peryòd sa yo",
+    noBlockedTime: "Pa gen lè ki bloke k ap vini",
+    wholeOffice: "Tout biwo a",
+    blockReasonPlaceholder: "Rezon (egz. jou ferye)",
+    blockTime: "Bloke",
+    signatureRequests: "Siyati",
+    signatureKind8879: "Fòmilè 8879 (otorizasyon depo elektwonik)",
+    signatureKindEngagement: "Lèt angajman",
+    signatureTitlePlaceholder: "Tit kliyan an ap wè, egz. Fòmilè 8879 - 2025",
+    sendForSignature: "Voye pou siyen",
+    signatureSent: "Voye pou siyen",
+    signatureSentDesc: "Nou avèti kliyan an pa imèl.",
+    signatureSendError: "Nou pa t kapab voye dokiman an pou siyen. Verifye se yon PDF san modpas.",
+    signaturePending: "An atant",
+    signatureSigned: "Siyen",
+    signatureCancelled: "Anile",
+    cancelSignature: "Anile",
+    viewOriginal: "Orijinal",
+    viewSigned: "PDF siyen",
+    requires8879: "Kliyan an dwe siyen Fòmilè 8879 la anvan ka a ka voye bay IRS.",
+    downloadAllZip: "Telechaje tout (ZIP)",
+    downloadCaseZip: "Telechaje dokiman dosye a (ZIP)",
+    uploadInvalidContent: "Kontni fichye a pa koresponn ak tip li. Anrejistre l ankò an PDF, JPG, PNG oswa Word.",
+    uploadQuarantined: "Fichye a pa pase verifikasyon sekirite a epi li nan karantèn.",
+    quarantine: "Fichye nan karantèn",
+    quarantineFile: "Fichye",
+    quarantineDesc: "Fichye verifikasyon sekirite a kenbe. Yo pa janm rive nan dokiman kliyan an.",
+    quarantineReason: "Rezon",
+    quarantineVirus: "Viris detekte",
+    quarantineActiveContent: "Makwo oswa kontni aktif",
+    quarantineScanFailed: "Pa t ka analize",
+    confirmDeleteQuarantined: "Efase fichye sa a nan karantèn pou tout tan?",
+    quarantineDeleted: "Fichye nan karantèn efase",
+    noQuarantined: "Pa gen fichye nan karantèn",
+    extractedData: "Done yo rale",
+    extractionMissing: "Dokiman sa a poko gen ekstraksyon.",
+    extractionRun: "Relanse OCR",
+    extractionConfidence: "Konfyans OCR",
+    extractionProcessing: "N ap li dokiman an, sa ka pran yon minit...",
+    extractionSave: "Anrejistre valè revize yo",
+    extractionSaved: "Valè yo rale yo anrejistre",
+    extractionPending: "Nan liy",
+    extractionExtracted: "Pou revize",
+    extractionFailed: "OCR echwe",
+    extractionReviewed: "Revize",
+    fieldEmployerEin: "EIN anplwayè (bwat b)",
+    fieldWages: "Salè (bwat 1)",
+    fieldFederalWithholding: "Taks federal retni",
+    fieldSocialSecurityWages: "Salè Sekirite Sosyal (bwat 3)",
+    fieldMedicareWages: "Salè Medicare (bwat 5)",
+    fieldFormVariant: "Kalite 1099",
+    fieldPayerTin: "TIN moun ki peye a",
+    fieldAmount: "Montan",
+    cancel: "Anile",
+    confirmDeleteDocument: "Efase dokiman sa a? Ou ka restore l jiskaske yo efase l nèt.",
+    documentDeleted: "Dokiman efase",
+    documentDeletedDesc: "Ou ka restore l nan Efase dènyèman",
+    documentDeleteError: "Nou pa t kapab efase dokiman an",
+    recentlyDeleted: "Efase Dènyèman",
+    recentlyDeletedDesc: "Fichye sa yo ap efase nèt apre peryòd retansyon an.",
+    restore: "Restore",
+    catIdDocument: "Pyès idantite ak foto",
+    catW2: "W-2",
+    catForm1099: "Fòm 1099",
+    catBankStatement: "Relve bank",
+    catReceipt: "Resi / 1098",
+    catPreviousReturn: "Deklarasyon anvan",
+    catSocialSecurity: "Kat Sekirite Sosyal",
+    catProofOfAddress: "Prèv adrès",
+    catOther: "Lòt",
+    catTaxReturn: "Deklarasyon Taks",
+    catIrsLetter: "Lèt IRS",
+    catSignedForm: "Fòm Siyen",
   },
 };
 
@@ -720,14 +1857,43 @@ export default function Admin() {
   const [editStatus, setEditStatus] = useState("");
   const [editNotes, setEditNotes] = useState("");
   const [editAmount, setEditAmount] = useState("");
-  const [newCaseData, setNewCaseData] = useState({
+  const [newRequest, setNewRequest] = useState({ category: "other", description: "", dueDate: "" });
+  const [preparerFile, setPreparerFile] = useState<File | null>(null);
+  const [preparerCategory, setPreparerCategory] = useState("tax_return");
+  const [preparerNote, setPreparerNote] = useState("");
+  const [newSignature, setNewSignature] = useState<{ kind: SignatureRequest["kind"]; title: string; file: File | null }>({
+    kind: "form_8879",
+    title: "",
+    file: null,
+  });
+  const [availabilityPreparerId, setAvailabilityPreparerId] = useState<number | null>(null);
+  const [availabilityDraft, setAvailabilityDraft] = useState<AvailabilityDraft[]>([]);
+  const [newBlock, setNewBlock] = useState({ preparerId: "office", startsAt: "", endsAt: "", reason: "" });
+  const [reschedulingAppointment, setReschedulingAppointment] = useState<Appointment | null>(null);
+  const [rescheduleDraft, setRescheduleDraft] = useState({ appointmentDate: "", preparerId: "any" });
+  const [newCaseData, setNewCaseData] = useState<{
+    clientId: string;
+    caseType: CaseType;
+    filingYear: number;
+    filingStatus: string;
+    dependents: number;
+    details: Record<string, unknown>;
+  }>({
     clientId: "",
+    caseType: "individual",
     filingYear: new Date().getFullYear(),
     filingStatus: "single",
     dependents: 0,
+    details: {},
   });
+  const [caseTypeFilter, setCaseTypeFilter] = useState<string>("all");
   const [selectedClient, setSelectedClient] = useState<ClientWithDetails | null>(null);
   const [isDocumentsDialogOpen, setIsDocumentsDialogOpen] = useState(false);
+  const [versionsDocumentId, setVersionsDocumentId] = useState<number | null>(null);
+  const [rejectingDocumentId, setRejectingDocumentId] = useState<number | null>(null);
+  const [extractionDocumentId, setExtractionDocumentId] = useState<number | null>(null);
+  const [extractionFields, setExtractionFields] = useState<Record<string, string>>({});
+  const [rejectionReason, setRejectionReason] = useState("");
 
   const t = translations[language as keyof typeof translations] || translations.en;
 
@@ -737,8 +1903,187 @@ export default function Admin() {
     { value: "sent_to_irs", label: t.statusSentToIRS },
     { value: "approved", label: t.statusApproved },
     { value: "refund_issued", label: t.statusRefundIssued },
+    { value: "awaiting_documents", label: t.statusAwaitingDocuments },
+    { value: "rejected_by_irs", label: t.statusRejectedByIRS },
+    { value: "amended", label: t.statusAmended },
+    { value: "closed", label: t.statusClosed },
+  ];
+
+  const caseTypeOptions: { value: CaseType; label: string }[] = [
+    { value: "individual", label: t.typeIndividual },
+    { value: "business", label: t.typeBusiness },
+    { value: "itin", label: t.typeItin },
+    { value: "amendment", label: t.typeAmendment },
+    { value: "planning", label: t.typePlanning },
+    { value: "bookkeeping", label: t.typeBookkeeping },
+    { value: "payroll", label: t.typePayroll },
   ];
 
+  const businessNameField: CaseDetailField = { name: "businessName", label: t.businessName, kind: "text", required: true };
+
+  const caseTypeFields: Record<CaseType, CaseDetailField[]> = {
+    individual: [
+      { name: "stateReturns", label: t.stateReturns, kind: "list" },
+      { name: "selfEmployed", label: t.selfEmployed, kind: "checkbox" },
+    ],
+    business: [
+      businessNameField,
+      {
+        name: "entityType",
+        label: t.entityType,
+        kind: "select",
+        required: true,
+        options: [
+          { value: "sole_proprietorship", label: t.entitySoleProprietorship },
+          { value: "llc", label: t.entityLlc },
+          { value: "partnership", label: t.entityPartnership },
+          { value: "s_corp", label: t.entitySCorp },
+          { value: "c_corp", label: t.entityCCorp },
+        ],
+      },
+      { name: "ein", label: t.ein, kind: "text" },
+    ],
+    itin: [
+      { name: "applicantName", label: t.applicantName, kind: "text", required: true },
+      { name: "isRenewal", label: t.isRenewal, kind: "checkbox" },
+    ],
+    amendment: [
+      { name: "originalFilingYear", label: t.originalFilingYear, kind: "number", required: true },
+      { name: "reason", label: t.amendmentReason, kind: "textarea", required: true },
+    ],
+    planning: [
+      { name: "focus", label: t.planningFocus, kind: "textarea" },
+    ],
+    bookkeeping: [
+      businessNameField,
+      {
+        name: "frequency",
+        label: t.frequency,
+        kind: "select",
+        required: true,
+        options: [
+          { value: "monthly", label: t.freqMonthly },
+          { value: "quarterly", label: t.freqQuarterly },
+          { value: "annual", label: t.freqAnnual },
+        ],
+      },
+    ],
+    payroll: [
+      businessNameField,
+      { name: "employeeCount", label: t.employeeCount, kind: "number", required: true },
+      {
+        name: "payFrequency",
+        label: t.payFrequency,
+        kind: "select",
+        required: true,
+        options: [
+          { value: "weekly", label: t.freqWeekly },
+          { value: "biweekly", label: t.freqBiweekly },
+          { value: "semimonthly", label: t.freqSemimonthly },
+          { value: "monthly", label: t.freqMonthly },
+        ],
+      },
+    ],
+  };
+
+  const categoryLabels: Record<string, string> = {
+    id_document: t.catIdDocument,
+    w2: t.catW2,
+    form_1099: t.catForm1099,
+    bank_statement: t.catBankStatement,
+    receipt: t.catReceipt,
+    previous_return: t.catPreviousReturn,
+    social_security: t.catSocialSecurity,
+    proof_of_address: t.catProofOfAddress,
+    other: t.catOther,
+    tax_return: t.catTaxReturn,
+    irs_letter: t.catIrsLetter,
+    signed_form: t.catSignedForm,
+  };
+
+  const requestStatusLabels: Record<string, string> = {
+    open: t.requestOpen,
+    fulfilled: t.requestFulfilled,
+    waived: t.requestWaived,
+  };
+
+  // Nombres de los días (0 = domingo); el 7 de enero de 2024 fue domingo
+  const weekdayLabels = Array.from({ length: 7 }, (_, weekday) =>
+    new Intl.DateTimeFormat(language, { weekday: "long" }).format(new Date(2024, 0, 7 + weekday))
+  );
+
+  const signatureStatusLabels: Record<string, string> = {
+    pending: t.signaturePending,
+    signed: t.signatureSigned,
+    cancelled: t.signatureCancelled,
+  };
+
+  const extractionStatusLabels: Record<string, string> = {
+    pending: t.extractionPending,
+    processing: t.extractionPending,
+    extracted: t.extractionExtracted,
+    failed: t.extractionFailed,
+    reviewed: t.extractionReviewed,
+  };
+
+  const extractionFieldLabels: Record<string, string> = {
+    employerEin: t.fieldEmployerEin,
+    wages: t.fieldWages,
+    federalWithholding: t.fieldFederalWithholding,
+    socialSecurityWages: t.fieldSocialSecurityWages,
+    medicareWages: t.fieldMedicareWages,
+    formVariant: t.fieldFormVariant,
+    payerTin: t.fieldPayerTin,
+    amount: t.fieldAmount,
+  };
+
+  const quarantineReasonLabels: Record<string, string> = {
+    virus_detected: t.quarantineVirus,
+    active_content: t.quarantineActiveContent,
+    scan_failed: t.quarantineScanFailed,
+  };
+
+  const reviewStatusLabels: Record<string, string> = {
+    received: t.reviewReceived,
+    accepted: t.reviewAccepted,
+    rejected: t.reviewRejected,
+  };
+
+  // Estado civil y dependientes solo aplican a declaraciones personales
+  const hasFilingFields = newCaseData.caseType === "individual" || newCaseData.caseType === "amendment";
+
+  const setNewCaseDetail = (name: string, value: unknown) => {
+    setNewCaseData((current) => ({
+      ...current,
+      details: { ...current.details, [name]: value },
+    }));
+  };
+
+  // Convierte los campos de lista ("FL, NY") a arreglos y omite los
+  // campos de declaración personal en los tipos que no los usan
+  const buildNewCasePayload = () => {
+    const details: Record<string, unknown> = { ...newCaseData.details };
+    for (const field of caseTypeFields[newCaseData.caseType]) {
+      if (field.kind === "list" && typeof details[field.name] === "string") {
+        const items = (details[field.name] as string).split(",").map((item) => item.trim()).filter(Boolean);
+        details[field.name] = items.length > 0 ? items : undefined;
+      }
+    }
+    return {
+      ...newCaseData,
+      filingStatus: hasFilingFields ? newCaseData.filingStatus : undefined,
+      dependents: hasFilingFields ? newCaseData.dependents : undefined,
+      details,
+    };
+  };
+
+  // Los campos requeridos del tipo seleccionado deben estar completos
+  const isNewCaseComplete =
+    !!newCaseData.clientId &&
+    caseTypeFields[newCaseData.caseType].every(
+      (field) => !field.required || (newCaseData.details[field.name] !== undefined && newCaseData.details[field.name] !== "")
+    );
+
   const { data: stats, isLoading: statsLoading } = useQuery<AdminStats>({
     queryKey: ["/api/admin/stats"],
     enabled: !!user && (user.role === "admin" || user.role === "preparer"),
@@ -752,6 +2097,7 @@ export default function Admin() {
   const { data: clientDocuments, isLoading: documentsLoading } = useQuery<{
     client: User;
     documents: Document[];
+    deletedDocuments: Document[];
     cases: TaxCase[];
     appointments: Appointment[];
   }>({
@@ -760,25 +2106,133 @@ export default function Admin() {
   });
 
   const { data: cases, isLoading: casesLoading } = useQuery<CaseWithClient[]>({
-    queryKey: ["/api/admin/cases"],
+    queryKey: ["/api/admin/cases", caseTypeFilter],
+    queryFn: async () => {
+      const query = caseTypeFilter === "all" ? "" : `?caseType=${caseTypeFilter}`;
+      const res = await apiRequest("GET", `/api/admin/cases${query}`);
+      return res.json();
+    },
     enabled: !!user && (user.role === "admin" || user.role === "preparer"),
   });
 
+  const { data: caseChecklist } = useQuery<DocumentChecklist>({
+    queryKey: ["/api/cases", selectedCase?.id, "checklist"],
+    enabled: isEditOpen && !!selectedCase,
+  });
+
+  const { data: documentVersions, isLoading: versionsLoading } = useQuery<DocumentVersion[]>({
+    queryKey: ["/api/documents", versionsDocumentId, "versions"],
+    enabled: isDocumentsDialogOpen && versionsDocumentId !== null,
+  });
+
+  const { data: documentExtraction, isLoading: extractionLoading } = useQuery<DocumentExtraction>({
+    queryKey: ["/api/admin/documents", extractionDocumentId, "extraction"],
+    enabled: isDocumentsDialogOpen && extractionDocumentId !== null,
+    // Mientras el OCR está en cola se consulta hasta que termine
+    refetchInterval: (query) =>
+      query.state.data?.status === "pending" || query.state.data?.status === "processing" ? 5000 : false,
+  });
+
+  useEffect(() => {
+    if (documentExtraction) {
+      setExtractionFields(
+        Object.fromEntries(Object.entries(documentExtraction.fields).map(([field, value]) => [field, value ?? ""]))
+      );
+    }
+  }, [documentExtraction]);
+
+  const { data: caseDocumentRequests } = useQuery<DocumentRequest[]>({
+    queryKey: ["/api/admin/cases", selectedCase?.id, "document-requests"],
+    enabled: isEditOpen && !!selectedCase,
+  });
+
+  const { data: caseSignatureRequests } = useQuery<SignatureRequest[]>({
+    queryKey: ["/api/admin/cases", selectedCase?.id, "signature-requests"],
+    enabled: isEditOpen && !!selectedCase,
+  });
+  // El caso solo puede enviarse al IRS con el 8879 firmado
+  const blockedBy8879 =
+    !!selectedCase &&
+    editStatus === "sent_to_irs" &&
+    selectedCase.status !== "sent_to_irs" &&
+    !caseSignatureRequests?.some((request) => request.kind === "form_8879" && request.status === "signed");
+
   const { data: appointments, isLoading: appointmentsLoading } = useQuery<Appointment[]>({
     queryKey: ["/api/admin/appointments"],
     enabled: !!user && (user.role === "admin" || user.role === "preparer"),
   });
 
+  // Los preparadores solo editan su propia agenda
+  const scheduleOwnerId = user?.role === "preparer" ? user.id : availabilityPreparerId ?? user?.id ?? null;
+
+  const { data: availabilityData, isLoading: availabilityLoading } = useQuery<{
+    timeZone: string;
+    availability: PreparerAvailability[];
+  }>({
+    queryKey: ["/api/admin/availability", scheduleOwnerId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/availability?preparerId=${scheduleOwnerId}`);
+      return res.json();
+    },
+    enabled: !!user && (user.role === "admin" || user.role === "preparer") && scheduleOwnerId !== null,
+  });
+
+  useEffect(() => {
+    if (availabilityData) {
+      setAvailabilityDraft(
+        availabilityData.availability.map((window) => ({
+          weekday: window.weekday,
+          start: minutesToTime(window.startMinute),
+          end: minutesToTime(window.endMinute),
+        }))
+      );
+    }
+  }, [availabilityData]);
+
+  const { data: availabilityBlocks } = useQuery<AvailabilityBlock[]>({
+    queryKey: ["/api/admin/availability-blocks"],
+    enabled: !!user && (user.role === "admin" || user.role === "preparer"),
+  });
+
   const { data: contacts, isLoading: contactsLoading } = useQuery<ContactSubmission[]>({
     queryKey: ["/api/admin/contacts"],
     enabled: !!user && (user.role === "admin" || user.role === "preparer"),
   });
 
+  const { data: preparers } = useQuery<PreparerOption[]>({
+    queryKey: ["/api/admin/preparers"],
+    enabled: !!user && (user.role === "admin" || user.role === "preparer"),
+  });
+
   const { data: allUsers, isLoading: usersLoading } = useQuery<User[]>({
     queryKey: ["/api/admin/users"],
     enabled: !!user && user.role === "admin",
   });
 
+  const { data: quarantinedUploads } = useQuery<QuarantinedUpload[]>({
+    queryKey: ["/api/admin/quarantine"],
+    enabled: !!user && user.role === "admin",
+  });
+
+  const deleteQuarantinedMutation = useMutation({
+    mutationFn: async (uploadId: number) => {
+      return apiRequest("DELETE", `/api/admin/quarantine/${uploadId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/quarantine"] });
+      toast({
+        title: t.quarantineDeleted,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateUserStatusMutation = useMutation({
     mutationFn: async (data: { userId: number; isActive: boolean }) => {
       return apiRequest("PATCH", `/api/admin/users/${data.userId}/status`, {
@@ -848,14 +2302,361 @@ export default function Admin() {
       });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/cases"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
-      setIsEditOpen(false);
-      setSelectedCase(null);
-      toast({
-        title: t.caseUpdated,
-        description: t.caseUpdatedDesc,
-      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/cases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+      setIsEditOpen(false);
+      setSelectedCase(null);
+      toast({
+        title: t.caseUpdated,
+        description: t.caseUpdatedDesc,
+      });
+    },
+    onError: () => {
+      toast({
+        title: t.error,
+        description: t.updateError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const assignCaseMutation = useMutation({
+    mutationFn: async (data: { id: number; preparerId: number | null }) => {
+      return apiRequest("PATCH", `/api/admin/cases/${data.id}/assign`, {
+        preparerId: data.preparerId,
+      });
+    },
+    onSuccess: async (response) => {
+      const updated: TaxCase = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/cases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/clients"] });
+      setSelectedCase((current) =>
+        current && current.id === updated.id
+          ? { ...current, assignedPreparerId: updated.assignedPreparerId }
+          : current
+      );
+      toast({
+        title: t.caseAssigned,
+        description: t.caseAssignedDesc,
+      });
+    },
+    onError: () => {
+      toast({
+        title: t.error,
+        description: t.assignError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createDocumentRequestMutation = useMutation({
+    mutationFn: async (data: { caseId: number; category: string; description: string; dueDate: string }) => {
+      return apiRequest("POST", `/api/admin/cases/${data.caseId}/document-requests`, {
+        category: data.category,
+        description: data.description,
+        dueDate: data.dueDate || null,
+      });
+    },
+    onSuccess: (_response, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/cases", variables.caseId, "document-requests"] });
+      setNewRequest({ category: "other", description: "", dueDate: "" });
+      toast({
+        title: t.documentRequested,
+        description: t.documentRequestedDesc,
+      });
+    },
+    onError: () => {
+      toast({
+        title: t.error,
+        description: t.documentRequestError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDocumentRequestMutation = useMutation({
+    mutationFn: async (data: { id: number; caseId: number; status: "open" | "waived" }) => {
+      return apiRequest("PATCH", `/api/admin/document-requests/${data.id}`, { status: data.status });
+    },
+    onSuccess: (_response, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/cases", variables.caseId, "document-requests"] });
+    },
+    onError: () => {
+      toast({
+        title: t.error,
+        description: t.updateError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const preparerUploadMutation = useMutation({
+    mutationFn: async (data: { caseId: number; file: File; category: string; description: string }) => {
+      const formData = new FormData();
+      formData.append("file", data.file);
+      formData.append("category", data.category);
+      if (data.description) {
+        formData.append("description", data.description);
+      }
+
+      const response = await fetch(`/api/admin/cases/${data.caseId}/documents`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        // 415: el contenido no coincide con el tipo; 422: retenido por la verificación de seguridad
+        throw new Error(
+          response.status === 415 ? t.uploadInvalidContent : response.status === 422 ? t.uploadQuarantined : t.documentShareError
+        );
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/clients"] });
+      setPreparerFile(null);
+      setPreparerNote("");
+      toast({
+        title: t.documentShared,
+        description: t.documentSharedDesc,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createSignatureRequestMutation = useMutation({
+    mutationFn: async (data: { caseId: number; kind: string; title: string; file: File }) => {
+      const formData = new FormData();
+      formData.append("file", data.file);
+      formData.append("kind", data.kind);
+      formData.append("title", data.title);
+
+      const response = await fetch(`/api/admin/cases/${data.caseId}/signature-requests`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          response.status === 415 ? t.uploadInvalidContent : response.status === 422 ? t.uploadQuarantined : t.signatureSendError
+        );
+      }
+
+      return response.json();
+    },
+    onSuccess: (_response, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/cases", variables.caseId, "signature-requests"] });
+      setNewSignature({ kind: "form_8879", title: "", file: null });
+      toast({
+        title: t.signatureSent,
+        description: t.signatureSentDesc,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelSignatureRequestMutation = useMutation({
+    mutationFn: async (data: { id: number; caseId: number }) => {
+      return apiRequest("PATCH", `/api/admin/signature-requests/${data.id}`, { status: "cancelled" });
+    },
+    onSuccess: (_response, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/cases", variables.caseId, "signature-requests"] });
+    },
+    onError: () => {
+      toast({
+        title: t.error,
+        description: t.updateError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveAvailabilityMutation = useMutation({
+    mutationFn: async (data: { preparerId: number; windows: AvailabilityDraft[] }) => {
+      return apiRequest("PUT", `/api/admin/preparers/${data.preparerId}/availability`, {
+        windows: data.windows.map((window) => ({
+          weekday: window.weekday,
+          startMinute: timeToMinutes(window.start),
+          endMinute: timeToMinutes(window.end),
+        })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/availability"] });
+      toast({ title: t.availabilitySaved });
+    },
+    onError: () => {
+      toast({
+        title: t.error,
+        description: t.availabilityError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createBlockMutation = useMutation({
+    mutationFn: async (data: { preparerId: number | null; startsAt: string; endsAt: string; reason: string }) => {
+      return apiRequest("POST", "/api/admin/availability-blocks", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/availability-blocks"] });
+      setNewBlock({ preparerId: "office", startsAt: "", endsAt: "", reason: "" });
+    },
+    onError: () => {
+      toast({
+        title: t.error,
+        description: t.availabilityError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteBlockMutation = useMutation({
+    mutationFn: async (blockId: number) => {
+      return apiRequest("DELETE", `/api/admin/availability-blocks/${blockId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/availability-blocks"] });
+    },
+    onError: () => {
+      toast({
+        title: t.error,
+        description: t.availabilityError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateAppointmentMutation = useMutation({
+    mutationFn: async (data: {
+      id: number;
+      status?: "completed" | "cancelled";
+      appointmentDate?: string;
+      preparerId?: number;
+    }) => {
+      const { id, ...body } = data;
+      return apiRequest("PATCH", `/api/admin/appointments/${id}`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/appointments"] });
+      setReschedulingAppointment(null);
+      toast({
+        title: t.appointmentUpdated,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message.startsWith("409") ? t.appointmentSlotUnavailable : t.appointmentUpdateError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteDocumentMutation = useMutation({
+    mutationFn: async (documentId: number) => {
+      return apiRequest("DELETE", `/api/admin/documents/${documentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/clients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/documents"] });
+      toast({
+        title: t.documentDeleted,
+        description: t.documentDeletedDesc,
+      });
+    },
+    onError: () => {
+      toast({
+        title: t.error,
+        description: t.documentDeleteError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewDocumentMutation = useMutation({
+    mutationFn: async (data: { documentId: number; reviewStatus: string; rejectionReason?: string }) => {
+      return apiRequest("PATCH", `/api/admin/documents/${data.documentId}/review`, {
+        reviewStatus: data.reviewStatus,
+        rejectionReason: data.rejectionReason,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/clients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/documents"] });
+      setRejectingDocumentId(null);
+      setRejectionReason("");
+      toast({
+        title: t.reviewSaved,
+      });
+    },
+    onError: () => {
+      toast({
+        title: t.error,
+        description: t.updateError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveExtractionMutation = useMutation({
+    mutationFn: async (data: { documentId: number; fields: Record<string, string> }) => {
+      return apiRequest("PATCH", `/api/admin/documents/${data.documentId}/extraction`, { fields: data.fields });
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/documents", variables.documentId, "extraction"] });
+      toast({
+        title: t.extractionSaved,
+      });
+    },
+    onError: () => {
+      toast({
+        title: t.error,
+        description: t.updateError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retryExtractionMutation = useMutation({
+    mutationFn: async (documentId: number) => {
+      return apiRequest("POST", `/api/admin/documents/${documentId}/extraction/retry`);
+    },
+    onSuccess: (_data, documentId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/documents", documentId, "extraction"] });
+    },
+    onError: () => {
+      toast({
+        title: t.error,
+        description: t.updateError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreDocumentMutation = useMutation({
+    mutationFn: async (documentId: number) => {
+      return apiRequest("POST", `/api/admin/documents/${documentId}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/clients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/documents"] });
     },
     onError: () => {
       toast({
@@ -867,7 +2668,9 @@ export default function Admin() {
   });
 
   const createCaseMutation = useMutation({
-    mutationFn: async (data: typeof newCaseData) => {
+    mutationFn: async (
+      data: Omit<typeof newCaseData, "filingStatus" | "dependents"> & { filingStatus?: string; dependents?: number }
+    ) => {
       return apiRequest("POST", "/api/admin/cases", data);
     },
     onSuccess: () => {
@@ -876,9 +2679,11 @@ export default function Admin() {
       setIsCreateCaseOpen(false);
       setNewCaseData({
         clientId: "",
+        caseType: "individual",
         filingYear: new Date().getFullYear(),
         filingStatus: "single",
         dependents: 0,
+        details: {},
       });
       toast({
         title: t.caseCreated,
@@ -904,6 +2709,10 @@ export default function Admin() {
     setEditStatus(taxCase.status);
     setEditNotes(taxCase.notes || "");
     setEditAmount(taxCase.finalAmount || "");
+    setNewRequest({ category: "other", description: "", dueDate: "" });
+    setPreparerFile(null);
+    setPreparerCategory("tax_return");
+    setPreparerNote("");
     setIsEditOpen(true);
   };
 
@@ -933,12 +2742,34 @@ export default function Admin() {
       .slice(0, 2);
   };
 
+  // Solo el estado actual y los siguientes estados legales del caso
+  const editStatusOptions = selectedCase
+    ? statusOptions.filter(
+        (option) =>
+          option.value === selectedCase.status ||
+          getAllowedCaseStatuses(selectedCase.status).some((status) => status === option.value)
+      )
+    : statusOptions;
+
   const appointmentStatusLabels: Record<string, string> = {
     scheduled: t.scheduled,
     completed: t.completed,
     cancelled: t.cancelled,
   };
 
+  const appointmentTypeLabels: Record<AppointmentType, string> = {
+    initial_consultation: t.apptTypeInitialConsultation,
+    document_dropoff: t.apptTypeDocumentDropoff,
+    return_review: t.apptTypeReturnReview,
+    itin_interview: t.apptTypeItinInterview,
+  };
+
+  const appointmentLocationLabels: Record<AppointmentLocation, string> = {
+    office: t.apptLocationOffice,
+    phone: t.apptLocationPhone,
+    video: t.apptLocationVideo,
+  };
+
   return (
     <div className="min-h-screen bg-muted/30" data-testid="page-admin">
       <header className="sticky top-0 z-40 bg-background border-b">
@@ -1108,114 +2939,220 @@ export default function Admin() {
                   <CardTitle>{t.taxCases}</CardTitle>
                   <CardDescription>{t.manageActiveCases}</CardDescription>
                 </div>
-                <Dialog open={isCreateCaseOpen} onOpenChange={setIsCreateCaseOpen}>
-                  <DialogTrigger asChild>
-                    <Button className="gap-2" data-testid="button-create-case">
-                      <Plus className="h-4 w-4" />
-                      {t.newCase}
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent>
-                    <DialogHeader>
-                      <DialogTitle>{t.createNewCase}</DialogTitle>
-                      <DialogDescription>
-                        {t.createCaseDesc}
-                      </DialogDescription>
-                    </DialogHeader>
-                    <div className="space-y-4 pt-4">
-                      <div className="space-y-2">
-                        <Label>{t.client}</Label>
-                        <Select
-                          value={newCaseData.clientId}
-                          onValueChange={(value) =>
-                            setNewCaseData({ ...newCaseData, clientId: value })
-                          }
-                        >
-                          <SelectTrigger data-testid="select-client">
-                            <SelectValue placeholder={t.selectClient} />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {clients?.map((client) => (
-                              <SelectItem key={client.id} value={client.id.toString()}>
-                                {client.name} ({client.email})
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div className="grid grid-cols-2 gap-4">
+                <div className="flex items-center gap-2">
+                  <Select value={caseTypeFilter} onValueChange={setCaseTypeFilter}>
+                    <SelectTrigger className="w-[180px]" data-testid="select-case-type-filter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">{t.allTypes}</SelectItem>
+                      {caseTypeOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Dialog open={isCreateCaseOpen} onOpenChange={setIsCreateCaseOpen}>
+                    <DialogTrigger asChild>
+                      <Button className="gap-2" data-testid="button-create-case">
+                        <Plus className="h-4 w-4" />
+                        {t.newCase}
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>{t.createNewCase}</DialogTitle>
+                        <DialogDescription>
+                          {t.createCaseDesc}
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="space-y-4 pt-4">
                         <div className="space-y-2">
-                          <Label>{t.fiscalYear}</Label>
-                          <Input
-                            type="number"
-                            value={newCaseData.filingYear}
-                            onChange={(e) =>
-                              setNewCaseData({
-                                ...newCaseData,
-                                filingYear: parseInt(e.target.value),
-                              })
+                          <Label>{t.client}</Label>
+                          <Select
+                            value={newCaseData.clientId}
+                            onValueChange={(value) =>
+                              setNewCaseData({ ...newCaseData, clientId: value })
                             }
-                            data-testid="input-filing-year"
-                          />
+                          >
+                            <SelectTrigger data-testid="select-client">
+                              <SelectValue placeholder={t.selectClient} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {clients?.map((client) => (
+                                <SelectItem key={client.id} value={client.id.toString()}>
+                                  {client.name} ({client.email})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </div>
                         <div className="space-y-2">
-                          <Label>{t.dependents}</Label>
-                          <Input
-                            type="number"
-                            value={newCaseData.dependents}
-                            onChange={(e) =>
-                              setNewCaseData({
-                                ...newCaseData,
-                                dependents: parseInt(e.target.value),
-                              })
+                          <Label>{t.caseType}</Label>
+                          <Select
+                            value={newCaseData.caseType}
+                            onValueChange={(value) =>
+                              setNewCaseData({ ...newCaseData, caseType: value as CaseType, details: {} })
                             }
-                            data-testid="input-dependents"
-                          />
+                          >
+                            <SelectTrigger data-testid="select-case-type">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {caseTypeOptions.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </div>
-                      </div>
-                      <div className="space-y-2">
-                        <Label>{t.filingStatus}</Label>
-                        <Select
-                          value={newCaseData.filingStatus}
-                          onValueChange={(value) =>
-                            setNewCaseData({ ...newCaseData, filingStatus: value })
-                          }
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label>{t.fiscalYear}</Label>
+                            <Input
+                              type="number"
+                              value={newCaseData.filingYear}
+                              onChange={(e) =>
+                                setNewCaseData({
+                                  ...newCaseData,
+                                  filingYear: parseInt(e.target.value),
+                                })
+                              }
+                              data-testid="input-filing-year"
+                            />
+                          </div>
+                          {hasFilingFields && (
+                            <div className="space-y-2">
+                              <Label>{t.dependents}</Label>
+                              <Input
+                                type="number"
+                                value={newCaseData.dependents}
+                                onChange={(e) =>
+                                  setNewCaseData({
+                                    ...newCaseData,
+                                    dependents: parseInt(e.target.value),
+                                  })
+                                }
+                                data-testid="input-dependents"
+                              />
+                            </div>
+                          )}
+                        </div>
+                        {hasFilingFields && (
+                          <div className="space-y-2">
+                            <Label>{t.filingStatus}</Label>
+                            <Select
+                              value={newCaseData.filingStatus}
+                              onValueChange={(value) =>
+                                setNewCaseData({ ...newCaseData, filingStatus: value })
+                              }
+                            >
+                              <SelectTrigger data-testid="select-filing-status">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="single">{t.single}</SelectItem>
+                                <SelectItem value="married_filing_jointly">
+                                  {t.marriedJoint}
+                                </SelectItem>
+                                <SelectItem value="married_filing_separately">
+                                  {t.marriedSeparate}
+                                </SelectItem>
+                                <SelectItem value="head_of_household">
+                                  {t.headHousehold}
+                                </SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+                        {caseTypeFields[newCaseData.caseType].map((field) => (
+                          <div key={field.name} className="space-y-2">
+                            {field.kind === "checkbox" ? (
+                              <div className="flex items-center gap-2">
+                                <Checkbox
+                                  id={`case-detail-${field.name}`}
+                                  checked={newCaseData.details[field.name] === true}
+                                  onCheckedChange={(checked) => setNewCaseDetail(field.name, checked === true)}
+                                  data-testid={`checkbox-case-${field.name}`}
+                                />
+                                <Label htmlFor={`case-detail-${field.name}`}>{field.label}</Label>
+                              </div>
+                            ) : (
+                              <>
+                                <Label>{field.label}</Label>
+                                {field.kind === "select" ? (
+                                  <Select
+                                    value={(newCaseData.details[field.name] as string) || ""}
+                                    onValueChange={(value) => setNewCaseDetail(field.name, value)}
+                                  >
+                                    <SelectTrigger data-testid={`select-case-${field.name}`}>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {field.options?.map((option) => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                          {option.label}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                ) : field.kind === "textarea" ? (
+                                  <Textarea
+                                    value={(newCaseData.details[field.name] as string) || ""}
+                                    onChange={(e) => setNewCaseDetail(field.name, e.target.value)}
+                                    data-testid={`input-case-${field.name}`}
+                                  />
+                                ) : field.kind === "number" ? (
+                                  <Input
+                                    type="number"
+                                    value={(newCaseData.details[field.name] as number | undefined) ?? ""}
+                                    onChange={(e) =>
+                                      setNewCaseDetail(
+                                        field.name,
+                                        e.target.value === "" ? undefined : parseInt(e.target.value)
+                                      )
+                                    }
+                                    data-testid={`input-case-${field.name}`}
+                                  />
+                                ) : field.kind === "list" ? (
+                                  <Input
+                                    value={(newCaseData.details[field.name] as string) || ""}
+                                    onChange={(e) => setNewCaseDetail(field.name, e.target.value.toUpperCase())}
+                                    placeholder="FL, NY"
+                                    data-testid={`input-case-${field.name}`}
+                                  />
+                                ) : (
+                                  <Input
+                                    value={(newCaseData.details[field.name] as string) || ""}
+                                    onChange={(e) => setNewCaseDetail(field.name, e.target.value)}
+                                    data-testid={`input-case-${field.name}`}
+                                  />
+                                )}
+                              </>
+                            )}
+                          </div>
+                        ))}
+                        <Button
+                          className="w-full"
+                          disabled={!isNewCaseComplete || createCaseMutation.isPending}
+                          onClick={() => createCaseMutation.mutate(buildNewCasePayload())}
+                          data-testid="button-create-case-submit"
                         >
-                          <SelectTrigger data-testid="select-filing-status">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="single">{t.single}</SelectItem>
-                            <SelectItem value="married_filing_jointly">
-                              {t.marriedJoint}
-                            </SelectItem>
-                            <SelectItem value="married_filing_separately">
-                              {t.marriedSeparate}
-                            </SelectItem>
-                            <SelectItem value="head_of_household">
-                              {t.headHousehold}
-                            </SelectItem>
-                          </SelectContent>
-                        </Select>
+                          {createCaseMutation.isPending ? (
+                            <>
+                              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                              {t.creating}
+                            </>
+                          ) : (
+                            t.createCase
+                          )}
+                        </Button>
                       </div>
-                      <Button
-                        className="w-full"
-                        disabled={!newCaseData.clientId || createCaseMutation.isPending}
-                        onClick={() => createCaseMutation.mutate(newCaseData)}
-                        data-testid="button-create-case-submit"
-                      >
-                        {createCaseMutation.isPending ? (
-                          <>
-                            <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                            {t.creating}
-                          </>
-                        ) : (
-                          t.createCase
-                        )}
-                      </Button>
-                    </div>
-                  </DialogContent>
-                </Dialog>
+                    </DialogContent>
+                  </Dialog>
+                </div>
               </CardHeader>
               <CardContent>
                 {casesLoading ? (
@@ -1230,8 +3167,10 @@ export default function Admin() {
                       <TableHeader>
                         <TableRow>
                           <TableHead>{t.client}</TableHead>
+                          <TableHead>{t.caseType}</TableHead>
                           <TableHead>{t.year}</TableHead>
                           <TableHead>{t.status}</TableHead>
+                          <TableHead>{t.assignedPreparer}</TableHead>
                           <TableHead>{t.amount}</TableHead>
                           <TableHead>{t.date}</TableHead>
                           <TableHead className="text-right">{t.actions}</TableHead>
@@ -1254,6 +3193,12 @@ export default function Admin() {
                                 </span>
                               </div>
                             </TableCell>
+                            <TableCell>
+                              <Badge variant="outline">
+                                {caseTypeOptions.find((type) => type.value === taxCase.caseType)?.label ||
+                                  taxCase.caseType}
+                              </Badge>
+                            </TableCell>
                             <TableCell>{taxCase.filingYear}</TableCell>
                             <TableCell>
                               <Badge
@@ -1264,6 +3209,14 @@ export default function Admin() {
                                   taxCase.status}
                               </Badge>
                             </TableCell>
+                            <TableCell>
+                              {taxCase.assignedPreparerId ? (
+                                preparers?.find((p) => p.id === taxCase.assignedPreparerId)?.name ||
+                                `#${taxCase.assignedPreparerId}`
+                              ) : (
+                                <span className="text-muted-foreground">{t.unassigned}</span>
+                              )}
+                            </TableCell>
                             <TableCell>
                               {taxCase.finalAmount
                                 ? `$${parseFloat(taxCase.finalAmount).toLocaleString()}`
@@ -1275,6 +3228,15 @@ export default function Admin() {
                               })}
                             </TableCell>
                             <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={t.downloadCaseZip}
+                                onClick={() => window.open(`/api/admin/cases/${taxCase.id}/documents.zip`, "_blank")}
+                                data-testid={`button-download-case-zip-${taxCase.id}`}
+                              >
+                                <FileArchive className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="icon"
@@ -1405,8 +3367,11 @@ export default function Admin() {
                       <TableHeader>
                         <TableRow>
                           <TableHead>{t.date}</TableHead>
+                          <TableHead>{t.appointmentTypeColumn}</TableHead>
+                          <TableHead>{t.preparer}</TableHead>
                           <TableHead>{t.status}</TableHead>
                           <TableHead>{t.notes}</TableHead>
+                          <TableHead className="text-right">{t.actions}</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -1418,9 +3383,22 @@ export default function Admin() {
                             <TableCell>
                               {format(
                                 new Date(appointment.appointmentDate),
-                                "EEEE, d MMMM yyyy",
+                                "EEEE, d MMMM yyyy, HH:mm",
                                 { locale: getDateLocale(language) }
                               )}
+                              <span className="block text-xs text-muted-foreground">
+                                {appointment.durationMinutes} min
+                                {appointment.bufferMinutes > 0 && ` + ${appointment.bufferMinutes} min ${t.apptBuffer}`}
+                              </span>
+                            </TableCell>
+                            <TableCell>
+                              {appointmentTypeLabels[appointment.appointmentType]}
+                              <span className="block text-xs text-muted-foreground">
+                                {appointmentLocationLabels[appointment.location]}
+                              </span>
+                            </TableCell>
+                            <TableCell>
+                              {preparers?.find((preparer) => preparer.id === appointment.preparerId)?.name || "-"}
                             </TableCell>
                             <TableCell>
                               <Badge
@@ -1434,10 +3412,58 @@ export default function Admin() {
                               >
                                 {appointmentStatusLabels[appointment.status] || appointment.status}
                               </Badge>
+                              {appointment.status === "scheduled" && appointment.confirmedAt && (
+                                <span className="flex items-center gap-1 mt-1 text-xs text-green-600 dark:text-green-400">
+                                  <CheckCircle className="h-3 w-3" />
+                                  {t.apptClientConfirmed}
+                                </span>
+                              )}
                             </TableCell>
                             <TableCell>
                               {appointment.notes || "-"}
                             </TableCell>
+                            <TableCell className="text-right whitespace-nowrap">
+                              {appointment.status === "scheduled" && (
+                                <div className="flex justify-end gap-1">
+                                  {canCompleteAppointment(appointment) && (
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      disabled={updateAppointmentMutation.isPending}
+                                      onClick={() => updateAppointmentMutation.mutate({ id: appointment.id, status: "completed" })}
+                                      data-testid={`button-complete-appointment-${appointment.id}`}
+                                    >
+                                      {t.completeAppointment}
+                                    </Button>
+                                  )}
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => {
+                                      setRescheduleDraft({ appointmentDate: "", preparerId: "any" });
+                                      setReschedulingAppointment(appointment);
+                                    }}
+                                    data-testid={`button-reschedule-appointment-${appointment.id}`}
+                                  >
+                                    {t.rescheduleAppointment}
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="text-destructive"
+                                    disabled={updateAppointmentMutation.isPending}
+                                    onClick={() => {
+                                      if (window.confirm(t.confirmCancelAppointment)) {
+                                        updateAppointmentMutation.mutate({ id: appointment.id, status: "cancelled" });
+                                      }
+                                    }}
+                                    data-testid={`button-cancel-appointment-${appointment.id}`}
+                                  >
+                                    {t.cancelAppointment}
+                                  </Button>
+                                </div>
+                              )}
+                            </TableCell>
                           </TableRow>
                         ))}
                       </TableBody>
@@ -1449,8 +3475,308 @@ export default function Admin() {
                     <p className="text-muted-foreground">{t.noAppointments}</p>
                   </div>
                 )}
+                <Dialog
+                  open={reschedulingAppointment !== null}
+                  onOpenChange={(open) => !open && setReschedulingAppointment(null)}
+                >
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>{t.rescheduleAppointment}</DialogTitle>
+                      <DialogDescription>{t.rescheduleAppointmentDesc}</DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 pt-2">
+                      <div className="space-y-2">
+                        <Label>{t.newAppointmentTime}</Label>
+                        <Input
+                          type="datetime-local"
+                          step={1800}
+                          value={rescheduleDraft.appointmentDate}
+                          onChange={(e) => setRescheduleDraft({ ...rescheduleDraft, appointmentDate: e.target.value })}
+                          data-testid="input-reschedule-date"
+                        />
+                      </div>
+                      {user?.role === "admin" && (
+                        <div className="space-y-2">
+                          <Label>{t.preparer}</Label>
+                          <Select
+                            value={rescheduleDraft.preparerId}
+                            onValueChange={(value) => setRescheduleDraft({ ...rescheduleDraft, preparerId: value })}
+                          >
+                            <SelectTrigger data-testid="select-reschedule-preparer">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="any">{t.anyAvailablePreparer}</SelectItem>
+                              {preparers?.map((preparer) => (
+                                <SelectItem key={preparer.id} value={String(preparer.id)}>
+                                  {preparer.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                      <Button
+                        className="w-full"
+                        disabled={!rescheduleDraft.appointmentDate || updateAppointmentMutation.isPending}
+                        onClick={() => {
+                          if (!reschedulingAppointment) return;
+                          updateAppointmentMutation.mutate({
+                            id: reschedulingAppointment.id,
+                            appointmentDate: new Date(rescheduleDraft.appointmentDate).toISOString(),
+                            preparerId:
+                              rescheduleDraft.preparerId === "any" ? undefined : parseInt(rescheduleDraft.preparerId),
+                          });
+                        }}
+                        data-testid="button-confirm-reschedule"
+                      >
+                        {updateAppointmentMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                        {t.saveChanges}
+                      </Button>
+                    </div>
+                  </DialogContent>
+                </Dialog>
               </CardContent>
             </Card>
+
+            <div className="grid gap-6 lg:grid-cols-2 mt-6">
+              <Card data-testid="card-availability">
+                <CardHeader>
+                  <CardTitle>{t.availability}</CardTitle>
+                  <CardDescription>{t.availabilityDesc}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {user?.role === "admin" && (
+                    <Select
+                      value={scheduleOwnerId !== null ? String(scheduleOwnerId) : undefined}
+                      onValueChange={(value) => setAvailabilityPreparerId(parseInt(value))}
+                    >
+                      <SelectTrigger data-testid="select-availability-preparer">
+                        <SelectValue placeholder={t.preparer} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {preparers?.map((preparer) => (
+                          <SelectItem key={preparer.id} value={String(preparer.id)}>
+                            {preparer.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {availabilityLoading ? (
+                    <Skeleton className="h-24 w-full" />
+                  ) : (
+                    <div className="space-y-2">
+                      {availabilityDraft.length === 0 && (
+                        <p className="text-sm text-muted-foreground">{t.noAvailability}</p>
+                      )}
+                      {availabilityDraft.map((window, index) => (
+                        <div key={index} className="flex items-center gap-2" data-testid={`row-availability-${index}`}>
+                          <Select
+                            value={String(window.weekday)}
+                            onValueChange={(value) =>
+                              setAvailabilityDraft(availabilityDraft.map((item, i) =>
+                                i === index ? { ...item, weekday: parseInt(value) } : item
+                              ))
+                            }
+                          >
+                            <SelectTrigger className="w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {weekdayLabels.map((label, weekday) => (
+                                <SelectItem key={weekday} value={String(weekday)}>
+                                  {label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="time"
+                            step={1800}
+                            value={window.start}
+                            onChange={(e) =>
+                              setAvailabilityDraft(availabilityDraft.map((item, i) =>
+                                i === index ? { ...item, start: e.target.value } : item
+                              ))
+                            }
+                            aria-label={t.startTime}
+                          />
+                          <Input
+                            type="time"
+                            step={1800}
+                            value={window.end}
+                            onChange={(e) =>
+                              setAvailabilityDraft(availabilityDraft.map((item, i) =>
+                                i === index ? { ...item, end: e.target.value } : item
+                              ))
+                            }
+                            aria-label={t.endTime}
+                          />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setAvailabilityDraft(availabilityDraft.filter((_, i) => i !== index))}
+                            data-testid={`button-remove-availability-${index}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <p className="text-xs text-muted-foreground">{t.availabilityTimeZone}</p>
+                    </div>
+                  )}
+                  <div className="flex justify-between gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setAvailabilityDraft([...availabilityDraft, { weekday: 1, start: "09:00", end: "17:00" }])
+                      }
+                      data-testid="button-add-availability"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      {t.addHours}
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={
+                        scheduleOwnerId === null ||
+                        availabilityDraft.some((window) => !window.start || !window.end || window.start >= window.end) ||
+                        saveAvailabilityMutation.isPending
+                      }
+                      onClick={() => {
+                        if (scheduleOwnerId !== null) {
+                          saveAvailabilityMutation.mutate({ preparerId: scheduleOwnerId, windows: availabilityDraft });
+                        }
+                      }}
+                      data-testid="button-save-availability"
+                    >
+                      {saveAvailabilityMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+                      {t.saveHours}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-availability-blocks">
+                <CardHeader>
+                  <CardTitle>{t.blockedTime}</CardTitle>
+                  <CardDescription>{t.blockedTimeDesc}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {availabilityBlocks && availabilityBlocks.length > 0 ? (
+                    <div className="space-y-2">
+                      {availabilityBlocks.map((block) => (
+                        <div
+                          key={block.id}
+                          className="flex items-center justify-between gap-2 p-2 rounded-md border text-sm"
+                          data-testid={`row-availability-block-${block.id}`}
+                        >
+                          <div>
+                            <p className="font-medium">
+                              {block.preparerId === null
+                                ? t.wholeOffice
+                                : preparers?.find((preparer) => preparer.id === block.preparerId)?.name || "-"}
+                              {block.reason && <span className="text-muted-foreground font-normal"> • {block.reason}</span>}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {format(new Date(block.startsAt), "d MMM yyyy, HH:mm", { locale: getDateLocale(language) })}
+                              {" – "}
+                              {format(new Date(block.endsAt), "d MMM yyyy, HH:mm", { locale: getDateLocale(language) })}
+                            </p>
+                          </div>
+                          {(user?.role === "admin" || block.preparerId === user?.id) && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              disabled={deleteBlockMutation.isPending}
+                              onClick={() => deleteBlockMutation.mutate(block.id)}
+                              data-testid={`button-delete-block-${block.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">{t.noBlockedTime}</p>
+                  )}
+                  <div className="space-y-2">
+                    {user?.role === "admin" && (
+                      <Select
+                        value={newBlock.preparerId}
+                        onValueChange={(value) => setNewBlock({ ...newBlock, preparerId: value })}
+                      >
+                        <SelectTrigger data-testid="select-block-preparer">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="office">{t.wholeOffice}</SelectItem>
+                          {preparers?.map((preparer) => (
+                            <SelectItem key={preparer.id} value={String(preparer.id)}>
+                              {preparer.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        type="datetime-local"
+                        value={newBlock.startsAt}
+                        onChange={(e) => setNewBlock({ ...newBlock, startsAt: e.target.value })}
+                        aria-label={t.startTime}
+                        data-testid="input-block-start"
+                      />
+                      <Input
+                        type="datetime-local"
+                        value={newBlock.endsAt}
+                        onChange={(e) => setNewBlock({ ...newBlock, endsAt: e.target.value })}
+                        aria-label={t.endTime}
+                        data-testid="input-block-end"
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        value={newBlock.reason}
+                        onChange={(e) => setNewBlock({ ...newBlock, reason: e.target.value })}
+                        placeholder={t.blockReasonPlaceholder}
+                        maxLength={200}
+                        data-testid="input-block-reason"
+                      />
+                      <Button
+                        variant="outline"
+                        disabled={
+                          !newBlock.startsAt ||
+                          !newBlock.endsAt ||
+                          newBlock.startsAt >= newBlock.endsAt ||
+                          createBlockMutation.isPending
+                        }
+                        onClick={() =>
+                          createBlockMutation.mutate({
+                            // Los preparadores solo bloquean su propia agenda
+                            preparerId:
+                              user?.role === "preparer"
+                                ? user.id
+                                : newBlock.preparerId === "office"
+                                ? null
+                                : parseInt(newBlock.preparerId),
+                            startsAt: new Date(newBlock.startsAt).toISOString(),
+                            endsAt: new Date(newBlock.endsAt).toISOString(),
+                            reason: newBlock.reason.trim(),
+                          })
+                        }
+                        data-testid="button-add-block"
+                      >
+                        {t.blockTime}
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
           </TabsContent>
 
           <TabsContent value="contacts">
@@ -1646,6 +3972,79 @@ export default function Admin() {
                 )}
               </CardContent>
             </Card>
+
+            {user.role === "admin" && (
+              <Card className="mt-6" data-testid="card-quarantine">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ShieldAlert className="h-5 w-5" />
+                    {t.quarantine}
+                  </CardTitle>
+                  <CardDescription>{t.quarantineDesc}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {quarantinedUploads && quarantinedUploads.length > 0 ? (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>{t.quarantineFile}</TableHead>
+                            <TableHead>{t.client}</TableHead>
+                            <TableHead>{t.quarantineReason}</TableHead>
+                            <TableHead>{t.date}</TableHead>
+                            <TableHead className="text-right">{t.actions}</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {quarantinedUploads.map((upload) => {
+                            const client = allUsers?.find((u) => u.id === upload.clientId);
+                            return (
+                              <TableRow key={upload.id} data-testid={`row-quarantine-${upload.id}`}>
+                                <TableCell>
+                                  <div className="font-medium">{upload.fileName}</div>
+                                  <div className="text-xs text-muted-foreground">
+                                    {(upload.fileSize / 1024).toFixed(2)} KB · {upload.detectedType || upload.declaredType}
+                                  </div>
+                                </TableCell>
+                                <TableCell>{client?.name || client?.email || `#${upload.clientId}`}</TableCell>
+                                <TableCell>
+                                  <Badge variant="destructive">{quarantineReasonLabels[upload.reason] || upload.reason}</Badge>
+                                  {upload.details && (
+                                    <div className="mt-1 text-xs text-muted-foreground">{upload.details}</div>
+                                  )}
+                                </TableCell>
+                                <TableCell>
+                                  {format(new Date(upload.createdAt), "d MMM yyyy HH:mm", {
+                                    locale: getDateLocale(language),
+                                  })}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    disabled={deleteQuarantinedMutation.isPending}
+                                    onClick={() => {
+                                      if (window.confirm(t.confirmDeleteQuarantined)) {
+                                        deleteQuarantinedMutation.mutate(upload.id);
+                                      }
+                                    }}
+                                    data-testid={`button-delete-quarantine-${upload.id}`}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  ) : (
+                    <p className="text-center py-6 text-sm text-muted-foreground">{t.noQuarantined}</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
         </Tabs>
 
@@ -1658,6 +4057,322 @@ export default function Admin() {
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 pt-4">
+              {user.role === "admin" && selectedCase && (
+                <div className="space-y-2">
+                  <Label>{t.assignedPreparer}</Label>
+                  <Select
+                    value={selectedCase.assignedPreparerId?.toString() || "unassigned"}
+                    onValueChange={(value) =>
+                      assignCaseMutation.mutate({
+                        id: selectedCase.id,
+                        preparerId: value === "unassigned" ? null : Number(value),
+                      })
+                    }
+                    disabled={assignCaseMutation.isPending}
+                  >
+                    <SelectTrigger data-testid="select-assign-preparer">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="unassigned">{t.unassigned}</SelectItem>
+                      {preparers?.map((preparer) => (
+                        <SelectItem key={preparer.id} value={preparer.id.toString()}>
+                          {preparer.name} ({preparer.role === "admin" ? t.admin : t.preparer})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {caseChecklist && caseChecklist.items.length > 0 && (
+                <div className="space-y-2" data-testid="case-checklist">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label>{t.documentChecklist}</Label>
+                    <span className="text-xs text-muted-foreground">
+                      {caseChecklist.completed}/{caseChecklist.total} {t.docsReceived}
+                    </span>
+                  </div>
+                  <Progress value={caseChecklist.percent} className="h-2" />
+                  <div className="flex flex-wrap gap-2">
+                    {caseChecklist.items.map((item) => (
+                      <Badge
+                        key={item.category}
+                        variant={item.satisfied ? "default" : "outline"}
+                        className="gap-1"
+                      >
+                        {item.satisfied ? (
+                          <CheckCircle className="h-3 w-3" />
+                        ) : (
+                          <AlertCircle className="h-3 w-3" />
+                        )}
+                        {categoryLabels[item.category] || item.category} ({Math.min(item.uploaded, item.required)}/{item.required})
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {selectedCase && (
+                <div className="space-y-2" data-testid="case-document-requests">
+                  <Label>{t.documentRequests}</Label>
+                  {caseDocumentRequests && caseDocumentRequests.length > 0 && (
+                    <div className="space-y-2">
+                      {caseDocumentRequests.map((request) => {
+                        const isOverdue = request.status === "open" && !!request.dueDate && new Date(request.dueDate) < new Date();
+                        return (
+                          <div
+                            key={request.id}
+                            className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm"
+                            data-testid={`document-request-${request.id}`}
+                          >
+                            <div className="min-w-0">
+                              <p className="font-medium truncate">{request.description}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {categoryLabels[request.category] || request.category}
+                                {request.dueDate && (
+                                  <> · {t.dueDate}: {format(new Date(request.dueDate), "d MMM yyyy", {
+                                    locale: getDateLocale(language),
+                                  })}</>
+                                )}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0">
+                              <Badge variant={isOverdue ? "destructive" : request.status === "fulfilled" ? "default" : "outline"}>
+                                {isOverdue ? t.requestOverdue : requestStatusLabels[request.status] || request.status}
+                              </Badge>
+                              {request.status !== "fulfilled" && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  disabled={updateDocumentRequestMutation.isPending}
+                                  onClick={() =>
+                                    updateDocumentRequestMutation.mutate({
+                                      id: request.id,
+                                      caseId: request.caseId,
+                                      status: request.status === "waived" ? "open" : "waived",
+                                    })
+                                  }
+                                  data-testid={`button-toggle-request-${request.id}`}
+                                >
+                                  {request.status === "waived" ? t.reopenRequest : t.waiveRequest}
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select
+                      value={newRequest.category}
+                      onValueChange={(value) => setNewRequest({ ...newRequest, category: value })}
+                    >
+                      <SelectTrigger data-testid="select-request-category">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(categoryLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="date"
+                      value={newRequest.dueDate}
+                      onChange={(e) => setNewRequest({ ...newRequest, dueDate: e.target.value })}
+                      aria-label={t.dueDate}
+                      data-testid="input-request-due-date"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      value={newRequest.description}
+                      onChange={(e) => setNewRequest({ ...newRequest, description: e.target.value })}
+                      placeholder={t.requestDescriptionPlaceholder}
+                      data-testid="input-request-description"
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={!newRequest.description.trim() || createDocumentRequestMutation.isPending}
+                      onClick={() =>
+                        createDocumentRequestMutation.mutate({ caseId: selectedCase.id, ...newRequest })
+                      }
+                      data-testid="button-create-request"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      {t.requestDocument}
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {selectedCase && (
+                <div className="space-y-2" data-testid="case-preparer-upload">
+                  <Label>{t.shareWithClient}</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select value={preparerCategory} onValueChange={setPreparerCategory}>
+                      <SelectTrigger data-testid="select-preparer-category">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(categoryLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="file"
+                      accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
+                      onChange={(e) => setPreparerFile(e.target.files?.[0] || null)}
+                      data-testid="input-preparer-file"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      value={preparerNote}
+                      onChange={(e) => setPreparerNote(e.target.value)}
+                      placeholder={t.noteForClient}
+                      data-testid="input-preparer-note"
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={!preparerFile || preparerUploadMutation.isPending}
+                      onClick={() => {
+                        if (preparerFile) {
+                          preparerUploadMutation.mutate({
+                            caseId: selectedCase.id,
+                            file: preparerFile,
+                            category: preparerCategory,
+                            description: preparerNote.trim(),
+                          });
+                        }
+                      }}
+                      data-testid="button-preparer-upload"
+                    >
+                      {preparerUploadMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                      ) : (
+                        <Upload className="h-4 w-4 mr-1" />
+                      )}
+                      {t.share}
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {selectedCase && (
+                <div className="space-y-2" data-testid="case-signature-requests">
+                  <Label>{t.signatureRequests}</Label>
+                  {caseSignatureRequests && caseSignatureRequests.length > 0 && (
+                    <div className="space-y-2">
+                      {caseSignatureRequests.map((request) => (
+                        <div
+                          key={request.id}
+                          className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm"
+                          data-testid={`signature-request-${request.id}`}
+                        >
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{request.title}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {request.kind === "form_8879" ? t.signatureKind8879 : t.signatureKindEngagement}
+                              {request.signedAt && (
+                                <> · {format(new Date(request.signedAt), "d MMM yyyy, HH:mm", {
+                                  locale: getDateLocale(language),
+                                })} · {request.signerIp}</>
+                              )}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-1 shrink-0">
+                            <Badge variant={request.status === "signed" ? "default" : "outline"}>
+                              {signatureStatusLabels[request.status] || request.status}
+                            </Badge>
+                            <Button variant="ghost" size="sm" asChild data-testid={`button-signature-original-${request.id}`}>
+                              <a href={`/api/signature-requests/${request.id}/document`} target="_blank" rel="noopener noreferrer">
+                                {t.viewOriginal}
+                              </a>
+                            </Button>
+                            {request.signedDocumentId && (
+                              <Button variant="ghost" size="sm" asChild data-testid={`button-signature-signed-${request.id}`}>
+                                <a href={`/api/documents/${request.signedDocumentId}/download`} download>
+                                  {t.viewSigned}
+                                </a>
+                              </Button>
+                            )}
+                            {request.status === "pending" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={cancelSignatureRequestMutation.isPending}
+                                onClick={() =>
+                                  cancelSignatureRequestMutation.mutate({ id: request.id, caseId: request.caseId })
+                                }
+                                data-testid={`button-cancel-signature-${request.id}`}
+                              >
+                                {t.cancelSignature}
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select
+                      value={newSignature.kind}
+                      onValueChange={(value) =>
+                        setNewSignature({ ...newSignature, kind: value as SignatureRequest["kind"] })
+                      }
+                    >
+                      <SelectTrigger data-testid="select-signature-kind">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="form_8879">{t.signatureKind8879}</SelectItem>
+                        <SelectItem value="engagement_letter">{t.signatureKindEngagement}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="file"
+                      accept=".pdf"
+                      onChange={(e) => setNewSignature({ ...newSignature, file: e.target.files?.[0] || null })}
+                      data-testid="input-signature-file"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      value={newSignature.title}
+                      onChange={(e) => setNewSignature({ ...newSignature, title: e.target.value })}
+                      placeholder={t.signatureTitlePlaceholder}
+                      maxLength={200}
+                      data-testid="input-signature-title"
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={!newSignature.file || !newSignature.title.trim() || createSignatureRequestMutation.isPending}
+                      onClick={() => {
+                        if (newSignature.file) {
+                          createSignatureRequestMutation.mutate({
+                            caseId: selectedCase.id,
+                            kind: newSignature.kind,
+                            title: newSignature.title.trim(),
+                            file: newSignature.file,
+                          });
+                        }
+                      }}
+                      data-testid="button-send-signature"
+                    >
+                      {createSignatureRequestMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                      ) : (
+                        <PenLine className="h-4 w-4 mr-1" />
+                      )}
+                      {t.sendForSignature}
+                    </Button>
+                  </div>
+                </div>
+              )}
               <div className="space-y-2">
                 <Label>{t.status}</Label>
                 <Select value={editStatus} onValueChange={setEditStatus}>
@@ -1665,13 +4380,18 @@ export default function Admin() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {statusOptions.map((option) => (
+                    {editStatusOptions.map((option) => (
                       <SelectItem key={option.value} value={option.value}>
                         {option.label}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                {blockedBy8879 && (
+                  <p className="text-sm text-destructive" data-testid="text-requires-8879">
+                    {t.requires8879}
+                  </p>
+                )}
               </div>
               <div className="space-y-2">
                 <Label>{t.finalAmount}</Label>
@@ -1695,7 +4415,7 @@ export default function Admin() {
               </div>
               <Button
                 className="w-full"
-                disabled={updateCaseMutation.isPending}
+                disabled={updateCaseMutation.isPending || blockedBy8879}
                 onClick={() => {
                   if (selectedCase) {
                     updateCaseMutation.mutate({
@@ -1741,11 +4461,24 @@ export default function Admin() {
                 </div>
               ) : clientDocuments?.documents && clientDocuments.documents.length > 0 ? (
                 <div className="space-y-3">
+                  <div className="flex justify-end">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => window.open(`/api/admin/clients/${selectedClient?.id}/documents.zip`, "_blank")}
+                      data-testid="button-download-client-zip"
+                    >
+                      <FileArchive className="h-4 w-4 mr-2" />
+                      {t.downloadAllZip}
+                    </Button>
+                  </div>
+                  <DocumentPreviewGrid documents={clientDocuments.documents} />
                   <Table>
                     <TableHeader>
                       <TableRow>
                         <TableHead>{t.documentName}</TableHead>
                         <TableHead>{t.category}</TableHead>
+                        <TableHead>{t.review}</TableHead>
                         <TableHead>{t.uploadedAt}</TableHead>
                         <TableHead>{t.size}</TableHead>
                         <TableHead>{t.actions}</TableHead>
@@ -1753,34 +4486,289 @@ export default function Admin() {
                     </TableHeader>
                     <TableBody>
                       {clientDocuments.documents.map((doc) => (
-                        <TableRow key={doc.id}>
-                          <TableCell className="font-medium">{doc.fileName}</TableCell>
-                          <TableCell>
-                            <Badge variant="secondary">{doc.category || "-"}</Badge>
-                          </TableCell>
-                          <TableCell>
-                            {format(new Date(doc.createdAt), "d MMM yyyy HH:mm", {
-                              locale: getDateLocale(language),
-                            })}
-                          </TableCell>
-                          <TableCell>
-                            {doc.fileSize ? `${(doc.fileSize / 1024).toFixed(2)} KB` : "-"}
-                          </TableCell>
-                          <TableCell>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => {
-                                if (doc.filePath) {
-                                  window.open(`/api/documents/${doc.id}/download`, "_blank");
-                                }
-                              }}
-                            >
-                              <Download className="h-4 w-4 mr-2" />
-                              {t.download}
-                            </Button>
-                          </TableCell>
-                        </TableRow>
+                        <Fragment key={doc.id}>
+                          <TableRow>
+                            <TableCell className="font-medium">
+                              <div className="flex items-center gap-2">
+                                {doc.fileName}
+                                {doc.currentVersion > 1 && (
+                                  <Badge variant="outline" className="text-xs">v{doc.currentVersion}</Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1">
+                                <Badge variant="secondary">{categoryLabels[doc.category] || doc.category || "-"}</Badge>
+                                {doc.isFromPreparer && <Badge variant="outline">{t.fromPreparer}</Badge>}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              {doc.isFromPreparer ? (
+                                "-"
+                              ) : (
+                                <div className="space-y-1">
+                                  <div className="flex items-center gap-1">
+                                    <Badge
+                                      variant={doc.reviewStatus === "rejected" ? "destructive" : doc.reviewStatus === "accepted" ? "default" : "secondary"}
+                                      data-testid={`badge-review-${doc.id}`}
+                                    >
+                                      {reviewStatusLabels[doc.reviewStatus] || doc.reviewStatus}
+                                    </Badge>
+                                    {doc.reviewStatus !== "accepted" && (
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        title={t.acceptDocument}
+                                        disabled={reviewDocumentMutation.isPending}
+                                        onClick={() => reviewDocumentMutation.mutate({ documentId: doc.id, reviewStatus: "accepted" })}
+                                        data-testid={`button-accept-document-${doc.id}`}
+                                      >
+                                        <CheckCircle className="h-4 w-4" />
+                                      </Button>
+                                    )}
+                                    {doc.reviewStatus !== "rejected" && (
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        title={t.rejectDocument}
+                                        onClick={() => {
+                                          setRejectingDocumentId(doc.id);
+                                          setRejectionReason("");
+                                        }}
+                                        data-testid={`button-reject-document-${doc.id}`}
+                                      >
+                                        <AlertCircle className="h-4 w-4" />
+                                      </Button>
+                                    )}
+                                  </div>
+                                  {doc.reviewStatus === "rejected" && doc.rejectionReason && (
+                                    <p className="text-xs text-muted-foreground">{doc.rejectionReason}</p>
+                                  )}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {format(new Date(doc.createdAt), "d MMM yyyy HH:mm", {
+                                locale: getDateLocale(language),
+                              })}
+                            </TableCell>
+                            <TableCell>
+                              {doc.fileSize ? `${(doc.fileSize / 1024).toFixed(2)} KB` : "-"}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex gap-2">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => {
+                                    if (doc.filePath) {
+                                      window.open(`/api/documents/${doc.id}/download`, "_blank");
+                                    }
+                                  }}
+                                >
+                                  <Download className="h-4 w-4 mr-2" />
+                                  {t.download}
+                                </Button>
+                                {isExtractionFormType(doc.category) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setExtractionDocumentId(extractionDocumentId === doc.id ? null : doc.id)}
+                                    data-testid={`button-extraction-${doc.id}`}
+                                  >
+                                    <ScanText className="h-4 w-4 mr-2" />
+                                    {t.extractedData}
+                                  </Button>
+                                )}
+                                {doc.currentVersion > 1 && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setVersionsDocumentId(versionsDocumentId === doc.id ? null : doc.id)}
+                                    data-testid={`button-versions-${doc.id}`}
+                                  >
+                                    <History className="h-4 w-4 mr-2" />
+                                    {t.versions}
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  disabled={deleteDocumentMutation.isPending}
+                                  onClick={() => {
+                                    if (window.confirm(t.confirmDeleteDocument)) {
+                                      deleteDocumentMutation.mutate(doc.id);
+                                    }
+                                  }}
+                                  data-testid={`button-delete-document-${doc.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                          {rejectingDocumentId === doc.id && (
+                            <TableRow data-testid={`reject-${doc.id}`}>
+                              <TableCell colSpan={6} className="bg-muted/50">
+                                <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                                  <Input
+                                    value={rejectionReason}
+                                    onChange={(e) => setRejectionReason(e.target.value)}
+                                    placeholder={t.rejectionReasonPlaceholder}
+                                    maxLength={1000}
+                                    data-testid={`input-rejection-reason-${doc.id}`}
+                                  />
+                                  <div className="flex gap-2">
+                                    <Button
+                                      variant="destructive"
+                                      size="sm"
+                                      disabled={!rejectionReason.trim() || reviewDocumentMutation.isPending}
+                                      onClick={() =>
+                                        reviewDocumentMutation.mutate({
+                                          documentId: doc.id,
+                                          reviewStatus: "rejected",
+                                          rejectionReason: rejectionReason.trim(),
+                                        })
+                                      }
+                                      data-testid={`button-confirm-reject-${doc.id}`}
+                                    >
+                                      {t.rejectDocument}
+                                    </Button>
+                                    <Button variant="ghost" size="sm" onClick={() => setRejectingDocumentId(null)}>
+                                      {t.cancel}
+                                    </Button>
+                                  </div>
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          )}
+                          {extractionDocumentId === doc.id && isExtractionFormType(doc.category) && (
+                            <TableRow data-testid={`extraction-${doc.id}`}>
+                              <TableCell colSpan={6} className="bg-muted/50">
+                                {extractionLoading ? (
+                                  <Skeleton className="h-10 w-full" />
+                                ) : !documentExtraction ? (
+                                  <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                                    {t.extractionMissing}
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      disabled={retryExtractionMutation.isPending}
+                                      onClick={() => retryExtractionMutation.mutate(doc.id)}
+                                    >
+                                      {t.extractionRun}
+                                    </Button>
+                                  </div>
+                                ) : (
+                                  <div className="space-y-3">
+                                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                                      <Badge
+                                        variant={documentExtraction.status === "failed" ? "destructive" : documentExtraction.status === "reviewed" ? "default" : "secondary"}
+                                      >
+                                        {extractionStatusLabels[documentExtraction.status] || documentExtraction.status}
+                                      </Badge>
+                                      {documentExtraction.confidence !== null && (
+                                        <span className="text-muted-foreground">
+                                          {t.extractionConfidence}: {documentExtraction.confidence}%
+                                        </span>
+                                      )}
+                                      {documentExtraction.status === "failed" && documentExtraction.error && (
+                                        <span className="text-destructive">{documentExtraction.error}</span>
+                                      )}
+                                      {(documentExtraction.status === "failed" || documentExtraction.status === "extracted") && (
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          disabled={retryExtractionMutation.isPending}
+                                          onClick={() => retryExtractionMutation.mutate(doc.id)}
+                                          data-testid={`button-retry-extraction-${doc.id}`}
+                                        >
+                                          <RotateCcw className="h-4 w-4 mr-2" />
+                                          {t.extractionRun}
+                                        </Button>
+                                      )}
+                                    </div>
+                                    {documentExtraction.status === "pending" || documentExtraction.status === "processing" ? (
+                                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                        <Loader2 className="h-4 w-4 animate-spin" />
+                                        {t.extractionProcessing}
+                                      </div>
+                                    ) : (
+                                      <>
+                                        <div className="grid gap-3 sm:grid-cols-2">
+                                          {EXTRACTION_FIELDS[doc.category].map((field) => (
+                                            <div key={field} className="space-y-1">
+                                              <Label htmlFor={`extraction-${doc.id}-${field}`} className="text-xs">
+                                                {extractionFieldLabels[field] || field}
+                                              </Label>
+                                              <Input
+                                                id={`extraction-${doc.id}-${field}`}
+                                                value={extractionFields[field] ?? ""}
+                                                onChange={(e) => setExtractionFields({ ...extractionFields, [field]: e.target.value })}
+                                                maxLength={100}
+                                                data-testid={`input-extraction-${field}`}
+                                              />
+                                            </div>
+                                          ))}
+                                        </div>
+                                        <div className="flex justify-end">
+                                          <Button
+                                            size="sm"
+                                            disabled={saveExtractionMutation.isPending}
+                                            onClick={() => saveExtractionMutation.mutate({ documentId: doc.id, fields: extractionFields })}
+                                            data-testid={`button-save-extraction-${doc.id}`}
+                                          >
+                                            {saveExtractionMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                            {t.extractionSave}
+                                          </Button>
+                                        </div>
+                                      </>
+                                    )}
+                                  </div>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          )}
+                          {versionsDocumentId === doc.id && (
+                            <TableRow data-testid={`versions-${doc.id}`}>
+                              <TableCell colSpan={6} className="bg-muted/50">
+                                {versionsLoading ? (
+                                  <Skeleton className="h-10 w-full" />
+                                ) : (
+                                  <ul className="space-y-1">
+                                    {documentVersions?.map((version) => (
+                                      <li key={version.id} className="flex items-center justify-between gap-2 text-sm">
+                                        <span>
+                                          <Badge variant={version.version === doc.currentVersion ? "default" : "outline"} className="mr-2">
+                                            v{version.version}
+                                          </Badge>
+                                          {version.fileName}
+                                          <span className="text-muted-foreground">
+                                            {" · "}
+                                            {format(new Date(version.createdAt), "d MMM yyyy HH:mm", {
+                                              locale: getDateLocale(language),
+                                            })}
+                                            {version.version === doc.currentVersion && ` · ${t.currentVersion}`}
+                                          </span>
+                                        </span>
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() =>
+                                            window.open(`/api/documents/${doc.id}/versions/${version.version}/download`, "_blank")
+                                          }
+                                          data-testid={`button-download-version-${doc.id}-${version.version}`}
+                                        >
+                                          <Download className="h-4 w-4" />
+                                        </Button>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
                       ))}
                     </TableBody>
                   </Table>
@@ -1791,6 +4779,39 @@ export default function Admin() {
                   <p className="text-muted-foreground">{t.noDocuments}</p>
                 </div>
               )}
+              {clientDocuments?.deletedDocuments && clientDocuments.deletedDocuments.length > 0 && (
+                <div className="space-y-2" data-testid="deleted-documents">
+                  <Label>{t.recentlyDeleted}</Label>
+                  <p className="text-xs text-muted-foreground">{t.recentlyDeletedDesc}</p>
+                  <ul className="space-y-1">
+                    {clientDocuments.deletedDocuments.map((doc) => (
+                      <li key={doc.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                        <span className="text-muted-foreground">
+                          <span className="line-through">{doc.fileName}</span>
+                          {doc.deletedAt && (
+                            <>
+                              {" · "}
+                              {format(new Date(doc.deletedAt), "d MMM yyyy HH:mm", {
+                                locale: getDateLocale(language),
+                              })}
+                            </>
+                          )}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={restoreDocumentMutation.isPending}
+                          onClick={() => restoreDocumentMutation.mutate(doc.id)}
+                          data-testid={`button-restore-document-${doc.id}`}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          {t.restore}
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </DialogContent>
         </Dialog>
@@ -0,0 +1,422 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Loader2, CheckCircle, XCircle, CalendarDays, CalendarX } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import { LanguageSelector } from "@/components/language-selector";
+import { ThemeToggle } from "@/components/theme-toggle";
+import type { AppointmentLocation, AppointmentType } from "@shared/appointment-types";
+
+const translations = {
+  en: {
+    verifying: "Loading your appointment...",
+    confirming: "Confirming your appointment...",
+    confirmed: "Appointment Confirmed",
+    confirmedMessage: "Thank you! We look forward to seeing you.",
+    cancelTitle: "Cancel Appointment",
+    cancelSubtitle: "Do you want to cancel this appointment?",
+    cancelButton: "Cancel Appointment",
+    cancelled: "Appointment Cancelled",
+    cancelledMessage: "Your appointment has been cancelled. You can book a new one from your portal.",
+    cannotCancel: "This appointment can no longer be cancelled online. Please call our office.",
+    closed: "This appointment was already cancelled or completed.",
+    invalidLink: "Invalid or Expired Link",
+    invalidLinkMessage: "This link is invalid, has expired, or the appointment was rescheduled. Please use the link in your latest reminder or log in to your portal.",
+    goToPortal: "Go to Portal",
+    minutes: "min",
+    types: {
+      initial_consultation: "Initial consultation",
+      document_dropoff: "Document drop-off",
+      return_review: "Return review & signing",
+      itin_interview: "ITIN interview",
+    },
+    locations: {
+      office: "At the office",
+      phone: "By phone",
+      video: "Video call",
+    },
+    errors: {
+      generic: "An error occurred. Please try again.",
+    },
+  },
+  es: {
+    verifying: "Cargando su cita...",
+    confirming: "Confirmando su cita...",
+    confirmed: "Cita Confirmada",
+    confirmedMessage: "¡Gracias! Lo esperamos.",
+    cancelTitle: "Cancelar Cita",
+    cancelSubtitle: "¿Desea cancelar esta cita?",
+    cancelButton: "Cancelar Cita",
+    cancelled: "Cita Cancelada",
+    cancelledMessage: "Su cita fue cancelada. Puede agendar una nueva desde su portal.",
+    cannotCancel: "Esta cita ya no puede cancelarse en línea. Por favor llame a nuestra oficina.",
+    closed: "Esta cita ya fue cancelada o completada.",
+    invalidLink: "Enlace Inválido o Expirado",
+    invalidLinkMessage: "Este enlace es inválido, expiró o la cita fue reprogramada. Use el enlace de su último recordatorio o inicie sesión en su portal.",
+    goToPortal: "Ir al Portal",
+    minutes: "min",
+    types: {
+      initial_consultation: "Consulta inicial",
+      document_dropoff: "Entrega de documentos",
+      return_review: "Revisión y firma de la declaración",
+      itin_interview: "Entrevista ITIN",
+    },
+    locations: {
+      office: "En la oficina",
+      phone: "Por teléfono",
+      video: "Videollamada",
+    },
+    errors: {
+      generic: "Ocurrió un error. Por favor intente de nuevo.",
+    },
+  },
+  fr: {
+    verifying: "Chargement de votre rendez-vous...",
+    confirming: "Confirmation de votre rendez-vous...",
+    confirmed: "Rendez-vous Confirmé",
+    confirmedMessage: "Merci ! Nous avons hâte de vous voir.",
+    cancelTitle: "Annuler le Rendez-vous",
+    cancelSubtitle: "Voulez-vous annuler ce rendez-vous ?",
+    cancelButton: "Annuler le Rendez-vous",
+    cancelled: "Rendez-vous Annulé",
+    cancelledMessage: "Votre rendez-vous a été annulé. Vous pouvez en prendre un nouveau depuis votre portail.",
+    cannotCancel: "Ce rendez-vous ne peut plus être annulé en ligne. Veuillez appeler notre bureau.",
+    closed: "Ce rendez-vous a déjà été annulé ou terminé.",
+    invalidLink: "Lien Invalide ou Expiré",
+    invalidLinkMessage: "Ce lien est invalide, a expiré ou le rendez-vous a été reprogrammé. Utilisez le lien de votre dernier rappel ou connectez-vous à votre portail.",
+    goToPortal: "Aller au Portail",
+    minutes: "min",
+    types: {
+      initial_consultation: "Consultation initiale",
+      document_dropoff: "Dépôt de documents",
+      return_review: "Revue et signature de la déclaration",
+      itin_interview: "Entretien ITIN",
+    },
+    locations: {
+      office: "Au bureau",
+      phone: "Par téléphone",
+      video: "Appel vidéo",
+    },
+    errors: {
+      generic: "Une erreur s'est produite. Veuillez réessayer.",
+    },
+  },
+  pt: {
+    verifying: "Carregando sua consulta...",
+    confirming: "Confirmando sua consulta...",
+    confirmed: "Consulta Confirmada",
+    confirmedMessage: "Obrigado! Aguardamos você.",
+    cancelTitle: "Cancelar Consulta",
+    cancelSubtitle: "Deseja cancelar esta consulta?",
+    cancelButton: "Cancelar Consulta",
+    cancelled: "Consulta Cancelada",
+    cancelledMessage: "Sua consulta foi cancelada. Você pode agendar uma nova no seu portal.",
+    cannotCancel: "Esta consulta não pode mais ser cancelada online. Por favor, ligue para nosso escritório.",
+    closed: "Esta consulta já foi cancelada ou concluída.",
+    invalidLink: "Link Inválido ou Expirado",
+    invalidLinkMessage: "Este link é inválido, expirou ou a consulta foi reagendada. Use o link do seu último lembrete ou entre no seu portal.",
+    goToPortal: "Ir para o Portal",
+    minutes: "min",
+    types: {
+      initial_consultation: "Consulta inicial",
+      document_dropoff: "Entrega de documentos",
+      return_review: "Revisão e assinatura da declaração",
+      itin_interview: "Entrevista ITIN",
+    },
+    locations: {
+      office: "No escritório",
+      phone: "Por telefone",
+      video: "Videochamada",
+    },
+    errors: {
+      generic: "Ocorreu um erro. Por favor, tente novamente.",
+    },
+  },
+  zh: {
+    verifying: "正在加载您的预约...",
+    confirming: "正在确认您的预约...",
+    confirmed: "预约已确认",
+    confirmedMessage: "谢谢！期待与您见面。",
+    cancelTitle: "取消预约",
+    cancelSubtitle: "您要取消此预约吗？",
+    cancelButton: "取消预约",
+    cancelled: "预约已取消",
+    cancelledMessage: "您的预约已取消。您可以在门户中重新预约。",
+    cannotCancel: "此预约已无法在线取消。请致电我们的办公室。",
+    closed: "此预约已被取消或已完成。",
+    invalidLink: "链接无效或已过期",
+    invalidLinkMessage: "此链接无效、已过期，或预约已改期。请使用最新提醒中的链接或登录您的门户。",
+    goToPortal: "前往门户",
+    minutes: "分钟",
+    types: {
+      initial_consultation: "初次咨询",
+      document_dropoff: "递交文件",
+      return_review: "报税表审核与签署",
+      itin_interview: "ITIN 面谈",
+    },
+    locations: {
+      office: "在办公室",
+      phone: "电话",
+      video: "视频通话",
+    },
+    errors: {
+      generic: "发生错误，请重试。",
+    },
+  },
+  ht: {
+    verifying: "N ap chaje randevou ou...",
+    confirming: "N ap konfime randevou ou...",
+    confirmed: "Randevou Konfime",
+    confirmedMessage: "Mèsi! N ap tann ou.",
+    cancelTitle: "Anile Randevou",
+    cancelSubtitle: "Èske ou vle anile randevou sa a?",
+    cancelButton: "Anile Randevou",
+    cancelled: "Randevou Anile",
+    cancelledMessage: "Randevou ou anile. Ou ka pran yon nouvo nan pòtay ou.",
+    cannotCancel: "Randevou sa a pa ka anile sou entènèt ankò. Tanpri rele biwo nou an.",
+    closed: "Randevou sa a te deja anile oswa fini.",
+    invalidLink: "Lyen Envalid oswa Ekspire",
+    invalidLinkMessage: "Lyen sa a envalid, li ekspire, oswa randevou a te chanje lè. Sèvi ak lyen ki nan dènye rapèl ou oswa konekte nan pòtay ou.",
+    goToPortal: "Ale nan Pòtay la",
+    minutes: "min",
+    types: {
+      initial_consultation: "Premye konsiltasyon",
+      document_dropoff: "Depoze dokiman",
+      return_review: "Revizyon ak siyati deklarasyon",
+      itin_interview: "Entèvyou ITIN",
+    },
+    locations: {
+      office: "Nan biwo a",
+      phone: "Pa telefòn",
+      video: "Apèl videyo",
+    },
+    errors: {
+      generic: "Gen yon erè ki rive. Tanpri eseye ankò.",
+    },
+  },
+};
+
+interface AppointmentActionSummary {
+  action: "confirm" | "cancel";
+  appointmentDate: string;
+  appointmentType: AppointmentType;
+  location: AppointmentLocation;
+  durationMinutes: number;
+  timeZone: string;
+  status: "scheduled" | "completed" | "cancelled";
+  confirmedAt: string | null;
+  canCancel: boolean;
+}
+
+type PageState = "loading" | "invalid" | "closed" | "ready" | "submitting" | "done" | "error";
+
+export default function AppointmentAction() {
+  const [, setLocation] = useLocation();
+  const { language } = useI18n();
+  const t = translations[language as keyof typeof translations] || translations.en;
+
+  const [token, setToken] = useState("");
+  const [summary, setSummary] = useState<AppointmentActionSummary | null>(null);
+  const [state, setState] = useState<PageState>("loading");
+  const [errorMessage, setErrorMessage] = useState("");
+
+  // El enlace de confirmación se aplica solo; el de cancelación pide confirmar
+  const submit = async (tokenValue: string) => {
+    setState("submitting");
+    try {
+      const res = await fetch("/api/appointment-actions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: tokenValue }),
+      });
+
+      if (res.ok) {
+        setState("done");
+      } else {
+        const data = await res.json().catch(() => ({}));
+        setErrorMessage(res.status === 404 ? "" : data.message || "");
+        setState(res.status === 404 ? "invalid" : "error");
+      }
+    } catch {
+      setErrorMessage("");
+      setState("error");
+    }
+  };
+
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search);
+    const tokenParam = urlParams.get("token");
+
+    if (!tokenParam) {
+      setState("invalid");
+      return;
+    }
+
+    setToken(tokenParam);
+
+    fetch(`/api/appointment-actions?token=${encodeURIComponent(tokenParam)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: AppointmentActionSummary | null) => {
+        if (!data) {
+          setState("invalid");
+          return;
+        }
+        setSummary(data);
+        if (data.action === "cancel") {
+          setState("ready");
+        } else if (data.status !== "scheduled") {
+          setState("closed");
+        } else if (data.confirmedAt) {
+          setState("done");
+        } else {
+          submit(tokenParam);
+        }
+      })
+      .catch(() => setState("invalid"));
+  }, []);
+
+  const header = (
+    <header className="flex items-center justify-end gap-2 p-4">
+      <LanguageSelector />
+      <ThemeToggle />
+    </header>
+  );
+
+  const details = summary && (
+    <div className="rounded-lg border p-4 text-sm space-y-1" data-testid="appointment-action-details">
+      <div className="flex items-center gap-2 font-medium">
+        <CalendarDays className="h-4 w-4 text-muted-foreground" />
+        {new Intl.DateTimeFormat(language, {
+          dateStyle: "full",
+          timeStyle: "short",
+          timeZone: summary.timeZone,
+        }).format(new Date(summary.appointmentDate))}
+      </div>
+      <p className="text-muted-foreground">
+        {t.types[summary.appointmentType]} · {t.locations[summary.location]} · {summary.durationMinutes} {t.minutes}
+      </p>
+    </div>
+  );
+
+  const goToPortalButton = (
+    <Button
+      className="w-full"
+      variant="outline"
+      onClick={() => setLocation("/portal")}
+      data-testid="button-go-to-portal"
+    >
+      {t.goToPortal}
+    </Button>
+  );
+
+  // Loading state
+  if (state === "loading" || (state === "submitting" && summary?.action === "confirm")) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        {header}
+        <div className="flex-1 flex items-center justify-center">
+          <Card className="w-full max-w-md mx-4">
+            <CardContent className="flex flex-col items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
+              <p className="text-muted-foreground">{state === "loading" ? t.verifying : t.confirming}</p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  // Invalid link, closed appointment or error state
+  if (state === "invalid" || state === "closed" || state === "error" || !summary) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        {header}
+        <div className="flex-1 flex items-center justify-center">
+          <Card className="w-full max-w-md mx-4">
+            <CardHeader className="text-center">
+              <div className="mx-auto mb-4 w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center">
+                <XCircle className="h-8 w-8 text-destructive" />
+              </div>
+              <CardTitle>
+                {state === "error" ? t.errors.generic : state === "closed" ? t.closed : t.invalidLink}
+              </CardTitle>
+              {state !== "closed" && (
+                <CardDescription className="mt-2">
+                  {state === "error" ? errorMessage : t.invalidLinkMessage}
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {details}
+              {goToPortalButton}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  // Success state
+  if (state === "done") {
+    const isConfirm = summary.action === "confirm";
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        {header}
+        <div className="flex-1 flex items-center justify-center">
+          <Card className="w-full max-w-md mx-4">
+            <CardHeader className="text-center">
+              <div className="mx-auto mb-4 w-16 h-16 rounded-full bg-green-100 dark:bg-green-900/30 flex items-center justify-center">
+                <CheckCircle className="h-8 w-8 text-green-600 dark:text-green-400" />
+              </div>
+              <CardTitle>{isConfirm ? t.confirmed : t.cancelled}</CardTitle>
+              <CardDescription className="mt-2">
+                {isConfirm ? t.confirmedMessage : t.cancelledMessage}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {details}
+              {goToPortalButton}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  // Cancel form
+  const unavailableMessage = summary.status !== "scheduled" ? t.closed : !summary.canCancel ? t.cannotCancel : null;
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {header}
+      <div className="flex-1 flex items-center justify-center">
+        <Card className="w-full max-w-md mx-4">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center">
+              <CalendarX className="h-8 w-8 text-destructive" />
+            </div>
+            <CardTitle>{t.cancelTitle}</CardTitle>
+            <CardDescription>{unavailableMessage ?? t.cancelSubtitle}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {details}
+            {unavailableMessage ? (
+              goToPortalButton
+            ) : (
+              <Button
+                className="w-full"
+                variant="destructive"
+                disabled={state === "submitting"}
+                onClick={() => submit(token)}
+                data-testid="button-confirm-cancel-appointment"
+              >
+                {state === "submitting" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t.cancelButton}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@
 
 import { useState, useEffect } from "react";
 import { useLocation, Link } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useQueries, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/lib/auth-context";
 import { useI18n } from "@/lib/i18n";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -28,11 +28,32 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
 import { WhatsAppButton } from "@/components/whatsapp-button";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { LanguageSelector } from "@/components/language-selector";
 import { MessagingPanel } from "@/components/messaging";
-import type { TaxCase, Document, Appointment } from "@shared/schema";
+import { DocumentPreviewGrid } from "@/components/document-preview-grid";
+import { SignaturePad } from "@/components/signature-pad";
+import type {
+  TaxCase,
+  Document,
+  Appointment,
+  CaseStatusHistory,
+  IntakeAnswers,
+  PublicDependent,
+  DocumentRequest,
+  SignatureRequest,
+} from "@shared/schema";
+import type { DocumentChecklist } from "@shared/document-checklist";
+import { canClientChangeAppointment } from "@shared/appointment-rules";
+import {
+  APPOINTMENT_TYPES,
+  APPOINTMENT_TYPE_CONFIG,
+  type AppointmentType,
+  type AppointmentLocation,
+} from "@shared/appointment-types";
+import { DIRECT_UPLOAD_THRESHOLD, uploadDirect } from "@/lib/direct-upload";
 import {
   FileText,
   Upload,
@@ -48,8 +69,13 @@ import {
   Plus,
   User,
   FileUp,
+  History,
+  ClipboardList,
+  Trash2,
+  RefreshCw,
+  PenLine,
 } from "lucide-react";
-import { format } from "date-fns";
+import { format, startOfMonth, endOfMonth } from "date-fns";
 import { enUS, es, fr, pt, zhCN } from "date-fns/locale";
 
 const getDateLocale = (lang: string) => {
@@ -62,6 +88,26 @@ const getDateLocale = (lang: string) => {
   }
 };
 
+/** Horarios disponibles para citas (GET /api/appointments/slots) */
+interface AppointmentSlots {
+  timeZone: string;
+  durationMinutes: number;
+  slots: { date: string; startsAt: string; endsAt: string }[];
+}
+
+/** Respuestas iniciales del cuestionario de admisión */
+const emptyIntake = (): IntakeAnswers => ({
+  filingStatus: "single",
+  dependents: [],
+  incomeSources: [],
+  deductions: [],
+  lifeEvents: [],
+  notes: "",
+});
+
+/** Número de pasos del asistente de admisión */
+const INTAKE_STEPS = 5;
+
 export default function Dashboard() {
   const [, setLocation] = useLocation();
   const { user, logout, isLoading: authLoading } = useAuth();
@@ -77,11 +123,29 @@ export default function Dashboard() {
   const [isUploadOpen, setIsUploadOpen] = useState(false);
   const [isAppointmentOpen, setIsAppointmentOpen] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+  const [slotsMonth, setSlotsMonth] = useState<Date>(() => new Date());
+  const [reschedulingAppointment, setReschedulingAppointment] = useState<Appointment | null>(null);
+  const [cancellingAppointment, setCancellingAppointment] = useState<Appointment | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
   const [appointmentNotes, setAppointmentNotes] = useState("");
+  const [appointmentType, setAppointmentType] = useState<AppointmentType>("initial_consultation");
+  const [appointmentLocation, setAppointmentLocation] = useState<AppointmentLocation>("office");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [selectedCaseId, setSelectedCaseId] = useState<number | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string>("other");
   const [documentDescription, setDocumentDescription] = useState<string>("");
+  const [selectedRequestId, setSelectedRequestId] = useState<number | null>(null);
+  const [historyCaseId, setHistoryCaseId] = useState<number | null>(null);
+  const [isIntakeOpen, setIsIntakeOpen] = useState(false);
+  const [intakeStep, setIntakeStep] = useState(0);
+  const [intakeYear, setIntakeYear] = useState(String(new Date().getFullYear() - 1));
+  const [intake, setIntake] = useState<IntakeAnswers>(emptyIntake);
+  const [signingRequest, setSigningRequest] = useState<SignatureRequest | null>(null);
+  const [signatureType, setSignatureType] = useState<"typed" | "drawn">("typed");
+  const [typedName, setTypedName] = useState("");
+  const [drawnSignature, setDrawnSignature] = useState<Blob | null>(null);
+  const [signatureConsent, setSignatureConsent] = useState(false);
 
   const content = {
     en: {
@@ -96,9 +160,145 @@ export default function Dashboard() {
       dependents: "dependent(s)",
       progress: "Progress",
       estimatedAmount: "Estimated amount",
+      viewHistory: "View history",
+      hideHistory: "Hide history",
+      caseOpened: "Case opened",
       noCases: "No active cases",
       noContactUs: "Contact us to start your tax return",
+      documentChecklist: "Required documents",
+      docsReceived: "documents received",
+      uploadMissing: "Upload",
+      replaceDocument: "Replace with a corrected file",
+      documentReplaced: "Document replaced",
+      documentReplacedDesc: "The previous version is kept in the history",
+      deleteDocument: "Delete document",
+      confirmDeleteDocument: "Delete this document? You can only delete documents your preparer has not started reviewing.",
+      documentDeleted: "Document deleted",
+      documentDeletedDesc: "The file has been removed from your case.",
+      deleteError: "Could not delete the document.",
+      appointmentConfirmed: "Attendance confirmed",
+      appointmentType: "Appointment type",
+      appointmentLocation: "Where",
+      typeInitialConsultation: "Initial consultation",
+      typeDocumentDropoff: "Document drop-off",
+      typeReturnReview: "Return review & signing",
+      typeItinInterview: "ITIN interview",
+      locationOffice: "At the office",
+      locationPhone: "By phone",
+      locationVideo: "Video call",
+      reschedule: "Reschedule",
+      cancelAppointment: "Cancel",
+      rescheduleAppointment: "Reschedule Appointment",
+      currentAppointment: "Current appointment",
+      confirmReschedule: "Confirm New Time",
+      appointmentRescheduled: "Appointment rescheduled",
+      appointmentRescheduledDesc: "Your appointment has been moved to the new time.",
+      cancelAppointmentTitle: "Cancel this appointment?",
+      cancelReason: "Reason (optional)",
+      confirmCancelAppointment: "Cancel Appointment",
+      appointmentCancelled: "Appointment cancelled",
+      appointmentCancelledDesc: "Your appointment has been cancelled.",
+      appointmentChangeError: "Could not change the appointment. Changes are only possible up to 2 hours before; please contact the office.",
+      selectTime: "Available times",
+      noSlots: "No times available on this day. Please choose another date.",
+      slotsTimeZone: "Times are shown in New York time (ET).",
+      slotTaken: "That time was just booked. Please choose another.",
+      signaturesTitle: "Documents to sign",
+      signaturesDesc: "Your preparer needs your signature to continue",
+      kind8879: "IRS e-file authorization (Form 8879)",
+      kindEngagement: "Engagement letter",
+      reviewDocument: "Review",
+      signDocument: "Sign",
+      signDialogDesc: "Open and read the document before signing. A signed copy will be added to your documents.",
+      openDocument: "Open document",
+      signatureTyped: "Type name",
+      signatureDrawn: "Draw",
+      typedNameLabel: "Full legal name",
+      drawSignatureHint: "Draw your signature in the box",
+      clearSignature: "Clear",
+      signatureConsent: "I have reviewed this document and agree to sign it electronically. My electronic signature has the same legal effect as a handwritten signature.",
+      submitSignature: "Sign document",
+      documentSigned: "Document signed",
+      documentSignedDesc: "The signed copy is now in your documents.",
+      signError: "Could not sign the document.",
+      uploadInvalidContent: "The file's content doesn't match its type. Save it again as PDF, JPG, PNG or Word and retry.",
+      uploadQuarantined: "This file didn't pass our security check and was held for review. Contact your preparer if you think this is a mistake.",
+      documentAccepted: "Accepted",
+      documentRejected: "Needs new copy",
+      reuploadHint: "Use the replace button to upload a new copy.",
+      requestedByPreparer: "Requested by your preparer",
+      dueBy: "Due",
+      overdue: "Overdue",
+      fulfillingRequest: "Uploading for request",
+      w2EmployersLabel: "How many employers sent you a W-2?",
+      startReturn: "Start my tax return",
+      intakeTitle: "Tax Intake Questionnaire",
+      intakeDesc: "Answer a few questions so we can prepare your return",
+      step: "Step",
+      of: "of",
+      stepBasics: "Filing information",
+      stepDependents: "Dependents",
+      stepIncome: "Income sources",
+      stepDeductions: "Deductions",
+      stepLifeEvents: "Life events",
+      taxYear: "Tax year",
+      filingStatusLabel: "Filing status",
+      fsSingle: "Single",
+      fsMarriedJoint: "Married filing jointly",
+      fsMarriedSeparate: "Married filing separately",
+      fsHeadHousehold: "Head of household",
+      fsWidow: "Qualifying widow(er)",
+      addDependent: "Add dependent",
+      dependentName: "Full name",
+      dateOfBirth: "Date of birth",
+      relationship: "Relationship",
+      relChild: "Child",
+      relStepchild: "Stepchild",
+      relFosterChild: "Foster child",
+      relSibling: "Sibling",
+      relParent: "Parent",
+      relGrandchild: "Grandchild",
+      relOther: "Other",
+      noDependentsAdded: "No dependents added",
+      remove: "Remove",
+      selectAllThatApply: "Select all that apply",
+      incW2: "W-2 employment",
+      incSelfEmployment: "Self-employment / 1099-NEC",
+      incGig: "Gig work (Uber, Lyft, DoorDash...)",
+      incUnemployment: "Unemployment benefits",
+      incSocialSecurity: "Social Security",
+      incRetirement: "Pension / IRA distributions",
+      incInvestments: "Investments (interest, dividends, stocks)",
+      incRental: "Rental income",
+      incOther: "Other income",
+      dedMortgage: "Mortgage interest",
+      dedPropertyTax: "Property taxes",
+      dedCharitable: "Charitable donations",
+      dedMedical: "Medical expenses",
+      dedStudentLoan: "Student loan interest",
+      dedEducation: "Tuition / education",
+      dedChildcare: "Childcare",
+      dedRetirement: "Retirement contributions",
+      dedOther: "Other deductions",
+      evMarriage: "Got married",
+      evDivorce: "Divorced or separated",
+      evNewChild: "Had or adopted a child",
+      evHomePurchase: "Bought a home",
+      evJobChange: "Changed jobs",
+      evStartedBusiness: "Started a business",
+      evMovedStates: "Moved to another state",
+      evRetirement: "Retired",
+      additionalNotes: "Anything else we should know?",
+      back: "Back",
+      next: "Next",
+      submitIntake: "Submit",
+      submittingIntake: "Submitting...",
+      caseRequested: "Case opened",
+      caseRequestedDesc: "We received your information. A preparer will review your case soon.",
+      caseRequestError: "Could not open the case. Please try again.",
       myDocuments: "My Documents",
+      fromYourPreparer: "From Your Preparer",
+      fromYourPreparerDesc: "Returns, letters and forms shared by your preparer",
       documentsDesc: "Uploaded and received documents",
       upload: "Upload",
       uploadDocument: "Upload Document",
@@ -117,7 +317,6 @@ export default function Dashboard() {
       uploadError: "Could not upload document. Please try again.",
       noDocuments: "No documents",
       uploadDocsHere: "Upload your tax documents here",
-      fromPreparer: "From preparer",
       appointments: "Appointments",
       appointmentsDesc: "Your upcoming appointments",
       schedule: "Schedule",
@@ -142,6 +341,10 @@ export default function Dashboard() {
       statusSentToIRS: "Sent to IRS",
       statusApproved: "Approved",
       statusRefundIssued: "Refund Issued",
+      statusAwaitingDocuments: "Awaiting Documents",
+      statusRejectedByIRS: "Rejected by IRS",
+      statusAmended: "Amended",
+      statusClosed: "Closed",
       catId: "ID",
       catW2: "W-2",
       cat1099: "1099",
@@ -151,6 +354,9 @@ export default function Dashboard() {
       catSSN: "SSN",
       catAddress: "Address",
       catOther: "Other",
+      catTaxReturn: "Tax Return",
+      catIrsLetter: "IRS Letter",
+      catSignedForm: "Signed Form",
       optIdDoc: "ID / Identification",
       optW2: "Form W-2",
       opt1099: "Form 1099",
@@ -173,9 +379,145 @@ export default function Dashboard() {
       dependents: "dependiente(s)",
       progress: "Progreso",
       estimatedAmount: "Monto estimado",
+      viewHistory: "Ver historial",
+      hideHistory: "Ocultar historial",
+      caseOpened: "Caso abierto",
       noCases: "No tienes casos activos",
       noContactUs: "Contáctanos para iniciar tu declaración",
+      documentChecklist: "Documentos requeridos",
+      docsReceived: "documentos recibidos",
+      uploadMissing: "Subir",
+      replaceDocument: "Reemplazar con un archivo corregido",
+      documentReplaced: "Documento reemplazado",
+      documentReplacedDesc: "La versión anterior se conserva en el historial",
+      deleteDocument: "Eliminar documento",
+      confirmDeleteDocument: "¿Eliminar este documento? Solo puede eliminar documentos que su preparador aún no ha comenzado a revisar.",
+      documentDeleted: "Documento eliminado",
+      documentDeletedDesc: "El archivo se quitó de su caso.",
+      deleteError: "No se pudo eliminar el documento.",
+      appointmentConfirmed: "Asistencia confirmada",
+      appointmentType: "Tipo de cita",
+      appointmentLocation: "Dónde",
+      typeInitialConsultation: "Consulta inicial",
+      typeDocumentDropoff: "Entrega de documentos",
+      typeReturnReview: "Revisión y firma de la declaración",
+      typeItinInterview: "Entrevista ITIN",
+      locationOffice: "En la oficina",
+      locationPhone: "Por teléfono",
+      locationVideo: "Videollamada",
+      reschedule: "Reprogramar",
+      cancelAppointment: "Cancelar",
+      rescheduleAppointment: "Reprogramar Cita",
+      currentAppointment: "Cita actual",
+      confirmReschedule: "Confirmar Nuevo Horario",
+      appointmentRescheduled: "Cita reprogramada",
+      appointmentRescheduledDesc: "Tu cita fue cambiada al nuevo horario.",
+      cancelAppointmentTitle: "¿Cancelar esta cita?",
+      cancelReason: "Motivo (opcional)",
+      confirmCancelAppointment: "Cancelar Cita",
+      appointmentCancelled: "Cita cancelada",
+      appointmentCancelledDesc: "Tu cita fue cancelada.",
+      appointmentChangeError: "No se pudo cambiar la cita. Los cambios solo son posibles hasta 2 horas antes; comunícate con la oficina.",
+      selectTime: "Horarios disponibles",
+      noSlots: "No hay horarios disponibles este día. Elige otra fecha.",
+      slotsTimeZone: "Los horarios se muestran en hora de Nueva York (ET).",
+      slotTaken: "Ese horario acaba de ser reservado. Elige otro.",
+      signaturesTitle: "Documentos por firmar",
+      signaturesDesc: "Su preparador necesita su firma para continuar",
+      kind8879: "Autorización de presentación electrónica del IRS (Formulario 8879)",
+      kindEngagement: "Carta de compromiso",
+      reviewDocument: "Revisar",
+      signDocument: "Firmar",
+      signDialogDesc: "Abra y lea el documento antes de firmar. Se agregará una copia firmada a sus documentos.",
+      openDocument: "Abrir documento",
+      signatureTyped: "Escribir nombre",
+      signatureDrawn: "Dibujar",
+      typedNameLabel: "Nombre legal completo",
+      drawSignatureHint: "Dibuje su firma en el recuadro",
+      clearSignature: "Borrar",
+      signatureConsent: "Revisé este documento y acepto firmarlo electrónicamente. Mi firma electrónica tiene el mismo efecto legal que una firma manuscrita.",
+      submitSignature: "Firmar documento",
+      documentSigned: "Documento firmado",
+      documentSignedDesc: "La copia firmada ya está en sus documentos.",
+      signError: "No se pudo firmar el documento.",
+      uploadInvalidContent: "El contenido del archivo no coincide con su tipo. Guárdelo de nuevo como PDF, JPG, PNG o Word e inténtelo otra vez.",
+      uploadQuarantined: "Este archivo no superó nuestra verificación de seguridad y quedó retenido para revisión. Contacte a su preparador si cree que es un error.",
+      documentAccepted: "Aceptado",
+      documentRejected: "Requiere nueva copia",
+      reuploadHint: "Use el botón de reemplazar para subir una nueva copia.",
+      requestedByPreparer: "Solicitado por su preparador",
+      dueBy: "Vence",
+      overdue: "Vencido",
+      fulfillingRequest: "Subiendo para la solicitud",
+      w2EmployersLabel: "¿Cuántos empleadores te enviaron un W-2?",
+      startReturn: "Iniciar mi declaración",
+      intakeTitle: "Cuestionario de Admisión",
+      intakeDesc: "Responde algunas preguntas para preparar tu declaración",
+      step: "Paso",
+      of: "de",
+      stepBasics: "Información de la declaración",
+      stepDependents: "Dependientes",
+      stepIncome: "Fuentes de ingreso",
+      stepDeductions: "Deducciones",
+      stepLifeEvents: "Eventos de vida",
+      taxYear: "Año fiscal",
+      filingStatusLabel: "Estado civil",
+      fsSingle: "Soltero/a",
+      fsMarriedJoint: "Casado declarando en conjunto",
+      fsMarriedSeparate: "Casado declarando por separado",
+      fsHeadHousehold: "Jefe de hogar",
+      fsWidow: "Viudo/a calificado",
+      addDependent: "Agregar dependiente",
+      dependentName: "Nombre completo",
+      dateOfBirth: "Fecha de nacimiento",
+      relationship: "Parentesco",
+      relChild: "Hijo/a",
+      relStepchild: "Hijastro/a",
+      relFosterChild: "Hijo/a de crianza",
+      relSibling: "Hermano/a",
+      relParent: "Padre/Madre",
+      relGrandchild: "Nieto/a",
+      relOther: "Otro",
+      noDependentsAdded: "No se han agregado dependientes",
+      remove: "Quitar",
+      selectAllThatApply: "Selecciona todas las que apliquen",
+      incW2: "Empleo W-2",
+      incSelfEmployment: "Trabajo independiente / 1099-NEC",
+      incGig: "Trabajo por aplicación (Uber, Lyft, DoorDash...)",
+      incUnemployment: "Beneficios de desempleo",
+      incSocialSecurity: "Seguro Social",
+      incRetirement: "Pensión / distribuciones de IRA",
+      incInvestments: "Inversiones (intereses, dividendos, acciones)",
+      incRental: "Ingresos por alquiler",
+      incOther: "Otros ingresos",
+      dedMortgage: "Intereses hipotecarios",
+      dedPropertyTax: "Impuestos a la propiedad",
+      dedCharitable: "Donaciones caritativas",
+      dedMedical: "Gastos médicos",
+      dedStudentLoan: "Intereses de préstamos estudiantiles",
+      dedEducation: "Matrícula / educación",
+      dedChildcare: "Cuidado de niños",
+      dedRetirement: "Aportes para el retiro",
+      dedOther: "Otras deducciones",
+      evMarriage: "Me casé",
+      evDivorce: "Me divorcié o separé",
+      evNewChild: "Tuve o adopté un hijo",
+      evHomePurchase: "Compré una casa",
+      evJobChange: "Cambié de trabajo",
+      evStartedBusiness: "Inicié un negocio",
+      evMovedStates: "Me mudé a otro estado",
+      evRetirement: "Me jubilé",
+      additionalNotes: "¿Algo más que debamos saber?",
+      back: "Atrás",
+      next: "Siguiente",
+      submitIntake: "Enviar",
+      submittingIntake: "Enviando...",
+      caseRequested: "Caso abierto",
+      caseRequestedDesc: "Recibimos tu información. Un preparador revisará tu caso pronto.",
+      caseRequestError: "No se pudo abrir el caso. Inténtalo de nuevo.",
       myDocuments: "Mis Documentos",
+      fromYourPreparer: "De su Preparador",
+      fromYourPreparerDesc: "Declaraciones, cartas y formularios compartidos por su preparador",
       documentsDesc: "Documentos subidos y recibidos",
       upload: "Subir",
       uploadDocument: "Subir Documento",
@@ -194,7 +536,6 @@ export default function Dashboard() {
       uploadError: "No se pudo subir el documento. Inténtalo de nuevo.",
       noDocuments: "No hay documentos",
       uploadDocsHere: "Sube tus documentos fiscales aquí",
-      fromPreparer: "Del preparador",
       appointments: "Citas",
       appointmentsDesc: "Tus próximas citas",
       schedule: "Agendar",
@@ -219,6 +560,10 @@ export default function Dashboard() {
       statusSentToIRS: "Enviado al IRS",
       statusApproved: "Aprobado",
       statusRefundIssued: "Reembolso Emitido",
+      statusAwaitingDocuments: "Esperando Documentos",
+      statusRejectedByIRS: "Rechazado por el IRS",
+      statusAmended: "Enmendado",
+      statusClosed: "Cerrado",
       catId: "ID",
       catW2: "W-2",
       cat1099: "1099",
@@ -228,6 +573,9 @@ export default function Dashboard() {
       catSSN: "SSN",
       catAddress: "Domicilio",
       catOther: "Otro",
+      catTaxReturn: "Declaración Preparada",
+      catIrsLetter: "Carta del IRS",
+      catSignedForm: "Formulario Firmado",
       optIdDoc: "ID / Identificación",
       optW2: "Formulario W-2",
       opt1099: "Formulario 1099",
@@ -250,9 +598,145 @@ export default function Dashboard() {
       dependents: "personne(s) à charge",
       progress: "Progression",
       estimatedAmount: "Montant estimé",
+      viewHistory: "Voir l'historique",
+      hideHistory: "Masquer l'historique",
+      caseOpened: "Dossier ouvert",
       noCases: "Aucun dossier actif",
       noContactUs: "Contactez-nous pour commencer votre déclaration",
+      documentChecklist: "Documents requis",
+      docsReceived: "documents reçus",
+      uploadMissing: "Téléverser",
+      replaceDocument: "Remplacer par un fichier corrigé",
+      documentReplaced: "Document remplacé",
+      documentReplacedDesc: "La version précédente est conservée dans l'historique",
+      deleteDocument: "Supprimer le document",
+      confirmDeleteDocument: "Supprimer ce document ? Vous ne pouvez supprimer que les documents que votre préparateur n'a pas encore commencé à examiner.",
+      documentDeleted: "Document supprimé",
+      documentDeletedDesc: "Le fichier a été retiré de votre dossier.",
+      deleteError: "Impossible de supprimer le document.",
+      appointmentConfirmed: "Présence confirmée",
+      appointmentType: "Type de rendez-vous",
+      appointmentLocation: "Où",
+      typeInitialConsultation: "Consultation initiale",
+      typeDocumentDropoff: "Dépôt de documents",
+      typeReturnReview: "Revue et signature de la déclaration",
+      typeItinInterview: "Entretien ITIN",
+      locationOffice: "Au bureau",
+      locationPhone: "Par téléphone",
+      locationVideo: "Appel vidéo",
+      reschedule: "Reporter",
+      cancelAppointment: "Annuler",
+      rescheduleAppointment: "Reporter le Rendez-vous",
+      currentAppointment: "Rendez-vous actuel",
+      confirmReschedule: "Confirmer le Nouvel Horaire",
+      appointmentRescheduled: "Rendez-vous reporté",
+      appointmentRescheduledDesc: "Votre rendez-vous a été déplacé au nouvel horaire.",
+      cancelAppointmentTitle: "Annuler ce rendez-vous ?",
+      cancelReason: "Motif (facultatif)",
+      confirmCancelAppointment: "Annuler le Rendez-vous",
+      appointmentCancelled: "Rendez-vous annulé",
+      appointmentCancelledDesc: "Votre rendez-vous a été annulé.",
+      appointmentChangeError: "Impossible de modifier le rendez-vous. Les changements sont possibles jusqu'à 2 heures avant ; veuillez contacter le bureau.",
+      selectTime: "Horaires disponibles",
+      noSlots: "Aucun horaire disponible ce jour-là. Veuillez choisir une autre date.",
+      slotsTimeZone: "Les horaires sont affichés à l'heure de New York (ET).",
+      slotTaken: "Cet horaire vient d'être réservé. Veuillez en choisir un autre.",
+      signaturesTitle: "Documents à signer",
+      signaturesDesc: "Votre préparateur a besoin de votre signature pour continuer",
+      kind8879: "Autorisation de déclaration électronique de l'IRS (formulaire 8879)",
+      kindEngagement: "Lettre de mission",
+      reviewDocument: "Examiner",
+      signDocument: "Signer",
+      signDialogDesc: "Ouvrez et lisez le document avant de signer. Une copie signée sera ajoutée à vos documents.",
+      openDocument: "Ouvrir le document",
+      signatureTyped: "Saisir le nom",
+      signatureDrawn: "Dessiner",
+      typedNameLabel: "Nom légal complet",
+      drawSignatureHint: "Dessinez votre signature dans le cadre",
+      clearSignature: "Effacer",
+      signatureConsent: "J'ai examiné ce document et j'accepte de le signer électroniquement. Ma signature électronique a la même valeur juridique qu'une signature manuscrite.",
+      submitSignature: "Signer le document",
+      documentSigned: "Document signé",
+      documentSignedDesc: "La copie signée se trouve maintenant dans vos documents.",
+      signError: "Impossible de signer le document.",
+      uploadInvalidContent: "Le contenu du fichier ne correspond pas à son type. Enregistrez-le de nouveau en PDF, JPG, PNG ou Word et réessayez.",
+      uploadQuarantined: "Ce fichier n'a pas passé notre contrôle de sécurité et a été retenu pour vérification. Contactez votre préparateur si vous pensez qu'il s'agit d'une erreur.",
+      documentAccepted: "Accepté",
+      documentRejected: "Nouvelle copie requise",
+      reuploadHint: "Utilisez le bouton remplacer pour envoyer une nouvelle copie.",
+      requestedByPreparer: "Demandé par votre préparateur",
+      dueBy: "Échéance",
+      overdue: "En retard",
+      fulfillingRequest: "Téléversement pour la demande",
+      w2EmployersLabel: "Combien d'employeurs vous ont envoyé un W-2 ?",
+      startReturn: "Commencer ma déclaration",
+      intakeTitle: "Questionnaire d'Admission",
+      intakeDesc: "Répondez à quelques questions pour préparer votre déclaration",
+      step: "Étape",
+      of: "sur",
+      stepBasics: "Informations de déclaration",
+      stepDependents: "Personnes à charge",
+      stepIncome: "Sources de revenus",
+      stepDeductions: "Déductions",
+      stepLifeEvents: "Événements de vie",
+      taxYear: "Année fiscale",
+      filingStatusLabel: "Statut fiscal",
+      fsSingle: "Célibataire",
+      fsMarriedJoint: "Marié(e) déclaration conjointe",
+      fsMarriedSeparate: "Marié(e) déclaration séparée",
+      fsHeadHousehold: "Chef de famille",
+      fsWidow: "Veuf/veuve admissible",
+      addDependent: "Ajouter une personne à charge",
+      dependentName: "Nom complet",
+      dateOfBirth: "Date de naissance",
+      relationship: "Lien de parenté",
+      relChild: "Enfant",
+      relStepchild: "Beau-fils / belle-fille",
+      relFosterChild: "Enfant en famille d'accueil",
+      relSibling: "Frère / sœur",
+      relParent: "Parent",
+      relGrandchild: "Petit-enfant",
+      relOther: "Autre",
+      noDependentsAdded: "Aucune personne à charge ajoutée",
+      remove: "Retirer",
+      selectAllThatApply: "Sélectionnez tout ce qui s'applique",
+      incW2: "Emploi W-2",
+      incSelfEmployment: "Travail indépendant / 1099-NEC",
+      incGig: "Travail via applications (Uber, Lyft, DoorDash...)",
+      incUnemployment: "Allocations de chômage",
+      incSocialSecurity: "Sécurité sociale",
+      incRetirement: "Pension / distributions IRA",
+      incInvestments: "Investissements (intérêts, dividendes, actions)",
+      incRental: "Revenus locatifs",
+      incOther: "Autres revenus",
+      dedMortgage: "Intérêts hypothécaires",
+      dedPropertyTax: "Impôts fonciers",
+      dedCharitable: "Dons de bienfaisance",
+      dedMedical: "Frais médicaux",
+      dedStudentLoan: "Intérêts de prêt étudiant",
+      dedEducation: "Frais de scolarité",
+      dedChildcare: "Garde d'enfants",
+      dedRetirement: "Cotisations de retraite",
+      dedOther: "Autres déductions",
+      evMarriage: "Je me suis marié(e)",
+      evDivorce: "Divorcé(e) ou séparé(e)",
+      evNewChild: "J'ai eu ou adopté un enfant",
+      evHomePurchase: "J'ai acheté une maison",
+      evJobChange: "J'ai changé d'emploi",
+      evStartedBusiness: "J'ai créé une entreprise",
+      evMovedStates: "J'ai déménagé dans un autre État",
+      evRetirement: "Je suis retraité(e)",
+      additionalNotes: "Autre chose que nous devrions savoir ?",
+      back: "Retour",
+      next: "Suivant",
+      submitIntake: "Envoyer",
+      submittingIntake: "Envoi...",
+      caseRequested: "Dossier ouvert",
+      caseRequestedDesc: "Nous avons reçu vos informations. Un préparateur examinera votre dossier bientôt.",
+      caseRequestError: "Impossible d'ouvrir le dossier. Veuillez réessayer.",
       myDocuments: "Mes Documents",
+      fromYourPreparer: "De Votre Préparateur",
+      fromYourPreparerDesc: "Déclarations, lettres et formulaires partagés par votre préparateur",
       documentsDesc: "Documents téléchargés et reçus",
       upload: "Télécharger",
       uploadDocument: "Télécharger un Document",
@@ -271,7 +755,6 @@ export default function Dashboard() {
       uploadError: "Impossible de télécharger le document. Veuillez réessayer.",
       noDocuments: "Aucun document",
       uploadDocsHere: "Téléchargez vos documents fiscaux ici",
-      fromPreparer: "Du préparateur",
       appointments: "Rendez-vous",
       appointmentsDesc: "Vos prochains rendez-vous",
       schedule: "Planifier",
@@ -296,6 +779,10 @@ export default function Dashboard() {
       statusSentToIRS: "Envoyé à l'IRS",
       statusApproved: "Approuvé",
       statusRefundIssued: "Remboursement Émis",
+      statusAwaitingDocuments: "En Attente de Documents",
+      statusRejectedByIRS: "Rejeté par l'IRS",
+      statusAmended: "Amendé",
+      statusClosed: "Clôturé",
       catId: "ID",
       catW2: "W-2",
       cat1099: "1099",
@@ -305,6 +792,9 @@ export default function Dashboard() {
       catSSN: "SSN",
       catAddress: "Adresse",
       catOther: "Autre",
+      catTaxReturn: "Déclaration Préparée",
+      catIrsLetter: "Lettre de l'IRS",
+      catSignedForm: "Formulaire Signé",
       optIdDoc: "ID / Identification",
       optW2: "Formulaire W-2",
       opt1099: "Formulaire 1099",
@@ -327,9 +817,145 @@ export default function Dashboard() {
       dependents: "dependente(s)",
       progress: "Progresso",
       estimatedAmount: "Valor estimado",
+      viewHistory: "Ver histórico",
+      hideHistory: "Ocultar histórico",
+      caseOpened: "Caso aberto",
       noCases: "Nenhum caso ativo",
       noContactUs: "Entre em contato para iniciar sua declaração",
+      documentChecklist: "Documentos necessários",
+      docsReceived: "documentos recebidos",
+      uploadMissing: "Enviar",
+      replaceDocument: "Substituir por um arquivo corrigido",
+      documentReplaced: "Documento substituído",
+      documentReplacedDesc: "A versão anterior é mantida no histórico",
+      deleteDocument: "Excluir documento",
+      confirmDeleteDocument: "Excluir este documento? Você só pode excluir documentos que seu preparador ainda não começou a revisar.",
+      documentDeleted: "Documento excluído",
+      documentDeletedDesc: "O arquivo foi removido do seu caso.",
+      deleteError: "Não foi possível excluir o documento.",
+      appointmentConfirmed: "Presença confirmada",
+      appointmentType: "Tipo de consulta",
+      appointmentLocation: "Onde",
+      typeInitialConsultation: "Consulta inicial",
+      typeDocumentDropoff: "Entrega de documentos",
+      typeReturnReview: "Revisão e assinatura da declaração",
+      typeItinInterview: "Entrevista ITIN",
+      locationOffice: "No escritório",
+      locationPhone: "Por telefone",
+      locationVideo: "Videochamada",
+      reschedule: "Remarcar",
+      cancelAppointment: "Cancelar",
+      rescheduleAppointment: "Remarcar Consulta",
+      currentAppointment: "Consulta atual",
+      confirmReschedule: "Confirmar Novo Horário",
+      appointmentRescheduled: "Consulta remarcada",
+      appointmentRescheduledDesc: "Sua consulta foi movida para o novo horário.",
+      cancelAppointmentTitle: "Cancelar esta consulta?",
+      cancelReason: "Motivo (opcional)",
+      confirmCancelAppointment: "Cancelar Consulta",
+      appointmentCancelled: "Consulta cancelada",
+      appointmentCancelledDesc: "Sua consulta foi cancelada.",
+      appointmentChangeError: "Não foi possível alterar a consulta. Alterações só são possíveis até 2 horas antes; entre em contato com o escritório.",
+      selectTime: "Horários disponíveis",
+      noSlots: "Não há horários disponíveis neste dia. Escolha outra data.",
+      slotsTimeZone: "Os horários são exibidos no horário de Nova York (ET).",
+      slotTaken: "Esse horário acabou de ser reservado. Escolha outro.",
+      signaturesTitle: "Documentos para assinar",
+      signaturesDesc: "Seu preparador precisa da sua assinatura para continuar",
+      kind8879: "Autorização de declaração eletrônica do IRS (Formulário 8879)",
+      kindEngagement: "Carta de compromisso",
+      reviewDocument: "Revisar",
+      signDocument: "Assinar",
+      signDialogDesc: "Abra e leia o documento antes de assinar. Uma cópia assinada será adicionada aos seus documentos.",
+      openDocument: "Abrir documento",
+      signatureTyped: "Digitar nome",
+      signatureDrawn: "Desenhar",
+      typedNameLabel: "Nome legal completo",
+      drawSignatureHint: "Desenhe sua assinatura no quadro",
+      clearSignature: "Limpar",
+      signatureConsent: "Revisei este documento e concordo em assiná-lo eletronicamente. Minha assinatura eletrônica tem o mesmo efeito legal que uma assinatura manuscrita.",
+      submitSignature: "Assinar documento",
+      documentSigned: "Documento assinado",
+      documentSignedDesc: "A cópia assinada já está nos seus documentos.",
+      signError: "Não foi possível assinar o documento.",
+      uploadInvalidContent: "O conteúdo do arquivo não corresponde ao seu tipo. Salve-o novamente como PDF, JPG, PNG ou Word e tente outra vez.",
+      uploadQuarantined: "Este arquivo não passou na nossa verificação de segurança e ficou retido para revisão. Contate seu preparador se achar que é um erro.",
+      documentAccepted: "Aceito",
+      documentRejected: "Requer nova cópia",
+      reuploadHint: "Use o botão de substituir para enviar uma nova cópia.",
+      requestedByPreparer: "Solicitado pelo seu preparador",
+      dueBy: "Prazo",
+      overdue: "Vencido",
+      fulfillingRequest: "Enviando para a solicitação",
+      w2EmployersLabel: "Quantos empregadores enviaram um W-2?",
+      startReturn: "Iniciar minha declaração",
+      intakeTitle: "Questionário de Admissão",
+      intakeDesc: "Responda algumas perguntas para prepararmos sua declaração",
+      step: "Etapa",
+      of: "de",
+      stepBasics: "Informações da declaração",
+      stepDependents: "Dependentes",
+      stepIncome: "Fontes de renda",
+      stepDeductions: "Deduções",
+      stepLifeEvents: "Eventos de vida",
+      taxYear: "Ano fiscal",
+      filingStatusLabel: "Estado civil",
+      fsSingle: "Solteiro(a)",
+      fsMarriedJoint: "Casado declarando em conjunto",
+      fsMarriedSeparate: "Casado declarando separadamente",
+      fsHeadHousehold: "Chefe de família",
+      fsWidow: "Viúvo(a) qualificado(a)",
+      addDependent: "Adicionar dependente",
+      dependentName: "Nome completo",
+      dateOfBirth: "Data de nascimento",
+      relationship: "Parentesco",
+      relChild: "Filho(a)",
+      relStepchild: "Enteado(a)",
+      relFosterChild: "Filho(a) adotivo(a) temporário(a)",
+      relSibling: "Irmão(ã)",
+      relParent: "Pai/Mãe",
+      relGrandchild: "Neto(a)",
+      relOther: "Outro",
+      noDependentsAdded: "Nenhum dependente adicionado",
+      remove: "Remover",
+      selectAllThatApply: "Selecione todas as que se aplicam",
+      incW2: "Emprego W-2",
+      incSelfEmployment: "Autônomo / 1099-NEC",
+      incGig: "Trabalho por aplicativo (Uber, Lyft, DoorDash...)",
+      incUnemployment: "Seguro-desemprego",
+      incSocialSecurity: "Seguridade Social",
+      incRetirement: "Pensão / distribuições de IRA",
+      incInvestments: "Investimentos (juros, dividendos, ações)",
+      incRental: "Renda de aluguel",
+      incOther: "Outras rendas",
+      dedMortgage: "Juros de hipoteca",
+      dedPropertyTax: "Impostos sobre a propriedade",
+      dedCharitable: "Doações beneficentes",
+      dedMedical: "Despesas médicas",
+      dedStudentLoan: "Juros de empréstimo estudantil",
+      dedEducation: "Mensalidades / educação",
+      dedChildcare: "Cuidados infantis",
+      dedRetirement: "Contribuições para aposentadoria",
+      dedOther: "Outras deduções",
+      evMarriage: "Me casei",
+      evDivorce: "Me divorciei ou separei",
+      evNewChild: "Tive ou adotei um filho",
+      evHomePurchase: "Comprei uma casa",
+      evJobChange: "Mudei de emprego",
+      evStartedBusiness: "Abri um negócio",
+      evMovedStates: "Me mudei para outro estado",
+      evRetirement: "Me aposentei",
+      additionalNotes: "Algo mais que devemos saber?",
+      back: "Voltar",
+      next: "Próximo",
+      submitIntake: "Enviar",
+      submittingIntake: "Enviando...",
+      caseRequested: "Caso aberto",
+      caseRequestedDesc: "Recebemos suas informações. Um preparador revisará seu caso em breve.",
+      caseRequestError: "Não foi possível abrir o caso. Tente novamente.",
       myDocuments: "Meus Documentos",
+      fromYourPreparer: "Do Seu Preparador",
+      fromYourPreparerDesc: "Declarações, cartas e formulários compartilhados pelo seu preparador",
       documentsDesc: "Documentos enviados e recebidos",
       upload: "Enviar",
       uploadDocument: "Enviar Documento",
@@ -348,7 +974,6 @@ export default function Dashboard() {
       uploadError: "Não foi possível enviar o documento. Tente novamente.",
       noDocuments: "Nenhum documento",
       uploadDocsHere: "Envie seus documentos fiscais aqui",
-      fromPreparer: "Do preparador",
       appointments: "Consultas",
       appointmentsDesc: "Suas próximas consultas",
       schedule: "Agendar",
@@ -373,6 +998,10 @@ export default function Dashboard() {
       statusSentToIRS: "Enviado ao IRS",
       statusApproved: "Aprovado",
       statusRefundIssued: "Reembolso Emitido",
+      statusAwaitingDocuments: "Aguardando Documentos",
+      statusRejectedByIRS: "Rejeitado pelo IRS",
+      statusAmended: "Retificado",
+      statusClosed: "Encerrado",
       catId: "ID",
       catW2: "W-2",
       cat1099: "1099",
@@ -382,6 +1011,9 @@ export default function Dashboard() {
       catSSN: "SSN",
       catAddress: "Endereço",
       catOther: "Outro",
+      catTaxReturn: "Declaração Preparada",
+      catIrsLetter: "Carta do IRS",
+      catSignedForm: "Formulário Assinado",
       optIdDoc: "ID / Identificação",
       optW2: "Formulário W-2",
       opt1099: "Formulário 1099",
@@ -404,9 +1036,145 @@ export default function Dashboard() {
       dependents: "个受抚养人",
       progress: "进度",
       estimatedAmount: "预估金额",
+      viewHistory: "查看历史",
+      hideHistory: "隐藏历史",
+      caseOpened: "案例已创建",
       noCases: "没有活跃案例",
       noContactUs: "联系我们开始您的纳税申报",
+      documentChecklist: "所需文件",
+      docsReceived: "份文件已收到",
+      uploadMissing: "上传",
+      replaceDocument: "用更正后的文件替换",
+      documentReplaced: "文件已替换",
+      documentReplacedDesc: "以前的版本保留在历史记录中",
+      deleteDocument: "删除文件",
+      confirmDeleteDocument: "删除此文件？您只能删除报税员尚未开始审核的文件。",
+      documentDeleted: "文件已删除",
+      documentDeletedDesc: "该文件已从您的案件中移除。",
+      deleteError: "无法删除文件。",
+      appointmentConfirmed: "已确认出席",
+      appointmentType: "预约类型",
+      appointmentLocation: "地点",
+      typeInitialConsultation: "初次咨询",
+      typeDocumentDropoff: "递交文件",
+      typeReturnReview: "报税表审核与签署",
+      typeItinInterview: "ITIN 面谈",
+      locationOffice: "在办公室",
+      locationPhone: "电话",
+      locationVideo: "视频通话",
+      reschedule: "改期",
+      cancelAppointment: "取消",
+      rescheduleAppointment: "预约改期",
+      currentAppointment: "当前预约",
+      confirmReschedule: "确认新时间",
+      appointmentRescheduled: "预约已改期",
+      appointmentRescheduledDesc: "您的预约已改到新的时间。",
+      cancelAppointmentTitle: "取消此预约？",
+      cancelReason: "原因（可选）",
+      confirmCancelAppointment: "取消预约",
+      appointmentCancelled: "预约已取消",
+      appointmentCancelledDesc: "您的预约已取消。",
+      appointmentChangeError: "无法更改预约。仅可在预约开始前2小时更改，请联系办公室。",
+      selectTime: "可预约时间",
+      noSlots: "当天没有可预约的时间，请选择其他日期。",
+      slotsTimeZone: "时间以纽约时间（ET）显示。",
+      slotTaken: "该时间刚刚被预约，请选择其他时间。",
+      signaturesTitle: "待签署文件",
+      signaturesDesc: "您的报税员需要您的签名才能继续",
+      kind8879: "IRS 电子申报授权（8879 表）",
+      kindEngagement: "服务委托书",
+      reviewDocument: "查看",
+      signDocument: "签署",
+      signDialogDesc: "签署前请打开并阅读文件。签署后的副本将添加到您的文件中。",
+      openDocument: "打开文件",
+      signatureTyped: "输入姓名",
+      signatureDrawn: "手写",
+      typedNameLabel: "法定全名（拉丁字母）",
+      drawSignatureHint: "请在框内手写签名",
+      clearSignature: "清除",
+      signatureConsent: "我已查看此文件并同意以电子方式签署。我的电子签名与手写签名具有同等法律效力。",
+      submitSignature: "签署文件",
+      documentSigned: "文件已签署",
+      documentSignedDesc: "签署后的副本已在您的文件中。",
+      signError: "无法签署文件。",
+      uploadInvalidContent: "文件内容与其类型不符。请另存为 PDF、JPG、PNG 或 Word 后重试。",
+      uploadQuarantined: "此文件未通过安全检查，已被保留待审核。如认为有误，请联系您的报税员。",
+      documentAccepted: "已接受",
+      documentRejected: "需要重新上传",
+      reuploadHint: "请使用替换按钮上传新的副本。",
+      requestedByPreparer: "您的报税员请求的文件",
+      dueBy: "截止",
+      overdue: "已逾期",
+      fulfillingRequest: "正在为以下请求上传",
+      w2EmployersLabel: "有多少雇主给您寄了 W-2？",
+      startReturn: "开始我的报税",
+      intakeTitle: "报税问卷",
+      intakeDesc: "回答几个问题以便我们准备您的申报",
+      step: "第",
+      of: "步，共",
+      stepBasics: "申报信息",
+      stepDependents: "受抚养人",
+      stepIncome: "收入来源",
+      stepDeductions: "扣除项",
+      stepLifeEvents: "生活事件",
+      taxYear: "纳税年度",
+      filingStatusLabel: "报税身份",
+      fsSingle: "单身",
+      fsMarriedJoint: "已婚合并申报",
+      fsMarriedSeparate: "已婚分开申报",
+      fsHeadHousehold: "户主",
+      fsWidow: "符合条件的鳏寡者",
+      addDependent: "添加受抚养人",
+      dependentName: "全名",
+      dateOfBirth: "出生日期",
+      relationship: "关系",
+      relChild: "子女",
+      relStepchild: "继子女",
+      relFosterChild: "寄养子女",
+      relSibling: "兄弟姐妹",
+      relParent: "父母",
+      relGrandchild: "孙辈",
+      relOther: "其他",
+      noDependentsAdded: "尚未添加受抚养人",
+      remove: "移除",
+      selectAllThatApply: "选择所有适用项",
+      incW2: "W-2 工资",
+      incSelfEmployment: "自雇 / 1099-NEC",
+      incGig: "平台工作 (Uber, Lyft, DoorDash...)",
+      incUnemployment: "失业救济金",
+      incSocialSecurity: "社会保障金",
+      incRetirement: "养老金 / IRA 分配",
+      incInvestments: "投资 (利息、股息、股票)",
+      incRental: "租金收入",
+      incOther: "其他收入",
+      dedMortgage: "房贷利息",
+      dedPropertyTax: "房产税",
+      dedCharitable: "慈善捐款",
+      dedMedical: "医疗费用",
+      dedStudentLoan: "学生贷款利息",
+      dedEducation: "学费 / 教育",
+      dedChildcare: "托儿费用",
+      dedRetirement: "退休金缴款",
+      dedOther: "其他扣除",
+      evMarriage: "结婚",
+      evDivorce: "离婚或分居",
+      evNewChild: "生育或领养孩子",
+      evHomePurchase: "购买房屋",
+      evJobChange: "更换工作",
+      evStartedBusiness: "创办企业",
+      evMovedStates: "搬到另一个州",
+      evRetirement: "退休",
+      additionalNotes: "还有什么需要我们知道的吗？",
+      back: "返回",
+      next: "下一步",
+      submitIntake: "提交",
+      submittingIntake: "提交中...",
+      caseRequested: "案例已创建",
+      caseRequestedDesc: "我们已收到您的信息。准备者将很快审核您的案例。",
+      caseRequestError: "无法创建案例，请重试。",
       myDocuments: "我的文件",
+      fromYourPreparer: "来自您的报税员",
+      fromYourPreparerDesc: "您的报税员分享的报税表、信函和表格",
       documentsDesc: "已上传和已接收的文件",
       upload: "上传",
       uploadDocument: "上传文件",
@@ -425,7 +1193,6 @@ export default function Dashboard() {
       uploadError: "无法上传文件。请重试。",
       noDocuments: "没有文件",
       uploadDocsHere: "在此上传您的税务文件",
-      fromPreparer: "来自准备者",
       appointments: "预约",
       appointmentsDesc: "您即将到来的预约",
       schedule: "安排",
@@ -450,6 +1217,10 @@ export default function Dashboard() {
       statusSentToIRS: "已发送至IRS",
       statusApproved: "已批准",
       statusRefundIssued: "退款已发放",
+      statusAwaitingDocuments: "等待文件",
+      statusRejectedByIRS: "被IRS拒绝",
+      statusAmended: "已修正",
+      statusClosed: "已关闭",
       catId: "ID",
       catW2: "W-2",
       cat1099: "1099",
@@ -459,6 +1230,9 @@ export default function Dashboard() {
       catSSN: "SSN",
       catAddress: "地址",
       catOther: "其他",
+      catTaxReturn: "报税表",
+      catIrsLetter: "IRS 信函",
+      catSignedForm: "已签署表格",
       optIdDoc: "ID/身份证明",
       optW2: "W-2表格",
       opt1099: "1099表格",
@@ -481,9 +1255,145 @@ export default function Dashboard() {
       dependents: "depandan",
       progress: "Pwogrè",
       estimatedAmount: "Montan estime",
+      viewHistory: "Wè istorik",
+      hideHistory: "Kache istorik",
+      caseOpened: "Dosye louvri",
       noCases: "Pa gen dosye aktif",
       noContactUs: "Kontakte nou pou kòmanse deklarasyon ou",
+      documentChecklist: "Dokiman obligatwa",
+      docsReceived: "dokiman resevwa",
+      uploadMissing: "Telechaje",
+      replaceDocument: "Ranplase ak yon fichye korije",
+      documentReplaced: "Dokiman ranplase",
+      documentReplacedDesc: "Ansyen vèsyon an rete nan istwa a",
+      deleteDocument: "Efase dokiman",
+      confirmDeleteDocument: "Efase dokiman sa a? Ou ka efase sèlman dokiman preparatè w la poko kòmanse revize.",
+      documentDeleted: "Dokiman efase",
+      documentDeletedDesc: "Fichye a retire nan dosye w la.",
+      deleteError: "Nou pa t kapab efase dokiman an.",
+      appointmentConfirmed: "Prezans konfime",
+      appointmentType: "Kalite randevou",
+      appointmentLocation: "Ki kote",
+      typeInitialConsultation: "Premye konsiltasyon",
+      typeDocumentDropoff: "Depoze dokiman",
+      typeReturnReview: "Revizyon ak siyati deklarasyon",
+      typeItinInterview: "Entèvyou ITIN",
+      locationOffice: "Nan biwo a",
+      locationPhone: "Pa telefòn",
+      locationVideo: "Apèl videyo",
+      reschedule: "Chanje lè",
+      cancelAppointment: "Anile",
+      rescheduleAppointment: "Chanje Lè Randevou",
+      currentAppointment: "Randevou kounye a",
+      confirmReschedule: "Konfime Nouvo Lè",
+      appointmentRescheduled: "Randevou chanje",
+      appointmentRescheduledDesc: "Randevou ou a deplase nan nouvo lè a.",
+      cancelAppointmentTitle: "Anile randevou sa a?",
+      cancelReason: "Rezon (opsyonèl)",
+      confirmCancelAppointment: "Anile Randevou",
+      appointmentCancelled: "Randevou anile",
+      appointmentCancelledDesc: "Randevou ou a anile.",
+      appointmentChangeError: "Nou pa t kapab chanje randevou a. Ou ka chanje l jiska 2 èdtan anvan; tanpri kontakte biwo a.",
+      selectTime: "Lè ki disponib",
+      noSlots: "Pa gen lè disponib jou sa a. Tanpri chwazi yon lòt dat.",
+      slotsTimeZone: "Lè yo parèt nan lè New York (ET).",
+      slotTaken: "Yon lòt moun fèk pran lè sa a. Tanpri chwazi yon lòt.",
+      signaturesTitle: "Dokiman pou siyen",
+      signaturesDesc: "Preparatè w la bezwen siyati w pou kontinye",
+      kind8879: "Otorizasyon depo elektwonik IRS (Fòmilè 8879)",
+      kindEngagement: "Lèt angajman",
+      reviewDocument: "Revize",
+      signDocument: "Siyen",
+      signDialogDesc: "Louvri epi li dokiman an anvan ou siyen. Yon kopi siyen ap ajoute nan dokiman w yo.",
+      openDocument: "Louvri dokiman",
+      signatureTyped: "Ekri non",
+      signatureDrawn: "Desinen",
+      typedNameLabel: "Non legal konplè",
+      drawSignatureHint: "Desinen siyati w nan bwat la",
+      clearSignature: "Efase",
+      signatureConsent: "Mwen revize dokiman sa a epi mwen dakò pou m siyen l elektwonikman. Siyati elektwonik mwen gen menm efè legal ak yon siyati alamen.",
+      submitSignature: "Siyen dokiman",
+      documentSigned: "Dokiman siyen",
+      documentSignedDesc: "Kopi siyen an nan dokiman w yo kounye a.",
+      signError: "Nou pa t kapab siyen dokiman an.",
+      uploadInvalidContent: "Kontni fichye a pa koresponn ak tip li. Anrejistre l ankò an PDF, JPG, PNG oswa Word epi eseye ankò.",
+      uploadQuarantined: "Fichye sa a pa pase verifikasyon sekirite nou an epi yo kenbe l pou revizyon. Kontakte preparatè ou si ou panse se yon erè.",
+      documentAccepted: "Aksepte",
+      documentRejected: "Bezwen nouvo kopi",
+      reuploadHint: "Sèvi ak bouton ranplase a pou voye yon nouvo kopi.",
+      requestedByPreparer: "Preparatè ou mande",
+      dueBy: "Dat limit",
+      overdue: "An reta",
+      fulfillingRequest: "N ap telechaje pou demann",
+      w2EmployersLabel: "Konbyen anplwayè ki voye yon W-2 ba ou?",
+      startReturn: "Kòmanse deklarasyon mwen",
+      intakeTitle: "Kesyonè Admisyon",
+      intakeDesc: "Reponn kèk kesyon pou nou ka prepare deklarasyon ou",
+      step: "Etap",
+      of: "sou",
+      stepBasics: "Enfòmasyon deklarasyon",
+      stepDependents: "Depandan",
+      stepIncome: "Sous revni",
+      stepDeductions: "Deduksyon",
+      stepLifeEvents: "Evènman lavi",
+      taxYear: "Ane fiskal",
+      filingStatusLabel: "Estati sivil",
+      fsSingle: "Selibatè",
+      fsMarriedJoint: "Marye k ap deklare ansanm",
+      fsMarriedSeparate: "Marye k ap deklare separe",
+      fsHeadHousehold: "Chèf fanmi",
+      fsWidow: "Vèv ki kalifye",
+      addDependent: "Ajoute depandan",
+      dependentName: "Non konplè",
+      dateOfBirth: "Dat nesans",
+      relationship: "Relasyon",
+      relChild: "Pitit",
+      relStepchild: "Pitit bòpè/bèlmè",
+      relFosterChild: "Pitit adoptif tanporè",
+      relSibling: "Frè/Sè",
+      relParent: "Paran",
+      relGrandchild: "Pitit pitit",
+      relOther: "Lòt",
+      noDependentsAdded: "Pa gen depandan ki ajoute",
+      remove: "Retire",
+      selectAllThatApply: "Chwazi tout sa ki aplike",
+      incW2: "Travay W-2",
+      incSelfEmployment: "Travay endepandan / 1099-NEC",
+      incGig: "Travay sou aplikasyon (Uber, Lyft, DoorDash...)",
+      incUnemployment: "Benefis chomaj",
+      incSocialSecurity: "Sekirite Sosyal",
+      incRetirement: "Pansyon / distribisyon IRA",
+      incInvestments: "Envestisman (enterè, dividann, aksyon)",
+      incRental: "Revni lwaye",
+      incOther: "Lòt revni",
+      dedMortgage: "Enterè ipotèk",
+      dedPropertyTax: "Taks pwopriyete",
+      dedCharitable: "Don charitab",
+      dedMedical: "Depans medikal",
+      dedStudentLoan: "Enterè prè etidyan",
+      dedEducation: "Frè lekòl / edikasyon",
+      dedChildcare: "Gadri timoun",
+      dedRetirement: "Kontribisyon retrèt",
+      dedOther: "Lòt deduksyon",
+      evMarriage: "Mwen marye",
+      evDivorce: "Mwen divòse oswa separe",
+      evNewChild: "Mwen fè oswa adopte yon pitit",
+      evHomePurchase: "Mwen achte yon kay",
+      evJobChange: "Mwen chanje travay",
+      evStartedBusiness: "Mwen kòmanse yon biznis",
+      evMovedStates: "Mwen demenaje nan yon lòt eta",
+      evRetirement: "Mwen pran retrèt",
+      additionalNotes: "Èske gen lòt bagay nou ta dwe konnen?",
+      back: "Retounen",
+      next: "Swivan",
+      submitIntake: "Voye",
+      submittingIntake: "N ap voye...",
+      caseRequested: "Dosye louvri",
+      caseRequestedDesc: "Nou resevwa enfòmasyon ou. Yon preparatè ap revize dosye ou byento.",
+      caseRequestError: "Nou pa t kapab louvri dosye a. Tanpri eseye ankò.",
       myDocuments: "Dokiman Mwen",
+      fromYourPreparer: "Nan Men Preparatè Ou",
+      fromYourPreparerDesc: "Deklarasyon, lèt ak fòm preparatè ou pataje",
       documentsDesc: "Dokiman ki telechaje ak ki resevwa",
       upload: "Telechaje",
       uploadDocument: "Telechaje Dokiman",
@@ -502,7 +1412,6 @@ export default function Dashboard() {
       uploadError: "Pa kapab telechaje dokiman an. Tanpri eseye ankò.",
       noDocuments: "Pa gen dokiman",
       uploadDocsHere: "Telechaje dokiman taks ou yo isit la",
-      fromPreparer: "Nan men preparatè a",
       appointments: "Randevou",
       appointmentsDesc: "Randevou ou yo ki ap vini",
       schedule: "Pwograme",
@@ -527,6 +1436,10 @@ export default function Dashboard() {
       statusSentToIRS: "Voye bay IRS",
       statusApproved: "Apwouve",
       statusRefundIssued: "Ranbousman Emèt",
+      statusAwaitingDocuments: "Ap Tann Dokiman",
+      statusRejectedByIRS: "IRS Rejte",
+      statusAmended: "Amande",
+      statusClosed: "Fèmen",
       catId: "ID",
       catW2: "W-2",
       cat1099: "1099",
@@ -536,6 +1449,9 @@ export default function Dashboard() {
       catSSN: "SSN",
       catAddress: "Adrès",
       catOther: "Lòt",
+      catTaxReturn: "Deklarasyon Taks",
+      catIrsLetter: "Lèt IRS",
+      catSignedForm: "Fòm Siyen",
       optIdDoc: "ID / Idantifikasyon",
       optW2: "Fòmilè W-2",
       opt1099: "Fòmilè 1099",
@@ -556,6 +1472,10 @@ export default function Dashboard() {
     sent_to_irs: { label: t.statusSentToIRS, color: "bg-purple-500", progress: 75 },
     approved: { label: t.statusApproved, color: "bg-green-500", progress: 90 },
     refund_issued: { label: t.statusRefundIssued, color: "bg-emerald-500", progress: 100 },
+    awaiting_documents: { label: t.statusAwaitingDocuments, color: "bg-orange-500", progress: 30 },
+    rejected_by_irs: { label: t.statusRejectedByIRS, color: "bg-red-500", progress: 60 },
+    amended: { label: t.statusAmended, color: "bg-teal-500", progress: 80 },
+    closed: { label: t.statusClosed, color: "bg-gray-500", progress: 100 },
   };
 
   const categoryLabels: Record<string, string> = {
@@ -568,6 +1488,9 @@ export default function Dashboard() {
     social_security: t.catSSN,
     proof_of_address: t.catAddress,
     other: t.catOther,
+    tax_return: t.catTaxReturn,
+    irs_letter: t.catIrsLetter,
+    signed_form: t.catSignedForm,
   };
 
   const { data: cases, isLoading: casesLoading } = useQuery<TaxCase[]>({
@@ -575,18 +1498,96 @@ export default function Dashboard() {
     enabled: !!user,
   });
 
+  const { data: caseHistory, isLoading: historyLoading } = useQuery<CaseStatusHistory[]>({
+    queryKey: ["/api/cases", historyCaseId, "history"],
+    enabled: !!user && historyCaseId !== null,
+  });
+
+  // Lista de documentos requeridos de cada caso
+  const checklistQueries = useQueries({
+    queries: (cases ?? []).map((taxCase) => ({
+      queryKey: ["/api/cases", taxCase.id, "checklist"],
+      enabled: !!user,
+    })),
+  });
+  const checklists = new Map(
+    (cases ?? []).map((taxCase, index) => [taxCase.id, checklistQueries[index]?.data as DocumentChecklist | undefined])
+  );
+
+  const { data: savedDependents } = useQuery<PublicDependent[]>({
+    queryKey: ["/api/dependents"],
+    enabled: !!user,
+  });
+
+  const { data: documentRequests } = useQuery<DocumentRequest[]>({
+    queryKey: ["/api/document-requests"],
+    enabled: !!user,
+  });
+  const openRequests = (documentRequests ?? []).filter((request) => request.status === "open");
+
+  const { data: signatureRequests } = useQuery<SignatureRequest[]>({
+    queryKey: ["/api/signature-requests"],
+    enabled: !!user,
+  });
+  const pendingSignatures = (signatureRequests ?? []).filter((request) => request.status === "pending");
+
   const { data: documents, isLoading: documentsLoading } = useQuery<Document[]>({
     queryKey: ["/api/documents"],
     enabled: !!user,
   });
 
+  // Documentos compartidos por el preparador vs. subidos por el cliente
+  const preparerDocuments = (documents ?? []).filter((doc) => doc.isFromPreparer);
+  const clientDocuments = (documents ?? []).filter((doc) => !doc.isFromPreparer);
+
   const { data: appointments, isLoading: appointmentsLoading } = useQuery<Appointment[]>({
     queryKey: ["/api/appointments"],
     enabled: !!user,
   });
 
+  // Horarios del mes visible en el calendario (el servidor recorta los días pasados);
+  // al reprogramar se buscan horarios del tipo de la cita
+  const slotsType = reschedulingAppointment?.appointmentType ?? appointmentType;
+  const slotsFrom = format(startOfMonth(slotsMonth), "yyyy-MM-dd");
+  const slotsTo = format(endOfMonth(slotsMonth), "yyyy-MM-dd");
+  const { data: appointmentSlots, isLoading: slotsLoading } = useQuery<AppointmentSlots>({
+    queryKey: ["/api/appointments/slots", slotsType, slotsFrom, slotsTo],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/appointments/slots?type=${slotsType}&from=${slotsFrom}&to=${slotsTo}`);
+      return res.json();
+    },
+    enabled: !!user && isAppointmentOpen,
+    staleTime: 0,
+  });
+  const slotDates = new Set((appointmentSlots?.slots ?? []).map((slot) => slot.date));
+  const selectedDateSlots = selectedDate
+    ? (appointmentSlots?.slots ?? []).filter((slot) => slot.date === format(selectedDate, "yyyy-MM-dd"))
+    : [];
+  // Las horas se muestran en la zona horaria de la oficina
+  const formatSlotTime = (startsAt: string) =>
+    new Intl.DateTimeFormat(language, {
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone: appointmentSlots?.timeZone,
+    }).format(new Date(startsAt));
+
+  // 415: el contenido no coincide con el tipo; 422: retenido por la verificación de seguridad
+  const uploadErrorMessage = (status: number) =>
+    status === 415 ? t.uploadInvalidContent : status === 422 ? t.uploadQuarantined : t.uploadError;
+
   const uploadMutation = useMutation({
-    mutationFn: async ({ file, caseId, category, description }: { file: File; caseId?: number; category: string; description?: string }) => {
+    mutationFn: async ({ file, caseId, category, description, requestId }: { file: File; caseId?: number; category: string; description?: string; requestId?: number }) => {
+      // Los archivos grandes van directo a R2 sin pasar por el servidor
+      if (file.size > DIRECT_UPLOAD_THRESHOLD) {
+        const response = await uploadDirect(file, { caseId, category, description, requestId });
+        if (response) {
+          if (!response.ok) {
+            throw new Error(uploadErrorMessage(response.status));
+          }
+          return response.json();
+        }
+      }
+
       const formData = new FormData();
       formData.append("file", file);
       formData.append("category", category);
@@ -596,6 +1597,9 @@ export default function Dashboard() {
       if (description) {
         formData.append("description", description);
       }
+      if (requestId) {
+        formData.append("requestId", requestId.toString());
+      }
       
       const response = await fetch("/api/documents/upload", {
         method: "POST",
@@ -604,55 +1608,354 @@ export default function Dashboard() {
       });
       
       if (!response.ok) {
-        throw new Error("Error uploading file");
+        throw new Error(uploadErrorMessage(response.status));
       }
       
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/document-requests"] });
       setIsUploadOpen(false);
       setSelectedFile(null);
       setSelectedCaseId(null);
       setSelectedCategory("other");
       setDocumentDescription("");
+      setSelectedRequestId(null);
       toast({
         title: t.documentUploaded,
         description: t.documentUploadedDesc,
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const replaceMutation = useMutation({
+    mutationFn: async ({ documentId, file }: { documentId: number; file: File }) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch(`/api/documents/${documentId}`, {
+        method: "PUT",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(uploadErrorMessage(response.status));
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({
+        title: t.documentReplaced,
+        description: t.documentReplacedDesc,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const signMutation = useMutation({
+    mutationFn: async (requestId: number) => {
+      const formData = new FormData();
+      formData.append("signatureType", signatureType);
+      formData.append("consent", String(signatureConsent));
+      if (signatureType === "typed") {
+        formData.append("typedName", typedName.trim());
+      } else if (drawnSignature) {
+        formData.append("signature", drawnSignature, "signature.png");
+      }
+
+      const response = await fetch(`/api/signature-requests/${requestId}/sign`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error((response.status === 400 || response.status === 409) && error?.message ? error.message : t.signError);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/signature-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      closeSignDialog();
+      toast({
+        title: t.documentSigned,
+        description: t.documentSignedDesc,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeAppointmentDialog = () => {
+    setIsAppointmentOpen(false);
+    setReschedulingAppointment(null);
+    setSelectedDate(undefined);
+    setSelectedSlot(null);
+  };
+
+  const closeSignDialog = () => {
+    setSigningRequest(null);
+    setSignatureType("typed");
+    setTypedName("");
+    setDrawnSignature(null);
+    setSignatureConsent(false);
+  };
+
+  const canSubmitSignature =
+    signatureConsent && (signatureType === "typed" ? typedName.trim().length > 0 : drawnSignature !== null);
+
+  const deleteMutation = useMutation({
+    mutationFn: async (documentId: number) => {
+      const response = await fetch(`/api/documents/${documentId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(response.status === 409 && error?.message ? error.message : t.deleteError);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/document-requests"] });
+      toast({
+        title: t.documentDeleted,
+        description: t.documentDeletedDesc,
+      });
+    },
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: t.uploadError,
+        description: error.message,
         variant: "destructive",
       });
     },
   });
 
   const appointmentMutation = useMutation({
-    mutationFn: async (data: { appointmentDate: Date; notes: string }) => {
+    mutationFn: async (data: {
+      appointmentType: AppointmentType;
+      location: AppointmentLocation;
+      appointmentDate: string;
+      notes: string;
+    }) => {
       return apiRequest("POST", "/api/appointments", data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments/slots"] });
       setIsAppointmentOpen(false);
       setSelectedDate(undefined);
+      setSelectedSlot(null);
       setAppointmentNotes("");
       toast({
         title: t.appointmentScheduled,
         description: t.appointmentScheduledDesc,
       });
     },
+    onError: (error: Error) => {
+      // 409: otro cliente tomó el horario; se recargan los disponibles
+      const slotTaken = error.message.startsWith("409");
+      if (slotTaken) {
+        setSelectedSlot(null);
+        queryClient.invalidateQueries({ queryKey: ["/api/appointments/slots"] });
+      }
+      toast({
+        title: "Error",
+        description: slotTaken ? t.slotTaken : t.appointmentError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async (data: { id: number; appointmentDate: string }) => {
+      return apiRequest("POST", `/api/appointments/${data.id}/reschedule`, { appointmentDate: data.appointmentDate });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments/slots"] });
+      closeAppointmentDialog();
+      toast({
+        title: t.appointmentRescheduled,
+        description: t.appointmentRescheduledDesc,
+      });
+    },
+    onError: (error: Error) => {
+      const slotTaken = error.message.startsWith("409") && error.message.includes('"conflict":true');
+      if (slotTaken) {
+        setSelectedSlot(null);
+        queryClient.invalidateQueries({ queryKey: ["/api/appointments/slots"] });
+      }
+      toast({
+        title: "Error",
+        description: slotTaken ? t.slotTaken : t.appointmentChangeError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelAppointmentMutation = useMutation({
+    mutationFn: async (data: { id: number; reason: string }) => {
+      return apiRequest("POST", `/api/appointments/${data.id}/cancel`, { reason: data.reason || undefined });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments/slots"] });
+      setCancellingAppointment(null);
+      setCancelReason("");
+      toast({
+        title: t.appointmentCancelled,
+        description: t.appointmentCancelledDesc,
+      });
+    },
     onError: () => {
       toast({
         title: "Error",
-        description: t.appointmentError,
+        description: t.appointmentChangeError,
         variant: "destructive",
       });
     },
   });
 
+  const intakeMutation = useMutation({
+    mutationFn: async (data: { filingYear: string; intake: IntakeAnswers }) => {
+      return apiRequest("POST", "/api/cases", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dependents"] });
+      setIsIntakeOpen(false);
+      setIntakeStep(0);
+      setIntake(emptyIntake());
+      toast({
+        title: t.caseRequested,
+        description: t.caseRequestedDesc,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: t.caseRequestError,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const intakeStepLabels = [t.stepBasics, t.stepDependents, t.stepIncome, t.stepDeductions, t.stepLifeEvents];
+
+  const filingStatusOptions: { value: IntakeAnswers["filingStatus"]; label: string }[] = [
+    { value: "single", label: t.fsSingle },
+    { value: "married_filing_jointly", label: t.fsMarriedJoint },
+    { value: "married_filing_separately", label: t.fsMarriedSeparate },
+    { value: "head_of_household", label: t.fsHeadHousehold },
+    { value: "qualifying_widow", label: t.fsWidow },
+  ];
+
+  const relationshipOptions: { value: IntakeAnswers["dependents"][number]["relationship"]; label: string }[] = [
+    { value: "child", label: t.relChild },
+    { value: "stepchild", label: t.relStepchild },
+    { value: "foster_child", label: t.relFosterChild },
+    { value: "sibling", label: t.relSibling },
+    { value: "parent", label: t.relParent },
+    { value: "grandchild", label: t.relGrandchild },
+    { value: "other", label: t.relOther },
+  ];
+
+  const incomeSourceOptions: { value: IntakeAnswers["incomeSources"][number]; label: string }[] = [
+    { value: "w2", label: t.incW2 },
+    { value: "self_employment", label: t.incSelfEmployment },
+    { value: "gig_economy", label: t.incGig },
+    { value: "unemployment", label: t.incUnemployment },
+    { value: "social_security", label: t.incSocialSecurity },
+    { value: "retirement", label: t.incRetirement },
+    { value: "investments", label: t.incInvestments },
+    { value: "rental", label: t.incRental },
+    { value: "other", label: t.incOther },
+  ];
+
+  const deductionOptions: { value: IntakeAnswers["deductions"][number]; label: string }[] = [
+    { value: "mortgage_interest", label: t.dedMortgage },
+    { value: "property_tax", label: t.dedPropertyTax },
+    { value: "charitable", label: t.dedCharitable },
+    { value: "medical", label: t.dedMedical },
+    { value: "student_loan", label: t.dedStudentLoan },
+    { value: "education", label: t.dedEducation },
+    { value: "childcare", label: t.dedChildcare },
+    { value: "retirement_contributions", label: t.dedRetirement },
+    { value: "other", label: t.dedOther },
+  ];
+
+  const lifeEventOptions: { value: IntakeAnswers["lifeEvents"][number]; label: string }[] = [
+    { value: "marriage", label: t.evMarriage },
+    { value: "divorce", label: t.evDivorce },
+    { value: "new_child", label: t.evNewChild },
+    { value: "home_purchase", label: t.evHomePurchase },
+    { value: "job_change", label: t.evJobChange },
+    { value: "started_business", label: t.evStartedBusiness },
+    { value: "moved_states", label: t.evMovedStates },
+    { value: "retirement", label: t.evRetirement },
+  ];
+
+  /** Años que el cliente puede elegir: el actual y los tres anteriores */
+  const intakeYearOptions = Array.from({ length: 4 }, (_, i) => String(new Date().getFullYear() - i));
+
+  /** Marca o desmarca un valor en una de las listas de selección múltiple */
+  const toggleIntakeValue = <K extends "incomeSources" | "deductions" | "lifeEvents">(
+    key: K,
+    value: IntakeAnswers[K][number],
+    checked: boolean,
+  ) => {
+    setIntake((prev) => {
+      const current = prev[key] as IntakeAnswers[K][number][];
+      return {
+        ...prev,
+        [key]: checked ? [...current, value] : current.filter((v) => v !== value),
+      };
+    });
+  };
+
+  const updateDependent = (index: number, changes: Partial<IntakeAnswers["dependents"][number]>) => {
+    setIntake((prev) => ({
+      ...prev,
+      dependents: prev.dependents.map((d, i) => (i === index ? { ...d, ...changes } : d)),
+    }));
+  };
+
+  /** Todos los dependientes deben tener nombre y fecha antes de avanzar */
+  const isIntakeStepValid =
+    intakeStep !== 1 || intake.dependents.every((d) => d.name.trim() && d.dateOfBirth);
+
   const handleLogout = async () => {
     await logout();
     setLocation("/portal");
@@ -690,6 +1993,19 @@ export default function Dashboard() {
     cancelled: t.cancelled,
   };
 
+  const appointmentTypeLabels: Record<AppointmentType, string> = {
+    initial_consultation: t.typeInitialConsultation,
+    document_dropoff: t.typeDocumentDropoff,
+    return_review: t.typeReturnReview,
+    itin_interview: t.typeItinInterview,
+  };
+
+  const appointmentLocationLabels: Record<AppointmentLocation, string> = {
+    office: t.locationOffice,
+    phone: t.locationPhone,
+    video: t.locationVideo,
+  };
+
   return (
     <div className="min-h-screen bg-muted/30" data-testid="page-dashboard">
       <header className="sticky top-0 z-40 bg-background border-b">
@@ -795,6 +2111,277 @@ export default function Dashboard() {
                   <CardTitle>{t.myCases}</CardTitle>
                   <CardDescription>{t.casesDesc}</CardDescription>
                 </div>
+                <Dialog
+                  open={isIntakeOpen}
+                  onOpenChange={(open) => {
+                    setIsIntakeOpen(open);
+                    if (!open) setIntakeStep(0);
+                    // Precargar los dependientes declarados en años anteriores
+                    if (open && intake.dependents.length === 0 && savedDependents?.length) {
+                      setIntake({
+                        ...intake,
+                        dependents: savedDependents.map((d) => ({
+                          name: d.name,
+                          dateOfBirth: d.dateOfBirth,
+                          relationship: d.relationship,
+                        })),
+                      });
+                    }
+                  }}
+                >
+                  <DialogTrigger asChild>
+                    <Button size="sm" className="gap-2" data-testid="button-start-return">
+                      <ClipboardList className="h-4 w-4" />
+                      {t.startReturn}
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                      <DialogTitle>{t.intakeTitle}</DialogTitle>
+                      <DialogDescription>
+                        {t.step} {intakeStep + 1} {t.of} {INTAKE_STEPS}: {intakeStepLabels[intakeStep]}
+                      </DialogDescription>
+                    </DialogHeader>
+                    <Progress value={((intakeStep + 1) / INTAKE_STEPS) * 100} className="h-2" />
+                    <div className="space-y-4 pt-2">
+                      {intakeStep === 0 && (
+                        <>
+                          <p className="text-sm text-muted-foreground">{t.intakeDesc}</p>
+                          <div className="space-y-2">
+                            <Label>{t.taxYear}</Label>
+                            <select
+                              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                              value={intakeYear}
+                              onChange={(e) => setIntakeYear(e.target.value)}
+                              data-testid="select-intake-year"
+                            >
+                              {intakeYearOptions.map((year) => (
+                                <option key={year} value={year}>{year}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="space-y-2">
+                            <Label>{t.filingStatusLabel}</Label>
+                            <select
+                              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                              value={intake.filingStatus}
+                              onChange={(e) =>
+                                setIntake({ ...intake, filingStatus: e.target.value as IntakeAnswers["filingStatus"] })
+                              }
+                              data-testid="select-intake-filing-status"
+                            >
+                              {filingStatusOptions.map((opt) => (
+                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </>
+                      )}
+                      {intakeStep === 1 && (
+                        <div className="space-y-3">
+                          {intake.dependents.length === 0 && (
+                            <p className="text-sm text-muted-foreground">{t.noDependentsAdded}</p>
+                          )}
+                          {intake.dependents.map((dependent, index) => (
+                            <div
+                              key={index}
+                              className="p-3 rounded-lg border space-y-3"
+                              data-testid={`intake-dependent-${index}`}
+                            >
+                              <div className="space-y-2">
+                                <Label>{t.dependentName}</Label>
+                                <Input
+                                  value={dependent.name}
+                                  onChange={(e) => updateDependent(index, { name: e.target.value })}
+                                  data-testid={`input-dependent-name-${index}`}
+                                />
+                              </div>
+                              <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-2">
+                                  <Label>{t.dateOfBirth}</Label>
+                                  <Input
+                                    type="date"
+                                    value={dependent.dateOfBirth}
+                                    onChange={(e) => updateDependent(index, { dateOfBirth: e.target.value })}
+                                    data-testid={`input-dependent-dob-${index}`}
+                                  />
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>{t.relationship}</Label>
+                                  <select
+                                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                                    value={dependent.relationship}
+                                    onChange={(e) =>
+                                      updateDependent(index, {
+                                        relationship: e.target.value as IntakeAnswers["dependents"][number]["relationship"],
+                                      })
+                                    }
+                                    data-testid={`select-dependent-relationship-${index}`}
+                                  >
+                                    {relationshipOptions.map((opt) => (
+                                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                                    ))}
+                                  </select>
+                                </div>
+                              </div>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="gap-2"
+                                onClick={() =>
+                                  setIntake({ ...intake, dependents: intake.dependents.filter((_, i) => i !== index) })
+                                }
+                                data-testid={`button-remove-dependent-${index}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                                {t.remove}
+                              </Button>
+                            </div>
+                          ))}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() =>
+                              setIntake({
+                                ...intake,
+                                dependents: [...intake.dependents, { name: "", dateOfBirth: "", relationship: "child" }],
+                              })
+                            }
+                            data-testid="button-add-dependent"
+                          >
+                            <Plus className="h-4 w-4" />
+                            {t.addDependent}
+                          </Button>
+                        </div>
+                      )}
+                      {intakeStep === 2 && (
+                        <div className="space-y-3">
+                          <p className="text-sm text-muted-foreground">{t.selectAllThatApply}</p>
+                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {incomeSourceOptions.map((opt) => (
+                              <div key={opt.value} className="flex items-center gap-2">
+                                <Checkbox
+                                  id={`incomeSources-${opt.value}`}
+                                  checked={intake.incomeSources.includes(opt.value)}
+                                  onCheckedChange={(checked) => toggleIntakeValue("incomeSources", opt.value, checked === true)}
+                                  data-testid={`checkbox-incomeSources-${opt.value}`}
+                                />
+                                <Label htmlFor={`incomeSources-${opt.value}`} className="font-normal">
+                                  {opt.label}
+                                </Label>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      {intakeStep === 2 && intake.incomeSources.includes("w2") && (
+                        <div className="space-y-2">
+                          <Label>{t.w2EmployersLabel}</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={20}
+                            value={intake.w2Employers ?? 1}
+                            onChange={(e) =>
+                              setIntake({ ...intake, w2Employers: Math.min(20, Math.max(1, Number(e.target.value) || 1)) })
+                            }
+                            data-testid="input-intake-w2-employers"
+                          />
+                        </div>
+                      )}
+                      {intakeStep === 3 && (
+                        <div className="space-y-3">
+                          <p className="text-sm text-muted-foreground">{t.selectAllThatApply}</p>
+                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {deductionOptions.map((opt) => (
+                              <div key={opt.value} className="flex items-center gap-2">
+                                <Checkbox
+                                  id={`deductions-${opt.value}`}
+                                  checked={intake.deductions.includes(opt.value)}
+                                  onCheckedChange={(checked) => toggleIntakeValue("deductions", opt.value, checked === true)}
+                                  data-testid={`checkbox-deductions-${opt.value}`}
+                                />
+                                <Label htmlFor={`deductions-${opt.value}`} className="font-normal">
+                                  {opt.label}
+                                </Label>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      {intakeStep === 4 && (
+                        <>
+                          <div className="space-y-3">
+                            <p className="text-sm text-muted-foreground">{t.selectAllThatApply}</p>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                              {lifeEventOptions.map((opt) => (
+                                <div key={opt.value} className="flex items-center gap-2">
+                                  <Checkbox
+                                    id={`lifeEvents-${opt.value}`}
+                                    checked={intake.lifeEvents.includes(opt.value)}
+                                    onCheckedChange={(checked) => toggleIntakeValue("lifeEvents", opt.value, checked === true)}
+                                    data-testid={`checkbox-lifeEvents-${opt.value}`}
+                                  />
+                                  <Label htmlFor={`lifeEvents-${opt.value}`} className="font-normal">
+                                    {opt.label}
+                                  </Label>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                          <div className="space-y-2">
+                            <Label>{t.additionalNotes}</Label>
+                            <Textarea
+                              value={intake.notes ?? ""}
+                              onChange={(e) => setIntake({ ...intake, notes: e.target.value })}
+                              data-testid="input-intake-notes"
+                            />
+                          </div>
+                        </>
+                      )}
+                      <div className="flex justify-between gap-2 pt-2">
+                        <Button
+                          variant="outline"
+                          disabled={intakeStep === 0 || intakeMutation.isPending}
+                          onClick={() => setIntakeStep(intakeStep - 1)}
+                          data-testid="button-intake-back"
+                        >
+                          {t.back}
+                        </Button>
+                        {intakeStep < INTAKE_STEPS - 1 ? (
+                          <Button
+                            disabled={!isIntakeStepValid}
+                            onClick={() => setIntakeStep(intakeStep + 1)}
+                            data-testid="button-intake-next"
+                          >
+                            {t.next}
+                          </Button>
+                        ) : (
+                          <Button
+                            disabled={intakeMutation.isPending}
+                            onClick={() =>
+                              intakeMutation.mutate({
+                                filingYear: intakeYear,
+                                intake: { ...intake, notes: intake.notes?.trim() || undefined },
+                              })
+                            }
+                            data-testid="button-intake-submit"
+                          >
+                            {intakeMutation.isPending ? (
+                              <>
+                                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                                {t.submittingIntake}
+                              </>
+                            ) : (
+                              t.submitIntake
+                            )}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </DialogContent>
+                </Dialog>
               </CardHeader>
               <CardContent>
                 {casesLoading ? (
@@ -807,6 +2394,8 @@ export default function Dashboard() {
                   <div className="space-y-4">
                     {cases.map((taxCase) => {
                       const status = statusConfig[taxCase.status] || statusConfig.pending;
+                      const checklist = checklists.get(taxCase.id);
+                      const caseRequests = openRequests.filter((request) => request.caseId === taxCase.id);
                       return (
                         <div
                           key={taxCase.id}
@@ -834,6 +2423,91 @@ export default function Dashboard() {
                             </div>
                             <Progress value={status.progress} className="h-2" />
                           </div>
+                          {checklist && checklist.items.length > 0 && (
+                            <div className="mt-3 pt-3 border-t space-y-2" data-testid={`checklist-case-${taxCase.id}`}>
+                              <div className="flex items-center justify-between text-sm">
+                                <span className="text-muted-foreground">{t.documentChecklist}</span>
+                                <span className="font-medium">
+                                  {checklist.completed}/{checklist.total} {t.docsReceived}
+                                </span>
+                              </div>
+                              <Progress value={checklist.percent} className="h-2" />
+                              <ul className="space-y-1">
+                                {checklist.items.map((item) => (
+                                  <li key={item.category} className="flex items-center justify-between gap-2 text-sm">
+                                    <span className="flex items-center gap-2">
+                                      {item.satisfied ? (
+                                        <CheckCircle className="h-4 w-4 text-green-500" />
+                                      ) : (
+                                        <AlertCircle className="h-4 w-4 text-yellow-500" />
+                                      )}
+                                      {categoryLabels[item.category] || t.catOther}
+                                      <span className="text-muted-foreground">
+                                        ({Math.min(item.uploaded, item.required)}/{item.required})
+                                      </span>
+                                    </span>
+                                    {!item.satisfied && (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-7 gap-1 px-2"
+                                        onClick={() => {
+                                          setSelectedCaseId(taxCase.id);
+                                          setSelectedCategory(item.category);
+                                          setIsUploadOpen(true);
+                                        }}
+                                        data-testid={`button-upload-missing-${taxCase.id}-${item.category}`}
+                                      >
+                                        <Upload className="h-3 w-3" />
+                                        {t.uploadMissing}
+                                      </Button>
+                                    )}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                          {caseRequests.length > 0 && (
+                            <div className="mt-3 pt-3 border-t space-y-2" data-testid={`requests-case-${taxCase.id}`}>
+                              <span className="text-sm text-muted-foreground">{t.requestedByPreparer}</span>
+                              <ul className="space-y-2">
+                                {caseRequests.map((request) => {
+                                  const isOverdue = !!request.dueDate && new Date(request.dueDate) < new Date();
+                                  return (
+                                    <li key={request.id} className="flex items-center justify-between gap-2 text-sm">
+                                      <div className="min-w-0">
+                                        <p className="font-medium">{request.description}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                          {categoryLabels[request.category] || t.catOther}
+                                          {request.dueDate && (
+                                            <> • {t.dueBy} {format(new Date(request.dueDate), "d MMM yyyy", { locale: getDateLocale(language) })}</>
+                                          )}
+                                        </p>
+                                      </div>
+                                      <div className="flex items-center gap-2 shrink-0">
+                                        {isOverdue && <Badge variant="destructive">{t.overdue}</Badge>}
+                                        <Button
+                                          variant="outline"
+                                          size="sm"
+                                          className="h-7 gap-1 px-2"
+                                          onClick={() => {
+                                            setSelectedRequestId(request.id);
+                                            setSelectedCaseId(request.caseId);
+                                            setSelectedCategory(request.category);
+                                            setIsUploadOpen(true);
+                                          }}
+                                          data-testid={`button-fulfill-request-${request.id}`}
+                                        >
+                                          <Upload className="h-3 w-3" />
+                                          {t.uploadMissing}
+                                        </Button>
+                                      </div>
+                                    </li>
+                                  );
+                                })}
+                              </ul>
+                            </div>
+                          )}
                           {taxCase.finalAmount && (
                             <div className="mt-3 pt-3 border-t">
                               <p className="text-sm text-muted-foreground">
@@ -844,6 +2518,53 @@ export default function Dashboard() {
                               </p>
                             </div>
                           )}
+                          <div className="mt-3 pt-3 border-t">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="gap-2 px-2"
+                              onClick={() =>
+                                setHistoryCaseId(historyCaseId === taxCase.id ? null : taxCase.id)
+                              }
+                              data-testid={`button-case-history-${taxCase.id}`}
+                            >
+                              <History className="h-4 w-4" />
+                              {historyCaseId === taxCase.id ? t.hideHistory : t.viewHistory}
+                            </Button>
+                            {historyCaseId === taxCase.id && (
+                              historyLoading ? (
+                                <Skeleton className="h-16 w-full mt-2" />
+                              ) : (
+                                <ol className="mt-2 ml-2 border-l pl-4 space-y-3" data-testid={`timeline-case-${taxCase.id}`}>
+                                  <li className="relative">
+                                    <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-muted-foreground" />
+                                    <p className="text-sm font-medium">{t.caseOpened}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                      {format(new Date(taxCase.createdAt), "d MMM yyyy, HH:mm", { locale: getDateLocale(language) })}
+                                    </p>
+                                  </li>
+                                  {caseHistory?.map((entry) => (
+                                    <li key={entry.id} className="relative">
+                                      <span
+                                        className={`absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full ${
+                                          (statusConfig[entry.toStatus] || statusConfig.pending).color
+                                        }`}
+                                      />
+                                      <p className="text-sm font-medium">
+                                        {(statusConfig[entry.toStatus] || statusConfig.pending).label}
+                                      </p>
+                                      <p className="text-xs text-muted-foreground">
+                                        {format(new Date(entry.createdAt), "d MMM yyyy, HH:mm", { locale: getDateLocale(language) })}
+                                      </p>
+                                      {entry.notes && (
+                                        <p className="text-xs text-muted-foreground mt-1">{entry.notes}</p>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ol>
+                              )
+                            )}
+                          </div>
                         </div>
                       );
                     })}
@@ -860,13 +2581,208 @@ export default function Dashboard() {
               </CardContent>
             </Card>
 
+            {pendingSignatures.length > 0 && (
+              <Card data-testid="card-signature-requests">
+                <CardHeader>
+                  <CardTitle>{t.signaturesTitle}</CardTitle>
+                  <CardDescription>{t.signaturesDesc}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {pendingSignatures.map((request) => {
+                    const requestCase = cases?.find((c) => c.id === request.caseId);
+                    return (
+                      <div
+                        key={request.id}
+                        className="flex items-center justify-between gap-3 p-3 rounded-lg border"
+                        data-testid={`signature-request-${request.id}`}
+                      >
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-primary/10">
+                            <PenLine className="h-5 w-5 text-primary" />
+                          </div>
+                          <div className="min-w-0">
+                            <p className="font-medium text-sm truncate">{request.title}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {request.kind === "form_8879" ? t.kind8879 : t.kindEngagement}
+                              {requestCase && ` • ${t.declaration} ${requestCase.filingYear}`}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Button variant="ghost" size="sm" asChild data-testid={`button-review-signature-${request.id}`}>
+                            <a href={`/api/signature-requests/${request.id}/document`} target="_blank" rel="noopener noreferrer">
+                              {t.reviewDocument}
+                            </a>
+                          </Button>
+                          <Button
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => setSigningRequest(request)}
+                            data-testid={`button-sign-${request.id}`}
+                          >
+                            <PenLine className="h-4 w-4" />
+                            {t.signDocument}
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            <Dialog open={signingRequest !== null} onOpenChange={(open) => !open && closeSignDialog()}>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{signingRequest?.title}</DialogTitle>
+                  <DialogDescription>{t.signDialogDesc}</DialogDescription>
+                </DialogHeader>
+                {signingRequest && (
+                  <div className="space-y-4 pt-2">
+                    <Button variant="outline" className="w-full gap-2" asChild data-testid="button-open-signature-document">
+                      <a href={`/api/signature-requests/${signingRequest.id}/document`} target="_blank" rel="noopener noreferrer">
+                        <FileText className="h-4 w-4" />
+                        {t.openDocument}
+                      </a>
+                    </Button>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button
+                        type="button"
+                        variant={signatureType === "typed" ? "default" : "outline"}
+                        onClick={() => setSignatureType("typed")}
+                        data-testid="button-signature-typed"
+                      >
+                        {t.signatureTyped}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant={signatureType === "drawn" ? "default" : "outline"}
+                        onClick={() => setSignatureType("drawn")}
+                        data-testid="button-signature-drawn"
+                      >
+                        {t.signatureDrawn}
+                      </Button>
+                    </div>
+                    {signatureType === "typed" ? (
+                      <div className="space-y-2">
+                        <Label htmlFor="typed-signature">{t.typedNameLabel}</Label>
+                        <Input
+                          id="typed-signature"
+                          value={typedName}
+                          onChange={(e) => setTypedName(e.target.value)}
+                          maxLength={100}
+                          autoComplete="name"
+                          data-testid="input-typed-signature"
+                        />
+                        {typedName.trim() && (
+                          <p className="rounded-md border bg-white px-4 py-3 font-serif text-2xl italic text-gray-900">
+                            {typedName}
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label>{t.drawSignatureHint}</Label>
+                        <SignaturePad onChange={setDrawnSignature} clearLabel={t.clearSignature} />
+                      </div>
+                    )}
+                    <div className="flex items-start gap-2">
+                      <Checkbox
+                        id="signature-consent"
+                        checked={signatureConsent}
+                        onCheckedChange={(checked) => setSignatureConsent(checked === true)}
+                        data-testid="checkbox-signature-consent"
+                      />
+                      <Label htmlFor="signature-consent" className="text-sm font-normal leading-snug">
+                        {t.signatureConsent}
+                      </Label>
+                    </div>
+                    <Button
+                      className="w-full"
+                      disabled={!canSubmitSignature || signMutation.isPending}
+                      onClick={() => signMutation.mutate(signingRequest.id)}
+                      data-testid="button-submit-signature"
+                    >
+                      {signMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      ) : (
+                        <PenLine className="h-4 w-4 mr-2" />
+                      )}
+                      {t.submitSignature}
+                    </Button>
+                  </div>
+                )}
+              </DialogContent>
+            </Dialog>
+
+            {preparerDocuments.length > 0 && (
+              <Card data-testid="card-preparer-documents">
+                <CardHeader>
+                  <CardTitle>{t.fromYourPreparer}</CardTitle>
+                  <CardDescription>{t.fromYourPreparerDesc}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <DocumentPreviewGrid documents={preparerDocuments} />
+                  <div className="space-y-2">
+                    {preparerDocuments.map((doc) => {
+                      const docCase = cases?.find((c) => c.id === doc.caseId);
+                      return (
+                        <div
+                          key={doc.id}
+                          className="flex items-center justify-between p-3 rounded-lg border hover-elevate"
+                          data-testid={`preparer-document-item-${doc.id}`}
+                        >
+                          <div className="flex items-center gap-3">
+                            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+                              <FileText className="h-5 w-5 text-primary" />
+                            </div>
+                            <div>
+                              <div className="flex items-center gap-2 flex-wrap">
+                                <p className="font-medium text-sm">{doc.fileName}</p>
+                                <Badge variant="secondary" className="text-xs">
+                                  {categoryLabels[doc.category] || t.catOther}
+                                </Badge>
+                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                {format(new Date(doc.createdAt), "d MMM yyyy", { locale: getDateLocale(language) })}
+                                {docCase && ` • ${t.declaration} ${docCase.filingYear}`}
+                              </p>
+                              {doc.description && (
+                                <p className="text-xs text-muted-foreground mt-1">{doc.description}</p>
+                              )}
+                            </div>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            asChild
+                            data-testid={`button-download-preparer-${doc.id}`}
+                          >
+                            <a href={`/api/documents/${doc.id}/download`} download>
+                              <Download className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             <Card data-testid="card-documents">
               <CardHeader className="flex flex-row items-center justify-between gap-4">
                 <div>
                   <CardTitle>{t.myDocuments}</CardTitle>
                   <CardDescription>{t.documentsDesc}</CardDescription>
                 </div>
-                <Dialog open={isUploadOpen} onOpenChange={setIsUploadOpen}>
+                <Dialog
+                  open={isUploadOpen}
+                  onOpenChange={(open) => {
+                    setIsUploadOpen(open);
+                    if (!open) setSelectedRequestId(null);
+                  }}
+                >
                   <DialogTrigger asChild>
                     <Button size="sm" className="gap-2" data-testid="button-upload">
                       <Upload className="h-4 w-4" />
@@ -881,12 +2797,21 @@ export default function Dashboard() {
                       </DialogDescription>
                     </DialogHeader>
                     <div className="space-y-4 pt-4">
+                      {selectedRequestId !== null && (
+                        <p className="text-sm rounded-md bg-muted p-3" data-testid="text-fulfilling-request">
+                          {t.fulfillingRequest}:{" "}
+                          <span className="font-medium">
+                            {documentRequests?.find((request) => request.id === selectedRequestId)?.description}
+                          </span>
+                        </p>
+                      )}
                       <div className="space-y-2">
                         <Label>{t.documentType}</Label>
                         <select
                           className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
                           value={selectedCategory}
                           onChange={(e) => setSelectedCategory(e.target.value)}
+                          disabled={selectedRequestId !== null}
                           data-testid="select-category"
                         >
                           <option value="id_document">{t.optIdDoc}</option>
@@ -907,6 +2832,7 @@ export default function Dashboard() {
                             className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
                             value={selectedCaseId || ""}
                             onChange={(e) => setSelectedCaseId(e.target.value ? Number(e.target.value) : null)}
+                            disabled={selectedRequestId !== null}
                             data-testid="select-case"
                           >
                             <option value="">{t.noneGeneral}</option>
@@ -948,7 +2874,8 @@ export default function Dashboard() {
                               file: selectedFile, 
                               caseId: selectedCaseId || undefined, 
                               category: selectedCategory,
-                              description: documentDescription || undefined
+                              description: documentDescription || undefined,
+                              requestId: selectedRequestId || undefined
                             });
                           }
                         }}
@@ -974,9 +2901,10 @@ export default function Dashboard() {
                       <Skeleton key={i} className="h-14 w-full" />
                     ))}
                   </div>
-                ) : documents && documents.length > 0 ? (
+                ) : clientDocuments.length > 0 ? (
                   <div className="space-y-2">
-                    {documents.map((doc) => (
+                    <DocumentPreviewGrid documents={clientDocuments} />
+                    {clientDocuments.map((doc) => (
                       <div
                         key={doc.id}
                         className="flex items-center justify-between p-3 rounded-lg border hover-elevate"
@@ -992,23 +2920,80 @@ export default function Dashboard() {
                               <Badge variant="secondary" className="text-xs">
                                 {categoryLabels[doc.category] || t.catOther}
                               </Badge>
+                              {doc.currentVersion > 1 && (
+                                <Badge variant="outline" className="text-xs">v{doc.currentVersion}</Badge>
+                              )}
+                              {doc.reviewStatus === "accepted" && (
+                                <Badge variant="default" className="text-xs" data-testid={`badge-review-${doc.id}`}>
+                                  {t.documentAccepted}
+                                </Badge>
+                              )}
+                              {doc.reviewStatus === "rejected" && (
+                                <Badge variant="destructive" className="text-xs" data-testid={`badge-review-${doc.id}`}>
+                                  {t.documentRejected}
+                                </Badge>
+                              )}
                             </div>
                             <p className="text-xs text-muted-foreground">
                               {format(new Date(doc.createdAt), "d MMM yyyy", { locale: getDateLocale(language) })}
-                              {doc.isFromPreparer && ` • ${t.fromPreparer}`}
                             </p>
+                            {doc.reviewStatus === "rejected" && (
+                              <p className="text-xs text-destructive" data-testid={`text-rejection-reason-${doc.id}`}>
+                                {doc.rejectionReason} · {t.reuploadHint}
+                              </p>
+                            )}
                           </div>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          asChild
-                          data-testid={`button-download-${doc.id}`}
-                        >
-                          <a href={`/api/documents/${doc.id}/download`} download>
-                            <Download className="h-4 w-4" />
-                          </a>
-                        </Button>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            asChild
+                            disabled={replaceMutation.isPending}
+                            title={t.replaceDocument}
+                            data-testid={`button-replace-${doc.id}`}
+                          >
+                            <label className="cursor-pointer">
+                              <RefreshCw className="h-4 w-4" />
+                              <input
+                                type="file"
+                                className="hidden"
+                                accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
+                                onChange={(e) => {
+                                  const file = e.target.files?.[0];
+                                  if (file) replaceMutation.mutate({ documentId: doc.id, file });
+                                  e.target.value = "";
+                                }}
+                              />
+                            </label>
+                          </Button>
+                          {doc.reviewStatus === "received" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              disabled={deleteMutation.isPending}
+                              title={t.deleteDocument}
+                              onClick={() => {
+                                if (window.confirm(t.confirmDeleteDocument)) {
+                                  deleteMutation.mutate(doc.id);
+                                }
+                              }}
+                              data-testid={`button-delete-${doc.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            asChild
+                            data-testid={`button-download-${doc.id}`}
+                          >
+                            <a href={`/api/documents/${doc.id}/download`} download>
+                              <Download className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -1032,7 +3017,10 @@ export default function Dashboard() {
                   <CardTitle>{t.appointments}</CardTitle>
                   <CardDescription>{t.appointmentsDesc}</CardDescription>
                 </div>
-                <Dialog open={isAppointmentOpen} onOpenChange={setIsAppointmentOpen}>
+                <Dialog
+                  open={isAppointmentOpen}
+                  onOpenChange={(open) => (open ? setIsAppointmentOpen(true) : closeAppointmentDialog())}
+                >
                   <DialogTrigger asChild>
                     <Button size="sm" variant="outline" className="gap-2" data-testid="button-schedule">
                       <Plus className="h-4 w-4" />
@@ -1041,47 +3029,135 @@ export default function Dashboard() {
                   </DialogTrigger>
                   <DialogContent>
                     <DialogHeader>
-                      <DialogTitle>{t.scheduleAppointment}</DialogTitle>
+                      <DialogTitle>
+                        {reschedulingAppointment ? t.rescheduleAppointment : t.scheduleAppointment}
+                      </DialogTitle>
                       <DialogDescription>
-                        {t.selectDate}
+                        {reschedulingAppointment
+                          ? `${t.currentAppointment}: ${format(new Date(reschedulingAppointment.appointmentDate), "d MMM yyyy, HH:mm", { locale: getDateLocale(language) })}`
+                          : t.selectDate}
                       </DialogDescription>
                     </DialogHeader>
                     <div className="space-y-4 pt-4">
+                      {!reschedulingAppointment && (
+                        <div className="grid gap-4 sm:grid-cols-2">
+                          <div className="space-y-2">
+                            <Label>{t.appointmentType}</Label>
+                            <select
+                              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                              value={appointmentType}
+                              onChange={(e) => {
+                                const type = e.target.value as AppointmentType;
+                                const { locations } = APPOINTMENT_TYPE_CONFIG[type];
+                                setAppointmentType(type);
+                                if (!locations.includes(appointmentLocation)) setAppointmentLocation(locations[0]);
+                                setSelectedDate(undefined);
+                                setSelectedSlot(null);
+                              }}
+                              data-testid="select-appointment-type"
+                            >
+                              {APPOINTMENT_TYPES.map((type) => (
+                                <option key={type} value={type}>
+                                  {appointmentTypeLabels[type]} ({APPOINTMENT_TYPE_CONFIG[type].durationMinutes} min)
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="space-y-2">
+                            <Label>{t.appointmentLocation}</Label>
+                            <select
+                              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                              value={appointmentLocation}
+                              onChange={(e) => setAppointmentLocation(e.target.value as AppointmentLocation)}
+                              disabled={APPOINTMENT_TYPE_CONFIG[appointmentType].locations.length === 1}
+                              data-testid="select-appointment-location"
+                            >
+                              {APPOINTMENT_TYPE_CONFIG[appointmentType].locations.map((location) => (
+                                <option key={location} value={location}>
+                                  {appointmentLocationLabels[location]}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                      )}
                       <Calendar
                         mode="single"
                         selected={selectedDate}
-                        onSelect={setSelectedDate}
-                        disabled={(date) => date < new Date() || date.getDay() === 0}
+                        onSelect={(date) => {
+                          setSelectedDate(date);
+                          setSelectedSlot(null);
+                        }}
+                        month={slotsMonth}
+                        onMonthChange={setSlotsMonth}
+                        disabled={(date) => !slotDates.has(format(date, "yyyy-MM-dd"))}
                         className="rounded-md border mx-auto"
                         data-testid="calendar-appointment"
                       />
-                      <div className="space-y-2">
-                        <Label>{t.notes}</Label>
-                        <Textarea
-                          placeholder={t.notesPlaceholder}
-                          value={appointmentNotes}
-                          onChange={(e) => setAppointmentNotes(e.target.value)}
-                          data-testid="input-appointment-notes"
-                        />
-                      </div>
+                      {slotsLoading ? (
+                        <div className="flex justify-center py-2">
+                          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                        </div>
+                      ) : selectedDate && (
+                        <div className="space-y-2">
+                          <Label>{t.selectTime}</Label>
+                          {selectedDateSlots.length > 0 ? (
+                            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2" data-testid="list-appointment-slots">
+                              {selectedDateSlots.map((slot) => (
+                                <Button
+                                  key={slot.startsAt}
+                                  type="button"
+                                  size="sm"
+                                  variant={selectedSlot === slot.startsAt ? "default" : "outline"}
+                                  onClick={() => setSelectedSlot(slot.startsAt)}
+                                  data-testid={`button-slot-${slot.startsAt}`}
+                                >
+                                  {formatSlotTime(slot.startsAt)}
+                                </Button>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-sm text-muted-foreground">{t.noSlots}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">{t.slotsTimeZone}</p>
+                        </div>
+                      )}
+                      {!reschedulingAppointment && (
+                        <div className="space-y-2">
+                          <Label>{t.notes}</Label>
+                          <Textarea
+                            placeholder={t.notesPlaceholder}
+                            value={appointmentNotes}
+                            onChange={(e) => setAppointmentNotes(e.target.value)}
+                            data-testid="input-appointment-notes"
+                          />
+                        </div>
+                      )}
                       <Button
                         className="w-full"
-                        disabled={!selectedDate || appointmentMutation.isPending}
+                        disabled={!selectedSlot || appointmentMutation.isPending || rescheduleMutation.isPending}
                         onClick={() => {
-                          if (selectedDate) {
+                          if (!selectedSlot) return;
+                          if (reschedulingAppointment) {
+                            rescheduleMutation.mutate({ id: reschedulingAppointment.id, appointmentDate: selectedSlot });
+                          } else {
                             appointmentMutation.mutate({
-                              appointmentDate: selectedDate,
+                              appointmentType,
+                              location: appointmentLocation,
+                              appointmentDate: selectedSlot,
                               notes: appointmentNotes,
                             });
                           }
                         }}
                         data-testid="button-appointment-submit"
                       >
-                        {appointmentMutation.isPending ? (
+                        {appointmentMutation.isPending || rescheduleMutation.isPending ? (
                           <>
                             <Loader2 className="h-4 w-4 animate-spin mr-2" />
                             {t.scheduling}
                           </>
+                        ) : reschedulingAppointment ? (
+                          t.confirmReschedule
                         ) : (
                           t.confirmAppointment
                         )}
@@ -1109,7 +3185,7 @@ export default function Dashboard() {
                           <div className="flex items-center gap-2">
                             <CalendarDays className="h-4 w-4 text-muted-foreground" />
                             <span className="font-medium text-sm">
-                              {format(new Date(apt.appointmentDate), "d MMM yyyy", { locale: getDateLocale(language) })}
+                              {format(new Date(apt.appointmentDate), "d MMM yyyy, HH:mm", { locale: getDateLocale(language) })}
                             </span>
                           </div>
                           <Badge
@@ -1119,9 +3195,42 @@ export default function Dashboard() {
                             {appointmentStatusLabels[apt.status] || apt.status}
                           </Badge>
                         </div>
+                        <p className="text-xs text-muted-foreground">
+                          {appointmentTypeLabels[apt.appointmentType]} · {appointmentLocationLabels[apt.location]} · {apt.durationMinutes} min
+                        </p>
+                        {apt.status === "scheduled" && apt.confirmedAt && (
+                          <p className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400 mt-1">
+                            <CheckCircle className="h-3 w-3" />
+                            {t.appointmentConfirmed}
+                          </p>
+                        )}
                         {apt.notes && (
                           <p className="text-xs text-muted-foreground mt-1">{apt.notes}</p>
                         )}
+                        {canClientChangeAppointment(apt) && (
+                          <div className="flex justify-end gap-2 mt-2">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                setReschedulingAppointment(apt);
+                                setIsAppointmentOpen(true);
+                              }}
+                              data-testid={`button-reschedule-appointment-${apt.id}`}
+                            >
+                              {t.reschedule}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-destructive"
+                              onClick={() => setCancellingAppointment(apt)}
+                              data-testid={`button-cancel-appointment-${apt.id}`}
+                            >
+                              {t.cancelAppointment}
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -1134,6 +3243,50 @@ export default function Dashboard() {
                     </p>
                   </div>
                 )}
+                <Dialog
+                  open={cancellingAppointment !== null}
+                  onOpenChange={(open) => {
+                    if (!open) {
+                      setCancellingAppointment(null);
+                      setCancelReason("");
+                    }
+                  }}
+                >
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>{t.cancelAppointmentTitle}</DialogTitle>
+                      <DialogDescription>
+                        {cancellingAppointment &&
+                          format(new Date(cancellingAppointment.appointmentDate), "EEEE d MMM yyyy, HH:mm", { locale: getDateLocale(language) })}
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 pt-2">
+                      <div className="space-y-2">
+                        <Label>{t.cancelReason}</Label>
+                        <Textarea
+                          value={cancelReason}
+                          onChange={(e) => setCancelReason(e.target.value)}
+                          maxLength={500}
+                          data-testid="input-cancel-reason"
+                        />
+                      </div>
+                      <Button
+                        variant="destructive"
+                        className="w-full"
+                        disabled={cancelAppointmentMutation.isPending}
+                        onClick={() => {
+                          if (cancellingAppointment) {
+                            cancelAppointmentMutation.mutate({ id: cancellingAppointment.id, reason: cancelReason.trim() });
+                          }
+                        }}
+                        data-testid="button-confirm-cancel-appointment"
+                      >
+                        {cancelAppointmentMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                        {t.confirmCancelAppointment}
+                      </Button>
+                    </div>
+                  </DialogContent>
+                </Dialog>
               </CardContent>
             </Card>
 
@@ -76,7 +76,8 @@ async function buildAll() {
       "process.env.NODE_ENV": '"production"',
     },
     minify: false,
-    external: [],
+    // Dependencias con binarios nativos o workers propios que no pueden empaquetarse
+    external: ["sharp", "pdf-to-img", "pdfjs-dist", "tesseract.js"],
     logLevel: "info",
   });
 
@@ -18,23 +18,101 @@ EXCEPTION
 END $$;
 
 DO $$ BEGIN
-  CREATE TYPE case_status AS ENUM ('pending', 'in_process', 'sent_to_irs', 'approved', 'refund_issued');
+  CREATE TYPE case_status AS ENUM ('pending', 'in_process', 'sent_to_irs', 'approved', 'refund_issued', 'awaiting_documents', 'rejected_by_irs', 'amended', 'closed');
 EXCEPTION
   WHEN duplicate_object THEN null;
 END $$;
 
+-- Estados agregados después de la versión inicial (para bases de datos existentes)
+ALTER TYPE case_status ADD VALUE IF NOT EXISTS 'awaiting_documents';
+ALTER TYPE case_status ADD VALUE IF NOT EXISTS 'rejected_by_irs';
+ALTER TYPE case_status ADD VALUE IF NOT EXISTS 'amended';
+ALTER TYPE case_status ADD VALUE IF NOT EXISTS 'closed';
+
 DO $$ BEGIN
   CREATE TYPE appointment_status AS ENUM ('scheduled', 'completed', 'cancelled');
 EXCEPTION
   WHEN duplicate_object THEN null;
 END $$;
 
+DO $$ BEGIN
+  CREATE TYPE appointment_type AS ENUM ('initial_consultation', 'document_dropoff', 'return_review', 'itin_interview');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE appointment_location AS ENUM ('office', 'phone', 'video');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE appointment_reminder_kind AS ENUM ('day_before', 'hour_before');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
 DO $$ BEGIN
   CREATE TYPE filing_status AS ENUM ('single', 'married_filing_jointly', 'married_filing_separately', 'head_of_household', 'qualifying_widow');
 EXCEPTION
   WHEN duplicate_object THEN null;
 END $$;
 
+DO $$ BEGIN
+  CREATE TYPE case_type AS ENUM ('individual', 'business', 'itin', 'amendment', 'planning', 'bookkeeping', 'payroll');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE dependent_relationship AS ENUM ('child', 'stepchild', 'foster_child', 'sibling', 'parent', 'grandchild', 'other');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE document_request_status AS ENUM ('open', 'fulfilled', 'waived');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE signature_request_kind AS ENUM ('form_8879', 'engagement_letter');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE signature_request_status AS ENUM ('pending', 'signed', 'cancelled');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE signature_type AS ENUM ('typed', 'drawn');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE document_review_status AS ENUM ('received', 'accepted', 'rejected');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE document_extraction_status AS ENUM ('pending', 'processing', 'extracted', 'failed', 'reviewed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE upload_quarantine_reason AS ENUM ('virus_detected', 'active_content', 'scan_failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
 DO $$ BEGIN
   CREATE TYPE auth_provider AS ENUM ('local', 'google', 'github', 'apple', 'replit');
 EXCEPTION
@@ -42,11 +120,16 @@ EXCEPTION
 END $$;
 
 DO $$ BEGIN
-  CREATE TYPE document_category AS ENUM ('id_document', 'w2', 'form_1099', 'bank_statement', 'receipt', 'previous_return', 'social_security', 'proof_of_address', 'other');
+  CREATE TYPE document_category AS ENUM ('id_document', 'w2', 'form_1099', 'bank_statement', 'receipt', 'previous_return', 'social_security', 'proof_of_address', 'other', 'tax_return', 'irs_letter', 'signed_form');
 EXCEPTION
   WHEN duplicate_object THEN null;
 END $$;
 
+-- Categorías agregadas después de la versión inicial (para bases de datos existentes)
+ALTER TYPE document_category ADD VALUE IF NOT EXISTS 'tax_return';
+ALTER TYPE document_category ADD VALUE IF NOT EXISTS 'irs_letter';
+ALTER TYPE document_category ADD VALUE IF NOT EXISTS 'signed_form';
+
 -- Tabla de sesiones
 CREATE TABLE IF NOT EXISTS sessions (
   sid VARCHAR NOT NULL PRIMARY KEY,
@@ -104,6 +187,10 @@ CREATE TABLE IF NOT EXISTS auth_identities (
 CREATE TABLE IF NOT EXISTS tax_cases (
   id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
   client_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  assigned_preparer_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  case_type case_type NOT NULL DEFAULT 'individual',
+  details JSONB,
+  intake JSONB,
   filing_year INTEGER NOT NULL,
   filing_status filing_status,
   dependents INTEGER DEFAULT 0,
@@ -114,6 +201,52 @@ CREATE TABLE IF NOT EXISTS tax_cases (
   updated_at TIMESTAMP DEFAULT NOW() NOT NULL
 );
 
+-- Columnas agregadas después de la versión inicial (para bases de datos existentes)
+ALTER TABLE tax_cases ADD COLUMN IF NOT EXISTS assigned_preparer_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE tax_cases ADD COLUMN IF NOT EXISTS case_type case_type NOT NULL DEFAULT 'individual';
+ALTER TABLE tax_cases ADD COLUMN IF NOT EXISTS details JSONB;
+ALTER TABLE tax_cases ADD COLUMN IF NOT EXISTS intake JSONB;
+
+CREATE INDEX IF NOT EXISTS IDX_tax_cases_assigned_preparer ON tax_cases(assigned_preparer_id);
+
+-- Tabla de historial de estados de casos
+CREATE TABLE IF NOT EXISTS case_status_history (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  case_id INTEGER NOT NULL REFERENCES tax_cases(id) ON DELETE CASCADE,
+  from_status case_status NOT NULL,
+  to_status case_status NOT NULL,
+  changed_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS IDX_case_status_history_case ON case_status_history(case_id);
+
+-- Tabla de dependientes
+CREATE TABLE IF NOT EXISTS dependents (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  client_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  date_of_birth DATE NOT NULL,
+  relationship dependent_relationship NOT NULL,
+  ssn_encrypted TEXT,
+  ssn_last4 VARCHAR(4),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS IDX_dependents_client ON dependents(client_id);
+
+-- Tabla de dependientes declarados en cada caso
+CREATE TABLE IF NOT EXISTS case_dependents (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  case_id INTEGER NOT NULL REFERENCES tax_cases(id) ON DELETE CASCADE,
+  dependent_id INTEGER NOT NULL REFERENCES dependents(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS UQ_case_dependents_case_dependent ON case_dependents(case_id, dependent_id);
+
 -- Tabla de documentos
 CREATE TABLE IF NOT EXISTS documents (
   id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
@@ -123,23 +256,238 @@ CREATE TABLE IF NOT EXISTS documents (
   file_path TEXT NOT NULL,
   file_type VARCHAR(100) NOT NULL,
   file_size INTEGER,
+  preview_path TEXT,
+  encryption_key TEXT,
   category document_category NOT NULL DEFAULT 'other',
   description TEXT,
   uploaded_by_id INTEGER NOT NULL REFERENCES users(id),
   is_from_preparer BOOLEAN DEFAULT false,
+  current_version INTEGER NOT NULL DEFAULT 1,
+  review_status document_review_status NOT NULL DEFAULT 'received',
+  rejection_reason TEXT,
+  reviewed_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP,
+  deleted_at TIMESTAMP,
+  deleted_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Columnas agregadas después de la versión inicial (para bases de datos existentes)
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS deleted_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS review_status document_review_status NOT NULL DEFAULT 'received';
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS reviewed_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS preview_path TEXT;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS encryption_key TEXT;
+
+CREATE INDEX IF NOT EXISTS IDX_documents_deleted_at ON documents(deleted_at);
+
+-- Tabla de versiones de documentos
+CREATE TABLE IF NOT EXISTS document_versions (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  document_id INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  file_name VARCHAR(255) NOT NULL,
+  file_path TEXT NOT NULL,
+  file_type VARCHAR(100) NOT NULL,
+  file_size INTEGER,
+  preview_path TEXT,
+  encryption_key TEXT,
+  uploaded_by_id INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE document_versions ADD COLUMN IF NOT EXISTS preview_path TEXT;
+ALTER TABLE document_versions ADD COLUMN IF NOT EXISTS encryption_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS UQ_document_versions_document_version ON document_versions(document_id, version);
+
+-- Versión 1 de los documentos subidos antes del versionado
+INSERT INTO document_versions (document_id, version, file_name, file_path, file_type, file_size, uploaded_by_id, created_at)
+SELECT d.id, d.current_version, d.file_name, d.file_path, d.file_type, d.file_size, d.uploaded_by_id, d.created_at
+FROM documents d
+WHERE NOT EXISTS (SELECT 1 FROM document_versions v WHERE v.document_id = d.id);
+
+-- Tabla de extracciones OCR (W-2 y 1099)
+CREATE TABLE IF NOT EXISTS document_extractions (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  document_id INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  form_type document_category NOT NULL,
+  status document_extraction_status NOT NULL DEFAULT 'pending',
+  fields JSONB NOT NULL DEFAULT '{}',
+  confidence INTEGER,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  reviewed_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS UQ_document_extractions_document ON document_extractions(document_id);
+CREATE INDEX IF NOT EXISTS IDX_document_extractions_status ON document_extractions(status);
+
+-- Tabla de claves de cifrado de clientes (envueltas con la clave maestra)
+CREATE TABLE IF NOT EXISTS client_encryption_keys (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  client_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  master_key_id VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  rotated_at TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS UQ_client_encryption_keys_client ON client_encryption_keys(client_id);
+CREATE INDEX IF NOT EXISTS IDX_client_encryption_keys_master ON client_encryption_keys(master_key_id);
+
+-- Tabla de subidas en cuarentena
+CREATE TABLE IF NOT EXISTS quarantined_uploads (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  client_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  uploaded_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  file_name TEXT NOT NULL,
+  file_path TEXT,
+  file_size INTEGER NOT NULL,
+  declared_type TEXT NOT NULL,
+  detected_type TEXT,
+  reason upload_quarantine_reason NOT NULL,
+  details TEXT,
   created_at TIMESTAMP DEFAULT NOW() NOT NULL
 );
 
+CREATE INDEX IF NOT EXISTS IDX_quarantined_uploads_created ON quarantined_uploads(created_at);
+
+-- Tabla de solicitudes de documentos
+CREATE TABLE IF NOT EXISTS document_requests (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  case_id INTEGER NOT NULL REFERENCES tax_cases(id) ON DELETE CASCADE,
+  client_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  category document_category NOT NULL DEFAULT 'other',
+  description TEXT NOT NULL,
+  due_date TIMESTAMP,
+  status document_request_status NOT NULL DEFAULT 'open',
+  requested_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  fulfilled_document_id INTEGER REFERENCES documents(id) ON DELETE SET NULL,
+  fulfilled_at TIMESTAMP,
+  last_reminder_at TIMESTAMP,
+  reminder_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS IDX_document_requests_case ON document_requests(case_id);
+CREATE INDEX IF NOT EXISTS IDX_document_requests_status_due ON document_requests(status, due_date);
+
+-- Tabla de solicitudes de firma electrónica
+CREATE TABLE IF NOT EXISTS signature_requests (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  case_id INTEGER NOT NULL REFERENCES tax_cases(id) ON DELETE CASCADE,
+  client_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind signature_request_kind NOT NULL,
+  title TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  encryption_key TEXT,
+  document_hash VARCHAR(64) NOT NULL,
+  status signature_request_status NOT NULL DEFAULT 'pending',
+  requested_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  signed_document_id INTEGER REFERENCES documents(id) ON DELETE SET NULL,
+  signature_type signature_type,
+  signer_name TEXT,
+  signer_ip VARCHAR(64),
+  signer_user_agent TEXT,
+  signed_at TIMESTAMP,
+  signed_hash VARCHAR(64),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS IDX_signature_requests_case ON signature_requests(case_id);
+CREATE INDEX IF NOT EXISTS IDX_signature_requests_client_status ON signature_requests(client_id, status);
+
+-- Tabla de subidas directas a R2 pendientes de completar
+CREATE TABLE IF NOT EXISTS pending_uploads (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  case_id INTEGER REFERENCES tax_cases(id) ON DELETE CASCADE,
+  document_request_id INTEGER REFERENCES document_requests(id) ON DELETE SET NULL,
+  category document_category NOT NULL,
+  description TEXT,
+  file_name TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  file_path TEXT NOT NULL,
+  multipart_upload_id TEXT,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS IDX_pending_uploads_expires ON pending_uploads(expires_at);
+
 -- Tabla de citas
 CREATE TABLE IF NOT EXISTS appointments (
   id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
   client_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  preparer_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  appointment_type appointment_type NOT NULL DEFAULT 'initial_consultation',
+  location appointment_location NOT NULL DEFAULT 'office',
   appointment_date TIMESTAMP NOT NULL,
+  duration_minutes INTEGER NOT NULL DEFAULT 30,
+  buffer_minutes INTEGER NOT NULL DEFAULT 0,
   status appointment_status NOT NULL DEFAULT 'scheduled',
   notes TEXT,
+  confirmed_at TIMESTAMP,
   created_at TIMESTAMP DEFAULT NOW() NOT NULL
 );
 
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS preparer_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS duration_minutes INTEGER NOT NULL DEFAULT 30;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS appointment_type appointment_type NOT NULL DEFAULT 'initial_consultation';
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS location appointment_location NOT NULL DEFAULT 'office';
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS buffer_minutes INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS IDX_appointments_preparer_date ON appointments(preparer_id, appointment_date);
+
+-- Tabla de recordatorios de citas enviados
+CREATE TABLE IF NOT EXISTS appointment_reminders (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  appointment_id INTEGER NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  kind appointment_reminder_kind NOT NULL,
+  appointment_date TIMESTAMP NOT NULL,
+  sent_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS UQ_appointment_reminders_appointment_kind_date ON appointment_reminders(appointment_id, kind, appointment_date);
+
+-- Tabla del horario semanal de los preparadores
+CREATE TABLE IF NOT EXISTS preparer_availability (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  preparer_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  weekday INTEGER NOT NULL,
+  start_minute INTEGER NOT NULL,
+  end_minute INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS IDX_preparer_availability_preparer ON preparer_availability(preparer_id, weekday);
+
+-- Tabla de feriados y horas bloqueadas
+CREATE TABLE IF NOT EXISTS availability_blocks (
+  id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  preparer_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP NOT NULL,
+  ends_at TIMESTAMP NOT NULL,
+  reason TEXT,
+  created_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS IDX_availability_blocks_range ON availability_blocks(starts_at, ends_at);
+
 -- Tabla de mensajes
 CREATE TABLE IF NOT EXISTS messages (
   id INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
@@ -0,0 +1,64 @@
+/**
+ * Script para rotar la clave maestra del cifrado de documentos
+ *
+ * Vuelve a envolver con la clave maestra vigente (la primera de
+ * DOCUMENT_MASTER_KEYS) todas las claves de cliente envueltas con una
+ * anterior. Los archivos no se modifican: sus claves de datos están
+ * envueltas con la clave del cliente, que no cambia.
+ *
+ * Pasos:
+ *   1. Generar la nueva clave: openssl rand -hex 32
+ *   2. Ponerla primera en DOCUMENT_MASTER_KEYS, sin quitar las anteriores:
+ *      DOCUMENT_MASTER_KEYS="2026-10:<nueva>,2025-01:<anterior>"
+ *   3. Desplegar y ejecutar este script
+ *   4. Si termina sin fallos, quitar las claves anteriores y volver a desplegar
+ *
+ * Uso:
+ *   tsx script/rotate-document-master-key.ts
+ *
+ * Requiere:
+ *   - DATABASE_URL en las variables de entorno
+ *   - DOCUMENT_MASTER_KEYS con la clave nueva y las anteriores
+ *
+ * Puede ejecutarse varias veces: solo procesa las claves pendientes.
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Cargar variables de entorno antes de importar la conexión a la base de datos
+config({ path: resolve(process.cwd(), '.env') });
+
+async function rotateDocumentMasterKey() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ Error: DATABASE_URL no está configurada en las variables de entorno');
+    process.exit(1);
+  }
+  if (!process.env.DOCUMENT_MASTER_KEYS) {
+    console.error('❌ Error: DOCUMENT_MASTER_KEYS no está configurada en las variables de entorno');
+    process.exit(1);
+  }
+
+  const { getCurrentMasterKeyId, rotateClientKeys } = await import('../server/document-encryption');
+  const { pool } = await import('../server/db');
+
+  try {
+    console.log(`🔑 Rotando claves de cliente a la clave maestra "${getCurrentMasterKeyId()}"...`);
+    const { rotated, failed } = await rotateClientKeys();
+
+    console.log(`✅ ${rotated} clave(s) de cliente rotadas`);
+    if (failed > 0) {
+      console.error(`❌ ${failed} clave(s) no pudieron rotarse. No quites las claves maestras anteriores.`);
+      process.exitCode = 1;
+    } else {
+      console.log('   Ya puedes quitar las claves maestras anteriores de DOCUMENT_MASTER_KEYS.');
+    }
+  } catch (error) {
+    console.error('❌ Error rotando la clave maestra:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+rotateDocumentMasterKey();
@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Recordatorios Automáticos de Citas
+ *
+ * Este módulo envía por email dos recordatorios de cada cita agendada:
+ * uno 24 horas antes y otro 1 hora antes. Los recordatorios incluyen
+ * enlaces de un clic para confirmar la asistencia o cancelar la cita,
+ * firmados para que funcionen sin iniciar sesión.
+ *
+ * @module server/appointment-reminders
+ * @version 1.0.0
+ *
+ * ## Cuándo se envía cada recordatorio
+ * - day_before: la cita empieza en menos de 24 horas (y más de 1) y se
+ *   agendó con más de 24 horas de anticipación
+ * - hour_before: la cita empieza en menos de 1 hora y se agendó con más
+ *   de 1 hora de anticipación
+ *
+ * Cada envío se reserva antes en appointment_reminders para el horario
+ * de la cita, así que ningún recordatorio se envía dos veces aunque el
+ * job corra a la vez en el servidor y en el cron. Si el email falla, la
+ * reserva se libera y se reintenta en la siguiente ejecución.
+ *
+ * ## Enlaces de confirmación y cancelación
+ * Los tokens son JWT firmados con una clave derivada de SESSION_SECRET
+ * (distinta de la de las sesiones) e incluyen el horario de la cita: al
+ * reprogramarla, los enlaces anteriores dejan de valer. Vencen al
+ * empezar la cita. El enlace de cancelación solo se incluye mientras el
+ * cliente puede cancelar (ver shared/appointment-rules.ts).
+ *
+ * ## Ejecución
+ * Lo programa el ejecutor de jobs (server/jobs.ts) cada 5 minutos, en el
+ * servidor de larga duración o desde el cron de Vercel.
+ *
+ * @example
+ * import { runAppointmentReminders, verifyAppointmentActionToken } from './appointment-reminders';
+ *
+ * const sent = await runAppointmentReminders();
+ * const action = verifyAppointmentActionToken(token); // { appointmentId, action, appointmentDate } | null
+ */
+
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { storage } from "./storage";
+import { sendAppointmentReminder } from "./email";
+import { OFFICE_TIME_ZONE } from "./appointment-slots";
+import { canClientChangeAppointment } from "../shared/appointment-rules";
+import type { Appointment } from "../shared/schema";
+
+/** Anticipación del primer recordatorio (24 horas) */
+const DAY_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+/** Anticipación del segundo recordatorio (1 hora) */
+const HOUR_BEFORE_MS = 60 * 60 * 1000;
+
+/** Audiencia de los tokens de acción (no sirven como token de sesión) */
+const ACTION_TOKEN_AUDIENCE = "appointment-action";
+
+/** Acción de un enlace de recordatorio */
+export type AppointmentAction = "confirm" | "cancel";
+
+/**
+ * Contenido verificado de un token de acción
+ *
+ * @property appointmentId - ID de la cita
+ * @property action - Confirmar o cancelar
+ * @property appointmentDate - Horario de la cita al emitir el token
+ */
+export interface AppointmentActionToken {
+  appointmentId: number;
+  action: AppointmentAction;
+  appointmentDate: Date;
+}
+
+// =============================================================================
+// TOKENS DE ACCIÓN
+// =============================================================================
+
+/** Clave de firma de los tokens, derivada de SESSION_SECRET */
+function actionTokenKey(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("SESSION_SECRET debe estar configurada para firmar enlaces de citas");
+  }
+  return crypto.createHmac("sha256", secret).update("appointment-actions").digest("hex");
+}
+
+/**
+ * Crea el token de un enlace de confirmación o cancelación
+ *
+ * @param appointment - Cita
+ * @param action - Acción del enlace
+ * @param now - Momento de referencia (por defecto, ahora)
+ * @returns Token firmado que vence al empezar la cita
+ */
+export function createAppointmentActionToken(
+  appointment: Appointment,
+  action: AppointmentAction,
+  now: Date = new Date()
+): string {
+  const expiresIn = Math.max(60, Math.floor((appointment.appointmentDate.getTime() - now.getTime()) / 1000));
+  return jwt.sign(
+    { appointmentId: appointment.id, action, appointmentDate: appointment.appointmentDate.toISOString() },
+    actionTokenKey(),
+    { audience: ACTION_TOKEN_AUDIENCE, expiresIn }
+  );
+}
+
+/**
+ * Verifica un token de confirmación o cancelación
+ *
+ * @param token - Token del enlace
+ * @returns Contenido del token, o null si es inválido o venció
+ */
+export function verifyAppointmentActionToken(token: string): AppointmentActionToken | null {
+  try {
+    const decoded = jwt.verify(token, actionTokenKey(), { audience: ACTION_TOKEN_AUDIENCE }) as {
+      appointmentId?: unknown;
+      action?: unknown;
+      appointmentDate?: unknown;
+    };
+    if (
+      typeof decoded.appointmentId !== "number" ||
+      (decoded.action !== "confirm" && decoded.action !== "cancel") ||
+      typeof decoded.appointmentDate !== "string"
+    ) {
+      return null;
+    }
+    return {
+      appointmentId: decoded.appointmentId,
+      action: decoded.action,
+      appointmentDate: new Date(decoded.appointmentDate),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** URL pública de la aplicación para los enlaces de los emails */
+function appBaseUrl(): string {
+  if (process.env.VITE_APP_URL) return process.env.VITE_APP_URL;
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  return "https://highlighttax.com";
+}
+
+/**
+ * Enlace a la página de confirmación o cancelación de una cita
+ *
+ * @param appointment - Cita
+ * @param action - Acción del enlace
+ */
+function appointmentActionUrl(appointment: Appointment, action: AppointmentAction): string {
+  return `${appBaseUrl()}/appointment-action?token=${encodeURIComponent(createAppointmentActionToken(appointment, action))}`;
+}
+
+// =============================================================================
+// JOB DE RECORDATORIOS
+// =============================================================================
+
+/**
+ * Recordatorio que corresponde enviar ahora para una cita
+ *
+ * @param appointment - Cita agendada
+ * @param now - Momento de referencia
+ * @returns Recordatorio a enviar, o null si todavía no corresponde ninguno
+ */
+function dueReminder(appointment: Appointment, now: Date): "day_before" | "hour_before" | null {
+  const startsIn = appointment.appointmentDate.getTime() - now.getTime();
+  // Anticipación con que se agendó: si la cita se tomó dentro de la
+  // ventana de un recordatorio, el email de confirmación lo reemplaza
+  const bookedAhead = appointment.appointmentDate.getTime() - appointment.createdAt.getTime();
+  if (startsIn <= 0) return null;
+  if (startsIn <= HOUR_BEFORE_MS) {
+    return bookedAhead > HOUR_BEFORE_MS ? "hour_before" : null;
+  }
+  if (startsIn <= DAY_BEFORE_MS && bookedAhead > DAY_BEFORE_MS) {
+    return "day_before";
+  }
+  return null;
+}
+
+/**
+ * Envía los recordatorios de las citas de las próximas 24 horas
+ *
+ * Un fallo con una cita no detiene el resto; se registra y se reintenta
+ * en la siguiente ejecución.
+ *
+ * @param now - Momento de referencia (por defecto, ahora)
+ * @returns Cantidad de recordatorios enviados
+ */
+export async function runAppointmentReminders(now: Date = new Date()): Promise<number> {
+  const upcoming = await storage.getActiveAppointmentsBetween(now, new Date(now.getTime() + DAY_BEFORE_MS));
+
+  let sent = 0;
+  for (const appointment of upcoming) {
+    if (appointment.status !== "scheduled") continue;
+    const kind = dueReminder(appointment, now);
+    if (!kind) continue;
+
+    try {
+      const client = await storage.getUser(appointment.clientId);
+      if (!client) continue;
+
+      if (!(await storage.claimAppointmentReminder(appointment.id, kind, appointment.appointmentDate))) {
+        continue;
+      }
+
+      const delivered = await sendAppointmentReminder({
+        clientName: client.name,
+        clientEmail: client.email,
+        kind,
+        appointmentDate: appointment.appointmentDate,
+        appointmentType: appointment.appointmentType,
+        location: appointment.location,
+        durationMinutes: appointment.durationMinutes,
+        timeZone: OFFICE_TIME_ZONE,
+        confirmed: !!appointment.confirmedAt,
+        confirmUrl: appointmentActionUrl(appointment, "confirm"),
+        cancelUrl: canClientChangeAppointment(appointment, now) ? appointmentActionUrl(appointment, "cancel") : undefined,
+      });
+      if (!delivered) {
+        await storage.releaseAppointmentReminder(appointment.id, kind, appointment.appointmentDate);
+        continue;
+      }
+      sent++;
+    } catch (error) {
+      console.error(`[Reminders] Error enviando recordatorio de la cita ${appointment.id}:`, error);
+    }
+  }
+
+  if (sent > 0) {
+    console.log(`[Reminders] ${sent} recordatorio(s) de citas enviados`);
+  }
+  return sent;
+}
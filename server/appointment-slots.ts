@@ -0,0 +1,307 @@
+/**
+ * @fileoverview Horarios Disponibles para Citas
+ *
+ * Calcula los horarios en que un cliente puede agendar una cita. Un
+ * horario está disponible si al menos un preparador lo tiene libre:
+ *
+ * 1. Está dentro del horario de atención de la oficina (OFFICE_HOURS,
+ *    el mismo que se publica en la página "Nosotros")
+ * 2. Está dentro del horario semanal del preparador (preparer_availability)
+ * 3. No cae en un bloqueo de la oficina o del preparador (availability_blocks)
+ * 4. No se superpone con otra cita del preparador, contando el margen
+ *    posterior de cada cita (ver shared/appointment-types.ts)
+ *
+ * Cada tipo de cita tiene su duración, así que los horarios se calculan
+ * para un tipo: una cita de 60 minutos necesita más hueco que una
+ * entrega de documentos de 15.
+ *
+ * @module server/appointment-slots
+ * @version 1.0.0
+ *
+ * Todas las horas de agenda son de la zona horaria de la oficina
+ * (OFFICE_TIME_ZONE); las fechas 'YYYY-MM-DD' que reciben y devuelven
+ * estas funciones también son fechas de la oficina.
+ *
+ * Los preparadores sin horario semanal configurado no reciben citas.
+ *
+ * @example
+ * import { getAvailableSlots } from './appointment-slots';
+ *
+ * const slots = await getAvailableSlots('2026-02-02', '2026-02-08', 'return_review');
+ * // [{ date: '2026-02-02', startsAt: Date, endsAt: Date, preparerIds: [3, 5] }, ...]
+ */
+
+import { storage } from "./storage";
+import type { Appointment, AvailabilityBlock, PreparerAvailability } from "../shared/schema";
+import { APPOINTMENT_TYPE_CONFIG, type AppointmentType } from "../shared/appointment-types";
+import { OFFICE_HOURS } from "../shared/office-hours";
+
+// =============================================================================
+// CONFIGURACIÓN
+// =============================================================================
+
+/** Zona horaria de la oficina (Bronx, NY) */
+export const OFFICE_TIME_ZONE = process.env.OFFICE_TIME_ZONE || "America/New_York";
+
+/** Separación entre los inicios de horarios consecutivos */
+const SLOT_INTERVAL_MINUTES = 30;
+
+/** Anticipación mínima para agendar (2 horas) */
+const MIN_NOTICE_MS = 2 * 60 * 60 * 1000;
+
+/** Hasta cuántos días hacia adelante se puede agendar */
+export const MAX_BOOKING_DAYS_AHEAD = 60;
+
+/** Máximo de días que se pueden consultar de una vez */
+export const MAX_SLOT_RANGE_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Horario disponible
+ *
+ * @property date - Fecha de la oficina ('YYYY-MM-DD')
+ * @property startsAt - Inicio
+ * @property endsAt - Fin
+ * @property preparerIds - Preparadores libres en ese horario
+ */
+export interface AvailableSlot {
+  date: string;
+  startsAt: Date;
+  endsAt: Date;
+  preparerIds: number[];
+}
+
+/**
+ * Datos de agenda con los que se calculan los horarios
+ *
+ * @property from - Primera fecha ('YYYY-MM-DD')
+ * @property to - Última fecha ('YYYY-MM-DD'), inclusive
+ * @property now - Momento de referencia
+ * @property durationMinutes - Duración de la cita a agendar
+ * @property bufferMinutes - Margen posterior de la cita a agendar
+ * @property availability - Horario semanal de los preparadores activos
+ * @property blocks - Bloqueos que se cruzan con el rango
+ * @property appointments - Citas no canceladas que se cruzan con el rango
+ */
+export interface SlotCalendar {
+  from: string;
+  to: string;
+  now: Date;
+  durationMinutes: number;
+  bufferMinutes: number;
+  availability: PreparerAvailability[];
+  blocks: AvailabilityBlock[];
+  appointments: Appointment[];
+}
+
+// =============================================================================
+// FECHAS EN LA ZONA HORARIA DE LA OFICINA
+// =============================================================================
+
+const officeDateFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: OFFICE_TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+/** Año, mes, día, hora y minuto de un instante en la oficina */
+function officeParts(date: Date): { year: number; month: number; day: number; hour: number; minute: number } {
+  const parts: Record<string, number> = {};
+  for (const part of officeDateFormat.formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+/** Diferencia en minutos entre la hora de la oficina y UTC en un instante */
+function officeOffsetMinutes(date: Date): number {
+  const { year, month, day, hour, minute } = officeParts(date);
+  return Math.round((Date.UTC(year, month - 1, day, hour, minute) - date.getTime()) / MINUTE_MS);
+}
+
+/**
+ * Instante que corresponde a una hora de la oficina
+ *
+ * @param date - Fecha de la oficina ('YYYY-MM-DD')
+ * @param minutes - Minutos desde la medianoche
+ */
+export function officeTimeToDate(date: string, minutes: number): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  let instant = wallClock - officeOffsetMinutes(new Date(wallClock)) * MINUTE_MS;
+  // El offset puede cambiar entre la estimación y el resultado (cambio de horario)
+  const offset = officeOffsetMinutes(new Date(instant));
+  instant = wallClock - offset * MINUTE_MS;
+  return new Date(instant);
+}
+
+/**
+ * Fecha de la oficina ('YYYY-MM-DD') de un instante
+ *
+ * @param date - Instante
+ */
+export function toOfficeDate(date: Date): string {
+  const { year, month, day } = officeParts(date);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Indica si un texto es una fecha 'YYYY-MM-DD' válida
+ *
+ * @param value - Texto a validar
+ */
+export function isDateString(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/** Suma días a una fecha 'YYYY-MM-DD' */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Día de la semana (0 = domingo) de una fecha 'YYYY-MM-DD' */
+function weekdayOf(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+// =============================================================================
+// CÁLCULO DE HORARIOS
+// =============================================================================
+
+/** Indica si dos intervalos [start, end) se superponen */
+function overlaps(startA: number, endA: number, startB: number, endB: number): boolean {
+  return startA < endB && startB < endA;
+}
+
+/**
+ * Calcula los horarios disponibles de un rango de fechas
+ *
+ * La cita debe caber entera en el horario de la oficina y del
+ * preparador; su margen puede pasar del cierre, pero no superponerse con
+ * otra cita. Las citas anteriores a las agendas (sin preparador) ocupan
+ * el horario de todos los preparadores, como la regla global que las
+ * validó.
+ *
+ * @param calendar - Datos de agenda
+ * @returns Horarios con al menos un preparador libre, en orden
+ */
+export function computeAvailableSlots(calendar: SlotCalendar): AvailableSlot[] {
+  const earliest = calendar.now.getTime() + MIN_NOTICE_MS;
+  const latest = calendar.now.getTime() + MAX_BOOKING_DAYS_AHEAD * DAY_MS;
+
+  const preparerIds = Array.from(new Set(calendar.availability.map((window) => window.preparerId))).sort((a, b) => a - b);
+  const busy = calendar.appointments.map((appointment) => ({
+    preparerId: appointment.preparerId,
+    start: appointment.appointmentDate.getTime(),
+    end: appointment.appointmentDate.getTime() + (appointment.durationMinutes + appointment.bufferMinutes) * MINUTE_MS,
+  }));
+
+  const slots: AvailableSlot[] = [];
+  for (let date = calendar.from; date <= calendar.to; date = addDays(date, 1)) {
+    const weekday = weekdayOf(date);
+    const hours = OFFICE_HOURS[weekday];
+    if (!hours) continue;
+
+    const windows = calendar.availability.filter((window) => window.weekday === weekday);
+
+    for (let minute = hours.start; minute + calendar.durationMinutes <= hours.end; minute += SLOT_INTERVAL_MINUTES) {
+      const startsAt = officeTimeToDate(date, minute);
+      const start = startsAt.getTime();
+      const end = start + calendar.durationMinutes * MINUTE_MS;
+      const occupiedUntil = end + calendar.bufferMinutes * MINUTE_MS;
+      if (start < earliest || start > latest) continue;
+
+      const free = preparerIds.filter((preparerId) =>
+        windows.some((window) =>
+          window.preparerId === preparerId &&
+          window.startMinute <= minute &&
+          window.endMinute >= minute + calendar.durationMinutes
+        ) &&
+        !calendar.blocks.some((block) =>
+          (block.preparerId === null || block.preparerId === preparerId) &&
+          overlaps(start, end, block.startsAt.getTime(), block.endsAt.getTime())
+        ) &&
+        !busy.some((appointment) =>
+          (appointment.preparerId === null || appointment.preparerId === preparerId) &&
+          overlaps(start, occupiedUntil, appointment.start, appointment.end)
+        )
+      );
+
+      if (free.length > 0) {
+        slots.push({ date, startsAt, endsAt: new Date(end), preparerIds: free });
+      }
+    }
+  }
+  return slots;
+}
+
+/**
+ * Obtiene los horarios disponibles de un rango de fechas para un tipo de cita
+ *
+ * @param from - Primera fecha de la oficina ('YYYY-MM-DD')
+ * @param to - Última fecha de la oficina ('YYYY-MM-DD'), inclusive
+ * @param length - Tipo de cita, o duración y margen (al reprogramar se
+ *   conservan los de la cita)
+ * @param options.now - Momento de referencia (por defecto, ahora)
+ * @param options.excludeAppointmentId - Cita que no ocupa su horario (al reprogramarla)
+ * @returns Horarios con al menos un preparador libre, en orden
+ */
+export async function getAvailableSlots(
+  from: string,
+  to: string,
+  length: AppointmentType | { durationMinutes: number; bufferMinutes: number },
+  options: { now?: Date; excludeAppointmentId?: number } = {}
+): Promise<AvailableSlot[]> {
+  const { durationMinutes, bufferMinutes } = typeof length === "string" ? APPOINTMENT_TYPE_CONFIG[length] : length;
+
+  // Un día de margen para incluir las citas y bloqueos que empiezan antes del rango
+  const rangeStart = new Date(officeTimeToDate(from, 0).getTime() - DAY_MS);
+  const rangeEnd = officeTimeToDate(addDays(to, 1), 0);
+
+  const [availability, blocks, appointments] = await Promise.all([
+    storage.getPreparerAvailability(),
+    storage.getAvailabilityBlocks(rangeStart, rangeEnd),
+    storage.getActiveAppointmentsBetween(rangeStart, rangeEnd),
+  ]);
+
+  return computeAvailableSlots({
+    from,
+    to,
+    now: options.now ?? new Date(),
+    durationMinutes,
+    bufferMinutes,
+    availability,
+    blocks,
+    appointments: appointments.filter((appointment) => appointment.id !== options.excludeAppointmentId),
+  });
+}
+
+/**
+ * Elige el preparador de una cita entre los libres en el horario
+ *
+ * Se prefiere al preparador asignado al cliente; si no está libre, el
+ * que tenga menos citas ese día.
+ *
+ * @param slot - Horario elegido
+ * @param appointments - Citas no canceladas del día
+ * @param preferredPreparerId - Preparador asignado al cliente, si tiene
+ */
+export function choosePreparer(slot: AvailableSlot, appointments: Appointment[], preferredPreparerId?: number | null): number {
+  if (preferredPreparerId && slot.preparerIds.includes(preferredPreparerId)) {
+    return preferredPreparerId;
+  }
+  const load = (preparerId: number) =>
+    appointments.filter((appointment) => appointment.preparerId === preparerId).length;
+  return slot.preparerIds.reduce((best, preparerId) => (load(preparerId) < load(best) ? preparerId : best));
+}
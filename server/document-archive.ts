@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Descarga de Documentos en ZIP
+ *
+ * Arma un ZIP con los documentos de un cliente o de un caso para que el
+ * preparador los descargue de una vez. Los archivos se organizan en una
+ * carpeta por categoría (documentCategoryEnum) y se agrega un
+ * manifiesto CSV con los metadatos de cada documento.
+ *
+ * @module server/document-archive
+ * @version 1.0.0
+ *
+ * El ZIP se genera como stream: cada archivo se lee del almacenamiento
+ * (y se descifra) cuando le toca el turno, sin cargar todos en memoria. Los archivos
+ * ya comprimidos (PDF, imágenes, DOCX) se guardan sin recomprimir.
+ *
+ * @example
+ * import { createDocumentArchive } from './document-archive';
+ *
+ * const archive = await createDocumentArchive(documents);
+ * archive.pipe(res);
+ */
+
+import { Readable } from "stream";
+import JSZip from "jszip";
+import { getStorageDriver } from "./file-storage";
+import { openDocumentFile } from "./document-encryption";
+import type { Document } from "../shared/schema";
+
+/** Nombre del manifiesto en la raíz del ZIP */
+export const ARCHIVE_MANIFEST_NAME = "manifest.csv";
+
+/** Columnas del manifiesto, en orden */
+const MANIFEST_COLUMNS = [
+  "document_id",
+  "archive_path",
+  "file_name",
+  "category",
+  "case_id",
+  "file_type",
+  "file_size",
+  "version",
+  "review_status",
+  "from_preparer",
+  "description",
+  "uploaded_at",
+  "included",
+];
+
+/**
+ * Escapa un valor para CSV
+ *
+ * Los valores que empiezan con =, +, - o @ se prefijan con ' para que
+ * las hojas de cálculo no los interpreten como fórmulas.
+ *
+ * @param value - Valor de la celda
+ */
+function csvCell(value: string | number | boolean | null): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Nombre de archivo único dentro de una carpeta del ZIP
+ *
+ * Elimina separadores de ruta y caracteres de control, y agrega " (2)",
+ * " (3)"... antes de la extensión si el nombre ya se usó.
+ *
+ * @param folder - Carpeta (categoría)
+ * @param fileName - Nombre original del archivo
+ * @param used - Rutas ya usadas (en minúsculas); se actualiza
+ * @returns Ruta dentro del ZIP
+ */
+function uniqueArchivePath(folder: string, fileName: string, used: Set<string>): string {
+  const safeName = fileName.replace(/[\\/\x00-\x1f]/g, "_").replace(/^\.+/, "_") || "documento";
+  const dot = safeName.lastIndexOf(".");
+  const base = dot > 0 ? safeName.slice(0, dot) : safeName;
+  const extension = dot > 0 ? safeName.slice(dot) : "";
+
+  let archivePath = `${folder}/${safeName}`;
+  for (let copy = 2; used.has(archivePath.toLowerCase()); copy++) {
+    archivePath = `${folder}/${base} (${copy})${extension}`;
+  }
+  used.add(archivePath.toLowerCase());
+  return archivePath;
+}
+
+/**
+ * Stream que abre el archivo de un documento solo cuando se empieza a leer
+ *
+ * Así no quedan abiertas a la vez las descargas de todos los archivos.
+ *
+ * @param document - Documento cuyo archivo vigente se lee
+ */
+function lazyDocumentFileStream(document: Document): Readable {
+  return Readable.from(
+    (async function* () {
+      const stream = await openDocumentFile(document.filePath, document);
+      if (!stream) {
+        throw new Error(`Archivo no encontrado en el almacenamiento: ${document.filePath}`);
+      }
+      for await (const chunk of stream) {
+        yield chunk as Buffer;
+      }
+    })(),
+    { objectMode: false }
+  );
+}
+
+/**
+ * Crea el ZIP de un conjunto de documentos
+ *
+ * Los documentos cuyo archivo ya no está en el almacenamiento se listan
+ * en el manifiesto con included = false.
+ *
+ * @param documents - Documentos a incluir
+ * @returns Stream del ZIP; emite 'error' si falla la lectura de un archivo
+ */
+export async function createDocumentArchive(documents: Document[]): Promise<NodeJS.ReadableStream> {
+  const driver = getStorageDriver();
+  const zip = new JSZip();
+  const usedPaths = new Set<string>([ARCHIVE_MANIFEST_NAME]);
+  const rows = [MANIFEST_COLUMNS.join(",")];
+
+  for (const document of documents) {
+    const included = await driver.exists(document.filePath);
+    const archivePath = included ? uniqueArchivePath(document.category, document.fileName, usedPaths) : null;
+    if (archivePath) {
+      zip.file(archivePath, lazyDocumentFileStream(document), {
+        binary: true,
+        compression: "STORE",
+        date: document.createdAt,
+      });
+    }
+
+    rows.push(
+      [
+        document.id,
+        archivePath,
+        document.fileName,
+        document.category,
+        document.caseId,
+        document.fileType,
+        document.fileSize,
+        document.currentVersion,
+        document.reviewStatus,
+        !!document.isFromPreparer,
+        document.description,
+        document.createdAt.toISOString(),
+        included,
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  }
+
+  // BOM para que Excel abra el CSV como UTF-8
+  zip.file(ARCHIVE_MANIFEST_NAME, `\uFEFF${rows.join("\r\n")}\r\n`, { compression: "DEFLATE" });
+
+  return zip.generateNodeStream({ type: "nodebuffer", streamFiles: true });
+}
+
+/**
+ * Nombre de archivo seguro para la cabecera Content-Disposition
+ *
+ * @param parts - Partes del nombre (p. ej. ['cliente', 12, 'documentos'])
+ * @returns Nombre con extensión .zip
+ */
+export function archiveFileName(...parts: (string | number)[]): string {
+  return `${parts.map((part) => String(part).replace(/[^a-zA-Z0-9-]+/g, "_")).join("-")}.zip`;
+}
@@ -0,0 +1,444 @@
+/**
+ * @fileoverview Cifrado en Reposo de Archivos de Documentos
+ *
+ * Cifra cada archivo antes de guardarlo en el almacenamiento, para que
+ * el contenido (tarjetas del Seguro Social, estados de cuenta) no
+ * dependa solo de la protección del bucket.
+ *
+ * @module server/document-encryption
+ * @version 1.0.0
+ *
+ * ## Cifrado de sobre
+ * 1. Cada archivo se cifra con su propia clave de datos (AES-256-GCM)
+ * 2. La clave de datos se guarda en documents.encryptionKey, envuelta
+ *    con la clave del cliente
+ * 3. La clave del cliente se guarda en client_encryption_keys, envuelta
+ *    con la clave maestra
+ *
+ * Rotar la clave maestra solo vuelve a envolver las claves de cliente
+ * (script/rotate-document-master-key.ts); los archivos no se tocan.
+ *
+ * ## Formato del archivo cifrado
+ * `HLE1` + prefijo de nonce (7 bytes), seguido de bloques de hasta 64KB
+ * de texto cifrado, cada uno con su tag GCM de 16 bytes. El nonce de
+ * cada bloque es prefijo + número de bloque + marca de último bloque,
+ * por lo que se puede descifrar como stream y se detecta un archivo
+ * truncado o con bloques reordenados.
+ *
+ * ## Variables de Entorno
+ * - DOCUMENT_MASTER_KEYS: Claves maestras `id:clave` separadas por comas
+ *   (clave de 32 bytes en hex o base64). La primera es la vigente; las
+ *   demás solo se usan para desenvolver claves aún no rotadas.
+ *   Requerida en producción. En desarrollo, si falta, se deriva una clave
+ *   de SESSION_SECRET y se muestra una advertencia.
+ *
+ * @example
+ * import { createDocumentDataKey, putEncryptedFile, openDocumentFile } from './document-encryption';
+ *
+ * const { dataKey, encryptionKey } = await createDocumentDataKey(clientId);
+ * await putEncryptedFile(key, content, dataKey);
+ * const stream = await openDocumentFile(key, { clientId, encryptionKey });
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { storage } from "./storage";
+import { getStorageDriver } from "./file-storage";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const WRAP_FORMAT_VERSION = "v1";
+
+/** Cabecera de los archivos cifrados */
+const FILE_MAGIC = Buffer.from("HLE1");
+const NONCE_PREFIX_LENGTH = 7;
+const HEADER_LENGTH = FILE_MAGIC.length + NONCE_PREFIX_LENGTH;
+
+/** Tamaño del texto en claro de cada bloque */
+const CHUNK_SIZE = 64 * 1024;
+const SEALED_CHUNK_SIZE = CHUNK_SIZE + TAG_LENGTH;
+
+/** Tipo con que se guardan los archivos cifrados */
+const ENCRYPTED_MIME_TYPE = "application/octet-stream";
+
+/**
+ * Clave de cifrado de un archivo de documento
+ *
+ * @property clientId - Cliente dueño del documento
+ * @property encryptionKey - Clave de datos envuelta, o null si el archivo no está cifrado
+ */
+export interface DocumentFileKey {
+  clientId: number;
+  encryptionKey: string | null;
+}
+
+// =============================================================================
+// CLAVES MAESTRAS
+// =============================================================================
+
+/**
+ * Clave maestra con su identificador
+ */
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let cachedMasterKeys: MasterKey[] | null = null;
+
+/**
+ * Convierte una clave en hex o base64 a bytes
+ *
+ * @throws Error si no tiene 32 bytes
+ */
+function parseKey(raw: string, name: string): Buffer {
+  const key = /^[0-9a-fA-F]{64}$/.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`${name} debe tener 32 bytes (64 caracteres hex o base64)`);
+  }
+  return key;
+}
+
+/**
+ * Obtiene las claves maestras configuradas, la vigente primero
+ *
+ * Se resuelven de forma perezosa para que el servidor pueda arrancar
+ * aunque no estén configuradas; el error aparece al subir o descargar.
+ *
+ * @throws Error si no hay claves válidas en producción
+ */
+function getMasterKeys(): MasterKey[] {
+  if (cachedMasterKeys) return cachedMasterKeys;
+
+  const raw = process.env.DOCUMENT_MASTER_KEYS?.trim();
+  if (raw) {
+    const keys = raw.split(",").map((entry) => {
+      const separator = entry.indexOf(":");
+      const id = entry.slice(0, separator).trim();
+      if (separator <= 0 || !id) {
+        throw new Error("DOCUMENT_MASTER_KEYS debe tener el formato id:clave[,id:clave...]");
+      }
+      return { id, key: parseKey(entry.slice(separator + 1).trim(), `La clave maestra ${id}`) };
+    });
+    if (new Set(keys.map((key) => key.id)).size !== keys.length) {
+      throw new Error("DOCUMENT_MASTER_KEYS tiene identificadores repetidos");
+    }
+    cachedMasterKeys = keys;
+    return keys;
+  }
+
+  if (process.env.NODE_ENV === "production" || !process.env.SESSION_SECRET) {
+    throw new Error("DOCUMENT_MASTER_KEYS no está configurada");
+  }
+
+  console.warn("[Document Encryption] DOCUMENT_MASTER_KEYS no está configurada. Se usará una clave derivada de SESSION_SECRET (solo desarrollo).");
+  cachedMasterKeys = [{ id: "dev", key: crypto.scryptSync(process.env.SESSION_SECRET, "highlight-document-encryption", KEY_LENGTH) }];
+  return cachedMasterKeys;
+}
+
+/**
+ * Obtiene la clave maestra vigente
+ */
+export function getCurrentMasterKeyId(): string {
+  return getMasterKeys()[0].id;
+}
+
+/**
+ * Busca una clave maestra por su identificador
+ *
+ * @throws Error si ya no está configurada
+ */
+function getMasterKey(id: string): Buffer {
+  const masterKey = getMasterKeys().find((key) => key.id === id);
+  if (!masterKey) {
+    throw new Error(`La clave maestra ${id} no está en DOCUMENT_MASTER_KEYS`);
+  }
+  return masterKey.key;
+}
+
+// =============================================================================
+// ENVOLTURA DE CLAVES
+// =============================================================================
+
+/**
+ * Cifra una clave con otra
+ *
+ * El contexto (p. ej. "client:12") se autentica junto a la clave para que
+ * una clave envuelta no pueda copiarse a otro cliente.
+ *
+ * @returns Clave envuelta en formato `v1:iv:tag:ciphertext`
+ */
+function wrapKey(key: Buffer, wrappingKey: Buffer, context: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, wrappingKey, iv);
+  cipher.setAAD(Buffer.from(context));
+  const ciphertext = Buffer.concat([cipher.update(key), cipher.final()]);
+
+  return [WRAP_FORMAT_VERSION, iv.toString("base64"), cipher.getAuthTag().toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+/**
+ * Descifra una clave envuelta con wrapKey
+ *
+ * @throws Error si el formato es inválido, el contexto no coincide o fue alterada
+ */
+function unwrapKey(wrapped: string, wrappingKey: Buffer, context: string): Buffer {
+  const [version, iv, tag, ciphertext] = wrapped.split(":");
+  if (version !== WRAP_FORMAT_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error("Formato de clave envuelta inválido");
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, wrappingKey, Buffer.from(iv, "base64"));
+  decipher.setAAD(Buffer.from(context));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]);
+}
+
+/** Claves de cliente ya desenvueltas (no cambian al rotar la clave maestra) */
+const clientKeyCache = new Map<number, Buffer>();
+
+/**
+ * Obtiene la clave de un cliente, creándola si aún no tiene
+ *
+ * @param clientId - ID del cliente
+ */
+async function getClientKey(clientId: number): Promise<Buffer> {
+  const cached = clientKeyCache.get(clientId);
+  if (cached) return cached;
+
+  let record = await storage.getClientEncryptionKey(clientId);
+  if (!record) {
+    const masterKeyId = getCurrentMasterKeyId();
+    const wrapped = wrapKey(crypto.randomBytes(KEY_LENGTH), getMasterKey(masterKeyId), `client:${clientId}`);
+    record = await storage.createClientEncryptionKey(clientId, wrapped, masterKeyId);
+  }
+
+  const clientKey = unwrapKey(record.wrappedKey, getMasterKey(record.masterKeyId), `client:${clientId}`);
+  clientKeyCache.set(clientId, clientKey);
+  return clientKey;
+}
+
+/**
+ * Genera la clave de datos de un archivo nuevo
+ *
+ * @param clientId - Cliente dueño del documento
+ * @returns Clave en claro (para cifrar) y envuelta (para guardar en el documento)
+ */
+export async function createDocumentDataKey(clientId: number): Promise<{ dataKey: Buffer; encryptionKey: string }> {
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  return { dataKey, encryptionKey: wrapKey(dataKey, await getClientKey(clientId), `document:${clientId}`) };
+}
+
+/**
+ * Desenvuelve la clave de datos de un archivo
+ *
+ * @param file - Cliente y clave envuelta del documento
+ */
+async function getDocumentDataKey(file: DocumentFileKey & { encryptionKey: string }): Promise<Buffer> {
+  return unwrapKey(file.encryptionKey, await getClientKey(file.clientId), `document:${file.clientId}`);
+}
+
+// =============================================================================
+// CIFRADO DE ARCHIVOS
+// =============================================================================
+
+/**
+ * Nonce de un bloque: prefijo + número de bloque + marca de último
+ */
+function chunkNonce(prefix: Buffer, index: number, last: boolean): Buffer {
+  const nonce = Buffer.alloc(IV_LENGTH);
+  prefix.copy(nonce, 0);
+  nonce.writeUInt32BE(index, NONCE_PREFIX_LENGTH);
+  nonce[IV_LENGTH - 1] = last ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Cifra el contenido de un archivo
+ *
+ * @param content - Contenido en claro
+ * @param dataKey - Clave de datos del archivo
+ * @returns Contenido cifrado con cabecera
+ */
+export function encryptDocumentContent(content: Buffer, dataKey: Buffer): Buffer {
+  const prefix = crypto.randomBytes(NONCE_PREFIX_LENGTH);
+  const parts = [FILE_MAGIC, prefix];
+
+  // Un archivo vacío produce un único bloque vacío marcado como último
+  for (let offset = 0, index = 0; ; offset += CHUNK_SIZE, index++) {
+    const last = offset + CHUNK_SIZE >= content.length;
+    const cipher = crypto.createCipheriv(ALGORITHM, dataKey, chunkNonce(prefix, index, last));
+    parts.push(cipher.update(content.subarray(offset, offset + CHUNK_SIZE)), cipher.final(), cipher.getAuthTag());
+    if (last) break;
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Crea un stream que descifra un archivo cifrado con encryptDocumentContent
+ *
+ * Cada bloque se autentica antes de emitirse; emite 'error' si el
+ * archivo fue alterado o está truncado.
+ *
+ * @param dataKey - Clave de datos del archivo
+ */
+export function createDecryptStream(dataKey: Buffer): Transform {
+  let pending = Buffer.alloc(0);
+  let prefix: Buffer | null = null;
+  let index = 0;
+
+  const open = (sealed: Buffer, last: boolean): Buffer => {
+    const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, chunkNonce(prefix!, index++, last));
+    decipher.setAuthTag(sealed.subarray(sealed.length - TAG_LENGTH));
+    return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_LENGTH)), decipher.final()]);
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      pending = Buffer.concat([pending, chunk]);
+      try {
+        if (!prefix) {
+          if (pending.length < HEADER_LENGTH) return callback();
+          if (!pending.subarray(0, FILE_MAGIC.length).equals(FILE_MAGIC)) {
+            throw new Error("El archivo no está cifrado o tiene un formato desconocido");
+          }
+          prefix = pending.subarray(FILE_MAGIC.length, HEADER_LENGTH);
+          pending = pending.subarray(HEADER_LENGTH);
+        }
+        // Un bloque completo solo se sabe que no es el último cuando llega algo más
+        while (pending.length > SEALED_CHUNK_SIZE) {
+          this.push(open(pending.subarray(0, SEALED_CHUNK_SIZE), false));
+          pending = pending.subarray(SEALED_CHUNK_SIZE);
+        }
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        if (!prefix || pending.length < TAG_LENGTH) {
+          throw new Error("El archivo cifrado está truncado");
+        }
+        this.push(open(pending, true));
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+}
+
+// =============================================================================
+// ALMACENAMIENTO
+// =============================================================================
+
+/**
+ * Cifra un archivo y lo guarda en el almacenamiento
+ *
+ * @param key - Key de destino
+ * @param content - Contenido en claro
+ * @param dataKey - Clave de datos de createDocumentDataKey
+ */
+export async function putEncryptedFile(key: string, content: Buffer, dataKey: Buffer): Promise<void> {
+  await getStorageDriver().put(key, encryptDocumentContent(content, dataKey), ENCRYPTED_MIME_TYPE);
+}
+
+/**
+ * Abre un archivo de documento para leerlo en claro
+ *
+ * Los archivos guardados antes del cifrado (encryptionKey null) se
+ * devuelven tal cual.
+ *
+ * @param key - Key del archivo (filePath o previewPath)
+ * @param file - Cliente y clave envuelta del documento o versión
+ * @returns Stream del contenido en claro, o null si el archivo no existe
+ */
+export async function openDocumentFile(key: string, file: DocumentFileKey): Promise<Readable | null> {
+  const encryptionKey = file.encryptionKey;
+  const dataKey = encryptionKey ? await getDocumentDataKey({ clientId: file.clientId, encryptionKey }) : null;
+
+  const stream = await getStorageDriver().getStream(key);
+  if (!stream || !dataKey) return stream;
+
+  const decrypted = createDecryptStream(dataKey);
+  stream.on("error", (error) => decrypted.destroy(error));
+  return stream.pipe(decrypted);
+}
+
+/**
+ * Lee completo en memoria un archivo de documento en claro
+ *
+ * Solo para archivos que deben procesarse enteros (p. ej. un PDF a firmar).
+ *
+ * @param key - Key del archivo
+ * @param file - Cliente y clave envuelta del documento
+ * @returns Contenido en claro, o null si el archivo no existe
+ */
+export async function readDocumentFile(key: string, file: DocumentFileKey): Promise<Buffer | null> {
+  const stream = await openDocumentFile(key, file);
+  if (!stream) return null;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Copia un archivo de documento en claro a disco
+ *
+ * Para procesos que necesitan una ruta local (OCR).
+ *
+ * @param key - Key del archivo
+ * @param file - Cliente y clave envuelta del documento
+ * @param outputPath - Ruta donde escribir la copia
+ * @throws Error si el archivo no existe, no se puede descifrar o falla la lectura
+ */
+export async function downloadDocumentFile(key: string, file: DocumentFileKey, outputPath: string): Promise<void> {
+  const stream = await openDocumentFile(key, file);
+  if (!stream) {
+    throw new Error(`Archivo no encontrado en el almacenamiento: ${key}`);
+  }
+  await pipeline(stream, fs.createWriteStream(outputPath));
+}
+
+// =============================================================================
+// ROTACIÓN DE LA CLAVE MAESTRA
+// =============================================================================
+
+/**
+ * Vuelve a envolver con la clave maestra vigente las claves de cliente
+ * envueltas con otra
+ *
+ * Al terminar sin fallos, las claves maestras anteriores pueden quitarse
+ * de DOCUMENT_MASTER_KEYS.
+ *
+ * @returns Claves rotadas y claves que no pudieron rotarse
+ */
+export async function rotateClientKeys(): Promise<{ rotated: number; failed: number }> {
+  const masterKeyId = getCurrentMasterKeyId();
+  const masterKey = getMasterKey(masterKeyId);
+  const pending = await storage.getClientEncryptionKeysToRotate(masterKeyId);
+
+  let rotated = 0;
+  let failed = 0;
+  for (const record of pending) {
+    try {
+      const context = `client:${record.clientId}`;
+      const clientKey = unwrapKey(record.wrappedKey, getMasterKey(record.masterKeyId), context);
+      if (await storage.rewrapClientEncryptionKey(record.id, record.masterKeyId, wrapKey(clientKey, masterKey, context), masterKeyId)) {
+        rotated++;
+      }
+    } catch (error) {
+      console.error(`[Document Encryption] No se pudo rotar la clave del cliente ${record.clientId}:`, error);
+      failed++;
+    }
+  }
+  return { rotated, failed };
+}
@@ -0,0 +1,409 @@
+/**
+ * @fileoverview Extracción OCR de Formularios W-2 y 1099
+ *
+ * Los documentos subidos con categoría 'w2' o 'form_1099' quedan en
+ * cola (documentExtractions, estado 'pending'). Este job los descarga,
+ * obtiene su texto y extrae los campos clave definidos en
+ * shared/document-extraction para que el preparador los revise.
+ *
+ * @module server/document-extraction
+ * @version 1.0.0
+ *
+ * ## Obtención del Texto
+ * - PDF con capa de texto: se lee directamente con pdfjs (sin OCR)
+ * - PDF escaneado: se renderiza la primera página y se aplica OCR
+ * - JPG/PNG: OCR con tesseract.js
+ *
+ * El OCR es local: los datos de idioma se cargan desde
+ * @tesseract.js-data/eng y ningún documento sale del servidor.
+ *
+ * ## Ejecución
+ * Lo programa el ejecutor de jobs (server/jobs.ts) cada minuto, en el
+ * servidor de larga duración o desde el cron de Vercel. Una extracción
+ * que falla se reintenta hasta MAX_ATTEMPTS veces.
+ *
+ * @example
+ * import { runDocumentExtractions } from './document-extraction';
+ *
+ * const processed = await runDocumentExtractions();
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { pdf } from "pdf-to-img";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { createWorker, type Worker } from "tesseract.js";
+import { storage } from "./storage";
+import { downloadDocumentFile } from "./document-encryption";
+import {
+  EXTRACTION_FIELDS,
+  isExtractionFormType,
+  type ExtractedFields,
+  type ExtractionFormType,
+} from "../shared/document-extraction";
+import type { Document, DocumentExtraction } from "../shared/schema";
+
+/** Extracciones procesadas por ejecución (el OCR es costoso en CPU) */
+const BATCH_SIZE = 3;
+
+/** Intentos antes de marcar la extracción como fallida */
+const MAX_ATTEMPTS = 3;
+
+/** Tiempo tras el cual una extracción en 'processing' se considera abandonada */
+const STALE_AFTER_MS = 15 * 60 * 1000;
+
+/** Mínimo de caracteres para considerar que un PDF tiene capa de texto */
+const MIN_PDF_TEXT_LENGTH = 100;
+
+/** Escala de renderizado de PDF escaneados para OCR */
+const OCR_RENDER_SCALE = 2;
+
+/** Datos de idioma de tesseract incluidos en node_modules */
+const OCR_LANG_PATH = path.join(process.cwd(), "node_modules", "@tesseract.js-data", "eng", "4.0.0");
+
+// =============================================================================
+// OBTENCIÓN DEL TEXTO
+// =============================================================================
+
+/**
+ * Texto obtenido de un documento
+ *
+ * @property text - Texto completo (no se persiste)
+ * @property confidence - Confianza media del OCR, o null si el PDF tenía texto
+ */
+interface DocumentText {
+  text: string;
+  confidence: number | null;
+}
+
+/**
+ * Lee la capa de texto de la primera página de un PDF
+ *
+ * Los campos se reconstruyen por líneas según la posición vertical
+ * de cada fragmento, para que las etiquetas y valores de una misma
+ * fila queden juntos como en el OCR.
+ *
+ * @param content - Contenido del PDF
+ * @returns Texto de la primera página (vacío si es un escaneo)
+ */
+async function readPdfText(content: Buffer): Promise<string> {
+  const document = await getDocument({ data: new Uint8Array(content) }).promise;
+  try {
+    const page = await document.getPage(1);
+    const { items } = await page.getTextContent();
+
+    const lines = new Map<number, string[]>();
+    for (const item of items) {
+      if (!("str" in item) || !item.str.trim()) continue;
+      const y = Math.round(item.transform[5]);
+      lines.set(y, [...(lines.get(y) ?? []), item.str]);
+    }
+
+    return Array.from(lines.entries())
+      .sort(([a], [b]) => b - a)
+      .map(([, parts]) => parts.join(" "))
+      .join("\n");
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Aplica OCR a una imagen
+ *
+ * @param worker - Worker de tesseract
+ * @param image - Imagen (cualquier formato que lea sharp)
+ */
+async function recognize(worker: Worker, image: Buffer): Promise<DocumentText> {
+  // Escala de grises y contraste normalizado mejoran la lectura de escaneos
+  const prepared = await sharp(image).rotate().grayscale().normalize().png().toBuffer();
+  const { data } = await worker.recognize(prepared);
+  return { text: data.text, confidence: Math.round(data.confidence) };
+}
+
+/**
+ * Obtiene el texto de un documento
+ *
+ * @param worker - Fábrica perezosa del worker de OCR (solo se usa si hace falta)
+ * @param filePath - Ruta local del archivo
+ * @param mimeType - Tipo MIME del archivo
+ * @throws Error si el tipo no admite extracción
+ */
+async function readDocumentText(worker: () => Promise<Worker>, filePath: string, mimeType: string): Promise<DocumentText> {
+  const content = await fs.promises.readFile(filePath);
+
+  if (mimeType === "application/pdf") {
+    const text = await readPdfText(content);
+    if (text.replace(/\s/g, "").length >= MIN_PDF_TEXT_LENGTH) {
+      return { text, confidence: null };
+    }
+
+    const rendered = await pdf(content, { scale: OCR_RENDER_SCALE });
+    try {
+      return await recognize(await worker(), await rendered.getPage(1));
+    } finally {
+      await rendered.destroy();
+    }
+  }
+
+  if (mimeType === "image/jpeg" || mimeType === "image/png") {
+    return recognize(await worker(), content);
+  }
+
+  throw new Error(`Tipo de archivo sin extracción: ${mimeType}`);
+}
+
+// =============================================================================
+// EXTRACCIÓN DE CAMPOS
+// =============================================================================
+
+/** Monto con dos decimales, con o sin símbolo y separadores de miles */
+const AMOUNT_PATTERN = /\$?\s?(\d{1,3}(?:[,\s]\d{3})+|\d+)\.(\d{2})\b/g;
+
+/** EIN / TIN de empresa (XX-XXXXXXX) */
+const EIN_PATTERN = /\b\d{2}-\d{7}\b/;
+
+/** Etiquetas de las casillas de un W-2, por fila (1|2, 3|4, 5|6) */
+const W2_LABELS = {
+  wages: /wages,?\s*tips,?\s*other\s*comp/i,
+  federalWithholding: /federal\s*income\s*tax\s*withheld/i,
+  socialSecurityWages: /social\s*security\s*wages/i,
+  socialSecurityTax: /social\s*security\s*tax\s*withheld/i,
+  medicareWages: /medicare\s*wages/i,
+  medicareTax: /medicare\s*tax\s*withheld/i,
+};
+
+/** Etiqueta del monto principal de cada variante de 1099 */
+const FORM_1099_AMOUNT_LABELS: Record<string, RegExp> = {
+  NEC: /nonemployee\s*compensation/i,
+  MISC: /other\s*income|rents|royalties/i,
+  INT: /interest\s*income/i,
+  DIV: /total\s*ordinary\s*dividends/i,
+  G: /unemployment\s*compensation/i,
+  R: /gross\s*distribution/i,
+  K: /gross\s*amount\s*of\s*payment\s*card/i,
+  B: /proceeds/i,
+};
+
+/** Etiqueta de retención federal de los 1099 (casilla 4) */
+const FORM_1099_WITHHOLDING_LABEL = /federal\s*income\s*tax\s*withheld/i;
+
+/**
+ * Lista los montos de un texto, normalizados sin símbolo ni separadores
+ */
+function findAmounts(text: string): string[] {
+  return Array.from(text.matchAll(AMOUNT_PATTERN), (match) => `${match[1].replace(/[,\s]/g, "")}.${match[2]}`);
+}
+
+/**
+ * Busca el monto de una casilla a partir de su etiqueta
+ *
+ * El valor puede estar en la misma línea que la etiqueta o en la
+ * siguiente. En el segundo caso, si varias etiquetas comparten la
+ * línea (casillas lado a lado), se toma el monto en la misma posición.
+ *
+ * @param lines - Líneas del texto
+ * @param label - Etiqueta de la casilla
+ * @param siblings - Todas las etiquetas del formulario
+ */
+function findAmount(lines: string[], label: RegExp, siblings: RegExp[]): string | null {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const match = label.exec(line);
+    if (!match) continue;
+
+    const start = match.index + match[0].length;
+    const next = siblings
+      .map((sibling) => sibling.exec(line.slice(start)))
+      .filter((found): found is RegExpExecArray => !!found)
+      .reduce((min, found) => Math.min(min, found.index), Infinity);
+    const sameLine = findAmounts(line.slice(start, next === Infinity ? undefined : start + next));
+    if (sameLine.length > 0) return sameLine[0];
+
+    const position = siblings.filter((sibling) => {
+      const found = sibling.exec(line);
+      return found && found.index < match.index;
+    }).length;
+    for (const following of lines.slice(i + 1, i + 3)) {
+      const amounts = findAmounts(following);
+      if (amounts.length > 0) return amounts[Math.min(position, amounts.length - 1)];
+    }
+  }
+  return null;
+}
+
+/**
+ * Busca un EIN cerca de una etiqueta, o el primero del texto
+ *
+ * @param lines - Líneas del texto
+ * @param label - Etiqueta del EIN/TIN
+ */
+function findEin(lines: string[], label: RegExp): string | null {
+  for (let i = 0; i < lines.length; i++) {
+    if (!label.test(lines[i])) continue;
+    for (const candidate of lines.slice(i, i + 3)) {
+      const match = EIN_PATTERN.exec(candidate);
+      if (match) return match[0];
+    }
+  }
+  const fallback = EIN_PATTERN.exec(lines.join("\n"));
+  return fallback ? fallback[0] : null;
+}
+
+/**
+ * Extrae los campos de un W-2
+ */
+function parseW2(lines: string[]): ExtractedFields {
+  const siblings = Object.values(W2_LABELS);
+  return {
+    employerEin: findEin(lines, /employer.{0,5}identification\s*number|\bEIN\b/i),
+    wages: findAmount(lines, W2_LABELS.wages, siblings),
+    federalWithholding: findAmount(lines, W2_LABELS.federalWithholding, siblings),
+    socialSecurityWages: findAmount(lines, W2_LABELS.socialSecurityWages, siblings),
+    medicareWages: findAmount(lines, W2_LABELS.medicareWages, siblings),
+  };
+}
+
+/**
+ * Extrae los campos de un 1099
+ *
+ * La variante se detecta por el título del formulario (1099-NEC,
+ * 1099-INT...) y determina qué casilla es el monto principal.
+ */
+function parse1099(lines: string[]): ExtractedFields {
+  const text = lines.join("\n");
+  const variant = /1099\s*-?\s*(NEC|MISC|INT|DIV|G|R|K|B)\b/i.exec(text)?.[1].toUpperCase() ?? null;
+  const amountLabel = variant ? FORM_1099_AMOUNT_LABELS[variant] : undefined;
+  const siblings = [...Object.values(FORM_1099_AMOUNT_LABELS), FORM_1099_WITHHOLDING_LABEL];
+
+  return {
+    formVariant: variant,
+    payerTin: findEin(lines, /payer'?s?\s*(TIN|federal\s*identification)/i),
+    amount: amountLabel ? findAmount(lines, amountLabel, siblings) : null,
+    federalWithholding: findAmount(lines, FORM_1099_WITHHOLDING_LABEL, siblings),
+  };
+}
+
+/**
+ * Extrae los campos de un formulario a partir de su texto
+ *
+ * @param formType - Tipo de formulario
+ * @param text - Texto del documento
+ * @returns Todos los campos del tipo; null en los no encontrados
+ */
+function extractFields(formType: ExtractionFormType, text: string): ExtractedFields {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const parsed = formType === "w2" ? parseW2(lines) : parse1099(lines);
+  return Object.fromEntries(EXTRACTION_FIELDS[formType].map((field) => [field, parsed[field] ?? null]));
+}
+
+// =============================================================================
+// JOB
+// =============================================================================
+
+/**
+ * Crea el worker de OCR solo cuando se pide por primera vez
+ *
+ * Cargar tesseract cuesta varios segundos; un lote de PDF con capa
+ * de texto no lo necesita.
+ */
+function createLazyWorker() {
+  let pending: Promise<Worker> | null = null;
+  return {
+    get: () => (pending ??= createWorker("eng", undefined, {
+      langPath: OCR_LANG_PATH,
+      gzip: true,
+      cacheMethod: "none",
+    })),
+    terminate: async () => {
+      if (pending) await (await pending).terminate();
+    },
+  };
+}
+
+/**
+ * Procesa una extracción
+ *
+ * @param extraction - Extracción tomada de la cola
+ * @param document - Documento a procesar
+ * @param worker - Fábrica perezosa del worker de OCR
+ */
+async function processExtraction(
+  extraction: DocumentExtraction,
+  document: Document,
+  worker: () => Promise<Worker>
+): Promise<void> {
+  const formType = extraction.formType;
+  if (!isExtractionFormType(formType)) {
+    throw new Error(`Categoría sin extracción: ${formType}`);
+  }
+
+  const localPath = path.join(os.tmpdir(), `ocr-${extraction.id}-${Date.now()}`);
+
+  try {
+    await downloadDocumentFile(document.filePath, document, localPath);
+
+    const { text, confidence } = await readDocumentText(worker, localPath, document.fileType);
+    await storage.saveDocumentExtractionResult(extraction.id, {
+      status: "extracted",
+      fields: extractFields(formType, text),
+      confidence,
+      error: null,
+    });
+  } finally {
+    await fs.promises.rm(localPath, { force: true });
+  }
+}
+
+/**
+ * Procesa un lote de extracciones pendientes
+ *
+ * El worker de OCR se libera al terminar el lote.
+ *
+ * @param now - Momento de referencia (por defecto, ahora)
+ * @returns Cantidad de extracciones completadas
+ */
+export async function runDocumentExtractions(now: Date = new Date()): Promise<number> {
+  const claimed = await storage.claimDocumentExtractions(BATCH_SIZE, new Date(now.getTime() - STALE_AFTER_MS));
+  if (claimed.length === 0) return 0;
+
+  const worker = createLazyWorker();
+
+  let completed = 0;
+  try {
+    for (const extraction of claimed) {
+      try {
+        const document = await storage.getDocument(extraction.documentId);
+        if (!document) {
+          await storage.saveDocumentExtractionResult(extraction.id, {
+            status: "failed",
+            fields: {},
+            confidence: null,
+            error: "Documento no disponible",
+          });
+          continue;
+        }
+
+        await processExtraction(extraction, document, worker.get);
+        completed++;
+      } catch (error) {
+        console.error(`[OCR] Error procesando la extracción ${extraction.id}:`, error);
+        await storage.saveDocumentExtractionResult(extraction.id, {
+          status: extraction.attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+          fields: {},
+          confidence: null,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  if (completed > 0) {
+    console.log(`[OCR] ${completed} documento(s) procesados`);
+  }
+  return completed;
+}
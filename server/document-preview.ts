@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Vistas Previas de Documentos
+ *
+ * Genera una miniatura JPEG de los documentos subidos para mostrarla
+ * en el portal sin descargar el archivo: la primera página de los PDF
+ * y una versión reducida de las imágenes JPG/PNG.
+ *
+ * La miniatura se guarda en el almacenamiento junto al archivo original,
+ * con la key del documento y el sufijo PREVIEW_SUFFIX.
+ *
+ * @module server/document-preview
+ * @version 1.0.0
+ *
+ * ## Dependencias
+ * - sharp: redimensiona y convierte a JPEG
+ * - pdf-to-img: renderiza la primera página de los PDF (pdfjs)
+ *
+ * La generación es best-effort: si un archivo no puede procesarse
+ * (PDF cifrado, imagen corrupta) el documento se guarda sin vista previa.
+ *
+ * @example
+ * import { generatePreview } from './document-preview';
+ *
+ * const preview = await generatePreview(file.path, file.mimetype);
+ * if (preview) await putEncryptedFile(`${key}${PREVIEW_SUFFIX}`, preview, dataKey);
+ */
+
+import fs from "fs";
+import sharp from "sharp";
+import { pdf } from "pdf-to-img";
+
+/** Ancho máximo de la miniatura en píxeles */
+const PREVIEW_WIDTH = 400;
+
+/** Calidad JPEG de la miniatura */
+const PREVIEW_QUALITY = 75;
+
+/** Escala de renderizado de PDF (suficiente para reducir a PREVIEW_WIDTH con nitidez) */
+const PDF_RENDER_SCALE = 1.5;
+
+/** Sufijo de la key de la miniatura respecto a la key del documento */
+export const PREVIEW_SUFFIX = ".preview.jpg";
+
+/** Tipo MIME de las miniaturas */
+export const PREVIEW_MIME_TYPE = "image/jpeg";
+
+/** Tipos MIME para los que se genera vista previa */
+const PREVIEWABLE_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+
+/**
+ * Indica si se puede generar vista previa para un tipo de archivo
+ *
+ * @param mimeType - Tipo MIME del archivo
+ */
+export function canGeneratePreview(mimeType: string): boolean {
+  return PREVIEWABLE_TYPES.includes(mimeType);
+}
+
+/**
+ * Renderiza la primera página de un PDF como PNG
+ *
+ * @param content - Contenido del PDF
+ * @returns Imagen PNG de la primera página
+ */
+async function renderFirstPdfPage(content: Buffer): Promise<Buffer> {
+  const document = await pdf(content, { scale: PDF_RENDER_SCALE });
+  try {
+    return await document.getPage(1);
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Genera la miniatura de un archivo subido
+ *
+ * @param filePath - Ruta local del archivo (temporal de multer)
+ * @param mimeType - Tipo MIME del archivo
+ * @returns JPEG de la miniatura, o null si el tipo no admite vista previa
+ *   o el archivo no pudo procesarse
+ */
+export async function generatePreview(filePath: string, mimeType: string): Promise<Buffer | null> {
+  if (!canGeneratePreview(mimeType)) return null;
+
+  try {
+    const content = await fs.promises.readFile(filePath);
+    const image = mimeType === "application/pdf" ? await renderFirstPdfPage(content) : content;
+
+    return await sharp(image)
+      .rotate()
+      .resize({ width: PREVIEW_WIDTH, withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: PREVIEW_QUALITY })
+      .toBuffer();
+  } catch (error) {
+    console.warn(`[Preview] No se pudo generar la vista previa (${mimeType}):`, error);
+    return null;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Purga de Documentos Eliminados
+ *
+ * Los documentos se eliminan primero de forma reversible (soft delete).
+ * Este módulo borra definitivamente los que superaron el periodo de
+ * retención: elimina del almacenamiento los archivos y vistas previas de todas sus
+ * versiones, borra la fila del documento y lo registra en activityLogs.
+ *
+ * También limpia las subidas directas que el navegador no llegó a
+ * completar: cancela la subida multipart o borra el archivo a medias.
+ *
+ * @module server/document-purge
+ * @version 1.0.0
+ *
+ * ## Variables de Entorno
+ * - DOCUMENT_RETENTION_DAYS: Días que un documento eliminado puede
+ *   restaurarse antes de purgarse (default: 30)
+ *
+ * ## Ejecución
+ * Lo programa el ejecutor de jobs (server/jobs.ts) cada 6 horas, en el
+ * servidor de larga duración o desde el cron de Vercel.
+ *
+ * @example
+ * import { runDocumentPurge } from './document-purge';
+ *
+ * const purged = await runDocumentPurge();
+ */
+
+import { storage } from "./storage";
+import { getStorageDriver } from "./file-storage";
+
+/** Días de retención por defecto */
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * Obtiene el periodo de retención de documentos eliminados
+ *
+ * @returns Días configurados en DOCUMENT_RETENTION_DAYS o el valor por defecto
+ */
+export function getDocumentRetentionDays(): number {
+  const days = parseInt(process.env.DOCUMENT_RETENTION_DAYS || "", 10);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Purga los documentos eliminados cuyo periodo de retención venció
+ *
+ * Si falla el borrado de algún archivo, la fila del documento se
+ * conserva para reintentar en la siguiente ejecución.
+ *
+ * @param now - Momento de referencia (por defecto, ahora)
+ * @returns Cantidad de documentos purgados
+ */
+export async function runDocumentPurge(now: Date = new Date()): Promise<number> {
+  const deletedBefore = new Date(now.getTime() - getDocumentRetentionDays() * 24 * 60 * 60 * 1000);
+  const pending = await storage.getDocumentsPendingPurge(deletedBefore);
+
+  let purged = 0;
+  for (const document of pending) {
+    try {
+      const versions = await storage.getDocumentVersions(document.id);
+      const filePaths = new Set(
+        [document, ...versions]
+          .flatMap((file) => [file.filePath, file.previewPath])
+          .filter((filePath): filePath is string => !!filePath)
+      );
+
+      for (const filePath of Array.from(filePaths)) {
+        await getStorageDriver().delete(filePath);
+      }
+
+      if (await storage.purgeDocument(document.id)) {
+        await storage.createActivityLog({
+          userId: null,
+          action: "document_purged",
+          details: `Documento ${document.id} (${document.fileName}) del cliente ${document.clientId} purgado: ${filePaths.size} archivo(s) eliminados`,
+        });
+        purged++;
+      }
+    } catch (error) {
+      console.error(`[Purge] Error purgando el documento ${document.id}:`, error);
+    }
+  }
+
+  if (purged > 0) {
+    console.log(`[Purge] ${purged} documento(s) eliminados definitivamente`);
+  }
+  return purged;
+}
+
+/**
+ * Limpia las subidas directas vencidas sin completar
+ *
+ * @param now - Momento de referencia (por defecto, ahora)
+ * @returns Cantidad de subidas limpiadas
+ */
+export async function purgeExpiredUploads(now: Date = new Date()): Promise<number> {
+  const expired = await storage.getExpiredPendingUploads(now);
+
+  let cleaned = 0;
+  for (const upload of expired) {
+    try {
+      const driver = getStorageDriver();
+      if (upload.multipartUploadId && driver.directUploads) {
+        await driver.directUploads.abortMultipartUpload(upload.filePath, upload.multipartUploadId);
+      }
+      // Un PUT único (o una multipart ya completada) deja el archivo en su key
+      await driver.delete(upload.filePath);
+      if (await storage.claimPendingUpload(upload.id)) {
+        cleaned++;
+      }
+    } catch (error) {
+      console.error(`[Purge] Error limpiando la subida pendiente ${upload.id}:`, error);
+    }
+  }
+
+  if (cleaned > 0) {
+    console.log(`[Purge] ${cleaned} subida(s) directa(s) sin completar eliminadas`);
+  }
+  return cleaned;
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Recordatorios de Solicitudes de Documentos Vencidas
+ *
+ * Este módulo busca solicitudes de documentos abiertas cuya fecha límite
+ * ya pasó y recuerda al cliente por email y WebSocket. Cada solicitud se
+ * recuerda como máximo una vez cada REMINDER_INTERVAL_MS.
+ *
+ * Cada recordatorio se reserva en la solicitud antes de enviarlo, así
+ * que no se envía dos veces aunque el job corra a la vez en el servidor
+ * y en el cron. Si el email falla, la reserva se libera y se reintenta
+ * en la siguiente ejecución.
+ *
+ * @module server/document-request-reminders
+ * @version 1.0.0
+ *
+ * ## Ejecución
+ * Lo programa el ejecutor de jobs (server/jobs.ts) cada hora, en el
+ * servidor de larga duración o desde el cron de Vercel.
+ *
+ * @example
+ * import { runDocumentRequestReminders } from './document-request-reminders';
+ *
+ * const sent = await runDocumentRequestReminders();
+ */
+
+import { storage } from "./storage";
+import { sendDocumentRequestEmail } from "./email";
+import { wsService } from "./websocket";
+
+/** Tiempo mínimo entre recordatorios de una misma solicitud (24 horas) */
+const REMINDER_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Envía recordatorios de las solicitudes vencidas
+ *
+ * Un fallo con una solicitud no detiene el resto; se registra y se
+ * reintenta en la siguiente ejecución.
+ *
+ * @param now - Momento de referencia (por defecto, ahora)
+ * @returns Cantidad de recordatorios enviados
+ */
+export async function runDocumentRequestReminders(now: Date = new Date()): Promise<number> {
+  const remindAfter = new Date(now.getTime() - REMINDER_INTERVAL_MS);
+  const overdue = await storage.getOverdueDocumentRequests(now, remindAfter);
+
+  let sent = 0;
+  for (const request of overdue) {
+    try {
+      const [client, taxCase] = await Promise.all([
+        storage.getUser(request.clientId),
+        storage.getTaxCase(request.caseId),
+      ]);
+      if (!client || !taxCase) continue;
+
+      if (!(await storage.claimDocumentRequestReminder(request.id, now, remindAfter))) {
+        continue;
+      }
+
+      const delivered = await sendDocumentRequestEmail({
+        clientName: client.name,
+        clientEmail: client.email,
+        filingYear: taxCase.filingYear,
+        category: request.category,
+        description: request.description,
+        dueDate: request.dueDate,
+        isReminder: true,
+      });
+      if (!delivered) {
+        await storage.releaseDocumentRequestReminder(request.id, now, request.lastReminderAt);
+        continue;
+      }
+
+      try {
+        wsService.notifyDocumentRequested(request.clientId, request.id, request.caseId, request.description, true);
+      } catch (wsError) {
+        console.warn('[Reminders] WebSocket notification failed (non-critical):', wsError);
+      }
+
+      sent++;
+    } catch (error) {
+      console.error(`[Reminders] Error enviando recordatorio de la solicitud ${request.id}:`, error);
+    }
+  }
+
+  if (sent > 0) {
+    console.log(`[Reminders] ${sent} recordatorio(s) de documentos vencidos enviados`);
+  }
+  return sent;
+}
@@ -0,0 +1,292 @@
+/**
+ * @fileoverview Firma Electrónica de Documentos
+ *
+ * Genera el PDF firmado de una solicitud de firma (Form 8879, cartas de
+ * compromiso). El PDF original no se modifica: se agrega al pie de cada
+ * página una marca con el firmante, la fecha y el hash del original, y
+ * al final una página de certificado con la firma y los datos de
+ * auditoría (IP, navegador, consentimiento).
+ *
+ * @module server/e-signature
+ * @version 1.0.0
+ *
+ * Los PDF se dibujan con las fuentes estándar de PDF, que solo cubren
+ * el alfabeto latino (WinAnsi). Los nombres escritos como firma deben
+ * poder dibujarse; en el resto de los textos los caracteres que no se
+ * pueden dibujar se sustituyen por "?".
+ *
+ * @example
+ * import { sha256, stampSignedPdf } from './e-signature';
+ *
+ * const signedPdf = await stampSignedPdf(original, {
+ *   requestId: 12,
+ *   title: 'Form 8879 2025',
+ *   ...
+ * });
+ */
+
+import crypto from "crypto";
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+
+// =============================================================================
+// TIPOS Y CONSTANTES
+// =============================================================================
+
+/** Tamaño máximo de la imagen PNG de una firma dibujada */
+export const SIGNATURE_IMAGE_MAX_BYTES = 256 * 1024;
+
+/** Texto de consentimiento que el cliente acepta al firmar */
+export const SIGNATURE_CONSENT_TEXT =
+  "The signer agreed to sign this document electronically and agreed that the electronic " +
+  "signature has the same legal effect as a handwritten signature.";
+
+/** Caracteres que pueden dibujarse con las fuentes estándar de PDF */
+const WIN_ANSI_TEXT = /^[\x20-\x7E\xA0-\xFF]*$/;
+
+/** Tamaño carta, en puntos */
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+
+/**
+ * Datos que se estampan en el PDF firmado
+ *
+ * @property requestId - ID de la solicitud de firma
+ * @property title - Título del documento
+ * @property fileName - Nombre del PDF original
+ * @property signerName - Nombre de la cuenta del cliente
+ * @property signerEmail - Email de la cuenta del cliente
+ * @property signatureType - Firma escrita o dibujada
+ * @property typedName - Nombre escrito como firma (si es escrita)
+ * @property drawnSignature - PNG de la firma (si es dibujada)
+ * @property ip - IP desde la que firmó
+ * @property userAgent - Navegador desde el que firmó
+ * @property signedAt - Fecha de la firma
+ * @property documentHash - SHA-256 del PDF original
+ */
+export interface SignatureStamp {
+  requestId: number;
+  title: string;
+  fileName: string;
+  signerName: string;
+  signerEmail: string;
+  signatureType: "typed" | "drawn";
+  typedName?: string;
+  drawnSignature?: Buffer;
+  ip: string;
+  userAgent: string | null;
+  signedAt: Date;
+  documentHash: string;
+}
+
+// =============================================================================
+// UTILIDADES
+// =============================================================================
+
+/**
+ * Hash SHA-256 en hex de un contenido
+ *
+ * @param content - Contenido a resumir
+ */
+export function sha256(content: Buffer): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Indica si un nombre escrito puede dibujarse como firma
+ *
+ * @param name - Nombre escrito por el cliente
+ */
+export function canRenderTypedSignature(name: string): boolean {
+  return WIN_ANSI_TEXT.test(name);
+}
+
+/** Bytes iniciales de los archivos PNG */
+const PNG_MAGIC = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Indica si la firma dibujada que envía el navegador es un PNG
+ *
+ * @param image - Contenido recibido en el campo 'signature'
+ */
+export function isPngImage(image: Buffer): boolean {
+  return image.length > PNG_MAGIC.length && image.subarray(0, PNG_MAGIC.length).equals(PNG_MAGIC);
+}
+
+/**
+ * Indica si pdf-lib puede abrir y modificar un PDF
+ *
+ * Se comprueba al crear la solicitud para que un PDF cifrado o dañado
+ * se rechace antes de enviarlo al cliente.
+ *
+ * @param content - Contenido del PDF
+ */
+export async function isSignablePdf(content: Buffer): Promise<boolean> {
+  try {
+    const pdf = await PDFDocument.load(content);
+    return pdf.getPageCount() > 0;
+  } catch {
+    return false;
+  }
+}
+
+/** Sustituye los caracteres que las fuentes estándar no pueden dibujar */
+function toDrawableText(text: string): string {
+  return Array.from(text.replace(/[\r\n\t]+/g, " "), (char) => (WIN_ANSI_TEXT.test(char) ? char : "?")).join("");
+}
+
+/** Fecha en UTC con formato `2026-01-31 18:04:05 UTC` */
+function formatUtc(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace("T", " ")} UTC`;
+}
+
+/**
+ * Divide un texto en líneas que caben en un ancho
+ *
+ * Las palabras más largas que el ancho (hashes, user agents) se cortan.
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of text.split(" ")) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+
+    line = word;
+    while (font.widthOfTextAtSize(line, size) > maxWidth) {
+      let cut = line.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > maxWidth) cut--;
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// =============================================================================
+// PDF FIRMADO
+// =============================================================================
+
+/**
+ * Dibuja al pie de una página la marca de firma
+ *
+ * El tamaño de letra se reduce si la marca no cabe en el ancho de la página.
+ */
+function drawFooterStamp(page: PDFPage, font: PDFFont, text: string): void {
+  const box = page.getCropBox();
+  const maxWidth = box.width - 24;
+  let size = 6.5;
+  while (size > 4 && font.widthOfTextAtSize(text, size) > maxWidth) size -= 0.5;
+
+  // Fondo blanco para que la marca se lea sobre el contenido de la página
+  page.drawRectangle({
+    x: box.x + 8,
+    y: box.y + 4,
+    width: Math.min(font.widthOfTextAtSize(text, size), maxWidth) + 8,
+    height: size + 6,
+    color: rgb(1, 1, 1),
+  });
+  page.drawText(text, {
+    x: box.x + 12,
+    y: box.y + 8,
+    size,
+    font,
+    color: rgb(0.25, 0.25, 0.25),
+    maxWidth,
+  });
+}
+
+/**
+ * Genera el PDF firmado
+ *
+ * @param original - PDF original (ya verificado contra su hash)
+ * @param stamp - Datos de la firma
+ * @returns PDF firmado
+ * @throws Error si el PDF no puede abrirse o la firma dibujada no es un PNG válido
+ */
+export async function stampSignedPdf(original: Buffer, stamp: SignatureStamp): Promise<Buffer> {
+  const pdf = await PDFDocument.load(original);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const script = await pdf.embedFont(StandardFonts.TimesRomanItalic);
+
+  const signerName = toDrawableText(stamp.signerName);
+  const signedAt = formatUtc(stamp.signedAt);
+
+  const footer = toDrawableText(
+    `Electronically signed by ${signerName} on ${signedAt} - Signature request #${stamp.requestId} - ` +
+    `Original SHA-256: ${stamp.documentHash}`
+  );
+  for (const page of pdf.getPages()) {
+    drawFooterStamp(page, regular, footer);
+  }
+
+  // Página de certificado
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  let y = PAGE_HEIGHT - MARGIN;
+
+  page.drawText("Electronic Signature Certificate", { x: MARGIN, y: y - 18, size: 18, font: bold, color: rgb(0.04, 0.24, 0.38) });
+  y -= 48;
+
+  const rows: [string, string][] = [
+    ["Document", stamp.title],
+    ["File", stamp.fileName],
+    ["Signature request", `#${stamp.requestId}`],
+    ["Signer", `${signerName} <${stamp.signerEmail}>`],
+    ["Signature method", stamp.signatureType === "typed" ? "Typed name" : "Drawn signature"],
+    ["Signed at", signedAt],
+    ["IP address", stamp.ip],
+    ["User agent", stamp.userAgent || "Unknown"],
+    ["Original document SHA-256", stamp.documentHash],
+    ["Consent", SIGNATURE_CONSENT_TEXT],
+  ];
+
+  for (const [label, value] of rows) {
+    page.drawText(label, { x: MARGIN, y, size: 9, font: bold });
+    y -= 13;
+    for (const line of wrapText(toDrawableText(value), regular, 10, contentWidth)) {
+      page.drawText(line, { x: MARGIN, y, size: 10, font: regular });
+      y -= 13;
+    }
+    y -= 7;
+  }
+
+  y -= 10;
+  page.drawText("Signature", { x: MARGIN, y, size: 9, font: bold });
+  y -= 12;
+
+  const boxHeight = 90;
+  const boxWidth = 280;
+  if (stamp.signatureType === "drawn" && stamp.drawnSignature) {
+    const image = await pdf.embedPng(stamp.drawnSignature);
+    const scale = Math.min(boxWidth / image.width, boxHeight / image.height, 1);
+    page.drawImage(image, {
+      x: MARGIN,
+      y: y - image.height * scale,
+      width: image.width * scale,
+      height: image.height * scale,
+    });
+  } else {
+    const typedName = toDrawableText(stamp.typedName || signerName);
+    let size = 28;
+    while (size > 12 && script.widthOfTextAtSize(typedName, size) > contentWidth) size -= 2;
+    page.drawText(typedName, { x: MARGIN, y: y - 40, size, font: script });
+  }
+  y -= boxHeight + 6;
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: MARGIN + boxWidth, y },
+    thickness: 0.75,
+    color: rgb(0.4, 0.4, 0.4),
+  });
+
+  pdf.setModificationDate(stamp.signedAt);
+  return Buffer.from(await pdf.save());
+}
@@ -10,9 +10,11 @@
  * ## Tipos de Emails
  * - Notificaciones de formulario de contacto
  * - Emails de bienvenida a nuevos usuarios
- * - Notificaciones de documentos subidos
+ * - Notificaciones de documentos subidos (al admin, o al cliente si sube el preparador)
  * - Actualizaciones de estado de casos
- * - Confirmaciones de citas
+ * - Confirmaciones, cancelaciones, reprogramaciones y recordatorios de citas
+ * - Solicitudes de documentos y recordatorios de vencimiento
+ * - Rechazo de documentos revisados por el preparador
  * 
  * ## Características
  * - Integración con Resend via Replit Connectors
@@ -212,7 +214,10 @@ const CATEGORY_LABELS: Record<string, string> = {
   'previous_return': 'Previous Tax Return / Declaración Anterior',
   'social_security': 'Social Security Card / Seguro Social',
   'proof_of_address': 'Proof of Address / Comprobante de Domicilio',
-  'other': 'Other Document / Otro Documento'
+  'other': 'Other Document / Otro Documento',
+  'tax_return': 'Tax Return / Declaración de Impuestos',
+  'irs_letter': 'IRS Letter / Carta del IRS',
+  'signed_form': 'Signed Form / Formulario Firmado'
 };
 
 /**
@@ -225,6 +230,67 @@ const STATUS_LABELS: Record<string, { en: string; es: string; color: string }> =
   'sent_to_irs': { en: 'Sent to IRS', es: 'Enviado al IRS', color: '#9b59b6' },
   'approved': { en: 'Approved', es: 'Aprobado', color: '#2ECC71' },
   'refund_issued': { en: 'Refund Issued', es: 'Reembolso Emitido', color: '#27ae60' },
+  'awaiting_documents': { en: 'Awaiting Documents', es: 'Esperando Documentos', color: '#e67e22' },
+  'rejected_by_irs': { en: 'Rejected by IRS', es: 'Rechazado por el IRS', color: '#e74c3c' },
+  'amended': { en: 'Amended Return', es: 'Declaración Enmendada', color: '#16a085' },
+  'closed': { en: 'Closed', es: 'Cerrado', color: '#7f8c8d' },
+};
+
+/**
+ * Mensajes explicativos para estados que requieren contexto adicional
+ * Se incluyen en el email de actualización de estado
+ * Bilingüe inglés/español
+ */
+const STATUS_MESSAGES: Record<string, { en: string; es: string }> = {
+  'awaiting_documents': {
+    en: 'We need additional documents to continue with your return. Please upload them from your client portal.',
+    es: 'Necesitamos documentos adicionales para continuar con su declaración. Por favor súbalos desde su portal de cliente.',
+  },
+  'rejected_by_irs': {
+    en: 'The IRS rejected your return. Our team is reviewing the reason and will contact you if we need anything from you.',
+    es: 'El IRS rechazó su declaración. Nuestro equipo está revisando el motivo y le contactará si necesitamos algo de usted.',
+  },
+  'amended': {
+    en: 'We are preparing an amended return (Form 1040-X) for this tax year.',
+    es: 'Estamos preparando una declaración enmendada (Formulario 1040-X) para este año fiscal.',
+  },
+  'closed': {
+    en: 'Your case has been closed. If you believe this is an error, please contact us.',
+    es: 'Su caso ha sido cerrado. Si cree que se trata de un error, por favor contáctenos.',
+  },
+};
+
+/**
+ * Mapeo de tipos de cita a etiquetas legibles
+ * Bilingüe inglés/español
+ */
+const APPOINTMENT_TYPE_LABELS: Record<string, { en: string; es: string }> = {
+  'initial_consultation': { en: 'Initial Consultation', es: 'Consulta Inicial' },
+  'document_dropoff': { en: 'Document Drop-off', es: 'Entrega de Documentos' },
+  'return_review': { en: 'Return Review & Signing', es: 'Revisión y Firma de la Declaración' },
+  'itin_interview': { en: 'ITIN Interview', es: 'Entrevista ITIN' },
+};
+
+/**
+ * Indicaciones según el lugar de atención de la cita
+ * Bilingüe inglés/español
+ */
+const APPOINTMENT_LOCATION_DETAILS: Record<string, { title: string; en: string; es: string }> = {
+  'office': {
+    title: 'Office Location / Ubicación',
+    en: COMPANY_INFO.address,
+    es: '',
+  },
+  'phone': {
+    title: 'Phone Appointment / Cita por Teléfono',
+    en: 'We will call you at the phone number on your account.',
+    es: 'Le llamaremos al teléfono registrado en su cuenta.',
+  },
+  'video': {
+    title: 'Video Appointment / Cita por Videollamada',
+    en: 'We will email you the video call link before your appointment.',
+    es: 'Le enviaremos por email el enlace de la videollamada antes de su cita.',
+  },
 };
 
 // =============================================================================
@@ -409,6 +475,77 @@ export async function sendDocumentUploadNotification(data: {
   }
 }
 
+/**
+ * Envía notificación al cliente de un documento subido por su preparador
+ * 
+ * Variante de sendDocumentUploadNotification para la dirección
+ * contraria: el preparador adjunta una declaración, carta o formulario
+ * al caso y el cliente recibe el aviso.
+ * 
+ * @param data - Datos del documento subido
+ * @param data.clientName - Nombre del cliente
+ * @param data.clientEmail - Email del cliente
+ * @param data.fileName - Nombre del archivo
+ * @param data.category - Categoría del documento
+ * @param data.filingYear - Año fiscal del caso
+ * @param data.description - Nota del preparador (opcional)
+ * 
+ * @returns true si se envió correctamente, false si hubo error
+ */
+export async function sendPreparerDocumentNotification(data: {
+  clientName: string;
+  clientEmail: string;
+  fileName: string;
+  category: string;
+  filingYear: number;
+  description?: string | null;
+}): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getResendClient();
+    
+    await client.emails.send({
+      from: fromEmail,
+      to: data.clientEmail,
+      subject: `New Document From Your Preparer / Nuevo Documento de su Preparador - ${data.filingYear}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          ${getEmailHeader()}
+          
+          <div style="padding: 30px;">
+            <h2 style="color: #0A3D62;">New Document / Nuevo Documento</h2>
+            
+            <p>Hello / Hola, ${data.clientName}!</p>
+            
+            <p>Your preparer has shared a document with you.</p>
+            <p>Su preparador ha compartido un documento con usted.</p>
+            
+            <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <p><strong>Tax Year / Año Fiscal:</strong> ${data.filingYear}</p>
+              <p><strong>Document / Documento:</strong> ${CATEGORY_LABELS[data.category] || data.category}</p>
+              <p><strong>File / Archivo:</strong> ${data.fileName}</p>
+              ${data.description ? `<p><strong>Note / Nota:</strong> ${data.description}</p>` : ''}
+            </div>
+            
+            <p>Log in to your client portal to view and download it.</p>
+            <p>Inicie sesión en su portal de cliente para verlo y descargarlo.</p>
+            
+            <p style="margin-top: 30px;">Questions? Contact us:</p>
+            ${getContactInfo()}
+          </div>
+          
+          ${getEmailFooter()}
+        </div>
+      `,
+    });
+    
+    console.log('[email] Preparer document notification sent to:', data.clientEmail);
+    return true;
+  } catch (error) {
+    console.error('[email] Failed to send preparer document notification:', error);
+    return false;
+  }
+}
+
 /**
  * Envía notificación de actualización de estado de caso al cliente
  * 
@@ -441,6 +578,7 @@ export async function sendCaseStatusUpdate(data: {
       es: data.newStatus, 
       color: '#666' 
     };
+    const statusMessage = STATUS_MESSAGES[data.newStatus];
     
     await client.emails.send({
       from: fromEmail,
@@ -467,6 +605,11 @@ export async function sendCaseStatusUpdate(data: {
               ${data.notes ? `<p><strong>Notes / Notas:</strong> ${data.notes}</p>` : ''}
             </div>
             
+            ${statusMessage ? `
+            <p>${statusMessage.en}</p>
+            <p>${statusMessage.es}</p>
+            ` : ''}
+            
             <p>Log in to your client portal to view more details about your case.</p>
             <p>Inicie sesión en su portal de cliente para ver más detalles sobre su caso.</p>
             
@@ -487,6 +630,160 @@ export async function sendCaseStatusUpdate(data: {
   }
 }
 
+/**
+ * Envía al cliente una solicitud de documento o su recordatorio
+ * 
+ * Se usa al crear la solicitud y, si vence sin respuesta, desde el
+ * job de recordatorios con isReminder = true.
+ * 
+ * @param data - Datos de la solicitud
+ * @param data.clientName - Nombre del cliente
+ * @param data.clientEmail - Email del cliente
+ * @param data.filingYear - Año fiscal del caso
+ * @param data.category - Categoría del documento solicitado
+ * @param data.description - Descripción de lo que se necesita
+ * @param data.dueDate - Fecha límite (opcional)
+ * @param data.isReminder - true si es un recordatorio de solicitud vencida
+ * 
+ * @returns true si se envió correctamente, false si hubo error
+ */
+export async function sendDocumentRequestEmail(data: {
+  clientName: string;
+  clientEmail: string;
+  filingYear: number;
+  category: string;
+  description: string;
+  dueDate?: Date | null;
+  isReminder?: boolean;
+}): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getResendClient();
+
+    const dueDateEn = data.dueDate?.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    const dueDateEs = data.dueDate?.toLocaleDateString('es-ES', { year: 'numeric', month: 'long', day: 'numeric' });
+
+    await client.emails.send({
+      from: fromEmail,
+      to: data.clientEmail,
+      subject: data.isReminder
+        ? `Reminder: Document Overdue / Recordatorio: Documento Vencido - ${data.filingYear}`
+        : `Document Requested / Documento Solicitado - ${data.filingYear}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          ${getEmailHeader()}
+          
+          <div style="padding: 30px;">
+            <h2 style="color: ${data.isReminder ? '#ef4444' : '#0A3D62'};">
+              ${data.isReminder ? 'Document Overdue / Documento Vencido' : 'Document Requested / Documento Solicitado'}
+            </h2>
+            
+            <p>Hello / Hola, ${data.clientName}!</p>
+            
+            ${data.isReminder ? `
+            <p>We are still waiting for the following document to continue with your tax return.</p>
+            <p>Todavía esperamos el siguiente documento para continuar con su declaración.</p>
+            ` : `
+            <p>Your preparer needs the following document to continue with your tax return.</p>
+            <p>Su preparador necesita el siguiente documento para continuar con su declaración.</p>
+            `}
+            
+            <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <p><strong>Tax Year / Año Fiscal:</strong> ${data.filingYear}</p>
+              <p><strong>Document / Documento:</strong> ${CATEGORY_LABELS[data.category] || data.category}</p>
+              <p><strong>Details / Detalles:</strong> ${data.description}</p>
+              ${dueDateEn ? `<p><strong>Due Date / Fecha Límite:</strong> ${dueDateEn} / ${dueDateEs}</p>` : ''}
+            </div>
+            
+            <p>Log in to your client portal to upload it.</p>
+            <p>Inicie sesión en su portal de cliente para subirlo.</p>
+            
+            <p style="margin-top: 30px;">Questions? Contact us:</p>
+            ${getContactInfo()}
+          </div>
+          
+          ${getEmailFooter()}
+        </div>
+      `,
+    });
+
+    console.log('[email] Document request email sent to:', data.clientEmail);
+    return true;
+  } catch (error) {
+    console.error('[email] Failed to send document request email:', error);
+    return false;
+  }
+}
+
+/**
+ * Avisa al cliente que su preparador rechazó un documento
+ * 
+ * El cliente debe volver a subirlo (reemplazando el archivo) para
+ * que el preparador lo revise de nuevo.
+ * 
+ * @param data - Datos del documento rechazado
+ * @param data.clientName - Nombre del cliente
+ * @param data.clientEmail - Email del cliente
+ * @param data.fileName - Nombre del archivo rechazado
+ * @param data.category - Categoría del documento
+ * @param data.rejectionReason - Motivo indicado por el preparador
+ * @param data.filingYear - Año fiscal del caso (opcional)
+ * 
+ * @returns true si se envió correctamente, false si hubo error
+ */
+export async function sendDocumentRejectedEmail(data: {
+  clientName: string;
+  clientEmail: string;
+  fileName: string;
+  category: string;
+  rejectionReason: string;
+  filingYear?: number | null;
+}): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getResendClient();
+
+    await client.emails.send({
+      from: fromEmail,
+      to: data.clientEmail,
+      subject: `Document Needs Attention / Documento Requiere Atención${data.filingYear ? ` - ${data.filingYear}` : ''}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          ${getEmailHeader()}
+          
+          <div style="padding: 30px;">
+            <h2 style="color: #ef4444;">Document Rejected / Documento Rechazado</h2>
+            
+            <p>Hello / Hola, ${data.clientName}!</p>
+            
+            <p>Your preparer reviewed one of your documents and could not accept it.</p>
+            <p>Su preparador revisó uno de sus documentos y no pudo aceptarlo.</p>
+            
+            <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              ${data.filingYear ? `<p><strong>Tax Year / Año Fiscal:</strong> ${data.filingYear}</p>` : ''}
+              <p><strong>Document / Documento:</strong> ${CATEGORY_LABELS[data.category] || data.category}</p>
+              <p><strong>File / Archivo:</strong> ${data.fileName}</p>
+              <p><strong>Reason / Motivo:</strong> ${data.rejectionReason}</p>
+            </div>
+            
+            <p>Log in to your client portal to upload a new copy.</p>
+            <p>Inicie sesión en su portal de cliente para subir una nueva copia.</p>
+            
+            <p style="margin-top: 30px;">Questions? Contact us:</p>
+            ${getContactInfo()}
+          </div>
+          
+          ${getEmailFooter()}
+        </div>
+      `,
+    });
+
+    console.log('[email] Document rejected email sent to:', data.clientEmail);
+    return true;
+  } catch (error) {
+    console.error('[email] Failed to send document rejected email:', error);
+    return false;
+  }
+}
+
 /**
  * Envía confirmación de cita al cliente y notificación al administrador
  * 
@@ -498,10 +795,82 @@ export async function sendCaseStatusUpdate(data: {
  * @param data.clientName - Nombre del cliente
  * @param data.clientEmail - Email del cliente
  * @param data.appointmentDate - Fecha y hora de la cita
+ * @param data.appointmentType - Tipo de cita
+ * @param data.location - Lugar de atención (office, phone, video)
+ * @param data.durationMinutes - Duración de la cita
+ * @param data.timeZone - Zona horaria en que se muestra la fecha
  * @param data.notes - Notas de la cita opcionales
  * 
  * @returns true si se enviaron los emails correctamente, false si hubo error
  */
+/**
+ * Avisa al cliente que tiene un documento pendiente de firma
+ * 
+ * @param data - Datos de la solicitud de firma
+ * @param data.clientName - Nombre del cliente
+ * @param data.clientEmail - Email del cliente
+ * @param data.filingYear - Año fiscal del caso
+ * @param data.title - Título del documento a firmar
+ * @param data.kind - Tipo de documento (form_8879 o engagement_letter)
+ * 
+ * @returns true si se envió correctamente, false si hubo error
+ */
+export async function sendSignatureRequestEmail(data: {
+  clientName: string;
+  clientEmail: string;
+  filingYear: number;
+  title: string;
+  kind: string;
+}): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getResendClient();
+
+    const kindLabel = data.kind === 'form_8879'
+      ? 'IRS e-file Authorization (Form 8879) / Autorización de presentación electrónica (Formulario 8879)'
+      : 'Engagement Letter / Carta de Compromiso';
+
+    await client.emails.send({
+      from: fromEmail,
+      to: data.clientEmail,
+      subject: `Signature Required / Firma Requerida - ${data.filingYear}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          ${getEmailHeader()}
+          
+          <div style="padding: 30px;">
+            <h2 style="color: #0A3D62;">Signature Required / Firma Requerida</h2>
+            
+            <p>Hello / Hola, ${data.clientName}!</p>
+            
+            <p>Your preparer sent you a document to review and sign electronically.</p>
+            <p>Su preparador le envió un documento para revisar y firmar electrónicamente.</p>
+            
+            <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <p><strong>Tax Year / Año Fiscal:</strong> ${data.filingYear}</p>
+              <p><strong>Document / Documento:</strong> ${data.title}</p>
+              <p><strong>Type / Tipo:</strong> ${kindLabel}</p>
+            </div>
+            
+            <p>Log in to your client portal to review and sign it.</p>
+            <p>Inicie sesión en su portal de cliente para revisarlo y firmarlo.</p>
+            
+            <p style="margin-top: 30px;">Questions? Contact us:</p>
+            ${getContactInfo()}
+          </div>
+          
+          ${getEmailFooter()}
+        </div>
+      `,
+    });
+
+    console.log('[email] Signature request email sent to:', data.clientEmail);
+    return true;
+  } catch (error) {
+    console.error('[email] Failed to send signature request email:', error);
+    return false;
+  }
+}
+
 /**
  * Envía email de recuperación de contraseña
  * 
@@ -590,12 +959,16 @@ export async function sendAppointmentConfirmation(data: {
   clientName: string;
   clientEmail: string;
   appointmentDate: Date;
+  appointmentType: string;
+  location: string;
+  durationMinutes: number;
+  timeZone?: string;
   notes?: string;
 }): Promise<boolean> {
   try {
     const { client, fromEmail } = await getResendClient();
     
-    // Formatear fechas en ambos idiomas
+    // Formatear fechas en ambos idiomas, en la hora de la oficina
     const dateOptions: Intl.DateTimeFormatOptions = {
       weekday: 'long',
       year: 'numeric',
@@ -603,10 +976,14 @@ export async function sendAppointmentConfirmation(data: {
       day: 'numeric',
       hour: '2-digit',
       minute: '2-digit',
+      timeZone: data.timeZone,
+      timeZoneName: data.timeZone ? 'short' : undefined,
     };
     
     const formattedDateEn = data.appointmentDate.toLocaleDateString('en-US', dateOptions);
     const formattedDateEs = data.appointmentDate.toLocaleDateString('es-ES', dateOptions);
+    const typeLabel = APPOINTMENT_TYPE_LABELS[data.appointmentType] || { en: data.appointmentType, es: data.appointmentType };
+    const location = APPOINTMENT_LOCATION_DETAILS[data.location] || APPOINTMENT_LOCATION_DETAILS.office;
     
     // Email al cliente
     await client.emails.send({
@@ -626,6 +1003,9 @@ export async function sendAppointmentConfirmation(data: {
             <p>Su cita ha sido programada exitosamente.</p>
             
             <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center;">
+              <p style="margin: 0 0 10px 0;">
+                <strong>${typeLabel.en} / ${typeLabel.es}</strong> (${data.durationMinutes} min)
+              </p>
               <p style="font-size: 18px; margin: 0;">
                 <strong>${formattedDateEn}</strong>
               </p>
@@ -636,9 +1016,9 @@ export async function sendAppointmentConfirmation(data: {
             </div>
             
             <div style="background: #e8f5e9; padding: 20px; border-radius: 8px; margin: 20px 0;">
-              <h3 style="color: #2ECC71; margin-top: 0;">Office Location / Ubicación</h3>
+              <h3 style="color: #2ECC71; margin-top: 0;">${location.title}</h3>
               <p style="margin-bottom: 0;">
-                ${COMPANY_INFO.address}
+                ${location.en}${location.es ? `<br>${location.es}` : ''}
               </p>
             </div>
             
@@ -665,6 +1045,8 @@ export async function sendAppointmentConfirmation(data: {
             <p><strong>Client:</strong> ${data.clientName}</p>
             <p><strong>Email:</strong> ${data.clientEmail}</p>
             <p><strong>Date/Time:</strong> ${formattedDateEn}</p>
+            <p><strong>Type:</strong> ${typeLabel.en} (${data.durationMinutes} min)</p>
+            <p><strong>Location:</strong> ${data.location}</p>
             ${data.notes ? `<p><strong>Notes:</strong> ${data.notes}</p>` : ''}
           </div>
         </div>
@@ -678,3 +1060,259 @@ export async function sendAppointmentConfirmation(data: {
     return false;
   }
 }
+
+/**
+ * Envía email de cancelación o reprogramación de una cita
+ * 
+ * Avisa al cliente del cambio. Si el cambio lo hizo el cliente desde
+ * el portal, también avisa a la oficina.
+ * 
+ * @param data - Datos del cambio
+ * @param data.clientName - Nombre del cliente
+ * @param data.clientEmail - Email del cliente
+ * @param data.change - 'cancelled' o 'rescheduled'
+ * @param data.appointmentDate - Fecha de la cita (la nueva, si se reprogramó)
+ * @param data.previousDate - Fecha anterior (solo al reprogramar)
+ * @param data.timeZone - Zona horaria en que se muestran las fechas
+ * @param data.reason - Motivo de la cancelación
+ * @param data.changedByClient - Si el cambio lo hizo el cliente
+ * 
+ * @returns true si se envió correctamente, false si hubo error
+ */
+export async function sendAppointmentChangeEmail(data: {
+  clientName: string;
+  clientEmail: string;
+  change: 'cancelled' | 'rescheduled';
+  appointmentDate: Date;
+  previousDate?: Date;
+  timeZone?: string;
+  reason?: string;
+  changedByClient: boolean;
+}): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getResendClient();
+
+    const dateOptions: Intl.DateTimeFormatOptions = {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: data.timeZone,
+      timeZoneName: data.timeZone ? 'short' : undefined,
+    };
+    const formatEn = (date: Date) => date.toLocaleDateString('en-US', dateOptions);
+    const formatEs = (date: Date) => date.toLocaleDateString('es-ES', dateOptions);
+
+    const isCancelled = data.change === 'cancelled';
+    const title = isCancelled
+      ? 'Appointment Cancelled / Cita Cancelada'
+      : 'Appointment Rescheduled / Cita Reprogramada';
+
+    await client.emails.send({
+      from: fromEmail,
+      to: data.clientEmail,
+      subject: `${title} - Highlight Tax Services`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          ${getEmailHeader()}
+          
+          <div style="padding: 30px;">
+            <h2 style="color: ${isCancelled ? '#E74C3C' : '#0A3D62'};">${title}</h2>
+            
+            <p>Hello / Hola, ${data.clientName}!</p>
+            
+            ${isCancelled ? `
+              <p>Your appointment has been cancelled.</p>
+              <p>Su cita ha sido cancelada.</p>
+            ` : `
+              <p>Your appointment has been moved to a new date and time.</p>
+              <p>Su cita ha sido cambiada a una nueva fecha y hora.</p>
+            `}
+            
+            <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center;">
+              ${data.previousDate ? `
+                <p style="color: #999; margin: 0 0 10px 0; text-decoration: line-through;">
+                  ${formatEn(data.previousDate)}
+                </p>
+              ` : ''}
+              <p style="font-size: 18px; margin: 0;${isCancelled ? ' text-decoration: line-through;' : ''}">
+                <strong>${formatEn(data.appointmentDate)}</strong>
+              </p>
+              <p style="color: #666; margin: 5px 0 0 0;">
+                ${formatEs(data.appointmentDate)}
+              </p>
+              ${data.reason ? `<p style="margin-top: 15px;"><strong>Reason / Motivo:</strong> ${data.reason}</p>` : ''}
+            </div>
+            
+            ${isCancelled ? `
+              <p>You can schedule a new appointment from your client portal at any time.</p>
+              <p>Puede agendar una nueva cita desde su portal de cliente en cualquier momento.</p>
+            ` : ''}
+            
+            ${getContactInfo()}
+          </div>
+          
+          ${getEmailFooter()}
+        </div>
+      `,
+    });
+
+    // Aviso a la oficina cuando el cambio lo hizo el cliente
+    if (data.changedByClient) {
+      await client.emails.send({
+        from: fromEmail,
+        to: ADMIN_EMAIL,
+        subject: `${isCancelled ? 'Appointment Cancelled' : 'Appointment Rescheduled'} - ${data.clientName} - ${formatEn(data.appointmentDate)}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #0A3D62;">${isCancelled ? 'Appointment Cancelled by Client' : 'Appointment Rescheduled by Client'}</h2>
+            <div style="background: #f5f5f5; padding: 20px; border-radius: 8px;">
+              <p><strong>Client:</strong> ${data.clientName}</p>
+              <p><strong>Email:</strong> ${data.clientEmail}</p>
+              ${data.previousDate ? `<p><strong>Previous Date/Time:</strong> ${formatEn(data.previousDate)}</p>` : ''}
+              <p><strong>${isCancelled ? 'Date/Time' : 'New Date/Time'}:</strong> ${formatEn(data.appointmentDate)}</p>
+              ${data.reason ? `<p><strong>Reason:</strong> ${data.reason}</p>` : ''}
+            </div>
+          </div>
+        `,
+      });
+    }
+
+    console.log(`[email] Appointment ${data.change} email sent to:`, data.clientEmail);
+    return true;
+  } catch (error) {
+    console.error('[email] Failed to send appointment change email:', error);
+    return false;
+  }
+}
+
+/**
+ * Envía un recordatorio de cita al cliente
+ * 
+ * Incluye enlaces de un clic para confirmar la asistencia y, mientras
+ * el cliente todavía puede cancelar, para cancelar la cita.
+ * 
+ * @param data - Datos del recordatorio
+ * @param data.clientName - Nombre del cliente
+ * @param data.clientEmail - Email del cliente
+ * @param data.kind - 'day_before' (24 horas antes) o 'hour_before' (1 hora antes)
+ * @param data.appointmentDate - Fecha y hora de la cita
+ * @param data.appointmentType - Tipo de cita
+ * @param data.location - Lugar de atención (office, phone, video)
+ * @param data.durationMinutes - Duración de la cita
+ * @param data.timeZone - Zona horaria en que se muestra la fecha
+ * @param data.confirmed - Si el cliente ya confirmó su asistencia
+ * @param data.confirmUrl - Enlace de confirmación
+ * @param data.cancelUrl - Enlace de cancelación (si todavía puede cancelar)
+ * 
+ * @returns true si se envió correctamente, false si hubo error
+ */
+export async function sendAppointmentReminder(data: {
+  clientName: string;
+  clientEmail: string;
+  kind: 'day_before' | 'hour_before';
+  appointmentDate: Date;
+  appointmentType: string;
+  location: string;
+  durationMinutes: number;
+  timeZone?: string;
+  confirmed: boolean;
+  confirmUrl: string;
+  cancelUrl?: string;
+}): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getResendClient();
+
+    const dateOptions: Intl.DateTimeFormatOptions = {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: data.timeZone,
+      timeZoneName: data.timeZone ? 'short' : undefined,
+    };
+    const formattedDateEn = data.appointmentDate.toLocaleDateString('en-US', dateOptions);
+    const formattedDateEs = data.appointmentDate.toLocaleDateString('es-ES', dateOptions);
+    const typeLabel = APPOINTMENT_TYPE_LABELS[data.appointmentType] || { en: data.appointmentType, es: data.appointmentType };
+    const location = APPOINTMENT_LOCATION_DETAILS[data.location] || APPOINTMENT_LOCATION_DETAILS.office;
+
+    const isDayBefore = data.kind === 'day_before';
+    const title = isDayBefore
+      ? 'Your Appointment is Tomorrow / Su Cita es Mañana'
+      : 'Your Appointment Starts Soon / Su Cita Comienza Pronto';
+
+    await client.emails.send({
+      from: fromEmail,
+      to: data.clientEmail,
+      subject: `Reminder / Recordatorio: ${typeLabel.en} - ${formattedDateEn}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          ${getEmailHeader()}
+          
+          <div style="padding: 30px;">
+            <h2 style="color: #0A3D62;">${title}</h2>
+            
+            <p>Hello / Hola, ${data.clientName}!</p>
+            
+            <p>This is a reminder of your upcoming appointment with Highlight Tax Services.</p>
+            <p>Le recordamos su próxima cita con Highlight Tax Services.</p>
+            
+            <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center;">
+              <p style="margin: 0 0 10px 0;">
+                <strong>${typeLabel.en} / ${typeLabel.es}</strong> (${data.durationMinutes} min)
+              </p>
+              <p style="font-size: 18px; margin: 0;">
+                <strong>${formattedDateEn}</strong>
+              </p>
+              <p style="color: #666; margin: 5px 0 0 0;">
+                ${formattedDateEs}
+              </p>
+            </div>
+            
+            <div style="background: #e8f5e9; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <h3 style="color: #2ECC71; margin-top: 0;">${location.title}</h3>
+              <p style="margin-bottom: 0;">
+                ${location.en}${location.es ? `<br>${location.es}` : ''}
+              </p>
+            </div>
+            
+            ${data.confirmed ? `
+              <p>You have already confirmed your attendance. Thank you!</p>
+              <p>Ya confirmó su asistencia. ¡Gracias!</p>
+            ` : `
+              <p style="text-align: center; margin: 30px 0;">
+                <a href="${data.confirmUrl}" style="background: #2ECC71; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">
+                  Confirm Attendance / Confirmar Asistencia
+                </a>
+              </p>
+            `}
+            
+            ${data.cancelUrl ? `
+              <p style="text-align: center;">
+                Can't make it? / ¿No puede asistir?
+                <a href="${data.cancelUrl}" style="color: #E74C3C;">Cancel appointment / Cancelar cita</a>
+              </p>
+            ` : `
+              <p>If you can no longer attend, please call us as soon as possible.</p>
+              <p>Si ya no puede asistir, llámenos lo antes posible.</p>
+            `}
+            
+            ${getContactInfo()}
+          </div>
+          
+          ${getEmailFooter()}
+        </div>
+      `,
+    });
+
+    console.log(`[email] Appointment ${data.kind} reminder sent to:`, data.clientEmail);
+    return true;
+  } catch (error) {
+    console.error('[email] Failed to send appointment reminder:', error);
+    return false;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Cifrado de Campos Sensibles
+ *
+ * Este módulo cifra y descifra valores sensibles (como SSN de
+ * dependientes) antes de guardarlos en la base de datos, usando
+ * AES-256-GCM con un IV aleatorio por valor.
+ *
+ * @module server/encryption
+ * @version 1.0.0
+ *
+ * ## Variables de Entorno
+ * - FIELD_ENCRYPTION_KEY: Clave de 32 bytes en hex (64 caracteres) o base64.
+ *   Requerida en producción. En desarrollo, si falta, se deriva una clave
+ *   de SESSION_SECRET y se muestra una advertencia.
+ *
+ * ## Formato del Valor Cifrado
+ * `v1:<iv>:<authTag>:<ciphertext>` (cada parte en base64)
+ *
+ * @example
+ * import { encryptField, decryptField } from './encryption';
+ *
+ * const stored = encryptField('123-45-6789');
+ * decryptField(stored); // '123-45-6789'
+ */
+
+import crypto from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const FORMAT_VERSION = "v1";
+
+let cachedKey: Buffer | null = null;
+
+/**
+ * Obtiene la clave de cifrado de campos
+ *
+ * Se resuelve de forma perezosa para que el servidor pueda arrancar
+ * aunque la clave no esté configurada; el error aparece solo al
+ * intentar cifrar o descifrar.
+ *
+ * @throws Error si no hay clave válida en producción
+ */
+function getKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  const raw = process.env.FIELD_ENCRYPTION_KEY?.trim();
+  if (raw) {
+    const key = /^[0-9a-fA-F]{64}$/.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+    if (key.length !== 32) {
+      throw new Error("FIELD_ENCRYPTION_KEY debe tener 32 bytes (64 caracteres hex o base64)");
+    }
+    cachedKey = key;
+    return key;
+  }
+
+  if (process.env.NODE_ENV === "production" || !process.env.SESSION_SECRET) {
+    throw new Error("FIELD_ENCRYPTION_KEY no está configurada");
+  }
+
+  console.warn("[Encryption] FIELD_ENCRYPTION_KEY no está configurada. Se usará una clave derivada de SESSION_SECRET (solo desarrollo).");
+  cachedKey = crypto.scryptSync(process.env.SESSION_SECRET, "highlight-field-encryption", 32);
+  return cachedKey;
+}
+
+/**
+ * Cifra un valor de texto
+ *
+ * @param plaintext - Valor a cifrar
+ * @returns Valor cifrado en formato `v1:iv:tag:ciphertext`
+ */
+export function encryptField(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [FORMAT_VERSION, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+/**
+ * Descifra un valor generado por encryptField
+ *
+ * @param stored - Valor cifrado
+ * @returns Texto original
+ * @throws Error si el formato es inválido o el valor fue alterado
+ */
+export function decryptField(stored: string): string {
+  const [version, iv, tag, ciphertext] = stored.split(":");
+  if (version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error("Formato de valor cifrado inválido");
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -0,0 +1,311 @@
+/**
+ * @fileoverview Almacenamiento de Archivos de Documentos
+ *
+ * Abstrae dónde se guardan los archivos de los documentos, sus vistas
+ * previas y las subidas en cuarentena. El resto del servidor solo maneja
+ * keys (p. ej. "documents/1700000000000-123-w2.pdf") y las pasa al driver
+ * configurado.
+ *
+ * @module server/file-storage
+ * @version 1.0.0
+ *
+ * ## Drivers
+ * - r2: Cloudflare R2 (o cualquier almacenamiento compatible con S3).
+ *   Las descargas se sirven con URLs firmadas y admite subidas directas
+ *   desde el navegador.
+ * - local: disco local, bajo STORAGE_LOCAL_DIR (uploads/ por defecto).
+ *   Las descargas pasan por el servidor.
+ * - memory: en memoria, para pruebas. Se pierde al reiniciar.
+ *
+ * ## Variables de Entorno
+ * - STORAGE_DRIVER: r2, local o memory. Por defecto r2 si está
+ *   configurado y, si no, local
+ * - STORAGE_LOCAL_DIR: directorio del driver local
+ *
+ * Otro driver puede conectarse con setStorageDriver().
+ *
+ * @example
+ * import { getStorageDriver, generateStorageKey } from './file-storage';
+ *
+ * const key = generateStorageKey(file.originalname);
+ * await getStorageDriver().put(key, content, file.mimetype);
+ */
+
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  isR2Configured,
+  uploadBufferToR2,
+  getR2ObjectStream,
+  getR2SignedUrl,
+  getR2ObjectInfo,
+  fileExistsInR2,
+  deleteFromR2,
+  getR2UploadUrl,
+  createR2MultipartUpload,
+  completeR2MultipartUpload,
+  abortR2MultipartUpload,
+} from "./r2";
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+/** Drivers disponibles */
+export type StorageDriverName = "r2" | "local" | "memory";
+
+/**
+ * Datos de un archivo almacenado
+ *
+ * @property size - Tamaño en bytes
+ * @property contentType - Tipo MIME guardado, o null si el driver no lo conserva
+ */
+export interface StoredFileInfo {
+  size: number;
+  contentType: string | null;
+}
+
+/**
+ * Subidas directas del navegador al almacenamiento
+ *
+ * Solo los drivers con URLs firmadas de subida las implementan.
+ */
+export interface DirectUploadSupport {
+  /** URL firmada para subir el archivo con un único PUT */
+  getUploadUrl(key: string, mimeType: string, expiresIn: number): Promise<string>;
+  /** Inicia una subida multipart y firma la URL de cada parte (partNumber desde 1) */
+  createMultipartUpload(
+    key: string,
+    mimeType: string,
+    partCount: number,
+    expiresIn: number
+  ): Promise<{ uploadId: string; partUrls: { partNumber: number; url: string }[] }>;
+  /** Une las partes subidas en el archivo final */
+  completeMultipartUpload(key: string, uploadId: string, parts: { partNumber: number; etag: string }[]): Promise<void>;
+  /** Cancela una subida multipart y libera sus partes */
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
+
+/**
+ * Driver de almacenamiento
+ *
+ * delete no falla si el archivo no existe, por lo que la purga puede
+ * reintentarse sin riesgo.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  /** Guarda el contenido en la key, reemplazándolo si ya existía */
+  put(key: string, body: Buffer, mimeType: string): Promise<void>;
+  /** Abre el archivo para leerlo, o null si no existe */
+  getStream(key: string): Promise<Readable | null>;
+  /** URL firmada de descarga, o null si el driver no las genera y el archivo debe servirse con getStream */
+  getSignedUrl(key: string, expiresIn: number): Promise<string | null>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  /** Tamaño y tipo del archivo, o null si no existe */
+  stat(key: string): Promise<StoredFileInfo | null>;
+  /** Subidas directas desde el navegador, o null si el driver no las admite */
+  readonly directUploads: DirectUploadSupport | null;
+}
+
+// =============================================================================
+// KEYS
+// =============================================================================
+
+/**
+ * Genera una key única para un archivo
+ *
+ * Formato: {prefix}/{timestamp}-{random}-{sanitized-filename}
+ *
+ * @param originalName - Nombre original del archivo
+ * @param prefix - Carpeta de destino ('documents' o 'quarantine')
+ * @returns Key única para el archivo
+ */
+export function generateStorageKey(originalName: string, prefix: string = "documents"): string {
+  const sanitizedName = originalName
+    .replace(/[^a-zA-Z0-9.-]/g, "_")
+    .substring(0, 100);
+  const timestamp = Date.now();
+  const random = Math.round(Math.random() * 1e9);
+  return `${prefix}/${timestamp}-${random}-${sanitizedName}`;
+}
+
+// =============================================================================
+// DRIVERS
+// =============================================================================
+
+/**
+ * Crea el driver de Cloudflare R2
+ *
+ * Las funciones de server/r2 fallan con "R2 no está configurado" si
+ * faltan las variables de entorno.
+ */
+export function createR2StorageDriver(): StorageDriver {
+  return {
+    name: "r2",
+    put: async (key, body, mimeType) => {
+      await uploadBufferToR2(key, body, mimeType);
+    },
+    getStream: (key) => getR2ObjectStream(key),
+    getSignedUrl: (key, expiresIn) => getR2SignedUrl(key, expiresIn),
+    delete: (key) => deleteFromR2(key),
+    exists: (key) => fileExistsInR2(key),
+    stat: (key) => getR2ObjectInfo(key),
+    directUploads: {
+      getUploadUrl: getR2UploadUrl,
+      createMultipartUpload: createR2MultipartUpload,
+      completeMultipartUpload: completeR2MultipartUpload,
+      abortMultipartUpload: abortR2MultipartUpload,
+    },
+  };
+}
+
+/**
+ * Crea el driver de disco local
+ *
+ * Las keys se guardan como rutas relativas al directorio raíz. También
+ * acepta rutas absolutas dentro de él, como las de documentos antiguos
+ * guardados con la ruta de multer. El disco no conserva el tipo MIME.
+ *
+ * @param rootDir - Directorio raíz de los archivos
+ */
+export function createLocalStorageDriver(rootDir: string): StorageDriver {
+  const root = path.resolve(rootDir);
+
+  // Impide que una key salga del directorio raíz
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Key fuera del almacenamiento local: ${key}`);
+    }
+    return filePath;
+  };
+
+  const stat = async (key: string): Promise<StoredFileInfo | null> => {
+    try {
+      const stats = await fs.promises.stat(resolveKey(key));
+      return stats.isFile() ? { size: stats.size, contentType: null } : null;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  };
+
+  return {
+    name: "local",
+    put: async (key, body) => {
+      const filePath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, body);
+    },
+    getStream: async (key) => ((await stat(key)) ? fs.createReadStream(resolveKey(key)) : null),
+    getSignedUrl: async () => null,
+    delete: async (key) => {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    },
+    exists: async (key) => (await stat(key)) !== null,
+    stat,
+    directUploads: null,
+  };
+}
+
+/**
+ * Crea un driver en memoria
+ *
+ * Cada llamada devuelve un almacenamiento vacío e independiente.
+ */
+export function createMemoryStorageDriver(): StorageDriver {
+  const files = new Map<string, { body: Buffer; contentType: string }>();
+
+  return {
+    name: "memory",
+    put: async (key, body, mimeType) => {
+      files.set(key, { body: Buffer.from(body), contentType: mimeType });
+    },
+    getStream: async (key) => {
+      const file = files.get(key);
+      return file ? Readable.from([file.body]) : null;
+    },
+    getSignedUrl: async () => null,
+    delete: async (key) => {
+      files.delete(key);
+    },
+    exists: async (key) => files.has(key),
+    stat: async (key) => {
+      const file = files.get(key);
+      return file ? { size: file.body.length, contentType: file.contentType } : null;
+    },
+    directUploads: null,
+  };
+}
+
+/**
+ * Crea el driver indicado en las variables de entorno
+ *
+ * @returns Driver de STORAGE_DRIVER, o R2 si está configurado y local si no
+ */
+function createDriverFromEnv(): StorageDriver {
+  const name = process.env.STORAGE_DRIVER || (isR2Configured ? "r2" : "local");
+  const localDir = process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), "uploads");
+
+  switch (name) {
+    case "r2":
+      return createR2StorageDriver();
+    case "memory":
+      console.warn("[Storage] Almacenamiento en memoria: los archivos se perderán al reiniciar");
+      return createMemoryStorageDriver();
+    case "local":
+      console.log(`[Storage] Almacenamiento local en ${localDir}`);
+      return createLocalStorageDriver(localDir);
+    default:
+      console.warn(`[Storage] STORAGE_DRIVER desconocido (${name}); se usará almacenamiento local`);
+      return createLocalStorageDriver(localDir);
+  }
+}
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Obtiene el driver de almacenamiento activo
+ *
+ * Se crea en el primer uso para que las variables de entorno ya estén cargadas.
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!driver) {
+    driver = createDriverFromEnv();
+  }
+  return driver;
+}
+
+/**
+ * Sustituye el driver de almacenamiento
+ *
+ * @param storageDriver - Driver a usar
+ */
+export function setStorageDriver(storageDriver: StorageDriver): void {
+  driver = storageDriver;
+}
+
+// =============================================================================
+// UTILIDADES
+// =============================================================================
+
+/**
+ * Copia un archivo almacenado a disco
+ *
+ * Para procesos que necesitan una ruta local (OCR, verificación de
+ * subidas directas).
+ *
+ * @param key - Key del archivo
+ * @param outputPath - Ruta donde escribir la copia
+ * @throws Error si el archivo no existe o falla la lectura
+ */
+export async function downloadStoredFile(key: string, outputPath: string): Promise<void> {
+  const stream = await getStorageDriver().getStream(key);
+  if (!stream) {
+    throw new Error(`Archivo no encontrado en el almacenamiento: ${key}`);
+  }
+  await pipeline(stream, fs.createWriteStream(outputPath));
+}
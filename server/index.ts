@@ -22,6 +22,7 @@
  * 5. Registro de rutas API
  * 6. Configuración de Vite (desarrollo) o archivos estáticos (producción)
  * 7. Inicio del servidor HTTP en puerto 5000
+ * 8. Programación de los jobs en segundo plano (server/jobs.ts)
  */
 
 // Cargar variables de entorno desde .env ANTES de cualquier otra importación
@@ -304,4 +305,8 @@ app.use((req, res, next) => {
   httpServer.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
   });
+
+  // Jobs en segundo plano: recordatorios, purga y OCR de documentos (ver server/jobs.ts)
+  const { startJobs } = await import("./jobs");
+  startJobs();
 })();
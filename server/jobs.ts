@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Ejecutor de Jobs en Segundo Plano
+ *
+ * Reúne los jobs periódicos del servidor y los ejecuta de dos formas:
+ *
+ * 1. En el servidor de larga duración (server/index.ts), startJobs()
+ *    programa cada job con su intervalo
+ * 2. En Vercel no hay proceso persistente: el cron de vercel.json llama a
+ *    GET /api/cron/:job, que ejecuta runJob()
+ *
+ * Los jobs son idempotentes (reservan su trabajo en la base de datos),
+ * así que pueden correr en ambos lados a la vez sin duplicar envíos ni
+ * borrados. Dentro de un mismo proceso, una ejecución no empieza
+ * mientras la anterior del mismo job siga en curso.
+ *
+ * Los módulos de cada job se importan al ejecutarlo, para que las
+ * dependencias pesadas (OCR) no se carguen hasta que hagan falta.
+ *
+ * @module server/jobs
+ * @version 1.0.0
+ *
+ * ## Variables de Entorno
+ * - CRON_SECRET: Token que Vercel envía como "Authorization: Bearer" al
+ *   llamar a los endpoints de cron; sin él, los endpoints están deshabilitados
+ *
+ * @example
+ * import { runJob } from './jobs';
+ *
+ * const processed = await runJob('appointment-reminders'); // null si ya estaba en curso
+ */
+
+/**
+ * Job periódico
+ *
+ * @property name - Nombre del job (se usa en la URL del cron)
+ * @property intervalMs - Frecuencia en el servidor de larga duración
+ * @property run - Ejecuta el job; devuelve la cantidad de elementos procesados
+ */
+interface BackgroundJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<number>;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/** Jobs del servidor */
+const JOBS: BackgroundJob[] = [
+  {
+    // Recordatorios de citas de 24 horas y 1 hora
+    name: "appointment-reminders",
+    intervalMs: 5 * MINUTE_MS,
+    run: async () => (await import("./appointment-reminders")).runAppointmentReminders(),
+  },
+  {
+    // Recordatorios de solicitudes de documentos vencidas
+    name: "document-request-reminders",
+    intervalMs: 60 * MINUTE_MS,
+    run: async () => (await import("./document-request-reminders")).runDocumentRequestReminders(),
+  },
+  {
+    // Purga de documentos eliminados y de subidas directas sin completar
+    name: "document-purge",
+    intervalMs: 6 * 60 * MINUTE_MS,
+    run: async () => {
+      const { runDocumentPurge, purgeExpiredUploads } = await import("./document-purge");
+      return (await runDocumentPurge()) + (await purgeExpiredUploads());
+    },
+  },
+  {
+    // Extracción OCR de W-2 y 1099
+    name: "document-extraction",
+    intervalMs: MINUTE_MS,
+    run: async () => (await import("./document-extraction")).runDocumentExtractions(),
+  },
+];
+
+/** Jobs en curso en este proceso */
+const running = new Set<string>();
+
+let started = false;
+
+/**
+ * Indica si existe un job con ese nombre
+ *
+ * @param name - Nombre del job
+ */
+export function isJobName(name: string): boolean {
+  return JOBS.some((job) => job.name === name);
+}
+
+/**
+ * Ejecuta un job una vez
+ *
+ * @param name - Nombre del job
+ * @returns Elementos procesados, o null si el job ya estaba en curso en este proceso
+ * @throws Error si el job no existe o falla
+ */
+export async function runJob(name: string): Promise<number | null> {
+  const job = JOBS.find((candidate) => candidate.name === name);
+  if (!job) {
+    throw new Error(`Job desconocido: ${name}`);
+  }
+  if (running.has(job.name)) return null;
+
+  running.add(job.name);
+  try {
+    return await job.run();
+  } finally {
+    running.delete(job.name);
+  }
+}
+
+/**
+ * Programa todos los jobs en el proceso actual
+ *
+ * Cada job se ejecuta de inmediato y luego cada intervalMs. Llamarla más
+ * de una vez no crea timers duplicados.
+ */
+export function startJobs(): void {
+  if (started) return;
+  started = true;
+
+  for (const job of JOBS) {
+    const run = () => {
+      runJob(job.name).catch((error) => {
+        console.error(`[Jobs] Error en el job ${job.name}:`, error);
+      });
+    };
+
+    run();
+    setInterval(run, job.intervalMs).unref();
+  }
+}
@@ -14,16 +14,30 @@
  * - R2_BUCKET_NAME: Nombre del bucket de R2
  * - R2_PUBLIC_URL: URL pública del bucket (opcional, para signed URLs)
  * 
+ * El resto del servidor no usa este módulo directamente: accede al
+ * almacenamiento a través del driver de server/file-storage.
+ * 
  * ## Características
- * - Upload de archivos a R2
- * - Download de archivos desde R2
+ * - Upload de contenido con key propia
+ * - URLs firmadas de subida directa desde el navegador (PUT y multipart)
+ * - Lectura de archivos desde R2 como stream
  * - Generación de URLs firmadas para acceso temporal
- * - Fallback a almacenamiento local si R2 no está configurado
+ * - Eliminación de archivos (purga de documentos eliminados)
  */
 
-import { S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand } from "@aws-sdk/client-s3";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
-import fs from "fs";
+import type { Readable } from "stream";
 
 // Cargar variables de entorno
 // Solo cargar dotenv en desarrollo (Vercel inyecta variables automáticamente)
@@ -72,59 +86,31 @@ if (isR2Configured) {
   });
   console.log("[R2] Cloudflare R2 configurado correctamente");
 } else {
-  console.warn("[R2] Cloudflare R2 no está configurado. Se usará almacenamiento local.");
+  console.warn("[R2] Cloudflare R2 no está configurado. Se usará almacenamiento local (STORAGE_DRIVER).");
   console.warn("[R2] Para usar R2, configura: R2_ACCOUNT_ID, R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY, R2_BUCKET_NAME");
 }
 
 /**
- * Genera una key única para un archivo en R2
- * 
- * Formato: documents/{timestamp}-{random}-{sanitized-filename}
- * 
- * @param originalName - Nombre original del archivo
- * @returns Key única para el archivo en R2
- */
-function generateR2Key(originalName: string): string {
-  const sanitizedName = originalName
-    .replace(/[^a-zA-Z0-9.-]/g, "_")
-    .substring(0, 100);
-  const timestamp = Date.now();
-  const random = Math.round(Math.random() * 1e9);
-  return `documents/${timestamp}-${random}-${sanitizedName}`;
-}
-
-/**
- * Sube un archivo a Cloudflare R2
+ * Sube contenido en memoria a R2 con una key concreta
  * 
- * @param filePath - Ruta local del archivo
- * @param fileName - Nombre original del archivo
- * @param mimeType - Tipo MIME del archivo
+ * @param key - Key de destino en R2
+ * @param body - Contenido a subir
+ * @param mimeType - Tipo MIME del contenido
  * @returns Key del archivo en R2
  * 
  * @throws Error si R2 no está configurado o si falla la subida
  */
-export async function uploadToR2(
-  filePath: string,
-  fileName: string,
-  mimeType: string
-): Promise<string> {
+export async function uploadBufferToR2(key: string, body: Buffer, mimeType: string): Promise<string> {
   if (!isR2Configured || !s3Client) {
     throw new Error("R2 no está configurado");
   }
 
   try {
-    const fileContent = await fs.promises.readFile(filePath);
-    const key = generateR2Key(fileName);
-
     const command = new PutObjectCommand({
       Bucket: R2_BUCKET_NAME!,
       Key: key,
-      Body: fileContent,
+      Body: body,
       ContentType: mimeType,
-      // Metadata opcional
-      Metadata: {
-        originalName: fileName,
-      },
     });
 
     await s3Client.send(command);
@@ -196,57 +182,223 @@ export async function fileExistsInR2(key: string): Promise<boolean> {
 }
 
 /**
- * Descarga un archivo de R2 a un archivo temporal
+ * Abre un archivo de R2 para leerlo como stream
  * 
  * @param key - Key del archivo en R2
- * @param outputPath - Ruta donde guardar el archivo temporal
- * @returns Ruta del archivo descargado
+ * @returns Stream con el contenido, o null si no existe
  * 
  * @throws Error si R2 no está configurado o si falla la descarga
  */
-export async function downloadFromR2(key: string, outputPath: string): Promise<string> {
+export async function getR2ObjectStream(key: string): Promise<Readable | null> {
   if (!isR2Configured || !s3Client) {
     throw new Error("R2 no está configurado");
   }
 
   try {
-    const command = new GetObjectCommand({
+    const response = await s3Client.send(new GetObjectCommand({ Bucket: R2_BUCKET_NAME!, Key: key }));
+    if (!response.Body) {
+      throw new Error("El archivo está vacío");
+    }
+    // En Node.js el cuerpo de la respuesta es un IncomingMessage
+    return response.Body as Readable;
+  } catch (error: any) {
+    if (error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404) {
+      return null;
+    }
+    console.error("[R2] Error descargando archivo de R2:", error);
+    throw new Error(`Error al descargar archivo de R2: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Elimina un archivo de R2
+ * 
+ * R2 responde con éxito aunque la key no exista, por lo que puede
+ * reintentarse sin riesgo.
+ * 
+ * @param key - Key del archivo en R2
+ * 
+ * @throws Error si R2 no está configurado o si falla la eliminación
+ */
+export async function deleteFromR2(key: string): Promise<void> {
+  if (!isR2Configured || !s3Client) {
+    throw new Error("R2 no está configurado");
+  }
+
+  try {
+    const command = new DeleteObjectCommand({
       Bucket: R2_BUCKET_NAME!,
       Key: key,
     });
 
-    const response = await s3Client.send(command);
-    
-    if (!response.Body) {
-      throw new Error("El archivo está vacío");
-    }
+    await s3Client.send(command);
+    console.log(`[R2] Archivo eliminado de R2: ${key}`);
+  } catch (error) {
+    console.error("[R2] Error eliminando archivo de R2:", error);
+    throw new Error(`Error al eliminar archivo de R2: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
 
-    // Convertir el stream a buffer
-    const chunks: Uint8Array[] = [];
-    // @ts-ignore - response.Body puede ser un stream o un Blob
-    for await (const chunk of response.Body) {
-      chunks.push(chunk);
+/**
+ * Obtiene el tamaño y tipo de un archivo en R2
+ * 
+ * @param key - Key del archivo en R2
+ * @returns Tamaño en bytes y Content-Type, o null si no existe
+ * 
+ * @throws Error si R2 no está configurado o si falla la consulta
+ */
+export async function getR2ObjectInfo(key: string): Promise<{ size: number; contentType: string | null } | null> {
+  if (!isR2Configured || !s3Client) {
+    throw new Error("R2 no está configurado");
+  }
+
+  try {
+    const response = await s3Client.send(new HeadObjectCommand({ Bucket: R2_BUCKET_NAME!, Key: key }));
+    return { size: response.ContentLength ?? 0, contentType: response.ContentType ?? null };
+  } catch (error: any) {
+    if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) {
+      return null;
     }
-    const buffer = Buffer.concat(chunks);
+    console.error("[R2] Error consultando archivo en R2:", error);
+    throw new Error(`Error al consultar archivo en R2: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
 
-    // Guardar el archivo
-    await fs.promises.writeFile(outputPath, buffer);
-    console.log(`[R2] Archivo descargado de R2: ${key} -> ${outputPath}`);
+/**
+ * Genera una URL firmada para subir un archivo directamente a R2
+ * 
+ * El navegador hace PUT a la URL con el archivo como cuerpo y el
+ * mismo Content-Type. El bucket debe permitir PUT desde el dominio
+ * de la aplicación en su política CORS.
+ * 
+ * @param key - Key de destino en R2
+ * @param mimeType - Tipo MIME que enviará el navegador
+ * @param expiresIn - Tiempo de expiración en segundos (default: 3600 = 1 hora)
+ * @returns URL firmada de subida
+ * 
+ * @throws Error si R2 no está configurado o si falla la generación
+ */
+export async function getR2UploadUrl(key: string, mimeType: string, expiresIn: number = 3600): Promise<string> {
+  if (!isR2Configured || !s3Client) {
+    throw new Error("R2 no está configurado");
+  }
 
-    return outputPath;
+  try {
+    const command = new PutObjectCommand({
+      Bucket: R2_BUCKET_NAME!,
+      Key: key,
+      ContentType: mimeType,
+    });
+    return await getSignedUrl(s3Client, command, { expiresIn });
   } catch (error) {
-    console.error("[R2] Error descargando archivo de R2:", error);
-    throw new Error(`Error al descargar archivo de R2: ${error instanceof Error ? error.message : String(error)}`);
+    console.error("[R2] Error generando URL de subida:", error);
+    throw new Error(`Error al generar URL de subida: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Inicia una subida multipart y firma la URL de cada parte
+ * 
+ * Para archivos grandes: el navegador sube cada parte con PUT a su URL
+ * y guarda el ETag de la respuesta para completar la subida.
+ * 
+ * @param key - Key de destino en R2
+ * @param mimeType - Tipo MIME del archivo
+ * @param partCount - Número de partes
+ * @param expiresIn - Tiempo de expiración de las URLs en segundos
+ * @returns ID de la subida multipart y URL de cada parte (partNumber desde 1)
+ * 
+ * @throws Error si R2 no está configurado o si falla la creación
+ */
+export async function createR2MultipartUpload(
+  key: string,
+  mimeType: string,
+  partCount: number,
+  expiresIn: number = 3600
+): Promise<{ uploadId: string; partUrls: { partNumber: number; url: string }[] }> {
+  if (!isR2Configured || !s3Client) {
+    throw new Error("R2 no está configurado");
+  }
+
+  try {
+    const created = await s3Client.send(
+      new CreateMultipartUploadCommand({ Bucket: R2_BUCKET_NAME!, Key: key, ContentType: mimeType })
+    );
+    const uploadId = created.UploadId!;
+
+    const partUrls = await Promise.all(
+      Array.from({ length: partCount }, async (_, index) => {
+        const command = new UploadPartCommand({
+          Bucket: R2_BUCKET_NAME!,
+          Key: key,
+          UploadId: uploadId,
+          PartNumber: index + 1,
+        });
+        return { partNumber: index + 1, url: await getSignedUrl(s3Client!, command, { expiresIn }) };
+      })
+    );
+
+    return { uploadId, partUrls };
+  } catch (error) {
+    console.error("[R2] Error iniciando subida multipart:", error);
+    throw new Error(`Error al iniciar subida multipart: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
 /**
- * Determina si un filePath es una key de R2 o una ruta local
+ * Completa una subida multipart
+ * 
+ * @param key - Key del archivo en R2
+ * @param uploadId - ID de la subida multipart
+ * @param parts - Número y ETag de cada parte subida
  * 
- * @param filePath - Ruta o key del archivo
- * @returns true si es una key de R2 (empieza con "documents/"), false si es local
+ * @throws Error si R2 no está configurado o si faltan partes
  */
-export function isR2Key(filePath: string): boolean {
-  return filePath.startsWith("documents/") || filePath.startsWith("r2://");
+export async function completeR2MultipartUpload(
+  key: string,
+  uploadId: string,
+  parts: { partNumber: number; etag: string }[]
+): Promise<void> {
+  if (!isR2Configured || !s3Client) {
+    throw new Error("R2 no está configurado");
+  }
+
+  try {
+    await s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: R2_BUCKET_NAME!,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+        },
+      })
+    );
+  } catch (error) {
+    console.error("[R2] Error completando subida multipart:", error);
+    throw new Error(`Error al completar subida multipart: ${error instanceof Error ? error.message : String(error)}`);
+  }
 }
 
+/**
+ * Cancela una subida multipart y libera las partes subidas
+ * 
+ * @param key - Key del archivo en R2
+ * @param uploadId - ID de la subida multipart
+ * 
+ * @throws Error si R2 no está configurado o si falla la cancelación
+ */
+export async function abortR2MultipartUpload(key: string, uploadId: string): Promise<void> {
+  if (!isR2Configured || !s3Client) {
+    throw new Error("R2 no está configurado");
+  }
+
+  try {
+    await s3Client.send(new AbortMultipartUploadCommand({ Bucket: R2_BUCKET_NAME!, Key: key, UploadId: uploadId }));
+  } catch (error) {
+    console.error("[R2] Error cancelando subida multipart:", error);
+    throw new Error(`Error al cancelar subida multipart: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -27,8 +27,41 @@
 
 import type { Express, Request, Response, NextFunction } from "express";
 import { type Server } from "http";
-import { storage } from "./storage";
-import { insertContactSubmissionSchema, users } from "../shared/schema";
+import { storage, type DocumentFile } from "./storage";
+import {
+  insertContactSubmissionSchema,
+  users,
+  caseTypeEnum,
+  caseDetailsSchemas,
+  intakeAnswersSchema,
+  dependentRelationshipEnum,
+  documentCategoryEnum,
+  documentReviewStatusEnum,
+  signatureRequestKindEnum,
+  signatureTypeEnum,
+  type Dependent,
+  type PublicDependent,
+  type DocumentRequest,
+  type Document,
+  type PendingUpload,
+  type Appointment,
+} from "../shared/schema";
+import {
+  CASE_STATUSES,
+  canTransitionCaseStatus,
+  getAllowedCaseStatuses,
+  CaseStatusTransitionError,
+  FilingAuthorizationRequiredError,
+} from "../shared/case-status";
+import { buildDocumentChecklist, evaluateDocumentChecklist } from "../shared/document-checklist";
+import { CLIENT_CHANGE_CUTOFF_MINUTES, canClientChangeAppointment, canCompleteAppointment } from "../shared/appointment-rules";
+import { EXTRACTION_FIELDS, isExtractionFormType } from "../shared/document-extraction";
+import {
+  APPOINTMENT_TYPES,
+  APPOINTMENT_LOCATIONS,
+  APPOINTMENT_TYPE_CONFIG,
+  isAppointmentLocationAllowed,
+} from "../shared/appointment-types";
 import { db } from "./db";
 import { sql } from "drizzle-orm";
 import bcrypt from "bcryptjs";
@@ -46,11 +79,47 @@ import {
   sendDocumentUploadNotification, 
   sendCaseStatusUpdate,
   sendAppointmentConfirmation,
-  sendPasswordResetEmail
+  sendAppointmentChangeEmail,
+  sendPasswordResetEmail,
+  sendDocumentRequestEmail,
+  sendPreparerDocumentNotification,
+  sendDocumentRejectedEmail,
+  sendSignatureRequestEmail
 } from "./email";
 import crypto from "crypto";
 import { wsService } from "./websocket";
-import { uploadToR2, isR2Configured, isR2Key } from "./r2";
+import { getStorageDriver, generateStorageKey, downloadStoredFile } from "./file-storage";
+import { createDocumentArchive, archiveFileName } from "./document-archive";
+import {
+  createDocumentDataKey,
+  putEncryptedFile,
+  openDocumentFile,
+  readDocumentFile,
+  type DocumentFileKey,
+} from "./document-encryption";
+import {
+  SIGNATURE_IMAGE_MAX_BYTES,
+  sha256,
+  isSignablePdf,
+  isPngImage,
+  canRenderTypedSignature,
+  stampSignedPdf,
+} from "./e-signature";
+import {
+  OFFICE_TIME_ZONE,
+  MAX_SLOT_RANGE_DAYS,
+  addDays,
+  isDateString,
+  toOfficeDate,
+  getAvailableSlots,
+  choosePreparer,
+} from "./appointment-slots";
+import { verifyAppointmentActionToken } from "./appointment-reminders";
+import { isJobName, runJob } from "./jobs";
+import { generatePreview, PREVIEW_SUFFIX, PREVIEW_MIME_TYPE } from "./document-preview";
+import { scanUpload, type UploadScanResult } from "./upload-scanner";
+import { encryptField, decryptField } from "./encryption";
+import { getDocumentRetentionDays } from "./document-purge";
 
 // =============================================================================
 // CONFIGURACIÓN DE SEGURIDAD
@@ -153,23 +222,241 @@ const messageSchema = z.object({
 
 /**
  * Esquema de validación para creación de casos
+ * Los campos de `details` se validan aparte según caseType (caseDetailsSchemas)
  */
 const caseSchema = z.object({
   clientId: z.number().int().positive("ID de cliente inválido"),
-  filingYear: z.string().regex(/^\d{4}$/, "Año fiscal inválido"),
+  caseType: z.enum(caseTypeEnum.enumValues).default("individual"),
+  filingYear: z.coerce.string().regex(/^\d{4}$/, "Año fiscal inválido").transform(Number),
   filingStatus: z.string().optional(),
   dependents: z.number().int().min(0).max(20).optional(),
+  details: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Esquema de validación para casos abiertos por el cliente
+ * Incluye las respuestas del cuestionario de admisión
+ */
+const clientCaseSchema = z.object({
+  filingYear: z.coerce.string().regex(/^\d{4}$/, "Año fiscal inválido").transform(Number),
+  intake: intakeAnswersSchema,
 });
 
 /**
  * Esquema de validación para actualización de casos
+ * Las transiciones de estado se validan aparte con la máquina de estados
  */
 const caseUpdateSchema = z.object({
-  status: z.enum(["pending", "in_progress", "review", "completed", "filed"]).optional(),
+  status: z.enum(CASE_STATUSES).optional(),
   notes: z.string().max(2000).optional(),
   finalAmount: z.number().optional(),
 });
 
+/**
+ * Esquema de validación para asignación de casos
+ * preparerId = null deja el caso sin preparador asignado
+ */
+const caseAssignSchema = z.object({
+  preparerId: z.number().int().positive("ID de preparador inválido").nullable(),
+});
+
+/**
+ * Esquema de validación para dependientes
+ * El SSN se acepta con o sin guiones y se guarda cifrado
+ */
+const dependentSchema = z.object({
+  name: z.string().trim().min(1, "El nombre es requerido").max(255),
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Fecha de nacimiento inválida"),
+  relationship: z.enum(dependentRelationshipEnum.enumValues, { message: "Parentesco inválido" }),
+  ssn: z.string()
+    .regex(/^\d{3}-?\d{2}-?\d{4}$/, "SSN inválido")
+    .transform(val => val.replace(/-/g, ""))
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Esquema de validación para actualización de dependientes
+ * ssn = null elimina el SSN guardado
+ */
+const dependentUpdateSchema = dependentSchema.partial();
+
+/**
+ * Esquema de validación para los dependientes declarados en un caso
+ */
+const caseDependentsSchema = z.object({
+  dependentIds: z.array(z.number().int().positive("ID de dependiente inválido")).max(20, "Demasiados dependientes"),
+});
+
+/**
+ * Esquema de validación para solicitudes de documentos
+ * dueDate es opcional; sin fecha límite la solicitud nunca vence
+ */
+const documentRequestSchema = z.object({
+  category: z.enum(documentCategoryEnum.enumValues, { message: "Categoría inválida" }),
+  description: z.string().trim().min(1, "La descripción es requerida").max(1000),
+  dueDate: z.coerce.date({ message: "Fecha límite inválida" }).nullable().optional(),
+});
+
+/**
+ * Esquema de validación para actualización de solicitudes de documentos
+ * El estado 'fulfilled' solo se alcanza subiendo un documento
+ */
+const documentRequestUpdateSchema = documentRequestSchema.partial().extend({
+  status: z.enum(["open", "waived"]).optional(),
+});
+
+/**
+ * Esquema de validación para solicitudes de firma
+ * Los campos llegan como texto del formulario multipart junto con el PDF
+ */
+const signatureRequestSchema = z.object({
+  kind: z.enum(signatureRequestKindEnum.enumValues, { message: "Tipo de documento inválido" }),
+  title: z.string().trim().min(1, "El título es requerido").max(200, "Título demasiado largo"),
+});
+
+/**
+ * Esquema de validación para anular una solicitud de firma
+ * El estado 'signed' solo se alcanza firmando desde el panel del cliente
+ */
+const signatureRequestUpdateSchema = z.object({
+  status: z.literal("cancelled", { errorMap: () => ({ message: "Estado inválido" }) }),
+});
+
+/**
+ * Esquema de validación para la firma del cliente
+ * La firma dibujada llega como archivo PNG en el campo 'signature'
+ */
+const signatureSubmitSchema = z.object({
+  signatureType: z.enum(signatureTypeEnum.enumValues, { message: "Tipo de firma inválido" }),
+  typedName: z.string().trim().max(100, "Nombre demasiado largo").optional(),
+  consent: z.literal("true", { errorMap: () => ({ message: "Debe aceptar firmar electrónicamente" }) }),
+}).refine((data) => data.signatureType !== "typed" || !!data.typedName, {
+  message: "Escriba su nombre para firmar",
+  path: ["typedName"],
+});
+
+/**
+ * Esquema de validación para agendar una cita
+ * La fecha debe ser uno de los horarios de GET /api/appointments/slots
+ * para el mismo tipo; sin lugar, se usa el predeterminado del tipo
+ */
+const appointmentSchema = z.object({
+  appointmentType: z.enum(APPOINTMENT_TYPES, { message: "Tipo de cita inválido" }),
+  location: z.enum(APPOINTMENT_LOCATIONS, { message: "Lugar de atención inválido" }).optional(),
+  appointmentDate: z.coerce.date({ message: "Formato de fecha inválido" }),
+  notes: z.string().trim().max(1000, "Notas demasiado largas").optional(),
+}).refine((data) => !data.location || isAppointmentLocationAllowed(data.appointmentType, data.location), {
+  message: "Este tipo de cita no se atiende en el lugar elegido",
+  path: ["location"],
+});
+
+/**
+ * Esquema de validación para los enlaces de confirmación y cancelación
+ * de los recordatorios de citas
+ */
+const appointmentActionSchema = z.object({
+  token: z.string().min(1, "Enlace inválido").max(2000, "Enlace inválido"),
+});
+
+/**
+ * Esquema de validación para la cancelación de una cita
+ */
+const appointmentCancelSchema = z.object({
+  reason: z.string().trim().max(500, "Motivo demasiado largo").optional(),
+});
+
+/**
+ * Esquema de validación para reprogramar una cita
+ * La nueva fecha debe ser uno de los horarios de GET /api/appointments/slots
+ */
+const appointmentRescheduleSchema = z.object({
+  appointmentDate: z.coerce.date({ message: "Formato de fecha inválido" }),
+});
+
+/**
+ * Esquema de validación para cambios de citas desde el panel
+ * Se cambia el estado (completar o cancelar) o se reprograma, no ambas cosas
+ */
+const adminAppointmentUpdateSchema = z.object({
+  status: z.enum(["completed", "cancelled"], { message: "Estado inválido" }).optional(),
+  appointmentDate: z.coerce.date({ message: "Formato de fecha inválido" }).optional(),
+  preparerId: z.number().int().positive().optional(),
+  reason: z.string().trim().max(500, "Motivo demasiado largo").optional(),
+}).refine((data) => !!data.status !== !!data.appointmentDate, {
+  message: "Indique un nuevo estado o una nueva fecha",
+});
+
+/**
+ * Esquema de validación para la consulta de horarios disponibles
+ * Fechas de la oficina 'YYYY-MM-DD'; sin fechas, los próximos 14 días
+ */
+const appointmentSlotsQuerySchema = z.object({
+  type: z.enum(APPOINTMENT_TYPES, { message: "Tipo de cita inválido" }),
+  from: z.string().refine(isDateString, "Fecha inicial inválida").optional(),
+  to: z.string().refine(isDateString, "Fecha final inválida").optional(),
+});
+
+/**
+ * Esquema de validación para el horario semanal de un preparador
+ * Minutos desde la medianoche, en la zona horaria de la oficina
+ */
+const availabilityWindowSchema = z.object({
+  weekday: z.number().int().min(0).max(6, "Día de la semana inválido"),
+  startMinute: z.number().int().min(0).max(24 * 60, "Hora de inicio inválida"),
+  endMinute: z.number().int().min(0).max(24 * 60, "Hora de fin inválida"),
+}).refine((window) => window.startMinute < window.endMinute, {
+  message: "La hora de fin debe ser posterior a la de inicio",
+});
+
+const availabilitySchema = z.object({
+  windows: z.array(availabilityWindowSchema).max(50, "Demasiadas franjas"),
+}).refine(
+  (data) => data.windows.every((window, index) =>
+    data.windows.every((other, otherIndex) =>
+      otherIndex === index ||
+      other.weekday !== window.weekday ||
+      other.endMinute <= window.startMinute ||
+      other.startMinute >= window.endMinute
+    )
+  ),
+  { message: "Las franjas de un mismo día no pueden superponerse" }
+);
+
+/**
+ * Esquema de validación para bloqueos de agenda
+ * Sin preparerId, el bloqueo aplica a toda la oficina (feriados)
+ */
+const availabilityBlockSchema = z.object({
+  preparerId: z.number().int().positive().nullable().optional(),
+  startsAt: z.coerce.date({ message: "Fecha de inicio inválida" }),
+  endsAt: z.coerce.date({ message: "Fecha de fin inválida" }),
+  reason: z.string().trim().max(200, "Motivo demasiado largo").optional(),
+}).refine((data) => data.startsAt < data.endsAt, {
+  message: "El fin del bloqueo debe ser posterior al inicio",
+  path: ["endsAt"],
+});
+
+/**
+ * Esquema de validación para la revisión de documentos
+ * El motivo es obligatorio al rechazar, para que el cliente sepa qué corregir
+ */
+const documentReviewSchema = z.object({
+  reviewStatus: z.enum(documentReviewStatusEnum.enumValues, { message: "Estado de revisión inválido" }),
+  rejectionReason: z.string().trim().max(1000).optional(),
+}).refine((data) => data.reviewStatus !== "rejected" || !!data.rejectionReason, {
+  message: "El motivo del rechazo es requerido",
+  path: ["rejectionReason"],
+});
+
+/**
+ * Esquema de validación para los campos OCR corregidos por el preparador
+ * Las claves se validan contra EXTRACTION_FIELDS del tipo de formulario
+ */
+const documentExtractionSchema = z.object({
+  fields: z.record(z.string().trim().max(100, "Valor demasiado largo").nullable()),
+});
+
 // =============================================================================
 // RATE LIMITERS POR ENDPOINT
 // =============================================================================
@@ -184,10 +471,13 @@ const caseUpdateSchema = z.object({
  * 
  * 5 intentos cada 15 minutos por IP
  */
-// Key generator usando el helper ipKeyGenerator de express-rate-limit
-// Maneja correctamente IPv6 y proxies como Vercel
-const rateLimitKeyGenerator = (req: Request): string => {
-  // Obtener IP del request (maneja proxies como Vercel)
+/**
+ * Obtiene la IP del cliente de un request (maneja proxies como Vercel)
+ * 
+ * @param req - Request de Express
+ * @returns IP del cliente o 'unknown'
+ */
+function getClientIp(req: Request): string {
   const xForwardedFor = req.headers['x-forwarded-for'];
   const xRealIp = req.headers['x-real-ip'];
   const cfConnectingIp = req.headers['cf-connecting-ip'];
@@ -202,9 +492,14 @@ const rateLimitKeyGenerator = (req: Request): string => {
   } else {
     ip = req.ip || req.socket?.remoteAddress || 'unknown';
   }
-  
+  return ip;
+}
+
+// Key generator usando el helper ipKeyGenerator de express-rate-limit
+// Maneja correctamente IPv6 y proxies como Vercel
+const rateLimitKeyGenerator = (req: Request): string => {
   // Usar ipKeyGenerator para manejar IPv6 correctamente
-  return ipKeyGenerator(ip);
+  return ipKeyGenerator(getClientIp(req));
 };
 
 const authLimiter = rateLimit({
@@ -353,6 +648,50 @@ const ALLOWED_EXTENSIONS = ['.pdf', '.jpg', '.jpeg', '.png', '.doc', '.docx'];
  */
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
+/**
+ * Tamaño máximo de las subidas directas a R2: 100MB
+ * El archivo no pasa por el servidor, así que admite PDF escaneados de muchas páginas
+ */
+const MAX_DIRECT_UPLOAD_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Tamaño de cada parte en subidas multipart (R2 exige al menos 5MB)
+ * Los archivos de hasta este tamaño se suben con un único PUT
+ */
+const MULTIPART_PART_SIZE = 10 * 1024 * 1024;
+
+/** Validez de las URLs de subida directa: 1 hora */
+const DIRECT_UPLOAD_TTL_SECONDS = 60 * 60;
+
+/**
+ * Esquema de validación para pedir una URL de subida directa
+ * Tipo, extensión y tamaño se vuelven a comprobar con el archivo ya subido
+ */
+const directUploadSchema = z.object({
+  fileName: z.string().trim().min(1, "El nombre del archivo es requerido").max(255),
+  fileType: z.string().refine((type) => ALLOWED_MIME_TYPES.includes(type), "Tipo de archivo no permitido. Use PDF, JPG, PNG, DOC o DOCX."),
+  fileSize: z.number().int().positive().max(MAX_DIRECT_UPLOAD_SIZE, "El archivo supera el tamaño máximo de 100MB"),
+  caseId: z.number().int().positive().nullable().optional(),
+  category: z.string().optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  requestId: z.number().int().positive().nullable().optional(),
+}).refine((data) => ALLOWED_EXTENSIONS.includes(path.extname(data.fileName).toLowerCase()), {
+  message: "Extensión de archivo no permitida.",
+  path: ["fileName"],
+});
+
+/**
+ * Esquema de validación para completar una subida directa
+ * parts es obligatorio en subidas multipart (ETag de cada parte)
+ */
+const completeUploadSchema = z.object({
+  uploadId: z.number().int().positive(),
+  parts: z.array(z.object({
+    partNumber: z.number().int().min(1),
+    etag: z.string().min(1),
+  })).optional(),
+});
+
 /**
  * Configuración de almacenamiento de Multer
  * 
@@ -383,6 +722,9 @@ const multerStorage = multer.diskStorage({
  * - Solo tipos MIME permitidos
  * - Solo extensiones permitidas
  * 
+ * Tipo y extensión los declara el navegador; el contenido real se
+ * verifica después con screenUpload() antes de guardar el archivo.
+ * 
  * @throws Error si multerStorage no está definido
  */
 let upload: multer.Multer;
@@ -438,6 +780,18 @@ if (!upload) {
   console.log('[Routes] Forced upload initialization with memory storage');
 }
 
+/**
+ * Middleware de Multer para la firma dibujada
+ * 
+ * La firma llega como PNG en el campo 'signature' y se mantiene en
+ * memoria por su tamaño reducido. El contenido se comprueba con
+ * isPngImage() antes de estamparla.
+ */
+const signatureUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: SIGNATURE_IMAGE_MAX_BYTES, files: 1, fields: 5 },
+}).single("signature");
+
 // =============================================================================
 // EXPORTACIÓN FORZADA DE CONSTANTES PARA ESBUILD
 // =============================================================================
@@ -542,6 +896,153 @@ function requireAdmin(req: Request, res: Response, next: NextFunction): void {
   next();
 }
 
+/**
+ * Middleware de autorización exclusivo para el rol 'admin'
+ * 
+ * A diferencia de requireAdmin, no permite el acceso a preparadores.
+ * Se usa para operaciones de gestión como la asignación de casos.
+ * Debe usarse después de authenticateToken
+ * 
+ * @throws 403 - Si el usuario no es administrador
+ */
+function requireAdminRole(req: Request, res: Response, next: NextFunction): void {
+  const authReq = req as AuthRequest;
+  if (authReq.user?.role !== "admin") {
+    res.status(403).json({ message: "Solo un administrador puede realizar esta acción" });
+    return;
+  }
+  next();
+}
+
+/**
+ * Elige el preparador para reprogramar una cita
+ *
+ * El nuevo horario debe ser uno de los disponibles, sin contar la
+ * propia cita, para la duración y el margen con que se agendó. Se
+ * mantiene el preparador de la cita si está libre.
+ *
+ * @param appointment - Cita a reprogramar
+ * @param appointmentDate - Nuevo inicio
+ * @param requiredPreparerId - Preparador elegido desde el panel, si se indicó
+ * @returns ID del preparador, o undefined si el horario no está disponible
+ */
+async function pickRescheduleSlot(
+  appointment: Appointment,
+  appointmentDate: Date,
+  requiredPreparerId?: number
+): Promise<number | undefined> {
+  const date = toOfficeDate(appointmentDate);
+  const slot = (await getAvailableSlots(date, date, appointment, { excludeAppointmentId: appointment.id })).find(
+    (candidate) => candidate.startsAt.getTime() === appointmentDate.getTime()
+  );
+  if (!slot) return undefined;
+
+  if (requiredPreparerId !== undefined) {
+    return slot.preparerIds.includes(requiredPreparerId) ? requiredPreparerId : undefined;
+  }
+  const dayAppointments = await storage.getActiveAppointmentsBetween(
+    new Date(slot.startsAt.getTime() - 24 * 60 * 60 * 1000),
+    new Date(slot.startsAt.getTime() + 24 * 60 * 60 * 1000)
+  );
+  return choosePreparer(
+    slot,
+    dayAppointments.filter((other) => other.id !== appointment.id && toOfficeDate(other.appointmentDate) === date),
+    appointment.preparerId
+  );
+}
+
+/**
+ * Registra y avisa la cancelación de una cita hecha por el cliente
+ *
+ * La usan la cancelación desde el portal y el enlace de cancelación
+ * de los recordatorios.
+ *
+ * @param client - Cliente que cancela
+ * @param appointment - Cita cancelada (con su horario)
+ * @param reason - Motivo de la cancelación
+ */
+async function announceClientCancellation(
+  client: { id: number; name: string; email: string },
+  appointment: Appointment,
+  reason?: string
+): Promise<void> {
+  await storage.createActivityLog({
+    userId: client.id,
+    action: "appointment_cancelled",
+    details: `Cita ${appointment.id} del ${appointment.appointmentDate.toISOString()} cancelada por el cliente${reason ? `: ${reason}` : ""}`,
+  });
+
+  sendAppointmentChangeEmail({
+    clientName: client.name,
+    clientEmail: client.email,
+    change: "cancelled",
+    appointmentDate: appointment.appointmentDate,
+    timeZone: OFFICE_TIME_ZONE,
+    reason,
+    changedByClient: true,
+  }).catch(console.error);
+
+  try {
+    wsService.notifyAppointmentChanged(
+      appointment.clientId,
+      appointment.id,
+      "cancelled",
+      appointment.appointmentDate.toISOString(),
+      true
+    );
+  } catch (wsError) {
+    console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+  }
+}
+
+/**
+ * Obtiene el alcance de preparador del usuario autenticado
+ * 
+ * Los preparadores solo ven su propia cartera de casos; los
+ * administradores ven todo.
+ * 
+ * @param authReq - Request con usuario autenticado
+ * @returns ID del preparador si el usuario es 'preparer', undefined si es admin
+ */
+function getPreparerScope(authReq: AuthRequest): number | undefined {
+  return authReq.user?.role === "preparer" ? authReq.user.id : undefined;
+}
+
+/**
+ * Verifica si el usuario puede administrar los datos de un cliente
+ * 
+ * @param authReq - Request con usuario autenticado (admin o preparador)
+ * @param clientId - ID del cliente
+ * @returns true si es admin o si el cliente está en la cartera del preparador
+ */
+async function canManageClient(authReq: AuthRequest, clientId: number): Promise<boolean> {
+  const preparerId = getPreparerScope(authReq);
+  return preparerId === undefined || storage.isClientAssignedToPreparer(clientId, preparerId);
+}
+
+/**
+ * Quita el SSN cifrado de un dependiente antes de enviarlo al cliente
+ * 
+ * @param dependent - Dependiente tal como está en la base de datos
+ * @returns Dependiente con solo los últimos 4 dígitos del SSN
+ */
+function toPublicDependent(dependent: Dependent): PublicDependent {
+  const { ssnEncrypted: _ssnEncrypted, ...publicDependent } = dependent;
+  return publicDependent;
+}
+
+/**
+ * Convierte un SSN recibido en los campos que se guardan
+ * 
+ * @param ssn - SSN sin guiones, null para borrarlo o undefined para no tocarlo
+ * @returns Campos ssnEncrypted / ssnLast4 (vacío si ssn es undefined)
+ */
+function toStoredSsn(ssn: string | null | undefined): { ssnEncrypted?: string | null; ssnLast4?: string | null } {
+  if (ssn === undefined) return {};
+  if (ssn === null) return { ssnEncrypted: null, ssnLast4: null };
+  return { ssnEncrypted: encryptField(ssn), ssnLast4: ssn.slice(-4) };
+}
+
 /**
  * Opciones de cookie segura para tokens JWT
  * 
@@ -575,6 +1076,9 @@ const COOKIE_OPTIONS = {
  * @property social_security - Tarjeta de seguro social
  * @property proof_of_address - Comprobante de domicilio
  * @property other - Otros documentos
+ * @property tax_return - Declaración preparada
+ * @property irs_letter - Carta del IRS
+ * @property signed_form - Formulario firmado
  */
 const VALID_CATEGORIES = [
   "id_document", 
@@ -585,79 +1089,543 @@ const VALID_CATEGORIES = [
   "previous_return", 
   "social_security", 
   "proof_of_address", 
-  "other"
+  "other",
+  "tax_return",
+  "irs_letter",
+  "signed_form"
 ];
 
-// =============================================================================
-// REGISTRO DE RUTAS
-// =============================================================================
+/**
+ * Elimina un archivo temporal de multer
+ * 
+ * Un fallo solo se registra: no debe interrumpir la respuesta.
+ * 
+ * @param filePath - Ruta del archivo temporal
+ */
+async function removeTempUpload(filePath: string): Promise<void> {
+  try {
+    await fs.promises.unlink(filePath);
+  } catch (unlinkError) {
+    // Ya eliminado (p. ej. por screenUpload al rechazarlo)
+    if ((unlinkError as NodeJS.ErrnoException).code === "ENOENT") return;
+    console.warn(`[Routes] No se pudo eliminar archivo temporal ${filePath}:`, unlinkError);
+  }
+}
 
 /**
- * Registra todas las rutas API en la aplicación Express
+ * Resultado de verificar una subida antes de guardarla
  * 
- * Esta función configura:
- * - Autenticación OAuth (Replit Auth)
- * - Servicio WebSocket
- * - Endpoints de autenticación
- * - Endpoints de cliente
- * - Endpoints de administración
- * - Sistema de mensajería
+ * @property accepted - true si el archivo puede guardarse
+ * @property status - Código HTTP de la respuesta si no se acepta
+ * @property message - Mensaje para el usuario si no se acepta
+ */
+type UploadScreening = { accepted: true; sanitized: boolean } | { accepted: false; status: number; message: string };
+
+/**
+ * Archivo subido en disco, recibido por multer o descargado del almacenamiento
+ */
+type UploadedFile = Pick<Express.Multer.File, "path" | "originalname" | "mimetype" | "size">;
+
+/**
+ * Verifica el contenido de un archivo subido antes de guardarlo
  * 
- * @param httpServer - Servidor HTTP para WebSocket
- * @param app - Instancia de Express
- * @returns Promise<Server> - Servidor HTTP configurado
+ * Si se acepta, file.mimetype y file.size pasan a reflejar el contenido
+ * real (saneado si tenía macros o JavaScript). Si no, el temporal se
+ * elimina: los rechazados se descartan (415) y los sospechosos se
+ * guardan bajo 'quarantine/' para que un administrador los revise (422).
+ * 
+ * @param authReq - Request con usuario autenticado
+ * @param file - Archivo en disco
+ * @param clientId - Cliente al que pertenecerá el documento
+ * @returns Si el archivo puede guardarse (y si se modificó) o la respuesta a enviar
  */
-export async function registerRoutes(
-  httpServer: Server | undefined,
-  app: Express
-): Promise<Server | undefined> {
-  // CRITICAL FIX: Inicializar middlewares al inicio de la función (fuera del try)
-  // Esto asegura que estén disponibles en todo el scope de la función
-  console.log('[Routes] Starting route registration...');
-  console.log('[Routes] Initializing rate limiters...');
-  
-  // Inicializar rate limiters si no están definidos (fallback para esbuild)
-  const _authLimiter = authLimiter || rateLimit({
-    windowMs: 15 * 60 * 1000,
-    max: 5,
-    message: { message: "Demasiados intentos de autenticación. Intente de nuevo en 15 minutos.", retryAfter: 15 },
-    standardHeaders: true,
-    legacyHeaders: false,
-    keyGenerator: rateLimitKeyGenerator,
-    validate: {
-      trustProxy: false,
-      xForwardedForHeader: false,
-      ip: false,
-    },
-  });
-  
-  const _uploadLimiter = uploadLimiter || rateLimit({
-    windowMs: 15 * 60 * 1000,
-    max: 10,
-    message: { message: "Límite de carga de archivos alcanzado. Intente más tarde." },
-    keyGenerator: rateLimitKeyGenerator,
-    validate: {
-      trustProxy: false,
-      xForwardedForHeader: false,
-      ip: false,
-    },
+async function screenUpload(authReq: AuthRequest, file: UploadedFile, clientId: number): Promise<UploadScreening> {
+  let scan: UploadScanResult;
+  try {
+    scan = await scanUpload(file.path, file.mimetype, file.originalname);
+  } catch (error) {
+    console.error("[Routes] Error verificando archivo subido:", error);
+    await removeTempUpload(file.path);
+    return { accepted: false, status: 500, message: "Error al verificar el archivo" };
+  }
+
+  if (scan.verdict === "clean") {
+    if (scan.removed.length > 0) {
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "upload_sanitized",
+        details: `Contenido activo eliminado de ${file.originalname}: ${scan.removed.join(", ")}`,
+      });
+    }
+    file.mimetype = scan.mimeType;
+    file.size = scan.size;
+    return { accepted: true, sanitized: scan.removed.length > 0 };
+  }
+
+  if (scan.verdict === "rejected") {
+    await removeTempUpload(file.path);
+    await storage.createActivityLog({
+      userId: authReq.user!.id,
+      action: "upload_rejected",
+      details: `Archivo rechazado: ${file.originalname} (${file.mimetype})`,
+    });
+    return { accepted: false, status: 415, message: scan.message };
+  }
+
+  // El archivo original se conserva para analizarlo; si el almacenamiento falla se registra igualmente
+  let quarantinePath: string | null = null;
+  try {
+    const key = generateStorageKey(file.originalname, "quarantine");
+    await getStorageDriver().put(key, await fs.promises.readFile(file.path), "application/octet-stream");
+    quarantinePath = key;
+  } catch (storageError) {
+    console.error("[Routes] No se pudo guardar el archivo en cuarentena:", storageError);
+  } finally {
+    await removeTempUpload(file.path);
+  }
+
+  const quarantined = await storage.createQuarantinedUpload({
+    clientId,
+    uploadedById: authReq.user!.id,
+    fileName: file.originalname,
+    filePath: quarantinePath,
+    fileSize: file.size,
+    declaredType: file.mimetype,
+    detectedType: scan.mimeType,
+    reason: scan.reason,
+    details: scan.details,
   });
-  
-  const _contactLimiter = contactLimiter || rateLimit({
-    windowMs: 60 * 60 * 1000,
-    max: 3,
-    message: { message: "Ha enviado demasiados mensajes. Intente más tarde." },
-    keyGenerator: rateLimitKeyGenerator,
-    validate: {
-      trustProxy: false,
-      xForwardedForHeader: false,
-      ip: false,
-    },
+  await storage.createActivityLog({
+    userId: authReq.user!.id,
+    action: "upload_quarantined",
+    details: `Archivo en cuarentena (${quarantined.id}): ${file.originalname} (${scan.reason}: ${scan.details})`,
   });
-  
-  const _messageLimiter = messageLimiter || rateLimit({
-    windowMs: 15 * 60 * 1000,
-    max: 30,
+
+  return {
+    accepted: false,
+    status: 422,
+    message: "El archivo no superó la verificación de seguridad y quedó retenido para revisión. Contacte a su preparador si cree que es un error.",
+  };
+}
+
+/**
+ * Archivo guardado con su vista previa
+ * 
+ * @property filePath - Key del archivo en el almacenamiento
+ * @property previewPath - Key de la miniatura, o null si no se generó
+ * @property encryptionKey - Clave de datos envuelta del archivo y su miniatura
+ */
+interface StoredUpload {
+  filePath: string;
+  previewPath: string | null;
+  encryptionKey: string;
+}
+
+/**
+ * Cifra y guarda un archivo en disco junto con su miniatura
+ * 
+ * La miniatura se genera desde el archivo en claro y se cifra con la
+ * misma clave de datos. Si falla, el archivo se guarda igualmente sin
+ * vista previa.
+ * 
+ * @param file - Archivo en disco
+ * @param clientId - Cliente dueño del documento (su clave envuelve la del archivo)
+ * @param key - Key de destino (por defecto, una nueva bajo 'documents/')
+ * @returns Keys del archivo y de su vista previa, y la clave envuelta
+ * @throws Error del almacenamiento o del cifrado
+ */
+async function storeEncryptedUpload(
+  file: UploadedFile,
+  clientId: number,
+  key: string = generateStorageKey(file.originalname)
+): Promise<StoredUpload> {
+  const { dataKey, encryptionKey } = await createDocumentDataKey(clientId);
+  await putEncryptedFile(key, await fs.promises.readFile(file.path), dataKey);
+  console.log(`[Routes] Archivo cifrado y guardado (${getStorageDriver().name}): ${key}`);
+
+  return { filePath: key, previewPath: await uploadPreview(file, key, dataKey), encryptionKey };
+}
+
+/**
+ * Guarda en el almacenamiento un archivo recibido por multer y elimina el temporal
+ * 
+ * @param file - Archivo recibido por multer
+ * @param clientId - Cliente dueño del documento
+ * @returns Keys del archivo y de su vista previa, y la clave envuelta
+ * @throws Error del almacenamiento (el temporal se elimina igualmente)
+ */
+async function storeUpload(file: Express.Multer.File, clientId: number): Promise<StoredUpload> {
+  try {
+    return await storeEncryptedUpload(file, clientId);
+  } finally {
+    await removeTempUpload(file.path);
+  }
+}
+
+/**
+ * Genera la miniatura de un archivo en disco y la guarda cifrada junto a su key
+ * 
+ * @param file - Archivo en disco
+ * @param key - Key del archivo en el almacenamiento
+ * @param dataKey - Clave de datos del archivo
+ * @returns Key de la miniatura, o null si no se generó o no pudo guardarse
+ */
+async function uploadPreview(file: UploadedFile, key: string, dataKey: Buffer): Promise<string | null> {
+  const preview = await generatePreview(file.path, file.mimetype);
+  if (!preview) return null;
+
+  try {
+    const previewKey = `${key}${PREVIEW_SUFFIX}`;
+    await putEncryptedFile(previewKey, preview, dataKey);
+    return previewKey;
+  } catch (previewError) {
+    console.warn("[Routes] No se pudo subir la vista previa (non-critical):", previewError);
+    return null;
+  }
+}
+
+/**
+ * Pone en cola la extracción OCR si el documento es un W-2 o 1099
+ * 
+ * Un fallo solo se registra: el documento ya quedó guardado y la
+ * extracción puede reintentarse desde el panel.
+ * 
+ * @param document - Documento recién subido o reemplazado
+ */
+async function queueExtractionIfSupported(document: Document): Promise<void> {
+  if (!isExtractionFormType(document.category)) return;
+  try {
+    await storage.queueDocumentExtraction(document.id, document.category);
+  } catch (error) {
+    console.warn(`[Routes] No se pudo encolar el OCR del documento ${document.id} (non-critical):`, error);
+  }
+}
+
+/**
+ * Elimina una subida directa que no se convertirá en documento
+ * 
+ * Un fallo solo se registra: el archivo no está referenciado por
+ * ningún documento.
+ * 
+ * @param upload - Subida pendiente ya reclamada
+ */
+async function discardDirectUpload(upload: PendingUpload): Promise<void> {
+  try {
+    const driver = getStorageDriver();
+    if (upload.multipartUploadId && driver.directUploads) {
+      await driver.directUploads.abortMultipartUpload(upload.filePath, upload.multipartUploadId).catch(() => undefined);
+    }
+    await driver.delete(upload.filePath);
+  } catch (error) {
+    console.warn(`[Routes] No se pudo descartar la subida directa ${upload.id}:`, error);
+  }
+}
+
+/**
+ * Destino de una subida del cliente
+ * 
+ * @property caseId - Caso al que se asocia el documento
+ * @property category - Categoría del documento
+ * @property description - Descripción indicada por el cliente
+ * @property documentRequest - Solicitud que cumple la subida, si la hay
+ */
+interface ClientUploadTarget {
+  caseId: number | null;
+  category: Document["category"];
+  description: string | null;
+  documentRequest?: DocumentRequest;
+}
+
+/**
+ * Valida el caso, la categoría y la solicitud de una subida del cliente
+ * 
+ * Si la subida cumple una solicitud, el caso y la categoría salen de ella.
+ * 
+ * @param authReq - Request con usuario autenticado (cliente)
+ * @param fields - Campos enviados con la subida
+ * @returns Destino de la subida, o el código y mensaje de error
+ */
+async function resolveClientUploadTarget(
+  authReq: AuthRequest,
+  fields: { caseId?: unknown; category?: unknown; description?: unknown; requestId?: unknown }
+): Promise<ClientUploadTarget | { status: number; message: string }> {
+  const description = typeof fields.description === "string" && fields.description ? fields.description : null;
+
+  if (fields.requestId) {
+    const documentRequest = await storage.getDocumentRequest(parseInt(String(fields.requestId)));
+    if (!documentRequest || documentRequest.clientId !== authReq.user!.id) {
+      return { status: 404, message: "Solicitud de documento no encontrada" };
+    }
+    if (documentRequest.status !== "open") {
+      return { status: 409, message: "La solicitud de documento ya no está abierta" };
+    }
+    return { caseId: documentRequest.caseId, category: documentRequest.category, description, documentRequest };
+  }
+
+  // Verificar propiedad del caso si se especifica
+  let caseId: number | null = null;
+  if (fields.caseId) {
+    const parsedCaseId = parseInt(String(fields.caseId));
+    if (!isNaN(parsedCaseId)) {
+      const taxCase = await storage.getTaxCase(parsedCaseId);
+      if (!taxCase || taxCase.clientId !== authReq.user!.id) {
+        return { status: 403, message: "Acceso denegado al caso" };
+      }
+      caseId = parsedCaseId;
+    }
+  }
+
+  const category = typeof fields.category === "string" && VALID_CATEGORIES.includes(fields.category)
+    ? fields.category as Document["category"]
+    : "other";
+  return { caseId, category, description };
+}
+
+/**
+ * Crea el documento de una subida del cliente ya guardada
+ * 
+ * @param authReq - Request con usuario autenticado (cliente)
+ * @param target - Destino validado con resolveClientUploadTarget
+ * @param file - Archivo guardado y su vista previa
+ * @returns Documento creado
+ * 
+ * @sideeffects
+ * - Encola el OCR si es un W-2 o 1099
+ * - Cumple la solicitud de documento
+ * - Registra la actividad, avisa al administrador por email y WebSocket
+ */
+async function recordClientUpload(
+  authReq: AuthRequest,
+  target: ClientUploadTarget,
+  file: Omit<DocumentFile, "uploadedById">
+): Promise<Document> {
+  // Crear registro de documento
+  const document = await storage.createDocument({
+    ...file,
+    caseId: target.caseId,
+    clientId: authReq.user!.id,
+    category: target.category,
+    description: target.description,
+    uploadedById: authReq.user!.id,
+    isFromPreparer: false,
+  });
+  await queueExtractionIfSupported(document);
+
+  // Registrar actividad
+  await storage.createActivityLog({
+    userId: authReq.user!.id,
+    action: "document_uploaded",
+    details: `Documento subido: ${file.fileName} (${target.category})`,
+  });
+
+  if (target.documentRequest) {
+    const fulfilled = await storage.fulfillDocumentRequest(target.documentRequest.id, document.id);
+    if (fulfilled) {
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "document_request_fulfilled",
+        details: `Solicitud ${target.documentRequest.id} cumplida con el documento ${document.id}`,
+      });
+    }
+  }
+
+  // Notificar al administrador
+  sendDocumentUploadNotification({
+    clientName: authReq.user!.name,
+    clientEmail: authReq.user!.email,
+    fileName: file.fileName,
+    category: target.category,
+  }).catch(console.error);
+
+  // Notificación en tiempo real (solo si wsService está disponible)
+  if (wsService) {
+    try {
+      wsService.notifyDocumentUpload(
+        authReq.user!.id,
+        authReq.user!.name,
+        file.fileName,
+        target.caseId || undefined
+      );
+    } catch (wsError) {
+      console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Envía un archivo almacenado al cliente
+ * 
+ * Los archivos cifrados se descifran al vuelo a través del servidor.
+ * Los guardados antes del cifrado se sirven como siempre: redirección a
+ * una URL firmada válida por 1 hora si el driver las genera (R2) o
+ * transmitidos desde el servidor si no.
+ * 
+ * @param res - Respuesta de Express
+ * @param filePath - Key del archivo en el almacenamiento
+ * @param fileName - Nombre con el que se descarga
+ * @param fileKey - Cliente y clave envuelta del documento o versión
+ * @param disposition - 'inline' para abrirlo en el navegador en lugar de descargarlo
+ */
+async function sendStoredFile(
+  res: Response,
+  filePath: string,
+  fileName: string,
+  fileKey: DocumentFileKey,
+  disposition: "attachment" | "inline" = "attachment"
+): Promise<void> {
+  if (!fileKey.encryptionKey) {
+    let signedUrl: string | null;
+    try {
+      signedUrl = await getStorageDriver().getSignedUrl(filePath, 3600);
+    } catch (storageError) {
+      console.error("[Routes] Error generando URL firmada:", storageError);
+      res.status(500).json({ message: "Error al generar URL de descarga" });
+      return;
+    }
+    if (signedUrl) {
+      res.redirect(signedUrl);
+      return;
+    }
+  }
+
+  const stream = await openDocumentFile(filePath, fileKey);
+  if (!stream) {
+    res.status(404).json({ message: "Archivo no encontrado" });
+    return;
+  }
+
+  // attachment() deduce el Content-Type de la extensión del nombre
+  res.attachment(fileName);
+  if (disposition === "inline") {
+    res.setHeader("Content-Disposition", `inline; filename="${fileName.replace(/[^\x20-\x7E]|["\\]/g, "_")}"`);
+  }
+  res.setHeader("Cache-Control", "private, no-store");
+  stream.on("error", (streamError) => {
+    console.error("[Routes] Error leyendo archivo almacenado:", streamError);
+    res.destroy(streamError);
+  });
+  stream.pipe(res);
+}
+
+/**
+ * Envía un ZIP con los documentos indicados
+ * 
+ * Si la lectura de un archivo falla a mitad del envío ya no se puede
+ * responder con un error: se corta la conexión y el navegador marca la
+ * descarga como fallida.
+ * 
+ * @param res - Respuesta de Express
+ * @param documents - Documentos a incluir
+ * @param fileName - Nombre con el que se descarga el ZIP
+ */
+async function sendDocumentArchive(res: Response, documents: Document[], fileName: string): Promise<void> {
+  const archive = await createDocumentArchive(documents);
+  res.attachment(fileName);
+  res.type("application/zip");
+  archive.on("error", (archiveError) => {
+    console.error("[Routes] Error generando el ZIP de documentos:", archiveError);
+    res.destroy(archiveError);
+  });
+  archive.pipe(res);
+}
+
+/**
+ * Estados de caso en los que el cliente todavía puede eliminar sus documentos
+ * 
+ * Una vez que el preparador empieza a trabajar el caso o revisa el
+ * documento, solo el personal puede eliminarlo.
+ */
+const CLIENT_DELETABLE_CASE_STATUSES = ["pending", "awaiting_documents"];
+
+/**
+ * Verifica si un cliente puede eliminar un documento
+ * 
+ * @param document - Documento a eliminar
+ * @param userId - ID del cliente autenticado
+ * @returns true si es su documento, no lo subió el preparador y ni el documento
+ *   ni el caso se han revisado
+ */
+async function canClientDeleteDocument(document: Document, userId: number): Promise<boolean> {
+  if (document.clientId !== userId || document.isFromPreparer) return false;
+  if (document.reviewStatus !== "received") return false;
+  if (!document.caseId) return true;
+
+  const taxCase = await storage.getTaxCase(document.caseId);
+  return !taxCase || CLIENT_DELETABLE_CASE_STATUSES.includes(taxCase.status);
+}
+
+// =============================================================================
+// REGISTRO DE RUTAS
+// =============================================================================
+
+/**
+ * Registra todas las rutas API en la aplicación Express
+ * 
+ * Esta función configura:
+ * - Autenticación OAuth (Replit Auth)
+ * - Servicio WebSocket
+ * - Endpoints de autenticación
+ * - Endpoints de cliente
+ * - Endpoints de administración
+ * - Sistema de mensajería
+ * 
+ * @param httpServer - Servidor HTTP para WebSocket
+ * @param app - Instancia de Express
+ * @returns Promise<Server> - Servidor HTTP configurado
+ */
+export async function registerRoutes(
+  httpServer: Server | undefined,
+  app: Express
+): Promise<Server | undefined> {
+  // CRITICAL FIX: Inicializar middlewares al inicio de la función (fuera del try)
+  // Esto asegura que estén disponibles en todo el scope de la función
+  console.log('[Routes] Starting route registration...');
+  console.log('[Routes] Initializing rate limiters...');
+  
+  // Inicializar rate limiters si no están definidos (fallback para esbuild)
+  const _authLimiter = authLimiter || rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 5,
+    message: { message: "Demasiados intentos de autenticación. Intente de nuevo en 15 minutos.", retryAfter: 15 },
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator: rateLimitKeyGenerator,
+    validate: {
+      trustProxy: false,
+      xForwardedForHeader: false,
+      ip: false,
+    },
+  });
+  
+  const _uploadLimiter = uploadLimiter || rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    message: { message: "Límite de carga de archivos alcanzado. Intente más tarde." },
+    keyGenerator: rateLimitKeyGenerator,
+    validate: {
+      trustProxy: false,
+      xForwardedForHeader: false,
+      ip: false,
+    },
+  });
+  
+  const _contactLimiter = contactLimiter || rateLimit({
+    windowMs: 60 * 60 * 1000,
+    max: 3,
+    message: { message: "Ha enviado demasiados mensajes. Intente más tarde." },
+    keyGenerator: rateLimitKeyGenerator,
+    validate: {
+      trustProxy: false,
+      xForwardedForHeader: false,
+      ip: false,
+    },
+  });
+  
+  const _messageLimiter = messageLimiter || rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 30,
     message: { message: "Límite de mensajes alcanzado. Espere un momento." },
     keyGenerator: rateLimitKeyGenerator,
     validate: {
@@ -918,6 +1886,51 @@ export async function registerRoutes(
     }
   });
 
+  // ===========================================================================
+  // JOBS PROGRAMADOS (CRON)
+  // ===========================================================================
+
+  /**
+   * GET /api/cron/:job
+   * 
+   * Ejecuta un job en segundo plano (ver server/jobs.ts). Lo llama el cron
+   * de Vercel, donde no hay un proceso persistente que los programe.
+   * 
+   * @param {string} job - Nombre del job
+   * @returns {object} job y processed (null si el job ya estaba en curso)
+   * 
+   * @security Requiere "Authorization: Bearer <CRON_SECRET>"; sin
+   * CRON_SECRET configurada el endpoint responde 503
+   */
+  app.get("/api/cron/:job", async (req: Request, res: Response) => {
+    try {
+      const secret = process.env.CRON_SECRET;
+      if (!secret) {
+        res.status(503).json({ message: "Los jobs programados no están configurados" });
+        return;
+      }
+
+      const expected = Buffer.from(`Bearer ${secret}`);
+      const received = Buffer.from(req.headers.authorization || "");
+      if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+        res.status(401).json({ message: "No autorizado" });
+        return;
+      }
+
+      const job = req.params.job;
+      if (!isJobName(job)) {
+        res.status(404).json({ message: "Job no encontrado" });
+        return;
+      }
+
+      const processed = await runJob(job);
+      res.json({ job, processed });
+    } catch (error) {
+      console.error(`[Cron] Error ejecutando el job ${req.params.job}:`, error);
+      res.status(500).json({ message: "Error al ejecutar el job" });
+    }
+  });
+
   // ===========================================================================
   // ENDPOINTS DE AUTENTICACIÓN
   // ===========================================================================
@@ -1696,470 +2709,3476 @@ export async function registerRoutes(
     }
   });
 
-  // ===========================================================================
-  // ENDPOINTS DE CLIENTE - DOCUMENTOS
-  // ===========================================================================
-
   /**
-   * GET /api/documents
+   * POST /api/cases
    * 
-   * Obtiene los documentos del usuario autenticado
+   * Abre un nuevo caso desde el portal del cliente a partir del
+   * cuestionario de admisión
    * 
    * @requires authenticateToken
-   * @returns {Document[]} Lista de documentos del cliente
+   * @body {string} filingYear - Año fiscal (YYYY)
+   * @body {object} intake - Respuestas del cuestionario (estado civil,
+   *   dependientes, fuentes de ingreso, deducciones, eventos de vida)
+   * @returns {TaxCase} Caso creado en estado 'pending'
+   * @throws 409 - Si el cliente ya tiene un caso para ese año
+   * 
+   * @sideeffects
+   * - Crea los dependientes nuevos del cuestionario y los vincula al caso
+   * - Registra la apertura en activity_logs
+   * - Notifica a los administradores por WebSocket
+   * 
+   * @security Solo usuarios con rol 'client'
    */
-  app.get("/api/documents", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/cases", authenticateToken, async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     try {
-      const documents = await storage.getDocumentsByClient(authReq.user!.id);
-      res.json(documents);
-    } catch (error) {
-      console.error("Error obteniendo documentos:", error);
-      res.status(500).json({ message: "Error al obtener documentos" });
-    }
-  });
+      if (authReq.user!.role !== "client") {
+        res.status(403).json({ message: "Solo los clientes pueden abrir casos desde el portal" });
+        return;
+      }
 
-  /**
-   * POST /api/documents/upload
-   * 
-   * Sube un nuevo documento al sistema
-   * 
-   * @requires authenticateToken
-   * @body {File} file - Archivo a subir (multipart/form-data)
-   * @body {number} [caseId] - ID del caso asociado
-   * @body {string} [category] - Categoría del documento
-   * @body {string} [description] - Descripción opcional
-   * 
-   * @security
-   * - Rate limited: 10 archivos / 15 min
-   * - Máximo 10MB por archivo
-   * - Solo tipos permitidos (PDF, imágenes, Word)
-   * - Verificación de propiedad del caso
-   * 
-   * @sideeffects
-   * - Guarda archivo en servidor
-   * - Notifica a admin por email
-   * - Envía notificación WebSocket
-   */
-  // Validar que upload.single esté disponible antes de usarlo
-  if (!finalUpload || typeof finalUpload.single !== 'function') {
-    const errorMsg = "upload.single is not available. Cannot register /api/documents/upload route.";
-    console.error('[Routes]', errorMsg);
-    throw new Error(errorMsg);
-  }
-  
-  const uploadSingle = finalUpload.single("file");
-  if (!uploadSingle || typeof uploadSingle !== 'function') {
-    const errorMsg = "upload.single('file') returned invalid value. Cannot register /api/documents/upload route.";
-    console.error('[Routes]', errorMsg);
-    throw new Error(errorMsg);
-  }
-
-  // Validar que todos los middlewares estén definidos antes de registrar la ruta
-  if (!authenticateToken || typeof authenticateToken !== 'function') {
-    throw new Error("authenticateToken is not a function. Cannot register /api/documents/upload route.");
-  }
-  if (!finalUploadLimiter || typeof finalUploadLimiter !== 'function') {
-    throw new Error("uploadLimiter is not a function. Cannot register /api/documents/upload route.");
-  }
-
-  app.post(
-    "/api/documents/upload", 
-    authenticateToken, 
-    finalUploadLimiter,
-    uploadSingle, 
-    async (req: Request, res: Response) => {
-      const authReq = req as AuthRequest;
-      try {
-        if (!req.file) {
-          res.status(400).json({ message: "No se recibió ningún archivo" });
-          return;
-        }
+      const result = clientCaseSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
 
-        const { caseId, category, description } = req.body;
-        let validCaseId: number | null = null;
+      const { filingYear, intake } = result.data;
 
-        // Verificar propiedad del caso si se especifica
-        if (caseId) {
-          validCaseId = parseInt(caseId);
-          if (!isNaN(validCaseId)) {
-            const taxCase = await storage.getTaxCase(validCaseId);
-            if (!taxCase || taxCase.clientId !== authReq.user!.id) {
-              // Eliminar archivo subido
-              fs.unlinkSync(req.file.path);
-              res.status(403).json({ message: "Acceso denegado al caso" });
-              return;
-            }
-          }
-        }
+      const existingCases = await storage.getTaxCasesByClient(authReq.user!.id);
+      if (existingCases.some((c) => c.filingYear === filingYear && c.caseType === "individual")) {
+        res.status(409).json({ message: `Ya tiene un caso abierto para el año ${filingYear}` });
+        return;
+      }
 
-        // Validar categoría
-        const docCategory = VALID_CATEGORIES.includes(category) ? category : "other";
+      const taxCase = await storage.createTaxCaseFromIntake(
+        {
+          clientId: authReq.user!.id,
+          caseType: "individual",
+          filingYear,
+          filingStatus: intake.filingStatus,
+          intake,
+          status: "pending",
+        },
+        intake.dependents
+      );
 
-        // Verificar que R2 esté configurado
-        if (!isR2Configured) {
-          // Eliminar archivo temporal
-          try {
-            await fs.promises.unlink(req.file.path);
-          } catch (unlinkError) {
-            console.warn(`[Routes] No se pudo eliminar archivo temporal ${req.file.path}:`, unlinkError);
-          }
-          res.status(500).json({ 
-            message: "Cloudflare R2 no está configurado. Por favor, configura las variables de entorno R2_ACCOUNT_ID, R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY y R2_BUCKET_NAME." 
-          });
-          return;
-        }
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "case_requested",
+        details: `Cliente abrió caso ${taxCase.id} para el año ${filingYear}`,
+      });
 
-        // Subir archivo a R2 (obligatorio)
-        let filePath: string;
-        console.log("[Routes] Intentando subir archivo a Cloudflare R2...");
+      // Notificación en tiempo real a administradores
+      if (wsService) {
         try {
-          // Subir a R2
-          const r2Key = await uploadToR2(req.file.path, req.file.originalname, req.file.mimetype);
-          filePath = r2Key;
-          console.log(`[Routes] Archivo subido exitosamente a R2: ${r2Key}`);
-          
-          // Limpiar archivo temporal después de subir a R2
-          try {
-            await fs.promises.unlink(req.file.path);
-            console.log(`[Routes] Archivo temporal eliminado: ${req.file.path}`);
-          } catch (unlinkError) {
-            console.warn(`[Routes] No se pudo eliminar archivo temporal ${req.file.path}:`, unlinkError);
-          }
-        } catch (r2Error) {
-          // Eliminar archivo temporal en caso de error
-          try {
-            await fs.promises.unlink(req.file.path);
-          } catch (unlinkError) {
-            console.warn(`[Routes] No se pudo eliminar archivo temporal ${req.file.path}:`, unlinkError);
-          }
-          
-          console.error("[Routes] Error subiendo a R2:", r2Error);
-          console.error("[Routes] Detalles del error:", r2Error instanceof Error ? r2Error.message : String(r2Error));
-          
-          res.status(500).json({ 
-            message: "Error al subir el archivo a Cloudflare R2. Por favor, verifica la configuración de R2 o intenta nuevamente más tarde.",
-            error: r2Error instanceof Error ? r2Error.message : String(r2Error)
+          wsService.sendToAdmins({
+            type: "case_update",
+            title: "Nuevo Caso",
+            message: `${authReq.user!.name} abrió un caso para el año ${filingYear}`,
+            data: { caseId: taxCase.id, clientId: authReq.user!.id, filingYear },
           });
-          return;
+        } catch (wsError) {
+          console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
         }
+      }
 
-        // Crear registro de documento
-        const document = await storage.createDocument({
-          caseId: validCaseId,
-          clientId: authReq.user!.id,
-          fileName: req.file.originalname,
-          filePath: filePath,
-          fileType: req.file.mimetype,
-          fileSize: req.file.size,
-          category: docCategory,
-          description: description || null,
-          uploadedById: authReq.user!.id,
-          isFromPreparer: false,
-        });
+      res.json(taxCase);
+    } catch (error) {
+      console.error("Error creando caso del cliente:", error);
+      res.status(500).json({ message: "Error al crear caso" });
+    }
+  });
 
-        // Registrar actividad
-        await storage.createActivityLog({
-          userId: authReq.user!.id,
-          action: "document_uploaded",
-          details: `Documento subido: ${req.file.originalname} (${docCategory})`,
-        });
+  /**
+   * GET /api/cases/:id/history
+   * 
+   * Obtiene el historial de cambios de estado de un caso
+   * 
+   * @requires authenticateToken
+   * @param {number} id - ID del caso
+   * @returns {CaseStatusHistory[]} Cambios de estado en orden cronológico
+   * 
+   * @security El cliente dueño del caso, administradores o el preparador asignado
+   */
+  app.get("/api/cases/:id/history", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const caseId = parseInt(req.params.id);
+      if (isNaN(caseId)) {
+        res.status(400).json({ message: "ID de caso inválido" });
+        return;
+      }
 
-        // Notificar al administrador
-        sendDocumentUploadNotification({
-          clientName: authReq.user!.name,
-          clientEmail: authReq.user!.email,
-          fileName: req.file.originalname,
-          category: docCategory,
-        }).catch(console.error);
+      const taxCase = await storage.getTaxCase(caseId);
+      if (!taxCase) {
+        res.status(404).json({ message: "Caso no encontrado" });
+        return;
+      }
 
-        // Notificación en tiempo real (solo si wsService está disponible)
-        if (wsService) {
-          try {
-            wsService.notifyDocumentUpload(
-              authReq.user!.id,
-              authReq.user!.name,
-              req.file.originalname,
-              validCaseId || undefined
-            );
-          } catch (wsError) {
-            console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
-          }
-        }
+      // Verificar permisos
+      const isOwner = taxCase.clientId === authReq.user!.id;
+      const isStaff = authReq.user!.role === "admin" ||
+        (authReq.user!.role === "preparer" && taxCase.assignedPreparerId === authReq.user!.id);
 
-        res.json(document);
-      } catch (error) {
-        console.error("Error de carga:", error);
-        res.status(500).json({ message: "Error al subir documento" });
+      if (!isOwner && !isStaff) {
+        res.status(403).json({ message: "Acceso denegado" });
+        return;
       }
+
+      const history = await storage.getCaseStatusHistory(caseId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error obteniendo historial del caso:", error);
+      res.status(500).json({ message: "Error al obtener historial del caso" });
     }
-  );
+  });
 
   /**
-   * GET /api/documents/:id/download
+   * GET /api/cases/:id/checklist
    * 
-   * Descarga un documento específico
+   * Obtiene la lista de documentos requeridos de un caso y su progreso
+   * 
+   * La lista se genera a partir del tipo de caso, el estado civil y el
+   * cuestionario de admisión; cada requisito se cumple con documentos
+   * de la misma categoría subidos a este caso.
    * 
    * @requires authenticateToken
-   * @param {number} id - ID del documento
+   * @param {number} id - ID del caso
+   * @returns {DocumentChecklist} Requisitos, documentos recibidos y porcentaje
    * 
-   * @security
-   * - Solo el propietario o admin pueden descargar
-   * - Verifica existencia del archivo
+   * @security El cliente dueño del caso, administradores o el preparador asignado
    */
-  app.get("/api/documents/:id/download", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/cases/:id/checklist", authenticateToken, async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     try {
-      const documentId = parseInt(req.params.id);
-      if (isNaN(documentId)) {
-        res.status(400).json({ message: "ID de documento inválido" });
+      const caseId = parseInt(req.params.id);
+      if (isNaN(caseId)) {
+        res.status(400).json({ message: "ID de caso inválido" });
         return;
       }
 
-      const document = await storage.getDocument(documentId);
-
-      if (!document) {
-        res.status(404).json({ message: "Documento no encontrado" });
+      const taxCase = await storage.getTaxCase(caseId);
+      if (!taxCase) {
+        res.status(404).json({ message: "Caso no encontrado" });
         return;
       }
 
       // Verificar permisos
-      const isAdmin = authReq.user!.role === "admin" || authReq.user!.role === "preparer";
-      const isOwner = document.clientId === authReq.user!.id;
+      const isOwner = taxCase.clientId === authReq.user!.id;
+      const isStaff = authReq.user!.role === "admin" ||
+        (authReq.user!.role === "preparer" && taxCase.assignedPreparerId === authReq.user!.id);
 
-      if (!isAdmin && !isOwner) {
+      if (!isOwner && !isStaff) {
         res.status(403).json({ message: "Acceso denegado" });
         return;
       }
 
-      // Verificar que el archivo existe y descargarlo
-      if (isR2Key(document.filePath)) {
-        // Archivo en R2 - generar URL firmada
-        try {
-          const { getR2SignedUrl } = await import("./r2");
-          const signedUrl = await getR2SignedUrl(document.filePath, 3600); // 1 hora de validez
-          res.redirect(signedUrl);
-        } catch (r2Error) {
-          console.error("[Routes] Error generando URL firmada de R2:", r2Error);
-          res.status(500).json({ message: "Error al generar URL de descarga" });
-        }
-      } else {
-        // Archivo local - verificar existencia y descargar
-        if (!fs.existsSync(document.filePath)) {
-          res.status(404).json({ message: "Archivo no encontrado" });
-          return;
-        }
-        res.download(document.filePath, document.fileName);
-      }
+      // Los documentos del preparador y los rechazados no cuentan como recibidos
+      const caseDocuments = await storage.getDocumentsByCase(caseId);
+      const clientDocuments = caseDocuments.filter((doc) => !doc.isFromPreparer && doc.reviewStatus !== "rejected");
+      res.json(evaluateDocumentChecklist(buildDocumentChecklist(taxCase), clientDocuments));
     } catch (error) {
-      console.error("Error de descarga:", error);
-      res.status(500).json({ message: "Error al descargar documento" });
+      console.error("Error obteniendo lista de documentos:", error);
+      res.status(500).json({ message: "Error al obtener lista de documentos" });
     }
   });
 
   // ===========================================================================
-  // ENDPOINTS DE CLIENTE - CITAS
+  // ENDPOINTS DE CLIENTE - DEPENDIENTES
   // ===========================================================================
 
   /**
-   * GET /api/appointments
+   * GET /api/dependents
    * 
-   * Obtiene las citas del usuario autenticado
+   * Obtiene los dependientes del usuario autenticado
    * 
    * @requires authenticateToken
-   * @returns {Appointment[]} Lista de citas del cliente
+   * @returns {PublicDependent[]} Dependientes (SSN enmascarado)
    */
-  app.get("/api/appointments", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/dependents", authenticateToken, async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     try {
-      const appointments = await storage.getAppointmentsByClient(authReq.user!.id);
-      res.json(appointments);
+      const clientDependents = await storage.getDependentsByClient(authReq.user!.id);
+      res.json(clientDependents.map(toPublicDependent));
     } catch (error) {
-      console.error("Error obteniendo citas:", error);
-      res.status(500).json({ message: "Error al obtener citas" });
+      console.error("Error obteniendo dependientes:", error);
+      res.status(500).json({ message: "Error al obtener dependientes" });
     }
   });
 
   /**
-   * POST /api/appointments
+   * POST /api/dependents
    * 
-   * Agenda una nueva cita con el preparador
+   * Registra un dependiente del usuario autenticado
    * 
    * @requires authenticateToken
-   * @body {string} appointmentDate - Fecha y hora ISO 8601
-   * @body {string} [notes] - Notas para la cita
-   * 
-   * @security Verifica conflictos de horario (±30 min)
-   * 
-   * @sideeffects
-   * - Crea cita en base de datos
-   * - Envía confirmación por email
-   * - Notifica a admin por WebSocket
+   * @body {string} name - Nombre completo
+   * @body {string} dateOfBirth - Fecha de nacimiento (YYYY-MM-DD)
+   * @body {string} relationship - Parentesco
+   * @body {string} [ssn] - SSN (se guarda cifrado)
+   * @returns {PublicDependent} Dependiente creado
    */
-  app.post("/api/appointments", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/dependents", authenticateToken, async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     try {
-      const { appointmentDate, notes } = req.body;
-
-      if (!appointmentDate) {
-        res.status(400).json({ message: "La fecha de cita es requerida" });
-        return;
-      }
-
-      const parsedDate = new Date(appointmentDate);
-      if (isNaN(parsedDate.getTime())) {
-        res.status(400).json({ message: "Formato de fecha inválido" });
-        return;
-      }
-      
-      // Verificar conflictos de horario
-      const hasConflict = await storage.checkAppointmentConflict(parsedDate);
-      if (hasConflict) {
-        res.status(409).json({ 
-          message: "Este horario no está disponible. Por favor elija otro.",
-          conflict: true
+      const result = dependentSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
         });
         return;
       }
 
-      // Crear cita
-      const appointment = await storage.createAppointment({
+      const { ssn, ...data } = result.data;
+      const dependent = await storage.createDependent({
+        ...data,
+        ...toStoredSsn(ssn),
         clientId: authReq.user!.id,
-        appointmentDate: parsedDate,
-        notes: notes || null,
-        status: "scheduled",
       });
 
-      // Registrar actividad
       await storage.createActivityLog({
         userId: authReq.user!.id,
-        action: "appointment_scheduled",
-        details: `Cita agendada para ${appointmentDate}`,
+        action: "dependent_created",
+        details: `Dependiente ${dependent.id} registrado`,
       });
 
-      // Enviar confirmación por email
-      sendAppointmentConfirmation({
-        clientName: authReq.user!.name,
-        clientEmail: authReq.user!.email,
-        appointmentDate: parsedDate,
-        notes: notes || undefined,
-      }).catch(console.error);
-
-      // Notificación en tiempo real (solo si wsService está disponible)
-      if (wsService) {
-        try {
-          wsService.notifyNewAppointment(
-            authReq.user!.id,
-            parsedDate.toISOString(),
-            notes || "Consulta de impuestos"
-          );
-        } catch (wsError) {
-          console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
-        }
-      }
-
-      res.json(appointment);
+      res.json(toPublicDependent(dependent));
     } catch (error) {
-      console.error("Error creando cita:", error);
-      res.status(500).json({ message: "Error al crear cita" });
+      console.error("Error creando dependiente:", error);
+      res.status(500).json({ message: "Error al crear dependiente" });
     }
   });
 
-  // ===========================================================================
-  // ENDPOINTS DE MENSAJERÍA
-  // ===========================================================================
-
   /**
-   * GET /api/messages/conversations
+   * PATCH /api/dependents/:id
    * 
-   * Obtiene las conversaciones del usuario
+   * Actualiza un dependiente del usuario autenticado
    * 
    * @requires authenticateToken
-   * @returns {Conversation[]} Lista de conversaciones con último mensaje
+   * @param {number} id - ID del dependiente
+   * @body Campos de dependiente a actualizar (ssn = null lo elimina)
+   * @returns {PublicDependent} Dependiente actualizado
+   * 
+   * @security Solo el cliente dueño del dependiente
    */
-  app.get("/api/messages/conversations", authenticateToken, async (req: Request, res: Response) => {
+  app.patch("/api/dependents/:id", authenticateToken, async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     try {
-      const conversations = await storage.getConversationsForUser(authReq.user!.id);
-      res.json(conversations);
+      const dependentId = parseInt(req.params.id);
+      if (isNaN(dependentId)) {
+        res.status(400).json({ message: "ID de dependiente inválido" });
+        return;
+      }
+
+      const result = dependentUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const existing = await storage.getDependent(dependentId);
+      if (!existing || existing.clientId !== authReq.user!.id) {
+        res.status(404).json({ message: "Dependiente no encontrado" });
+        return;
+      }
+
+      const { ssn, ...data } = result.data;
+      const dependent = await storage.updateDependent(dependentId, { ...data, ...toStoredSsn(ssn) });
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "dependent_updated",
+        details: `Dependiente ${dependentId} actualizado`,
+      });
+
+      res.json(toPublicDependent(dependent!));
     } catch (error) {
-      console.error("Error obteniendo conversaciones:", error);
-      res.status(500).json({ message: "Error al obtener conversaciones" });
+      console.error("Error actualizando dependiente:", error);
+      res.status(500).json({ message: "Error al actualizar dependiente" });
     }
   });
 
   /**
-   * GET /api/messages/unread-count
+   * DELETE /api/dependents/:id
    * 
-   * Obtiene el conteo de mensajes no leídos
+   * Elimina un dependiente del usuario autenticado
    * 
    * @requires authenticateToken
-   * @returns {object} Conteo de mensajes sin leer
+   * @param {number} id - ID del dependiente
+   * 
+   * @security Solo el cliente dueño del dependiente
    */
-  app.get("/api/messages/unread-count", authenticateToken, async (req: Request, res: Response) => {
+  app.delete("/api/dependents/:id", authenticateToken, async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     try {
-      const count = await storage.getUnreadCount(authReq.user!.id);
-      res.json({ count });
-    } catch (error) {
-      console.error("Error obteniendo conteo:", error);
-      res.status(500).json({ message: "Error al obtener conteo" });
-    }
+      const dependentId = parseInt(req.params.id);
+      if (isNaN(dependentId)) {
+        res.status(400).json({ message: "ID de dependiente inválido" });
+        return;
+      }
+
+      const existing = await storage.getDependent(dependentId);
+      if (!existing || existing.clientId !== authReq.user!.id) {
+        res.status(404).json({ message: "Dependiente no encontrado" });
+        return;
+      }
+
+      await storage.deleteDependent(dependentId);
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "dependent_deleted",
+        details: `Dependiente ${dependentId} eliminado`,
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error eliminando dependiente:", error);
+      res.status(500).json({ message: "Error al eliminar dependiente" });
+    }
+  });
+
+  // ===========================================================================
+  // ENDPOINTS DE CLIENTE - DOCUMENTOS
+  // ===========================================================================
+
+  /**
+   * GET /api/documents
+   * 
+   * Obtiene los documentos del usuario autenticado
+   * 
+   * @requires authenticateToken
+   * @returns {Document[]} Lista de documentos del cliente
+   */
+  app.get("/api/documents", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documents = await storage.getDocumentsByClient(authReq.user!.id);
+      res.json(documents);
+    } catch (error) {
+      console.error("Error obteniendo documentos:", error);
+      res.status(500).json({ message: "Error al obtener documentos" });
+    }
+  });
+
+  /**
+   * POST /api/documents/upload
+   * 
+   * Sube un nuevo documento al sistema
+   * 
+   * @requires authenticateToken
+   * @body {File} file - Archivo a subir (multipart/form-data)
+   * @body {number} [caseId] - ID del caso asociado
+   * @body {string} [category] - Categoría del documento
+   * @body {string} [description] - Descripción opcional
+   * @body {number} [requestId] - Solicitud de documento que se cumple con
+   *   esta subida; fija el caso y la categoría de la solicitud
+   * 
+   * @security
+   * - Rate limited: 10 archivos / 15 min
+   * - Máximo 10MB por archivo
+   * - Solo tipos permitidos (PDF, imágenes, Word)
+   * - Verificación de propiedad del caso
+   * 
+   * @sideeffects
+   * - Guarda archivo en servidor
+   * - Notifica a admin por email
+   * - Envía notificación WebSocket
+   */
+  // Validar que upload.single esté disponible antes de usarlo
+  if (!finalUpload || typeof finalUpload.single !== 'function') {
+    const errorMsg = "upload.single is not available. Cannot register /api/documents/upload route.";
+    console.error('[Routes]', errorMsg);
+    throw new Error(errorMsg);
+  }
+  
+  const uploadSingle = finalUpload.single("file");
+  if (!uploadSingle || typeof uploadSingle !== 'function') {
+    const errorMsg = "upload.single('file') returned invalid value. Cannot register /api/documents/upload route.";
+    console.error('[Routes]', errorMsg);
+    throw new Error(errorMsg);
+  }
+
+  // Validar que todos los middlewares estén definidos antes de registrar la ruta
+  if (!authenticateToken || typeof authenticateToken !== 'function') {
+    throw new Error("authenticateToken is not a function. Cannot register /api/documents/upload route.");
+  }
+  if (!finalUploadLimiter || typeof finalUploadLimiter !== 'function') {
+    throw new Error("uploadLimiter is not a function. Cannot register /api/documents/upload route.");
+  }
+
+  app.post(
+    "/api/documents/upload", 
+    authenticateToken, 
+    finalUploadLimiter,
+    uploadSingle, 
+    async (req: Request, res: Response) => {
+      const authReq = req as AuthRequest;
+      try {
+        if (!req.file) {
+          res.status(400).json({ message: "No se recibió ningún archivo" });
+          return;
+        }
+
+        const target = await resolveClientUploadTarget(authReq, req.body);
+        if ("status" in target) {
+          await removeTempUpload(req.file.path);
+          res.status(target.status).json({ message: target.message });
+          return;
+        }
+
+        const screening = await screenUpload(authReq, req.file, authReq.user!.id);
+        if (!screening.accepted) {
+          res.status(screening.status).json({ message: screening.message });
+          return;
+        }
+
+        let stored: StoredUpload;
+        try {
+          stored = await storeUpload(req.file, authReq.user!.id);
+        } catch (storageError) {
+          console.error("[Routes] Error guardando el archivo:", storageError);
+          res.status(500).json({ message: "Error al guardar el archivo. Por favor, intenta nuevamente más tarde." });
+          return;
+        }
+
+        const document = await recordClientUpload(authReq, target, {
+          fileName: req.file.originalname,
+          filePath: stored.filePath,
+          fileType: req.file.mimetype,
+          fileSize: req.file.size,
+          previewPath: stored.previewPath,
+          encryptionKey: stored.encryptionKey,
+        });
+
+        res.json(document);
+      } catch (error) {
+        console.error("Error de carga:", error);
+        res.status(500).json({ message: "Error al subir documento" });
+      }
+    }
+  );
+
+  /**
+   * POST /api/documents/upload-url
+   * 
+   * Prepara una subida directa del navegador al almacenamiento
+   * 
+   * Alternativa a /api/documents/upload para archivos grandes: el archivo
+   * no pasa por el servidor (ni por el límite de cuerpo de Vercel). Hasta
+   * 10MB se devuelve una URL para un único PUT; por encima, una URL por
+   * parte de una subida multipart. Si el driver de almacenamiento no
+   * admite subidas directas (local, memoria) se responde 501 y el
+   * cliente usa /api/documents/upload.
+   * 
+   * @requires authenticateToken
+   * @body {string} fileName - Nombre del archivo
+   * @body {string} fileType - Tipo MIME (PDF, imágenes, Word)
+   * @body {number} fileSize - Tamaño en bytes (máximo 100MB)
+   * @body {number} [caseId] - ID del caso asociado
+   * @body {string} [category] - Categoría del documento
+   * @body {string} [description] - Descripción opcional
+   * @body {number} [requestId] - Solicitud de documento que se cumple
+   * @returns {{ uploadId: number, expiresAt: string, url?: string, partSize?: number, parts?: { partNumber: number, url: string }[] }}
+   * 
+   * @security
+   * - Rate limited como las subidas normales
+   * - Verificación de propiedad del caso y de la solicitud
+   * - Las URLs vencen en 1 hora
+   */
+  app.post("/api/documents/upload-url", authenticateToken, finalUploadLimiter, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const result = directUploadSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const directUploads = getStorageDriver().directUploads;
+      if (!directUploads) {
+        res.status(501).json({ message: "El almacenamiento no admite subidas directas" });
+        return;
+      }
+
+      const target = await resolveClientUploadTarget(authReq, result.data);
+      if ("status" in target) {
+        res.status(target.status).json({ message: target.message });
+        return;
+      }
+
+      const { fileName, fileType, fileSize } = result.data;
+      const filePath = generateStorageKey(fileName);
+      const multipart = fileSize > MULTIPART_PART_SIZE
+        ? await directUploads.createMultipartUpload(filePath, fileType, Math.ceil(fileSize / MULTIPART_PART_SIZE), DIRECT_UPLOAD_TTL_SECONDS)
+        : null;
+
+      const pending = await storage.createPendingUpload({
+        userId: authReq.user!.id,
+        caseId: target.caseId,
+        documentRequestId: target.documentRequest?.id ?? null,
+        category: target.category,
+        description: target.description,
+        fileName,
+        fileType,
+        fileSize,
+        filePath,
+        multipartUploadId: multipart?.uploadId ?? null,
+        expiresAt: new Date(Date.now() + DIRECT_UPLOAD_TTL_SECONDS * 1000),
+      });
+
+      if (multipart) {
+        res.json({ uploadId: pending.id, expiresAt: pending.expiresAt, partSize: MULTIPART_PART_SIZE, parts: multipart.partUrls });
+        return;
+      }
+
+      const url = await directUploads.getUploadUrl(filePath, fileType, DIRECT_UPLOAD_TTL_SECONDS);
+      res.json({ uploadId: pending.id, expiresAt: pending.expiresAt, url });
+    } catch (error) {
+      console.error("Error preparando subida directa:", error);
+      res.status(500).json({ message: "Error al preparar la subida" });
+    }
+  });
+
+  /**
+   * POST /api/documents/complete
+   * 
+   * Completa una subida directa y crea el documento
+   * 
+   * Comprueba que el archivo subido tenga el tamaño y tipo declarados,
+   * lo verifica como una subida normal (contenido, antivirus, contenido
+   * activo) y solo entonces crea el documento. Si algo falla, el archivo
+   * se elimina.
+   * 
+   * @requires authenticateToken
+   * @body {number} uploadId - ID devuelto por /api/documents/upload-url
+   * @body {Array} [parts] - partNumber y ETag de cada parte (multipart)
+   * @returns {Document} Documento creado
+   * 
+   * @security Solo el usuario que pidió la URL puede completar la subida, y una sola vez
+   * 
+   * @sideeffects Los mismos que /api/documents/upload
+   */
+  app.post("/api/documents/complete", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const result = completeUploadSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const existing = await storage.getPendingUpload(result.data.uploadId);
+      if (!existing || existing.userId !== authReq.user!.id) {
+        res.status(404).json({ message: "Subida no encontrada" });
+        return;
+      }
+
+      // Reclamar la subida evita completarla dos veces
+      const upload = await storage.claimPendingUpload(existing.id);
+      if (!upload) {
+        res.status(404).json({ message: "Subida no encontrada" });
+        return;
+      }
+
+      if (upload.expiresAt < new Date()) {
+        await discardDirectUpload(upload);
+        res.status(410).json({ message: "La subida expiró. Vuelva a intentarlo." });
+        return;
+      }
+
+      const driver = getStorageDriver();
+      let file: UploadedFile;
+      let stored: StoredUpload;
+      let target: ClientUploadTarget;
+      try {
+        if (upload.multipartUploadId) {
+          const { parts } = result.data;
+          if (!parts || parts.length !== Math.ceil(upload.fileSize / MULTIPART_PART_SIZE)) {
+            await discardDirectUpload(upload);
+            res.status(400).json({ message: "Faltan partes del archivo" });
+            return;
+          }
+          if (!driver.directUploads) {
+            throw new Error(`El driver ${driver.name} no admite subidas multipart`);
+          }
+          await driver.directUploads.completeMultipartUpload(upload.filePath, upload.multipartUploadId, parts);
+        }
+
+        const info = await driver.stat(upload.filePath);
+        if (!info || info.size !== upload.fileSize || info.contentType !== upload.fileType) {
+          await discardDirectUpload(upload);
+          res.status(400).json({ message: "El archivo subido no coincide con el declarado" });
+          return;
+        }
+
+        // La solicitud o el caso pudieron cambiar mientras se subía el archivo
+        const resolved = await resolveClientUploadTarget(authReq, {
+          caseId: upload.caseId,
+          category: upload.category,
+          description: upload.description,
+          requestId: upload.documentRequestId,
+        });
+        if ("status" in resolved) {
+          await discardDirectUpload(upload);
+          res.status(resolved.status).json({ message: resolved.message });
+          return;
+        }
+        target = resolved;
+
+        const tempPath = path.join(uploadDir, `${Date.now()}-${Math.round(Math.random() * 1e9)}-direct`);
+        try {
+          await downloadStoredFile(upload.filePath, tempPath);
+          file = { path: tempPath, originalname: upload.fileName, mimetype: upload.fileType, size: info.size };
+
+          const screening = await screenUpload(authReq, file, authReq.user!.id);
+          if (!screening.accepted) {
+            await discardDirectUpload(upload);
+            res.status(screening.status).json({ message: screening.message });
+            return;
+          }
+
+          // El navegador subió el archivo en claro: se reemplaza por la versión cifrada (y saneada)
+          stored = await storeEncryptedUpload(file, authReq.user!.id, upload.filePath);
+        } finally {
+          // Incluye descargas a medias y errores de la verificación
+          await removeTempUpload(tempPath);
+        }
+      } catch (error) {
+        await discardDirectUpload(upload);
+        throw error;
+      }
+
+      const document = await recordClientUpload(authReq, target, {
+        fileName: upload.fileName,
+        filePath: upload.filePath,
+        fileType: file.mimetype,
+        fileSize: file.size,
+        previewPath: stored.previewPath,
+        encryptionKey: stored.encryptionKey,
+      });
+
+      res.json(document);
+    } catch (error) {
+      console.error("Error completando subida directa:", error);
+      res.status(500).json({ message: "Error al completar la subida" });
+    }
+  });
+
+  /**
+   * DELETE /api/documents/:id
+   * 
+   * Elimina un documento propio (soft delete)
+   * 
+   * El documento deja de mostrarse de inmediato y se purga del almacenamiento al
+   * vencer el periodo de retención (DOCUMENT_RETENTION_DAYS).
+   * 
+   * @requires authenticateToken
+   * @param {number} id - ID del documento
+   * @returns {{ message: string, purgeAfterDays: number }}
+   * 
+   * @security Solo documentos propios, no subidos por el preparador,
+   *   y mientras el caso no esté en revisión
+   */
+  app.delete("/api/documents/:id", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documentId = parseInt(req.params.id);
+      if (isNaN(documentId)) {
+        res.status(400).json({ message: "ID de documento inválido" });
+        return;
+      }
+
+      const document = await storage.getDocument(documentId);
+      if (!document || document.clientId !== authReq.user!.id) {
+        res.status(404).json({ message: "Documento no encontrado" });
+        return;
+      }
+
+      if (!(await canClientDeleteDocument(document, authReq.user!.id))) {
+        res.status(409).json({ message: "Este documento ya está en revisión. Contacte a su preparador para eliminarlo." });
+        return;
+      }
+
+      await storage.softDeleteDocument(documentId, authReq.user!.id);
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "document_deleted",
+        details: `Documento ${documentId} eliminado por el cliente: ${document.fileName}`,
+      });
+
+      res.json({ message: "Documento eliminado", purgeAfterDays: getDocumentRetentionDays() });
+    } catch (error) {
+      console.error("Error eliminando documento:", error);
+      res.status(500).json({ message: "Error al eliminar documento" });
+    }
+  });
+
+  /**
+   * GET /api/document-requests
+   * 
+   * Obtiene las solicitudes de documentos del usuario autenticado
+   * 
+   * @requires authenticateToken
+   * @returns {DocumentRequest[]} Solicitudes del cliente (todas sus estados)
+   */
+  app.get("/api/document-requests", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const requests = await storage.getDocumentRequestsByClient(authReq.user!.id);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error obteniendo solicitudes de documentos:", error);
+      res.status(500).json({ message: "Error al obtener solicitudes de documentos" });
+    }
+  });
+
+  /**
+   * GET /api/signature-requests
+   * 
+   * Obtiene las solicitudes de firma del usuario autenticado
+   * 
+   * @requires authenticateToken
+   * @returns {SignatureRequest[]} Solicitudes del cliente (todos sus estados)
+   */
+  app.get("/api/signature-requests", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const requests = await storage.getSignatureRequestsByClient(authReq.user!.id);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error obteniendo solicitudes de firma:", error);
+      res.status(500).json({ message: "Error al obtener solicitudes de firma" });
+    }
+  });
+
+  /**
+   * GET /api/signature-requests/:id/document
+   * 
+   * Abre en el navegador el PDF original de una solicitud de firma
+   * 
+   * @requires authenticateToken
+   * @param {number} id - ID de la solicitud
+   * 
+   * @security
+   * - El cliente solo puede abrir sus propias solicitudes
+   * - Un preparador solo puede abrir las de casos asignados a él
+   */
+  app.get("/api/signature-requests/:id/document", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const requestId = parseInt(req.params.id);
+      if (isNaN(requestId)) {
+        res.status(400).json({ message: "ID de solicitud inválido" });
+        return;
+      }
+
+      const signatureRequest = await storage.getSignatureRequest(requestId);
+      if (!signatureRequest) {
+        res.status(404).json({ message: "Solicitud de firma no encontrada" });
+        return;
+      }
+
+      const isStaff = authReq.user!.role === "admin" || authReq.user!.role === "preparer";
+      if (!isStaff && signatureRequest.clientId !== authReq.user!.id) {
+        res.status(404).json({ message: "Solicitud de firma no encontrada" });
+        return;
+      }
+
+      const preparerId = getPreparerScope(authReq);
+      if (preparerId !== undefined) {
+        const taxCase = await storage.getTaxCase(signatureRequest.caseId);
+        if (!taxCase || taxCase.assignedPreparerId !== preparerId) {
+          res.status(403).json({ message: "Este caso no está asignado a usted" });
+          return;
+        }
+      }
+
+      await sendStoredFile(res, signatureRequest.filePath, signatureRequest.fileName, signatureRequest, "inline");
+    } catch (error) {
+      console.error("Error abriendo documento a firmar:", error);
+      res.status(500).json({ message: "Error al abrir el documento" });
+    }
+  });
+
+  /**
+   * POST /api/signature-requests/:id/sign
+   * 
+   * Firma electrónicamente una solicitud de firma
+   * 
+   * Genera un PDF nuevo con la firma, la IP, la fecha y el hash del
+   * original, y lo guarda como documento del preparador en el caso
+   * (categoría signed_form).
+   * 
+   * @requires authenticateToken
+   * @param {number} id - ID de la solicitud
+   * @body {string} signatureType - 'typed' o 'drawn' (multipart/form-data)
+   * @body {string} [typedName] - Nombre escrito (firma escrita)
+   * @body {File} [signature] - PNG de la firma dibujada
+   * @body {string} consent - 'true' si el cliente acepta firmar electrónicamente
+   * @returns {SignatureRequest} Solicitud firmada
+   * 
+   * @security
+   * - Solo el cliente de la solicitud puede firmarla
+   * - El PDF original se verifica contra su hash antes de firmar
+   * 
+   * @sideeffects
+   * - Registra la firma en activity_logs
+   * - Notifica por WebSocket a los preparadores
+   */
+  app.post(
+    "/api/signature-requests/:id/sign",
+    authenticateToken,
+    finalUploadLimiter,
+    signatureUpload,
+    async (req: Request, res: Response) => {
+      const authReq = req as AuthRequest;
+      try {
+        const requestId = parseInt(req.params.id);
+        if (isNaN(requestId)) {
+          res.status(400).json({ message: "ID de solicitud inválido" });
+          return;
+        }
+
+        const result = signatureSubmitSchema.safeParse(req.body);
+        if (!result.success) {
+          res.status(400).json({ 
+            message: "Datos inválidos", 
+            errors: result.error.errors.map(e => e.message) 
+          });
+          return;
+        }
+        const { signatureType, typedName } = result.data;
+
+        const signatureRequest = await storage.getSignatureRequest(requestId);
+        if (!signatureRequest || signatureRequest.clientId !== authReq.user!.id) {
+          res.status(404).json({ message: "Solicitud de firma no encontrada" });
+          return;
+        }
+        if (signatureRequest.status !== "pending") {
+          res.status(409).json({ message: "Esta solicitud ya fue firmada o anulada" });
+          return;
+        }
+
+        if (signatureType === "typed" && !canRenderTypedSignature(typedName!)) {
+          res.status(400).json({ message: "Escriba su nombre con letras latinas o dibuje su firma" });
+          return;
+        }
+        if (signatureType === "drawn" && (!req.file || !isPngImage(req.file.buffer))) {
+          res.status(400).json({ message: "Firma dibujada inválida" });
+          return;
+        }
+
+        const original = await readDocumentFile(signatureRequest.filePath, signatureRequest);
+        if (!original) {
+          res.status(404).json({ message: "Archivo no encontrado" });
+          return;
+        }
+        if (sha256(original) !== signatureRequest.documentHash) {
+          console.error(`[Routes] El PDF de la solicitud de firma ${requestId} no coincide con su hash`);
+          res.status(409).json({ message: "El documento no superó la verificación de integridad. Contacte a su preparador." });
+          return;
+        }
+
+        const user = authReq.user!;
+        const signedAt = new Date();
+        const signerIp = getClientIp(req);
+        const signerUserAgent = req.get("user-agent")?.slice(0, 500) ?? null;
+
+        const signedPdf = await stampSignedPdf(original, {
+          requestId,
+          title: signatureRequest.title,
+          fileName: signatureRequest.fileName,
+          signerName: user.name,
+          signerEmail: user.email,
+          signatureType,
+          typedName,
+          drawnSignature: signatureType === "drawn" ? req.file!.buffer : undefined,
+          ip: signerIp,
+          userAgent: signerUserAgent,
+          signedAt,
+          documentHash: signatureRequest.documentHash,
+        });
+        const signedHash = sha256(signedPdf);
+
+        const fileName = `${path.parse(signatureRequest.fileName).name}-signed.pdf`;
+        const filePath = generateStorageKey(fileName);
+        const { dataKey, encryptionKey } = await createDocumentDataKey(signatureRequest.clientId);
+        await putEncryptedFile(filePath, signedPdf, dataKey);
+
+        const signed = await storage.signSignatureRequest(
+          requestId,
+          {
+            caseId: signatureRequest.caseId,
+            clientId: signatureRequest.clientId,
+            fileName,
+            filePath,
+            fileType: "application/pdf",
+            fileSize: signedPdf.length,
+            previewPath: null,
+            encryptionKey,
+            category: "signed_form",
+            description: signatureRequest.title,
+            uploadedById: user.id,
+            isFromPreparer: true,
+          },
+          {
+            signatureType,
+            signerName: signatureType === "typed" ? typedName! : user.name,
+            signerIp,
+            signerUserAgent,
+            signedAt,
+            signedHash,
+          }
+        );
+
+        // Otra petición firmó primero: se descarta este PDF
+        if (!signed) {
+          await getStorageDriver().delete(filePath).catch(console.error);
+          res.status(409).json({ message: "Esta solicitud ya fue firmada o anulada" });
+          return;
+        }
+
+        await storage.createActivityLog({
+          userId: user.id,
+          action: "signature_completed",
+          details: `Caso ${signatureRequest.caseId}: firmado ${signatureRequest.title} (${signatureRequest.kind}, ${signatureType}) desde ${signerIp}; documento ${signed.document.id}, SHA-256 ${signedHash}`,
+        });
+
+        if (wsService) {
+          try {
+            wsService.notifySignatureCompleted(user.name, requestId, signatureRequest.caseId, signatureRequest.title);
+          } catch (wsError) {
+            console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+          }
+        }
+
+        res.json(signed.request);
+      } catch (error) {
+        console.error("Error firmando documento:", error);
+        res.status(500).json({ message: "Error al firmar el documento" });
+      }
+    }
+  );
+
+  /**
+   * GET /api/documents/:id/download
+   * 
+   * Descarga un documento específico
+   * 
+   * @requires authenticateToken
+   * @param {number} id - ID del documento
+   * 
+   * @security
+   * - Solo el propietario, admin o el preparador de su cartera pueden descargar
+   * - Verifica existencia del archivo
+   */
+  app.get("/api/documents/:id/download", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documentId = parseInt(req.params.id);
+      if (isNaN(documentId)) {
+        res.status(400).json({ message: "ID de documento inválido" });
+        return;
+      }
+
+      const document = await storage.getDocument(documentId);
+
+      if (!document) {
+        res.status(404).json({ message: "Documento no encontrado" });
+        return;
+      }
+
+      // Verificar permisos
+      const isStaff = authReq.user!.role === "admin" || authReq.user!.role === "preparer";
+      const allowed = isStaff
+        ? await canManageClient(authReq, document.clientId)
+        : document.clientId === authReq.user!.id;
+
+      if (!allowed) {
+        res.status(403).json({ message: "Acceso denegado" });
+        return;
+      }
+
+      await sendStoredFile(res, document.filePath, document.fileName, document);
+    } catch (error) {
+      console.error("Error de descarga:", error);
+      res.status(500).json({ message: "Error al descargar documento" });
+    }
+  });
+
+  /**
+   * GET /api/documents/:id/preview
+   * 
+   * Obtiene la miniatura JPEG de un documento (primera página de los
+   * PDF, imagen reducida de los JPG/PNG)
+   * 
+   * @requires authenticateToken
+   * @param {number} id - ID del documento
+   * 
+   * @security Mismos permisos que la descarga: propietario, admin o preparador de su cartera
+   */
+  app.get("/api/documents/:id/preview", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documentId = parseInt(req.params.id);
+      if (isNaN(documentId)) {
+        res.status(400).json({ message: "ID de documento inválido" });
+        return;
+      }
+
+      const document = await storage.getDocument(documentId);
+      if (!document) {
+        res.status(404).json({ message: "Documento no encontrado" });
+        return;
+      }
+
+      const isStaff = authReq.user!.role === "admin" || authReq.user!.role === "preparer";
+      const allowed = isStaff
+        ? await canManageClient(authReq, document.clientId)
+        : document.clientId === authReq.user!.id;
+      if (!allowed) {
+        res.status(403).json({ message: "Acceso denegado" });
+        return;
+      }
+
+      if (!document.previewPath) {
+        res.status(404).json({ message: "Vista previa no disponible" });
+        return;
+      }
+
+      await sendStoredFile(res, document.previewPath, `preview-${document.id}.jpg`, document);
+    } catch (error) {
+      console.error("Error obteniendo vista previa:", error);
+      res.status(500).json({ message: "Error al obtener vista previa" });
+    }
+  });
+
+  /**
+   * PUT /api/documents/:id
+   * 
+   * Reemplaza el archivo de un documento con una nueva versión
+   * 
+   * El documento conserva su ID, caso y categoría; el archivo anterior
+   * queda disponible como versión previa.
+   * 
+   * @requires authenticateToken
+   * @param {number} id - ID del documento
+   * @body {File} file - Archivo nuevo (multipart/form-data)
+   * @returns {Document} Documento con la nueva versión vigente
+   * 
+   * @security
+   * - El cliente solo puede reemplazar sus propios documentos (no los del preparador)
+   * - Admin, o preparador con el cliente en su cartera
+   * - Mismos límites de tamaño, tipo y frecuencia que la subida
+   */
+  app.put(
+    "/api/documents/:id",
+    authenticateToken,
+    finalUploadLimiter,
+    uploadSingle,
+    async (req: Request, res: Response) => {
+      const authReq = req as AuthRequest;
+      try {
+        if (!req.file) {
+          res.status(400).json({ message: "No se recibió ningún archivo" });
+          return;
+        }
+
+        const documentId = parseInt(req.params.id);
+        if (isNaN(documentId)) {
+          await removeTempUpload(req.file.path);
+          res.status(400).json({ message: "ID de documento inválido" });
+          return;
+        }
+
+        const existing = await storage.getDocument(documentId);
+        if (!existing) {
+          await removeTempUpload(req.file.path);
+          res.status(404).json({ message: "Documento no encontrado" });
+          return;
+        }
+
+        const isStaff = authReq.user!.role === "admin" || authReq.user!.role === "preparer";
+        const allowed = isStaff
+          ? await canManageClient(authReq, existing.clientId)
+          : existing.clientId === authReq.user!.id && !existing.isFromPreparer;
+        if (!allowed) {
+          await removeTempUpload(req.file.path);
+          res.status(403).json({ message: "Acceso denegado" });
+          return;
+        }
+
+        const screening = await screenUpload(authReq, req.file, existing.clientId);
+        if (!screening.accepted) {
+          res.status(screening.status).json({ message: screening.message });
+          return;
+        }
+
+        let stored: StoredUpload;
+        try {
+          stored = await storeUpload(req.file, existing.clientId);
+        } catch (storageError) {
+          console.error("[Routes] Error guardando el archivo:", storageError);
+          res.status(500).json({ message: "Error al guardar el archivo. Por favor, intenta nuevamente más tarde." });
+          return;
+        }
+
+        const document = await storage.replaceDocumentFile(documentId, {
+          fileName: req.file.originalname,
+          filePath: stored.filePath,
+          fileType: req.file.mimetype,
+          fileSize: req.file.size,
+          previewPath: stored.previewPath,
+          encryptionKey: stored.encryptionKey,
+          uploadedById: authReq.user!.id,
+        });
+        if (!document) {
+          res.status(404).json({ message: "Documento no encontrado" });
+          return;
+        }
+        await queueExtractionIfSupported(document);
+
+        await storage.createActivityLog({
+          userId: authReq.user!.id,
+          action: "document_replaced",
+          details: `Documento ${documentId} reemplazado: ${req.file.originalname} (versión ${document.currentVersion})`,
+        });
+
+        // Avisar a la otra parte, igual que en una subida nueva
+        if (!isStaff) {
+          sendDocumentUploadNotification({
+            clientName: authReq.user!.name,
+            clientEmail: authReq.user!.email,
+            fileName: req.file.originalname,
+            category: document.category,
+          }).catch(console.error);
+
+          if (wsService) {
+            try {
+              wsService.notifyDocumentUpload(
+                authReq.user!.id,
+                authReq.user!.name,
+                req.file.originalname,
+                document.caseId || undefined
+              );
+            } catch (wsError) {
+              console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+            }
+          }
+        } else if (document.isFromPreparer && document.caseId) {
+          if (wsService) {
+            try {
+              wsService.notifyPreparerDocument(document.clientId, req.file.originalname, document.caseId);
+            } catch (wsError) {
+              console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+            }
+          }
+        }
+
+        res.json(document);
+      } catch (error) {
+        console.error("Error reemplazando documento:", error);
+        res.status(500).json({ message: "Error al reemplazar documento" });
+      }
+    }
+  );
+
+  /**
+   * GET /api/documents/:id/versions
+   * 
+   * Obtiene el historial de versiones de un documento
+   * 
+   * @requires authenticateToken
+   * @param {number} id - ID del documento
+   * @returns {DocumentVersion[]} Versiones de la más reciente a la más antigua
+   * 
+   * @security Solo el propietario, admin o el preparador de su cartera
+   */
+  app.get("/api/documents/:id/versions", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documentId = parseInt(req.params.id);
+      if (isNaN(documentId)) {
+        res.status(400).json({ message: "ID de documento inválido" });
+        return;
+      }
+
+      const document = await storage.getDocument(documentId);
+      if (!document) {
+        res.status(404).json({ message: "Documento no encontrado" });
+        return;
+      }
+
+      const isStaff = authReq.user!.role === "admin" || authReq.user!.role === "preparer";
+      const allowed = isStaff
+        ? await canManageClient(authReq, document.clientId)
+        : document.clientId === authReq.user!.id;
+      if (!allowed) {
+        res.status(403).json({ message: "Acceso denegado" });
+        return;
+      }
+
+      const versions = await storage.getDocumentVersions(documentId);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error obteniendo versiones del documento:", error);
+      res.status(500).json({ message: "Error al obtener versiones del documento" });
+    }
+  });
+
+  /**
+   * GET /api/documents/:id/versions/:version/download
+   * 
+   * Descarga una versión concreta de un documento
+   * 
+   * @requires authenticateToken
+   * @param {number} id - ID del documento
+   * @param {number} version - Número de versión
+   * 
+   * @security Solo el propietario, admin o el preparador de su cartera
+   */
+  app.get("/api/documents/:id/versions/:version/download", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documentId = parseInt(req.params.id);
+      const versionNumber = parseInt(req.params.version);
+      if (isNaN(documentId) || isNaN(versionNumber)) {
+        res.status(400).json({ message: "ID de documento o versión inválidos" });
+        return;
+      }
+
+      const document = await storage.getDocument(documentId);
+      if (!document) {
+        res.status(404).json({ message: "Documento no encontrado" });
+        return;
+      }
+
+      const isStaff = authReq.user!.role === "admin" || authReq.user!.role === "preparer";
+      const allowed = isStaff
+        ? await canManageClient(authReq, document.clientId)
+        : document.clientId === authReq.user!.id;
+      if (!allowed) {
+        res.status(403).json({ message: "Acceso denegado" });
+        return;
+      }
+
+      const version = await storage.getDocumentVersion(documentId, versionNumber);
+      if (!version) {
+        res.status(404).json({ message: "Versión no encontrada" });
+        return;
+      }
+
+      await sendStoredFile(res, version.filePath, version.fileName, {
+        clientId: document.clientId,
+        encryptionKey: version.encryptionKey,
+      });
+    } catch (error) {
+      console.error("Error de descarga:", error);
+      res.status(500).json({ message: "Error al descargar documento" });
+    }
+  });
+
+  // ===========================================================================
+  // ENDPOINTS DE CLIENTE - CITAS
+  // ===========================================================================
+
+  /**
+   * GET /api/appointments
+   * 
+   * Obtiene las citas del usuario autenticado
+   * 
+   * @requires authenticateToken
+   * @returns {Appointment[]} Lista de citas del cliente
+   */
+  app.get("/api/appointments", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const appointments = await storage.getAppointmentsByClient(authReq.user!.id);
+      res.json(appointments);
+    } catch (error) {
+      console.error("Error obteniendo citas:", error);
+      res.status(500).json({ message: "Error al obtener citas" });
+    }
+  });
+
+  /**
+   * GET /api/appointments/slots
+   * 
+   * Obtiene los horarios en que se puede agendar una cita
+   * 
+   * @requires authenticateToken
+   * @query {string} type - Tipo de cita (define la duración)
+   * @query {string} [from] - Primera fecha de la oficina 'YYYY-MM-DD' (por defecto, hoy)
+   * @query {string} [to] - Última fecha 'YYYY-MM-DD', inclusive (por defecto, from + 13 días)
+   * @returns {object} timeZone, durationMinutes y slots [{ date, startsAt, endsAt }]
+   * 
+   * Un horario se ofrece si algún preparador lo tiene libre según su
+   * horario semanal, los bloqueos de agenda y sus citas.
+   */
+  app.get("/api/appointments/slots", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const result = appointmentSlotsQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        res.status(400).json({ message: "Datos inválidos", errors: result.error.errors.map(e => e.message) });
+        return;
+      }
+
+      const { durationMinutes } = APPOINTMENT_TYPE_CONFIG[result.data.type];
+      const today = toOfficeDate(new Date());
+      const from = result.data.from && result.data.from > today ? result.data.from : today;
+      const to = result.data.to ?? addDays(from, 13);
+      if (to < from) {
+        res.json({ timeZone: OFFICE_TIME_ZONE, durationMinutes, slots: [] });
+        return;
+      }
+      if (to > addDays(from, MAX_SLOT_RANGE_DAYS - 1)) {
+        res.status(400).json({ message: `Solo se pueden consultar ${MAX_SLOT_RANGE_DAYS} días a la vez` });
+        return;
+      }
+
+      const slots = await getAvailableSlots(from, to, result.data.type);
+      res.json({
+        timeZone: OFFICE_TIME_ZONE,
+        durationMinutes,
+        slots: slots.map((slot) => ({ date: slot.date, startsAt: slot.startsAt, endsAt: slot.endsAt })),
+      });
+    } catch (error) {
+      console.error("Error obteniendo horarios disponibles:", error);
+      res.status(500).json({ message: "Error al obtener horarios disponibles" });
+    }
+  });
+
+  /**
+   * POST /api/appointments
+   * 
+   * Agenda una nueva cita con el preparador
+   * 
+   * @requires authenticateToken
+   * @body {string} appointmentType - Tipo de cita
+   * @body {string} [location] - Lugar de atención (office, phone, video)
+   * @body {string} appointmentDate - Inicio de uno de los horarios disponibles (ISO 8601)
+   * @body {string} [notes] - Notas para la cita
+   * 
+   * @security El horario debe estar libre para algún preparador; se
+   * asigna el preparador del cliente si está libre
+   * 
+   * @sideeffects
+   * - Crea cita en base de datos
+   * - Envía confirmación por email
+   * - Notifica a admin por WebSocket
+   */
+  app.post("/api/appointments", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const result = appointmentSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ message: "Datos inválidos", errors: result.error.errors.map(e => e.message) });
+        return;
+      }
+      const { appointmentType, appointmentDate, notes } = result.data;
+      const typeConfig = APPOINTMENT_TYPE_CONFIG[appointmentType];
+      const location = result.data.location ?? typeConfig.locations[0];
+
+      const date = toOfficeDate(appointmentDate);
+      const slot = (await getAvailableSlots(date, date, appointmentType)).find(
+        (candidate) => candidate.startsAt.getTime() === appointmentDate.getTime()
+      );
+      if (!slot) {
+        res.status(409).json({ 
+          message: "Este horario no está disponible. Por favor elija otro.",
+          conflict: true
+        });
+        return;
+      }
+
+      // Preferir al preparador del caso más reciente del cliente
+      const [latestCase] = await storage.getTaxCasesByClient(authReq.user!.id);
+      const dayAppointments = await storage.getActiveAppointmentsBetween(
+        new Date(slot.startsAt.getTime() - 24 * 60 * 60 * 1000),
+        new Date(slot.startsAt.getTime() + 24 * 60 * 60 * 1000)
+      );
+      const preparerId = choosePreparer(
+        slot,
+        dayAppointments.filter((appointment) => toOfficeDate(appointment.appointmentDate) === date),
+        latestCase?.assignedPreparerId
+      );
+
+      // Crear cita (puede fallar si otro cliente tomó el horario al mismo tiempo)
+      const appointment = await storage.bookAppointment({
+        clientId: authReq.user!.id,
+        preparerId,
+        appointmentType,
+        location,
+        appointmentDate,
+        durationMinutes: typeConfig.durationMinutes,
+        bufferMinutes: typeConfig.bufferMinutes,
+        notes: notes || null,
+        status: "scheduled",
+      });
+      if (!appointment) {
+        res.status(409).json({ 
+          message: "Este horario no está disponible. Por favor elija otro.",
+          conflict: true
+        });
+        return;
+      }
+
+      // Registrar actividad
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "appointment_scheduled",
+        details: `Cita (${appointmentType}, ${location}) agendada para ${appointmentDate.toISOString()} con el preparador ${preparerId}`,
+      });
+
+      // Enviar confirmación por email
+      sendAppointmentConfirmation({
+        clientName: authReq.user!.name,
+        clientEmail: authReq.user!.email,
+        appointmentDate,
+        appointmentType,
+        location,
+        durationMinutes: typeConfig.durationMinutes,
+        timeZone: OFFICE_TIME_ZONE,
+        notes: notes || undefined,
+      }).catch(console.error);
+
+      // Notificación en tiempo real (solo si wsService está disponible)
+      if (wsService) {
+        try {
+          wsService.notifyNewAppointment(
+            authReq.user!.id,
+            appointmentDate.toISOString(),
+            notes || "Consulta de impuestos"
+          );
+        } catch (wsError) {
+          console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+        }
+      }
+
+      res.json(appointment);
+    } catch (error) {
+      console.error("Error creando cita:", error);
+      res.status(500).json({ message: "Error al crear cita" });
+    }
+  });
+
+  /**
+   * POST /api/appointments/:id/cancel
+   * 
+   * Cancela una cita del cliente
+   * 
+   * @requires authenticateToken
+   * @param {number} id - ID de la cita
+   * @body {string} [reason] - Motivo de la cancelación
+   * 
+   * @security Solo hasta CLIENT_CHANGE_CUTOFF_MINUTES antes del inicio
+   * 
+   * @sideeffects
+   * - Envía aviso por email al cliente y a la oficina
+   * - Notifica a preparadores por WebSocket
+   */
+  app.post("/api/appointments/:id/cancel", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        res.status(400).json({ message: "ID de cita inválido" });
+        return;
+      }
+
+      const result = appointmentCancelSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        res.status(400).json({ message: "Datos inválidos", errors: result.error.errors.map(e => e.message) });
+        return;
+      }
+      const { reason } = result.data;
+
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment || appointment.clientId !== authReq.user!.id) {
+        res.status(404).json({ message: "Cita no encontrada" });
+        return;
+      }
+      if (appointment.status !== "scheduled") {
+        res.status(409).json({ message: "Esta cita ya fue cancelada o completada" });
+        return;
+      }
+      if (!canClientChangeAppointment(appointment)) {
+        res.status(409).json({
+          message: `Las citas solo pueden cancelarse hasta ${CLIENT_CHANGE_CUTOFF_MINUTES / 60} horas antes. Comuníquese con la oficina.`,
+        });
+        return;
+      }
+
+      const cancelled = await storage.closeAppointment(appointmentId, "cancelled");
+      if (!cancelled) {
+        res.status(409).json({ message: "Esta cita ya fue cancelada o completada" });
+        return;
+      }
+
+      await announceClientCancellation(authReq.user!, appointment, reason || undefined);
+
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelando cita:", error);
+      res.status(500).json({ message: "Error al cancelar cita" });
+    }
+  });
+
+  /**
+   * POST /api/appointments/:id/reschedule
+   * 
+   * Reprograma una cita del cliente a otro horario disponible
+   * 
+   * @requires authenticateToken
+   * @param {number} id - ID de la cita
+   * @body {string} appointmentDate - Inicio de uno de los horarios disponibles (ISO 8601)
+   * 
+   * @security Solo hasta CLIENT_CHANGE_CUTOFF_MINUTES antes del inicio
+   * de la cita actual; el nuevo horario se vuelve a verificar
+   * 
+   * @sideeffects
+   * - Envía aviso por email al cliente y a la oficina
+   * - Notifica a preparadores por WebSocket
+   */
+  app.post("/api/appointments/:id/reschedule", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        res.status(400).json({ message: "ID de cita inválido" });
+        return;
+      }
+
+      const result = appointmentRescheduleSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ message: "Datos inválidos", errors: result.error.errors.map(e => e.message) });
+        return;
+      }
+      const { appointmentDate } = result.data;
+
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment || appointment.clientId !== authReq.user!.id) {
+        res.status(404).json({ message: "Cita no encontrada" });
+        return;
+      }
+      if (appointment.status !== "scheduled") {
+        res.status(409).json({ message: "Esta cita ya fue cancelada o completada" });
+        return;
+      }
+      if (!canClientChangeAppointment(appointment)) {
+        res.status(409).json({
+          message: `Las citas solo pueden reprogramarse hasta ${CLIENT_CHANGE_CUTOFF_MINUTES / 60} horas antes. Comuníquese con la oficina.`,
+        });
+        return;
+      }
+
+      const preparerId = await pickRescheduleSlot(appointment, appointmentDate);
+      const rescheduled = preparerId !== undefined
+        ? await storage.rescheduleAppointment(appointmentId, {
+            preparerId,
+            appointmentDate,
+            durationMinutes: appointment.durationMinutes,
+            bufferMinutes: appointment.bufferMinutes,
+          })
+        : undefined;
+      if (!rescheduled) {
+        res.status(409).json({ 
+          message: "Este horario no está disponible. Por favor elija otro.",
+          conflict: true
+        });
+        return;
+      }
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "appointment_rescheduled",
+        details: `Cita ${appointmentId} reprogramada por el cliente del ${appointment.appointmentDate.toISOString()} ` +
+          `al ${appointmentDate.toISOString()} con el preparador ${preparerId}`,
+      });
+
+      sendAppointmentChangeEmail({
+        clientName: authReq.user!.name,
+        clientEmail: authReq.user!.email,
+        change: "rescheduled",
+        appointmentDate,
+        previousDate: appointment.appointmentDate,
+        timeZone: OFFICE_TIME_ZONE,
+        changedByClient: true,
+      }).catch(console.error);
+
+      try {
+        wsService.notifyAppointmentChanged(
+          appointment.clientId,
+          appointmentId,
+          "rescheduled",
+          appointmentDate.toISOString(),
+          true
+        );
+      } catch (wsError) {
+        console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+      }
+
+      res.json(rescheduled);
+    } catch (error) {
+      console.error("Error reprogramando cita:", error);
+      res.status(500).json({ message: "Error al reprogramar cita" });
+    }
+  });
+
+  /**
+   * GET /api/appointment-actions
+   * 
+   * Obtiene la cita de un enlace de confirmación o cancelación de un
+   * recordatorio, sin aplicar la acción
+   * 
+   * @query {string} token - Token firmado del enlace
+   * @returns {object} action, appointmentDate, appointmentType, location,
+   *   durationMinutes, timeZone, status, confirmedAt, canCancel
+   * 
+   * @security No requiere sesión: el token firmado identifica la cita.
+   * Los enlaces de un horario anterior (cita reprogramada) no valen.
+   */
+  app.get("/api/appointment-actions", async (req: Request, res: Response) => {
+    try {
+      const result = appointmentActionSchema.safeParse(req.query);
+      if (!result.success) {
+        res.status(400).json({ message: "Datos inválidos", errors: result.error.errors.map(e => e.message) });
+        return;
+      }
+
+      const action = verifyAppointmentActionToken(result.data.token);
+      const appointment = action ? await storage.getAppointment(action.appointmentId) : undefined;
+      if (!action || !appointment || appointment.appointmentDate.getTime() !== action.appointmentDate.getTime()) {
+        res.status(404).json({ message: "El enlace no es válido o la cita cambió de horario" });
+        return;
+      }
+
+      res.json({
+        action: action.action,
+        appointmentDate: appointment.appointmentDate,
+        appointmentType: appointment.appointmentType,
+        location: appointment.location,
+        durationMinutes: appointment.durationMinutes,
+        timeZone: OFFICE_TIME_ZONE,
+        status: appointment.status,
+        confirmedAt: appointment.confirmedAt,
+        canCancel: canClientChangeAppointment(appointment),
+      });
+    } catch (error) {
+      console.error("Error obteniendo cita del enlace:", error);
+      res.status(500).json({ message: "Error al obtener cita" });
+    }
+  });
+
+  /**
+   * POST /api/appointment-actions
+   * 
+   * Aplica la acción de un enlace de un recordatorio: confirma la
+   * asistencia o cancela la cita
+   * 
+   * @body {string} token - Token firmado del enlace
+   * @returns {Appointment} Cita actualizada
+   * 
+   * @security No requiere sesión: el token firmado identifica la cita.
+   * La cancelación respeta el plazo de CLIENT_CHANGE_CUTOFF_MINUTES.
+   * 
+   * @sideeffects
+   * - Registra la actividad a nombre del cliente
+   * - Cancelación: envía aviso por email al cliente y a la oficina
+   * - Notifica a preparadores por WebSocket
+   */
+  app.post("/api/appointment-actions", async (req: Request, res: Response) => {
+    try {
+      const result = appointmentActionSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ message: "Datos inválidos", errors: result.error.errors.map(e => e.message) });
+        return;
+      }
+
+      const action = verifyAppointmentActionToken(result.data.token);
+      const appointment = action ? await storage.getAppointment(action.appointmentId) : undefined;
+      if (!action || !appointment || appointment.appointmentDate.getTime() !== action.appointmentDate.getTime()) {
+        res.status(404).json({ message: "El enlace no es válido o la cita cambió de horario" });
+        return;
+      }
+      if (appointment.status !== "scheduled") {
+        res.status(409).json({ message: "Esta cita ya fue cancelada o completada" });
+        return;
+      }
+
+      const client = await storage.getUser(appointment.clientId);
+      if (!client) {
+        res.status(404).json({ message: "Cita no encontrada" });
+        return;
+      }
+
+      if (action.action === "confirm") {
+        if (appointment.confirmedAt) {
+          res.json(appointment);
+          return;
+        }
+        const confirmed = await storage.confirmAppointment(appointment.id, appointment.appointmentDate);
+        if (!confirmed) {
+          res.status(409).json({ message: "Esta cita ya fue cancelada o completada" });
+          return;
+        }
+
+        await storage.createActivityLog({
+          userId: client.id,
+          action: "appointment_confirmed",
+          details: `Cita ${appointment.id} del ${appointment.appointmentDate.toISOString()} confirmada por el cliente`,
+        });
+
+        try {
+          wsService.notifyAppointmentChanged(
+            appointment.clientId,
+            appointment.id,
+            "confirmed",
+            appointment.appointmentDate.toISOString(),
+            true
+          );
+        } catch (wsError) {
+          console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+        }
+
+        res.json(confirmed);
+        return;
+      }
+
+      if (!canClientChangeAppointment(appointment)) {
+        res.status(409).json({
+          message: `Las citas solo pueden cancelarse hasta ${CLIENT_CHANGE_CUTOFF_MINUTES / 60} horas antes. Comuníquese con la oficina.`,
+        });
+        return;
+      }
+
+      const cancelled = await storage.closeAppointment(appointment.id, "cancelled");
+      if (!cancelled) {
+        res.status(409).json({ message: "Esta cita ya fue cancelada o completada" });
+        return;
+      }
+
+      await announceClientCancellation(client, appointment);
+
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error aplicando enlace de cita:", error);
+      res.status(500).json({ message: "Error al actualizar cita" });
+    }
+  });
+
+  // ===========================================================================
+  // ENDPOINTS DE MENSAJERÍA
+  // ===========================================================================
+
+  /**
+   * GET /api/messages/conversations
+   * 
+   * Obtiene las conversaciones del usuario
+   * 
+   * @requires authenticateToken
+   * @returns {Conversation[]} Lista de conversaciones con último mensaje
+   */
+  app.get("/api/messages/conversations", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const conversations = await storage.getConversationsForUser(authReq.user!.id);
+      res.json(conversations);
+    } catch (error) {
+      console.error("Error obteniendo conversaciones:", error);
+      res.status(500).json({ message: "Error al obtener conversaciones" });
+    }
+  });
+
+  /**
+   * GET /api/messages/unread-count
+   * 
+   * Obtiene el conteo de mensajes no leídos
+   * 
+   * @requires authenticateToken
+   * @returns {object} Conteo de mensajes sin leer
+   */
+  app.get("/api/messages/unread-count", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const count = await storage.getUnreadCount(authReq.user!.id);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error obteniendo conteo:", error);
+      res.status(500).json({ message: "Error al obtener conteo" });
+    }
+  });
+
+  /**
+   * GET /api/messages/:partnerId
+   * 
+   * Obtiene el historial de mensajes con un usuario específico
+   * 
+   * @requires authenticateToken
+   * @param {number} partnerId - ID del otro usuario
+   * 
+   * @sideeffects Marca los mensajes como leídos
+   */
+  app.get("/api/messages/:partnerId", authenticateToken, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const partnerId = parseInt(req.params.partnerId);
+      if (isNaN(partnerId)) {
+        res.status(400).json({ message: "ID de usuario inválido" });
+        return;
+      }
+
+      const messages = await storage.getConversation(authReq.user!.id, partnerId);
+      
+      // Marcar como leídos
+      await storage.markMessagesAsRead(authReq.user!.id, partnerId);
+      
+      res.json(messages);
+    } catch (error) {
+      console.error("Error obteniendo mensajes:", error);
+      res.status(500).json({ message: "Error al obtener mensajes" });
+    }
+  });
+
+  /**
+   * POST /api/messages
+   * 
+   * Envía un nuevo mensaje a otro usuario
+   * 
+   * @requires authenticateToken
+   * @body {number} recipientId - ID del destinatario
+   * @body {string} message - Contenido del mensaje
+   * @body {number} [caseId] - Caso relacionado opcional
+   * 
+   * @security Rate limited: 30 mensajes / 15 min
+   * @sideeffects Notifica al destinatario por WebSocket
+   */
+  app.post("/api/messages", authenticateToken, finalMessageLimiter, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      // Validar datos de entrada
+      const result = messageSchema.safeParse({
+        ...req.body,
+        recipientId: parseInt(req.body.recipientId)
+      });
+      
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const { recipientId, message, caseId } = result.data;
+
+      // Verificar que el destinatario existe
+      const recipient = await storage.getUser(recipientId);
+      if (!recipient) {
+        res.status(404).json({ message: "Destinatario no encontrado" });
+        return;
+      }
+
+      // Crear mensaje
+      const newMessage = await storage.createMessage({
+        senderId: authReq.user!.id,
+        recipientId,
+        message,
+        caseId: caseId || null,
+        isRead: false,
+      });
+
+      // Registrar actividad
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "message_sent",
+        details: `Mensaje enviado a ${recipient.name}`,
+      });
+
+      // Notificación en tiempo real (solo si wsService está disponible)
+      if (wsService) {
+        try {
+          wsService.notifyNewMessage(
+            authReq.user!.id,
+            recipientId,
+            message.substring(0, 100) + (message.length > 100 ? "..." : "")
+          );
+        } catch (wsError) {
+          console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+        }
+      }
+
+      res.json(newMessage);
+    } catch (error) {
+      console.error("Error enviando mensaje:", error);
+      res.status(500).json({ message: "Error al enviar mensaje" });
+    }
+  });
+
+  /**
+   * GET /api/preparers
+   * 
+   * Obtiene la lista de preparadores disponibles para mensajería
+   * 
+   * @requires authenticateToken
+   * @returns {Preparer[]} Lista de preparadores con id, nombre y rol
+   */
+  app.get("/api/preparers", authenticateToken, async (_req: Request, res: Response) => {
+    try {
+      const preparers = await db.select().from(users).where(
+        sql`${users.role} IN ('admin', 'preparer')`
+      );
+      res.json(preparers.map(p => ({ id: p.id, name: p.name, role: p.role })));
+    } catch (error) {
+      console.error("Error obteniendo preparadores:", error);
+      res.status(500).json({ message: "Error al obtener preparadores" });
+    }
+  });
+
+  // ===========================================================================
+  // ENDPOINTS DE ADMINISTRACIÓN
+  // ===========================================================================
+
+  /**
+   * GET /api/admin/stats
+   * 
+   * Obtiene estadísticas del dashboard de administración
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @returns {object} Estadísticas generales del sistema
+   */
+  app.get("/api/admin/stats", authenticateToken, requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      console.log("[Admin] Obteniendo estadísticas...");
+      const stats = await storage.getAdminStats();
+      console.log("[Admin] Estadísticas obtenidas:", stats);
+      res.json(stats);
+    } catch (error) {
+      console.error("[Admin] Error obteniendo estadísticas:", error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error("[Admin] Error details:", errorMessage, error);
+      res.status(500).json({ 
+        message: "Error al obtener estadísticas",
+        error: process.env.NODE_ENV !== 'production' ? errorMessage : undefined
+      });
+    }
+  });
+
+  /**
+   * GET /api/admin/clients
+   * 
+   * Obtiene la lista de clientes con detalles
+   * 
+   * Los preparadores solo reciben los clientes con casos asignados a ellos
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @returns {Client[]} Clientes con conteo de documentos y casos
+   */
+  app.get("/api/admin/clients", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      console.log("[Admin] Obteniendo clientes...");
+      const clients = await storage.getClientsWithDetails(getPreparerScope(req as AuthRequest));
+      console.log("[Admin] Clientes obtenidos:", clients.length);
+      res.json(clients);
+    } catch (error) {
+      console.error("[Admin] Error obteniendo clientes:", error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error("[Admin] Error details:", errorMessage, error);
+      res.status(500).json({ 
+        message: "Error al obtener clientes",
+        error: process.env.NODE_ENV !== 'production' ? errorMessage : undefined
+      });
+    }
+  });
+
+  /**
+   * GET /api/admin/clients/:id
+   * 
+   * Obtiene información detallada de un cliente
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del cliente
+   * @returns {object} Cliente con documentos, casos y citas
+   * 
+   * @security Un preparador solo puede ver clientes de su cartera
+   */
+  app.get("/api/admin/clients/:id", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const clientId = parseInt(req.params.id);
+      if (isNaN(clientId)) {
+        res.status(400).json({ message: "ID de cliente inválido" });
+        return;
+      }
+
+      const client = await storage.getUser(clientId);
+      if (!client) {
+        res.status(404).json({ message: "Cliente no encontrado" });
+        return;
+      }
+
+      const preparerId = getPreparerScope(authReq);
+      if (preparerId !== undefined && !(await storage.isClientAssignedToPreparer(clientId, preparerId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+      
+      const documents = await storage.getDocumentsByClient(clientId);
+      const deletedDocuments = await storage.getDeletedDocumentsByClient(clientId);
+      const cases = await storage.getTaxCasesByClient(clientId);
+      const appointments = await storage.getAppointmentsByClient(clientId);
+      
+      res.json({ client, documents, deletedDocuments, cases, appointments });
+    } catch (error) {
+      console.error("Error obteniendo detalles del cliente:", error);
+      res.status(500).json({ message: "Error al obtener detalles" });
+    }
+  });
+
+  /**
+   * GET /api/admin/clients/:id/documents.zip
+   * 
+   * Descarga en un ZIP todos los documentos de un cliente
+   * 
+   * Los archivos van en una carpeta por categoría, con un manifest.csv
+   * de metadatos en la raíz.
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del cliente
+   * @returns {application/zip} ZIP de documentos
+   * 
+   * @security Un preparador solo puede descargar clientes de su cartera
+   */
+  app.get("/api/admin/clients/:id/documents.zip", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const clientId = parseInt(req.params.id);
+      if (isNaN(clientId)) {
+        res.status(400).json({ message: "ID de cliente inválido" });
+        return;
+      }
+
+      const client = await storage.getUser(clientId);
+      if (!client) {
+        res.status(404).json({ message: "Cliente no encontrado" });
+        return;
+      }
+
+      const preparerId = getPreparerScope(authReq);
+      if (preparerId !== undefined && !(await storage.isClientAssignedToPreparer(clientId, preparerId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+
+      const documents = await storage.getDocumentsByClient(clientId);
+      if (documents.length === 0) {
+        res.status(404).json({ message: "El cliente no tiene documentos" });
+        return;
+      }
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "documents_archive_downloaded",
+        details: `ZIP de ${documents.length} documento(s) del cliente ${clientId}`,
+      });
+
+      await sendDocumentArchive(res, documents, archiveFileName(client.name, clientId, "documentos"));
+    } catch (error) {
+      console.error("Error generando ZIP del cliente:", error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({ message: "Error al generar el ZIP" });
+    }
+  });
+
+  /**
+   * GET /api/admin/documents
+   * 
+   * Obtiene todos los documentos del sistema
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @returns {Document[]} Todos los documentos
+   * 
+   * @security Un preparador solo ve los documentos de clientes de su cartera
+   */
+  app.get("/api/admin/documents", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documents = await storage.getAllDocuments(getPreparerScope(authReq));
+      res.json(documents);
+    } catch (error) {
+      console.error("Error obteniendo documentos:", error);
+      res.status(500).json({ message: "Error al obtener documentos" });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/documents/:id
+   * 
+   * Elimina cualquier documento (soft delete)
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del documento
+   * @returns {{ message: string, purgeAfterDays: number }}
+   * 
+   * @security Un preparador solo puede eliminar documentos de clientes de su cartera
+   */
+  app.delete("/api/admin/documents/:id", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documentId = parseInt(req.params.id);
+      if (isNaN(documentId)) {
+        res.status(400).json({ message: "ID de documento inválido" });
+        return;
+      }
+
+      const document = await storage.getDocument(documentId);
+      if (!document) {
+        res.status(404).json({ message: "Documento no encontrado" });
+        return;
+      }
+
+      if (!(await canManageClient(authReq, document.clientId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+
+      await storage.softDeleteDocument(documentId, authReq.user!.id);
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "document_deleted",
+        details: `Documento ${documentId} del cliente ${document.clientId} eliminado: ${document.fileName}`,
+      });
+
+      res.json({ message: "Documento eliminado", purgeAfterDays: getDocumentRetentionDays() });
+    } catch (error) {
+      console.error("Error eliminando documento:", error);
+      res.status(500).json({ message: "Error al eliminar documento" });
+    }
+  });
+
+  /**
+   * PATCH /api/admin/documents/:id/review
+   * 
+   * Registra la revisión de un documento del cliente
+   * 
+   * Al aceptar o rechazar se notifica al cliente por WebSocket; un
+   * rechazo también se envía por email para que vuelva a subirlo.
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del documento
+   * @body {string} reviewStatus - 'received' | 'accepted' | 'rejected'
+   * @body {string} [rejectionReason] - Requerido si reviewStatus = 'rejected'
+   * @returns {Document} Documento actualizado
+   * 
+   * @security Un preparador solo puede revisar documentos de clientes de su cartera
+   */
+  app.patch("/api/admin/documents/:id/review", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documentId = parseInt(req.params.id);
+      if (isNaN(documentId)) {
+        res.status(400).json({ message: "ID de documento inválido" });
+        return;
+      }
+
+      const result = documentReviewSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const document = await storage.getDocument(documentId);
+      if (!document) {
+        res.status(404).json({ message: "Documento no encontrado" });
+        return;
+      }
+
+      if (!(await canManageClient(authReq, document.clientId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+
+      if (document.isFromPreparer) {
+        res.status(400).json({ message: "Los documentos del preparador no se revisan" });
+        return;
+      }
+
+      const { reviewStatus } = result.data;
+      const rejectionReason = reviewStatus === "rejected" ? result.data.rejectionReason! : null;
+
+      const updated = await storage.reviewDocument(documentId, {
+        reviewStatus,
+        rejectionReason,
+        reviewedById: authReq.user!.id,
+      });
+      if (!updated) {
+        res.status(404).json({ message: "Documento no encontrado" });
+        return;
+      }
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: reviewStatus === "rejected" ? "document_rejected" : "document_reviewed",
+        details: reviewStatus === "rejected"
+          ? `Documento ${documentId} del cliente ${document.clientId} rechazado: ${rejectionReason}`
+          : `Documento ${documentId} del cliente ${document.clientId} marcado como ${reviewStatus}`,
+      });
+
+      if (reviewStatus !== "received") {
+        try {
+          wsService.notifyDocumentReviewed(document.clientId, documentId, document.fileName, reviewStatus, rejectionReason);
+        } catch (wsError) {
+          console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+        }
+      }
+
+      if (reviewStatus === "rejected") {
+        const [client, taxCase] = await Promise.all([
+          storage.getUser(document.clientId),
+          document.caseId ? storage.getTaxCase(document.caseId) : Promise.resolve(undefined),
+        ]);
+        if (client) {
+          sendDocumentRejectedEmail({
+            clientName: client.name,
+            clientEmail: client.email,
+            fileName: document.fileName,
+            category: document.category,
+            rejectionReason: rejectionReason!,
+            filingYear: taxCase?.filingYear,
+          }).catch(console.error);
+        }
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error revisando documento:", error);
+      res.status(500).json({ message: "Error al revisar documento" });
+    }
+  });
+
+  /**
+   * GET /api/admin/documents/:id/extraction
+   * 
+   * Obtiene los campos extraídos por OCR de un W-2 o 1099
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del documento
+   * @returns {DocumentExtraction} Extracción con su estado y campos
+   * 
+   * @security Un preparador solo puede ver documentos de clientes de su cartera
+   */
+  app.get("/api/admin/documents/:id/extraction", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documentId = parseInt(req.params.id);
+      if (isNaN(documentId)) {
+        res.status(400).json({ message: "ID de documento inválido" });
+        return;
+      }
+
+      const document = await storage.getDocument(documentId);
+      if (!document) {
+        res.status(404).json({ message: "Documento no encontrado" });
+        return;
+      }
+
+      if (!(await canManageClient(authReq, document.clientId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+
+      const extraction = await storage.getDocumentExtraction(documentId);
+      if (!extraction) {
+        res.status(404).json({ message: "Este documento no tiene extracción" });
+        return;
+      }
+
+      res.json(extraction);
+    } catch (error) {
+      console.error("Error obteniendo extracción:", error);
+      res.status(500).json({ message: "Error al obtener extracción" });
+    }
+  });
+
+  /**
+   * PATCH /api/admin/documents/:id/extraction
+   * 
+   * Guarda los campos OCR revisados y corregidos por el preparador
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del documento
+   * @body {Record<string, string | null>} fields - Campos del formulario
+   * @returns {DocumentExtraction} Extracción en estado 'reviewed'
+   * 
+   * @security Un preparador solo puede revisar documentos de clientes de su cartera
+   */
+  app.patch("/api/admin/documents/:id/extraction", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documentId = parseInt(req.params.id);
+      if (isNaN(documentId)) {
+        res.status(400).json({ message: "ID de documento inválido" });
+        return;
+      }
+
+      const result = documentExtractionSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const document = await storage.getDocument(documentId);
+      if (!document) {
+        res.status(404).json({ message: "Documento no encontrado" });
+        return;
+      }
+
+      if (!(await canManageClient(authReq, document.clientId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+
+      const extraction = await storage.getDocumentExtraction(documentId);
+      if (!extraction || !isExtractionFormType(extraction.formType)) {
+        res.status(404).json({ message: "Este documento no tiene extracción" });
+        return;
+      }
+
+      const allowed = EXTRACTION_FIELDS[extraction.formType];
+      const unknown = Object.keys(result.data.fields).filter((field) => !allowed.includes(field));
+      if (unknown.length > 0) {
+        res.status(400).json({ message: "Datos inválidos", errors: [`Campos desconocidos: ${unknown.join(", ")}`] });
+        return;
+      }
+
+      // Los campos omitidos conservan su valor; uno vacío se borra
+      const fields = Object.fromEntries(
+        allowed.map((field) => [
+          field,
+          field in result.data.fields ? result.data.fields[field] || null : extraction.fields[field] ?? null,
+        ])
+      );
+      const updated = await storage.reviewDocumentExtraction(documentId, fields, authReq.user!.id);
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "document_extraction_reviewed",
+        details: `Campos OCR del documento ${documentId} revisados (${extraction.formType})`,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error guardando extracción:", error);
+      res.status(500).json({ message: "Error al guardar extracción" });
+    }
+  });
+
+  /**
+   * POST /api/admin/documents/:id/extraction/retry
+   * 
+   * Vuelve a poner en cola el OCR de un W-2 o 1099 (p. ej. tras un fallo)
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del documento
+   * @returns {DocumentExtraction} Extracción en estado 'pending'
+   * 
+   * @security Un preparador solo puede reprocesar documentos de clientes de su cartera
+   */
+  app.post("/api/admin/documents/:id/extraction/retry", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documentId = parseInt(req.params.id);
+      if (isNaN(documentId)) {
+        res.status(400).json({ message: "ID de documento inválido" });
+        return;
+      }
+
+      const document = await storage.getDocument(documentId);
+      if (!document) {
+        res.status(404).json({ message: "Documento no encontrado" });
+        return;
+      }
+
+      if (!(await canManageClient(authReq, document.clientId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+
+      if (!isExtractionFormType(document.category)) {
+        res.status(400).json({ message: "Solo los W-2 y 1099 admiten extracción" });
+        return;
+      }
+
+      const extraction = await storage.queueDocumentExtraction(documentId, document.category);
+      res.json(extraction);
+    } catch (error) {
+      console.error("Error reprocesando extracción:", error);
+      res.status(500).json({ message: "Error al reprocesar extracción" });
+    }
+  });
+
+  /**
+   * GET /api/admin/quarantine
+   * 
+   * Lista las subidas retenidas por la verificación de archivos
+   * 
+   * @requires authenticateToken, requireAdmin, requireAdminRole
+   * @returns {QuarantinedUpload[]} Subidas en cuarentena, más recientes primero
+   * 
+   * @security Solo administradores
+   */
+  app.get("/api/admin/quarantine", authenticateToken, requireAdmin, requireAdminRole, async (_req: Request, res: Response) => {
+    try {
+      const uploads = await storage.getQuarantinedUploads();
+      res.json(uploads);
+    } catch (error) {
+      console.error("Error obteniendo subidas en cuarentena:", error);
+      res.status(500).json({ message: "Error al obtener subidas en cuarentena" });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/quarantine/:id
+   * 
+   * Elimina definitivamente una subida en cuarentena y su archivo
+   * 
+   * @requires authenticateToken, requireAdmin, requireAdminRole
+   * @param {number} id - ID de la subida retenida
+   * @returns {Object} Mensaje de confirmación
+   * 
+   * @sideeffects Registra la eliminación en activity_logs
+   * @security Solo administradores
+   */
+  app.delete("/api/admin/quarantine/:id", authenticateToken, requireAdmin, requireAdminRole, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const uploadId = parseInt(req.params.id);
+      if (isNaN(uploadId)) {
+        res.status(400).json({ message: "ID inválido" });
+        return;
+      }
+
+      const upload = await storage.getQuarantinedUpload(uploadId);
+      if (!upload) {
+        res.status(404).json({ message: "Subida no encontrada" });
+        return;
+      }
+
+      if (upload.filePath) {
+        await getStorageDriver().delete(upload.filePath);
+      }
+      await storage.deleteQuarantinedUpload(uploadId);
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "quarantined_upload_deleted",
+        details: `Subida en cuarentena ${uploadId} eliminada: ${upload.fileName}`,
+      });
+
+      res.json({ message: "Archivo eliminado" });
+    } catch (error) {
+      console.error("Error eliminando subida en cuarentena:", error);
+      res.status(500).json({ message: "Error al eliminar el archivo" });
+    }
+  });
+
+  /**
+   * POST /api/admin/documents/:id/restore
+   * 
+   * Restaura un documento eliminado antes de que se purgue
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del documento
+   * @returns {Document} Documento restaurado
+   * 
+   * @security Un preparador solo puede restaurar documentos de clientes de su cartera
+   */
+  app.post("/api/admin/documents/:id/restore", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const documentId = parseInt(req.params.id);
+      if (isNaN(documentId)) {
+        res.status(400).json({ message: "ID de documento inválido" });
+        return;
+      }
+
+      const deleted = await storage.getDeletedDocument(documentId);
+      if (!deleted) {
+        res.status(404).json({ message: "Documento eliminado no encontrado" });
+        return;
+      }
+
+      if (!(await canManageClient(authReq, deleted.clientId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+
+      const restored = await storage.restoreDocument(documentId);
+      if (!restored) {
+        res.status(404).json({ message: "Documento eliminado no encontrado" });
+        return;
+      }
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "document_restored",
+        details: `Documento ${documentId} del cliente ${restored.clientId} restaurado: ${restored.fileName}`,
+      });
+
+      res.json(restored);
+    } catch (error) {
+      console.error("Error restaurando documento:", error);
+      res.status(500).json({ message: "Error al restaurar documento" });
+    }
+  });
+
+  /**
+   * POST /api/admin/cases/:id/documents
+   * 
+   * Sube un documento del preparador al caso de un cliente
+   * (declaración preparada, carta del IRS, formulario para firmar)
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del caso
+   * @body {File} file - Archivo a subir (multipart/form-data)
+   * @body {string} [category] - Categoría del documento
+   * @body {string} [description] - Nota para el cliente
+   * @returns {Document} Documento creado con isFromPreparer = true
+   * 
+   * @security
+   * - Un preparador solo puede subir a casos asignados a él
+   * - Mismos límites de tamaño, tipo y frecuencia que la subida del cliente
+   * 
+   * @sideeffects
+   * - Envía email al cliente
+   * - Envía notificación WebSocket al cliente
+   */
+  app.post(
+    "/api/admin/cases/:id/documents",
+    authenticateToken,
+    requireAdmin,
+    finalUploadLimiter,
+    uploadSingle,
+    async (req: Request, res: Response) => {
+      const authReq = req as AuthRequest;
+      try {
+        if (!req.file) {
+          res.status(400).json({ message: "No se recibió ningún archivo" });
+          return;
+        }
+
+        const caseId = parseInt(req.params.id);
+        if (isNaN(caseId)) {
+          await removeTempUpload(req.file.path);
+          res.status(400).json({ message: "ID de caso inválido" });
+          return;
+        }
+
+        const taxCase = await storage.getTaxCase(caseId);
+        if (!taxCase) {
+          await removeTempUpload(req.file.path);
+          res.status(404).json({ message: "Caso no encontrado" });
+          return;
+        }
+
+        const preparerId = getPreparerScope(authReq);
+        if (preparerId !== undefined && taxCase.assignedPreparerId !== preparerId) {
+          await removeTempUpload(req.file.path);
+          res.status(403).json({ message: "Este caso no está asignado a usted" });
+          return;
+        }
+
+        const { category, description } = req.body;
+        const docCategory = VALID_CATEGORIES.includes(category) ? category : "other";
+
+        const screening = await screenUpload(authReq, req.file, taxCase.clientId);
+        if (!screening.accepted) {
+          res.status(screening.status).json({ message: screening.message });
+          return;
+        }
+
+        let stored: StoredUpload;
+        try {
+          stored = await storeUpload(req.file, taxCase.clientId);
+        } catch (storageError) {
+          console.error("[Routes] Error guardando el archivo:", storageError);
+          res.status(500).json({ message: "Error al guardar el archivo. Por favor, intenta nuevamente más tarde." });
+          return;
+        }
+
+        const document = await storage.createDocument({
+          caseId,
+          clientId: taxCase.clientId,
+          fileName: req.file.originalname,
+          filePath: stored.filePath,
+          fileType: req.file.mimetype,
+          fileSize: req.file.size,
+          previewPath: stored.previewPath,
+          encryptionKey: stored.encryptionKey,
+          category: docCategory,
+          description: description || null,
+          uploadedById: authReq.user!.id,
+          isFromPreparer: true,
+        });
+        await queueExtractionIfSupported(document);
+
+        await storage.createActivityLog({
+          userId: authReq.user!.id,
+          action: "preparer_document_uploaded",
+          details: `Caso ${caseId}: documento para el cliente ${req.file.originalname} (${docCategory})`,
+        });
+
+        const client = await storage.getUser(taxCase.clientId);
+        if (client) {
+          sendPreparerDocumentNotification({
+            clientName: client.name,
+            clientEmail: client.email,
+            fileName: req.file.originalname,
+            category: docCategory,
+            filingYear: taxCase.filingYear,
+            description: description || null,
+          }).catch(console.error);
+        }
+
+        if (wsService) {
+          try {
+            wsService.notifyPreparerDocument(taxCase.clientId, req.file.originalname, caseId);
+          } catch (wsError) {
+            console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+          }
+        }
+
+        res.json(document);
+      } catch (error) {
+        console.error("Error de carga:", error);
+        res.status(500).json({ message: "Error al subir documento" });
+      }
+    }
+  );
+
+  /**
+   * GET /api/admin/cases
+   * 
+   * Obtiene los casos tributarios
+   * 
+   * Los administradores ven todos los casos; los preparadores
+   * solo los casos asignados a ellos
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @query {string} [caseType] - Filtrar por tipo de caso
+   * @returns {TaxCase[]} Casos visibles para el usuario
+   */
+  app.get("/api/admin/cases", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const caseTypeParam = typeof req.query.caseType === "string" ? req.query.caseType : undefined;
+      const caseType = caseTypeEnum.enumValues.find((type) => type === caseTypeParam);
+      if (caseTypeParam && !caseType) {
+        res.status(400).json({ message: "Tipo de caso inválido" });
+        return;
+      }
+
+      const cases = await storage.getAllTaxCases({
+        assignedPreparerId: getPreparerScope(req as AuthRequest),
+        caseType,
+      });
+      res.json(cases);
+    } catch (error) {
+      console.error("Error obteniendo casos:", error);
+      res.status(500).json({ message: "Error al obtener casos" });
+    }
+  });
+
+  /**
+   * POST /api/admin/cases
+   * 
+   * Crea un nuevo caso tributario para un cliente
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @body {number} clientId - ID del cliente
+   * @body {string} [caseType] - Tipo de caso (por defecto 'individual')
+   * @body {string} filingYear - Año fiscal (YYYY)
+   * @body {string} [filingStatus] - Estado civil fiscal
+   * @body {number} [dependents] - Número de dependientes
+   * @body {object} [details] - Campos específicos del tipo de caso
+   * 
+   * @sideeffects
+   * - Los casos 'individual' heredan los dependientes del caso anterior del cliente
+   */
+  app.post("/api/admin/cases", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const result = caseSchema.safeParse({
+        ...req.body,
+        clientId: parseInt(req.body.clientId)
+      });
+
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const { clientId, caseType, filingYear, filingStatus, dependents } = result.data;
+
+      const detailsResult = caseDetailsSchemas[caseType].safeParse(result.data.details ?? {});
+      if (!detailsResult.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: detailsResult.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const taxCase = await storage.createTaxCase({
+        clientId,
+        // Un preparador que crea un caso queda asignado a él automáticamente
+        assignedPreparerId: getPreparerScope(authReq) ?? null,
+        caseType,
+        details: detailsResult.data,
+        filingYear,
+        filingStatus: filingStatus || null,
+        dependents: dependents || 0,
+        status: "pending",
+      });
+
+      // Las declaraciones personales heredan los dependientes del año anterior
+      if (caseType === "individual") {
+        const carried = await storage.carryForwardDependents(taxCase.id);
+        if (carried.length > 0) {
+          taxCase.dependents = carried.length;
+        }
+      }
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "case_created",
+        details: `Caso ${caseType} creado para cliente ${clientId}, año ${filingYear}`,
+      });
+
+      res.json(taxCase);
+    } catch (error) {
+      console.error("Error creando caso:", error);
+      res.status(500).json({ message: "Error al crear caso" });
+    }
+  });
+
+  /**
+   * PATCH /api/admin/cases/:id
+   * 
+   * Actualiza un caso tributario existente
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del caso
+   * @body {string} [status] - Nuevo estado
+   * @body {string} [notes] - Notas del caso
+   * @body {number} [finalAmount] - Monto final del reembolso/pago
+   * 
+   * @returns {TaxCase} Caso actualizado
+   * @throws 409 - Si la transición de estado no está permitida (incluye allowedStatuses)
+   * @throws 409 - Si se envía al IRS sin Form 8879 firmado en la ronda de presentación actual
+   * 
+   * @sideeffects
+   * - Notifica al cliente si cambia el estado
+   * - Envía email de actualización
+   * 
+   * @security Un preparador solo puede actualizar casos asignados a él
+   */
+  app.patch("/api/admin/cases/:id", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const caseId = parseInt(req.params.id);
+      if (isNaN(caseId)) {
+        res.status(400).json({ message: "ID de caso inválido" });
+        return;
+      }
+
+      const result = caseUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const { status, notes, finalAmount } = result.data;
+
+      const existingCase = await storage.getTaxCase(caseId);
+      if (!existingCase) {
+        res.status(404).json({ message: "Caso no encontrado" });
+        return;
+      }
+
+      const preparerId = getPreparerScope(authReq);
+      if (preparerId !== undefined && existingCase.assignedPreparerId !== preparerId) {
+        res.status(403).json({ message: "Este caso no está asignado a usted" });
+        return;
+      }
+
+      if (status && !canTransitionCaseStatus(existingCase.status, status)) {
+        res.status(409).json({
+          message: `Transición de estado no permitida: ${existingCase.status} → ${status}`,
+          allowedStatuses: getAllowedCaseStatuses(existingCase.status),
+        });
+        return;
+      }
+
+      const updatedCase = await storage.updateTaxCase(caseId, {
+        status,
+        notes,
+        finalAmount: finalAmount || null,
+      }, authReq.user!.id);
+
+      if (!updatedCase) {
+        res.status(404).json({ message: "Caso no encontrado" });
+        return;
+      }
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "case_updated",
+        details: `Caso ${caseId} actualizado: status=${status}`,
+      });
+
+      // Notificar al cliente si cambió el estado
+      if (status && status !== existingCase.status) {
+        const client = await storage.getUser(existingCase.clientId);
+        if (client) {
+          sendCaseStatusUpdate({
+            clientName: client.name,
+            clientEmail: client.email,
+            caseId: caseId,
+            filingYear: existingCase.filingYear,
+            newStatus: status,
+            notes: notes || undefined,
+          }).catch(console.error);
+
+          // Notificación en tiempo real (solo si wsService está disponible)
+          if (wsService) {
+            try {
+              wsService.notifyCaseStatusChange(
+                existingCase.clientId,
+                caseId,
+                status,
+                client.name
+              );
+            } catch (wsError) {
+              console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+            }
+          }
+        }
+      }
+
+      res.json(updatedCase);
+    } catch (error) {
+      // El estado pudo cambiar entre la lectura y la actualización
+      if (error instanceof CaseStatusTransitionError) {
+        res.status(409).json({ message: error.message, allowedStatuses: error.allowed });
+        return;
+      }
+      // La presentación electrónica requiere la autorización firmada del cliente
+      if (error instanceof FilingAuthorizationRequiredError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      console.error("Error actualizando caso:", error);
+      res.status(500).json({ message: "Error al actualizar caso" });
+    }
+  });
+
+  /**
+   * PATCH /api/admin/cases/:id/assign
+   * 
+   * Asigna, reasigna o desasigna el preparador responsable de un caso
+   * 
+   * @requires authenticateToken, requireAdmin, requireAdminRole
+   * @param {number} id - ID del caso
+   * @body {number|null} preparerId - ID del preparador (null para desasignar)
+   * @returns {TaxCase} Caso actualizado
+   * 
+   * @sideeffects
+   * - Registra la asignación en activity_logs
+   * - Notifica por WebSocket al preparador asignado
+   * 
+   * @security Solo administradores; el destino debe ser un preparador o admin activo
+   */
+  app.patch("/api/admin/cases/:id/assign", authenticateToken, requireAdmin, requireAdminRole, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const caseId = parseInt(req.params.id);
+      if (isNaN(caseId)) {
+        res.status(400).json({ message: "ID de caso inválido" });
+        return;
+      }
+
+      const result = caseAssignSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const { preparerId } = result.data;
+
+      const existingCase = await storage.getTaxCase(caseId);
+      if (!existingCase) {
+        res.status(404).json({ message: "Caso no encontrado" });
+        return;
+      }
+
+      if (preparerId !== null) {
+        const preparer = await storage.getUser(preparerId);
+        if (!preparer || (preparer.role !== "preparer" && preparer.role !== "admin")) {
+          res.status(400).json({ message: "El usuario seleccionado no es un preparador" });
+          return;
+        }
+        if (!preparer.isActive) {
+          res.status(400).json({ message: "El preparador seleccionado está desactivado" });
+          return;
+        }
+      }
+
+      const updatedCase = await storage.assignTaxCase(caseId, preparerId);
+      if (!updatedCase) {
+        res.status(404).json({ message: "Caso no encontrado" });
+        return;
+      }
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: preparerId !== null ? "case_assigned" : "case_unassigned",
+        details: preparerId !== null
+          ? `Caso ${caseId} asignado al preparador ${preparerId} (anterior: ${existingCase.assignedPreparerId ?? "ninguno"})`
+          : `Caso ${caseId} sin preparador asignado (anterior: ${existingCase.assignedPreparerId ?? "ninguno"})`,
+      });
+
+      // Notificar al nuevo preparador (solo si cambió la asignación)
+      if (preparerId !== null && preparerId !== existingCase.assignedPreparerId && wsService) {
+        try {
+          const client = await storage.getUser(existingCase.clientId);
+          wsService.notifyCaseAssigned(
+            preparerId,
+            caseId,
+            client?.name || "Cliente",
+            existingCase.filingYear
+          );
+        } catch (wsError) {
+          console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+        }
+      }
+
+      res.json(updatedCase);
+    } catch (error) {
+      console.error("Error asignando caso:", error);
+      res.status(500).json({ message: "Error al asignar caso" });
+    }
+  });
+
+  /**
+   * GET /api/admin/cases/:id/dependents
+   * 
+   * Obtiene los dependientes declarados en un caso
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del caso
+   * @returns {PublicDependent[]} Dependientes del caso (SSN enmascarado)
+   * 
+   * @security Un preparador solo puede ver casos asignados a él
+   */
+  app.get("/api/admin/cases/:id/dependents", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const caseId = parseInt(req.params.id);
+      if (isNaN(caseId)) {
+        res.status(400).json({ message: "ID de caso inválido" });
+        return;
+      }
+
+      const taxCase = await storage.getTaxCase(caseId);
+      if (!taxCase) {
+        res.status(404).json({ message: "Caso no encontrado" });
+        return;
+      }
+
+      const preparerId = getPreparerScope(authReq);
+      if (preparerId !== undefined && taxCase.assignedPreparerId !== preparerId) {
+        res.status(403).json({ message: "Este caso no está asignado a usted" });
+        return;
+      }
+
+      const caseDependents = await storage.getCaseDependents(caseId);
+      res.json(caseDependents.map(toPublicDependent));
+    } catch (error) {
+      console.error("Error obteniendo dependientes del caso:", error);
+      res.status(500).json({ message: "Error al obtener dependientes" });
+    }
   });
 
   /**
-   * GET /api/messages/:partnerId
+   * GET /api/admin/cases/:id/documents.zip
+   * 
+   * Descarga en un ZIP todos los documentos de un caso
+   * 
+   * Los archivos van en una carpeta por categoría, con un manifest.csv
+   * de metadatos en la raíz.
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del caso
+   * @returns {application/zip} ZIP de documentos
+   * 
+   * @security Un preparador solo puede descargar casos asignados a él
+   */
+  app.get("/api/admin/cases/:id/documents.zip", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const caseId = parseInt(req.params.id);
+      if (isNaN(caseId)) {
+        res.status(400).json({ message: "ID de caso inválido" });
+        return;
+      }
+
+      const taxCase = await storage.getTaxCase(caseId);
+      if (!taxCase) {
+        res.status(404).json({ message: "Caso no encontrado" });
+        return;
+      }
+
+      const preparerId = getPreparerScope(authReq);
+      if (preparerId !== undefined && taxCase.assignedPreparerId !== preparerId) {
+        res.status(403).json({ message: "Este caso no está asignado a usted" });
+        return;
+      }
+
+      const documents = await storage.getDocumentsByCase(caseId);
+      if (documents.length === 0) {
+        res.status(404).json({ message: "El caso no tiene documentos" });
+        return;
+      }
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "documents_archive_downloaded",
+        details: `ZIP de ${documents.length} documento(s) del caso ${caseId}`,
+      });
+
+      await sendDocumentArchive(res, documents, archiveFileName("caso", caseId, taxCase.filingYear, "documentos"));
+    } catch (error) {
+      console.error("Error generando ZIP del caso:", error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({ message: "Error al generar el ZIP" });
+    }
+  });
+
+  /**
+   * PUT /api/admin/cases/:id/dependents
+   * 
+   * Reemplaza los dependientes declarados en un caso
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del caso
+   * @body {number[]} dependentIds - Dependientes del cliente a declarar
+   * @returns {PublicDependent[]} Dependientes del caso tras el cambio
+   * 
+   * @security Un preparador solo puede modificar casos asignados a él
+   */
+  app.put("/api/admin/cases/:id/dependents", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const caseId = parseInt(req.params.id);
+      if (isNaN(caseId)) {
+        res.status(400).json({ message: "ID de caso inválido" });
+        return;
+      }
+
+      const result = caseDependentsSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const taxCase = await storage.getTaxCase(caseId);
+      if (!taxCase) {
+        res.status(404).json({ message: "Caso no encontrado" });
+        return;
+      }
+
+      const preparerId = getPreparerScope(authReq);
+      if (preparerId !== undefined && taxCase.assignedPreparerId !== preparerId) {
+        res.status(403).json({ message: "Este caso no está asignado a usted" });
+        return;
+      }
+
+      const clientDependents = await storage.getDependentsByClient(taxCase.clientId);
+      const unknownId = result.data.dependentIds.find((id) => !clientDependents.some((d) => d.id === id));
+      if (unknownId !== undefined) {
+        res.status(400).json({ message: `El dependiente ${unknownId} no pertenece al cliente del caso` });
+        return;
+      }
+
+      const caseDependents = await storage.setCaseDependents(caseId, result.data.dependentIds);
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "case_dependents_updated",
+        details: `Caso ${caseId}: ${caseDependents.length} dependiente(s) declarados`,
+      });
+
+      res.json(caseDependents.map(toPublicDependent));
+    } catch (error) {
+      console.error("Error actualizando dependientes del caso:", error);
+      res.status(500).json({ message: "Error al actualizar dependientes" });
+    }
+  });
+
+  /**
+   * GET /api/admin/clients/:id/dependents
+   * 
+   * Obtiene los dependientes de un cliente
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del cliente
+   * @returns {PublicDependent[]} Dependientes (SSN enmascarado)
+   * 
+   * @security Un preparador solo puede ver clientes de su cartera
+   */
+  app.get("/api/admin/clients/:id/dependents", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const clientId = parseInt(req.params.id);
+      if (isNaN(clientId)) {
+        res.status(400).json({ message: "ID de cliente inválido" });
+        return;
+      }
+
+      if (!(await canManageClient(authReq, clientId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+
+      const clientDependents = await storage.getDependentsByClient(clientId);
+      res.json(clientDependents.map(toPublicDependent));
+    } catch (error) {
+      console.error("Error obteniendo dependientes:", error);
+      res.status(500).json({ message: "Error al obtener dependientes" });
+    }
+  });
+
+  /**
+   * POST /api/admin/clients/:id/dependents
+   * 
+   * Registra un dependiente para un cliente
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del cliente
+   * @body Ver POST /api/dependents
+   * @returns {PublicDependent} Dependiente creado
+   * 
+   * @security Un preparador solo puede modificar clientes de su cartera
+   */
+  app.post("/api/admin/clients/:id/dependents", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const clientId = parseInt(req.params.id);
+      if (isNaN(clientId)) {
+        res.status(400).json({ message: "ID de cliente inválido" });
+        return;
+      }
+
+      const result = dependentSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const client = await storage.getUser(clientId);
+      if (!client || client.role !== "client") {
+        res.status(404).json({ message: "Cliente no encontrado" });
+        return;
+      }
+
+      if (!(await canManageClient(authReq, clientId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+
+      const { ssn, ...data } = result.data;
+      const dependent = await storage.createDependent({
+        ...data,
+        ...toStoredSsn(ssn),
+        clientId,
+      });
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "dependent_created",
+        details: `Dependiente ${dependent.id} registrado para cliente ${clientId}`,
+      });
+
+      res.json(toPublicDependent(dependent));
+    } catch (error) {
+      console.error("Error creando dependiente:", error);
+      res.status(500).json({ message: "Error al crear dependiente" });
+    }
+  });
+
+  /**
+   * PATCH /api/admin/dependents/:id
+   * 
+   * Actualiza un dependiente de cualquier cliente
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del dependiente
+   * @body Campos de dependiente a actualizar (ssn = null lo elimina)
+   * @returns {PublicDependent} Dependiente actualizado
+   * 
+   * @security Un preparador solo puede modificar clientes de su cartera
+   */
+  app.patch("/api/admin/dependents/:id", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const dependentId = parseInt(req.params.id);
+      if (isNaN(dependentId)) {
+        res.status(400).json({ message: "ID de dependiente inválido" });
+        return;
+      }
+
+      const result = dependentUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const existing = await storage.getDependent(dependentId);
+      if (!existing) {
+        res.status(404).json({ message: "Dependiente no encontrado" });
+        return;
+      }
+
+      if (!(await canManageClient(authReq, existing.clientId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+
+      const { ssn, ...data } = result.data;
+      const dependent = await storage.updateDependent(dependentId, { ...data, ...toStoredSsn(ssn) });
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "dependent_updated",
+        details: `Dependiente ${dependentId} del cliente ${existing.clientId} actualizado`,
+      });
+
+      res.json(toPublicDependent(dependent!));
+    } catch (error) {
+      console.error("Error actualizando dependiente:", error);
+      res.status(500).json({ message: "Error al actualizar dependiente" });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/dependents/:id
+   * 
+   * Elimina un dependiente de cualquier cliente
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del dependiente
+   * 
+   * @security Un preparador solo puede modificar clientes de su cartera
+   */
+  app.delete("/api/admin/dependents/:id", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const dependentId = parseInt(req.params.id);
+      if (isNaN(dependentId)) {
+        res.status(400).json({ message: "ID de dependiente inválido" });
+        return;
+      }
+
+      const existing = await storage.getDependent(dependentId);
+      if (!existing) {
+        res.status(404).json({ message: "Dependiente no encontrado" });
+        return;
+      }
+
+      if (!(await canManageClient(authReq, existing.clientId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+
+      await storage.deleteDependent(dependentId);
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "dependent_deleted",
+        details: `Dependiente ${dependentId} del cliente ${existing.clientId} eliminado`,
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error eliminando dependiente:", error);
+      res.status(500).json({ message: "Error al eliminar dependiente" });
+    }
+  });
+
+  /**
+   * GET /api/admin/dependents/:id/ssn
+   * 
+   * Descifra y devuelve el SSN completo de un dependiente
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del dependiente
+   * @returns {object} { ssn: string | null }
+   * 
+   * @sideeffects
+   * - Registra cada consulta en activity_logs
+   * 
+   * @security Un preparador solo puede ver clientes de su cartera
+   */
+  app.get("/api/admin/dependents/:id/ssn", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const dependentId = parseInt(req.params.id);
+      if (isNaN(dependentId)) {
+        res.status(400).json({ message: "ID de dependiente inválido" });
+        return;
+      }
+
+      const existing = await storage.getDependent(dependentId);
+      if (!existing) {
+        res.status(404).json({ message: "Dependiente no encontrado" });
+        return;
+      }
+
+      if (!(await canManageClient(authReq, existing.clientId))) {
+        res.status(403).json({ message: "Este cliente no está asignado a usted" });
+        return;
+      }
+
+      const ssn = existing.ssnEncrypted ? decryptField(existing.ssnEncrypted) : null;
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "dependent_ssn_viewed",
+        details: `SSN del dependiente ${dependentId} (cliente ${existing.clientId}) consultado`,
+      });
+
+      res.json({ ssn });
+    } catch (error) {
+      console.error("Error obteniendo SSN del dependiente:", error);
+      res.status(500).json({ message: "Error al obtener SSN" });
+    }
+  });
+
+  /**
+   * GET /api/admin/cases/:id/document-requests
    * 
-   * Obtiene el historial de mensajes con un usuario específico
+   * Obtiene las solicitudes de documentos de un caso
    * 
-   * @requires authenticateToken
-   * @param {number} partnerId - ID del otro usuario
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del caso
+   * @returns {DocumentRequest[]} Solicitudes del caso
    * 
-   * @sideeffects Marca los mensajes como leídos
+   * @security Un preparador solo puede ver casos asignados a él
    */
-  app.get("/api/messages/:partnerId", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/admin/cases/:id/document-requests", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     try {
-      const partnerId = parseInt(req.params.partnerId);
-      if (isNaN(partnerId)) {
-        res.status(400).json({ message: "ID de usuario inválido" });
+      const caseId = parseInt(req.params.id);
+      if (isNaN(caseId)) {
+        res.status(400).json({ message: "ID de caso inválido" });
         return;
       }
 
-      const messages = await storage.getConversation(authReq.user!.id, partnerId);
-      
-      // Marcar como leídos
-      await storage.markMessagesAsRead(authReq.user!.id, partnerId);
-      
-      res.json(messages);
+      const taxCase = await storage.getTaxCase(caseId);
+      if (!taxCase) {
+        res.status(404).json({ message: "Caso no encontrado" });
+        return;
+      }
+
+      const preparerId = getPreparerScope(authReq);
+      if (preparerId !== undefined && taxCase.assignedPreparerId !== preparerId) {
+        res.status(403).json({ message: "Este caso no está asignado a usted" });
+        return;
+      }
+
+      const requests = await storage.getDocumentRequestsByCase(caseId);
+      res.json(requests);
     } catch (error) {
-      console.error("Error obteniendo mensajes:", error);
-      res.status(500).json({ message: "Error al obtener mensajes" });
+      console.error("Error obteniendo solicitudes de documentos:", error);
+      res.status(500).json({ message: "Error al obtener solicitudes de documentos" });
     }
   });
 
   /**
-   * POST /api/messages
+   * POST /api/admin/cases/:id/document-requests
    * 
-   * Envía un nuevo mensaje a otro usuario
+   * Solicita un documento al cliente de un caso
    * 
-   * @requires authenticateToken
-   * @body {number} recipientId - ID del destinatario
-   * @body {string} message - Contenido del mensaje
-   * @body {number} [caseId] - Caso relacionado opcional
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del caso
+   * @body {string} category - Categoría del documento
+   * @body {string} description - Qué documento se necesita
+   * @body {string} [dueDate] - Fecha límite
+   * @returns {DocumentRequest} Solicitud creada
    * 
-   * @security Rate limited: 30 mensajes / 15 min
-   * @sideeffects Notifica al destinatario por WebSocket
+   * @security Un preparador solo puede solicitar en casos asignados a él
+   * 
+   * @sideeffects
+   * - Envía email al cliente
+   * - Envía notificación WebSocket al cliente
    */
-  app.post("/api/messages", authenticateToken, finalMessageLimiter, async (req: Request, res: Response) => {
+  app.post("/api/admin/cases/:id/document-requests", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     try {
-      // Validar datos de entrada
-      const result = messageSchema.safeParse({
-        ...req.body,
-        recipientId: parseInt(req.body.recipientId)
-      });
-      
+      const caseId = parseInt(req.params.id);
+      if (isNaN(caseId)) {
+        res.status(400).json({ message: "ID de caso inválido" });
+        return;
+      }
+
+      const result = documentRequestSchema.safeParse(req.body);
       if (!result.success) {
         res.status(400).json({ 
           message: "Datos inválidos", 
@@ -2168,215 +6187,581 @@ export async function registerRoutes(
         return;
       }
 
-      const { recipientId, message, caseId } = result.data;
+      const taxCase = await storage.getTaxCase(caseId);
+      if (!taxCase) {
+        res.status(404).json({ message: "Caso no encontrado" });
+        return;
+      }
 
-      // Verificar que el destinatario existe
-      const recipient = await storage.getUser(recipientId);
-      if (!recipient) {
-        res.status(404).json({ message: "Destinatario no encontrado" });
+      const preparerId = getPreparerScope(authReq);
+      if (preparerId !== undefined && taxCase.assignedPreparerId !== preparerId) {
+        res.status(403).json({ message: "Este caso no está asignado a usted" });
         return;
       }
 
-      // Crear mensaje
-      const newMessage = await storage.createMessage({
-        senderId: authReq.user!.id,
-        recipientId,
-        message,
-        caseId: caseId || null,
-        isRead: false,
+      const documentRequest = await storage.createDocumentRequest({
+        caseId,
+        clientId: taxCase.clientId,
+        category: result.data.category,
+        description: result.data.description,
+        dueDate: result.data.dueDate ?? null,
+        requestedById: authReq.user!.id,
       });
 
-      // Registrar actividad
       await storage.createActivityLog({
         userId: authReq.user!.id,
-        action: "message_sent",
-        details: `Mensaje enviado a ${recipient.name}`,
+        action: "document_requested",
+        details: `Caso ${caseId}: solicitado ${result.data.category} - ${result.data.description}`,
       });
 
-      // Notificación en tiempo real (solo si wsService está disponible)
+      const client = await storage.getUser(taxCase.clientId);
+      if (client) {
+        sendDocumentRequestEmail({
+          clientName: client.name,
+          clientEmail: client.email,
+          filingYear: taxCase.filingYear,
+          category: documentRequest.category,
+          description: documentRequest.description,
+          dueDate: documentRequest.dueDate,
+        }).catch(console.error);
+      }
+
       if (wsService) {
         try {
-          wsService.notifyNewMessage(
-            authReq.user!.id,
-            recipientId,
-            message.substring(0, 100) + (message.length > 100 ? "..." : "")
-          );
+          wsService.notifyDocumentRequested(taxCase.clientId, documentRequest.id, caseId, documentRequest.description);
         } catch (wsError) {
           console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
         }
       }
 
-      res.json(newMessage);
+      res.status(201).json(documentRequest);
     } catch (error) {
-      console.error("Error enviando mensaje:", error);
-      res.status(500).json({ message: "Error al enviar mensaje" });
+      console.error("Error creando solicitud de documento:", error);
+      res.status(500).json({ message: "Error al crear solicitud de documento" });
     }
   });
 
   /**
-   * GET /api/preparers
+   * PATCH /api/admin/document-requests/:id
    * 
-   * Obtiene la lista de preparadores disponibles para mensajería
+   * Edita, exime o reabre una solicitud de documento
    * 
-   * @requires authenticateToken
-   * @returns {Preparer[]} Lista de preparadores con id, nombre y rol
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID de la solicitud
+   * @body {string} [status] - 'waived' para eximir, 'open' para reabrir
+   * @body {string} [category] - Nueva categoría
+   * @body {string} [description] - Nueva descripción
+   * @body {string|null} [dueDate] - Nueva fecha límite
+   * @returns {DocumentRequest} Solicitud actualizada
+   * 
+   * @security Un preparador solo puede modificar solicitudes de casos asignados a él
    */
-  app.get("/api/preparers", authenticateToken, async (_req: Request, res: Response) => {
+  app.patch("/api/admin/document-requests/:id", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
     try {
-      const preparers = await db.select().from(users).where(
-        sql`${users.role} IN ('admin', 'preparer')`
-      );
-      res.json(preparers.map(p => ({ id: p.id, name: p.name, role: p.role })));
+      const requestId = parseInt(req.params.id);
+      if (isNaN(requestId)) {
+        res.status(400).json({ message: "ID de solicitud inválido" });
+        return;
+      }
+
+      const result = documentRequestUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const existing = await storage.getDocumentRequest(requestId);
+      if (!existing) {
+        res.status(404).json({ message: "Solicitud de documento no encontrada" });
+        return;
+      }
+
+      const preparerId = getPreparerScope(authReq);
+      if (preparerId !== undefined) {
+        const taxCase = await storage.getTaxCase(existing.caseId);
+        if (!taxCase || taxCase.assignedPreparerId !== preparerId) {
+          res.status(403).json({ message: "Este caso no está asignado a usted" });
+          return;
+        }
+      }
+
+      if (existing.status === "fulfilled") {
+        res.status(409).json({ message: "La solicitud ya fue cumplida" });
+        return;
+      }
+
+      // Un cambio de fecha límite reinicia los recordatorios
+      const dueDateChanged = result.data.dueDate !== undefined;
+      const updated = await storage.updateDocumentRequest(requestId, {
+        ...result.data,
+        ...(dueDateChanged ? { lastReminderAt: null } : {}),
+      });
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: result.data.status === "waived" && existing.status !== "waived"
+          ? "document_request_waived"
+          : "document_request_updated",
+        details: `Solicitud de documento ${requestId} (caso ${existing.caseId})`,
+      });
+
+      res.json(updated);
     } catch (error) {
-      console.error("Error obteniendo preparadores:", error);
-      res.status(500).json({ message: "Error al obtener preparadores" });
+      console.error("Error actualizando solicitud de documento:", error);
+      res.status(500).json({ message: "Error al actualizar solicitud de documento" });
     }
   });
 
-  // ===========================================================================
-  // ENDPOINTS DE ADMINISTRACIÓN
-  // ===========================================================================
+  /**
+   * GET /api/admin/cases/:id/signature-requests
+   * 
+   * Obtiene las solicitudes de firma de un caso
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del caso
+   * @returns {SignatureRequest[]} Solicitudes del caso
+   * 
+   * @security Un preparador solo puede ver casos asignados a él
+   */
+  app.get("/api/admin/cases/:id/signature-requests", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const caseId = parseInt(req.params.id);
+      if (isNaN(caseId)) {
+        res.status(400).json({ message: "ID de caso inválido" });
+        return;
+      }
+
+      const taxCase = await storage.getTaxCase(caseId);
+      if (!taxCase) {
+        res.status(404).json({ message: "Caso no encontrado" });
+        return;
+      }
+
+      const preparerId = getPreparerScope(authReq);
+      if (preparerId !== undefined && taxCase.assignedPreparerId !== preparerId) {
+        res.status(403).json({ message: "Este caso no está asignado a usted" });
+        return;
+      }
+
+      const requests = await storage.getSignatureRequestsByCase(caseId);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error obteniendo solicitudes de firma:", error);
+      res.status(500).json({ message: "Error al obtener solicitudes de firma" });
+    }
+  });
+
+  /**
+   * POST /api/admin/cases/:id/signature-requests
+   * 
+   * Envía un PDF al cliente de un caso para que lo firme
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID del caso
+   * @body {File} file - PDF a firmar (multipart/form-data)
+   * @body {string} kind - 'form_8879' o 'engagement_letter'
+   * @body {string} title - Título que verá el cliente
+   * @returns {SignatureRequest} Solicitud creada
+   * 
+   * @security
+   * - Un preparador solo puede enviar en casos asignados a él
+   * - El PDF pasa la misma verificación que cualquier subida
+   * 
+   * @sideeffects
+   * - Envía email al cliente
+   * - Envía notificación WebSocket al cliente
+   */
+  app.post(
+    "/api/admin/cases/:id/signature-requests",
+    authenticateToken,
+    requireAdmin,
+    finalUploadLimiter,
+    uploadSingle,
+    async (req: Request, res: Response) => {
+      const authReq = req as AuthRequest;
+      try {
+        if (!req.file) {
+          res.status(400).json({ message: "No se recibió ningún archivo" });
+          return;
+        }
+
+        const caseId = parseInt(req.params.id);
+        if (isNaN(caseId)) {
+          await removeTempUpload(req.file.path);
+          res.status(400).json({ message: "ID de caso inválido" });
+          return;
+        }
+
+        const result = signatureRequestSchema.safeParse(req.body);
+        if (!result.success) {
+          await removeTempUpload(req.file.path);
+          res.status(400).json({ 
+            message: "Datos inválidos", 
+            errors: result.error.errors.map(e => e.message) 
+          });
+          return;
+        }
+
+        const taxCase = await storage.getTaxCase(caseId);
+        if (!taxCase) {
+          await removeTempUpload(req.file.path);
+          res.status(404).json({ message: "Caso no encontrado" });
+          return;
+        }
+
+        const preparerId = getPreparerScope(authReq);
+        if (preparerId !== undefined && taxCase.assignedPreparerId !== preparerId) {
+          await removeTempUpload(req.file.path);
+          res.status(403).json({ message: "Este caso no está asignado a usted" });
+          return;
+        }
+
+        const screening = await screenUpload(authReq, req.file, taxCase.clientId);
+        if (!screening.accepted) {
+          res.status(screening.status).json({ message: screening.message });
+          return;
+        }
+
+        let content: Buffer;
+        try {
+          content = await fs.promises.readFile(req.file.path);
+        } finally {
+          await removeTempUpload(req.file.path);
+        }
+
+        if (req.file.mimetype !== "application/pdf" || !(await isSignablePdf(content))) {
+          res.status(400).json({ message: "El documento a firmar debe ser un PDF válido y sin contraseña" });
+          return;
+        }
+
+        const filePath = generateStorageKey(req.file.originalname, "signatures");
+        const { dataKey, encryptionKey } = await createDocumentDataKey(taxCase.clientId);
+        try {
+          await putEncryptedFile(filePath, content, dataKey);
+        } catch (storageError) {
+          console.error("[Routes] Error guardando el archivo:", storageError);
+          res.status(500).json({ message: "Error al guardar el archivo. Por favor, intenta nuevamente más tarde." });
+          return;
+        }
+
+        const signatureRequest = await storage.createSignatureRequest({
+          caseId,
+          clientId: taxCase.clientId,
+          kind: result.data.kind,
+          title: result.data.title,
+          fileName: req.file.originalname,
+          filePath,
+          encryptionKey,
+          documentHash: sha256(content),
+          requestedById: authReq.user!.id,
+        });
+
+        await storage.createActivityLog({
+          userId: authReq.user!.id,
+          action: "signature_requested",
+          details: `Caso ${caseId}: enviado a firmar ${result.data.title} (${result.data.kind})`,
+        });
+
+        const client = await storage.getUser(taxCase.clientId);
+        if (client) {
+          sendSignatureRequestEmail({
+            clientName: client.name,
+            clientEmail: client.email,
+            filingYear: taxCase.filingYear,
+            title: signatureRequest.title,
+            kind: signatureRequest.kind,
+          }).catch(console.error);
+        }
+
+        if (wsService) {
+          try {
+            wsService.notifySignatureRequested(taxCase.clientId, signatureRequest.id, caseId, signatureRequest.title);
+          } catch (wsError) {
+            console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+          }
+        }
+
+        res.status(201).json(signatureRequest);
+      } catch (error) {
+        console.error("Error creando solicitud de firma:", error);
+        res.status(500).json({ message: "Error al crear solicitud de firma" });
+      }
+    }
+  );
+
+  /**
+   * PATCH /api/admin/signature-requests/:id
+   * 
+   * Anula una solicitud de firma pendiente (p. ej. para enviar otra versión)
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @param {number} id - ID de la solicitud
+   * @body {string} status - 'cancelled'
+   * @returns {SignatureRequest} Solicitud anulada
+   * 
+   * @security Un preparador solo puede anular solicitudes de casos asignados a él
+   */
+  app.patch("/api/admin/signature-requests/:id", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const requestId = parseInt(req.params.id);
+      if (isNaN(requestId)) {
+        res.status(400).json({ message: "ID de solicitud inválido" });
+        return;
+      }
+
+      const result = signatureRequestUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
+        return;
+      }
+
+      const existing = await storage.getSignatureRequest(requestId);
+      if (!existing) {
+        res.status(404).json({ message: "Solicitud de firma no encontrada" });
+        return;
+      }
+
+      const preparerId = getPreparerScope(authReq);
+      if (preparerId !== undefined) {
+        const taxCase = await storage.getTaxCase(existing.caseId);
+        if (!taxCase || taxCase.assignedPreparerId !== preparerId) {
+          res.status(403).json({ message: "Este caso no está asignado a usted" });
+          return;
+        }
+      }
+
+      const cancelled = await storage.cancelSignatureRequest(requestId);
+      if (!cancelled) {
+        res.status(409).json({ message: "Solo se pueden anular solicitudes pendientes de firma" });
+        return;
+      }
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "signature_request_cancelled",
+        details: `Caso ${existing.caseId}: anulada la solicitud de firma ${requestId} (${existing.title})`,
+      });
 
-  /**
-   * GET /api/admin/stats
-   * 
-   * Obtiene estadísticas del dashboard de administración
-   * 
-   * @requires authenticateToken, requireAdmin
-   * @returns {object} Estadísticas generales del sistema
-   */
-  app.get("/api/admin/stats", authenticateToken, requireAdmin, async (_req: Request, res: Response) => {
-    try {
-      console.log("[Admin] Obteniendo estadísticas...");
-      const stats = await storage.getAdminStats();
-      console.log("[Admin] Estadísticas obtenidas:", stats);
-      res.json(stats);
+      res.json(cancelled);
     } catch (error) {
-      console.error("[Admin] Error obteniendo estadísticas:", error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error("[Admin] Error details:", errorMessage, error);
-      res.status(500).json({ 
-        message: "Error al obtener estadísticas",
-        error: process.env.NODE_ENV !== 'production' ? errorMessage : undefined
-      });
+      console.error("Error actualizando solicitud de firma:", error);
+      res.status(500).json({ message: "Error al actualizar solicitud de firma" });
     }
   });
 
   /**
-   * GET /api/admin/clients
+   * GET /api/admin/appointments
    * 
-   * Obtiene la lista de clientes con detalles
+   * Obtiene todas las citas del sistema
    * 
    * @requires authenticateToken, requireAdmin
-   * @returns {Client[]} Clientes con conteo de documentos y casos
+   * @returns {Appointment[]} Todas las citas
+   * 
+   * @security Un preparador solo ve sus citas y las de clientes de su cartera
    */
-  app.get("/api/admin/clients", authenticateToken, requireAdmin, async (_req: Request, res: Response) => {
+  app.get("/api/admin/appointments", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
     try {
-      console.log("[Admin] Obteniendo clientes...");
-      const clients = await storage.getClientsWithDetails();
-      console.log("[Admin] Clientes obtenidos:", clients.length);
-      res.json(clients);
+      const appointments = await storage.getAllAppointments(getPreparerScope(authReq));
+      res.json(appointments);
     } catch (error) {
-      console.error("[Admin] Error obteniendo clientes:", error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error("[Admin] Error details:", errorMessage, error);
-      res.status(500).json({ 
-        message: "Error al obtener clientes",
-        error: process.env.NODE_ENV !== 'production' ? errorMessage : undefined
-      });
+      console.error("Error obteniendo citas:", error);
+      res.status(500).json({ message: "Error al obtener citas" });
     }
   });
 
   /**
-   * GET /api/admin/clients/:id
+   * PATCH /api/admin/appointments/:id
    * 
-   * Obtiene información detallada de un cliente
+   * Completa, cancela o reprograma una cita
    * 
    * @requires authenticateToken, requireAdmin
-   * @param {number} id - ID del cliente
-   * @returns {object} Cliente con documentos, casos y citas
+   * @param {number} id - ID de la cita (los preparadores solo cambian las suyas)
+   * @body {string} [status] - 'completed' (desde la hora de inicio) o 'cancelled'
+   * @body {string} [appointmentDate] - Nuevo inicio, uno de los horarios disponibles
+   * @body {number} [preparerId] - Preparador para el nuevo horario (por defecto, el actual si está libre)
+   * @body {string} [reason] - Motivo de la cancelación o el cambio
+   * 
+   * @sideeffects
+   * - Avisa al cliente por email (cancelación o reprogramación)
+   * - Notifica al cliente por WebSocket
    */
-  app.get("/api/admin/clients/:id", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  app.patch("/api/admin/appointments/:id", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     try {
-      const clientId = parseInt(req.params.id);
-      if (isNaN(clientId)) {
-        res.status(400).json({ message: "ID de cliente inválido" });
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        res.status(400).json({ message: "ID de cita inválido" });
         return;
       }
 
-      const client = await storage.getUser(clientId);
-      if (!client) {
-        res.status(404).json({ message: "Cliente no encontrado" });
+      const result = adminAppointmentUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        res.status(400).json({ 
+          message: "Datos inválidos", 
+          errors: result.error.errors.map(e => e.message) 
+        });
         return;
       }
-      
-      const documents = await storage.getDocumentsByClient(clientId);
-      const cases = await storage.getTaxCasesByClient(clientId);
-      const appointments = await storage.getAppointmentsByClient(clientId);
-      
-      res.json({ client, documents, cases, appointments });
-    } catch (error) {
-      console.error("Error obteniendo detalles del cliente:", error);
-      res.status(500).json({ message: "Error al obtener detalles" });
-    }
-  });
+      const { status, appointmentDate, reason } = result.data;
 
-  /**
-   * GET /api/admin/documents
-   * 
-   * Obtiene todos los documentos del sistema
-   * 
-   * @requires authenticateToken, requireAdmin
-   * @returns {Document[]} Todos los documentos
-   */
-  app.get("/api/admin/documents", authenticateToken, requireAdmin, async (_req: Request, res: Response) => {
-    try {
-      const documents = await storage.getAllDocuments();
-      res.json(documents);
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        res.status(404).json({ message: "Cita no encontrada" });
+        return;
+      }
+
+      const scope = getPreparerScope(authReq);
+      if (scope !== undefined && appointment.preparerId !== scope) {
+        res.status(403).json({ message: "Esta cita no está asignada a usted" });
+        return;
+      }
+      // Un preparador no puede pasar la cita a otro
+      const requiredPreparerId = scope ?? result.data.preparerId;
+
+      if (appointment.status !== "scheduled") {
+        res.status(409).json({ message: "Esta cita ya fue cancelada o completada" });
+        return;
+      }
+      if (status === "completed" && !canCompleteAppointment(appointment)) {
+        res.status(409).json({ message: "Solo se puede completar una cita a partir de su hora de inicio" });
+        return;
+      }
+
+      let updated: Appointment | undefined;
+      if (status) {
+        updated = await storage.closeAppointment(appointmentId, status);
+        if (!updated) {
+          res.status(409).json({ message: "Esta cita ya fue cancelada o completada" });
+          return;
+        }
+      } else {
+        const preparerId = await pickRescheduleSlot(appointment, appointmentDate!, requiredPreparerId);
+        updated = preparerId !== undefined
+          ? await storage.rescheduleAppointment(appointmentId, {
+              preparerId,
+              appointmentDate: appointmentDate!,
+              durationMinutes: appointment.durationMinutes,
+              bufferMinutes: appointment.bufferMinutes,
+            })
+          : undefined;
+        if (!updated) {
+          res.status(409).json({ 
+            message: "Este horario no está disponible. Por favor elija otro.",
+            conflict: true
+          });
+          return;
+        }
+      }
+
+      const change = status ?? "rescheduled";
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: `appointment_${change}`,
+        details: change === "rescheduled"
+          ? `Cita ${appointmentId} reprogramada del ${appointment.appointmentDate.toISOString()} ` +
+            `al ${updated.appointmentDate.toISOString()} con el preparador ${updated.preparerId}`
+          : `Cita ${appointmentId} del ${appointment.appointmentDate.toISOString()} ` +
+            `${change === "completed" ? "completada" : "cancelada"}${reason ? `: ${reason}` : ""}`,
+      });
+
+      if (change !== "completed") {
+        const client = await storage.getUser(appointment.clientId);
+        if (client) {
+          sendAppointmentChangeEmail({
+            clientName: client.name,
+            clientEmail: client.email,
+            change,
+            appointmentDate: updated.appointmentDate,
+            previousDate: change === "rescheduled" ? appointment.appointmentDate : undefined,
+            timeZone: OFFICE_TIME_ZONE,
+            reason: reason || undefined,
+            changedByClient: false,
+          }).catch(console.error);
+        }
+      }
+
+      try {
+        wsService.notifyAppointmentChanged(
+          appointment.clientId,
+          appointmentId,
+          change,
+          updated.appointmentDate.toISOString(),
+          false
+        );
+      } catch (wsError) {
+        console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
+      }
+
+      res.json(updated);
     } catch (error) {
-      console.error("Error obteniendo documentos:", error);
-      res.status(500).json({ message: "Error al obtener documentos" });
+      console.error("Error actualizando cita:", error);
+      res.status(500).json({ message: "Error al actualizar cita" });
     }
   });
 
   /**
-   * GET /api/admin/cases
+   * GET /api/admin/availability
    * 
-   * Obtiene todos los casos tributarios
+   * Obtiene el horario semanal de atención de los preparadores
    * 
    * @requires authenticateToken, requireAdmin
-   * @returns {TaxCase[]} Todos los casos
+   * @query {number} [preparerId] - Solo el de ese preparador (los preparadores solo ven el suyo)
+   * @returns {PreparerAvailability[]} Franjas (minutos desde la medianoche, hora de la oficina)
    */
-  app.get("/api/admin/cases", authenticateToken, requireAdmin, async (_req: Request, res: Response) => {
+  app.get("/api/admin/availability", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
     try {
-      const cases = await storage.getAllTaxCases();
-      res.json(cases);
+      let preparerId = req.query.preparerId ? parseInt(req.query.preparerId as string) : undefined;
+      if (preparerId !== undefined && isNaN(preparerId)) {
+        res.status(400).json({ message: "ID de preparador inválido" });
+        return;
+      }
+      preparerId = getPreparerScope(authReq) ?? preparerId;
+
+      const availability = await storage.getPreparerAvailability(preparerId);
+      res.json({ timeZone: OFFICE_TIME_ZONE, availability });
     } catch (error) {
-      console.error("Error obteniendo casos:", error);
-      res.status(500).json({ message: "Error al obtener casos" });
+      console.error("Error obteniendo disponibilidad:", error);
+      res.status(500).json({ message: "Error al obtener disponibilidad" });
     }
   });
 
   /**
-   * POST /api/admin/cases
+   * PUT /api/admin/preparers/:id/availability
    * 
-   * Crea un nuevo caso tributario para un cliente
+   * Reemplaza el horario semanal de atención de un preparador
    * 
    * @requires authenticateToken, requireAdmin
-   * @body {number} clientId - ID del cliente
-   * @body {string} filingYear - Año fiscal (YYYY)
-   * @body {string} [filingStatus] - Estado civil fiscal
-   * @body {number} [dependents] - Número de dependientes
+   * @param {number} id - ID del preparador (los preparadores solo pueden editar el suyo)
+   * @body {object[]} windows - Franjas { weekday, startMinute, endMinute }; vacío = no recibe citas
+   * @returns {PreparerAvailability[]} Franjas guardadas
    */
-  app.post("/api/admin/cases", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  app.put("/api/admin/preparers/:id/availability", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     try {
-      const result = caseSchema.safeParse({
-        ...req.body,
-        clientId: parseInt(req.body.clientId)
-      });
+      const preparerId = parseInt(req.params.id);
+      if (isNaN(preparerId)) {
+        res.status(400).json({ message: "ID de preparador inválido" });
+        return;
+      }
+
+      const scope = getPreparerScope(authReq);
+      if (scope !== undefined && scope !== preparerId) {
+        res.status(403).json({ message: "Solo puede editar su propio horario" });
+        return;
+      }
 
+      const result = availabilitySchema.safeParse(req.body);
       if (!result.success) {
         res.status(400).json({ 
           message: "Datos inválidos", 
@@ -2385,54 +6770,79 @@ export async function registerRoutes(
         return;
       }
 
-      const { clientId, filingYear, filingStatus, dependents } = result.data;
+      const preparer = await storage.getUser(preparerId);
+      if (!preparer || (preparer.role !== "preparer" && preparer.role !== "admin")) {
+        res.status(404).json({ message: "Preparador no encontrado" });
+        return;
+      }
 
-      const taxCase = await storage.createTaxCase({
-        clientId,
-        filingYear,
-        filingStatus: filingStatus || null,
-        dependents: dependents || 0,
-        status: "pending",
-      });
+      const availability = await storage.setPreparerAvailability(preparerId, result.data.windows);
 
       await storage.createActivityLog({
         userId: authReq.user!.id,
-        action: "case_created",
-        details: `Caso creado para cliente ${clientId}, año ${filingYear}`,
+        action: "availability_updated",
+        details: `Horario de ${preparer.name} actualizado: ${availability.length} franja(s)`,
       });
 
-      res.json(taxCase);
+      res.json(availability);
     } catch (error) {
-      console.error("Error creando caso:", error);
-      res.status(500).json({ message: "Error al crear caso" });
+      console.error("Error actualizando disponibilidad:", error);
+      res.status(500).json({ message: "Error al actualizar disponibilidad" });
     }
   });
 
   /**
-   * PATCH /api/admin/cases/:id
+   * GET /api/admin/availability-blocks
    * 
-   * Actualiza un caso tributario existente
+   * Obtiene los feriados y horas bloqueadas de la agenda
    * 
    * @requires authenticateToken, requireAdmin
-   * @param {number} id - ID del caso
-   * @body {string} [status] - Nuevo estado
-   * @body {string} [notes] - Notas del caso
-   * @body {number} [finalAmount] - Monto final del reembolso/pago
-   * 
-   * @sideeffects
-   * - Notifica al cliente si cambia el estado
-   * - Envía email de actualización
+   * @query {string} [from] - Inicio del rango (por defecto, ahora)
+   * @query {string} [to] - Fin del rango (por defecto, 90 días después de from)
+   * @returns {AvailabilityBlock[]} Bloqueos de la oficina y de los preparadores
+   * (los preparadores solo ven los de la oficina y los suyos)
    */
-  app.patch("/api/admin/cases/:id", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  app.get("/api/admin/availability-blocks", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
     const authReq = req as AuthRequest;
     try {
-      const caseId = parseInt(req.params.id);
-      if (isNaN(caseId)) {
-        res.status(400).json({ message: "ID de caso inválido" });
+      const from = req.query.from ? new Date(req.query.from as string) : new Date();
+      const to = req.query.to ? new Date(req.query.to as string) : new Date(from.getTime() + 90 * 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        res.status(400).json({ message: "Formato de fecha inválido" });
         return;
       }
 
-      const result = caseUpdateSchema.safeParse(req.body);
+      const preparerId = getPreparerScope(authReq);
+      const blocks = await storage.getAvailabilityBlocks(from, to);
+      res.json(
+        preparerId === undefined
+          ? blocks
+          : blocks.filter((block) => block.preparerId === null || block.preparerId === preparerId)
+      );
+    } catch (error) {
+      console.error("Error obteniendo bloqueos de agenda:", error);
+      res.status(500).json({ message: "Error al obtener bloqueos de agenda" });
+    }
+  });
+
+  /**
+   * POST /api/admin/availability-blocks
+   * 
+   * Bloquea un rango de la agenda (feriado, vacaciones, reunión)
+   * 
+   * @requires authenticateToken, requireAdmin
+   * @body {number|null} [preparerId] - Preparador bloqueado; sin él, toda la oficina (solo admin)
+   * @body {string} startsAt - Inicio (ISO 8601)
+   * @body {string} endsAt - Fin (ISO 8601)
+   * @body {string} [reason] - Motivo
+   * @returns {AvailabilityBlock} Bloqueo creado
+   * 
+   * Las citas ya agendadas en el rango no se cancelan.
+   */
+  app.post("/api/admin/availability-blocks", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
+    try {
+      const result = availabilityBlockSchema.safeParse(req.body);
       if (!result.success) {
         res.status(400).json({ 
           message: "Datos inválidos", 
@@ -2440,83 +6850,86 @@ export async function registerRoutes(
         });
         return;
       }
+      const { startsAt, endsAt, reason } = result.data;
+      const preparerId = result.data.preparerId ?? null;
 
-      const { status, notes, finalAmount } = result.data;
-
-      const existingCase = await storage.getTaxCase(caseId);
-      if (!existingCase) {
-        res.status(404).json({ message: "Caso no encontrado" });
+      const scope = getPreparerScope(authReq);
+      if (scope !== undefined && preparerId !== scope) {
+        res.status(403).json({ message: "Solo puede bloquear su propia agenda" });
         return;
       }
 
-      const updatedCase = await storage.updateTaxCase(caseId, {
-        status,
-        notes,
-        finalAmount: finalAmount || null,
-      });
-
-      if (!updatedCase) {
-        res.status(404).json({ message: "Caso no encontrado" });
-        return;
+      if (preparerId !== null) {
+        const preparer = await storage.getUser(preparerId);
+        if (!preparer || (preparer.role !== "preparer" && preparer.role !== "admin")) {
+          res.status(404).json({ message: "Preparador no encontrado" });
+          return;
+        }
       }
 
+      const block = await storage.createAvailabilityBlock({
+        preparerId,
+        startsAt,
+        endsAt,
+        reason: reason || null,
+        createdById: authReq.user!.id,
+      });
+
       await storage.createActivityLog({
         userId: authReq.user!.id,
-        action: "case_updated",
-        details: `Caso ${caseId} actualizado: status=${status}`,
+        action: "availability_block_created",
+        details: `Agenda bloqueada ${preparerId === null ? "para toda la oficina" : `para el preparador ${preparerId}`} ` +
+          `del ${startsAt.toISOString()} al ${endsAt.toISOString()}${reason ? ` (${reason})` : ""}`,
       });
 
-      // Notificar al cliente si cambió el estado
-      if (status && status !== existingCase.status) {
-        const client = await storage.getUser(existingCase.clientId);
-        if (client) {
-          sendCaseStatusUpdate({
-            clientName: client.name,
-            clientEmail: client.email,
-            caseId: caseId,
-            filingYear: existingCase.filingYear,
-            newStatus: status,
-            notes: notes || undefined,
-          }).catch(console.error);
-
-          // Notificación en tiempo real (solo si wsService está disponible)
-          if (wsService) {
-            try {
-              wsService.notifyCaseStatusChange(
-                existingCase.clientId,
-                caseId,
-                status,
-                client.name
-              );
-            } catch (wsError) {
-              console.warn('[Routes] WebSocket notification failed (non-critical):', wsError);
-            }
-          }
-        }
-      }
-
-      res.json(updatedCase);
+      res.status(201).json(block);
     } catch (error) {
-      console.error("Error actualizando caso:", error);
-      res.status(500).json({ message: "Error al actualizar caso" });
+      console.error("Error creando bloqueo de agenda:", error);
+      res.status(500).json({ message: "Error al crear bloqueo de agenda" });
     }
   });
 
   /**
-   * GET /api/admin/appointments
+   * DELETE /api/admin/availability-blocks/:id
    * 
-   * Obtiene todas las citas del sistema
+   * Elimina un bloqueo de agenda
    * 
    * @requires authenticateToken, requireAdmin
-   * @returns {Appointment[]} Todas las citas
+   * @param {number} id - ID del bloqueo (los preparadores solo pueden eliminar los suyos)
    */
-  app.get("/api/admin/appointments", authenticateToken, requireAdmin, async (_req: Request, res: Response) => {
+  app.delete("/api/admin/availability-blocks/:id", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+    const authReq = req as AuthRequest;
     try {
-      const appointments = await storage.getAllAppointments();
-      res.json(appointments);
+      const blockId = parseInt(req.params.id);
+      if (isNaN(blockId)) {
+        res.status(400).json({ message: "ID de bloqueo inválido" });
+        return;
+      }
+
+      const block = await storage.getAvailabilityBlock(blockId);
+      if (!block) {
+        res.status(404).json({ message: "Bloqueo no encontrado" });
+        return;
+      }
+
+      const scope = getPreparerScope(authReq);
+      if (scope !== undefined && block.preparerId !== scope) {
+        res.status(403).json({ message: "Solo puede eliminar bloqueos de su propia agenda" });
+        return;
+      }
+
+      await storage.deleteAvailabilityBlock(blockId);
+
+      await storage.createActivityLog({
+        userId: authReq.user!.id,
+        action: "availability_block_deleted",
+        details: `Eliminado el bloqueo de agenda ${blockId}${block.reason ? ` (${block.reason})` : ""}`,
+      });
+
+      res.json({ message: "Bloqueo eliminado" });
     } catch (error) {
-      console.error("Error obteniendo citas:", error);
-      res.status(500).json({ message: "Error al obtener citas" });
+      console.error("Error eliminando bloqueo de agenda:", error);
+      res.status(500).json({ message: "Error al eliminar bloqueo de agenda" });
     }
   });
 
@@ -11,8 +11,13 @@
  * ## Entidades Manejadas
  * - Users: Usuarios del sistema (clientes, preparadores, admins)
  * - TaxCases: Casos de declaración de impuestos
- * - Documents: Documentos tributarios subidos
- * - Appointments: Citas programadas
+ * - CaseStatusHistory: Historial de cambios de estado de casos
+ * - Dependents: Dependientes de clientes y su vínculo con cada caso
+ * - Documents: Documentos tributarios subidos y sus versiones
+ * - DocumentRequests: Documentos solicitados por preparadores
+ * - SignatureRequests: Documentos enviados al cliente para firma electrónica
+ * - Appointments: Citas programadas y sus recordatorios enviados
+ * - PreparerAvailability / AvailabilityBlocks: Agenda de los preparadores
  * - Messages: Mensajes del sistema de mensajería
  * - ContactSubmissions: Formularios de contacto
  * - ActivityLogs: Registro de actividades del sistema
@@ -40,8 +45,21 @@
 import { 
   users, 
   taxCases, 
+  caseStatusHistory,
+  dependents,
+  caseDependents,
   documents, 
+  documentVersions,
+  documentExtractions,
+  clientEncryptionKeys,
+  quarantinedUploads,
+  pendingUploads,
+  documentRequests,
+  signatureRequests,
   appointments, 
+  appointmentReminders,
+  preparerAvailability,
+  availabilityBlocks,
   messages, 
   contactSubmissions,
   activityLogs,
@@ -50,10 +68,27 @@ import {
   type InsertUser,
   type TaxCase,
   type InsertTaxCase,
+  type CaseType,
+  type CaseStatusHistory,
+  type Dependent,
+  type InsertDependent,
   type Document,
   type InsertDocument,
+  type DocumentVersion,
+  type DocumentExtraction,
+  type ClientEncryptionKey,
+  type QuarantinedUpload,
+  type PendingUpload,
+  type DocumentRequest,
+  type InsertDocumentRequest,
+  type SignatureRequest,
+  type InsertSignatureRequest,
   type Appointment,
   type InsertAppointment,
+  type PreparerAvailability,
+  type InsertPreparerAvailability,
+  type AvailabilityBlock,
+  type InsertAvailabilityBlock,
   type Message,
   type InsertMessage,
   type ContactSubmission,
@@ -65,8 +100,122 @@ import {
   type PasswordResetToken,
   passwordResetTokens,
 } from "../shared/schema";
+import {
+  CASE_STATUSES,
+  canTransitionCaseStatus,
+  startsNewFilingRound,
+  CaseStatusTransitionError,
+  FilingAuthorizationRequiredError,
+} from "../shared/case-status";
+import type { ExtractedFields, ExtractionFormType } from "../shared/document-extraction";
 import { db } from "./db";
-import { eq, desc, and, sql, count, sum } from "drizzle-orm";
+import { eq, ne, desc, asc, and, or, lt, gt, gte, isNull, isNotNull, inArray, sql, count, sum } from "drizzle-orm";
+
+/**
+ * Filtros opcionales para el listado de casos tributarios
+ * 
+ * @property assignedPreparerId - Solo casos asignados a este preparador
+ * @property caseType - Solo casos de este tipo
+ */
+export interface TaxCaseFilters {
+  assignedPreparerId?: number;
+  caseType?: CaseType;
+}
+
+/**
+ * Datos de la firma que se registran al completar una solicitud de firma
+ */
+export type SignatureDetails = Pick<
+  SignatureRequest,
+  "signatureType" | "signerName" | "signerIp" | "signerUserAgent" | "signedAt" | "signedHash"
+>;
+
+/**
+ * Campos de archivo de un documento o de una de sus versiones
+ */
+export type DocumentFile = Pick<
+  DocumentVersion,
+  "fileName" | "filePath" | "fileType" | "fileSize" | "previewPath" | "encryptionKey" | "uploadedById"
+>;
+
+/**
+ * Resultado de la revisión de un documento por el preparador
+ */
+export type DocumentReview = Pick<Document, "reviewStatus" | "rejectionReason" | "reviewedById">;
+
+/**
+ * Resultado de procesar una extracción OCR
+ */
+export type DocumentExtractionResult = Pick<DocumentExtraction, "status" | "fields" | "confidence" | "error">;
+
+/**
+ * Datos de una subida retenida por la verificación de archivos
+ */
+export type NewQuarantinedUpload = Omit<QuarantinedUpload, "id" | "createdAt">;
+
+/**
+ * Datos de una subida directa a R2 al pedir la URL firmada
+ */
+export type NewPendingUpload = Omit<PendingUpload, "id" | "createdAt">;
+
+/**
+ * Construye la fila de versión con el archivo vigente de un documento
+ * 
+ * @param document - Documento
+ * @param version - Número de versión a registrar
+ */
+function toVersionRow(document: Document, version: number) {
+  return {
+    documentId: document.id,
+    version,
+    fileName: document.fileName,
+    filePath: document.filePath,
+    fileType: document.fileType,
+    fileSize: document.fileSize,
+    previewPath: document.previewPath,
+    encryptionKey: document.encryptionKey,
+    uploadedById: document.uploadedById,
+  };
+}
+
+/**
+ * Condición de las citas no canceladas de un preparador que se
+ * superponen con un horario
+ *
+ * Compara los intervalos ocupados: la duración de cada cita más su
+ * margen posterior. Incluye las citas sin preparador (anteriores a las
+ * agendas), que ocupan el horario de todos.
+ *
+ * @param preparerId - ID del preparador
+ * @param startsAt - Inicio del horario
+ * @param occupiedMinutes - Duración más margen del horario
+ * @param excludeId - Cita a ignorar (la que se reprograma)
+ */
+function overlappingAppointments(preparerId: number, startsAt: Date, occupiedMinutes: number, excludeId?: number) {
+  const occupiedUntil = new Date(startsAt.getTime() + occupiedMinutes * 60 * 1000);
+  return and(
+    or(eq(appointments.preparerId, preparerId), isNull(appointments.preparerId)),
+    ne(appointments.status, "cancelled"),
+    lt(appointments.appointmentDate, occupiedUntil),
+    sql`${appointments.appointmentDate} + (${appointments.durationMinutes} + ${appointments.bufferMinutes}) * interval '1 minute' > ${startsAt}`,
+    excludeId !== undefined ? ne(appointments.id, excludeId) : undefined
+  );
+}
+
+/**
+ * Subconsulta con los clientes de la cartera de un preparador
+ *
+ * Un cliente está en la cartera si tiene al menos un caso asignado al
+ * preparador (ver isClientAssignedToPreparer).
+ *
+ * @param preparerId - ID del preparador
+ */
+function preparerClientIds(preparerId: number) {
+  return db
+    .select({ clientId: taxCases.clientId })
+    .from(taxCases)
+    .where(eq(taxCases.assignedPreparerId, preparerId));
+}
 
 // =============================================================================
 // INTERFAZ DE ALMACENAMIENTO
@@ -124,9 +273,10 @@ export interface IStorage {
   
   /**
    * Obtiene clientes con conteos de documentos y casos
+   * @param preparerId - Si se indica, solo clientes con casos asignados a ese preparador
    * @returns Clientes con métricas adicionales
    */
-  getClientsWithDetails(): Promise<(User & { documentsCount: number; casesCount: number })[]>;
+  getClientsWithDetails(preparerId?: number): Promise<(User & { documentsCount: number; casesCount: number })[]>;
   
   // ---------------------------------------------------------------------------
   // AUTENTICACIÓN OAUTH
@@ -167,9 +317,10 @@ export interface IStorage {
   
   /**
    * Obtiene todos los casos con información del cliente
+   * @param filters - Filtros opcionales (preparador asignado, tipo de caso)
    * @returns Casos con cliente adjunto
    */
-  getAllTaxCases(): Promise<(TaxCase & { client?: User })[]>;
+  getAllTaxCases(filters?: TaxCaseFilters): Promise<(TaxCase & { client?: User })[]>;
   
   /**
    * Crea un nuevo caso tributario
@@ -177,14 +328,113 @@ export interface IStorage {
    * @returns Caso creado
    */
   createTaxCase(taxCase: InsertTaxCase): Promise<TaxCase>;
+
+  /**
+   * Crea un caso a partir del cuestionario de admisión, con sus dependientes
+   * @param taxCase - Datos del caso
+   * @param intakeDependents - Dependientes declarados en el cuestionario
+   * @returns Caso creado
+   */
+  createTaxCaseFromIntake(
+    taxCase: typeof taxCases.$inferInsert,
+    intakeDependents: Pick<InsertDependent, "name" | "dateOfBirth" | "relationship">[]
+  ): Promise<TaxCase>;
   
   /**
    * Actualiza un caso existente
    * @param id - ID del caso
    * @param data - Campos a actualizar
+   * @param changedById - Usuario que realiza el cambio (para el historial de estados)
+   * @returns Caso actualizado o undefined
+   * @throws CaseStatusTransitionError si el cambio de estado no está permitido
+   * @throws FilingAuthorizationRequiredError si se envía al IRS sin Form 8879 firmado
+   */
+  updateTaxCase(id: number, data: Partial<InsertTaxCase>, changedById?: number): Promise<TaxCase | undefined>;
+  
+  /**
+   * Obtiene el historial de cambios de estado de un caso
+   * @param caseId - ID del caso
+   * @returns Cambios de estado en orden cronológico
+   */
+  getCaseStatusHistory(caseId: number): Promise<CaseStatusHistory[]>;
+  
+  /**
+   * Asigna (o desasigna) un preparador a un caso
+   * @param id - ID del caso
+   * @param preparerId - ID del preparador, o null para dejarlo sin asignar
    * @returns Caso actualizado o undefined
    */
-  updateTaxCase(id: number, data: Partial<InsertTaxCase>): Promise<TaxCase | undefined>;
+  assignTaxCase(id: number, preparerId: number | null): Promise<TaxCase | undefined>;
+  
+  /**
+   * Verifica si un preparador tiene asignado al menos un caso del cliente
+   * @param clientId - ID del cliente
+   * @param preparerId - ID del preparador
+   * @returns true si el cliente forma parte de su cartera
+   */
+  isClientAssignedToPreparer(clientId: number, preparerId: number): Promise<boolean>;
+
+  // ---------------------------------------------------------------------------
+  // DEPENDIENTES
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Obtiene los dependientes de un cliente
+   * @param clientId - ID del cliente
+   * @returns Dependientes ordenados por fecha de nacimiento
+   */
+  getDependentsByClient(clientId: number): Promise<Dependent[]>;
+
+  /**
+   * Obtiene un dependiente por ID
+   * @param id - ID del dependiente
+   * @returns Dependiente o undefined
+   */
+  getDependent(id: number): Promise<Dependent | undefined>;
+
+  /**
+   * Crea un dependiente
+   * @param dependent - Datos del dependiente (SSN ya cifrado)
+   * @returns Dependiente creado
+   */
+  createDependent(dependent: InsertDependent): Promise<Dependent>;
+
+  /**
+   * Actualiza un dependiente
+   * @param id - ID del dependiente
+   * @param data - Campos a actualizar
+   * @returns Dependiente actualizado o undefined
+   */
+  updateDependent(id: number, data: Partial<InsertDependent>): Promise<Dependent | undefined>;
+
+  /**
+   * Elimina un dependiente y sus vínculos con casos
+   * @param id - ID del dependiente
+   * @returns true si se eliminó
+   */
+  deleteDependent(id: number): Promise<boolean>;
+
+  /**
+   * Obtiene los dependientes declarados en un caso
+   * @param caseId - ID del caso
+   * @returns Dependientes vinculados al caso
+   */
+  getCaseDependents(caseId: number): Promise<Dependent[]>;
+
+  /**
+   * Reemplaza los dependientes declarados en un caso
+   * @param caseId - ID del caso
+   * @param dependentIds - IDs de dependientes del mismo cliente
+   * @returns Dependientes vinculados tras el cambio
+   */
+  setCaseDependents(caseId: number, dependentIds: number[]): Promise<Dependent[]>;
+
+  /**
+   * Copia al caso los dependientes del caso anterior más reciente del cliente
+   * @param caseId - ID del caso recién creado
+   * @returns Dependientes vinculados (vacío si no había caso anterior)
+   */
+  carryForwardDependents(caseId: number): Promise<Dependent[]>;
   
   // ---------------------------------------------------------------------------
   // DOCUMENTOS
@@ -213,9 +463,10 @@ export interface IStorage {
   
   /**
    * Obtiene todos los documentos del sistema
+   * @param preparerId - Limitar a los clientes de la cartera de este preparador
    * @returns Lista completa de documentos
    */
-  getAllDocuments(): Promise<Document[]>;
+  getAllDocuments(preparerId?: number): Promise<Document[]>;
   
   /**
    * Obtiene un documento por ID
@@ -225,518 +476,2132 @@ export interface IStorage {
   getDocument(id: number): Promise<Document | undefined>;
   
   /**
-   * Crea un nuevo registro de documento
+   * Crea un nuevo registro de documento con su versión 1
    * @param document - Datos del documento
    * @returns Documento creado
    */
   createDocument(document: InsertDocument): Promise<Document>;
-  
-  // ---------------------------------------------------------------------------
-  // CITAS
-  // ---------------------------------------------------------------------------
-  
-  /**
-   * Obtiene citas de un cliente
-   * @param clientId - ID del cliente
-   * @returns Lista de citas ordenadas por fecha
-   */
-  getAppointmentsByClient(clientId: number): Promise<Appointment[]>;
-  
+
   /**
-   * Obtiene todas las citas del sistema
-   * @returns Lista de citas
+   * Elimina un documento de forma reversible (soft delete)
+   * @param id - ID del documento
+   * @param deletedById - Usuario que lo elimina
+   * @returns Documento eliminado o undefined
    */
-  getAllAppointments(): Promise<Appointment[]>;
-  
+  softDeleteDocument(id: number, deletedById: number): Promise<Document | undefined>;
+
   /**
-   * Verifica si existe conflicto de horario para una cita
-   * Usa una ventana de ±30 minutos
-   * @param appointmentDate - Fecha/hora propuesta
-   * @returns true si hay conflicto
+   * Obtiene un documento eliminado que aún no se ha purgado
+   * @param id - ID del documento
+   * @returns Documento o undefined si no existe o no está eliminado
    */
-  checkAppointmentConflict(appointmentDate: Date): Promise<boolean>;
-  
+  getDeletedDocument(id: number): Promise<Document | undefined>;
+
   /**
-   * Crea una nueva cita
-   * @param appointment - Datos de la cita
-   * @returns Cita creada
+   * Restaura un documento eliminado que aún no se ha purgado
+   * @param id - ID del documento
+   * @returns Documento restaurado o undefined
    */
-  createAppointment(appointment: InsertAppointment): Promise<Appointment>;
-  
+  restoreDocument(id: number): Promise<Document | undefined>;
+
   /**
-   * Actualiza una cita existente
-   * @param id - ID de la cita
-   * @param data - Campos a actualizar
-   * @returns Cita actualizada o undefined
+   * Obtiene los documentos eliminados de un cliente (aún no purgados)
+   * @param clientId - ID del cliente
+   * @returns Documentos eliminados
    */
-  updateAppointment(id: number, data: Partial<InsertAppointment>): Promise<Appointment | undefined>;
-  
-  // ---------------------------------------------------------------------------
-  // MENSAJERÍA
-  // ---------------------------------------------------------------------------
-  
+  getDeletedDocumentsByClient(clientId: number): Promise<Document[]>;
+
   /**
-   * Obtiene mensajes asociados a un caso
-   * @param caseId - ID del caso
-   * @returns Lista de mensajes ordenados cronológicamente
+   * Obtiene los documentos eliminados cuyo periodo de retención venció
+   * @param deletedBefore - Documentos eliminados antes de esta fecha
+   * @returns Documentos a purgar
    */
-  getMessagesByCase(caseId: number): Promise<Message[]>;
-  
+  getDocumentsPendingPurge(deletedBefore: Date): Promise<Document[]>;
+
   /**
-   * Obtiene conversación entre dos usuarios
-   * @param userId1 - Primer usuario
-   * @param userId2 - Segundo usuario
-   * @returns Mensajes de la conversación
+   * Borra definitivamente un documento eliminado y sus versiones
+   * @param id - ID del documento
+   * @returns true si se borró
    */
-  getConversation(userId1: number, userId2: number): Promise<Message[]>;
-  
+  purgeDocument(id: number): Promise<boolean>;
+
   /**
-   * Obtiene todas las conversaciones de un usuario
-   * @param userId - ID del usuario
-   * @returns Lista de conversaciones con último mensaje y conteo de no leídos
+   * Obtiene las versiones de un documento
+   * @param documentId - ID del documento
+   * @returns Versiones de la más reciente a la más antigua
    */
-  getConversationsForUser(userId: number): Promise<{ 
-    partnerId: number; 
-    partnerName: string; 
-    partnerRole: string; 
-    lastMessage: Message; 
-    unreadCount: number 
-  }[]>;
-  
+  getDocumentVersions(documentId: number): Promise<DocumentVersion[]>;
+
   /**
-   * Crea un nuevo mensaje
-   * @param message - Datos del mensaje
-   * @returns Mensaje creado
+   * Obtiene una versión concreta de un documento
+   * @param documentId - ID del documento
+   * @param version - Número de versión
+   * @returns Versión o undefined
    */
-  createMessage(message: InsertMessage): Promise<Message>;
-  
+  getDocumentVersion(documentId: number, version: number): Promise<DocumentVersion | undefined>;
+
   /**
-   * Marca mensajes como leídos
-   * @param recipientId - Usuario que lee los mensajes
-   * @param senderId - Usuario que envió los mensajes
+   * Reemplaza el archivo de un documento agregando una nueva versión
+   * @param documentId - ID del documento
+   * @param file - Archivo de la nueva versión
+   * @returns Documento actualizado o undefined si no existe
    */
-  markMessagesAsRead(recipientId: number, senderId: number): Promise<void>;
-  
+  replaceDocumentFile(documentId: number, file: DocumentFile): Promise<Document | undefined>;
+
   /**
-   * Obtiene conteo de mensajes no leídos
-   * @param userId - ID del usuario
-   * @returns Número de mensajes sin leer
+   * Registra la revisión de un documento
+   * @param id - ID del documento
+   * @param review - Estado, motivo de rechazo y revisor
+   * @returns Documento actualizado o undefined si no existe
    */
-  getUnreadCount(userId: number): Promise<number>;
-  
+  reviewDocument(id: number, review: DocumentReview): Promise<Document | undefined>;
+
   // ---------------------------------------------------------------------------
-  // FORMULARIO DE CONTACTO
+  // EXTRACCIONES OCR
   // ---------------------------------------------------------------------------
-  
+
   /**
-   * Crea un nuevo envío de formulario de contacto
-   * @param contact - Datos del formulario
-   * @returns Envío creado
+   * Obtiene la extracción OCR de un documento
+   * @param documentId - ID del documento
+   * @returns Extracción o undefined si el documento no tiene
    */
-  createContactSubmission(contact: InsertContactSubmission): Promise<ContactSubmission>;
-  
+  getDocumentExtraction(documentId: number): Promise<DocumentExtraction | undefined>;
+
   /**
-   * Obtiene todos los envíos de formulario de contacto
-   * @returns Lista de envíos ordenados por fecha
+   * Pone en cola la extracción de un documento (o la reinicia)
+   * @param documentId - ID del documento
+   * @param formType - Tipo de formulario
+   * @returns Extracción en estado 'pending'
    */
-  getAllContactSubmissions(): Promise<ContactSubmission[]>;
-  
-  // ---------------------------------------------------------------------------
-  // LOGGING DE ACTIVIDAD
-  // ---------------------------------------------------------------------------
-  
+  queueDocumentExtraction(documentId: number, formType: ExtractionFormType): Promise<DocumentExtraction>;
+
   /**
-   * Registra una actividad del sistema
-   * @param log - Datos del log
-   * @returns Log creado
+   * Toma extracciones pendientes para procesarlas
+   * @param limit - Máximo de extracciones a tomar
+   * @param staleBefore - Reintenta las 'processing' sin actualizar desde esta fecha
+   * @returns Extracciones marcadas como 'processing'
    */
-  createActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
-  
-  // ---------------------------------------------------------------------------
-  // ESTADÍSTICAS Y ANALYTICS
-  // ---------------------------------------------------------------------------
-  
+  claimDocumentExtractions(limit: number, staleBefore: Date): Promise<DocumentExtraction[]>;
+
   /**
-   * Obtiene estadísticas generales para el dashboard admin
-   * @returns Métricas del sistema
+   * Guarda el resultado del OCR
+   * @param id - ID de la extracción
+   * @param result - Estado, campos, confianza y error
+   * @returns Extracción actualizada o undefined
    */
-  getAdminStats(): Promise<{
-    totalClients: number;
-    pendingCases: number;
-    completedCases: number;
-    totalRefunds: number;
-  }>;
+  saveDocumentExtractionResult(id: number, result: DocumentExtractionResult): Promise<DocumentExtraction | undefined>;
 
   /**
-   * Obtiene datos analíticos detallados
-   * @returns Datos para gráficos y análisis
+   * Guarda los campos revisados por el preparador
+   * @param documentId - ID del documento
+   * @param fields - Campos corregidos
+   * @param reviewedById - Preparador que revisó
+   * @returns Extracción actualizada o undefined
    */
-  getAnalyticsData(): Promise<{
-    casesByMonth: { month: string; count: number; amount: number }[];
-    casesByStatus: { status: string; count: number }[];
-    casesByYear: { year: number; count: number; amount: number }[];
-    recentActivity: { date: string; action: string; details: string }[];
-  }>;
+  reviewDocumentExtraction(documentId: number, fields: ExtractedFields, reviewedById: number): Promise<DocumentExtraction | undefined>;
 
   // ---------------------------------------------------------------------------
-  // RECUPERACIÓN DE CONTRASEÑA
+  // CLAVES DE CIFRADO DE CLIENTES
   // ---------------------------------------------------------------------------
-  
+
   /**
-   * Crea un token de recuperación de contraseña
-   * @param userId - ID del usuario
-   * @param tokenHash - Hash del token
-   * @param expiresAt - Fecha de expiración
-   * @returns Token creado
+   * Obtiene la clave envuelta de un cliente
+   * @param clientId - ID del cliente
+   * @returns Clave o undefined si el cliente aún no tiene
    */
-  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
-  
+  getClientEncryptionKey(clientId: number): Promise<ClientEncryptionKey | undefined>;
+
   /**
-   * Obtiene un token de recuperación válido por su hash
-   * @param tokenHash - Hash del token
-   * @returns Token válido o undefined si no existe o expiró
+   * Guarda la clave envuelta de un cliente
+   * @param clientId - ID del cliente
+   * @param wrappedKey - Clave cifrada con la clave maestra
+   * @param masterKeyId - Clave maestra usada
+   * @returns Clave guardada, o la que ya existía si otra petición la creó antes
    */
-  getValidPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
-  
+  createClientEncryptionKey(clientId: number, wrappedKey: string, masterKeyId: string): Promise<ClientEncryptionKey>;
+
   /**
-   * Marca un token como usado
-   * @param tokenId - ID del token
+   * Obtiene las claves de cliente envueltas con otra clave maestra
+   * @param masterKeyId - Clave maestra vigente
+   * @returns Claves a volver a envolver
    */
-  markPasswordResetTokenAsUsed(tokenId: number): Promise<void>;
-  
+  getClientEncryptionKeysToRotate(masterKeyId: string): Promise<ClientEncryptionKey[]>;
+
   /**
-   * Invalida todos los tokens de recuperación de un usuario
-   * @param userId - ID del usuario
+   * Sustituye la envoltura de una clave de cliente
+   * @param id - ID de la clave
+   * @param previousMasterKeyId - Clave maestra con la que estaba envuelta
+   * @param wrappedKey - Clave cifrada con la nueva clave maestra
+   * @param masterKeyId - Nueva clave maestra
+   * @returns true si se actualizó (false si otro proceso ya la rotó)
    */
-  invalidateUserPasswordResetTokens(userId: number): Promise<void>;
-  
+  rewrapClientEncryptionKey(id: number, previousMasterKeyId: string, wrappedKey: string, masterKeyId: string): Promise<boolean>;
+
+  // ---------------------------------------------------------------------------
+  // SUBIDAS EN CUARENTENA
+  // ---------------------------------------------------------------------------
+
   /**
-   * Obtiene todos los usuarios (para admin)
-   * @returns Lista de todos los usuarios
+   * Registra una subida retenida por la verificación de archivos
+   * @param upload - Datos del archivo y motivo
+   * @returns Subida registrada
    */
-  getAllUsers(): Promise<User[]>;
-  
+  createQuarantinedUpload(upload: NewQuarantinedUpload): Promise<QuarantinedUpload>;
+
   /**
-   * Activa o desactiva un usuario
-   * @param userId - ID del usuario
-   * @param isActive - Estado de activación
+   * Obtiene todas las subidas en cuarentena
+   * @returns Subidas ordenadas por fecha descendente
    */
-  setUserActiveStatus(userId: number, isActive: boolean): Promise<User | undefined>;
+  getQuarantinedUploads(): Promise<QuarantinedUpload[]>;
+
+  /**
+   * Obtiene una subida en cuarentena
+   * @param id - ID de la subida
+   * @returns Subida o undefined
+   */
+  getQuarantinedUpload(id: number): Promise<QuarantinedUpload | undefined>;
+
+  /**
+   * Elimina el registro de una subida en cuarentena
+   * @param id - ID de la subida
+   * @returns true si se eliminó
+   */
+  deleteQuarantinedUpload(id: number): Promise<boolean>;
+
+  // ---------------------------------------------------------------------------
+  // SUBIDAS DIRECTAS PENDIENTES
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Registra una subida directa a R2 antes de que el navegador la haga
+   * @param upload - Datos declarados y key de destino
+   * @returns Subida pendiente creada
+   */
+  createPendingUpload(upload: NewPendingUpload): Promise<PendingUpload>;
+
+  /**
+   * Obtiene una subida pendiente
+   * @param id - ID de la subida
+   * @returns Subida o undefined
+   */
+  getPendingUpload(id: number): Promise<PendingUpload | undefined>;
+
+  /**
+   * Elimina una subida pendiente y la devuelve (solo una llamada la obtiene)
+   * @param id - ID de la subida
+   * @returns Subida eliminada o undefined si ya no existía
+   */
+  claimPendingUpload(id: number): Promise<PendingUpload | undefined>;
+
+  /**
+   * Obtiene las subidas pendientes vencidas
+   * @param now - Momento de referencia
+   * @returns Subidas con expiresAt anterior a now
+   */
+  getExpiredPendingUploads(now: Date): Promise<PendingUpload[]>;
+
+  // ---------------------------------------------------------------------------
+  // SOLICITUDES DE DOCUMENTOS
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Obtiene las solicitudes de documentos de un caso
+   * @param caseId - ID del caso
+   * @returns Solicitudes ordenadas por fecha de creación descendente
+   */
+  getDocumentRequestsByCase(caseId: number): Promise<DocumentRequest[]>;
+
+  /**
+   * Obtiene las solicitudes de documentos de un cliente
+   * @param clientId - ID del cliente
+   * @returns Solicitudes ordenadas por fecha de creación descendente
+   */
+  getDocumentRequestsByClient(clientId: number): Promise<DocumentRequest[]>;
+
+  /**
+   * Obtiene una solicitud de documento por ID
+   * @param id - ID de la solicitud
+   * @returns Solicitud o undefined
+   */
+  getDocumentRequest(id: number): Promise<DocumentRequest | undefined>;
+
+  /**
+   * Crea una solicitud de documento
+   * @param request - Datos de la solicitud
+   * @returns Solicitud creada
+   */
+  createDocumentRequest(request: InsertDocumentRequest): Promise<DocumentRequest>;
+
+  /**
+   * Actualiza una solicitud de documento
+   * @param id - ID de la solicitud
+   * @param data - Campos a actualizar
+   * @returns Solicitud actualizada o undefined
+   */
+  updateDocumentRequest(id: number, data: Partial<InsertDocumentRequest>): Promise<DocumentRequest | undefined>;
+
+  /**
+   * Marca una solicitud abierta como cumplida por un documento
+   * @param id - ID de la solicitud
+   * @param documentId - Documento que la cumple
+   * @returns Solicitud actualizada o undefined si no estaba abierta
+   */
+  fulfillDocumentRequest(id: number, documentId: number): Promise<DocumentRequest | undefined>;
+
+  /**
+   * Obtiene solicitudes abiertas vencidas que necesitan recordatorio
+   * @param now - Momento de referencia
+   * @param remindAfter - No repetir recordatorios enviados después de esta fecha
+   * @returns Solicitudes vencidas sin recordatorio reciente
+   */
+  getOverdueDocumentRequests(now: Date, remindAfter: Date): Promise<DocumentRequest[]>;
+
+  /**
+   * Reserva el recordatorio de una solicitud vencida antes de enviarlo
+   * @param id - ID de la solicitud
+   * @param now - Momento del recordatorio
+   * @param remindAfter - No reservar si ya se recordó después de esta fecha
+   * @returns Solicitud reservada o undefined si otra ejecución ya la reservó
+   */
+  claimDocumentRequestReminder(id: number, now: Date, remindAfter: Date): Promise<DocumentRequest | undefined>;
+
+  /**
+   * Libera la reserva de un recordatorio que no se pudo enviar
+   * @param id - ID de la solicitud
+   * @param claimedAt - Momento con que se reservó
+   * @param previousReminderAt - Último recordatorio anterior a la reserva
+   */
+  releaseDocumentRequestReminder(id: number, claimedAt: Date, previousReminderAt: Date | null): Promise<void>;
+
+  // ---------------------------------------------------------------------------
+  // SOLICITUDES DE FIRMA
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Obtiene las solicitudes de firma de un caso
+   * @param caseId - ID del caso
+   * @returns Solicitudes ordenadas por fecha de creación descendente
+   */
+  getSignatureRequestsByCase(caseId: number): Promise<SignatureRequest[]>;
+
+  /**
+   * Obtiene las solicitudes de firma de un cliente
+   * @param clientId - ID del cliente
+   * @returns Solicitudes ordenadas por fecha de creación descendente
+   */
+  getSignatureRequestsByClient(clientId: number): Promise<SignatureRequest[]>;
+
+  /**
+   * Obtiene una solicitud de firma por ID
+   * @param id - ID de la solicitud
+   * @returns Solicitud o undefined
+   */
+  getSignatureRequest(id: number): Promise<SignatureRequest | undefined>;
+
+  /**
+   * Crea una solicitud de firma
+   * @param request - Datos de la solicitud
+   * @returns Solicitud creada
+   */
+  createSignatureRequest(request: InsertSignatureRequest): Promise<SignatureRequest>;
+
+  /**
+   * Anula una solicitud de firma pendiente
+   * @param id - ID de la solicitud
+   * @returns Solicitud anulada o undefined si no estaba pendiente
+   */
+  cancelSignatureRequest(id: number): Promise<SignatureRequest | undefined>;
+
+  /**
+   * Completa una solicitud pendiente y crea el documento con el PDF firmado
+   * @param id - ID de la solicitud
+   * @param document - Documento con el PDF firmado
+   * @param signature - Datos de la firma
+   * @returns Solicitud y documento, o undefined si no estaba pendiente
+   */
+  signSignatureRequest(
+    id: number,
+    document: typeof documents.$inferInsert,
+    signature: SignatureDetails
+  ): Promise<{ request: SignatureRequest; document: Document } | undefined>;
+
+  
+  // ---------------------------------------------------------------------------
+  // CITAS
+  // ---------------------------------------------------------------------------
+  
+  /**
+   * Obtiene citas de un cliente
+   * @param clientId - ID del cliente
+   * @returns Lista de citas ordenadas por fecha
+   */
+  getAppointmentsByClient(clientId: number): Promise<Appointment[]>;
+  
+  /**
+   * Obtiene todas las citas del sistema
+   * @param preparerId - Limitar a las citas del preparador y de los clientes de su cartera
+   * @returns Lista de citas
+   */
+  getAllAppointments(preparerId?: number): Promise<Appointment[]>;
+  
+  /**
+   * Obtiene una cita por ID
+   * @param id - ID de la cita
+   * @returns Cita o undefined
+   */
+  getAppointment(id: number): Promise<Appointment | undefined>;
+  
+  /**
+   * Obtiene las citas no canceladas que empiezan en un rango
+   * @param from - Inicio del rango
+   * @param to - Fin del rango (exclusivo)
+   * @returns Citas ordenadas por fecha
+   */
+  getActiveAppointmentsBetween(from: Date, to: Date): Promise<Appointment[]>;
+  
+  /**
+   * Crea una nueva cita
+   * @param appointment - Datos de la cita
+   * @returns Cita creada
+   */
+  createAppointment(appointment: InsertAppointment): Promise<Appointment>;
+  
+  /**
+   * Agenda una cita con un preparador si no se superpone con otra suya
+   * @param appointment - Datos de la cita (con preparador, inicio y duración)
+   * @returns Cita creada, o undefined si el horario ya está ocupado
+   */
+  bookAppointment(appointment: typeof appointments.$inferInsert & { preparerId: number; appointmentDate: Date; durationMinutes: number; bufferMinutes: number }): Promise<Appointment | undefined>;
+  
+  /**
+   * Actualiza una cita existente
+   * @param id - ID de la cita
+   * @param data - Campos a actualizar
+   * @returns Cita actualizada o undefined
+   */
+  updateAppointment(id: number, data: Partial<InsertAppointment>): Promise<Appointment | undefined>;
+  
+  /**
+   * Mueve una cita agendada a otro horario si no se superpone con otra del preparador
+   * @param id - ID de la cita
+   * @param slot - Nuevo preparador, inicio y duración
+   * @returns Cita actualizada, o undefined si ya no está agendada o el horario está ocupado
+   */
+  rescheduleAppointment(
+    id: number,
+    slot: { preparerId: number; appointmentDate: Date; durationMinutes: number; bufferMinutes: number }
+  ): Promise<Appointment | undefined>;
+  
+  /**
+   * Cancela o completa una cita agendada
+   * @param id - ID de la cita
+   * @param status - Nuevo estado
+   * @returns Cita actualizada, o undefined si ya no estaba agendada
+   */
+  closeAppointment(id: number, status: "completed" | "cancelled"): Promise<Appointment | undefined>;
+  
+  /**
+   * Registra la confirmación de asistencia del cliente
+   * @param id - ID de la cita
+   * @param appointmentDate - Horario que el cliente confirma
+   * @returns Cita confirmada, o undefined si ya no está agendada en ese horario
+   */
+  confirmAppointment(id: number, appointmentDate: Date): Promise<Appointment | undefined>;
+  
+  /**
+   * Reserva el envío de un recordatorio de cita
+   * @param appointmentId - ID de la cita
+   * @param kind - Recordatorio de 24 horas o de 1 hora
+   * @param appointmentDate - Horario de la cita que se recuerda
+   * @returns true si el recordatorio no se había enviado
+   */
+  claimAppointmentReminder(appointmentId: number, kind: "day_before" | "hour_before", appointmentDate: Date): Promise<boolean>;
+  
+  /**
+   * Libera la reserva de un recordatorio que no pudo enviarse
+   * @param appointmentId - ID de la cita
+   * @param kind - Recordatorio de 24 horas o de 1 hora
+   * @param appointmentDate - Horario de la cita que se recuerda
+   */
+  releaseAppointmentReminder(appointmentId: number, kind: "day_before" | "hour_before", appointmentDate: Date): Promise<void>;
+  
+  // ---------------------------------------------------------------------------
+  // DISPONIBILIDAD DE PREPARADORES
+  // ---------------------------------------------------------------------------
+  
+  /**
+   * Obtiene el horario semanal de los preparadores activos
+   * @param preparerId - Si se indica, solo el de ese preparador
+   * @returns Franjas ordenadas por día y hora
+   */
+  getPreparerAvailability(preparerId?: number): Promise<PreparerAvailability[]>;
+  
+  /**
+   * Reemplaza el horario semanal de un preparador
+   * @param preparerId - ID del preparador
+   * @param windows - Nuevas franjas (vacío = no recibe citas)
+   * @returns Franjas guardadas
+   */
+  setPreparerAvailability(
+    preparerId: number,
+    windows: Omit<InsertPreparerAvailability, "preparerId">[]
+  ): Promise<PreparerAvailability[]>;
+  
+  /**
+   * Obtiene los bloqueos de agenda que se cruzan con un rango
+   * @param from - Inicio del rango
+   * @param to - Fin del rango
+   * @returns Bloqueos ordenados por inicio
+   */
+  getAvailabilityBlocks(from: Date, to: Date): Promise<AvailabilityBlock[]>;
+  
+  /**
+   * Obtiene un bloqueo de agenda por ID
+   * @param id - ID del bloqueo
+   * @returns Bloqueo o undefined
+   */
+  getAvailabilityBlock(id: number): Promise<AvailabilityBlock | undefined>;
+  
+  /**
+   * Crea un bloqueo de agenda
+   * @param block - Datos del bloqueo
+   * @returns Bloqueo creado
+   */
+  createAvailabilityBlock(block: InsertAvailabilityBlock): Promise<AvailabilityBlock>;
+  
+  /**
+   * Elimina un bloqueo de agenda
+   * @param id - ID del bloqueo
+   * @returns true si se eliminó
+   */
+  deleteAvailabilityBlock(id: number): Promise<boolean>;
+  
+  // ---------------------------------------------------------------------------
+  // MENSAJERÍA
+  // ---------------------------------------------------------------------------
+  
+  /**
+   * Obtiene mensajes asociados a un caso
+   * @param caseId - ID del caso
+   * @returns Lista de mensajes ordenados cronológicamente
+   */
+  getMessagesByCase(caseId: number): Promise<Message[]>;
+  
+  /**
+   * Obtiene conversación entre dos usuarios
+   * @param userId1 - Primer usuario
+   * @param userId2 - Segundo usuario
+   * @returns Mensajes de la conversación
+   */
+  getConversation(userId1: number, userId2: number): Promise<Message[]>;
+  
+  /**
+   * Obtiene todas las conversaciones de un usuario
+   * @param userId - ID del usuario
+   * @returns Lista de conversaciones con último mensaje y conteo de no leídos
+   */
+  getConversationsForUser(userId: number): Promise<{ 
+    partnerId: number; 
+    partnerName: string; 
+    partnerRole: string; 
+    lastMessage: Message; 
+    unreadCount: number 
+  }[]>;
+  
+  /**
+   * Crea un nuevo mensaje
+   * @param message - Datos del mensaje
+   * @returns Mensaje creado
+   */
+  createMessage(message: InsertMessage): Promise<Message>;
+  
+  /**
+   * Marca mensajes como leídos
+   * @param recipientId - Usuario que lee los mensajes
+   * @param senderId - Usuario que envió los mensajes
+   */
+  markMessagesAsRead(recipientId: number, senderId: number): Promise<void>;
+  
+  /**
+   * Obtiene conteo de mensajes no leídos
+   * @param userId - ID del usuario
+   * @returns Número de mensajes sin leer
+   */
+  getUnreadCount(userId: number): Promise<number>;
+  
+  // ---------------------------------------------------------------------------
+  // FORMULARIO DE CONTACTO
+  // ---------------------------------------------------------------------------
+  
+  /**
+   * Crea un nuevo envío de formulario de contacto
+   * @param contact - Datos del formulario
+   * @returns Envío creado
+   */
+  createContactSubmission(contact: InsertContactSubmission): Promise<ContactSubmission>;
+  
+  /**
+   * Obtiene todos los envíos de formulario de contacto
+   * @returns Lista de envíos ordenados por fecha
+   */
+  getAllContactSubmissions(): Promise<ContactSubmission[]>;
+  
+  // ---------------------------------------------------------------------------
+  // LOGGING DE ACTIVIDAD
+  // ---------------------------------------------------------------------------
+  
+  /**
+   * Registra una actividad del sistema
+   * @param log - Datos del log
+   * @returns Log creado
+   */
+  createActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
+  
+  // ---------------------------------------------------------------------------
+  // ESTADÍSTICAS Y ANALYTICS
+  // ---------------------------------------------------------------------------
+  
+  /**
+   * Obtiene estadísticas generales para el dashboard admin
+   * @returns Métricas del sistema
+   */
+  getAdminStats(): Promise<{
+    totalClients: number;
+    pendingCases: number;
+    completedCases: number;
+    totalRefunds: number;
+  }>;
+
+  /**
+   * Obtiene datos analíticos detallados
+   * @returns Datos para gráficos y análisis
+   */
+  getAnalyticsData(): Promise<{
+    casesByMonth: { month: string; count: number; amount: number }[];
+    casesByStatus: { status: string; count: number }[];
+    casesByYear: { year: number; count: number; amount: number }[];
+    recentActivity: { date: string; action: string; details: string }[];
+  }>;
+
+  // ---------------------------------------------------------------------------
+  // RECUPERACIÓN DE CONTRASEÑA
+  // ---------------------------------------------------------------------------
+  
+  /**
+   * Crea un token de recuperación de contraseña
+   * @param userId - ID del usuario
+   * @param tokenHash - Hash del token
+   * @param expiresAt - Fecha de expiración
+   * @returns Token creado
+   */
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  
+  /**
+   * Obtiene un token de recuperación válido por su hash
+   * @param tokenHash - Hash del token
+   * @returns Token válido o undefined si no existe o expiró
+   */
+  getValidPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  
+  /**
+   * Marca un token como usado
+   * @param tokenId - ID del token
+   */
+  markPasswordResetTokenAsUsed(tokenId: number): Promise<void>;
+  
+  /**
+   * Invalida todos los tokens de recuperación de un usuario
+   * @param userId - ID del usuario
+   */
+  invalidateUserPasswordResetTokens(userId: number): Promise<void>;
+  
+  /**
+   * Obtiene todos los usuarios (para admin)
+   * @returns Lista de todos los usuarios
+   */
+  getAllUsers(): Promise<User[]>;
+  
+  /**
+   * Activa o desactiva un usuario
+   * @param userId - ID del usuario
+   * @param isActive - Estado de activación
+   */
+  setUserActiveStatus(userId: number, isActive: boolean): Promise<User | undefined>;
 }
 
-// =============================================================================
-// IMPLEMENTACIÓN DE ALMACENAMIENTO EN BASE DE DATOS
-// =============================================================================
+// =============================================================================
+// IMPLEMENTACIÓN DE ALMACENAMIENTO EN BASE DE DATOS
+// =============================================================================
+
+/**
+ * Implementación de IStorage usando PostgreSQL y Drizzle ORM
+ * 
+ * Esta clase proporciona todas las operaciones CRUD para el sistema
+ * usando consultas optimizadas y transacciones donde sea necesario.
+ * 
+ * @class DatabaseStorage
+ * @implements {IStorage}
+ */
+export class DatabaseStorage implements IStorage {
+  
+  // ===========================================================================
+  // OPERACIONES DE USUARIOS
+  // ===========================================================================
+
+  /**
+   * Obtiene un usuario por ID
+   * 
+   * @param id - ID único del usuario
+   * @returns Usuario encontrado o undefined
+   */
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  /**
+   * Busca usuario por email (case-insensitive)
+   * 
+   * El email se guarda normalizado a minúsculas
+   * 
+   * @param email - Email a buscar
+   * @returns Usuario encontrado o undefined
+   */
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email.toLowerCase()));
+    return user || undefined;
+  }
+
+  /**
+   * Crea un nuevo usuario
+   * 
+   * @param insertUser - Datos del usuario a insertar
+   * @returns Usuario creado con todos los campos generados
+   */
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db
+      .insert(users)
+      .values(insertUser)
+      .returning();
+    return user;
+  }
+
+  /**
+   * Actualiza un usuario existente
+   * 
+   * Automáticamente actualiza el campo updatedAt
+   * 
+   * @param id - ID del usuario
+   * @param data - Campos a actualizar
+   * @returns Usuario actualizado o undefined si no existe
+   */
+  async updateUser(id: number, data: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  /**
+   * Obtiene todos los clientes (rol = 'client')
+   * 
+   * @returns Lista de clientes ordenados por fecha de creación descendente
+   */
+  async getAllClients(): Promise<User[]> {
+    return db.select().from(users).where(eq(users.role, "client")).orderBy(desc(users.createdAt));
+  }
+
+  /**
+   * Obtiene clientes con conteos de documentos y casos
+   * 
+   * Realiza consultas adicionales para agregar métricas
+   * a cada cliente
+   * 
+   * @param preparerId - Si se indica, limita a clientes con casos asignados a ese preparador
+   * @returns Clientes con documentsCount y casesCount
+   */
+  async getClientsWithDetails(preparerId?: number): Promise<(User & { documentsCount: number; casesCount: number })[]> {
+    let clients = await this.getAllClients();
+    if (preparerId !== undefined) {
+      const assigned = await db
+        .selectDistinct({ clientId: taxCases.clientId })
+        .from(taxCases)
+        .where(eq(taxCases.assignedPreparerId, preparerId));
+      const assignedIds = new Set(assigned.map((row) => row.clientId));
+      clients = clients.filter((client) => assignedIds.has(client.id));
+    }
+    const clientsWithDetails = await Promise.all(
+      clients.map(async (client) => {
+        // Contar documentos del cliente
+        const clientDocs = await db
+          .select({ count: count() })
+          .from(documents)
+          .where(and(eq(documents.clientId, client.id), isNull(documents.deletedAt)));
+        
+        // Contar casos del cliente
+        const clientCases = await db
+          .select({ count: count() })
+          .from(taxCases)
+          .where(eq(taxCases.clientId, client.id));
+        
+        return {
+          ...client,
+          documentsCount: clientDocs[0]?.count || 0,
+          casesCount: clientCases[0]?.count || 0,
+        };
+      })
+    );
+    return clientsWithDetails;
+  }
+
+  // ===========================================================================
+  // OPERACIONES DE AUTENTICACIÓN OAUTH
+  // ===========================================================================
+
+  /**
+   * Busca una identidad OAuth vinculada
+   * 
+   * @param provider - Proveedor OAuth (google, github, apple)
+   * @param providerUserId - ID del usuario en el proveedor
+   * @returns Identidad vinculada o undefined
+   */
+  async getAuthIdentityByProvider(provider: string, providerUserId: string): Promise<AuthIdentity | undefined> {
+    const [identity] = await db
+      .select()
+      .from(authIdentities)
+      .where(and(
+        eq(authIdentities.provider, provider as "google" | "github" | "apple" | "replit"),
+        eq(authIdentities.providerUserId, providerUserId)
+      ));
+    return identity || undefined;
+  }
+
+  /**
+   * Crea una nueva identidad OAuth
+   * 
+   * @param identity - Datos de la identidad a vincular
+   * @returns Identidad creada
+   */
+  async createAuthIdentity(identity: InsertAuthIdentity): Promise<AuthIdentity> {
+    const [newIdentity] = await db
+      .insert(authIdentities)
+      .values(identity)
+      .returning();
+    return newIdentity;
+  }
+
+  // ===========================================================================
+  // OPERACIONES DE CASOS TRIBUTARIOS
+  // ===========================================================================
+
+  /**
+   * Obtiene casos tributarios de un cliente
+   * 
+   * @param clientId - ID del cliente
+   * @returns Casos ordenados por fecha de creación descendente
+   */
+  async getTaxCasesByClient(clientId: number): Promise<TaxCase[]> {
+    return db
+      .select()
+      .from(taxCases)
+      .where(eq(taxCases.clientId, clientId))
+      .orderBy(desc(taxCases.createdAt));
+  }
+
+  /**
+   * Obtiene un caso tributario por ID
+   * 
+   * @param id - ID del caso
+   * @returns Caso encontrado o undefined
+   */
+  async getTaxCase(id: number): Promise<TaxCase | undefined> {
+    const [taxCase] = await db.select().from(taxCases).where(eq(taxCases.id, id));
+    return taxCase || undefined;
+  }
+
+  /**
+   * Obtiene todos los casos con información del cliente
+   * 
+   * Adjunta objeto User a cada caso para display en admin
+   * 
+   * @param filters - Filtros opcionales (preparador asignado, tipo de caso)
+   * @returns Casos con cliente incluido
+   */
+  async getAllTaxCases(filters: TaxCaseFilters = {}): Promise<(TaxCase & { client?: User })[]> {
+    const conditions = [];
+    if (filters.assignedPreparerId !== undefined) {
+      conditions.push(eq(taxCases.assignedPreparerId, filters.assignedPreparerId));
+    }
+    if (filters.caseType !== undefined) {
+      conditions.push(eq(taxCases.caseType, filters.caseType));
+    }
+    const cases = await db
+      .select()
+      .from(taxCases)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(taxCases.createdAt));
+    const casesWithClients = await Promise.all(
+      cases.map(async (taxCase) => {
+        const client = await this.getUser(taxCase.clientId);
+        return { ...taxCase, client };
+      })
+    );
+    return casesWithClients;
+  }
+
+  /**
+   * Crea un nuevo caso tributario
+   * 
+   * @param taxCase - Datos del caso
+   * @returns Caso creado
+   */
+  async createTaxCase(taxCase: InsertTaxCase): Promise<TaxCase> {
+    const [newCase] = await db
+      .insert(taxCases)
+      .values(taxCase)
+      .returning();
+    return newCase;
+  }
+
+  /**
+   * Crea un caso a partir del cuestionario de admisión
+   * 
+   * Reutiliza los dependientes ya registrados del cliente (mismo nombre
+   * y fecha de nacimiento), crea los nuevos y los vincula al caso, todo
+   * en una transacción: si algo falla no queda un caso sin dependientes
+   * que bloquee el reintento para ese año.
+   * 
+   * @param taxCase - Datos del caso
+   * @param intakeDependents - Dependientes declarados en el cuestionario
+   * @returns Caso creado
+   */
+  async createTaxCaseFromIntake(
+    taxCase: typeof taxCases.$inferInsert,
+    intakeDependents: Pick<InsertDependent, "name" | "dateOfBirth" | "relationship">[]
+  ): Promise<TaxCase> {
+    return db.transaction(async (tx) => {
+      const [newCase] = await tx
+        .insert(taxCases)
+        .values(taxCase)
+        .returning();
+
+      const known = await tx
+        .select()
+        .from(dependents)
+        .where(eq(dependents.clientId, newCase.clientId));
+
+      const dependentIds = new Set<number>();
+      for (const answer of intakeDependents) {
+        const name = answer.name.trim();
+        let dependent = known.find((d) =>
+          d.dateOfBirth === answer.dateOfBirth &&
+          d.name.trim().toLowerCase() === name.toLowerCase()
+        );
+        if (!dependent) {
+          [dependent] = await tx
+            .insert(dependents)
+            .values({ clientId: newCase.clientId, name, dateOfBirth: answer.dateOfBirth, relationship: answer.relationship })
+            .returning();
+          known.push(dependent);
+        }
+        dependentIds.add(dependent.id);
+      }
+
+      if (dependentIds.size === 0) {
+        return newCase;
+      }
+      await tx
+        .insert(caseDependents)
+        .values(Array.from(dependentIds, (dependentId) => ({ caseId: newCase.id, dependentId })));
+      const [updatedCase] = await tx
+        .update(taxCases)
+        .set({ dependents: dependentIds.size })
+        .where(eq(taxCases.id, newCase.id))
+        .returning();
+      return updatedCase;
+    });
+  }
+
+  /**
+   * Actualiza un caso tributario
+   * 
+   * Automáticamente actualiza updatedAt. Si se cambia el estado,
+   * valida la transición contra la máquina de estados de casos y
+   * registra el cambio en case_status_history dentro de la misma
+   * transacción. El envío al IRS exige un Form 8879 firmado después del
+   * inicio de la ronda de presentación actual (ver startsNewFilingRound).
+   * 
+   * @param id - ID del caso
+   * @param data - Campos a actualizar
+   * @param changedById - Usuario que realiza el cambio (para el historial de estados)
+   * @returns Caso actualizado o undefined
+   * @throws CaseStatusTransitionError si el cambio de estado no está permitido
+   * @throws FilingAuthorizationRequiredError si se envía al IRS sin Form 8879 firmado
+   */
+  async updateTaxCase(id: number, data: Partial<InsertTaxCase>, changedById?: number): Promise<TaxCase | undefined> {
+    const changes = data as Partial<TaxCase>;
+    const nextStatus = changes.status;
+
+    return db.transaction(async (tx) => {
+      let previousStatus: TaxCase["status"] | undefined;
+      if (nextStatus) {
+        // Bloquear la fila para que dos cambios simultáneos no salten la validación
+        const [current] = await tx
+          .select()
+          .from(taxCases)
+          .where(eq(taxCases.id, id))
+          .for("update");
+        if (!current) {
+          return undefined;
+        }
+        if (!canTransitionCaseStatus(current.status, nextStatus)) {
+          throw new CaseStatusTransitionError(current.status, nextStatus);
+        }
+        if (nextStatus === "sent_to_irs" && current.status !== "sent_to_irs") {
+          const history = await tx
+            .select()
+            .from(caseStatusHistory)
+            .where(eq(caseStatusHistory.caseId, id))
+            .orderBy(desc(caseStatusHistory.createdAt));
+          const roundStart = history.find((change) => startsNewFilingRound(change.fromStatus, change.toStatus));
+
+          const [authorization] = await tx
+            .select({ id: signatureRequests.id })
+            .from(signatureRequests)
+            .where(and(
+              eq(signatureRequests.caseId, id),
+              eq(signatureRequests.kind, "form_8879"),
+              eq(signatureRequests.status, "signed"),
+              roundStart ? gt(signatureRequests.signedAt, roundStart.createdAt) : undefined
+            ))
+            .limit(1);
+          if (!authorization) {
+            throw new FilingAuthorizationRequiredError();
+          }
+        }
+        previousStatus = current.status;
+      }
+
+      const [updatedCase] = await tx
+        .update(taxCases)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(taxCases.id, id))
+        .returning();
+
+      if (updatedCase && previousStatus && nextStatus && previousStatus !== nextStatus) {
+        await tx.insert(caseStatusHistory).values({
+          caseId: id,
+          fromStatus: previousStatus,
+          toStatus: nextStatus,
+          changedById: changedById ?? null,
+          notes: changes.notes ?? null,
+        });
+      }
+
+      return updatedCase || undefined;
+    });
+  }
+
+  /**
+   * Obtiene el historial de estados de un caso
+   * 
+   * @param caseId - ID del caso
+   * @returns Cambios de estado ordenados del más antiguo al más reciente
+   */
+  async getCaseStatusHistory(caseId: number): Promise<CaseStatusHistory[]> {
+    return db
+      .select()
+      .from(caseStatusHistory)
+      .where(eq(caseStatusHistory.caseId, caseId))
+      .orderBy(caseStatusHistory.createdAt);
+  }
+
+  /**
+   * Asigna un preparador a un caso tributario
+   * 
+   * Se usa tanto para la asignación inicial como para reasignar
+   * o dejar el caso sin preparador (preparerId = null)
+   * 
+   * @param id - ID del caso
+   * @param preparerId - ID del preparador o null
+   * @returns Caso actualizado o undefined
+   */
+  async assignTaxCase(id: number, preparerId: number | null): Promise<TaxCase | undefined> {
+    const [updatedCase] = await db
+      .update(taxCases)
+      .set({ assignedPreparerId: preparerId, updatedAt: new Date() })
+      .where(eq(taxCases.id, id))
+      .returning();
+    return updatedCase || undefined;
+  }
+
+  /**
+   * Verifica si un cliente pertenece a la cartera de un preparador
+   * 
+   * @param clientId - ID del cliente
+   * @param preparerId - ID del preparador
+   * @returns true si existe al menos un caso del cliente asignado al preparador
+   */
+  async isClientAssignedToPreparer(clientId: number, preparerId: number): Promise<boolean> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(taxCases)
+      .where(and(
+        eq(taxCases.clientId, clientId),
+        eq(taxCases.assignedPreparerId, preparerId)
+      ));
+    return (result?.count || 0) > 0;
+  }
+
+  // ===========================================================================
+  // OPERACIONES DE DEPENDIENTES
+  // ===========================================================================
+
+  /**
+   * Obtiene los dependientes de un cliente
+   * 
+   * @param clientId - ID del cliente
+   * @returns Dependientes ordenados por fecha de nacimiento
+   */
+  async getDependentsByClient(clientId: number): Promise<Dependent[]> {
+    return db
+      .select()
+      .from(dependents)
+      .where(eq(dependents.clientId, clientId))
+      .orderBy(dependents.dateOfBirth);
+  }
+
+  /**
+   * Obtiene un dependiente por ID
+   * 
+   * @param id - ID del dependiente
+   * @returns Dependiente o undefined
+   */
+  async getDependent(id: number): Promise<Dependent | undefined> {
+    const [dependent] = await db.select().from(dependents).where(eq(dependents.id, id));
+    return dependent || undefined;
+  }
+
+  /**
+   * Crea un dependiente
+   * 
+   * @param dependent - Datos del dependiente (SSN ya cifrado)
+   * @returns Dependiente creado
+   */
+  async createDependent(dependent: InsertDependent): Promise<Dependent> {
+    const [newDependent] = await db
+      .insert(dependents)
+      .values(dependent)
+      .returning();
+    return newDependent;
+  }
+
+  /**
+   * Actualiza un dependiente
+   * 
+   * Automáticamente actualiza updatedAt
+   * 
+   * @param id - ID del dependiente
+   * @param data - Campos a actualizar
+   * @returns Dependiente actualizado o undefined
+   */
+  async updateDependent(id: number, data: Partial<InsertDependent>): Promise<Dependent | undefined> {
+    const [updated] = await db
+      .update(dependents)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(dependents.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  /**
+   * Elimina un dependiente
+   * 
+   * Los vínculos con casos se eliminan en cascada y el contador
+   * de dependientes de esos casos se recalcula.
+   * 
+   * @param id - ID del dependiente
+   * @returns true si se eliminó
+   */
+  async deleteDependent(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const links = await tx
+        .select({ caseId: caseDependents.caseId })
+        .from(caseDependents)
+        .where(eq(caseDependents.dependentId, id));
+
+      const deleted = await tx.delete(dependents).where(eq(dependents.id, id)).returning();
+
+      for (const { caseId } of links) {
+        await tx
+          .update(taxCases)
+          .set({
+            dependents: sql`(SELECT count(*) FROM ${caseDependents} WHERE ${caseDependents.caseId} = ${caseId})`,
+            updatedAt: new Date(),
+          })
+          .where(eq(taxCases.id, caseId));
+      }
+
+      return deleted.length > 0;
+    });
+  }
+
+  /**
+   * Obtiene los dependientes declarados en un caso
+   * 
+   * @param caseId - ID del caso
+   * @returns Dependientes vinculados, ordenados por fecha de nacimiento
+   */
+  async getCaseDependents(caseId: number): Promise<Dependent[]> {
+    const rows = await db
+      .select({ dependent: dependents })
+      .from(caseDependents)
+      .innerJoin(dependents, eq(caseDependents.dependentId, dependents.id))
+      .where(eq(caseDependents.caseId, caseId))
+      .orderBy(dependents.dateOfBirth);
+    return rows.map((row) => row.dependent);
+  }
+
+  /**
+   * Reemplaza los dependientes declarados en un caso
+   * 
+   * Ignora IDs que no pertenezcan al cliente del caso y mantiene
+   * sincronizado el contador taxCases.dependents.
+   * 
+   * @param caseId - ID del caso
+   * @param dependentIds - IDs de dependientes del mismo cliente
+   * @returns Dependientes vinculados tras el cambio
+   */
+  async setCaseDependents(caseId: number, dependentIds: number[]): Promise<Dependent[]> {
+    await db.transaction(async (tx) => {
+      const [taxCase] = await tx.select().from(taxCases).where(eq(taxCases.id, caseId));
+      if (!taxCase) {
+        return;
+      }
+
+      const owned = dependentIds.length > 0
+        ? await tx
+            .select({ id: dependents.id })
+            .from(dependents)
+            .where(and(eq(dependents.clientId, taxCase.clientId), inArray(dependents.id, dependentIds)))
+        : [];
+
+      await tx.delete(caseDependents).where(eq(caseDependents.caseId, caseId));
+      if (owned.length > 0) {
+        await tx.insert(caseDependents).values(owned.map(({ id }) => ({ caseId, dependentId: id })));
+      }
+      await tx
+        .update(taxCases)
+        .set({ dependents: owned.length, updatedAt: new Date() })
+        .where(eq(taxCases.id, caseId));
+    });
+
+    return this.getCaseDependents(caseId);
+  }
+
+  /**
+   * Copia al caso los dependientes del caso anterior del cliente
+   * 
+   * Busca el caso del mismo cliente con el año fiscal anterior más
+   * reciente que tenga dependientes vinculados y los vincula al caso
+   * nuevo. No hace nada si el caso ya tiene dependientes.
+   * 
+   * @param caseId - ID del caso recién creado
+   * @returns Dependientes vinculados (vacío si no había caso anterior)
+   */
+  async carryForwardDependents(caseId: number): Promise<Dependent[]> {
+    const taxCase = await this.getTaxCase(caseId);
+    if (!taxCase) {
+      return [];
+    }
+
+    const current = await this.getCaseDependents(caseId);
+    if (current.length > 0) {
+      return current;
+    }
+
+    const [previous] = await db
+      .select({ caseId: caseDependents.caseId })
+      .from(caseDependents)
+      .innerJoin(taxCases, eq(caseDependents.caseId, taxCases.id))
+      .where(and(
+        eq(taxCases.clientId, taxCase.clientId),
+        lt(taxCases.filingYear, taxCase.filingYear)
+      ))
+      .orderBy(desc(taxCases.filingYear), desc(taxCases.createdAt))
+      .limit(1);
+    if (!previous) {
+      return [];
+    }
+
+    const previousDependents = await this.getCaseDependents(previous.caseId);
+    return this.setCaseDependents(caseId, previousDependents.map((d) => d.id));
+  }
+
+  // ===========================================================================
+  // OPERACIONES DE DOCUMENTOS
+  // ===========================================================================
+
+  /**
+   * Obtiene documentos asociados a un caso
+   * 
+   * @param caseId - ID del caso
+   * @returns Documentos ordenados por fecha de subida
+   */
+  async getDocumentsByCase(caseId: number): Promise<Document[]> {
+    return db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.caseId, caseId), isNull(documents.deletedAt)))
+      .orderBy(desc(documents.createdAt));
+  }
+
+  /**
+   * Obtiene todos los documentos de un cliente
+   * 
+   * @param clientId - ID del cliente
+   * @returns Documentos ordenados por fecha de subida
+   */
+  async getDocumentsByClient(clientId: number): Promise<Document[]> {
+    return db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.clientId, clientId), isNull(documents.deletedAt)))
+      .orderBy(desc(documents.createdAt));
+  }
+
+  /**
+   * Obtiene documentos directamente subidos por el cliente
+   * 
+   * @param clientId - ID del cliente
+   * @returns Documentos del cliente
+   */
+  async getDocumentsByClientDirect(clientId: number): Promise<Document[]> {
+    return db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.clientId, clientId), isNull(documents.deletedAt)))
+      .orderBy(desc(documents.createdAt));
+  }
+
+  /**
+   * Obtiene todos los documentos del sistema
+   * 
+   * Para uso en panel de administración
+   * 
+   * @param preparerId - Limitar a los clientes de la cartera de este preparador
+   * @returns Todos los documentos ordenados por fecha
+   */
+  async getAllDocuments(preparerId?: number): Promise<Document[]> {
+    return db
+      .select()
+      .from(documents)
+      .where(and(
+        isNull(documents.deletedAt),
+        preparerId !== undefined ? inArray(documents.clientId, preparerClientIds(preparerId)) : undefined
+      ))
+      .orderBy(desc(documents.createdAt));
+  }
+
+  /**
+   * Obtiene un documento específico por ID
+   * 
+   * Los documentos eliminados no se devuelven
+   * 
+   * @param id - ID del documento
+   * @returns Documento o undefined
+   */
+  async getDocument(id: number): Promise<Document | undefined> {
+    const [doc] = await db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.id, id), isNull(documents.deletedAt)));
+    return doc || undefined;
+  }
+
+  /**
+   * Elimina un documento de forma reversible (soft delete)
+   * 
+   * Si el documento cumplía una solicitud, la solicitud vuelve a
+   * quedar abierta.
+   * 
+   * @param id - ID del documento
+   * @param deletedById - Usuario que lo elimina
+   * @returns Documento eliminado o undefined si no existía o ya estaba eliminado
+   */
+  async softDeleteDocument(id: number, deletedById: number): Promise<Document | undefined> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .update(documents)
+        .set({ deletedAt: new Date(), deletedById })
+        .where(and(eq(documents.id, id), isNull(documents.deletedAt)))
+        .returning();
+      if (!deleted) return undefined;
+
+      await tx
+        .update(documentRequests)
+        .set({ status: "open", fulfilledDocumentId: null, fulfilledAt: null, updatedAt: new Date() })
+        .where(and(eq(documentRequests.fulfilledDocumentId, id), eq(documentRequests.status, "fulfilled")));
+
+      return deleted;
+    });
+  }
+
+  /**
+   * Obtiene un documento eliminado que aún no se ha purgado
+   * 
+   * @param id - ID del documento
+   * @returns Documento o undefined si no existe o no está eliminado
+   */
+  async getDeletedDocument(id: number): Promise<Document | undefined> {
+    const [doc] = await db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.id, id), isNotNull(documents.deletedAt)));
+    return doc || undefined;
+  }
+
+  /**
+   * Restaura un documento eliminado que aún no se ha purgado
+   * 
+   * @param id - ID del documento
+   * @returns Documento restaurado o undefined si no estaba eliminado
+   */
+  async restoreDocument(id: number): Promise<Document | undefined> {
+    const [restored] = await db
+      .update(documents)
+      .set({ deletedAt: null, deletedById: null })
+      .where(and(eq(documents.id, id), isNotNull(documents.deletedAt)))
+      .returning();
+    return restored || undefined;
+  }
+
+  /**
+   * Obtiene los documentos eliminados de un cliente (aún no purgados)
+   * 
+   * @param clientId - ID del cliente
+   * @returns Documentos eliminados, del más reciente al más antiguo
+   */
+  async getDeletedDocumentsByClient(clientId: number): Promise<Document[]> {
+    return db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.clientId, clientId), isNotNull(documents.deletedAt)))
+      .orderBy(desc(documents.deletedAt));
+  }
+
+  /**
+   * Obtiene los documentos eliminados cuyo periodo de retención venció
+   * 
+   * @param deletedBefore - Documentos eliminados antes de esta fecha
+   * @returns Documentos a purgar
+   */
+  async getDocumentsPendingPurge(deletedBefore: Date): Promise<Document[]> {
+    return db
+      .select()
+      .from(documents)
+      .where(lt(documents.deletedAt, deletedBefore))
+      .orderBy(documents.deletedAt);
+  }
+
+  /**
+   * Borra definitivamente un documento eliminado y sus versiones
+   * 
+   * Solo actúa sobre documentos con soft delete. Los archivos en R2
+   * deben borrarse antes de llamar a este método.
+   * 
+   * @param id - ID del documento
+   * @returns true si se borró
+   */
+  async purgeDocument(id: number): Promise<boolean> {
+    const purged = await db
+      .delete(documents)
+      .where(and(eq(documents.id, id), isNotNull(documents.deletedAt)))
+      .returning({ id: documents.id });
+    return purged.length > 0;
+  }
+
+  /**
+   * Crea un nuevo registro de documento
+   * 
+   * @param document - Metadatos del documento
+   * @returns Documento creado
+   */
+  async createDocument(document: InsertDocument): Promise<Document> {
+    return db.transaction(async (tx) => {
+      const [newDoc] = await tx
+        .insert(documents)
+        .values(document)
+        .returning();
+
+      await tx.insert(documentVersions).values(toVersionRow(newDoc, newDoc.currentVersion));
+      return newDoc;
+    });
+  }
+
+  /**
+   * Obtiene las versiones de un documento
+   * 
+   * @param documentId - ID del documento
+   * @returns Versiones de la más reciente a la más antigua
+   */
+  async getDocumentVersions(documentId: number): Promise<DocumentVersion[]> {
+    return db
+      .select()
+      .from(documentVersions)
+      .where(eq(documentVersions.documentId, documentId))
+      .orderBy(desc(documentVersions.version));
+  }
+
+  /**
+   * Obtiene una versión concreta de un documento
+   * 
+   * @param documentId - ID del documento
+   * @param version - Número de versión
+   * @returns Versión o undefined
+   */
+  async getDocumentVersion(documentId: number, version: number): Promise<DocumentVersion | undefined> {
+    const [row] = await db
+      .select()
+      .from(documentVersions)
+      .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.version, version)));
+    return row || undefined;
+  }
+
+  /**
+   * Reemplaza el archivo de un documento agregando una nueva versión
+   * 
+   * Bloquea la fila del documento para que dos reemplazos simultáneos
+   * no obtengan el mismo número de versión. Si la versión vigente no
+   * tiene fila (documentos anteriores al versionado), se crea antes.
+   * El archivo nuevo vuelve a quedar pendiente de revisión.
+   * 
+   * @param documentId - ID del documento
+   * @param file - Archivo de la nueva versión
+   * @returns Documento actualizado o undefined si no existe
+   */
+  async replaceDocumentFile(documentId: number, file: DocumentFile): Promise<Document | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(documents)
+        .where(and(eq(documents.id, documentId), isNull(documents.deletedAt)))
+        .for("update");
+      if (!current) return undefined;
+
+      const [existing] = await tx
+        .select({ id: documentVersions.id })
+        .from(documentVersions)
+        .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.version, current.currentVersion)));
+      if (!existing) {
+        await tx.insert(documentVersions).values(toVersionRow(current, current.currentVersion));
+      }
+
+      const nextVersion = current.currentVersion + 1;
+      await tx.insert(documentVersions).values({ documentId, version: nextVersion, ...file });
+
+      const [updated] = await tx
+        .update(documents)
+        .set({
+          ...file,
+          currentVersion: nextVersion,
+          reviewStatus: "received",
+          rejectionReason: null,
+          reviewedById: null,
+          reviewedAt: null,
+        })
+        .where(eq(documents.id, documentId))
+        .returning();
+      return updated;
+    });
+  }
+
+  /**
+   * Registra la revisión de un documento
+   * 
+   * @param id - ID del documento
+   * @param review - Estado, motivo de rechazo y revisor
+   * @returns Documento actualizado o undefined si no existe o está eliminado
+   */
+  async reviewDocument(id: number, review: DocumentReview): Promise<Document | undefined> {
+    const [updated] = await db
+      .update(documents)
+      .set({ ...review, reviewedAt: new Date() })
+      .where(and(eq(documents.id, id), isNull(documents.deletedAt)))
+      .returning();
+    return updated || undefined;
+  }
 
-/**
- * Implementación de IStorage usando PostgreSQL y Drizzle ORM
- * 
- * Esta clase proporciona todas las operaciones CRUD para el sistema
- * usando consultas optimizadas y transacciones donde sea necesario.
- * 
- * @class DatabaseStorage
- * @implements {IStorage}
- */
-export class DatabaseStorage implements IStorage {
-  
   // ===========================================================================
-  // OPERACIONES DE USUARIOS
+  // OPERACIONES DE EXTRACCIONES OCR
   // ===========================================================================
 
   /**
-   * Obtiene un usuario por ID
+   * Obtiene la extracción OCR de un documento
    * 
-   * @param id - ID único del usuario
-   * @returns Usuario encontrado o undefined
+   * @param documentId - ID del documento
+   * @returns Extracción o undefined
    */
-  async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user || undefined;
+  async getDocumentExtraction(documentId: number): Promise<DocumentExtraction | undefined> {
+    const [extraction] = await db
+      .select()
+      .from(documentExtractions)
+      .where(eq(documentExtractions.documentId, documentId));
+    return extraction || undefined;
   }
 
   /**
-   * Busca usuario por email (case-insensitive)
+   * Pone en cola la extracción de un documento
    * 
-   * El email se guarda normalizado a minúsculas
+   * Si ya existía (archivo reemplazado), se descartan los campos
+   * anteriores y la revisión: corresponden al archivo viejo.
    * 
-   * @param email - Email a buscar
-   * @returns Usuario encontrado o undefined
+   * @param documentId - ID del documento
+   * @param formType - Tipo de formulario
+   * @returns Extracción en estado 'pending'
+   */
+  async queueDocumentExtraction(documentId: number, formType: ExtractionFormType): Promise<DocumentExtraction> {
+    const reset = {
+      formType,
+      status: "pending" as const,
+      fields: {},
+      confidence: null,
+      attempts: 0,
+      error: null,
+      reviewedById: null,
+      reviewedAt: null,
+      updatedAt: new Date(),
+    };
+    const [extraction] = await db
+      .insert(documentExtractions)
+      .values({ documentId, ...reset })
+      .onConflictDoUpdate({ target: documentExtractions.documentId, set: reset })
+      .returning();
+    return extraction;
+  }
+
+  /**
+   * Toma extracciones pendientes para procesarlas
+   * 
+   * Usa SKIP LOCKED para que dos procesos no tomen la misma
+   * extracción. Las que quedaron en 'processing' por un proceso
+   * caído se vuelven a tomar pasado staleBefore.
+   * 
+   * @param limit - Máximo de extracciones a tomar
+   * @param staleBefore - Reintenta las 'processing' sin actualizar desde esta fecha
+   * @returns Extracciones marcadas como 'processing'
+   */
+  async claimDocumentExtractions(limit: number, staleBefore: Date): Promise<DocumentExtraction[]> {
+    return db.transaction(async (tx) => {
+      const rows = await tx
+        .select({ id: documentExtractions.id })
+        .from(documentExtractions)
+        .where(
+          or(
+            eq(documentExtractions.status, "pending"),
+            and(eq(documentExtractions.status, "processing"), lt(documentExtractions.updatedAt, staleBefore))
+          )
+        )
+        .orderBy(documentExtractions.createdAt)
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (rows.length === 0) return [];
+
+      return tx
+        .update(documentExtractions)
+        .set({
+          status: "processing",
+          attempts: sql`${documentExtractions.attempts} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(inArray(documentExtractions.id, rows.map((row) => row.id)))
+        .returning();
+    });
+  }
+
+  /**
+   * Guarda el resultado del OCR
+   * 
+   * @param id - ID de la extracción
+   * @param result - Estado, campos, confianza y error
+   * @returns Extracción actualizada o undefined
    */
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email.toLowerCase()));
-    return user || undefined;
+  async saveDocumentExtractionResult(id: number, result: DocumentExtractionResult): Promise<DocumentExtraction | undefined> {
+    const [updated] = await db
+      .update(documentExtractions)
+      .set({ ...result, updatedAt: new Date() })
+      .where(eq(documentExtractions.id, id))
+      .returning();
+    return updated || undefined;
   }
 
   /**
-   * Crea un nuevo usuario
+   * Guarda los campos revisados por el preparador
    * 
-   * @param insertUser - Datos del usuario a insertar
-   * @returns Usuario creado con todos los campos generados
+   * @param documentId - ID del documento
+   * @param fields - Campos corregidos
+   * @param reviewedById - Preparador que revisó
+   * @returns Extracción actualizada o undefined si el documento no tiene
    */
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
-      .insert(users)
-      .values(insertUser)
+  async reviewDocumentExtraction(documentId: number, fields: ExtractedFields, reviewedById: number): Promise<DocumentExtraction | undefined> {
+    const [updated] = await db
+      .update(documentExtractions)
+      .set({ fields, status: "reviewed", error: null, reviewedById, reviewedAt: new Date(), updatedAt: new Date() })
+      .where(eq(documentExtractions.documentId, documentId))
       .returning();
-    return user;
+    return updated || undefined;
   }
 
+  // ===========================================================================
+  // OPERACIONES DE SUBIDAS EN CUARENTENA
+  // ===========================================================================
+
   /**
-   * Actualiza un usuario existente
+   * Registra una subida retenida por la verificación de archivos
    * 
-   * Automáticamente actualiza el campo updatedAt
+   * @param upload - Datos del archivo y motivo
+   * @returns Subida registrada
+   */
+  async createQuarantinedUpload(upload: NewQuarantinedUpload): Promise<QuarantinedUpload> {
+    const [created] = await db.insert(quarantinedUploads).values(upload).returning();
+    return created;
+  }
+
+  /**
+   * Obtiene todas las subidas en cuarentena
    * 
-   * @param id - ID del usuario
-   * @param data - Campos a actualizar
-   * @returns Usuario actualizado o undefined si no existe
+   * @returns Subidas ordenadas por fecha descendente
    */
-  async updateUser(id: number, data: Partial<InsertUser>): Promise<User | undefined> {
-    const [user] = await db
-      .update(users)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(users.id, id))
+  async getQuarantinedUploads(): Promise<QuarantinedUpload[]> {
+    return db.select().from(quarantinedUploads).orderBy(desc(quarantinedUploads.createdAt));
+  }
+
+  /**
+   * Obtiene una subida en cuarentena
+   * 
+   * @param id - ID de la subida
+   * @returns Subida o undefined si no existe
+   */
+  async getQuarantinedUpload(id: number): Promise<QuarantinedUpload | undefined> {
+    const [upload] = await db.select().from(quarantinedUploads).where(eq(quarantinedUploads.id, id));
+    return upload || undefined;
+  }
+
+  /**
+   * Elimina el registro de una subida en cuarentena
+   * 
+   * El archivo en R2 debe eliminarse antes desde la ruta.
+   * 
+   * @param id - ID de la subida
+   * @returns true si se eliminó
+   */
+  async deleteQuarantinedUpload(id: number): Promise<boolean> {
+    const deleted = await db.delete(quarantinedUploads).where(eq(quarantinedUploads.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // ===========================================================================
+  // OPERACIONES DE CLAVES DE CIFRADO DE CLIENTES
+  // ===========================================================================
+
+  /**
+   * Obtiene la clave envuelta de un cliente
+   * 
+   * @param clientId - ID del cliente
+   * @returns Clave o undefined si el cliente aún no tiene
+   */
+  async getClientEncryptionKey(clientId: number): Promise<ClientEncryptionKey | undefined> {
+    const [key] = await db.select().from(clientEncryptionKeys).where(eq(clientEncryptionKeys.clientId, clientId));
+    return key || undefined;
+  }
+
+  /**
+   * Guarda la clave envuelta de un cliente
+   * 
+   * Si dos subidas simultáneas crean la clave del mismo cliente, gana la
+   * primera y ambas usan esa.
+   * 
+   * @param clientId - ID del cliente
+   * @param wrappedKey - Clave cifrada con la clave maestra
+   * @param masterKeyId - Clave maestra usada
+   * @returns Clave guardada o la existente
+   */
+  async createClientEncryptionKey(clientId: number, wrappedKey: string, masterKeyId: string): Promise<ClientEncryptionKey> {
+    const [created] = await db
+      .insert(clientEncryptionKeys)
+      .values({ clientId, wrappedKey, masterKeyId })
+      .onConflictDoNothing({ target: clientEncryptionKeys.clientId })
       .returning();
-    return user || undefined;
+    if (created) return created;
+
+    const existing = await this.getClientEncryptionKey(clientId);
+    if (!existing) {
+      throw new Error(`No se pudo crear la clave de cifrado del cliente ${clientId}`);
+    }
+    return existing;
   }
 
   /**
-   * Obtiene todos los clientes (rol = 'client')
+   * Obtiene las claves de cliente envueltas con otra clave maestra
    * 
-   * @returns Lista de clientes ordenados por fecha de creación descendente
+   * @param masterKeyId - Clave maestra vigente
+   * @returns Claves a volver a envolver
    */
-  async getAllClients(): Promise<User[]> {
-    return db.select().from(users).where(eq(users.role, "client")).orderBy(desc(users.createdAt));
+  async getClientEncryptionKeysToRotate(masterKeyId: string): Promise<ClientEncryptionKey[]> {
+    return db
+      .select()
+      .from(clientEncryptionKeys)
+      .where(ne(clientEncryptionKeys.masterKeyId, masterKeyId));
   }
 
   /**
-   * Obtiene clientes con conteos de documentos y casos
+   * Sustituye la envoltura de una clave de cliente
    * 
-   * Realiza consultas adicionales para agregar métricas
-   * a cada cliente
+   * Solo actualiza si la clave sigue envuelta con previousMasterKeyId,
+   * para que dos rotaciones simultáneas no se pisen.
    * 
-   * @returns Clientes con documentsCount y casesCount
+   * @param id - ID de la clave
+   * @param previousMasterKeyId - Clave maestra con la que estaba envuelta
+   * @param wrappedKey - Clave cifrada con la nueva clave maestra
+   * @param masterKeyId - Nueva clave maestra
+   * @returns true si se actualizó
+   */
+  async rewrapClientEncryptionKey(id: number, previousMasterKeyId: string, wrappedKey: string, masterKeyId: string): Promise<boolean> {
+    const updated = await db
+      .update(clientEncryptionKeys)
+      .set({ wrappedKey, masterKeyId, rotatedAt: new Date() })
+      .where(and(eq(clientEncryptionKeys.id, id), eq(clientEncryptionKeys.masterKeyId, previousMasterKeyId)))
+      .returning({ id: clientEncryptionKeys.id });
+    return updated.length > 0;
+  }
+
+  // ===========================================================================
+  // OPERACIONES DE SUBIDAS DIRECTAS PENDIENTES
+  // ===========================================================================
+
+  /**
+   * Registra una subida directa a R2 antes de que el navegador la haga
+   * 
+   * @param upload - Datos declarados y key de destino
+   * @returns Subida pendiente creada
    */
-  async getClientsWithDetails(): Promise<(User & { documentsCount: number; casesCount: number })[]> {
-    const clients = await this.getAllClients();
-    const clientsWithDetails = await Promise.all(
-      clients.map(async (client) => {
-        // Contar documentos del cliente
-        const clientDocs = await db
-          .select({ count: count() })
-          .from(documents)
-          .where(eq(documents.clientId, client.id));
-        
-        // Contar casos del cliente
-        const clientCases = await db
-          .select({ count: count() })
-          .from(taxCases)
-          .where(eq(taxCases.clientId, client.id));
-        
-        return {
-          ...client,
-          documentsCount: clientDocs[0]?.count || 0,
-          casesCount: clientCases[0]?.count || 0,
-        };
-      })
-    );
-    return clientsWithDetails;
+  async createPendingUpload(upload: NewPendingUpload): Promise<PendingUpload> {
+    const [created] = await db.insert(pendingUploads).values(upload).returning();
+    return created;
+  }
+
+  /**
+   * Obtiene una subida pendiente
+   * 
+   * @param id - ID de la subida
+   * @returns Subida o undefined si no existe
+   */
+  async getPendingUpload(id: number): Promise<PendingUpload | undefined> {
+    const [upload] = await db.select().from(pendingUploads).where(eq(pendingUploads.id, id));
+    return upload || undefined;
   }
 
-  // ===========================================================================
-  // OPERACIONES DE AUTENTICACIÓN OAUTH
-  // ===========================================================================
-
   /**
-   * Busca una identidad OAuth vinculada
+   * Elimina una subida pendiente y la devuelve
    * 
-   * @param provider - Proveedor OAuth (google, github, apple)
-   * @param providerUserId - ID del usuario en el proveedor
-   * @returns Identidad vinculada o undefined
+   * El DELETE ... RETURNING garantiza que dos peticiones simultáneas
+   * no completen la misma subida.
+   * 
+   * @param id - ID de la subida
+   * @returns Subida eliminada o undefined si ya no existía
    */
-  async getAuthIdentityByProvider(provider: string, providerUserId: string): Promise<AuthIdentity | undefined> {
-    const [identity] = await db
-      .select()
-      .from(authIdentities)
-      .where(and(
-        eq(authIdentities.provider, provider as "google" | "github" | "apple" | "replit"),
-        eq(authIdentities.providerUserId, providerUserId)
-      ));
-    return identity || undefined;
+  async claimPendingUpload(id: number): Promise<PendingUpload | undefined> {
+    const [claimed] = await db.delete(pendingUploads).where(eq(pendingUploads.id, id)).returning();
+    return claimed || undefined;
   }
 
   /**
-   * Crea una nueva identidad OAuth
+   * Obtiene las subidas pendientes vencidas
    * 
-   * @param identity - Datos de la identidad a vincular
-   * @returns Identidad creada
+   * @param now - Momento de referencia
+   * @returns Subidas con expiresAt anterior a now
    */
-  async createAuthIdentity(identity: InsertAuthIdentity): Promise<AuthIdentity> {
-    const [newIdentity] = await db
-      .insert(authIdentities)
-      .values(identity)
-      .returning();
-    return newIdentity;
+  async getExpiredPendingUploads(now: Date): Promise<PendingUpload[]> {
+    return db.select().from(pendingUploads).where(lt(pendingUploads.expiresAt, now));
   }
 
   // ===========================================================================
-  // OPERACIONES DE CASOS TRIBUTARIOS
+  // OPERACIONES DE SOLICITUDES DE DOCUMENTOS
   // ===========================================================================
 
   /**
-   * Obtiene casos tributarios de un cliente
+   * Obtiene las solicitudes de documentos de un caso
    * 
-   * @param clientId - ID del cliente
-   * @returns Casos ordenados por fecha de creación descendente
+   * @param caseId - ID del caso
+   * @returns Solicitudes ordenadas por fecha de creación descendente
    */
-  async getTaxCasesByClient(clientId: number): Promise<TaxCase[]> {
+  async getDocumentRequestsByCase(caseId: number): Promise<DocumentRequest[]> {
     return db
       .select()
-      .from(taxCases)
-      .where(eq(taxCases.clientId, clientId))
-      .orderBy(desc(taxCases.createdAt));
+      .from(documentRequests)
+      .where(eq(documentRequests.caseId, caseId))
+      .orderBy(desc(documentRequests.createdAt));
   }
 
   /**
-   * Obtiene un caso tributario por ID
+   * Obtiene las solicitudes de documentos de un cliente
    * 
-   * @param id - ID del caso
-   * @returns Caso encontrado o undefined
+   * @param clientId - ID del cliente
+   * @returns Solicitudes ordenadas por fecha de creación descendente
    */
-  async getTaxCase(id: number): Promise<TaxCase | undefined> {
-    const [taxCase] = await db.select().from(taxCases).where(eq(taxCases.id, id));
-    return taxCase || undefined;
+  async getDocumentRequestsByClient(clientId: number): Promise<DocumentRequest[]> {
+    return db
+      .select()
+      .from(documentRequests)
+      .where(eq(documentRequests.clientId, clientId))
+      .orderBy(desc(documentRequests.createdAt));
   }
 
   /**
-   * Obtiene todos los casos con información del cliente
+   * Obtiene una solicitud de documento por ID
    * 
-   * Adjunta objeto User a cada caso para display en admin
-   * 
-   * @returns Casos con cliente incluido
+   * @param id - ID de la solicitud
+   * @returns Solicitud o undefined
    */
-  async getAllTaxCases(): Promise<(TaxCase & { client?: User })[]> {
-    const cases = await db.select().from(taxCases).orderBy(desc(taxCases.createdAt));
-    const casesWithClients = await Promise.all(
-      cases.map(async (taxCase) => {
-        const client = await this.getUser(taxCase.clientId);
-        return { ...taxCase, client };
-      })
-    );
-    return casesWithClients;
+  async getDocumentRequest(id: number): Promise<DocumentRequest | undefined> {
+    const [request] = await db.select().from(documentRequests).where(eq(documentRequests.id, id));
+    return request || undefined;
   }
 
   /**
-   * Crea un nuevo caso tributario
+   * Crea una solicitud de documento
    * 
-   * @param taxCase - Datos del caso
-   * @returns Caso creado
+   * @param request - Datos de la solicitud
+   * @returns Solicitud creada
    */
-  async createTaxCase(taxCase: InsertTaxCase): Promise<TaxCase> {
-    const [newCase] = await db
-      .insert(taxCases)
-      .values(taxCase)
+  async createDocumentRequest(request: InsertDocumentRequest): Promise<DocumentRequest> {
+    const [newRequest] = await db
+      .insert(documentRequests)
+      .values(request)
       .returning();
-    return newCase;
+    return newRequest;
   }
 
   /**
-   * Actualiza un caso tributario
+   * Actualiza una solicitud de documento
    * 
    * Automáticamente actualiza updatedAt
    * 
-   * @param id - ID del caso
+   * @param id - ID de la solicitud
    * @param data - Campos a actualizar
-   * @returns Caso actualizado o undefined
+   * @returns Solicitud actualizada o undefined
    */
-  async updateTaxCase(id: number, data: Partial<InsertTaxCase>): Promise<TaxCase | undefined> {
-    const [updatedCase] = await db
-      .update(taxCases)
+  async updateDocumentRequest(id: number, data: Partial<InsertDocumentRequest>): Promise<DocumentRequest | undefined> {
+    const [updated] = await db
+      .update(documentRequests)
       .set({ ...data, updatedAt: new Date() })
-      .where(eq(taxCases.id, id))
+      .where(eq(documentRequests.id, id))
       .returning();
-    return updatedCase || undefined;
+    return updated || undefined;
   }
 
-  // ===========================================================================
-  // OPERACIONES DE DOCUMENTOS
-  // ===========================================================================
+  /**
+   * Marca una solicitud abierta como cumplida
+   * 
+   * Solo actualiza solicitudes en estado 'open', de modo que dos
+   * subidas simultáneas no cumplen la misma solicitud dos veces.
+   * 
+   * @param id - ID de la solicitud
+   * @param documentId - Documento que la cumple
+   * @returns Solicitud actualizada o undefined si no estaba abierta
+   */
+  async fulfillDocumentRequest(id: number, documentId: number): Promise<DocumentRequest | undefined> {
+    const now = new Date();
+    const [updated] = await db
+      .update(documentRequests)
+      .set({ status: "fulfilled", fulfilledDocumentId: documentId, fulfilledAt: now, updatedAt: now })
+      .where(and(eq(documentRequests.id, id), eq(documentRequests.status, "open")))
+      .returning();
+    return updated || undefined;
+  }
 
   /**
-   * Obtiene documentos asociados a un caso
+   * Obtiene solicitudes abiertas vencidas que necesitan recordatorio
    * 
-   * @param caseId - ID del caso
-   * @returns Documentos ordenados por fecha de subida
+   * @param now - Momento de referencia
+   * @param remindAfter - Solicitudes recordadas después de esta fecha se omiten
+   * @returns Solicitudes vencidas, de la más antigua a la más reciente
    */
-  async getDocumentsByCase(caseId: number): Promise<Document[]> {
+  async getOverdueDocumentRequests(now: Date, remindAfter: Date): Promise<DocumentRequest[]> {
     return db
       .select()
-      .from(documents)
-      .where(eq(documents.caseId, caseId))
-      .orderBy(desc(documents.createdAt));
+      .from(documentRequests)
+      .where(and(
+        eq(documentRequests.status, "open"),
+        isNotNull(documentRequests.dueDate),
+        lt(documentRequests.dueDate, now),
+        or(isNull(documentRequests.lastReminderAt), lt(documentRequests.lastReminderAt, remindAfter))
+      ))
+      .orderBy(documentRequests.dueDate);
   }
 
   /**
-   * Obtiene todos los documentos de un cliente
+   * Reserva el recordatorio de una solicitud vencida
    * 
-   * @param clientId - ID del cliente
-   * @returns Documentos ordenados por fecha de subida
+   * El UPDATE condicional garantiza que, si el job corre a la vez en el
+   * servidor y en el cron, solo una ejecución envía el recordatorio.
+   * 
+   * @param id - ID de la solicitud
+   * @param now - Momento del recordatorio
+   * @param remindAfter - Solicitudes recordadas después de esta fecha no se reservan
+   * @returns Solicitud reservada o undefined si ya estaba reservada o cerrada
+   */
+  async claimDocumentRequestReminder(id: number, now: Date, remindAfter: Date): Promise<DocumentRequest | undefined> {
+    const [claimed] = await db
+      .update(documentRequests)
+      .set({
+        lastReminderAt: now,
+        reminderCount: sql`${documentRequests.reminderCount} + 1`,
+      })
+      .where(and(
+        eq(documentRequests.id, id),
+        eq(documentRequests.status, "open"),
+        or(isNull(documentRequests.lastReminderAt), lt(documentRequests.lastReminderAt, remindAfter))
+      ))
+      .returning();
+    return claimed || undefined;
+  }
+
+  /**
+   * Libera la reserva de un recordatorio que no se pudo enviar
+   * 
+   * Solo la deshace si sigue siendo la misma reserva.
+   * 
+   * @param id - ID de la solicitud
+   * @param claimedAt - Momento con que se reservó
+   * @param previousReminderAt - Último recordatorio anterior a la reserva
    */
-  async getDocumentsByClient(clientId: number): Promise<Document[]> {
+  async releaseDocumentRequestReminder(id: number, claimedAt: Date, previousReminderAt: Date | null): Promise<void> {
+    await db
+      .update(documentRequests)
+      .set({
+        lastReminderAt: previousReminderAt,
+        reminderCount: sql`GREATEST(${documentRequests.reminderCount} - 1, 0)`,
+      })
+      .where(and(eq(documentRequests.id, id), eq(documentRequests.lastReminderAt, claimedAt)));
+  }
+
+  // ===========================================================================
+  // OPERACIONES DE SOLICITUDES DE FIRMA
+  // ===========================================================================
+
+  /**
+   * Obtiene las solicitudes de firma de un caso
+   * 
+   * @param caseId - ID del caso
+   * @returns Solicitudes ordenadas por fecha de creación descendente
+   */
+  async getSignatureRequestsByCase(caseId: number): Promise<SignatureRequest[]> {
     return db
       .select()
-      .from(documents)
-      .where(eq(documents.clientId, clientId))
-      .orderBy(desc(documents.createdAt));
+      .from(signatureRequests)
+      .where(eq(signatureRequests.caseId, caseId))
+      .orderBy(desc(signatureRequests.createdAt));
   }
 
   /**
-   * Obtiene documentos directamente subidos por el cliente
+   * Obtiene las solicitudes de firma de un cliente
    * 
    * @param clientId - ID del cliente
-   * @returns Documentos del cliente
+   * @returns Solicitudes ordenadas por fecha de creación descendente
    */
-  async getDocumentsByClientDirect(clientId: number): Promise<Document[]> {
+  async getSignatureRequestsByClient(clientId: number): Promise<SignatureRequest[]> {
     return db
       .select()
-      .from(documents)
-      .where(eq(documents.clientId, clientId))
-      .orderBy(desc(documents.createdAt));
+      .from(signatureRequests)
+      .where(eq(signatureRequests.clientId, clientId))
+      .orderBy(desc(signatureRequests.createdAt));
   }
 
   /**
-   * Obtiene todos los documentos del sistema
-   * 
-   * Para uso en panel de administración
+   * Obtiene una solicitud de firma por ID
    * 
-   * @returns Todos los documentos ordenados por fecha
+   * @param id - ID de la solicitud
+   * @returns Solicitud o undefined
    */
-  async getAllDocuments(): Promise<Document[]> {
-    return db.select().from(documents).orderBy(desc(documents.createdAt));
+  async getSignatureRequest(id: number): Promise<SignatureRequest | undefined> {
+    const [request] = await db.select().from(signatureRequests).where(eq(signatureRequests.id, id));
+    return request || undefined;
   }
 
   /**
-   * Obtiene un documento específico por ID
+   * Crea una solicitud de firma
    * 
-   * @param id - ID del documento
-   * @returns Documento o undefined
+   * @param request - Datos de la solicitud
+   * @returns Solicitud creada
    */
-  async getDocument(id: number): Promise<Document | undefined> {
-    const [doc] = await db.select().from(documents).where(eq(documents.id, id));
-    return doc || undefined;
+  async createSignatureRequest(request: InsertSignatureRequest): Promise<SignatureRequest> {
+    const [newRequest] = await db
+      .insert(signatureRequests)
+      .values(request)
+      .returning();
+    return newRequest;
   }
 
   /**
-   * Crea un nuevo registro de documento
+   * Anula una solicitud de firma pendiente
    * 
-   * @param document - Metadatos del documento
-   * @returns Documento creado
+   * Las firmadas no se anulan: el PDF firmado ya se entregó al cliente.
+   * 
+   * @param id - ID de la solicitud
+   * @returns Solicitud anulada o undefined si no estaba pendiente
    */
-  async createDocument(document: InsertDocument): Promise<Document> {
-    const [newDoc] = await db
-      .insert(documents)
-      .values(document)
+  async cancelSignatureRequest(id: number): Promise<SignatureRequest | undefined> {
+    const [updated] = await db
+      .update(signatureRequests)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(eq(signatureRequests.id, id), eq(signatureRequests.status, "pending")))
       .returning();
-    return newDoc;
+    return updated || undefined;
+  }
+
+  /**
+   * Completa una solicitud pendiente y crea el documento firmado
+   * 
+   * Todo ocurre en una transacción. La solicitud se marca primero y solo
+   * si seguía pendiente, de modo que dos firmas simultáneas no crean dos
+   * documentos.
+   * 
+   * @param id - ID de la solicitud
+   * @param document - Documento con el PDF firmado
+   * @param signature - Datos de la firma
+   * @returns Solicitud y documento, o undefined si no estaba pendiente
+   */
+  async signSignatureRequest(
+    id: number,
+    document: typeof documents.$inferInsert,
+    signature: SignatureDetails
+  ): Promise<{ request: SignatureRequest; document: Document } | undefined> {
+    return db.transaction(async (tx) => {
+      const [signed] = await tx
+        .update(signatureRequests)
+        .set({ ...signature, status: "signed", updatedAt: new Date() })
+        .where(and(eq(signatureRequests.id, id), eq(signatureRequests.status, "pending")))
+        .returning({ id: signatureRequests.id });
+      if (!signed) {
+        return undefined;
+      }
+
+      const [newDoc] = await tx
+        .insert(documents)
+        .values(document)
+        .returning();
+      await tx.insert(documentVersions).values(toVersionRow(newDoc, newDoc.currentVersion));
+
+      const [request] = await tx
+        .update(signatureRequests)
+        .set({ signedDocumentId: newDoc.id })
+        .where(eq(signatureRequests.id, id))
+        .returning();
+      return { request, document: newDoc };
+    });
   }
 
   // ===========================================================================
@@ -760,38 +2625,49 @@ export class DatabaseStorage implements IStorage {
   /**
    * Obtiene todas las citas del sistema
    * 
+   * @param preparerId - Limitar a las citas del preparador y de los clientes de su cartera
    * @returns Todas las citas ordenadas por fecha
    */
-  async getAllAppointments(): Promise<Appointment[]> {
-    return db.select().from(appointments).orderBy(desc(appointments.appointmentDate));
+  async getAllAppointments(preparerId?: number): Promise<Appointment[]> {
+    return db
+      .select()
+      .from(appointments)
+      .where(preparerId !== undefined
+        ? or(eq(appointments.preparerId, preparerId), inArray(appointments.clientId, preparerClientIds(preparerId)))
+        : undefined)
+      .orderBy(desc(appointments.appointmentDate));
   }
 
   /**
-   * Verifica conflictos de horario para citas
+   * Obtiene una cita por ID
    * 
-   * Busca citas existentes dentro de ±30 minutos de la hora propuesta
-   * Excluye citas canceladas
+   * @param id - ID de la cita
+   * @returns Cita o undefined
+   */
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment || undefined;
+  }
+
+  /**
+   * Obtiene las citas no canceladas que empiezan en un rango
    * 
-   * @param appointmentDate - Fecha/hora propuesta
-   * @returns true si existe conflicto
+   * @param from - Inicio del rango
+   * @param to - Fin del rango (exclusivo)
+   * @returns Citas ordenadas por fecha
    */
-  async checkAppointmentConflict(appointmentDate: Date): Promise<boolean> {
-    // Ventana de 30 minutos antes y después
-    const windowStart = new Date(appointmentDate.getTime() - 30 * 60 * 1000);
-    const windowEnd = new Date(appointmentDate.getTime() + 30 * 60 * 1000);
-    
-    const conflicting = await db
-      .select({ count: count() })
+  async getActiveAppointmentsBetween(from: Date, to: Date): Promise<Appointment[]> {
+    return db
+      .select()
       .from(appointments)
       .where(
         and(
-          sql`${appointments.appointmentDate} >= ${windowStart}`,
-          sql`${appointments.appointmentDate} <= ${windowEnd}`,
-          sql`${appointments.status} != 'cancelled'`
+          gte(appointments.appointmentDate, from),
+          lt(appointments.appointmentDate, to),
+          ne(appointments.status, "cancelled")
         )
-      );
-    
-    return (conflicting[0]?.count || 0) > 0;
+      )
+      .orderBy(asc(appointments.appointmentDate));
   }
 
   /**
@@ -808,6 +2684,42 @@ export class DatabaseStorage implements IStorage {
     return newAppointment;
   }
 
+  /**
+   * Agenda una cita con un preparador
+   * 
+   * Bloquea la fila del preparador para que dos clientes no tomen a la
+   * vez el mismo horario, y verifica que la cita no se superponga con
+   * otra no cancelada del preparador (ni con las citas sin preparador,
+   * anteriores a las agendas), contando el margen de cada cita.
+   * 
+   * @param appointment - Datos de la cita (con preparador, inicio, duración y margen)
+   * @returns Cita creada, o undefined si el horario ya está ocupado
+   */
+  async bookAppointment(appointment: typeof appointments.$inferInsert & { preparerId: number; appointmentDate: Date; durationMinutes: number; bufferMinutes: number }): Promise<Appointment | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, appointment.preparerId)).for("update");
+
+      const [conflict] = await tx
+        .select({ id: appointments.id })
+        .from(appointments)
+        .where(overlappingAppointments(
+          appointment.preparerId,
+          appointment.appointmentDate,
+          appointment.durationMinutes + appointment.bufferMinutes
+        ))
+        .limit(1);
+      if (conflict) {
+        return undefined;
+      }
+
+      const [newAppointment] = await tx
+        .insert(appointments)
+        .values(appointment)
+        .returning();
+      return newAppointment;
+    });
+  }
+
   /**
    * Actualiza una cita existente
    * 
@@ -824,6 +2736,234 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
+  /**
+   * Mueve una cita agendada a otro horario
+   * 
+   * Como bookAppointment, bloquea la fila del preparador y verifica que
+   * el nuevo horario no se superponga con otra cita suya (la propia cita
+   * no cuenta). La confirmación del cliente era del horario anterior, así
+   * que se borra.
+   * 
+   * @param id - ID de la cita
+   * @param slot - Nuevo preparador, inicio y duración
+   * @returns Cita actualizada, o undefined si ya no está agendada o el horario está ocupado
+   */
+  async rescheduleAppointment(
+    id: number,
+    slot: { preparerId: number; appointmentDate: Date; durationMinutes: number; bufferMinutes: number }
+  ): Promise<Appointment | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, slot.preparerId)).for("update");
+
+      const [conflict] = await tx
+        .select({ id: appointments.id })
+        .from(appointments)
+        .where(overlappingAppointments(slot.preparerId, slot.appointmentDate, slot.durationMinutes + slot.bufferMinutes, id))
+        .limit(1);
+      if (conflict) {
+        return undefined;
+      }
+
+      const [updated] = await tx
+        .update(appointments)
+        .set({ ...slot, confirmedAt: null })
+        .where(and(eq(appointments.id, id), eq(appointments.status, "scheduled")))
+        .returning();
+      return updated || undefined;
+    });
+  }
+
+  /**
+   * Cancela o completa una cita agendada
+   * 
+   * Solo cambia citas en estado 'scheduled', para que una cancelación y
+   * un cierre simultáneos no se pisen.
+   * 
+   * @param id - ID de la cita
+   * @param status - Nuevo estado
+   * @returns Cita actualizada, o undefined si ya no estaba agendada
+   */
+  async closeAppointment(id: number, status: "completed" | "cancelled"): Promise<Appointment | undefined> {
+    const [updated] = await db
+      .update(appointments)
+      .set({ status })
+      .where(and(eq(appointments.id, id), eq(appointments.status, "scheduled")))
+      .returning();
+    return updated || undefined;
+  }
+
+  /**
+   * Registra la confirmación de asistencia del cliente
+   * 
+   * El enlace de confirmación es de un horario: si la cita se
+   * reprogramó después de enviarlo, no confirma el horario nuevo.
+   * 
+   * @param id - ID de la cita
+   * @param appointmentDate - Horario que el cliente confirma
+   * @returns Cita confirmada, o undefined si ya no está agendada en ese horario
+   */
+  async confirmAppointment(id: number, appointmentDate: Date): Promise<Appointment | undefined> {
+    const [updated] = await db
+      .update(appointments)
+      .set({ confirmedAt: sql`COALESCE(${appointments.confirmedAt}, NOW())` })
+      .where(
+        and(
+          eq(appointments.id, id),
+          eq(appointments.status, "scheduled"),
+          eq(appointments.appointmentDate, appointmentDate)
+        )
+      )
+      .returning();
+    return updated || undefined;
+  }
+
+  /**
+   * Reserva el envío de un recordatorio de cita
+   * 
+   * El índice único de appointment_reminders garantiza que solo una
+   * ejecución del job obtenga la reserva.
+   * 
+   * @param appointmentId - ID de la cita
+   * @param kind - Recordatorio de 24 horas o de 1 hora
+   * @param appointmentDate - Horario de la cita que se recuerda
+   * @returns true si el recordatorio no se había enviado
+   */
+  async claimAppointmentReminder(appointmentId: number, kind: "day_before" | "hour_before", appointmentDate: Date): Promise<boolean> {
+    const [claimed] = await db
+      .insert(appointmentReminders)
+      .values({ appointmentId, kind, appointmentDate })
+      .onConflictDoNothing()
+      .returning({ id: appointmentReminders.id });
+    return !!claimed;
+  }
+
+  /**
+   * Libera la reserva de un recordatorio que no pudo enviarse
+   * 
+   * @param appointmentId - ID de la cita
+   * @param kind - Recordatorio de 24 horas o de 1 hora
+   * @param appointmentDate - Horario de la cita que se recuerda
+   */
+  async releaseAppointmentReminder(appointmentId: number, kind: "day_before" | "hour_before", appointmentDate: Date): Promise<void> {
+    await db
+      .delete(appointmentReminders)
+      .where(
+        and(
+          eq(appointmentReminders.appointmentId, appointmentId),
+          eq(appointmentReminders.kind, kind),
+          eq(appointmentReminders.appointmentDate, appointmentDate)
+        )
+      );
+  }
+
+  // ===========================================================================
+  // OPERACIONES DE DISPONIBILIDAD
+  // ===========================================================================
+
+  /**
+   * Obtiene el horario semanal de los preparadores
+   * 
+   * Solo incluye usuarios activos con rol admin o preparer, para que un
+   * preparador desactivado deje de recibir citas sin borrar su horario.
+   * 
+   * @param preparerId - Si se indica, solo el de ese preparador
+   * @returns Franjas ordenadas por preparador, día y hora
+   */
+  async getPreparerAvailability(preparerId?: number): Promise<PreparerAvailability[]> {
+    const rows = await db
+      .select({ availability: preparerAvailability })
+      .from(preparerAvailability)
+      .innerJoin(users, eq(preparerAvailability.preparerId, users.id))
+      .where(
+        and(
+          eq(users.isActive, true),
+          inArray(users.role, ["admin", "preparer"]),
+          preparerId !== undefined ? eq(preparerAvailability.preparerId, preparerId) : undefined
+        )
+      )
+      .orderBy(
+        asc(preparerAvailability.preparerId),
+        asc(preparerAvailability.weekday),
+        asc(preparerAvailability.startMinute)
+      );
+    return rows.map((row) => row.availability);
+  }
+
+  /**
+   * Reemplaza el horario semanal de un preparador
+   * 
+   * @param preparerId - ID del preparador
+   * @param windows - Nuevas franjas (vacío = no recibe citas)
+   * @returns Franjas guardadas
+   */
+  async setPreparerAvailability(
+    preparerId: number,
+    windows: Omit<InsertPreparerAvailability, "preparerId">[]
+  ): Promise<PreparerAvailability[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(preparerAvailability).where(eq(preparerAvailability.preparerId, preparerId));
+      if (windows.length === 0) {
+        return [];
+      }
+      const saved = await tx
+        .insert(preparerAvailability)
+        .values(windows.map((window) => ({ ...window, preparerId })))
+        .returning();
+      return saved.sort((a, b) => a.weekday - b.weekday || a.startMinute - b.startMinute);
+    });
+  }
+
+  /**
+   * Obtiene los bloqueos de agenda que se cruzan con un rango
+   * 
+   * @param from - Inicio del rango
+   * @param to - Fin del rango
+   * @returns Bloqueos ordenados por inicio
+   */
+  async getAvailabilityBlocks(from: Date, to: Date): Promise<AvailabilityBlock[]> {
+    return db
+      .select()
+      .from(availabilityBlocks)
+      .where(and(lt(availabilityBlocks.startsAt, to), gt(availabilityBlocks.endsAt, from)))
+      .orderBy(asc(availabilityBlocks.startsAt));
+  }
+
+  /**
+   * Obtiene un bloqueo de agenda por ID
+   * 
+   * @param id - ID del bloqueo
+   * @returns Bloqueo o undefined
+   */
+  async getAvailabilityBlock(id: number): Promise<AvailabilityBlock | undefined> {
+    const [block] = await db.select().from(availabilityBlocks).where(eq(availabilityBlocks.id, id));
+    return block || undefined;
+  }
+
+  /**
+   * Crea un bloqueo de agenda
+   * 
+   * @param block - Datos del bloqueo
+   * @returns Bloqueo creado
+   */
+  async createAvailabilityBlock(block: InsertAvailabilityBlock): Promise<AvailabilityBlock> {
+    const [newBlock] = await db.insert(availabilityBlocks).values(block).returning();
+    return newBlock;
+  }
+
+  /**
+   * Elimina un bloqueo de agenda
+   * 
+   * @param id - ID del bloqueo
+   * @returns true si se eliminó
+   */
+  async deleteAvailabilityBlock(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(availabilityBlocks)
+      .where(eq(availabilityBlocks.id, id))
+      .returning({ id: availabilityBlocks.id });
+    return deleted.length > 0;
+  }
+
   // ===========================================================================
   // OPERACIONES DE MENSAJERÍA
   // ===========================================================================
@@ -1131,9 +3271,10 @@ export class DatabaseStorage implements IStorage {
       .from(taxCases)
       .groupBy(taxCases.status);
 
-    const casesByStatus = statusCounts.map(s => ({
-      status: s.status,
-      count: Number(s.count)
+    // Incluir todos los estados (con cero) en el orden del flujo de casos
+    const casesByStatus = CASE_STATUSES.map(status => ({
+      status,
+      count: Number(statusCounts.find(s => s.status === status)?.count || 0)
     }));
 
     // Agrupar por año fiscal
@@ -0,0 +1,592 @@
+/**
+ * @fileoverview Verificación de Archivos Subidos
+ *
+ * Revisa cada archivo recibido por multer antes de guardarlo en el
+ * almacenamiento y crear el documento. El fileFilter de multer solo ve el
+ * tipo MIME y la extensión que declara el navegador; aquí se comprueba el
+ * contenido.
+ *
+ * @module server/upload-scanner
+ * @version 1.0.0
+ *
+ * ## Etapas
+ * 1. Detecta el tipo real por los magic bytes y lo compara con el tipo
+ *    MIME y la extensión declarados
+ * 2. Rechaza políglotas: archivos que además son válidos como otro
+ *    formato (un ZIP o PDF pegado a una imagen, HTML o PHP incrustado en
+ *    los metadatos de una imagen o después de su fin)
+ * 3. Analiza el archivo original con el antivirus, si hay uno configurado
+ * 4. Elimina el contenido activo: JavaScript, acciones de lanzamiento y
+ *    adjuntos de los PDF, y macros VBA y plantillas remotas de los DOCX
+ *
+ * ## Resultados
+ * - clean: el archivo puede guardarse (ya saneado en disco si hizo falta)
+ * - rejected: el archivo no es lo que dice ser; se descarta
+ * - quarantined: el archivo es sospechoso; se retiene para revisión
+ *
+ * ## Variables de Entorno
+ * - CLAMAV_HOST / CLAMAV_PORT: daemon clamd por TCP (puerto 3310 por defecto)
+ * - CLAMAV_SOCKET: daemon clamd por socket Unix (alternativa a host/puerto)
+ * - CLAMAV_TIMEOUT_MS: tiempo máximo del análisis (30s por defecto)
+ *
+ * Sin antivirus configurado se omite la etapa 3. Otro motor puede
+ * conectarse con setVirusScanner().
+ *
+ * @example
+ * import { scanUpload } from './upload-scanner';
+ *
+ * const scan = await scanUpload(file.path, file.mimetype, file.originalname);
+ * if (scan.verdict === 'clean') await storeUpload(file);
+ */
+
+import fs from "fs";
+import net from "net";
+import path from "path";
+import JSZip from "jszip";
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFStream, type PDFObject } from "pdf-lib";
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+/** Formatos de archivo aceptados */
+type FileKind = "pdf" | "jpeg" | "png" | "doc" | "docx";
+
+/** Motivo de cuarentena (coincide con upload_quarantine_reason) */
+export type QuarantineReason = "virus_detected" | "active_content" | "scan_failed";
+
+/**
+ * Resultado de la verificación de un archivo
+ *
+ * @property verdict - clean, rejected o quarantined
+ * @property mimeType - Tipo MIME según el contenido
+ * @property size - Tamaño final (cambia si se eliminó contenido activo)
+ * @property removed - Contenido activo eliminado (vacío si no hubo cambios)
+ * @property message - Motivo del rechazo, apto para mostrar al usuario
+ * @property reason - Motivo de la cuarentena
+ * @property details - Detalle de la cuarentena (firma, contenido encontrado)
+ */
+export type UploadScanResult =
+  | { verdict: "clean"; mimeType: string; size: number; removed: string[] }
+  | { verdict: "rejected"; message: string }
+  | { verdict: "quarantined"; mimeType: string | null; reason: QuarantineReason; details: string };
+
+/**
+ * Resultado del antivirus
+ *
+ * @property infected - true si el archivo tiene una firma maliciosa
+ * @property signature - Nombre de la firma detectada
+ */
+export interface VirusScanResult {
+  infected: boolean;
+  signature: string | null;
+}
+
+/**
+ * Motor antivirus
+ *
+ * scan() debe lanzar un error si no pudo analizar el archivo; la subida
+ * queda entonces en cuarentena con motivo 'scan_failed'.
+ */
+export interface VirusScanner {
+  name: string;
+  scan(content: Buffer): Promise<VirusScanResult>;
+}
+
+// =============================================================================
+// DETECCIÓN DEL TIPO REAL
+// =============================================================================
+
+/** Tipo MIME canónico de cada formato */
+const KIND_MIME_TYPES: Record<FileKind, string> = {
+  pdf: "application/pdf",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+/** Formato esperado según el tipo MIME declarado */
+const DECLARED_MIME_KINDS: Record<string, FileKind> = {
+  "application/pdf": "pdf",
+  "image/jpeg": "jpeg",
+  "image/jpg": "jpeg",
+  "image/png": "png",
+  "application/msword": "doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+};
+
+/** Formato esperado según la extensión */
+const EXTENSION_KINDS: Record<string, FileKind> = {
+  ".pdf": "pdf",
+  ".jpg": "jpeg",
+  ".jpeg": "jpeg",
+  ".png": "png",
+  ".doc": "doc",
+  ".docx": "docx",
+};
+
+const PDF_MAGIC = Buffer.from("%PDF-");
+const JPEG_MAGIC = Buffer.from([0xff, 0xd8, 0xff]);
+const PNG_MAGIC = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const OLE_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/** Fin del directorio central de un ZIP; debe estar en los últimos 64KB */
+const ZIP_END_MAGIC = Buffer.from([0x50, 0x4b, 0x05, 0x06]);
+const ZIP_END_SEARCH_BYTES = 65557;
+
+/** Marcadores de código que no deben aparecer en los metadatos de una imagen */
+const SCRIPT_MARKERS = /<script|<\?php|<html|<iframe|<svg/i;
+
+/** Chunks de texto sin comprimir de un PNG */
+const PNG_TEXT_CHUNKS = new Set(["tEXt", "iTXt"]);
+
+/**
+ * Detecta el formato por los primeros bytes
+ *
+ * Un ZIP se considera DOCX provisionalmente; sanitizeDocx() comprueba
+ * que tenga la estructura de un documento Word.
+ *
+ * @param content - Contenido del archivo
+ * @returns Formato o null si no es ninguno de los aceptados
+ */
+function sniffFileKind(content: Buffer): FileKind | null {
+  const startsWith = (magic: Buffer) => content.subarray(0, magic.length).equals(magic);
+
+  if (startsWith(PDF_MAGIC)) return "pdf";
+  if (startsWith(JPEG_MAGIC)) return "jpeg";
+  if (startsWith(PNG_MAGIC)) return "png";
+  if (startsWith(OLE_MAGIC)) return "doc";
+  if (startsWith(ZIP_MAGIC)) return "docx";
+  return null;
+}
+
+/**
+ * Partes de una imagen donde puede esconderse texto
+ *
+ * Los datos comprimidos de la imagen contienen por azar secuencias como
+ * "<svg", así que solo se devuelven los segmentos de metadatos y
+ * comentarios (APPn y COM en JPEG, tEXt e iTXt en PNG) y lo que sigue
+ * al fin de la imagen (EOI o IEND). Si la estructura no puede
+ * recorrerse, el resto del archivo se trata como datos finales.
+ *
+ * @param content - Contenido del archivo
+ * @param kind - jpeg o png
+ * @returns Segmentos a revisar
+ */
+function imageTextSegments(content: Buffer, kind: "jpeg" | "png"): Buffer[] {
+  const segments: Buffer[] = [];
+
+  if (kind === "png") {
+    let offset = PNG_MAGIC.length;
+    while (offset + 12 <= content.length) {
+      const length = content.readUInt32BE(offset);
+      const type = content.toString("latin1", offset + 4, offset + 8);
+      const end = offset + 12 + length;
+      if (end > content.length) break;
+      if (PNG_TEXT_CHUNKS.has(type)) segments.push(content.subarray(offset + 8, end - 4));
+      offset = end;
+      if (type === "IEND") break;
+    }
+    segments.push(content.subarray(offset));
+    return segments;
+  }
+
+  // JPEG: segmentos con longitud hasta el inicio del escaneo (SOS)
+  let offset = JPEG_MAGIC.length - 1;
+  while (offset + 4 <= content.length && content[offset] === 0xff) {
+    const marker = content[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const end = offset + 2 + content.readUInt16BE(offset + 2);
+    if (end > content.length) break;
+    if ((marker >= 0xe0 && marker <= 0xef) || marker === 0xfe) segments.push(content.subarray(offset + 4, end));
+    offset = end;
+    if (marker === 0xda) {
+      // En los datos comprimidos 0xFF va seguido de 0x00 o de un marcador,
+      // así que el primer EOI es el fin real de la imagen
+      const eoi = content.indexOf(Buffer.from([0xff, 0xd9]), offset);
+      offset = eoi === -1 ? content.length : eoi + 2;
+      break;
+    }
+  }
+  segments.push(content.subarray(offset));
+  return segments;
+}
+
+/**
+ * Busca un segundo formato dentro del archivo
+ *
+ * Los lectores de PDF aceptan la cabecera en el primer KB y los de ZIP
+ * leen el directorio desde el final, así que un archivo puede ser a la
+ * vez una imagen válida y un PDF o ZIP válido. En las imágenes también
+ * se busca código en los metadatos y después del fin de la imagen.
+ *
+ * @param content - Contenido del archivo
+ * @param kind - Formato detectado por la cabecera
+ * @returns Descripción del formato incrustado, o null si no hay
+ */
+function findPolyglotMarker(content: Buffer, kind: FileKind): string | null {
+  if (kind !== "pdf" && content.includes(PDF_MAGIC)) {
+    return "cabecera PDF";
+  }
+
+  if (kind !== "docx") {
+    const tail = content.subarray(Math.max(0, content.length - ZIP_END_SEARCH_BYTES));
+    if (tail.includes(ZIP_END_MAGIC)) return "archivo ZIP";
+  }
+
+  if (kind === "jpeg" || kind === "png") {
+    for (const segment of imageTextSegments(content, kind)) {
+      const match = segment.toString("latin1").match(SCRIPT_MARKERS);
+      if (match) return `marcado ${match[0]}`;
+    }
+  }
+
+  return null;
+}
+
+// =============================================================================
+// CONTENIDO ACTIVO EN PDF
+// =============================================================================
+
+/** Acciones PDF que ejecutan código, abren programas o envían datos */
+const ACTIVE_PDF_ACTIONS = new Set(
+  ["JavaScript", "Launch", "ImportData", "SubmitForm", "RichMediaExecute", "Rendition", "GoToE"].map((name) => PDFName.of(name))
+);
+
+/** Claves que se eliminan siempre (JS a nivel de documento, adjuntos, XFA, acciones automáticas) */
+const ACTIVE_PDF_KEYS = ["JavaScript", "EmbeddedFiles", "XFA", "AA"].map((name) => PDFName.of(name));
+
+/** Claves que apuntan a una acción y se eliminan si la acción es activa */
+const PDF_ACTION_KEYS = ["OpenAction", "A", "Next"].map((name) => PDFName.of(name));
+
+/** Marcadores de contenido activo en PDF que pdf-lib no pudo interpretar */
+const RAW_PDF_ACTIVE_MARKERS = /\/(JavaScript|JS|Launch|EmbeddedFiles?|RichMedia|XFA|SubmitForm|ImportData)\b/;
+
+/**
+ * Elimina el contenido activo de un PDF
+ *
+ * Recorre todos los objetos del documento. Las acciones activas se
+ * desenganchan de quien las dispara; los archivos adjuntos se eliminan.
+ *
+ * @param content - PDF original
+ * @returns PDF saneado (null si no había nada que eliminar) y lo eliminado,
+ *   o 'unsafe' si tiene contenido activo que no puede eliminarse
+ */
+async function sanitizePdf(content: Buffer): Promise<{ content: Buffer | null; removed: string[] } | "unsafe"> {
+  let pdfDoc: PDFDocument;
+  try {
+    pdfDoc = await PDFDocument.load(content, { ignoreEncryption: true, updateMetadata: false });
+  } catch {
+    // PDF que pdf-lib no interpreta: se acepta tal cual solo si no hay indicios de contenido activo
+    return RAW_PDF_ACTIVE_MARKERS.test(content.toString("latin1")) ? "unsafe" : { content: null, removed: [] };
+  }
+
+  const context = pdfDoc.context;
+  const removed = new Set<string>();
+
+  const isActiveAction = (value: PDFObject | undefined): boolean => {
+    const action = value ? context.lookup(value) : undefined;
+    const dict = action instanceof PDFStream ? action.dict : action;
+    return dict instanceof PDFDict && ACTIVE_PDF_ACTIONS.has(dict.get(PDFName.of("S")) as PDFName);
+  };
+
+  const cleanDict = (dict: PDFDict) => {
+    for (const key of ACTIVE_PDF_KEYS) {
+      if (dict.has(key)) {
+        dict.delete(key);
+        removed.add(key.decodeText());
+      }
+    }
+    for (const key of PDF_ACTION_KEYS) {
+      if (isActiveAction(dict.get(key))) {
+        const action = context.lookup(dict.get(key)) as PDFDict;
+        removed.add((action.get(PDFName.of("S")) as PDFName).decodeText());
+        dict.delete(key);
+      }
+    }
+    if (dict.get(PDFName.of("Subtype")) === PDFName.of("FileAttachment") && dict.has(PDFName.of("FS"))) {
+      dict.delete(PDFName.of("FS"));
+      removed.add("FileAttachment");
+    }
+  };
+
+  const visit = (object: PDFObject) => {
+    if (object instanceof PDFDict) {
+      cleanDict(object);
+      for (const [, value] of object.entries()) visit(value);
+    } else if (object instanceof PDFArray) {
+      for (const value of object.asArray()) visit(value);
+    } else if (object instanceof PDFStream) {
+      visit(object.dict);
+    }
+  };
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    // Los adjuntos se quitan del archivo, no solo del índice
+    if (object instanceof PDFStream && object.dict.get(PDFName.of("Type")) === PDFName.of("EmbeddedFile")) {
+      context.delete(ref);
+      removed.add("EmbeddedFiles");
+      continue;
+    }
+    visit(object);
+  }
+
+  if (removed.size === 0) return { content: null, removed: [] };
+
+  // Reescribir un PDF cifrado lo dejaría ilegible
+  if (pdfDoc.isEncrypted) return "unsafe";
+
+  const saved = await pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false });
+  return { content: Buffer.from(saved), removed: Array.from(removed) };
+}
+
+// =============================================================================
+// MACROS EN DOCUMENTOS WORD
+// =============================================================================
+
+/** Partes de un DOCX con macros VBA */
+const DOCX_MACRO_PARTS = /(^|\/)(vbaProject\.bin|vbaData\.xml)$/i;
+
+/** Relación a una plantilla remota (técnica de descarga de macros) */
+const ATTACHED_TEMPLATE_TYPE = "/relationships/attachedTemplate";
+
+/** Nombres de stream de macros en un .doc (UTF-16LE en el directorio OLE) */
+const OLE_MACRO_STREAMS = ["_VBA_PROJECT", "Macros"].map((name) => Buffer.from(name, "utf16le"));
+
+/**
+ * Elimina macros y plantillas remotas de un DOCX
+ *
+ * @param content - DOCX original
+ * @returns DOCX saneado (null si no había nada que eliminar) y lo eliminado;
+ *   'invalid' si no es un documento Word, o 'unsafe' si tiene controles ActiveX
+ */
+async function sanitizeDocx(content: Buffer): Promise<{ content: Buffer | null; removed: string[] } | "invalid" | "unsafe"> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(content);
+  } catch {
+    return "invalid";
+  }
+
+  const contentTypes = zip.file("[Content_Types].xml");
+  if (!contentTypes || !zip.file("word/document.xml")) return "invalid";
+
+  // Los controles ActiveX están enlazados desde el cuerpo del documento
+  if (Object.keys(zip.files).some((name) => name.startsWith("word/activeX/"))) return "unsafe";
+
+  const removed = new Set<string>();
+
+  const macroParts = Object.keys(zip.files).filter((name) => DOCX_MACRO_PARTS.test(name));
+  for (const name of macroParts) {
+    zip.remove(name);
+    zip.remove(name.replace(/([^/]+)$/, "_rels/$1.rels"));
+    removed.add("VBA");
+  }
+
+  const isRemovedTarget = (relationship: string) =>
+    macroParts.some((part) => relationship.includes(`Target="${path.posix.basename(part)}"`));
+
+  for (const name of Object.keys(zip.files).filter((file) => file.endsWith(".rels"))) {
+    const rels = await zip.file(name)!.async("string");
+    const cleaned = rels.replace(/<Relationship\b[^>]*\/>/g, (relationship) => {
+      if (isRemovedTarget(relationship)) return "";
+      if (relationship.includes(ATTACHED_TEMPLATE_TYPE) && relationship.includes('TargetMode="External"')) {
+        removed.add("attachedTemplate");
+        return "";
+      }
+      return relationship;
+    });
+    if (cleaned !== rels) zip.file(name, cleaned);
+  }
+
+  if (removed.has("attachedTemplate")) {
+    const settings = zip.file("word/settings.xml");
+    if (settings) {
+      zip.file("word/settings.xml", (await settings.async("string")).replace(/<w:attachedTemplate\b[^>]*\/>/g, ""));
+    }
+  }
+
+  if (removed.size === 0) return { content: null, removed: [] };
+
+  if (removed.has("VBA")) {
+    const types = (await contentTypes.async("string"))
+      .replace(/<Override\b[^>]*PartName="[^"]*(vbaProject\.bin|vbaData\.xml)"[^>]*\/>/gi, "")
+      .replace(/<Default\b[^>]*ContentType="application\/vnd\.ms-office\.vbaProject"[^>]*\/>/gi, "")
+      .replace(
+        "application/vnd.ms-word.document.macroEnabled.main+xml",
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"
+      );
+    zip.file("[Content_Types].xml", types);
+  }
+
+  const saved = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  return { content: saved, removed: Array.from(removed) };
+}
+
+// =============================================================================
+// ANTIVIRUS
+// =============================================================================
+
+/** Tamaño de los bloques enviados a clamd */
+const CLAMAV_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Crea un motor que analiza con un daemon clamd (comando INSTREAM)
+ *
+ * @param options - Conexión: host/puerto o socket Unix, y tiempo máximo
+ */
+export function createClamAvScanner(options: { host?: string; port?: number; socketPath?: string; timeoutMs: number }): VirusScanner {
+  return {
+    name: "clamav",
+    scan: (content) =>
+      new Promise<VirusScanResult>((resolve, reject) => {
+        const socket = options.socketPath
+          ? net.createConnection({ path: options.socketPath })
+          : net.createConnection({ host: options.host, port: options.port ?? 3310 });
+        const chunks: Buffer[] = [];
+
+        socket.setTimeout(options.timeoutMs, () => socket.destroy(new Error("clamd no respondió a tiempo")));
+        socket.on("error", reject);
+        socket.on("data", (data) => chunks.push(Buffer.from(data)));
+        socket.on("end", () => {
+          // Respuesta: "stream: OK", "stream: <firma> FOUND" o "... ERROR"
+          const reply = Buffer.concat(chunks).toString("utf8").replace(/\0/g, "").trim();
+          if (reply.endsWith("OK")) {
+            resolve({ infected: false, signature: null });
+          } else if (reply.endsWith("FOUND")) {
+            resolve({ infected: true, signature: reply.replace(/^stream:\s*/, "").replace(/\s*FOUND$/, "") });
+          } else {
+            reject(new Error(`Respuesta inesperada de clamd: ${reply}`));
+          }
+        });
+
+        socket.on("connect", () => {
+          socket.write("zINSTREAM\0");
+          for (let offset = 0; offset < content.length; offset += CLAMAV_CHUNK_SIZE) {
+            const chunk = content.subarray(offset, offset + CLAMAV_CHUNK_SIZE);
+            const length = Buffer.alloc(4);
+            length.writeUInt32BE(chunk.length);
+            socket.write(length);
+            socket.write(chunk);
+          }
+          socket.end(Buffer.alloc(4));
+        });
+      }),
+  };
+}
+
+/**
+ * Crea el motor antivirus a partir de las variables de entorno
+ *
+ * @returns Motor clamd, o null si no hay ninguno configurado
+ */
+function createScannerFromEnv(): VirusScanner | null {
+  const timeoutMs = parseInt(process.env.CLAMAV_TIMEOUT_MS || "30000");
+  if (process.env.CLAMAV_SOCKET) {
+    return createClamAvScanner({ socketPath: process.env.CLAMAV_SOCKET, timeoutMs });
+  }
+  if (process.env.CLAMAV_HOST) {
+    return createClamAvScanner({ host: process.env.CLAMAV_HOST, port: parseInt(process.env.CLAMAV_PORT || "3310"), timeoutMs });
+  }
+  console.warn("[Upload Scanner] Antivirus no configurado: las subidas no se analizarán (CLAMAV_HOST o CLAMAV_SOCKET)");
+  return null;
+}
+
+let virusScanner: VirusScanner | null = createScannerFromEnv();
+
+/**
+ * Sustituye el motor antivirus
+ *
+ * @param scanner - Motor a usar, o null para no analizar
+ */
+export function setVirusScanner(scanner: VirusScanner | null): void {
+  virusScanner = scanner;
+}
+
+// =============================================================================
+// VERIFICACIÓN COMPLETA
+// =============================================================================
+
+/**
+ * Verifica un archivo subido
+ *
+ * Si se elimina contenido activo, el archivo se reescribe en la misma
+ * ruta. El antivirus analiza el original, de modo que un archivo
+ * infectado queda en cuarentena aunque el saneado lo hubiera limpiado.
+ *
+ * @param filePath - Ruta local del archivo (temporal de multer)
+ * @param declaredMimeType - Tipo MIME declarado por el navegador
+ * @param originalName - Nombre original (para la extensión)
+ * @returns Resultado de la verificación
+ */
+export async function scanUpload(filePath: string, declaredMimeType: string, originalName: string): Promise<UploadScanResult> {
+  const content = await fs.promises.readFile(filePath);
+
+  const kind = sniffFileKind(content);
+  if (!kind) {
+    return { verdict: "rejected", message: "El contenido del archivo no corresponde a un PDF, imagen o documento Word." };
+  }
+
+  const extension = path.extname(originalName).toLowerCase();
+  if (DECLARED_MIME_KINDS[declaredMimeType] !== kind || EXTENSION_KINDS[extension] !== kind) {
+    return { verdict: "rejected", message: "El contenido del archivo no coincide con su extensión. Guárdelo de nuevo en el formato correcto." };
+  }
+
+  const polyglot = findPolyglotMarker(content, kind);
+  if (polyglot) {
+    console.warn(`[Upload Scanner] Archivo políglota rechazado (${kind} con ${polyglot}): ${originalName}`);
+    return { verdict: "rejected", message: "El archivo contiene datos de otro formato y no puede aceptarse." };
+  }
+
+  const mimeType = KIND_MIME_TYPES[kind];
+
+  if (virusScanner) {
+    try {
+      const result = await virusScanner.scan(content);
+      if (result.infected) {
+        return { verdict: "quarantined", mimeType, reason: "virus_detected", details: result.signature || "Firma desconocida" };
+      }
+    } catch (error) {
+      console.error(`[Upload Scanner] Error del antivirus ${virusScanner.name}:`, error);
+      return {
+        verdict: "quarantined",
+        mimeType,
+        reason: "scan_failed",
+        details: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  let sanitized: { content: Buffer | null; removed: string[] } = { content: null, removed: [] };
+  if (kind === "pdf") {
+    const result = await sanitizePdf(content);
+    if (result === "unsafe") {
+      return { verdict: "quarantined", mimeType, reason: "active_content", details: "PDF con contenido activo que no pudo eliminarse" };
+    }
+    sanitized = result;
+  } else if (kind === "docx") {
+    const result = await sanitizeDocx(content);
+    if (result === "invalid") {
+      return { verdict: "rejected", message: "El contenido del archivo no coincide con su extensión. Guárdelo de nuevo en el formato correcto." };
+    }
+    if (result === "unsafe") {
+      return { verdict: "quarantined", mimeType, reason: "active_content", details: "Documento Word con controles ActiveX" };
+    }
+    sanitized = result;
+  } else if (kind === "doc" && OLE_MACRO_STREAMS.some((stream) => content.includes(stream))) {
+    // Las macros de un .doc no pueden quitarse sin reescribir el archivo OLE
+    return { verdict: "quarantined", mimeType, reason: "active_content", details: "Documento Word 97-2003 con macros" };
+  }
+
+  if (sanitized.content) {
+    await fs.promises.writeFile(filePath, sanitized.content);
+    return { verdict: "clean", mimeType, size: sanitized.content.length, removed: sanitized.removed };
+  }
+
+  return { verdict: "clean", mimeType, size: content.length, removed: [] };
+}
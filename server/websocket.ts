@@ -154,8 +154,15 @@ interface NotificationPayload {
  * - broadcast() - Envía a todos los conectados
  * - notifyNewMessage() - Notifica nuevo mensaje
  * - notifyCaseStatusChange() - Notifica cambio de estado
+ * - notifyCaseAssigned() - Notifica asignación de caso a un preparador
  * - notifyDocumentUpload() - Notifica nuevo documento
+ * - notifyPreparerDocument() - Notifica al cliente un documento del preparador
+ * - notifyDocumentRequested() - Notifica al cliente una solicitud de documento
+ * - notifyDocumentReviewed() - Notifica al cliente la revisión de un documento
+ * - notifySignatureRequested() - Notifica al cliente un documento para firmar
+ * - notifySignatureCompleted() - Notifica a preparadores una firma completada
  * - notifyNewAppointment() - Notifica nueva cita
+ * - notifyAppointmentChanged() - Notifica cita cancelada, reprogramada, completada o confirmada
  */
 class WebSocketService {
   /** Instancia del servidor WebSocket */
@@ -520,6 +527,23 @@ class WebSocketService {
     });
   }
 
+  /**
+   * Notifica a un preparador que se le ha asignado un caso
+   * 
+   * @param preparerId - ID del preparador asignado
+   * @param caseId - ID del caso asignado
+   * @param clientName - Nombre del cliente dueño del caso
+   * @param filingYear - Año fiscal del caso
+   */
+  notifyCaseAssigned(preparerId: number, caseId: number, clientName: string, filingYear: number): void {
+    this.sendToUser(preparerId, {
+      type: "case_update",
+      title: "Caso Asignado",
+      message: `Se le ha asignado el caso ${filingYear} de ${clientName}`,
+      data: { caseId, clientName, filingYear },
+    });
+  }
+
   /**
    * Notifica a preparadores sobre un nuevo documento subido
    * 
@@ -537,6 +561,103 @@ class WebSocketService {
     });
   }
 
+  /**
+   * Notifica al cliente sobre un documento subido por su preparador
+   * 
+   * @param clientId - ID del cliente dueño del caso
+   * @param documentName - Nombre del archivo
+   * @param caseId - ID del caso asociado
+   */
+  notifyPreparerDocument(clientId: number, documentName: string, caseId: number): void {
+    this.sendToUser(clientId, {
+      type: "document",
+      title: "Documento de su Preparador",
+      message: `Su preparador compartió: ${documentName}`,
+      data: { documentName, caseId, fromPreparer: true },
+    });
+  }
+
+  /**
+   * Notifica al cliente que se le solicita un documento
+   * 
+   * @param clientId - ID del cliente
+   * @param requestId - ID de la solicitud
+   * @param caseId - ID del caso asociado
+   * @param description - Documento solicitado
+   * @param overdue - true si es un recordatorio de solicitud vencida
+   */
+  notifyDocumentRequested(clientId: number, requestId: number, caseId: number, description: string, overdue = false): void {
+    this.sendToUser(clientId, {
+      type: "document",
+      title: overdue ? "Documento Vencido" : "Documento Solicitado",
+      message: overdue
+        ? `Recordatorio: su preparador todavía necesita: ${description}`
+        : `Su preparador necesita: ${description}`,
+      data: { requestId, caseId, overdue },
+    });
+  }
+
+  /**
+   * Notifica al cliente que su preparador revisó un documento
+   * 
+   * @param clientId - ID del cliente dueño del documento
+   * @param documentId - ID del documento
+   * @param documentName - Nombre del archivo
+   * @param reviewStatus - 'accepted' o 'rejected'
+   * @param rejectionReason - Motivo del rechazo (solo si fue rechazado)
+   */
+  notifyDocumentReviewed(
+    clientId: number,
+    documentId: number,
+    documentName: string,
+    reviewStatus: string,
+    rejectionReason?: string | null
+  ): void {
+    const rejected = reviewStatus === "rejected";
+    this.sendToUser(clientId, {
+      type: "document",
+      title: rejected ? "Documento Rechazado" : "Documento Aceptado",
+      message: rejected
+        ? `Vuelva a subir ${documentName}: ${rejectionReason}`
+        : `Su preparador aceptó ${documentName}`,
+      data: { documentId, reviewStatus, rejectionReason: rejectionReason ?? null },
+    });
+  }
+
+  /**
+   * Notifica al cliente que tiene un documento pendiente de firma
+   * 
+   * @param clientId - ID del cliente
+   * @param requestId - ID de la solicitud de firma
+   * @param caseId - ID del caso asociado
+   * @param title - Título del documento
+   */
+  notifySignatureRequested(clientId: number, requestId: number, caseId: number, title: string): void {
+    this.sendToUser(clientId, {
+      type: "document",
+      title: "Firma Requerida",
+      message: `Su preparador le pide firmar: ${title}`,
+      data: { signatureRequestId: requestId, caseId },
+    });
+  }
+
+  /**
+   * Notifica a preparadores que un cliente firmó un documento
+   * 
+   * @param clientName - Nombre del cliente
+   * @param requestId - ID de la solicitud de firma
+   * @param caseId - ID del caso asociado
+   * @param title - Título del documento
+   */
+  notifySignatureCompleted(clientName: string, requestId: number, caseId: number, title: string): void {
+    this.sendToPreparers({
+      type: "document",
+      title: "Documento Firmado",
+      message: `${clientName} firmó: ${title}`,
+      data: { signatureRequestId: requestId, caseId },
+    });
+  }
+
   /**
    * Notifica sobre una nueva cita agendada
    * 
@@ -564,6 +685,56 @@ class WebSocketService {
     });
   }
 
+  /**
+   * Notifica un cambio en una cita
+   * 
+   * Si el cambio lo hizo el cliente, avisa a los preparadores; si lo hizo
+   * el personal, avisa al cliente. La confirmación de asistencia siempre
+   * la hace el cliente.
+   * 
+   * @param clientId - ID del cliente
+   * @param appointmentId - ID de la cita
+   * @param change - Tipo de cambio
+   * @param dateTime - Fecha y hora ISO de la cita (la nueva, si se reprogramó)
+   * @param changedByClient - Si el cambio lo hizo el cliente
+   */
+  notifyAppointmentChanged(
+    clientId: number,
+    appointmentId: number,
+    change: "cancelled" | "rescheduled" | "completed" | "confirmed",
+    dateTime: string,
+    changedByClient: boolean
+  ): void {
+    const titles = {
+      cancelled: "Cita Cancelada",
+      rescheduled: "Cita Reprogramada",
+      completed: "Cita Completada",
+      confirmed: "Cita Confirmada",
+    };
+    const clientActions = {
+      cancelled: "canceló",
+      rescheduled: "reprogramó",
+      completed: "completó",
+      confirmed: "confirmó",
+    };
+    const notification = {
+      type: "appointment" as const,
+      title: titles[change],
+      message: changedByClient
+        ? `Un cliente ${clientActions[change]} su cita`
+        : change === "completed"
+        ? "Su cita fue marcada como completada"
+        : `Su cita fue ${change === "cancelled" ? "cancelada" : "reprogramada"} por la oficina`,
+      data: { appointmentId, clientId, change, dateTime },
+    };
+
+    if (changedByClient) {
+      this.sendToPreparers(notification);
+    } else {
+      this.sendToUser(clientId, notification);
+    }
+  }
+
   // ===========================================================================
   // MÉTODOS DE UTILIDAD
   // ===========================================================================
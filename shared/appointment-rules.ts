@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Reglas de Cambio de Citas
+ *
+ * Define quién puede cancelar, reprogramar o completar una cita y hasta
+ * cuándo. El servidor las usa para validar los cambios y el panel del
+ * cliente y el de administración para ofrecer solo las acciones válidas.
+ *
+ * Este módulo no depende de Drizzle para poder importarse desde el cliente.
+ *
+ * @module shared/appointment-rules
+ * @version 1.0.0
+ *
+ * ## Reglas
+ * - Solo las citas agendadas ('scheduled') pueden cambiar; 'completed' y
+ *   'cancelled' son estados finales
+ * - El cliente puede cancelar o reprogramar hasta
+ *   CLIENT_CHANGE_CUTOFF_MINUTES antes del inicio; después debe
+ *   contactar a la oficina
+ * - El personal puede cancelar o reprogramar en cualquier momento
+ * - Una cita se marca completada solo desde su hora de inicio
+ *
+ * @example
+ * import { canClientChangeAppointment } from '@shared/appointment-rules';
+ *
+ * canClientChangeAppointment(appointment); // false si faltan menos de 2 horas
+ */
+
+/** Anticipación mínima para que el cliente cancele o reprograme (2 horas) */
+export const CLIENT_CHANGE_CUTOFF_MINUTES = 120;
+
+/** Datos de la cita que usan las reglas */
+interface AppointmentLike {
+  appointmentDate: Date | string;
+  status: string;
+}
+
+/**
+ * Indica si el cliente puede cancelar o reprogramar una cita
+ *
+ * @param appointment - Cita
+ * @param now - Momento de referencia (por defecto, ahora)
+ */
+export function canClientChangeAppointment(appointment: AppointmentLike, now: Date = new Date()): boolean {
+  return (
+    appointment.status === "scheduled" &&
+    new Date(appointment.appointmentDate).getTime() - now.getTime() >= CLIENT_CHANGE_CUTOFF_MINUTES * 60 * 1000
+  );
+}
+
+/**
+ * Indica si una cita puede marcarse como completada
+ *
+ * @param appointment - Cita
+ * @param now - Momento de referencia (por defecto, ahora)
+ */
+export function canCompleteAppointment(appointment: AppointmentLike, now: Date = new Date()): boolean {
+  return appointment.status === "scheduled" && new Date(appointment.appointmentDate).getTime() <= now.getTime();
+}
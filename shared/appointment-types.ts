@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Tipos de Cita
+ *
+ * Define los tipos de cita que ofrece la oficina, con su duración, el
+ * tiempo libre que se reserva después de cada una y los lugares donde
+ * pueden atenderse. El servidor lo usa para calcular horarios y validar
+ * las citas, y el panel del cliente para ofrecer las opciones.
+ *
+ * Este módulo no depende de Drizzle para poder importarse desde el cliente.
+ *
+ * @module shared/appointment-types
+ * @version 1.0.0
+ *
+ * ## Intervalo ocupado
+ * Una cita ocupa al preparador desde su inicio hasta el fin de la cita
+ * más el margen (bufferMinutes), que se usa para notas y preparar la
+ * siguiente. Dos citas del mismo preparador no pueden tener intervalos
+ * ocupados superpuestos. La duración y el margen se copian en la cita al
+ * agendarla, así un cambio en esta tabla no altera las citas existentes.
+ *
+ * @example
+ * import { APPOINTMENT_TYPE_CONFIG, isAppointmentLocationAllowed } from '@shared/appointment-types';
+ *
+ * APPOINTMENT_TYPE_CONFIG.return_review.durationMinutes; // 45
+ * isAppointmentLocationAllowed('itin_interview', 'video'); // false
+ */
+
+/**
+ * Tipos de cita
+ *
+ * Los tipos nuevos se agregan siempre al final para que el enum de
+ * PostgreSQL pueda ampliarse sin recrearlo.
+ */
+export const APPOINTMENT_TYPES = [
+  "initial_consultation",
+  "document_dropoff",
+  "return_review",
+  "itin_interview",
+] as const;
+
+/** Tipo de cita */
+export type AppointmentType = (typeof APPOINTMENT_TYPES)[number];
+
+/** Lugares de atención */
+export const APPOINTMENT_LOCATIONS = ["office", "phone", "video"] as const;
+
+/** Lugar de atención */
+export type AppointmentLocation = (typeof APPOINTMENT_LOCATIONS)[number];
+
+/**
+ * Configuración de un tipo de cita
+ *
+ * @property durationMinutes - Duración de la cita
+ * @property bufferMinutes - Tiempo libre que se reserva después de la cita
+ * @property locations - Lugares permitidos; el primero es el predeterminado
+ */
+export interface AppointmentTypeConfig {
+  durationMinutes: number;
+  bufferMinutes: number;
+  locations: readonly AppointmentLocation[];
+}
+
+/**
+ * Configuración de cada tipo de cita
+ *
+ * La entrega de documentos y la entrevista ITIN son solo en la oficina:
+ * en la primera se reciben papeles y en la segunda se certifican los
+ * documentos de identidad originales.
+ */
+export const APPOINTMENT_TYPE_CONFIG: Record<AppointmentType, AppointmentTypeConfig> = {
+  initial_consultation: { durationMinutes: 60, bufferMinutes: 15, locations: ["office", "phone", "video"] },
+  document_dropoff: { durationMinutes: 15, bufferMinutes: 0, locations: ["office"] },
+  return_review: { durationMinutes: 45, bufferMinutes: 15, locations: ["office", "video"] },
+  itin_interview: { durationMinutes: 60, bufferMinutes: 15, locations: ["office"] },
+};
+
+/**
+ * Indica si un tipo de cita puede atenderse en un lugar
+ *
+ * @param type - Tipo de cita
+ * @param location - Lugar de atención
+ */
+export function isAppointmentLocationAllowed(type: AppointmentType, location: AppointmentLocation): boolean {
+  return APPOINTMENT_TYPE_CONFIG[type].locations.includes(location);
+}
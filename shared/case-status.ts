@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Máquina de Estados de Casos Tributarios
+ *
+ * Define los estados posibles de un caso y las transiciones permitidas
+ * entre ellos. Es la única fuente de verdad para el flujo de un caso:
+ * el servidor la usa para validar cambios de estado y el panel de
+ * administración para ofrecer solo los siguientes estados legales.
+ *
+ * Este módulo no depende de Drizzle para poder importarse desde el cliente.
+ *
+ * @module shared/case-status
+ * @version 1.0.0
+ *
+ * ## Flujo Principal
+ * pending → in_process → sent_to_irs → approved → refund_issued
+ *
+ * ## Caminos Alternativos
+ * - Documentos: pending / in_process → awaiting_documents → in_process
+ * - Rechazo del IRS: sent_to_irs → rejected_by_irs → in_process / sent_to_irs
+ * - Enmienda (1040-X): approved / refund_issued → amended → sent_to_irs
+ * - Cierre: casi cualquier estado → closed; closed → in_process reabre el caso
+ * - Reapertura: approved / refund_issued → in_process
+ *
+ * ## Autorización de Presentación
+ * Pasar a sent_to_irs requiere un Form 8879 firmado en la ronda de
+ * presentación actual. Un rechazo del IRS, una enmienda o la reapertura
+ * de un caso presentado o cerrado inician una ronda nueva: el 8879
+ * firmado antes ya no autoriza el siguiente envío.
+ *
+ * @example
+ * import { canTransitionCaseStatus, getAllowedCaseStatuses } from '@shared/case-status';
+ *
+ * canTransitionCaseStatus('pending', 'refund_issued'); // false
+ * getAllowedCaseStatuses('sent_to_irs'); // ['approved', 'rejected_by_irs']
+ */
+
+/**
+ * Estados posibles de un caso tributario
+ *
+ * Los cinco primeros siguen el flujo principal. Los estados nuevos se
+ * agregan siempre al final para que el enum de PostgreSQL pueda
+ * ampliarse sin recrearlo.
+ */
+export const CASE_STATUSES = [
+  "pending",
+  "in_process",
+  "sent_to_irs",
+  "approved",
+  "refund_issued",
+  "awaiting_documents",
+  "rejected_by_irs",
+  "amended",
+  "closed",
+] as const;
+
+/** Estado de un caso tributario */
+export type CaseStatus = (typeof CASE_STATUSES)[number];
+
+/**
+ * Tabla de transiciones permitidas
+ *
+ * Para cada estado, lista los estados a los que puede pasar un caso.
+ * Mantener el mismo estado nunca se considera una transición.
+ */
+export const CASE_STATUS_TRANSITIONS: Record<CaseStatus, readonly CaseStatus[]> = {
+  pending: ["in_process", "awaiting_documents", "closed"],
+  awaiting_documents: ["in_process", "closed"],
+  in_process: ["sent_to_irs", "awaiting_documents", "pending", "closed"],
+  sent_to_irs: ["approved", "rejected_by_irs"],
+  rejected_by_irs: ["in_process", "sent_to_irs", "closed"],
+  approved: ["refund_issued", "amended", "in_process", "closed"],
+  refund_issued: ["amended", "in_process", "closed"],
+  amended: ["sent_to_irs", "in_process", "closed"],
+  closed: ["in_process"],
+};
+
+/**
+ * Verifica si un valor es un estado de caso válido
+ *
+ * @param value - Valor a verificar
+ * @returns true si es uno de CASE_STATUSES
+ */
+export function isCaseStatus(value: string): value is CaseStatus {
+  return (CASE_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Obtiene los siguientes estados legales desde un estado dado
+ *
+ * @param from - Estado actual del caso
+ * @returns Estados a los que puede transicionar (vacío si el estado es desconocido)
+ */
+export function getAllowedCaseStatuses(from: string): readonly CaseStatus[] {
+  return isCaseStatus(from) ? CASE_STATUS_TRANSITIONS[from] : [];
+}
+
+/**
+ * Verifica si un cambio de estado está permitido
+ *
+ * @param from - Estado actual
+ * @param to - Estado solicitado
+ * @returns true si from === to o si la transición está en la tabla
+ */
+export function canTransitionCaseStatus(from: string, to: string): boolean {
+  return from === to || getAllowedCaseStatuses(from).some((status) => status === to);
+}
+
+/** Estados desde los que volver a preparar el caso inicia una nueva presentación */
+const REOPENED_FROM_STATUSES: readonly CaseStatus[] = ["approved", "refund_issued", "closed"];
+
+/**
+ * Indica si un cambio de estado inicia una nueva ronda de presentación
+ *
+ * @param from - Estado anterior
+ * @param to - Estado nuevo
+ * @returns true si el caso fue rechazado, enmendado o reabierto
+ */
+export function startsNewFilingRound(from: string, to: string): boolean {
+  return (
+    to === "rejected_by_irs" ||
+    to === "amended" ||
+    (to === "in_process" && REOPENED_FROM_STATUSES.some((status) => status === from))
+  );
+}
+
+/**
+ * Error lanzado al intentar una transición de estado no permitida
+ *
+ * Incluye los estados permitidos para que la API pueda devolverlos
+ * al cliente junto con el 409.
+ */
+export class CaseStatusTransitionError extends Error {
+  readonly from: string;
+  readonly to: string;
+  readonly allowed: readonly CaseStatus[];
+
+  constructor(from: string, to: string) {
+    super(`Transición de estado no permitida: ${from} → ${to}`);
+    this.name = "CaseStatusTransitionError";
+    this.from = from;
+    this.to = to;
+    this.allowed = getAllowedCaseStatuses(from);
+  }
+}
+
+/**
+ * Error lanzado al enviar un caso al IRS sin un Form 8879 firmado en la
+ * ronda de presentación actual
+ */
+export class FilingAuthorizationRequiredError extends Error {
+  constructor() {
+    super("El cliente debe firmar el Form 8879 antes de enviar el caso al IRS");
+    this.name = "FilingAuthorizationRequiredError";
+  }
+}
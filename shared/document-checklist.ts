@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Lista de Documentos Requeridos por Caso
+ *
+ * Genera la lista de documentos que necesita un caso a partir de su
+ * tipo, estado civil y respuestas del cuestionario de admisión, y la
+ * compara con los documentos subidos a ese caso.
+ *
+ * La lista no se guarda: se calcula cada vez, de modo que un cambio en
+ * el caso o un documento nuevo se reflejan de inmediato. Un requisito
+ * queda cumplido cuando hay suficientes documentos de su categoría
+ * vinculados al caso (caseId).
+ *
+ * Este módulo no depende de Drizzle para poder importarse desde el cliente.
+ *
+ * @module shared/document-checklist
+ * @version 1.0.0
+ *
+ * @example
+ * import { buildDocumentChecklist, evaluateDocumentChecklist } from '@shared/document-checklist';
+ *
+ * const requirements = buildDocumentChecklist(taxCase);
+ * const checklist = evaluateDocumentChecklist(requirements, caseDocuments);
+ * checklist.percent; // 0-100
+ */
+
+import type { TaxCase, Document } from "./schema";
+
+/** Categoría de documento (documentCategoryEnum) */
+export type DocumentCategory = Document["category"];
+
+/**
+ * Documento requerido por un caso
+ *
+ * @property category - Categoría con la que debe subirse el documento
+ * @property required - Cantidad de documentos de esa categoría
+ * @property reasons - Motivos del requisito (fuentes de ingreso, deducciones,
+ *   'taxpayer', 'spouse', 'dependents'...) para mostrar al cliente
+ */
+export interface ChecklistRequirement {
+  category: DocumentCategory;
+  required: number;
+  reasons: string[];
+}
+
+/**
+ * Requisito evaluado contra los documentos subidos
+ *
+ * @property uploaded - Documentos de la categoría vinculados al caso
+ * @property satisfied - true si uploaded >= required
+ */
+export interface ChecklistItem extends ChecklistRequirement {
+  uploaded: number;
+  satisfied: boolean;
+}
+
+/**
+ * Lista de documentos de un caso con su progreso
+ *
+ * @property items - Requisitos en orden de presentación
+ * @property completed - Documentos requeridos ya recibidos
+ * @property total - Documentos requeridos en total
+ * @property percent - Progreso de 0 a 100
+ */
+export interface DocumentChecklist {
+  items: ChecklistItem[];
+  completed: number;
+  total: number;
+  percent: number;
+}
+
+/** Campos del caso que determinan los documentos requeridos */
+export type ChecklistCase = Pick<TaxCase, "caseType" | "filingStatus" | "dependents" | "intake">;
+
+/** Fuentes de ingreso que se justifican con un formulario 1099 */
+const FORM_1099_SOURCES = ["self_employment", "gig_economy", "unemployment", "social_security", "retirement", "investments"];
+
+/** Fuentes de ingreso que se justifican con estados de cuenta */
+const STATEMENT_SOURCES = ["self_employment", "rental"];
+
+/** Deducciones que requieren comprobantes (1098, recibos) */
+const RECEIPT_DEDUCTIONS = [
+  "mortgage_interest",
+  "property_tax",
+  "charitable",
+  "medical",
+  "student_loan",
+  "education",
+  "childcare",
+  "retirement_contributions",
+];
+
+/** Orden en que se presentan las categorías */
+const CATEGORY_ORDER: DocumentCategory[] = [
+  "id_document",
+  "social_security",
+  "proof_of_address",
+  "w2",
+  "form_1099",
+  "bank_statement",
+  "receipt",
+  "previous_return",
+];
+
+/**
+ * Acumula requisitos por categoría
+ *
+ * Varias reglas pueden pedir la misma categoría; se suman las
+ * cantidades y se conservan todos los motivos.
+ */
+function addRequirement(
+  map: Map<DocumentCategory, ChecklistRequirement>,
+  category: DocumentCategory,
+  required: number,
+  reason: string,
+): void {
+  if (required <= 0) return;
+  const existing = map.get(category);
+  if (existing) {
+    existing.required += required;
+    existing.reasons.push(reason);
+  } else {
+    map.set(category, { category, required, reasons: [reason] });
+  }
+}
+
+/**
+ * Genera los documentos requeridos para un caso
+ *
+ * @param taxCase - Caso (tipo, estado civil, dependientes y cuestionario)
+ * @returns Requisitos agrupados por categoría
+ */
+export function buildDocumentChecklist(taxCase: ChecklistCase): ChecklistRequirement[] {
+  const map = new Map<DocumentCategory, ChecklistRequirement>();
+  const intake = taxCase.intake;
+
+  switch (taxCase.caseType) {
+    case "individual": {
+      const filingStatus = intake?.filingStatus ?? taxCase.filingStatus;
+      const hasSpouse = filingStatus === "married_filing_jointly";
+      const dependentCount = intake ? intake.dependents.length : taxCase.dependents ?? 0;
+
+      addRequirement(map, "id_document", 1, "taxpayer");
+      addRequirement(map, "social_security", 1, "taxpayer");
+      if (hasSpouse) {
+        addRequirement(map, "id_document", 1, "spouse");
+        addRequirement(map, "social_security", 1, "spouse");
+      }
+      addRequirement(map, "social_security", dependentCount, "dependents");
+      addRequirement(map, "proof_of_address", 1, "taxpayer");
+      addRequirement(map, "previous_return", 1, "taxpayer");
+
+      if (intake) {
+        if (intake.incomeSources.includes("w2")) {
+          addRequirement(map, "w2", intake.w2Employers ?? 1, "w2");
+        }
+        for (const source of intake.incomeSources) {
+          if (FORM_1099_SOURCES.includes(source)) addRequirement(map, "form_1099", 1, source);
+          if (STATEMENT_SOURCES.includes(source)) addRequirement(map, "bank_statement", 1, source);
+        }
+        for (const deduction of intake.deductions) {
+          if (RECEIPT_DEDUCTIONS.includes(deduction)) addRequirement(map, "receipt", 1, deduction);
+        }
+      }
+      break;
+    }
+    case "business":
+      addRequirement(map, "id_document", 1, "taxpayer");
+      addRequirement(map, "bank_statement", 1, "business");
+      addRequirement(map, "receipt", 1, "business");
+      addRequirement(map, "previous_return", 1, "business");
+      break;
+    case "itin":
+      addRequirement(map, "id_document", 1, "taxpayer");
+      addRequirement(map, "proof_of_address", 1, "taxpayer");
+      break;
+    case "amendment":
+      addRequirement(map, "id_document", 1, "taxpayer");
+      addRequirement(map, "previous_return", 1, "amendment");
+      break;
+    case "planning":
+      addRequirement(map, "previous_return", 1, "taxpayer");
+      break;
+    case "bookkeeping":
+      addRequirement(map, "bank_statement", 1, "business");
+      addRequirement(map, "receipt", 1, "business");
+      break;
+    case "payroll":
+      addRequirement(map, "id_document", 1, "taxpayer");
+      addRequirement(map, "bank_statement", 1, "business");
+      break;
+  }
+
+  return CATEGORY_ORDER.filter((category) => map.has(category)).map((category) => map.get(category)!);
+}
+
+/**
+ * Compara los requisitos con los documentos subidos al caso
+ *
+ * @param requirements - Resultado de buildDocumentChecklist
+ * @param caseDocuments - Documentos vinculados al caso
+ * @returns Lista evaluada con el progreso total
+ */
+export function evaluateDocumentChecklist(
+  requirements: ChecklistRequirement[],
+  caseDocuments: Pick<Document, "category">[],
+): DocumentChecklist {
+  const items = requirements.map((requirement) => {
+    const uploaded = caseDocuments.filter((doc) => doc.category === requirement.category).length;
+    return { ...requirement, uploaded, satisfied: uploaded >= requirement.required };
+  });
+
+  const total = items.reduce((sum, item) => sum + item.required, 0);
+  const completed = items.reduce((sum, item) => sum + Math.min(item.uploaded, item.required), 0);
+
+  return {
+    items,
+    completed,
+    total,
+    percent: total > 0 ? Math.round((completed / total) * 100) : 100,
+  };
+}
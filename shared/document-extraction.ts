@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Campos Extraídos de Formularios W-2 y 1099
+ *
+ * Define qué datos se extraen por OCR de cada tipo de formulario. El
+ * servidor los usa para guardar y validar las extracciones, y el panel
+ * de administración para mostrar el formulario de revisión.
+ *
+ * Todos los valores se guardan como texto tal como se normalizaron
+ * (montos sin símbolo ni separadores de miles, p. ej. "52340.15"), de
+ * modo que el preparador pueda corregirlos sin conversiones.
+ *
+ * Este módulo no depende de Drizzle para poder importarse desde el cliente.
+ *
+ * @module shared/document-extraction
+ * @version 1.0.0
+ *
+ * @example
+ * import { EXTRACTION_FIELDS, isExtractionFormType } from '@shared/document-extraction';
+ *
+ * if (isExtractionFormType(document.category)) {
+ *   EXTRACTION_FIELDS[document.category]; // ['employerEin', 'wages', ...]
+ * }
+ */
+
+/** Categorías de documento a las que se aplica OCR */
+export const EXTRACTION_FORM_TYPES = ["w2", "form_1099"] as const;
+
+/** Categoría de documento con extracción de campos */
+export type ExtractionFormType = (typeof EXTRACTION_FORM_TYPES)[number];
+
+/**
+ * Campos extraídos de un formulario
+ *
+ * Un campo en null no se encontró en el documento.
+ */
+export type ExtractedFields = Record<string, string | null>;
+
+/**
+ * Campos por tipo de formulario, en orden de presentación
+ *
+ * W-2:
+ * - employerEin: EIN del empleador (casilla b)
+ * - wages: Salarios, propinas y otras compensaciones (casilla 1)
+ * - federalWithholding: Impuesto federal retenido (casilla 2)
+ * - socialSecurityWages: Salarios del Seguro Social (casilla 3)
+ * - medicareWages: Salarios de Medicare (casilla 5)
+ *
+ * 1099:
+ * - formVariant: Variante del formulario (NEC, MISC, INT, DIV, G, R)
+ * - payerTin: TIN del pagador
+ * - amount: Monto principal de la variante (casilla 1 en la mayoría)
+ * - federalWithholding: Impuesto federal retenido (casilla 4)
+ */
+export const EXTRACTION_FIELDS: Record<ExtractionFormType, readonly string[]> = {
+  w2: ["employerEin", "wages", "federalWithholding", "socialSecurityWages", "medicareWages"],
+  form_1099: ["formVariant", "payerTin", "amount", "federalWithholding"],
+};
+
+/**
+ * Indica si una categoría de documento admite extracción de campos
+ *
+ * @param category - Categoría del documento
+ */
+export function isExtractionFormType(category: string): category is ExtractionFormType {
+  return (EXTRACTION_FORM_TYPES as readonly string[]).includes(category);
+}
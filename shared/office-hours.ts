@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Horario de Atención de la Oficina
+ *
+ * Define el horario de atención de la oficina. El servidor lo usa para
+ * calcular los horarios de citas disponibles y la página "Nosotros" para
+ * mostrarlo, así ambos no pueden quedar desalineados.
+ *
+ * Este módulo no depende de Drizzle para poder importarse desde el cliente.
+ *
+ * @module shared/office-hours
+ * @version 1.0.0
+ *
+ * Las horas son de la zona horaria de la oficina (America/New_York).
+ *
+ * @example
+ * import { OFFICE_HOURS, formatOfficeHours } from '@shared/office-hours';
+ *
+ * formatOfficeHours(OFFICE_HOURS[6], 'en-US'); // '10:00 AM - 4:00 PM'
+ */
+
+/**
+ * Horario de un día
+ *
+ * @property start - Apertura, en minutos desde la medianoche
+ * @property end - Cierre, en minutos desde la medianoche
+ */
+export interface OfficeHours {
+  start: number;
+  end: number;
+}
+
+/**
+ * Horario de atención por día de la semana (0 = domingo). Los domingos
+ * se atiende solo con cita coordinada con la oficina, así que no se
+ * ofrecen horarios en línea.
+ */
+export const OFFICE_HOURS: Record<number, OfficeHours | null> = {
+  0: null,
+  1: { start: 9 * 60, end: 19 * 60 },
+  2: { start: 9 * 60, end: 19 * 60 },
+  3: { start: 9 * 60, end: 19 * 60 },
+  4: { start: 9 * 60, end: 19 * 60 },
+  5: { start: 9 * 60, end: 19 * 60 },
+  6: { start: 10 * 60, end: 16 * 60 },
+};
+
+/**
+ * Formatea una hora del día en el formato del idioma
+ *
+ * @param minutes - Minutos desde la medianoche
+ * @param locale - Idioma (BCP 47)
+ */
+function formatMinutes(minutes: number, locale: string): string {
+  const time = new Date(Date.UTC(2000, 0, 1, Math.floor(minutes / 60), minutes % 60));
+  return new Intl.DateTimeFormat(locale, { hour: "numeric", minute: "2-digit", timeZone: "UTC" }).format(time);
+}
+
+/**
+ * Formatea el horario de un día, p. ej. '9:00 AM - 7:00 PM'
+ *
+ * @param hours - Horario del día
+ * @param locale - Idioma (BCP 47)
+ * @returns Rango de horas, o cadena vacía si la oficina no abre
+ */
+export function formatOfficeHours(hours: OfficeHours | null, locale: string): string {
+  if (!hours) return "";
+  return `${formatMinutes(hours.start, locale)} - ${formatMinutes(hours.end, locale)}`;
+}
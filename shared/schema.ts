@@ -11,8 +11,16 @@
  * ## Entidades Principales
  * - **users**: Usuarios del sistema (clientes, preparadores, admins)
  * - **taxCases**: Casos de declaración de impuestos por año
+ * - **caseStatusHistory**: Historial de cambios de estado de cada caso
+ * - **dependents**: Dependientes de cada cliente (SSN cifrado)
+ * - **caseDependents**: Dependientes declarados en cada caso
  * - **documents**: Documentos tributarios subidos
+ * - **documentVersions**: Archivos de cada versión de un documento
+ * - **documentRequests**: Documentos solicitados por el preparador
+ * - **signatureRequests**: Documentos enviados al cliente para firma electrónica
  * - **appointments**: Citas programadas con preparadores
+ * - **preparerAvailability**: Horario semanal de atención de cada preparador
+ * - **availabilityBlocks**: Feriados y horas bloqueadas de la agenda
  * - **messages**: Sistema de mensajería entre usuarios
  * - **contactSubmissions**: Formularios de contacto del sitio público
  * - **activityLogs**: Registro de auditoría del sistema
@@ -32,10 +40,13 @@
  */
 
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, decimal, pgEnum, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, decimal, pgEnum, jsonb, index, uniqueIndex, date } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { CASE_STATUSES } from "./case-status";
+import { APPOINTMENT_TYPES, APPOINTMENT_LOCATIONS } from "./appointment-types";
+import type { ExtractedFields } from "./document-extraction";
 
 // =============================================================================
 // ENUMERACIONES
@@ -58,8 +69,14 @@ export const userRoleEnum = pgEnum("user_role", ["admin", "preparer", "client"])
  * @property sent_to_irs - Enviado al IRS
  * @property approved - Aprobado por el IRS
  * @property refund_issued - Reembolso emitido
+ * @property awaiting_documents - Esperando documentos del cliente
+ * @property rejected_by_irs - Rechazado por el IRS, requiere corrección
+ * @property amended - Declaración enmendada (1040-X)
+ * @property closed - Caso cerrado o retirado
+ * 
+ * Las transiciones permitidas entre estados están en shared/case-status.ts
  */
-export const caseStatusEnum = pgEnum("case_status", ["pending", "in_process", "sent_to_irs", "approved", "refund_issued"]);
+export const caseStatusEnum = pgEnum("case_status", CASE_STATUSES);
 
 /**
  * Estados de una cita
@@ -70,6 +87,35 @@ export const caseStatusEnum = pgEnum("case_status", ["pending", "in_process", "s
  */
 export const appointmentStatusEnum = pgEnum("appointment_status", ["scheduled", "completed", "cancelled"]);
 
+/**
+ * Tipos de cita
+ * 
+ * @property initial_consultation - Consulta inicial
+ * @property document_dropoff - Entrega de documentos
+ * @property return_review - Revisión y firma de la declaración
+ * @property itin_interview - Entrevista ITIN (W-7)
+ * 
+ * La duración, el margen y los lugares de cada tipo están en shared/appointment-types.ts
+ */
+export const appointmentTypeEnum = pgEnum("appointment_type", APPOINTMENT_TYPES);
+
+/**
+ * Lugares de atención de una cita
+ * 
+ * @property office - En la oficina
+ * @property phone - Por teléfono
+ * @property video - Por videollamada
+ */
+export const appointmentLocationEnum = pgEnum("appointment_location", APPOINTMENT_LOCATIONS);
+
+/**
+ * Recordatorios automáticos de una cita
+ * 
+ * @property day_before - 24 horas antes
+ * @property hour_before - 1 hora antes
+ */
+export const appointmentReminderKindEnum = pgEnum("appointment_reminder_kind", ["day_before", "hour_before"]);
+
 /**
  * Estados civiles para declaración de impuestos (IRS filing status)
  * 
@@ -87,6 +133,48 @@ export const filingStatusEnum = pgEnum("filing_status", [
   "qualifying_widow"
 ]);
 
+/**
+ * Tipos de caso (servicio contratado)
+ * 
+ * @property individual - Declaración personal (1040)
+ * @property business - Declaración de negocio (LLC, Schedule C, corporaciones)
+ * @property itin - Solicitud o renovación de ITIN (W-7)
+ * @property amendment - Enmienda de una declaración anterior (1040-X)
+ * @property planning - Planificación fiscal
+ * @property bookkeeping - Contabilidad / teneduría de libros
+ * @property payroll - Servicio de nómina
+ */
+export const caseTypeEnum = pgEnum("case_type", [
+  "individual",
+  "business",
+  "itin",
+  "amendment",
+  "planning",
+  "bookkeeping",
+  "payroll"
+]);
+
+/**
+ * Parentesco de un dependiente con el contribuyente
+ * 
+ * @property child - Hijo/a
+ * @property stepchild - Hijastro/a
+ * @property foster_child - Hijo/a de crianza
+ * @property sibling - Hermano/a
+ * @property parent - Padre o madre
+ * @property grandchild - Nieto/a
+ * @property other - Otro pariente calificado
+ */
+export const dependentRelationshipEnum = pgEnum("dependent_relationship", [
+  "child",
+  "stepchild",
+  "foster_child",
+  "sibling",
+  "parent",
+  "grandchild",
+  "other"
+]);
+
 /**
  * Proveedores de autenticación OAuth soportados
  * 
@@ -110,6 +198,9 @@ export const authProviderEnum = pgEnum("auth_provider", ["local", "google", "git
  * @property social_security - Tarjeta de seguro social
  * @property proof_of_address - Comprobante de domicilio
  * @property other - Otros documentos
+ * @property tax_return - Declaración preparada por el preparador
+ * @property irs_letter - Carta o aviso del IRS
+ * @property signed_form - Formulario firmado (8879, poderes)
  */
 export const documentCategoryEnum = pgEnum("document_category", [
   "id_document",
@@ -120,7 +211,84 @@ export const documentCategoryEnum = pgEnum("document_category", [
   "previous_return",
   "social_security",
   "proof_of_address",
-  "other"
+  "other",
+  "tax_return",
+  "irs_letter",
+  "signed_form"
+]);
+
+/**
+ * Estados de una solicitud de documento
+ * 
+ * @property open - Pendiente de que el cliente suba el documento
+ * @property fulfilled - El cliente subió el documento solicitado
+ * @property waived - El preparador ya no necesita el documento
+ */
+export const documentRequestStatusEnum = pgEnum("document_request_status", ["open", "fulfilled", "waived"]);
+
+/**
+ * Tipos de documento que se envían a firmar
+ * 
+ * @property form_8879 - Autorización de presentación electrónica del IRS (Form 8879)
+ * @property engagement_letter - Carta de compromiso con el cliente
+ */
+export const signatureRequestKindEnum = pgEnum("signature_request_kind", ["form_8879", "engagement_letter"]);
+
+/**
+ * Estados de una solicitud de firma
+ * 
+ * @property pending - Esperando la firma del cliente
+ * @property signed - El cliente firmó; el PDF firmado está en documents
+ * @property cancelled - El preparador la anuló (p. ej. para enviar otra versión)
+ */
+export const signatureRequestStatusEnum = pgEnum("signature_request_status", ["pending", "signed", "cancelled"]);
+
+/**
+ * Forma en que el cliente firmó
+ * 
+ * @property typed - Escribió su nombre
+ * @property drawn - Dibujó la firma en pantalla
+ */
+export const signatureTypeEnum = pgEnum("signature_type", ["typed", "drawn"]);
+
+/**
+ * Estados de revisión de un documento
+ * 
+ * @property received - Subido, pendiente de revisión del preparador
+ * @property accepted - El preparador lo aceptó
+ * @property rejected - El preparador lo rechazó (ilegible, año incorrecto...)
+ *   y el cliente debe volver a subirlo
+ */
+export const documentReviewStatusEnum = pgEnum("document_review_status", ["received", "accepted", "rejected"]);
+
+/**
+ * Estados de la extracción OCR de un documento
+ * 
+ * @property pending - En cola para procesarse
+ * @property processing - El job de OCR la está procesando
+ * @property extracted - Campos extraídos, pendientes de revisión
+ * @property failed - El OCR falló tras varios intentos
+ * @property reviewed - El preparador revisó y corrigió los campos
+ */
+export const documentExtractionStatusEnum = pgEnum("document_extraction_status", [
+  "pending",
+  "processing",
+  "extracted",
+  "failed",
+  "reviewed"
+]);
+
+/**
+ * Motivos por los que una subida queda en cuarentena
+ * 
+ * @property virus_detected - El antivirus detectó una firma maliciosa
+ * @property active_content - Macros o contenido activo que no pudo eliminarse
+ * @property scan_failed - El antivirus no respondió y el archivo no pudo verificarse
+ */
+export const uploadQuarantineReasonEnum = pgEnum("upload_quarantine_reason", [
+  "virus_detected",
+  "active_content",
+  "scan_failed"
 ]);
 
 // =============================================================================
@@ -271,6 +439,10 @@ export const authIdentities = pgTable("auth_identities", {
  * 
  * @property id - ID único del caso
  * @property clientId - Referencia al cliente (usuario)
+ * @property assignedPreparerId - Preparador responsable del caso (nullable)
+ * @property caseType - Tipo de caso / servicio contratado
+ * @property details - Campos específicos del tipo de caso (ver caseDetailsSchemas)
+ * @property intake - Respuestas del cuestionario de admisión (casos abiertos por el cliente)
  * @property filingYear - Año fiscal de la declaración (ej: 2024)
  * @property filingStatus - Estado civil para declaración
  * @property dependents - Número de dependientes
@@ -284,6 +456,13 @@ export const taxCases = pgTable("tax_cases", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   /** @FK users.id - Cliente dueño del caso */
   clientId: integer("client_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  /** @FK users.id - Preparador asignado (null = sin asignar) */
+  assignedPreparerId: integer("assigned_preparer_id").references(() => users.id, { onDelete: "set null" }),
+  caseType: caseTypeEnum("case_type").notNull().default("individual"),
+  /** Validado con caseDetailsSchemas[caseType] antes de guardar */
+  details: jsonb("details").$type<CaseDetails>(),
+  /** Validado con intakeAnswersSchema; null si el caso lo creó un preparador */
+  intake: jsonb("intake").$type<IntakeAnswers>(),
   filingYear: integer("filing_year").notNull(),
   filingStatus: filingStatusEnum("filing_status"),
   dependents: integer("dependents").default(0),
@@ -295,6 +474,91 @@ export const taxCases = pgTable("tax_cases", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// =============================================================================
+// TABLA DE HISTORIAL DE ESTADOS DE CASOS
+// =============================================================================
+
+/**
+ * Tabla de historial de cambios de estado de casos tributarios
+ * 
+ * Se escribe una fila cada vez que un caso cambia de estado, lo que
+ * permite mostrar al cliente una línea de tiempo de su declaración.
+ * 
+ * @property id - ID único del registro
+ * @property caseId - Caso cuyo estado cambió
+ * @property fromStatus - Estado anterior
+ * @property toStatus - Estado nuevo
+ * @property changedById - Usuario que realizó el cambio (nullable para sistema)
+ * @property notes - Notas asociadas al cambio
+ * @property createdAt - Fecha del cambio
+ */
+export const caseStatusHistory = pgTable("case_status_history", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK taxCases.id - Caso asociado */
+  caseId: integer("case_id").notNull().references(() => taxCases.id, { onDelete: "cascade" }),
+  fromStatus: caseStatusEnum("from_status").notNull(),
+  toStatus: caseStatusEnum("to_status").notNull(),
+  /** @FK users.id - Usuario que cambió el estado (nullable) */
+  changedById: integer("changed_by_id").references(() => users.id, { onDelete: "set null" }),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_case_status_history_case").on(table.caseId)]);
+
+// =============================================================================
+// TABLAS DE DEPENDIENTES
+// =============================================================================
+
+/**
+ * Tabla de dependientes de un cliente
+ * 
+ * Los dependientes pertenecen al cliente y no a un caso, para que
+ * se reutilicen año tras año sin volver a pedir sus datos.
+ * 
+ * @property id - ID único del dependiente
+ * @property clientId - Cliente del que depende
+ * @property name - Nombre completo
+ * @property dateOfBirth - Fecha de nacimiento (YYYY-MM-DD)
+ * @property relationship - Parentesco con el cliente
+ * @property ssnEncrypted - SSN cifrado con AES-256-GCM (ver server/encryption)
+ * @property ssnLast4 - Últimos 4 dígitos del SSN para mostrar enmascarado
+ * @property createdAt - Fecha de creación
+ * @property updatedAt - Fecha de última actualización
+ */
+export const dependents = pgTable("dependents", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK users.id - Cliente dueño */
+  clientId: integer("client_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  dateOfBirth: date("date_of_birth", { mode: "string" }).notNull(),
+  relationship: dependentRelationshipEnum("relationship").notNull(),
+  /** @security Nunca se devuelve en la API; solo se descifra bajo demanda */
+  ssnEncrypted: text("ssn_encrypted"),
+  ssnLast4: varchar("ssn_last4", { length: 4 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [index("IDX_dependents_client").on(table.clientId)]);
+
+/**
+ * Tabla de dependientes declarados en cada caso
+ * 
+ * Relaciona los dependientes del cliente con el caso (año fiscal)
+ * en el que se declaran. Al crear un caso nuevo se copian los del
+ * caso más reciente del cliente.
+ * 
+ * @property id - ID único del registro
+ * @property caseId - Caso en el que se declara
+ * @property dependentId - Dependiente declarado
+ * @property createdAt - Fecha de vinculación
+ */
+export const caseDependents = pgTable("case_dependents", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK taxCases.id - Caso asociado */
+  caseId: integer("case_id").notNull().references(() => taxCases.id, { onDelete: "cascade" }),
+  /** @FK dependents.id - Dependiente asociado */
+  dependentId: integer("dependent_id").notNull().references(() => dependents.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("UQ_case_dependents_case_dependent").on(table.caseId, table.dependentId)]);
+
 // =============================================================================
 // TABLA DE DOCUMENTOS
 // =============================================================================
@@ -312,11 +576,29 @@ export const taxCases = pgTable("tax_cases", {
  * @property filePath - Ruta en el servidor
  * @property fileType - Tipo MIME del archivo
  * @property fileSize - Tamaño en bytes
+ * @property previewPath - Miniatura JPEG en R2 (null si no hay vista previa)
+ * @property encryptionKey - Clave del archivo cifrada con la del cliente (null si se guardó sin cifrar)
  * @property category - Categoría del documento
  * @property description - Descripción opcional
  * @property uploadedById - Usuario que subió el documento
  * @property isFromPreparer - Si fue subido por preparador
+ * @property currentVersion - Número de la versión vigente
+ * @property reviewStatus - Estado de revisión del preparador
+ * @property rejectionReason - Motivo del rechazo, visible para el cliente
+ * @property reviewedById - Preparador que revisó el documento
+ * @property reviewedAt - Fecha de la última revisión
+ * @property deletedAt - Fecha de eliminación (soft delete); null si está activo
+ * @property deletedById - Usuario que lo eliminó
  * @property createdAt - Fecha de subida
+ * 
+ * Los campos de archivo (fileName, filePath, fileType, fileSize)
+ * corresponden siempre a la versión vigente; las anteriores se
+ * conservan en documentVersions.
+ * 
+ * Un documento eliminado deja de listarse de inmediato, pero sus
+ * archivos se borran de R2 solo al vencer el periodo de retención.
+ * 
+ * Reemplazar el archivo devuelve la revisión a 'received'.
  */
 export const documents = pgTable("documents", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -329,13 +611,341 @@ export const documents = pgTable("documents", {
   filePath: text("file_path").notNull(),
   fileType: varchar("file_type", { length: 100 }).notNull(),
   fileSize: integer("file_size"),
+  previewPath: text("preview_path"),
+  /** @security Clave de datos envuelta; el archivo y su miniatura están cifrados con ella */
+  encryptionKey: text("encryption_key"),
   category: documentCategoryEnum("category").notNull().default("other"),
   description: text("description"),
   /** @FK users.id - Usuario que subió */
   uploadedById: integer("uploaded_by_id").notNull().references(() => users.id),
   isFromPreparer: boolean("is_from_preparer").default(false),
+  currentVersion: integer("current_version").default(1).notNull(),
+  reviewStatus: documentReviewStatusEnum("review_status").default("received").notNull(),
+  rejectionReason: text("rejection_reason"),
+  /** @FK users.id - Preparador que revisó */
+  reviewedById: integer("reviewed_by_id").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  deletedAt: timestamp("deleted_at"),
+  /** @FK users.id - Usuario que eliminó */
+  deletedById: integer("deleted_by_id").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [index("IDX_documents_deleted_at").on(table.deletedAt)]);
+
+/**
+ * Tabla de versiones de documentos
+ * 
+ * Cada reemplazo de un documento agrega una versión con su propio
+ * objeto en R2; ninguna versión se sobrescribe.
+ * 
+ * @property id - ID único de la versión
+ * @property documentId - Documento lógico al que pertenece
+ * @property version - Número de versión (1 = subida original)
+ * @property fileName - Nombre original del archivo
+ * @property filePath - Clave en R2 o ruta en el servidor
+ * @property fileType - Tipo MIME del archivo
+ * @property fileSize - Tamaño en bytes
+ * @property previewPath - Miniatura JPEG de esta versión
+ * @property encryptionKey - Clave de datos envuelta de esta versión (null si no está cifrada)
+ * @property uploadedById - Usuario que subió esta versión
+ * @property createdAt - Fecha de subida de esta versión
+ */
+export const documentVersions = pgTable("document_versions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK documents.id - Documento lógico */
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  filePath: text("file_path").notNull(),
+  fileType: varchar("file_type", { length: 100 }).notNull(),
+  fileSize: integer("file_size"),
+  previewPath: text("preview_path"),
+  encryptionKey: text("encryption_key"),
+  /** @FK users.id - Usuario que subió */
+  uploadedById: integer("uploaded_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("UQ_document_versions_document_version").on(table.documentId, table.version)]);
+
+// =============================================================================
+// TABLA DE EXTRACCIONES OCR
+// =============================================================================
+
+/**
+ * Tabla de extracciones de campos por OCR
+ * 
+ * Guarda los datos clave leídos de los W-2 y 1099 para que el
+ * preparador los revise y corrija en lugar de transcribirlos.
+ * Hay una extracción por documento; reemplazar el archivo la
+ * devuelve a 'pending'.
+ * 
+ * @property id - ID único de la extracción
+ * @property documentId - Documento procesado
+ * @property formType - Tipo de formulario ('w2' o 'form_1099')
+ * @property status - Estado de la extracción
+ * @property fields - Campos extraídos (ver shared/document-extraction)
+ * @property confidence - Confianza media del OCR (0-100); null si el PDF tenía texto
+ * @property attempts - Intentos de procesamiento
+ * @property error - Último error del OCR
+ * @property reviewedById - Preparador que revisó los campos
+ * @property reviewedAt - Fecha de la revisión
+ * @property createdAt - Fecha de creación
+ * @property updatedAt - Fecha de última actualización
+ * 
+ * @security No se guarda el texto completo del OCR: los W-2 incluyen
+ *   el SSN del empleado
+ */
+export const documentExtractions = pgTable("document_extractions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK documents.id - Documento procesado */
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  formType: documentCategoryEnum("form_type").notNull(),
+  status: documentExtractionStatusEnum("status").notNull().default("pending"),
+  fields: jsonb("fields").$type<ExtractedFields>().notNull().default({}),
+  confidence: integer("confidence"),
+  attempts: integer("attempts").default(0).notNull(),
+  error: text("error"),
+  /** @FK users.id - Preparador que revisó */
+  reviewedById: integer("reviewed_by_id").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("UQ_document_extractions_document").on(table.documentId),
+  index("IDX_document_extractions_status").on(table.status),
+]);
+
+// =============================================================================
+// TABLA DE CLAVES DE CIFRADO DE CLIENTES
+// =============================================================================
+
+/**
+ * Tabla de claves de cifrado de clientes
+ * 
+ * Cifrado de sobre: cada archivo se cifra con su propia clave de datos,
+ * que se guarda envuelta con la clave del cliente; la clave del cliente
+ * se guarda aquí envuelta con la clave maestra. Rotar la clave maestra
+ * solo requiere volver a envolver estas filas.
+ * 
+ * @property id - ID único
+ * @property clientId - Cliente dueño de la clave (una por cliente)
+ * @property wrappedKey - Clave del cliente cifrada con la clave maestra
+ * @property masterKeyId - Identificador de la clave maestra que la envuelve
+ * @property createdAt - Fecha de creación
+ * @property rotatedAt - Última vez que se volvió a envolver (null si nunca)
+ */
+export const clientEncryptionKeys = pgTable("client_encryption_keys", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK users.id - Cliente dueño */
+  clientId: integer("client_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  /** @security Nunca se guarda la clave en claro */
+  wrappedKey: text("wrapped_key").notNull(),
+  masterKeyId: varchar("master_key_id", { length: 64 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  rotatedAt: timestamp("rotated_at"),
+}, (table) => [
+  uniqueIndex("UQ_client_encryption_keys_client").on(table.clientId),
+  index("IDX_client_encryption_keys_master").on(table.masterKeyId),
+]);
+
+// =============================================================================
+// TABLA DE SUBIDAS EN CUARENTENA
+// =============================================================================
+
+/**
+ * Tabla de subidas en cuarentena
+ * 
+ * Archivos sospechosos retenidos por la verificación de subidas: no
+ * llegan a crear un documento y se guardan en R2 bajo el prefijo
+ * 'quarantine/' para que un administrador los analice o elimine.
+ * 
+ * @property id - ID único de la subida retenida
+ * @property clientId - Cliente al que iba destinado el archivo
+ * @property uploadedById - Usuario que lo subió
+ * @property fileName - Nombre original del archivo
+ * @property filePath - Key del archivo retenido en R2 (null si no pudo guardarse)
+ * @property fileSize - Tamaño en bytes
+ * @property declaredType - Tipo MIME declarado por el navegador
+ * @property detectedType - Tipo MIME detectado por el contenido
+ * @property reason - Motivo de la cuarentena
+ * @property details - Detalle del motivo (firma del antivirus, contenido activo)
+ * @property createdAt - Fecha de la subida
+ */
+export const quarantinedUploads = pgTable("quarantined_uploads", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK users.id - Cliente destinatario */
+  clientId: integer("client_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  /** @FK users.id - Usuario que subió el archivo */
+  uploadedById: integer("uploaded_by_id").references(() => users.id, { onDelete: "set null" }),
+  fileName: text("file_name").notNull(),
+  filePath: text("file_path"),
+  fileSize: integer("file_size").notNull(),
+  declaredType: text("declared_type").notNull(),
+  detectedType: text("detected_type"),
+  reason: uploadQuarantineReasonEnum("reason").notNull(),
+  details: text("details"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_quarantined_uploads_created").on(table.createdAt),
+]);
+
+// =============================================================================
+// TABLA DE SUBIDAS DIRECTAS PENDIENTES
+// =============================================================================
+
+/**
+ * Tabla de subidas directas a R2 pendientes de completar
+ * 
+ * El navegador sube el archivo a R2 con una URL firmada; esta fila
+ * guarda lo que declaró al pedirla para verificarlo al completar. Se
+ * elimina al completarse; las que vencen se limpian junto con su
+ * archivo en el job de purga.
+ * 
+ * @property id - ID único de la subida
+ * @property userId - Cliente que sube el archivo
+ * @property caseId - Caso al que se asociará el documento
+ * @property documentRequestId - Solicitud que cumplirá el documento
+ * @property category - Categoría del documento
+ * @property description - Descripción del documento
+ * @property fileName - Nombre original del archivo
+ * @property fileType - Tipo MIME declarado
+ * @property fileSize - Tamaño declarado en bytes
+ * @property filePath - Key de destino en R2
+ * @property multipartUploadId - ID de la subida multipart (null si es un PUT único)
+ * @property expiresAt - Fecha a partir de la cual ya no puede completarse
+ * @property createdAt - Fecha de creación
+ */
+export const pendingUploads = pgTable("pending_uploads", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK users.id - Cliente que sube el archivo */
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  /** @FK tax_cases.id - Caso asociado (opcional) */
+  caseId: integer("case_id").references(() => taxCases.id, { onDelete: "cascade" }),
+  /** @FK document_requests.id - Solicitud que se cumplirá (opcional) */
+  documentRequestId: integer("document_request_id").references(() => documentRequests.id, { onDelete: "set null" }),
+  category: documentCategoryEnum("category").notNull(),
+  description: text("description"),
+  fileName: text("file_name").notNull(),
+  fileType: text("file_type").notNull(),
+  fileSize: integer("file_size").notNull(),
+  filePath: text("file_path").notNull(),
+  multipartUploadId: text("multipart_upload_id"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_pending_uploads_expires").on(table.expiresAt),
+]);
+
+// =============================================================================
+// TABLA DE SOLICITUDES DE DOCUMENTOS
+// =============================================================================
+
+/**
+ * Tabla de solicitudes de documentos
+ * 
+ * El preparador pide al cliente un documento concreto para un caso.
+ * La solicitud se cumple cuando el cliente sube un archivo desde ella
+ * y se recuerda al cliente mientras esté vencida.
+ * 
+ * @property id - ID único de la solicitud
+ * @property caseId - Caso para el que se solicita
+ * @property clientId - Cliente al que se solicita (dueño del caso)
+ * @property category - Categoría del documento solicitado
+ * @property description - Qué documento se necesita exactamente
+ * @property dueDate - Fecha límite (opcional)
+ * @property status - Estado de la solicitud
+ * @property requestedById - Usuario que creó la solicitud
+ * @property fulfilledDocumentId - Documento que cumplió la solicitud
+ * @property fulfilledAt - Fecha en que se cumplió
+ * @property lastReminderAt - Último recordatorio enviado por vencimiento
+ * @property reminderCount - Recordatorios enviados
+ * @property createdAt - Fecha de creación
+ * @property updatedAt - Fecha de última actualización
+ */
+export const documentRequests = pgTable("document_requests", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK taxCases.id - Caso asociado */
+  caseId: integer("case_id").notNull().references(() => taxCases.id, { onDelete: "cascade" }),
+  /** @FK users.id - Cliente dueño del caso */
+  clientId: integer("client_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  category: documentCategoryEnum("category").notNull().default("other"),
+  description: text("description").notNull(),
+  dueDate: timestamp("due_date"),
+  status: documentRequestStatusEnum("status").notNull().default("open"),
+  /** @FK users.id - Preparador o admin que solicitó */
+  requestedById: integer("requested_by_id").references(() => users.id, { onDelete: "set null" }),
+  /** @FK documents.id - Documento subido para cumplir la solicitud */
+  fulfilledDocumentId: integer("fulfilled_document_id").references(() => documents.id, { onDelete: "set null" }),
+  fulfilledAt: timestamp("fulfilled_at"),
+  lastReminderAt: timestamp("last_reminder_at"),
+  reminderCount: integer("reminder_count").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_document_requests_case").on(table.caseId),
+  index("IDX_document_requests_status_due").on(table.status, table.dueDate),
+]);
+
+// =============================================================================
+// TABLA DE SOLICITUDES DE FIRMA
+// =============================================================================
+
+/**
+ * Tabla de solicitudes de firma electrónica
+ * 
+ * El preparador adjunta un PDF a un caso y el cliente lo firma desde su
+ * panel. Al firmar se genera un PDF nuevo con la firma, la IP, la fecha
+ * y el hash del original, que se guarda como documento del preparador.
+ * El PDF original se conserva cifrado igual que los documentos.
+ * 
+ * @property id - ID único de la solicitud
+ * @property caseId - Caso al que pertenece
+ * @property clientId - Cliente que debe firmar (dueño del caso)
+ * @property kind - Tipo de documento (8879 o carta de compromiso)
+ * @property title - Título que ve el cliente
+ * @property fileName - Nombre original del PDF
+ * @property filePath - Key del PDF original en el almacenamiento
+ * @property encryptionKey - Clave de datos envuelta del PDF original
+ * @property documentHash - SHA-256 del PDF original
+ * @property status - Estado de la solicitud
+ * @property requestedById - Preparador que la creó
+ * @property signedDocumentId - Documento con el PDF firmado
+ * @property signatureType - Firma escrita o dibujada
+ * @property signerName - Nombre que escribió el cliente al firmar
+ * @property signerIp - IP desde la que firmó
+ * @property signerUserAgent - Navegador desde el que firmó
+ * @property signedAt - Fecha de la firma
+ * @property signedHash - SHA-256 del PDF firmado
+ * @property createdAt - Fecha de creación
+ * @property updatedAt - Fecha de última actualización
+ */
+export const signatureRequests = pgTable("signature_requests", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK taxCases.id - Caso asociado */
+  caseId: integer("case_id").notNull().references(() => taxCases.id, { onDelete: "cascade" }),
+  /** @FK users.id - Cliente que firma */
+  clientId: integer("client_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  kind: signatureRequestKindEnum("kind").notNull(),
+  title: text("title").notNull(),
+  fileName: text("file_name").notNull(),
+  filePath: text("file_path").notNull(),
+  encryptionKey: text("encryption_key"),
+  documentHash: varchar("document_hash", { length: 64 }).notNull(),
+  status: signatureRequestStatusEnum("status").notNull().default("pending"),
+  /** @FK users.id - Preparador o admin que la creó */
+  requestedById: integer("requested_by_id").references(() => users.id, { onDelete: "set null" }),
+  /** @FK documents.id - PDF firmado */
+  signedDocumentId: integer("signed_document_id").references(() => documents.id, { onDelete: "set null" }),
+  signatureType: signatureTypeEnum("signature_type"),
+  signerName: text("signer_name"),
+  signerIp: varchar("signer_ip", { length: 64 }),
+  signerUserAgent: text("signer_user_agent"),
+  signedAt: timestamp("signed_at"),
+  signedHash: varchar("signed_hash", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_signature_requests_case").on(table.caseId),
+  index("IDX_signature_requests_client_status").on(table.clientId, table.status),
+]);
 
 // =============================================================================
 // TABLA DE CITAS
@@ -345,24 +955,125 @@ export const documents = pgTable("documents", {
  * Tabla de citas programadas
  * 
  * Registra citas de clientes con preparadores de impuestos.
- * Se valida que no haya conflictos de horario (±30 min).
+ * Las citas se agendan en los horarios libres de cada preparador
+ * (ver server/appointment-slots.ts); un preparador no puede tener
+ * dos citas cuyos intervalos ocupados (duración más margen) se superpongan.
  * 
  * @property id - ID único de la cita
  * @property clientId - Cliente que agenda la cita
- * @property appointmentDate - Fecha y hora de la cita
+ * @property preparerId - Preparador que atiende la cita (null en citas anteriores a las agendas)
+ * @property appointmentType - Tipo de cita
+ * @property location - Lugar de atención
+ * @property appointmentDate - Fecha y hora de inicio de la cita
+ * @property durationMinutes - Duración de la cita en minutos
+ * @property bufferMinutes - Tiempo libre reservado después de la cita
  * @property status - Estado de la cita
  * @property notes - Notas o descripción de la cita
+ * @property confirmedAt - Cuándo el cliente confirmó asistencia (se borra al reprogramar)
  * @property createdAt - Fecha de creación
  */
 export const appointments = pgTable("appointments", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   /** @FK users.id - Cliente que agenda */
   clientId: integer("client_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  /** @FK users.id - Preparador que atiende */
+  preparerId: integer("preparer_id").references(() => users.id, { onDelete: "set null" }),
+  appointmentType: appointmentTypeEnum("appointment_type").notNull().default("initial_consultation"),
+  location: appointmentLocationEnum("location").notNull().default("office"),
   appointmentDate: timestamp("appointment_date").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(30),
+  bufferMinutes: integer("buffer_minutes").notNull().default(0),
   status: appointmentStatusEnum("status").notNull().default("scheduled"),
   notes: text("notes"),
+  confirmedAt: timestamp("confirmed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("IDX_appointments_preparer_date").on(table.preparerId, table.appointmentDate),
+]);
+
+/**
+ * Tabla de recordatorios de citas enviados
+ * 
+ * Cada fila reserva el envío de un recordatorio para un horario de la
+ * cita; el índice único evita que dos ejecuciones del job (el proceso
+ * de larga duración y el cron) envíen el mismo recordatorio. Si la cita
+ * se reprograma, el nuevo horario recibe sus propios recordatorios.
+ * 
+ * @property id - ID único del registro
+ * @property appointmentId - Cita recordada
+ * @property kind - Recordatorio de 24 horas o de 1 hora
+ * @property appointmentDate - Inicio de la cita al enviar el recordatorio
+ * @property sentAt - Fecha de envío
+ */
+export const appointmentReminders = pgTable("appointment_reminders", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK appointments.id - Cita recordada */
+  appointmentId: integer("appointment_id").notNull().references(() => appointments.id, { onDelete: "cascade" }),
+  kind: appointmentReminderKindEnum("kind").notNull(),
+  appointmentDate: timestamp("appointment_date").notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("UQ_appointment_reminders_appointment_kind_date").on(table.appointmentId, table.kind, table.appointmentDate),
+]);
+
+// =============================================================================
+// TABLAS DE DISPONIBILIDAD
+// =============================================================================
+
+/**
+ * Tabla del horario semanal de atención de los preparadores
+ * 
+ * Cada fila es una franja de un día de la semana en la que el preparador
+ * atiende citas. Un día puede tener varias franjas (p. ej. mañana y tarde).
+ * Las horas son de la zona horaria de la oficina y las franjas se
+ * recortan al horario de atención de la oficina.
+ * 
+ * @property id - ID único de la franja
+ * @property preparerId - Preparador (admin o preparer)
+ * @property weekday - Día de la semana (0 = domingo ... 6 = sábado)
+ * @property startMinute - Inicio, en minutos desde la medianoche
+ * @property endMinute - Fin, en minutos desde la medianoche
+ * @property createdAt - Fecha de creación
+ */
+export const preparerAvailability = pgTable("preparer_availability", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK users.id - Preparador */
+  preparerId: integer("preparer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  weekday: integer("weekday").notNull(),
+  startMinute: integer("start_minute").notNull(),
+  endMinute: integer("end_minute").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_preparer_availability_preparer").on(table.preparerId, table.weekday),
+]);
+
+/**
+ * Tabla de horas bloqueadas en la agenda
+ * 
+ * Feriados, vacaciones o reuniones en las que no se agendan citas.
+ * Sin preparador, el bloqueo aplica a toda la oficina (feriados).
+ * 
+ * @property id - ID único del bloqueo
+ * @property preparerId - Preparador bloqueado, o null para toda la oficina
+ * @property startsAt - Inicio del bloqueo
+ * @property endsAt - Fin del bloqueo
+ * @property reason - Motivo (p. ej. "Thanksgiving")
+ * @property createdById - Usuario que creó el bloqueo
+ * @property createdAt - Fecha de creación
+ */
+export const availabilityBlocks = pgTable("availability_blocks", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** @FK users.id - Preparador bloqueado (null = toda la oficina) */
+  preparerId: integer("preparer_id").references(() => users.id, { onDelete: "cascade" }),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: text("reason"),
+  /** @FK users.id - Usuario que creó el bloqueo */
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_availability_blocks_range").on(table.startsAt, table.endsAt),
+]);
 
 // =============================================================================
 // TABLA DE MENSAJES
@@ -457,30 +1168,90 @@ export const activityLogs = pgTable("activity_logs", {
  * 
  * Un usuario puede tener:
  * - Múltiples casos tributarios
+ * - Múltiples casos asignados (si es preparador)
  * - Múltiples documentos
  * - Múltiples citas
  * - Múltiples mensajes enviados
  */
 export const usersRelations = relations(users, ({ many }) => ({
-  taxCases: many(taxCases),
+  taxCases: many(taxCases, { relationName: "caseClient" }),
+  assignedCases: many(taxCases, { relationName: "casePreparer" }),
   documents: many(documents),
-  appointments: many(appointments),
+  appointments: many(appointments, { relationName: "appointmentClient" }),
+  preparerAppointments: many(appointments, { relationName: "appointmentPreparer" }),
+  availability: many(preparerAvailability),
   sentMessages: many(messages),
+  dependents: many(dependents),
 }));
 
 /**
  * Relaciones del modelo TaxCase
  * 
- * Un caso pertenece a un cliente y puede tener
- * múltiples documentos y mensajes asociados.
+ * Un caso pertenece a un cliente, puede estar asignado a un
+ * preparador y puede tener múltiples documentos y mensajes asociados.
  */
 export const taxCasesRelations = relations(taxCases, ({ one, many }) => ({
   client: one(users, {
     fields: [taxCases.clientId],
     references: [users.id],
+    relationName: "caseClient",
+  }),
+  assignedPreparer: one(users, {
+    fields: [taxCases.assignedPreparerId],
+    references: [users.id],
+    relationName: "casePreparer",
   }),
   documents: many(documents),
   messages: many(messages),
+  statusHistory: many(caseStatusHistory),
+  dependents: many(caseDependents),
+  documentRequests: many(documentRequests),
+  signatureRequests: many(signatureRequests),
+}));
+
+/**
+ * Relaciones del modelo CaseStatusHistory
+ * 
+ * Cada registro pertenece a un caso y, opcionalmente,
+ * al usuario que hizo el cambio.
+ */
+export const caseStatusHistoryRelations = relations(caseStatusHistory, ({ one }) => ({
+  case: one(taxCases, {
+    fields: [caseStatusHistory.caseId],
+    references: [taxCases.id],
+  }),
+  changedBy: one(users, {
+    fields: [caseStatusHistory.changedById],
+    references: [users.id],
+  }),
+}));
+
+/**
+ * Relaciones del modelo Dependent
+ * 
+ * Un dependiente pertenece a un cliente y puede declararse
+ * en varios casos (uno por año fiscal).
+ */
+export const dependentsRelations = relations(dependents, ({ one, many }) => ({
+  client: one(users, {
+    fields: [dependents.clientId],
+    references: [users.id],
+  }),
+  cases: many(caseDependents),
+}));
+
+/**
+ * Relaciones del modelo CaseDependent
+ */
+export const caseDependentsRelations = relations(caseDependents, ({ one }) => ({
+  case: one(taxCases, {
+    fields: [caseDependents.caseId],
+    references: [taxCases.id],
+  }),
+  dependent: one(dependents, {
+    fields: [caseDependents.dependentId],
+    references: [dependents.id],
+  }),
 }));
 
 /**
@@ -489,7 +1260,7 @@ export const taxCasesRelations = relations(taxCases, ({ one, many }) => ({
  * Un documento pertenece a un caso (opcional) y fue
  * subido por un usuario específico.
  */
-export const documentsRelations = relations(documents, ({ one }) => ({
+export const documentsRelations = relations(documents, ({ one, many }) => ({
   case: one(taxCases, {
     fields: [documents.caseId],
     references: [taxCases.id],
@@ -498,17 +1269,111 @@ export const documentsRelations = relations(documents, ({ one }) => ({
     fields: [documents.uploadedById],
     references: [users.id],
   }),
+  versions: many(documentVersions),
+  extraction: one(documentExtractions),
+}));
+
+/**
+ * Relaciones del modelo DocumentVersion
+ * - document: Documento lógico (N:1)
+ * - uploadedBy: Usuario que subió la versión (N:1)
+ */
+export const documentVersionsRelations = relations(documentVersions, ({ one }) => ({
+  document: one(documents, {
+    fields: [documentVersions.documentId],
+    references: [documents.id],
+  }),
+  uploadedBy: one(users, {
+    fields: [documentVersions.uploadedById],
+    references: [users.id],
+  }),
+}));
+
+/**
+ * Relaciones del modelo DocumentExtraction
+ * - document: Documento procesado (1:1)
+ * - reviewedBy: Preparador que revisó los campos (N:1)
+ */
+export const documentExtractionsRelations = relations(documentExtractions, ({ one }) => ({
+  document: one(documents, {
+    fields: [documentExtractions.documentId],
+    references: [documents.id],
+  }),
+  reviewedBy: one(users, {
+    fields: [documentExtractions.reviewedById],
+    references: [users.id],
+  }),
+}));
+
+/**
+ * Relaciones del modelo DocumentRequest
+ * 
+ * Una solicitud pertenece a un caso y puede quedar cumplida
+ * por un documento.
+ */
+export const documentRequestsRelations = relations(documentRequests, ({ one }) => ({
+  case: one(taxCases, {
+    fields: [documentRequests.caseId],
+    references: [taxCases.id],
+  }),
+  requestedBy: one(users, {
+    fields: [documentRequests.requestedById],
+    references: [users.id],
+  }),
+  fulfilledDocument: one(documents, {
+    fields: [documentRequests.fulfilledDocumentId],
+    references: [documents.id],
+  }),
+}));
+
+/**
+ * Relaciones del modelo SignatureRequest
+ * 
+ * Una solicitud de firma pertenece a un caso y, una vez firmada,
+ * apunta al documento con el PDF firmado.
+ */
+export const signatureRequestsRelations = relations(signatureRequests, ({ one }) => ({
+  case: one(taxCases, {
+    fields: [signatureRequests.caseId],
+    references: [taxCases.id],
+  }),
+  requestedBy: one(users, {
+    fields: [signatureRequests.requestedById],
+    references: [users.id],
+  }),
+  signedDocument: one(documents, {
+    fields: [signatureRequests.signedDocumentId],
+    references: [documents.id],
+  }),
 }));
 
 /**
  * Relaciones del modelo Appointment
  * 
- * Una cita pertenece a un cliente.
+ * Una cita pertenece a un cliente y la atiende un preparador.
  */
 export const appointmentsRelations = relations(appointments, ({ one }) => ({
   client: one(users, {
     fields: [appointments.clientId],
     references: [users.id],
+    relationName: "appointmentClient",
+  }),
+  preparer: one(users, {
+    fields: [appointments.preparerId],
+    references: [users.id],
+    relationName: "appointmentPreparer",
+  }),
+}));
+
+/**
+ * Relaciones del modelo PreparerAvailability
+ * 
+ * Cada franja pertenece a un preparador.
+ */
+export const preparerAvailabilityRelations = relations(preparerAvailability, ({ one }) => ({
+  preparer: one(users, {
+    fields: [preparerAvailability.preparerId],
+    references: [users.id],
   }),
 }));
 
@@ -565,6 +1430,13 @@ export const insertTaxCaseSchema = createInsertSchema(taxCases).omit({
  */
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
+  currentVersion: true,
+  reviewStatus: true,
+  rejectionReason: true,
+  reviewedById: true,
+  reviewedAt: true,
+  deletedAt: true,
+  deletedById: true,
   createdAt: true,
 });
 
@@ -608,6 +1480,94 @@ export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTo
   createdAt: true,
 });
 
+/**
+ * Esquemas de validación de los campos específicos de cada tipo de caso
+ * 
+ * Se guardan en la columna JSONB `details` de taxCases. Todos los
+ * campos son opcionales salvo los que identifican el servicio.
+ */
+export const caseDetailsSchemas = {
+  individual: z.object({
+    stateReturns: z.array(z.string().regex(/^[A-Z]{2}$/, "Código de estado inválido")).optional(),
+    selfEmployed: z.boolean().optional(),
+  }),
+  business: z.object({
+    businessName: z.string().min(1, "El nombre del negocio es requerido").max(255),
+    entityType: z.enum(["sole_proprietorship", "llc", "partnership", "s_corp", "c_corp"]),
+    ein: z.string().regex(/^\d{2}-\d{7}$/, "EIN inválido (formato XX-XXXXXXX)").optional(),
+  }),
+  itin: z.object({
+    applicantName: z.string().min(1, "El nombre del solicitante es requerido").max(255),
+    isRenewal: z.boolean().default(false),
+  }),
+  amendment: z.object({
+    originalFilingYear: z.number().int().min(1900, "Año original inválido").max(2100, "Año original inválido"),
+    reason: z.string().min(1, "El motivo de la enmienda es requerido").max(2000),
+  }),
+  planning: z.object({
+    focus: z.string().max(2000).optional(),
+  }),
+  bookkeeping: z.object({
+    businessName: z.string().min(1, "El nombre del negocio es requerido").max(255),
+    frequency: z.enum(["monthly", "quarterly", "annual"]),
+  }),
+  payroll: z.object({
+    businessName: z.string().min(1, "El nombre del negocio es requerido").max(255),
+    employeeCount: z.number().int().min(1, "Debe tener al menos un empleado"),
+    payFrequency: z.enum(["weekly", "biweekly", "semimonthly", "monthly"]),
+  }),
+} satisfies Record<(typeof caseTypeEnum.enumValues)[number], z.ZodTypeAny>;
+
+/**
+ * Esquema de validación del cuestionario de admisión
+ * 
+ * Respuestas estructuradas que el cliente completa al abrir un caso
+ * desde su portal. Se guardan en la columna JSONB `intake` de taxCases.
+ */
+export const intakeAnswersSchema = z.object({
+  filingStatus: z.enum(filingStatusEnum.enumValues, { message: "Estado civil inválido" }),
+  dependents: z.array(z.object({
+    name: z.string().min(1, "El nombre del dependiente es requerido").max(255),
+    dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Fecha de nacimiento inválida"),
+    relationship: z.enum(dependentRelationshipEnum.enumValues),
+  })).max(20, "Demasiados dependientes").default([]),
+  incomeSources: z.array(z.enum([
+    "w2",
+    "self_employment",
+    "gig_economy",
+    "unemployment",
+    "social_security",
+    "retirement",
+    "investments",
+    "rental",
+    "other",
+  ])).default([]),
+  /** Cantidad de empleadores que emitieron W-2 (si incomeSources incluye 'w2') */
+  w2Employers: z.number().int().min(1).max(20).optional(),
+  deductions: z.array(z.enum([
+    "mortgage_interest",
+    "property_tax",
+    "charitable",
+    "medical",
+    "student_loan",
+    "education",
+    "childcare",
+    "retirement_contributions",
+    "other",
+  ])).default([]),
+  lifeEvents: z.array(z.enum([
+    "marriage",
+    "divorce",
+    "new_child",
+    "home_purchase",
+    "job_change",
+    "started_business",
+    "moved_states",
+    "retirement",
+  ])).default([]),
+  notes: z.string().max(2000, "Las notas son demasiado largas").optional(),
+});
+
 /**
  * Esquema de validación para login
  * 
@@ -654,16 +1614,83 @@ export type TaxCase = typeof taxCases.$inferSelect;
 /** Tipo para inserción de caso tributario */
 export type InsertTaxCase = z.infer<typeof insertTaxCaseSchema>;
 
+/** Tipo de registro de historial de estado seleccionado */
+export type CaseStatusHistory = typeof caseStatusHistory.$inferSelect;
+/** Tipo para inserción de registro de historial de estado */
+export type InsertCaseStatusHistory = Omit<typeof caseStatusHistory.$inferInsert, "id" | "createdAt">;
+
+/** Tipo de caso (servicio contratado) */
+export type CaseType = (typeof caseTypeEnum.enumValues)[number];
+/** Campos específicos de un tipo de caso */
+export type CaseDetailsFor<T extends CaseType> = z.infer<(typeof caseDetailsSchemas)[T]>;
+/** Campos específicos de cualquier tipo de caso (columna details) */
+export type CaseDetails = CaseDetailsFor<CaseType>;
+
+/** Respuestas del cuestionario de admisión */
+export type IntakeAnswers = z.infer<typeof intakeAnswersSchema>;
+
+/** Tipo de dependiente seleccionado */
+export type Dependent = typeof dependents.$inferSelect;
+/** Tipo para inserción de dependiente */
+export type InsertDependent = Omit<typeof dependents.$inferInsert, "id" | "createdAt" | "updatedAt">;
+/** Dependiente tal como lo devuelve la API (sin el SSN cifrado) */
+export type PublicDependent = Omit<Dependent, "ssnEncrypted">;
+/** Parentesco de un dependiente */
+export type DependentRelationship = (typeof dependentRelationshipEnum.enumValues)[number];
+
+/** Tipo de vínculo caso-dependiente seleccionado */
+export type CaseDependent = typeof caseDependents.$inferSelect;
+
 /** Tipo de documento seleccionado */
 export type Document = typeof documents.$inferSelect;
 /** Tipo para inserción de documento */
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 
+/** Tipo de versión de documento seleccionada */
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+
+/** Tipo de extracción OCR seleccionada */
+export type DocumentExtraction = typeof documentExtractions.$inferSelect;
+
+/** Tipo de clave de cifrado de cliente seleccionada */
+export type ClientEncryptionKey = typeof clientEncryptionKeys.$inferSelect;
+
+/** Tipo de subida en cuarentena seleccionada */
+export type QuarantinedUpload = typeof quarantinedUploads.$inferSelect;
+
+/** Tipo de subida directa pendiente seleccionada */
+export type PendingUpload = typeof pendingUploads.$inferSelect;
+
+/** Tipo de solicitud de documento seleccionada */
+export type DocumentRequest = typeof documentRequests.$inferSelect;
+/** Tipo para inserción de solicitud de documento */
+export type InsertDocumentRequest = Omit<typeof documentRequests.$inferInsert, "id" | "createdAt" | "updatedAt">;
+
+/** Tipo de solicitud de firma seleccionada */
+export type SignatureRequest = typeof signatureRequests.$inferSelect;
+/** Tipo para inserción de solicitud de firma */
+export type InsertSignatureRequest = Omit<typeof signatureRequests.$inferInsert, "id" | "createdAt" | "updatedAt">;
+
 /** Tipo de cita seleccionada */
 export type Appointment = typeof appointments.$inferSelect;
 /** Tipo para inserción de cita */
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
 
+/** Tipo de franja de disponibilidad seleccionada */
+export type PreparerAvailability = typeof preparerAvailability.$inferSelect;
+/** Tipo para inserción de franja de disponibilidad */
+export type InsertPreparerAvailability = Omit<typeof preparerAvailability.$inferInsert, "id" | "createdAt">;
+
+/** Tipo de recordatorio de cita seleccionado */
+export type AppointmentReminder = typeof appointmentReminders.$inferSelect;
+/** Tipo para inserción de recordatorio de cita */
+export type InsertAppointmentReminder = Omit<typeof appointmentReminders.$inferInsert, "id" | "sentAt">;
+
+/** Tipo de bloqueo de agenda seleccionado */
+export type AvailabilityBlock = typeof availabilityBlocks.$inferSelect;
+/** Tipo para inserción de bloqueo de agenda */
+export type InsertAvailabilityBlock = Omit<typeof availabilityBlocks.$inferInsert, "id" | "createdAt">;
+
 /** Tipo de mensaje seleccionado */
 export type Message = typeof messages.$inferSelect;
 /** Tipo para inserción de mensaje */